@@ -0,0 +1,23 @@
+/**
+ * Shared `Show` fixture for the test suites
+ *
+ * Fills in every required field so suites only spell out what they test.
+ * When `Show` gains a required field, add its default here.
+ */
+
+import { Show, ShowStatus } from '../../src/types';
+
+export const makeShow = (overrides: Partial<Show> = {}): Show => ({
+  id: 'show',
+  title: 'Card Show',
+  location: 'Expo Center',
+  address: '1 Main St',
+  startDate: '2026-06-06T10:00:00Z',
+  endDate: '2026-06-06T16:00:00Z',
+  entryFee: 5,
+  status: ShowStatus.ACTIVE,
+  organizerId: 'org',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
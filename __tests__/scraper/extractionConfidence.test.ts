@@ -0,0 +1,120 @@
+/**
+ * Test suite for extraction confidence (supabase/functions/_shared/extractionConfidence.ts)
+ *
+ * Per-field scores and snippets decide what admins are asked to check, and
+ * autoReview decides which scraped shows are published without them.
+ */
+
+import {
+  AutoReviewInput,
+  adjustForNormalization,
+  autoReview,
+  lowConfidenceFields,
+  overallConfidence,
+  parseAutoApproveThreshold,
+  scoreFields,
+  sourceText,
+} from '../../supabase/functions/_shared/extractionConfidence';
+
+const page = sourceText(`
+  <html><body>
+    <h2>Lafayette Sports Card &amp; Collectibles Show</h2>
+    <p>Saturday, March 8th &ndash; 9am to 3pm</p>
+    <p>Knights of Columbus Hall, 1500 N. Main St, Lafayette, IN</p>
+    <p>Admission $5.00 &middot; Kids free</p>
+  </body></html>
+`);
+
+const show = (overrides: Record<string, any> = {}) => ({
+  name: 'Lafayette Sports Card & Collectibles Show',
+  startDate: '2025-03-08',
+  endDate: '2025-03-08',
+  venueName: 'Knights of Columbus Hall',
+  address: '1500 N. Main St',
+  city: 'Lafayette',
+  state: 'IN',
+  entryFee: '$5',
+  showHours: '9am to 3pm',
+  contactInfo: null,
+  ...overrides,
+});
+
+describe('extraction confidence', () => {
+  test('marks values read off the page as verbatim, with the snippet they came from', () => {
+    const fields = scoreFields(show(), page);
+
+    for (const field of ['name', 'startDate', 'venueName', 'address', 'city', 'state', 'entryFee', 'showHours']) {
+      expect(fields[field].method).toBe('verbatim');
+    }
+    expect(fields.startDate.snippet).toContain('March 8th');
+    expect(fields.entryFee.snippet).toContain('$5.00');
+    expect(fields.contactInfo).toEqual({ confidence: 0, method: 'missing', snippet: null });
+    expect(overallConfidence(fields)).toBeGreaterThanOrEqual(0.9);
+    expect(lowConfidenceFields(fields)).toEqual([]);
+  });
+
+  test('scores guessed and partly matching values lower', () => {
+    const fields = scoreFields(
+      show({ venueName: 'Columbus Community Hall', city: 'West Lafayette', state: 'OH', entryFee: '$10' }),
+      page
+    );
+
+    expect(fields.venueName.method).toBe('partial');
+    expect(fields.venueName.confidence).toBeLessThan(0.9);
+    expect(fields.state.method).toBe('inferred');
+    expect(fields.entryFee.method).toBe('inferred');
+    expect(lowConfidenceFields(fields)).toEqual(['state', 'entryFee']);
+    expect(overallConfidence(fields)).toBeLessThan(0.9);
+
+    // Structured extractors read markup the visible text may not repeat
+    expect(scoreFields(show({ state: 'OH' }), page, { structured: true }).state).toMatchObject({
+      method: 'structured',
+      confidence: 0.9,
+    });
+  });
+
+  test('lowers fields the normalizer could not parse', () => {
+    const raw = show({ startDate: 'Second Saturday', entryFee: 'Call for details' });
+    const fields = adjustForNormalization(scoreFields(raw, page), raw, {
+      ...raw,
+      startDate: 'Second Saturday',
+      endDate: 'Second Saturday',
+      entryFee: null,
+    });
+
+    expect(fields.startDate).toMatchObject({ confidence: 0.2, note: 'Could not be read as a date' });
+    expect(fields.entryFee.note).toBe('No amount found');
+    expect(lowConfidenceFields(fields)).toContain('startDate');
+  });
+
+  test('auto-approves only new, confident, geocoded, upcoming shows', () => {
+    const fields = scoreFields(show(), page);
+    const input: AutoReviewInput = {
+      confidence: overallConfidence(fields),
+      fields,
+      changeType: 'new',
+      geocoded: true,
+      geocodePrecise: true,
+      dateCheck: { valid: true },
+    };
+
+    expect(autoReview(input, 0.9)).toEqual({ approve: true, reasons: [] });
+    expect(autoReview(input, null).reasons).toEqual(['Auto-approval is off']);
+    expect(autoReview({ ...input, changeType: 'changed' }, 0.9).approve).toBe(false);
+    expect(autoReview({ ...input, geocodePrecise: false }, 0.9).reasons).toEqual([
+      'Address only geocoded approximately',
+    ]);
+    expect(autoReview({ ...input, dateCheck: { valid: false, reason: 'Past event' } }, 0.9).reasons).toEqual([
+      'Past event',
+    ]);
+    expect(autoReview({ ...input, duplicateScore: 0.85 }, 0.9).approve).toBe(false);
+    expect(autoReview({ ...input, confidence: 0.8 }, 0.9).reasons).toEqual(['Confidence 0.80 is below 0.9']);
+  });
+
+  test('reads the threshold setting, turning auto-approval off when unreadable', () => {
+    expect(parseAutoApproveThreshold(undefined)).toBe(0.9);
+    expect(parseAutoApproveThreshold('0.95')).toBe(0.95);
+    expect(parseAutoApproveThreshold('off')).toBeNull();
+    expect(parseAutoApproveThreshold('95')).toBeNull();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Test suite for the scraper extractors (supabase/functions/_shared/extractors)
+ *
+ * Regression tests against saved pages in ./fixtures, one per extractor,
+ * plus extractor selection and the AI fallback. When a promoter site
+ * changes layout, save the new page as a fixture and update the expected
+ * shows here.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+  extractShows,
+  selectExtractors,
+  ExtractionContext,
+} from '../../supabase/functions/_shared/extractors/index';
+import { dpmsIndianaExtractor } from '../../supabase/functions/_shared/extractors/dpmsIndiana';
+import { facebookEventExtractor } from '../../supabase/functions/_shared/extractors/facebookEvent';
+import { htmlTableExtractor } from '../../supabase/functions/_shared/extractors/htmlTable';
+import { jsonLdEventExtractor } from '../../supabase/functions/_shared/extractors/jsonLdEvent';
+import { parseAiResponse } from '../../supabase/functions/_shared/extractors/aiFallback';
+import { parseSimpleHours, splitDateRange } from '../../supabase/functions/_shared/extractors/html';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+const context = (url: string, overrides: Partial<ExtractionContext> = {}): ExtractionContext => ({
+  url,
+  now: new Date('2025-01-01T12:00:00Z'),
+  ...overrides,
+});
+
+const DPMS_URL = 'https://dpmsportcards.com/indiana-card-shows/';
+const FACEBOOK_URL = 'https://www.facebook.com/events/1234567890123456/';
+
+describe('scraper extractors', () => {
+  describe('dpms-indiana', () => {
+    test('parses one show per line and skips repeats', () => {
+      const shows = dpmsIndianaExtractor.extract(fixture('dpms-indiana.html'), context(DPMS_URL));
+
+      expect(shows).toEqual([
+        expect.objectContaining({
+          name: 'Lafayette',
+          startDate: '2025-01-11',
+          endDate: '2025-01-11',
+          venueName: 'Knights of Columbus',
+          address: '1600 S 9th St',
+          city: 'Lafayette',
+          state: 'IN',
+          showHours: '9-2',
+          contactInfo: 'Bob Smith (765) 555-0100',
+          entryFee: 'free',
+          url: DPMS_URL,
+        }),
+        expect.objectContaining({
+          name: 'Indianapolis',
+          startDate: '2025-01-18',
+          endDate: '2025-01-19',
+          venueName: 'Marriott East',
+          address: '7202 E 21st St',
+          showHours: 'Sat 9-4, Sun 10-3',
+          contactInfo: 'Jim Parker (317) 555-0142',
+        }),
+        expect.objectContaining({
+          name: 'Kokomo',
+          startDate: '2025-02-01',
+          venueName: 'Elks Lodge',
+          address: '2501 E Jefferson St',
+          showHours: '8am-1pm',
+          contactInfo: null,
+        }),
+      ]);
+    });
+
+    test('rolls dates more than two months back into next year', () => {
+      const shows = dpmsIndianaExtractor.extract(
+        fixture('dpms-indiana.html'),
+        context(DPMS_URL, { now: new Date('2025-12-01T12:00:00Z') })
+      ) as any[];
+
+      expect(shows[0].startDate).toBe('2026-01-11');
+    });
+  });
+
+  describe('json-ld-event', () => {
+    test('reads events from @graph item lists and standalone blocks', () => {
+      const html = fixture('json-ld-events.html');
+      expect(jsonLdEventExtractor.detect?.(html)).toBe(true);
+
+      const shows = jsonLdEventExtractor.extract(html, context('https://prairiestatecards.example.com/shows'));
+
+      expect(shows).toEqual([
+        expect.objectContaining({
+          name: 'Peoria Spring Card Show',
+          startDate: '2025-03-15',
+          endDate: '2025-03-15',
+          showHours: '9:00am-3:00pm',
+          venueName: 'Peoria Civic Center',
+          address: '201 SW Jefferson Ave',
+          city: 'Peoria',
+          state: 'IL',
+          zipCode: '61602',
+          entryFee: '$5',
+          description: '80 tables of sports & Pokémon cards.',
+          contactInfo: 'Prairie State Card Shows',
+          url: 'https://prairiestatecards.example.com/events/peoria-spring',
+        }),
+        expect.objectContaining({
+          name: 'Springfield Collectors Expo',
+          startDate: '2025-04-05',
+          endDate: '2025-04-06',
+          venueName: 'Prairie Capital Convention Center',
+          address: '1 Convention Center Plaza, Springfield, IL 62701',
+          entryFee: 'free',
+          showHours: null,
+          url: 'https://prairiestatecards.example.com/shows',
+        }),
+      ]);
+    });
+  });
+
+  describe('facebook-event', () => {
+    test('combines OpenGraph tags with the embedded event data', () => {
+      const shows = facebookEventExtractor.extract(fixture('facebook-event.html'), context(FACEBOOK_URL));
+
+      expect(shows).toEqual([
+        expect.objectContaining({
+          name: 'Central Illinois Spring Card Show',
+          startDate: '2025-03-22',
+          endDate: '2025-03-22',
+          showHours: '9:00am-3:00pm',
+          venueName: 'Interstate Center – Expo Hall',
+          address: '2301 W Market St, Bloomington, IL 61705',
+          city: 'Bloomington',
+          state: 'IL',
+          contactInfo: 'Central Illinois Collectors',
+          url: FACEBOOK_URL,
+        }),
+      ]);
+    });
+  });
+
+  describe('html-table', () => {
+    test('maps columns by header and skips navigation tables and blank rows', () => {
+      const html = fixture('html-table.html');
+      expect(htmlTableExtractor.detect?.(html)).toBe(true);
+
+      const shows = htmlTableExtractor.extract(html, context('https://lonestarcardshows.example.com/calendar'));
+
+      expect(shows).toEqual([
+        expect.objectContaining({
+          name: 'Dallas Card & Collectibles Show',
+          startDate: 'March 8, 2025',
+          endDate: 'March 9, 2025',
+          venueName: 'Market Hall',
+          city: 'Dallas',
+          state: 'TX',
+          showHours: '9am-5pm',
+          entryFee: '$10',
+        }),
+        expect.objectContaining({
+          name: 'Fort Worth Monthly',
+          startDate: 'Mar 22, 2025',
+          endDate: 'Mar 22, 2025',
+          entryFee: 'Free',
+        }),
+        expect.objectContaining({
+          name: 'Austin Expo Hall',
+          startDate: 'March 31, 2025',
+          endDate: 'April 1, 2025',
+          city: 'Austin',
+        }),
+      ]);
+    });
+  });
+
+  describe('registry', () => {
+    test('tries site extractors, then detected generic ones, then AI', () => {
+      const ids = (url: string, html: string) => selectExtractors(url, html).map((e) => e.id);
+
+      expect(ids(DPMS_URL, fixture('dpms-indiana.html'))).toEqual(['dpms-indiana', 'ai-generic']);
+      expect(ids(FACEBOOK_URL, fixture('facebook-event.html'))).toEqual(['facebook-event', 'ai-generic']);
+      expect(ids('https://example.com/shows', fixture('json-ld-events.html'))).toEqual([
+        'json-ld-event',
+        'ai-generic',
+      ]);
+      expect(ids('https://sportscollectorsdigest.com/show-calendar', '<p>No markup</p>')).toEqual([
+        'ai-sports-collectors-digest',
+        'ai-generic',
+      ]);
+    });
+
+    test('uses the first extractor that finds shows', async () => {
+      const outcome = await extractShows(fixture('dpms-indiana.html'), context(DPMS_URL));
+
+      expect(outcome.extractorId).toBe('dpms-indiana');
+      expect(outcome.structured).toBe(true);
+      expect(outcome.shows).toHaveLength(3);
+      expect(outcome.attempted).toEqual(['dpms-indiana']);
+    });
+
+    test('falls back to AI when nothing else finds shows', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [
+            {
+              content: {
+                parts: [{ text: '```json\n[{"name":"Tulsa Card Show","startDate":"May 3, 2025","state":"OK"}]\n```' }],
+              },
+            },
+          ],
+        }),
+      } as Response);
+
+      try {
+        const outcome = await extractShows(
+          '<html><body><p>Tulsa Card Show – May 3 at the fairgrounds</p></body></html>',
+          context('https://tulsacards.example.com', { aiApiKey: 'test-key' })
+        );
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(outcome.extractorId).toBe('ai-generic');
+        expect(outcome.structured).toBe(false);
+        expect(outcome.shows).toEqual([
+          expect.objectContaining({
+            name: 'Tulsa Card Show',
+            startDate: 'May 3, 2025',
+            endDate: 'May 3, 2025',
+            state: 'OK',
+            url: 'https://tulsacards.example.com',
+          }),
+        ]);
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    test('reports the error when the AI key is missing', async () => {
+      const outcome = await extractShows('<p>Nothing here</p>', context('https://example.com'));
+
+      expect(outcome.shows).toEqual([]);
+      expect(outcome.errors).toEqual(['ai-generic: Missing Google AI API key']);
+    });
+  });
+
+  describe('helpers', () => {
+    test('parseAiResponse tolerates fences, prose and bad JSON', () => {
+      expect(parseAiResponse('Here you go: [{"name":"A"}] Hope this helps')).toEqual([{ name: 'A' }]);
+      expect(parseAiResponse('```json\n[]\n```')).toEqual([]);
+      expect(parseAiResponse('[{"name":')).toEqual([]);
+      expect(parseAiResponse('No shows found.')).toEqual([]);
+    });
+
+    test('parseSimpleHours and splitDateRange', () => {
+      expect(parseSimpleHours('9-2')).toEqual({ startTime: '9:00am', endTime: '2:00pm' });
+      expect(parseSimpleHours('10:30am – 4pm')).toEqual({ startTime: '10:30am', endTime: '4pm' });
+      expect(parseSimpleHours('Sat 9-4, Sun 10-3')).toEqual({ startTime: null, endTime: null });
+
+      expect(splitDateRange('Jan 5th - 6th')).toEqual({ start: 'Jan 5', end: 'Jan 6' });
+      expect(splitDateRange('Sunday, June 1, 2025')).toEqual({
+        start: 'Sunday, June 1, 2025',
+        end: 'Sunday, June 1, 2025',
+      });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Test suite for scrape change detection (supabase/functions/_shared/scrapeDiff.ts)
+ *
+ * Page hashing has to ignore markup noise that changes on every request,
+ * and the show diff decides what lands in scraped_shows_pending.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+  changedFields,
+  diffShows,
+  hashPageContent,
+  normalizeHtmlForHash,
+  showKey,
+  ShowSnapshot,
+  toExtractedShow,
+} from '../../supabase/functions/_shared/scrapeDiff';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+const show = (overrides: Record<string, any> = {}) => ({
+  name: 'Lafayette Card Show',
+  startDate: '2025-01-11',
+  endDate: '2025-01-11',
+  venueName: 'Knights of Columbus',
+  city: 'Lafayette',
+  state: 'IN',
+  showHours: '9-2',
+  url: 'https://dpmsportcards.com/indiana-card-shows/',
+  ...overrides,
+});
+
+const snapshotOf = async (payload: Record<string, any>, removedAt: string | null = null): Promise<ShowSnapshot> => {
+  const extracted = await toExtractedShow(payload);
+  return { ...extracted, removedAt };
+};
+
+const upcoming = () => true;
+
+describe('scrape change detection', () => {
+  describe('page hashing', () => {
+    test('ignores scripts, styles and comments but keeps JSON data blocks', async () => {
+      const page = fixture('dpms-indiana.html');
+      const noisy = page
+        .replace('</head>', '<script>window.__nonce="8f2a91";</script><style>.x{}</style></head>')
+        .replace('</body>', '<!-- rendered in 41ms --></body>');
+
+      expect(await hashPageContent(noisy)).toBe(await hashPageContent(page));
+      expect(await hashPageContent(page.replace('Lafayette', 'West Lafayette'))).not.toBe(
+        await hashPageContent(page)
+      );
+
+      const jsonLd = normalizeHtmlForHash(fixture('json-ld-events.html'));
+      expect(jsonLd).toContain('Peoria Spring Card Show');
+    });
+  });
+
+  describe('show keys', () => {
+    test('match across date formats and punctuation', () => {
+      expect(showKey(show({ name: 'Lafayette Card Show!', startDate: 'January 11th, 2025' }))).toBe(
+        showKey(show())
+      );
+      expect(showKey(show({ startDate: '2025-01-12' }))).not.toBe(showKey(show()));
+    });
+  });
+
+  describe('diffShows', () => {
+    test('sorts shows into added, changed, unchanged and removed', async () => {
+      const previous = [
+        await snapshotOf(show()),
+        await snapshotOf(show({ name: 'Kokomo', city: 'Kokomo', startDate: '2025-02-01' })),
+        await snapshotOf(show({ name: 'Muncie', city: 'Muncie', startDate: '2025-02-08' })),
+      ];
+      const current = [
+        await toExtractedShow(show({ extractedAt: '2025-01-02T00:00:00Z' })),
+        await toExtractedShow(show({ name: 'Kokomo', city: 'Kokomo', startDate: '2025-02-01', showHours: '8-1' })),
+        await toExtractedShow(show({ name: 'Anderson', city: 'Anderson', startDate: '2025-02-15' })),
+      ];
+
+      const diff = diffShows(previous, current, { isUpcoming: upcoming });
+
+      expect(diff.unchanged.map((s) => s.payload.name)).toEqual(['Lafayette Card Show']);
+      expect(diff.changed.map(({ current: s }) => s.payload.name)).toEqual(['Kokomo']);
+      expect(diff.added.map((s) => s.payload.name)).toEqual(['Anderson']);
+      expect(diff.removed.map((s) => s.payload.name)).toEqual(['Muncie']);
+      expect(changedFields(diff.changed[0].previous.payload, diff.changed[0].current.payload)).toEqual([
+        'showHours',
+      ]);
+    });
+
+    test('only flags upcoming shows as removed, and nothing when the page came back empty', async () => {
+      const previous = [
+        await snapshotOf(show()),
+        await snapshotOf(show({ name: 'Muncie', city: 'Muncie', startDate: '2025-02-08' })),
+      ];
+      const current = [await toExtractedShow(show({ name: 'Anderson', city: 'Anderson' }))];
+      const isUpcoming = (payload: Record<string, any>) => payload.startDate >= '2025-02-01';
+
+      expect(diffShows(previous, current, { isUpcoming }).removed.map((s) => s.payload.name)).toEqual(['Muncie']);
+      expect(diffShows(previous, [], { isUpcoming: upcoming }).removed).toEqual([]);
+    });
+
+    test('reports a show that came back after removal as changed, once', async () => {
+      const previous = [await snapshotOf(show(), '2025-01-05T00:00:00Z')];
+      const current = [await toExtractedShow(show()), await toExtractedShow(show())];
+
+      const diff = diffShows(previous, current, { isUpcoming: upcoming });
+
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.added).toEqual([]);
+      expect(diff.removed).toEqual([]);
+    });
+  });
+});
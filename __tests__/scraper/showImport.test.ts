@@ -0,0 +1,191 @@
+/**
+ * Test suite for the show import pipeline (supabase/functions/_shared/importFormats.ts
+ * and supabase/functions/_shared/showImport.ts)
+ *
+ * File parsing for each upload format, column mapping for the files the
+ * old importers read, the row-level validation report and the dry-run
+ * diff against an existing show.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { detectFormat, parseDelimited, parseImportFile } from '../../supabase/functions/_shared/importFormats';
+import {
+  diffAgainstShow,
+  importSourceUrl,
+  prepareImport,
+  suggestMapping,
+  toIsoDate,
+} from '../../supabase/functions/_shared/showImport';
+
+const now = new Date('2026-01-15T12:00:00Z');
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('import file formats', () => {
+  test('reads quoted CSV fields with commas, quotes and line breaks', async () => {
+    expect(parseDelimited('a,b\n"x, y","say ""hi""\nthere"\r\n', ',')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+
+    const file = await parseImportFile(bytes('\uFEFFname,,name\nShow,x,Again\n\n'), { fileName: 'shows.csv' });
+    expect(file.headers).toEqual(['name', 'Column 2', 'name (2)']);
+    expect(file.rows).toEqual([{ rowNumber: 2, values: { name: 'Show', 'Column 2': 'x', 'name (2)': 'Again' } }]);
+
+    const multiline = await parseImportFile(bytes('name,notes\nA,"two\nlines"\nB,x\n'), { fileName: 'shows.csv' });
+    expect(multiline.rows.map((row) => row.rowNumber)).toEqual([2, 4]);
+  });
+
+  test('detects TSV and JSON, flattening nested JSON objects', async () => {
+    expect(detectFormat('upload.txt', bytes('name\tcity\nA\tB'))).toBe('tsv');
+    expect(detectFormat('upload', bytes('  [{"name": "A"}]'))).toBe('json');
+    expect(() => detectFormat('old.xls', bytes(''))).toThrow(/\.xls/);
+
+    const file = await parseImportFile(
+      bytes(JSON.stringify({ shows: [{ name: 'Expo', venue: { city: 'Irving', state: 'TX' }, tags: ['tcg', 'sports'] }] })),
+      { fileName: 'feed.json' }
+    );
+    expect(file.format).toBe('json');
+    expect(file.rows[0].values).toEqual({
+      name: 'Expo',
+      'venue.city': 'Irving',
+      'venue.state': 'TX',
+      tags: 'tcg, sports',
+    });
+  });
+
+  test('reads an XLSX sheet with shared, rich and inline strings', async () => {
+    const xlsx = new Uint8Array(fs.readFileSync(path.join(__dirname, 'fixtures', 'shows.xlsx')));
+    const file = await parseImportFile(xlsx, { fileName: 'shows.xlsx' });
+
+    expect(file.sheets).toEqual(['Spring Shows', 'Notes']);
+    expect(file.sheet).toBe('Spring Shows');
+    expect(file.headers).toEqual(['Show Name', 'Date', 'Venue', 'City', 'State', 'Zip', 'Admission']);
+    expect(file.rows).toHaveLength(2);
+    expect(file.rows[1]).toEqual({
+      rowNumber: 3,
+      values: {
+        'Show Name': 'Boston Card & Memorabilia Show',
+        Date: '46123',
+        Venue: 'Hynes Convention Center',
+        City: 'Boston',
+        State: 'Massachusetts',
+        Zip: '2115',
+        Admission: '$10 at the door',
+      },
+    });
+
+    const notes = await parseImportFile(xlsx, { fileName: 'shows.xlsx', sheet: 'Notes' });
+    expect(notes.rows[0].values).toEqual({ Note: 'Prices subject to change' });
+  });
+});
+
+describe('show import', () => {
+  test('suggests mappings for the columns of the old importers', () => {
+    expect(suggestMapping(['title', 'address', 'start_date', 'end_date', 'city', 'state', 'zip', 'location', 'entry_fee', 'website_url'])).toEqual({
+      name: ['title'],
+      address: ['address'],
+      startDate: ['start_date'],
+      endDate: ['end_date'],
+      city: ['city'],
+      state: ['state'],
+      zipCode: ['zip'],
+      venueName: ['location'],
+      entryFee: ['entry_fee'],
+      url: ['website_url'],
+    });
+
+    expect(suggestMapping(['name', 'date', 'venue', 'admission', 'hours', 'contact', 'phone', 'email'])).toMatchObject({
+      startDate: ['date'],
+      venueName: ['venue'],
+      entryFee: ['admission'],
+      showHours: ['hours'],
+      contactInfo: ['contact', 'phone', 'email'],
+    });
+  });
+
+  test('reads dates in the formats spreadsheets and promoters use', () => {
+    expect(toIsoDate('2026-03-14')).toBe('2026-03-14');
+    expect(toIsoDate('3/14/26')).toBe('2026-03-14');
+    expect(toIsoDate('14/03/2026', 'dmy')).toBe('2026-03-14');
+    expect(toIsoDate('Sat, March 14th 2026')).toBe('2026-03-14');
+    expect(toIsoDate('46095')).toBe('2026-03-14');
+    expect(toIsoDate('March 14')).toBeNull();
+    expect(toIsoDate('2/30/2026')).toBeNull();
+  });
+
+  test('normalizes XLSX rows and reports errors and warnings per row', async () => {
+    const xlsx = new Uint8Array(fs.readFileSync(path.join(__dirname, 'fixtures', 'shows.xlsx')));
+    const file = await parseImportFile(xlsx, { fileName: 'shows.xlsx' });
+    const report = prepareImport(file.rows, suggestMapping(file.headers), {}, now);
+
+    expect(report).toMatchObject({ totalRows: 2, validRows: 2, invalidRows: 0, warningRows: 2, unmappedRequired: [] });
+    expect(report.rows[0].show).toMatchObject({
+      name: 'Monthly Indianapolis Card Show',
+      startDate: '2026-03-14',
+      endDate: '2026-03-14',
+      state: 'IN',
+      entryFee: 0,
+      address: 'Indianapolis, IN 46203',
+    });
+    expect(report.rows[1].show).toMatchObject({ state: 'MA', zipCode: '02115', entryFee: 10 });
+    expect(report.rows[1].issues).toEqual([
+      { field: 'address', severity: 'warning', message: 'No street address; the show will be placed at the city' },
+    ]);
+
+    const rows = [
+      { rowNumber: 2, values: { name: 'Expo', date: '2026-02-01', end: '2026-01-31', city: 'Irving', state: 'TX' } },
+      { rowNumber: 3, values: { name: 'Old Show', date: '2025-06-01', end: '', city: 'Irving', state: 'Texas' } },
+      { rowNumber: 4, values: { name: '', date: 'TBA', end: '', city: 'Springfield', state: 'ZZ' } },
+      { rowNumber: 5, values: { name: 'Card Con', date: '2026-03-01', end: '', city: 'Irving', state: 'tx' } },
+      { rowNumber: 6, values: { name: 'Card  Con', date: '3/1/2026', end: '', city: 'irving', state: 'TX' } },
+    ];
+    const invalid = prepareImport(
+      rows,
+      { name: ['name'], startDate: ['date'], endDate: ['end'], city: ['city'], state: ['state'] },
+      {},
+      now
+    );
+    const errors = (rowNumber: number) =>
+      invalid.rows
+        .find((row) => row.rowNumber === rowNumber)!
+        .issues.filter((issue) => issue.severity === 'error')
+        .map((issue) => issue.message);
+
+    expect(errors(2)).toEqual(['End date is before the start date']);
+    expect(errors(3)).toEqual(['Show is in the past']);
+    expect(errors(4)).toEqual(['Show name is missing', 'Start date "TBA" is not a full date', '"ZZ" is not a US state']);
+    expect(errors(5)).toEqual([]);
+    expect(errors(6)).toEqual(['Same show as row 5']);
+    expect(invalid).toMatchObject({ validRows: 1, invalidRows: 4 });
+  });
+
+  test('diffs a row against the show it matches', () => {
+    const [row] = prepareImport(
+      [{ rowNumber: 2, values: { name: 'Card Con', date: '2026-03-01', city: 'Irving', state: 'TX', fee: '$8', venue: '' } }],
+      { name: ['name'], startDate: ['date'], city: ['city'], state: ['state'], entryFee: ['fee'], venueName: ['venue'] },
+      {},
+      now
+    ).rows;
+    const existing = {
+      id: 'show-1',
+      title: 'Card Con',
+      location: 'Irving Convention Center',
+      address: 'Irving, TX',
+      start_date: '2026-03-01T00:00:00+00:00',
+      end_date: '2026-03-01T00:00:00+00:00',
+      entry_fee: '5.00',
+      description: null,
+    };
+
+    expect(diffAgainstShow(row.show, null)).toEqual({ action: 'new', changes: [] });
+    // An empty venue in the file keeps the show's venue
+    expect(diffAgainstShow(row.show, existing)).toEqual({
+      action: 'update',
+      changes: [{ field: 'entryFee', from: '5', to: '8' }],
+    });
+    expect(diffAgainstShow(row.show, { ...existing, entry_fee: 8 }).action).toBe('unchanged');
+    expect(importSourceUrl('Indy Card Shows (2026)')).toBe('import://indy-card-shows-2026');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Test suite for scraper source scheduling (supabase/functions/_shared/sourceScheduler.ts)
+ *
+ * Backoff and auto-disable after failures, and how the per-run budget is
+ * split between productive, stale and never-crawled sources.
+ */
+
+import {
+  MAX_ERROR_STREAK,
+  SourceStats,
+  backoffDelayMs,
+  planCrawl,
+  shouldDisable,
+  sourceScore,
+} from '../../supabase/functions/_shared/sourceScheduler';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-03-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR).toISOString();
+
+const source = (url: string, overrides: Partial<SourceStats> = {}): SourceStats => ({
+  url,
+  priorityScore: 50,
+  lastCrawledAt: hoursAgo(24),
+  crawlCount: 10,
+  approvedCount: 10,
+  ...overrides,
+});
+
+describe('source scheduler', () => {
+  test('backs off exponentially and disables after repeated failures', () => {
+    expect(backoffDelayMs(0)).toBe(0);
+    expect(backoffDelayMs(1)).toBe(HOUR);
+    expect(backoffDelayMs(3)).toBe(4 * HOUR);
+    expect(backoffDelayMs(20)).toBe(7 * 24 * HOUR);
+
+    expect(shouldDisable(MAX_ERROR_STREAK - 1)).toBe(false);
+    expect(shouldDisable(MAX_ERROR_STREAK)).toBe(true);
+  });
+
+  test('scores by yield per crawl and time since the last crawl', () => {
+    const productive = source('a', { approvedCount: 29 });
+    const barren = source('b', { approvedCount: 0 });
+
+    expect(sourceScore(productive, now)).toBeGreaterThan(sourceScore(barren, now));
+    expect(sourceScore(source('c', { lastCrawledAt: hoursAgo(72) }), now)).toBeGreaterThan(
+      sourceScore(source('c'), now)
+    );
+    expect(sourceScore(source('d', { lastCrawledAt: null }), now)).toBe(Infinity);
+  });
+
+  test('fills the budget by score and keeps one slot for the longest-waiting source', () => {
+    const sources = [
+      source('barren-stale', { approvedCount: 0, lastCrawledAt: hoursAgo(24 * 10) }),
+      source('productive', { approvedCount: 40 }),
+      source('steady', { approvedCount: 15 }),
+      source('fresh', { approvedCount: 40, lastCrawledAt: hoursAgo(1) }),
+      source('brand-new', { lastCrawledAt: null, crawlCount: 0, approvedCount: 0 }),
+    ];
+
+    expect(planCrawl(sources, 3, now)).toEqual(['brand-new', 'productive', 'barren-stale']);
+    expect(planCrawl(sources, 3, now, { explorationSlots: 0 })).toEqual(['brand-new', 'productive', 'steady']);
+    expect(planCrawl(sources, 1, now)).toEqual(['brand-new']);
+    expect(planCrawl(sources, 10, now)).toHaveLength(5);
+    expect(planCrawl(sources, 0, now)).toEqual([]);
+  });
+});
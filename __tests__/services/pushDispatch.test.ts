@@ -0,0 +1,282 @@
+/**
+ * Test suite for the push outbox worker (supabase/functions/_shared/pushDispatch.ts)
+ *
+ * Quiet hours, opt-outs, retry backoff and dead-lettering, run against
+ * MockPushProvider, plus chunking of large batches by ExpoPushProvider.
+ */
+
+import {
+  DeviceRow,
+  MAX_RETRY_DELAY_MS,
+  OutboxRow,
+  PreferencesRow,
+  dispatchOutbox,
+  localMinutes,
+  quietHoursEnd,
+  retryDelayMs,
+} from '../../supabase/functions/_shared/pushDispatch';
+import { ExpoPushProvider, MockPushProvider, PushMessage } from '../../supabase/functions/_shared/push-providers';
+
+const MINUTE = 60 * 1000;
+// 11:30 PM in New York
+const now = new Date('2026-01-15T04:30:00Z');
+
+const row = (id: string, overrides: Partial<OutboxRow> = {}): OutboxRow => ({
+  id,
+  user_id: 'user-1',
+  type: 'show_change',
+  title: 'Show moved',
+  body: 'Your saved show has a new date',
+  data: { showId: 'show-1' },
+  attempts: 1,
+  max_attempts: 5,
+  ...overrides,
+});
+
+const prefs = (overrides: Partial<PreferencesRow> = {}): PreferencesRow => ({
+  user_id: 'user-1',
+  push_enabled: true,
+  disabled_types: [],
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'America/New_York',
+  ...overrides,
+});
+
+const device = (token: string, userId = 'user-1'): DeviceRow => ({ id: `device-${token}`, user_id: userId, token });
+
+const changesFor = (result: Awaited<ReturnType<typeof dispatchOutbox>>, id: string) =>
+  result.updates.find(update => update.id === id)?.changes;
+
+describe('push outbox dispatch', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('quiet hours', () => {
+    test('returns when an overnight window ends in the user timezone', () => {
+      const overnight = prefs({ quiet_hours_start: '22:00:00', quiet_hours_end: '07:00:00' });
+
+      expect(quietHoursEnd(overnight, now)?.toISOString()).toBe('2026-01-15T12:00:00.000Z');
+      expect(quietHoursEnd(overnight, new Date('2026-01-15T11:59:00Z'))?.toISOString()).toBe(
+        '2026-01-15T12:00:00.000Z'
+      );
+      expect(quietHoursEnd(overnight, new Date('2026-01-15T12:00:00Z'))).toBeNull();
+      expect(quietHoursEnd(overnight, new Date('2026-01-15T02:59:00Z'))).toBeNull();
+    });
+
+    test('handles daytime windows and ignores empty or zero-length ones', () => {
+      const lunch = prefs({ quiet_hours_start: '12:00', quiet_hours_end: '13:00', timezone: 'UTC' });
+
+      expect(quietHoursEnd(lunch, new Date('2026-01-15T12:15:00Z'))?.toISOString()).toBe('2026-01-15T13:00:00.000Z');
+      expect(quietHoursEnd(lunch, new Date('2026-01-15T13:00:00Z'))).toBeNull();
+      expect(quietHoursEnd(prefs({ quiet_hours_start: '22:00', quiet_hours_end: '22:00' }), now)).toBeNull();
+      expect(quietHoursEnd(prefs(), now)).toBeNull();
+      expect(quietHoursEnd(undefined, now)).toBeNull();
+    });
+
+    test('reads unknown timezones as UTC', () => {
+      expect(localMinutes(now, 'Not/AZone')).toBe(4 * 60 + 30);
+      expect(localMinutes(now, null)).toBe(4 * 60 + 30);
+      expect(localMinutes(now, 'America/Los_Angeles')).toBe(20 * 60 + 30);
+    });
+
+    test('defers the row without sending or using up an attempt', async () => {
+      const provider = new MockPushProvider();
+      const result = await dispatchOutbox(
+        [row('a', { attempts: 2 })],
+        [prefs({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' })],
+        [device('token-1')],
+        provider,
+        now
+      );
+
+      expect(provider.sent).toHaveLength(0);
+      expect(result.stats).toMatchObject({ claimed: 1, deferred: 1, sent: 0 });
+      expect(changesFor(result, 'a')).toEqual({
+        status: 'pending',
+        attempts: 1,
+        next_attempt_at: '2026-01-15T12:00:00.000Z',
+      });
+    });
+  });
+
+  test('skips opted-out users, disabled types and users without devices', async () => {
+    const provider = new MockPushProvider();
+    const result = await dispatchOutbox(
+      [
+        row('off', { user_id: 'user-off' }),
+        row('type', { user_id: 'user-type', type: 'badge_earned' }),
+        row('no-device', { user_id: 'user-none' }),
+        row('ok', { user_id: 'user-ok' }),
+      ],
+      [
+        prefs({ user_id: 'user-off', push_enabled: false }),
+        prefs({ user_id: 'user-type', disabled_types: ['badge_earned'] }),
+      ],
+      [device('token-type', 'user-type'), device('token-off', 'user-off'), device('token-ok', 'user-ok')],
+      provider,
+      now
+    );
+
+    expect(result.stats).toMatchObject({ claimed: 4, skipped: 3, sent: 1 });
+    expect(changesFor(result, 'off')).toEqual({ status: 'skipped', last_error: 'Disabled by user preferences' });
+    expect(changesFor(result, 'type')).toEqual({ status: 'skipped', last_error: 'Disabled by user preferences' });
+    expect(changesFor(result, 'no-device')).toEqual({ status: 'skipped', last_error: 'No registered devices' });
+    expect(provider.sent.map((message: PushMessage) => message.to)).toEqual(['token-ok']);
+    expect(provider.sent[0].data).toEqual({ showId: 'show-1', outboxId: 'ok' });
+  });
+
+  describe('retries and dead-lettering', () => {
+    test('backs off exponentially up to six hours', () => {
+      expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE]);
+      expect(retryDelayMs(0)).toBe(MINUTE);
+      expect(retryDelayMs(20)).toBe(MAX_RETRY_DELAY_MS);
+    });
+
+    test('reschedules a failed delivery with backoff', async () => {
+      const result = await dispatchOutbox(
+        [row('a', { attempts: 3 })],
+        [],
+        [device('fail:token-1')],
+        new MockPushProvider(),
+        now
+      );
+
+      expect(result.stats).toMatchObject({ retried: 1, dead: 0 });
+      expect(changesFor(result, 'a')).toEqual({
+        status: 'pending',
+        last_error: 'Mock transient failure',
+        next_attempt_at: new Date(now.getTime() + 4 * MINUTE).toISOString(),
+      });
+    });
+
+    test('dead-letters a row on its last attempt', async () => {
+      const result = await dispatchOutbox(
+        [row('a', { attempts: 5, max_attempts: 5 })],
+        [],
+        [device('fail:token-1')],
+        new MockPushProvider(),
+        now
+      );
+
+      expect(result.stats).toMatchObject({ retried: 0, dead: 1 });
+      expect(changesFor(result, 'a')).toEqual({ status: 'dead', last_error: 'Mock transient failure' });
+    });
+
+    test('retries every row when the provider is down', async () => {
+      const result = await dispatchOutbox(
+        [row('a'), row('b', { user_id: 'user-2', attempts: 5 })],
+        [],
+        [device('token-1'), device('token-2', 'user-2')],
+        new MockPushProvider(true),
+        now
+      );
+
+      expect(result.stats).toMatchObject({ sent: 0, retried: 1, dead: 1 });
+      expect(changesFor(result, 'a')).toMatchObject({ status: 'pending', last_error: 'Mock push provider unavailable' });
+      expect(changesFor(result, 'b')).toMatchObject({ status: 'dead', last_error: 'Mock push provider unavailable' });
+    });
+  });
+
+  test('matches tickets to rows and reports invalid tokens', async () => {
+    const result = await dispatchOutbox(
+      [
+        row('two-devices', { user_id: 'user-1' }),
+        row('all-invalid', { user_id: 'user-2' }),
+        row('one-failing', { user_id: 'user-3' }),
+      ],
+      [],
+      [
+        device('invalid:old-phone', 'user-1'),
+        device('new-phone', 'user-1'),
+        device('invalid:tablet', 'user-2'),
+        device('fail:watch', 'user-3'),
+      ],
+      new MockPushProvider(),
+      now
+    );
+
+    expect(result.stats).toMatchObject({ sent: 1, skipped: 1, retried: 1 });
+    expect(changesFor(result, 'two-devices')).toEqual({
+      status: 'sent',
+      sent_at: now.toISOString(),
+      last_error: null,
+    });
+    expect(changesFor(result, 'all-invalid')).toEqual({ status: 'skipped', last_error: 'All device tokens invalid' });
+    expect(changesFor(result, 'one-failing')).toMatchObject({ status: 'pending' });
+    expect(Array.from(result.invalidTokens.keys())).toEqual(['invalid:old-phone', 'invalid:tablet']);
+  });
+
+  describe('chunking', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    // Expo answers each message in order; tokens starting "gone" are unregistered
+    const mockExpo = () => {
+      const fetchMock = jest.fn(async (_url: string, init: { body: string }) => {
+        const messages: { to: string }[] = JSON.parse(init.body);
+        return {
+          ok: true,
+          json: async () => ({
+            data: messages.map((message, index) =>
+              message.to.startsWith('gone')
+                ? { status: 'error', message: 'Not registered', details: { error: 'DeviceNotRegistered' } }
+                : { status: 'ok', id: `ticket-${index}` }
+            ),
+          }),
+        };
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+      return fetchMock;
+    };
+
+    test('sends Expo messages in requests of at most 100, keeping ticket order', async () => {
+      const fetchMock = mockExpo();
+      const messages = Array.from({ length: 250 }, (_, i) => ({
+        to: i === 120 ? 'gone-120' : `token-${i}`,
+        title: 'Hi',
+        body: 'There',
+      }));
+
+      const tickets = await new ExpoPushProvider().send(messages);
+
+      expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).length)).toEqual([100, 100, 50]);
+      expect(tickets.map(ticket => ticket.token)).toEqual(messages.map(message => message.to));
+      expect(tickets[120]).toMatchObject({ ok: false, invalidToken: true });
+      expect(tickets.filter(ticket => ticket.ok)).toHaveLength(249);
+    });
+
+    test('maps chunked tickets back to their outbox rows', async () => {
+      const fetchMock = mockExpo();
+      const rows = Array.from({ length: 150 }, (_, i) => row(`row-${i}`, { user_id: `user-${i}` }));
+      const devices = rows.map((r, i) => device(i === 149 ? 'gone-last' : `token-${i}`, r.user_id));
+
+      const result = await dispatchOutbox(rows, [], devices, new ExpoPushProvider(), now);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result.stats).toMatchObject({ claimed: 150, sent: 149, skipped: 1 });
+      expect(changesFor(result, 'row-149')).toEqual({ status: 'skipped', last_error: 'All device tokens invalid' });
+      expect(result.invalidTokens.get('gone-last')).toBe('Not registered');
+    });
+
+    test('fails the whole batch when an Expo request is rejected', async () => {
+      global.fetch = jest.fn(async () => ({ ok: false, status: 503, text: async () => 'Unavailable' })) as unknown as typeof fetch;
+
+      const result = await dispatchOutbox([row('a')], [], [device('token-1')], new ExpoPushProvider(), now);
+
+      expect(changesFor(result, 'a')).toMatchObject({
+        status: 'pending',
+        last_error: 'Expo push request failed: 503 Unavailable',
+      });
+    });
+  });
+});
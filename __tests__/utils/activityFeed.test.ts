@@ -0,0 +1,92 @@
+/**
+ * Test suite for activityFeed.ts
+ *
+ * Covers feed text for each event type and the follow summary line.
+ */
+
+import { describeActivity, summarizeFollows } from '../../src/utils/activityFeed';
+import { ActivityFeedItem, FollowedTarget } from '../../src/types';
+
+const makeItem = (overrides: Partial<ActivityFeedItem>): ActivityFeedItem => ({
+  id: 'event-1',
+  eventType: 'dealer_registered',
+  targetType: 'dealer',
+  targetId: 'dealer-1',
+  targetName: 'Cardboard Kings',
+  showId: 'show-1',
+  showTitle: 'Fall Classic',
+  showStartDate: '2025-11-08T17:00:00Z',
+  showLocation: 'Expo Hall',
+  message: null,
+  createdAt: '2025-11-01T12:00:00Z',
+  ...overrides,
+});
+
+const follow = (targetType: FollowedTarget['targetType'], targetId: string): FollowedTarget => ({
+  targetType,
+  targetId,
+  name: targetId,
+  followedAt: '2025-10-01T00:00:00Z',
+});
+
+describe('activityFeed', () => {
+  test('describes a dealer registering for a show', () => {
+    expect(describeActivity(makeItem({}))).toEqual({
+      icon: 'storefront-outline',
+      headline: 'Cardboard Kings registered for Fall Classic',
+      detail: 'Nov 8 · Expo Hall',
+    });
+  });
+
+  test('describes a series announcing its next date', () => {
+    const description = describeActivity(
+      makeItem({ eventType: 'series_date_announced', targetType: 'series', targetName: 'Noblesville Card Show' })
+    );
+
+    expect(description.headline).toBe('Noblesville Card Show announced its next date');
+    expect(description.detail).toBe('Nov 8 · Expo Hall');
+  });
+
+  test('describes organizer updates with and without a show', () => {
+    const general = describeActivity(
+      makeItem({
+        eventType: 'organizer_update',
+        targetType: 'organizer',
+        targetName: 'Jane Promoter',
+        showId: null,
+        showTitle: null,
+        message: '  Parking is free this month!  ',
+      })
+    );
+    expect(general.headline).toBe('Jane Promoter posted an update');
+    expect(general.detail).toBe('Parking is free this month!');
+
+    const aboutShow = describeActivity(
+      makeItem({ eventType: 'organizer_update', targetType: 'organizer', targetName: 'Jane Promoter', message: 'Hi' })
+    );
+    expect(aboutShow.headline).toBe('Jane Promoter posted an update about Fall Classic');
+  });
+
+  test('falls back when names are missing', () => {
+    const description = describeActivity(
+      makeItem({ targetName: ' ', showTitle: null, showStartDate: null, showLocation: null })
+    );
+
+    expect(description.headline).toBe('Someone you follow registered for a show');
+    expect(description.detail).toBeNull();
+  });
+
+  test('summarizes follows by type', () => {
+    expect(summarizeFollows([])).toBe('Not following anyone yet');
+    expect(summarizeFollows([follow('dealer', 'd1')])).toBe('Following 1 dealer');
+    expect(
+      summarizeFollows([
+        follow('organizer', 'o1'),
+        follow('dealer', 'd1'),
+        follow('series', 's1'),
+        follow('series', 's2'),
+        follow('dealer', 'd2'),
+      ])
+    ).toBe('Following 2 dealers, 2 series and 1 organizer');
+  });
+});
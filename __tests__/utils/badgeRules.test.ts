@@ -0,0 +1,88 @@
+/**
+ * Test suite for badgeRules.ts
+ *
+ * Covers rule descriptions, series ID checks, progress formatting and
+ * choosing the next badge.
+ */
+
+import {
+  describeBadgeRule,
+  formatBadgeProgress,
+  isSeriesId,
+  pickNextBadge,
+  progressPercent,
+} from '../../src/utils/badgeRules';
+import { BadgeProgress, BadgeTier } from '../../src/types';
+
+const progress = (id: string, current: number, required: number, earned = false): BadgeProgress => ({
+  badge: {
+    id,
+    name: id,
+    description: '',
+    imageUrl: '',
+    requirement: 'shows_attended',
+    tier: BadgeTier.BRONZE,
+    metric: 'shows_attended',
+    threshold: required,
+  },
+  current,
+  required,
+  percent: earned ? 100 : progressPercent(current, required),
+  earned,
+});
+
+describe('badgeRules', () => {
+  describe('describeBadgeRule', () => {
+    test('describes each metric', () => {
+      expect(describeBadgeRule('shows_attended', 1)).toBe('Check in at 1 show');
+      expect(describeBadgeRule('distinct_states', 5)).toBe('Check in at shows in 5 states');
+      expect(describeBadgeRule('reviews_written', 10)).toBe('Write 10 reviews');
+      expect(describeBadgeRule('dealer_booths_visited', 25)).toBe(
+        'Visit 25 dealer booths while checked in'
+      );
+    });
+
+    test('uses params when present', () => {
+      expect(describeBadgeRule('series_visits', 5)).toBe('Visit the same show series 5 times');
+      expect(describeBadgeRule('series_visits', 5, { series_id: 's1' })).toBe(
+        'Visit this show series 5 times'
+      );
+      expect(describeBadgeRule('shows_in_year', 1)).toBe('Check in at your first show of the year');
+      expect(describeBadgeRule('shows_in_year', 12, { year: 2026 })).toBe('Check in at 12 shows in 2026');
+    });
+  });
+
+  test('isSeriesId only accepts well-formed UUIDs', () => {
+    expect(isSeriesId(' 7C9E6679-7425-40DE-944B-E07FC1F90AE7 ')).toBe(true);
+    expect(isSeriesId('7c9e6679-7425-40de-944b-e07fc1f90ae')).toBe(false);
+    expect(isSeriesId('Spring Expo')).toBe(false);
+    expect(isSeriesId('')).toBe(false);
+  });
+
+  test('formatBadgeProgress caps the current value at the threshold', () => {
+    expect(formatBadgeProgress('distinct_states', 2, 5)).toBe('2/5 states');
+    expect(formatBadgeProgress('shows_attended', 7, 1)).toBe('1/1 show');
+  });
+
+  test('progressPercent rounds and caps at 100', () => {
+    expect(progressPercent(1, 3)).toBe(33);
+    expect(progressPercent(9, 5)).toBe(100);
+    expect(progressPercent(3, 0)).toBe(0);
+  });
+
+  describe('pickNextBadge', () => {
+    test('returns the unearned badge closest to completion', () => {
+      const next = pickNextBadge([progress('a', 1, 1, true), progress('b', 2, 10), progress('c', 3, 5)]);
+      expect(next?.badge.id).toBe('c');
+    });
+
+    test('breaks ties with the smaller threshold', () => {
+      const next = pickNextBadge([progress('big', 0, 25), progress('small', 0, 5)]);
+      expect(next?.badge.id).toBe('small');
+    });
+
+    test('returns null when everything is earned', () => {
+      expect(pickNextBadge([progress('a', 1, 1, true)])).toBeNull();
+    });
+  });
+});
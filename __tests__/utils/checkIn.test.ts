@@ -0,0 +1,54 @@
+/**
+ * Test suite for checkIn.ts
+ *
+ * Covers the check-in deep link and the check-in window. The window cases
+ * in fixtures/checkInWindows.json are also run against
+ * is_show_check_in_open() by test/database/show_check_in_tests.sql.
+ */
+
+import { buildCheckInUrl, getCheckInWindows, isCheckInOpen } from '../../src/utils/checkIn';
+import { makeShow } from '../fixtures/show';
+import windowCases from './fixtures/checkInWindows.json';
+
+// The window cases are database rows, shared with the SQL tests
+const showFromRow = (row: Record<string, any>) =>
+  makeShow({
+    startDate: row.start_date,
+    endDate: row.end_date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    dailySchedule: row.daily_schedule,
+  });
+
+describe('checkIn', () => {
+  test('buildCheckInUrl encodes the show and code', () => {
+    expect(buildCheckInUrl('abc-123', 'A1B2C3D4E5')).toBe(
+      'cardshowfinder://check-in/abc-123?checkInCode=A1B2C3D4E5'
+    );
+  });
+
+  describe('isCheckInOpen', () => {
+    test.each(windowCases.map(c => [c.name, c] as const))('%s', (_name, { show, checks }) => {
+      checks.forEach(({ at, open }) => {
+        expect({ at, open: isCheckInOpen(showFromRow(show), new Date(at)) }).toEqual({ at, open });
+      });
+    });
+
+    test('is closed without a show or start date', () => {
+      expect(isCheckInOpen(null)).toBe(false);
+      expect(isCheckInOpen(makeShow({ startDate: '' }))).toBe(false);
+    });
+  });
+
+  test('getCheckInWindows returns one window per show day', () => {
+    const windows = getCheckInWindows(
+      makeShow({ startDate: '2025-11-08T00:00:00Z', endDate: '2025-11-10T00:00:00Z', startTime: '10:00', endTime: '15:00' })
+    );
+
+    expect(windows.map(w => [w.opensAt.toISOString(), w.closesAt.toISOString()])).toEqual([
+      ['2025-11-08T14:00:00.000Z', '2025-11-09T00:00:00.000Z'],
+      ['2025-11-09T14:00:00.000Z', '2025-11-10T00:00:00.000Z'],
+      ['2025-11-10T14:00:00.000Z', '2025-11-11T00:00:00.000Z'],
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Test suite for the iCalendar builder (supabase/functions/_shared/ical.ts)
+ *
+ * Covers VEVENT generation for the different ways a show can express
+ * its hours (daily schedule, start/end time, date-only) plus escaping,
+ * line folding and cancellation status, and the app's .ics export
+ * (src/utils/icalendar.ts) that feeds it.
+ */
+
+import {
+  ShowRow,
+  buildShowEvents,
+  escapeText,
+  foldLine,
+  generateCalendar,
+  parseClockTime,
+  toDateKey,
+} from '../../supabase/functions/_shared/ical';
+import { generateShowCalendar } from '../../src/utils/icalendar';
+import { ShowStatus } from '../../src/types';
+import { makeShow } from '../fixtures/show';
+
+const NOW = new Date('2025-09-01T12:00:00Z');
+
+const makeShowRow = (overrides: Partial<ShowRow> = {}): ShowRow => ({
+  id: 'show-1',
+  title: 'Noblesville Card Show',
+  location: 'Hamilton County Fairgrounds',
+  address: '2003 Pleasant St, Noblesville, IN',
+  start_date: '2025-10-04T00:00:00+00:00',
+  end_date: '2025-10-05T00:00:00+00:00',
+  entry_fee: 5,
+  status: 'ACTIVE',
+  updated_at: '2025-08-15T10:30:00Z',
+  ...overrides,
+});
+
+describe('icalendar', () => {
+  describe('parseClockTime', () => {
+    test('parses 24-hour and 12-hour formats', () => {
+      expect(parseClockTime('08:00')).toEqual({ hours: 8, minutes: 0 });
+      expect(parseClockTime('14:30:00')).toEqual({ hours: 14, minutes: 30 });
+      expect(parseClockTime('3:15 PM')).toEqual({ hours: 15, minutes: 15 });
+      expect(parseClockTime('12 am')).toEqual({ hours: 0, minutes: 0 });
+      expect(parseClockTime('9am')).toEqual({ hours: 9, minutes: 0 });
+    });
+
+    test('rejects unparseable values', () => {
+      expect(parseClockTime('')).toBeNull();
+      expect(parseClockTime('noon')).toBeNull();
+      expect(parseClockTime('25:00')).toBeNull();
+      expect(parseClockTime(undefined)).toBeNull();
+    });
+  });
+
+  describe('toDateKey', () => {
+    test('keeps the calendar day of ISO strings regardless of offset', () => {
+      expect(toDateKey('2025-10-04T00:00:00+00:00')).toBe('2025-10-04');
+      expect(toDateKey('2025-10-04')).toBe('2025-10-04');
+    });
+
+    test('uses the local calendar day of Date values', () => {
+      expect(toDateKey(new Date(2025, 9, 4, 23, 30))).toBe('2025-10-04');
+    });
+
+    test('returns null for invalid or missing dates', () => {
+      expect(toDateKey('not a date')).toBeNull();
+      expect(toDateKey(null)).toBeNull();
+    });
+  });
+
+  describe('escapeText / foldLine', () => {
+    test('escapes reserved characters', () => {
+      expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+
+    test('folds long lines at 75 characters', () => {
+      const folded = foldLine('X'.repeat(160));
+      const lines = folded.split('\r\n');
+      expect(lines[0]).toHaveLength(75);
+      expect(lines.slice(1).every(l => l.startsWith(' ') && l.length <= 75)).toBe(true);
+      expect(lines.map((l, i) => (i === 0 ? l : l.slice(1))).join('')).toBe('X'.repeat(160));
+    });
+  });
+
+  describe('buildShowEvents', () => {
+    test('creates one VEVENT per daily schedule entry with its timezone', () => {
+      const show = makeShowRow({
+        daily_schedule: [
+          { date: '2025-10-04', startTime: '08:00', endTime: '14:00', timezone: 'America/Indiana/Indianapolis' },
+          { date: '2025-10-05', startTime: '10:00 AM', endTime: '3:00 PM', timezone: 'America/Indiana/Indianapolis' },
+        ],
+      });
+
+      const events = buildShowEvents(show, NOW);
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toContain('UID:show-1-2025-10-04@cardshowfinder.app');
+      expect(events[0]).toContain('DTSTART;TZID=America/Indiana/Indianapolis:20251004T080000');
+      expect(events[0]).toContain('DTEND;TZID=America/Indiana/Indianapolis:20251004T140000');
+      expect(events[1]).toContain('DTSTART;TZID=America/Indiana/Indianapolis:20251005T100000');
+      expect(events[1]).toContain('DTEND;TZID=America/Indiana/Indianapolis:20251005T150000');
+    });
+
+    test('falls back to start/end time for every show day', () => {
+      const show = makeShowRow({ start_time: '9:00 AM', end_time: '4:00 PM' });
+
+      const events = buildShowEvents(show, NOW);
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toContain('DTSTART:20251004T090000');
+      expect(events[1]).toContain('DTEND:20251005T160000');
+    });
+
+    test('uses an all-day event with an exclusive end date when no hours are known', () => {
+      const events = buildShowEvents(makeShowRow(), NOW);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toContain('UID:show-1@cardshowfinder.app');
+      expect(events[0]).toContain('DTSTART;VALUE=DATE:20251004');
+      expect(events[0]).toContain('DTEND;VALUE=DATE:20251006');
+    });
+
+    test('marks cancelled shows as STATUS:CANCELLED', () => {
+      const events = buildShowEvents(makeShowRow({ status: 'CANCELLED' }), NOW);
+      expect(events[0]).toContain('STATUS:CANCELLED');
+    });
+
+    test('ignores schedule rows it cannot parse', () => {
+      const show = makeShowRow({
+        daily_schedule: [{ date: '2025-10-04', startTime: 'TBD', endTime: 'TBD' }],
+      });
+
+      const events = buildShowEvents(show, NOW);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toContain('DTSTART;VALUE=DATE:20251004');
+    });
+  });
+
+  describe('generateCalendar', () => {
+    test('wraps events in a VCALENDAR with CRLF line endings', () => {
+      const ics = generateCalendar([makeShowRow()], { calendarName: 'My Card Shows', now: NOW });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics).toContain('X-WR-CALNAME:My Card Shows');
+      expect(ics).toContain('DTSTAMP:20250901T120000Z');
+      expect(ics).toContain('LAST-MODIFIED:20250815T103000Z');
+      expect(ics).toContain('LOCATION:Hamilton County Fairgrounds\\, 2003 Pleasant St\\, Noblesville\\, IN');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    test('adds refresh hints for subscribed feeds', () => {
+      const ics = generateCalendar([], { refreshIntervalHours: 6, now: NOW });
+
+      expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT6H');
+      expect(ics).toContain('X-PUBLISHED-TTL:PT6H');
+    });
+  });
+
+  describe('generateShowCalendar', () => {
+    const appShow = makeShow({
+      id: 'show-1',
+      title: 'Noblesville Card Show',
+      location: 'Hamilton County Fairgrounds',
+      address: '2003 Pleasant St, Noblesville, IN',
+      startDate: '2025-10-04T00:00:00+00:00',
+      endDate: '2025-10-05T00:00:00+00:00',
+      startTime: '9:00 AM',
+      endTime: '4:00 PM',
+      entryFee: 0,
+      status: ShowStatus.CANCELLED,
+      coordinates: { latitude: 40.05, longitude: -86.01 },
+      websiteUrl: 'https://example.com/show',
+      updatedAt: new Date('2025-08-15T10:30:00Z'),
+    });
+
+    test('exports app shows with the same event rules', () => {
+      const ics = generateShowCalendar([appShow], { now: NOW });
+
+      expect(ics).toContain('UID:show-1-2025-10-04@cardshowfinder.app');
+      expect(ics).toContain('DTSTART:20251005T090000');
+      expect(ics).toContain('GEO:40.05;-86.01');
+      expect(ics).toContain('DESCRIPTION:Free entry');
+      expect(ics).toContain('URL:https://example.com/show');
+      expect(ics).toContain('STATUS:CANCELLED');
+      expect(ics).toContain('LAST-MODIFIED:20250815T103000Z');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Test suite for inventoryCsv.ts
+ *
+ * Covers quoting, tab-separated spreadsheet pastes, loose header matching,
+ * "PSA 10" grade splitting and per-row validation errors.
+ */
+
+import {
+  INVENTORY_CSV_TEMPLATE,
+  parseDelimited,
+  parseInventoryCsv,
+  splitGrade,
+} from '../../src/utils/inventoryCsv';
+
+describe('inventoryCsv', () => {
+  describe('parseDelimited', () => {
+    test('handles quoted delimiters, escaped quotes and CRLF', () => {
+      const rows = parseDelimited('a,"b, c","say ""hi"""\r\n1,2,3');
+
+      expect(rows).toEqual([
+        ['a', 'b, c', 'say "hi"'],
+        ['1', '2', '3'],
+      ]);
+    });
+  });
+
+  describe('splitGrade', () => {
+    test('splits known graders and keeps other grades intact', () => {
+      expect(splitGrade('PSA 10')).toEqual({ grader: 'PSA', grade: '10' });
+      expect(splitGrade('bgs 9.5')).toEqual({ grader: 'BGS', grade: '9.5' });
+      expect(splitGrade('Near Mint')).toEqual({ grader: null, grade: 'Near Mint' });
+    });
+  });
+
+  describe('parseInventoryCsv', () => {
+    test('parses the template', () => {
+      const { items, errors } = parseInventoryCsv(INVENTORY_CSV_TEMPLATE);
+
+      expect(errors).toEqual([]);
+      expect(items).toEqual([
+        {
+          sku: 'A-001',
+          playerName: 'Mickey Mantle',
+          setName: 'Topps',
+          year: 1952,
+          cardNumber: '311',
+          grader: 'PSA',
+          grade: '4',
+          cardTypes: ['Vintage', 'Baseball', 'Slabs'],
+          askingPrice: 12500,
+          quantity: 1,
+          notes: 'Centered',
+        },
+      ]);
+    });
+
+    test('accepts tab-separated pastes with alternate headers', () => {
+      const text = 'Player Name\tCard #\tQty\tPrice\tGrade\n' + 'Ken Griffey Jr.\t#1\t3\t$1,250.00\tSGC 9\n';
+      const { items, errors } = parseInventoryCsv(text);
+
+      expect(errors).toEqual([]);
+      expect(items[0]).toMatchObject({
+        playerName: 'Ken Griffey Jr.',
+        cardNumber: '1',
+        quantity: 3,
+        askingPrice: 1250,
+        grader: 'SGC',
+        grade: '9',
+      });
+    });
+
+    test('reports invalid rows with line numbers and keeps the rest', () => {
+      const text = [
+        'player,year,price,quantity',
+        'Good Row,2020,5,1',
+        ',2020,5,1',
+        'Bad Year,20,5,1',
+        'Bad Price,2020,five,1',
+        '',
+        'Bad Qty,2020,5,-1',
+      ].join('\n');
+
+      const { items, errors } = parseInventoryCsv(text);
+
+      expect(items.map(i => i.playerName)).toEqual(['Good Row']);
+      expect(errors.map(e => e.line)).toEqual([3, 4, 5, 7]);
+    });
+
+    test('counts lines inside multi-line quoted cells', () => {
+      const text = 'player,notes,price\nGood Row,"Corner ding\nback side",5\nBad Price,,five';
+
+      const { items, errors } = parseInventoryCsv(text);
+
+      expect(items[0].notes).toBe('Corner ding\nback side');
+      expect(errors).toEqual([{ line: 4, message: 'Invalid price "five"' }]);
+    });
+
+    test('reports an unclosed quote instead of throwing', () => {
+      const { items, errors } = parseInventoryCsv('player,price\n"Mantle,5\n');
+
+      expect(items).toEqual([]);
+      expect(errors).toEqual([{ line: 2, message: 'A quoted cell is never closed' }]);
+    });
+
+    test('requires a player column', () => {
+      const { items, errors } = parseInventoryCsv('set,year\nTopps,1990');
+
+      expect(items).toEqual([]);
+      expect(errors[0].message).toMatch(/player/);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Test suite for mapViewport.ts
+ *
+ * Covers region → viewport conversion (including the antimeridian), grid
+ * snapping used to de-duplicate requests, RPC filters, cluster zooming and
+ * the on-device clustering used by the offline map.
+ */
+
+import {
+  clusterViewportShows,
+  isInViewport,
+  normalizeLongitude,
+  regionForCluster,
+  regionToViewport,
+  snapViewport,
+  viewportFilters,
+  viewportKey,
+  zoomForRegion,
+} from '../../src/utils/mapViewport';
+import { makeShow } from '../fixtures/show';
+
+const locatedShow = (id: string, latitude: number, longitude: number, startDate = '2026-06-06T10:00:00Z') =>
+  makeShow({ id, title: `Show ${id}`, startDate, endDate: startDate, coordinates: { latitude, longitude } });
+
+describe('mapViewport', () => {
+  test('derives zoom from the longitude span', () => {
+    expect(zoomForRegion({ latitude: 0, longitude: 0, latitudeDelta: 180, longitudeDelta: 360 })).toBe(0);
+    expect(zoomForRegion({ latitude: 40, longitude: -86, latitudeDelta: 0.5, longitudeDelta: 0.7 })).toBe(9);
+    expect(zoomForRegion({ latitude: 40, longitude: -86, latitudeDelta: 0, longitudeDelta: 0 })).toBe(20);
+  });
+
+  test('converts a region to a bounding box', () => {
+    expect(regionToViewport({ latitude: 40, longitude: -86, latitudeDelta: 2, longitudeDelta: 4 })).toEqual({
+      minLatitude: 39,
+      minLongitude: -88,
+      maxLatitude: 41,
+      maxLongitude: -84,
+      zoom: 6,
+    });
+  });
+
+  test('wraps viewports that cross the antimeridian', () => {
+    expect(normalizeLongitude(190)).toBe(-170);
+    expect(normalizeLongitude(180)).toBe(180);
+
+    const viewport = regionToViewport({ latitude: 20, longitude: 178, latitudeDelta: 10, longitudeDelta: 10 });
+    expect(viewport.minLongitude).toBe(173);
+    expect(viewport.maxLongitude).toBe(-177);
+  });
+
+  test('snaps nearby regions to the same key', () => {
+    const a = snapViewport(regionToViewport({ latitude: 40, longitude: -86, latitudeDelta: 0.5, longitudeDelta: 0.7 }));
+    const b = snapViewport(regionToViewport({ latitude: 39.995, longitude: -86.005, latitudeDelta: 0.5, longitudeDelta: 0.7 }));
+
+    expect(viewportKey(a)).toBe(viewportKey(b));
+    expect(a.minLatitude).toBeLessThanOrEqual(39.75);
+    expect(a.maxLongitude).toBeGreaterThanOrEqual(-85.65);
+  });
+
+  test('builds date-stable RPC filters without location', () => {
+    const now = new Date('2025-11-01T15:30:00Z');
+    const filters = viewportFilters(
+      { radius: 25, latitude: 40, longitude: -86, features: ['Parking', 'ATM'], keyword: '  psa ' },
+      now
+    );
+
+    expect(filters).toEqual({
+      startDate: '2025-11-01T00:00:00.000Z',
+      endDate: '2025-12-01T23:59:59.999Z',
+      maxEntryFee: undefined,
+      features: ['ATM', 'Parking'],
+      categories: undefined,
+      dealerCardTypes: undefined,
+      keyword: 'psa',
+    });
+    expect(viewportFilters({}, new Date('2025-11-01T20:00:00Z'))).toEqual(viewportFilters({}, now));
+  });
+
+  test('frames a cluster with padding and a minimum zoom', () => {
+    const region = regionForCluster({
+      id: '6:10:20',
+      coordinates: { latitude: 40, longitude: -86 },
+      count: 3,
+      bounds: { minLatitude: 39, minLongitude: -87, maxLatitude: 41, maxLongitude: -85 },
+    });
+    expect(region.latitude).toBe(40);
+    expect(region.longitude).toBe(-86);
+    expect(region.latitudeDelta).toBeCloseTo(2.8);
+
+    const venue = regionForCluster({
+      id: '6:10:21',
+      coordinates: { latitude: 40, longitude: -86 },
+      count: 2,
+      bounds: { minLatitude: 40, minLongitude: -86, maxLatitude: 40, maxLongitude: -86 },
+    });
+    expect(venue.latitudeDelta).toBe(0.02);
+  });
+
+  test('checks viewport bounds across the antimeridian', () => {
+    const pacific = { minLatitude: 10, minLongitude: 170, maxLatitude: 30, maxLongitude: -170 };
+    expect(isInViewport(20, 175, pacific)).toBe(true);
+    expect(isInViewport(20, -175, pacific)).toBe(true);
+    expect(isInViewport(20, 0, pacific)).toBe(false);
+    expect(isInViewport(40, 175, pacific)).toBe(false);
+  });
+
+  test('returns stored shows in the viewport as pins, soonest first', () => {
+    const result = clusterViewportShows(
+      [
+        locatedShow('later', 39.8, -86.1, '2026-07-01T10:00:00Z'),
+        locatedShow('sooner', 39.7, -86.2),
+        locatedShow('chicago', 41.9, -87.6),
+        { ...locatedShow('unlocated', 39.7, -86.2), coordinates: undefined },
+      ],
+      { minLatitude: 39, minLongitude: -87, maxLatitude: 41, maxLongitude: -85, zoom: 8 }
+    );
+
+    expect(result.mode).toBe('pins');
+    expect(result.shows.map(show => show.id)).toEqual(['sooner', 'later']);
+    expect(result).toMatchObject({ clusters: [], totalCount: 2, truncated: false });
+  });
+
+  test('clusters many stored shows on the RPC grid when zoomed out', () => {
+    const indy = Array.from({ length: 150 }, (_, i) => locatedShow(`indy-${i}`, 39.7 + i * 0.001, -86.1));
+    const louisville = locatedShow('louisville', 38.2, -85.7);
+    const result = clusterViewportShows([...indy, louisville], {
+      minLatitude: 30,
+      minLongitude: -95,
+      maxLatitude: 45,
+      maxLongitude: -80,
+      zoom: 5,
+    });
+
+    expect(result.mode).toBe('clusters');
+    expect(result.totalCount).toBe(151);
+    expect(result.shows.map(show => show.id)).toEqual(['louisville']);
+    expect(result.clusters).toHaveLength(1);
+    expect(result.clusters[0]).toMatchObject({ id: '5:33:46', count: 150 });
+    expect(result.clusters[0].coordinates.latitude).toBeCloseTo(39.7745);
+    expect(result.clusters[0].bounds).toMatchObject({ minLatitude: 39.7, minLongitude: -86.1, maxLongitude: -86.1 });
+    expect(result.clusters[0].bounds.maxLatitude).toBeCloseTo(39.849);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Test suite for show series recurrence rules (supabase/functions/_shared/recurrence.ts)
+ *
+ * Covers RRULE parsing/serialization, occurrence expansion for the
+ * frequencies organizers actually use (weekly, "2nd Sunday monthly",
+ * "last Saturday"), COUNT/UNTIL/EXDATE handling and the summary text.
+ */
+
+import {
+  describeRecurrence,
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+} from '../../supabase/functions/_shared/recurrence';
+
+describe('recurrence', () => {
+  describe('parseRRule / formatRRule', () => {
+    test('parses ordinals, months and strips the RRULE: prefix', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;BYDAY=2SU;BYMONTH=1,2,3,4,5,6,7,8,9,10,11');
+
+      expect(rule.freq).toBe('MONTHLY');
+      expect(rule.interval).toBe(1);
+      expect(rule.byDay).toEqual([{ weekday: 0, ordinal: 2 }]);
+      expect(rule.byMonth).toHaveLength(11);
+    });
+
+    test('round-trips through formatRRule', () => {
+      const source = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU;UNTIL=20261231';
+      expect(formatRRule(parseRRule(source))).toBe(source);
+    });
+
+    test('rejects unsupported or contradictory rules', () => {
+      expect(() => parseRRule('')).toThrow();
+      expect(() => parseRRule('BYDAY=SU')).toThrow('FREQ');
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow('FREQ');
+      expect(() => parseRRule('FREQ=MONTHLY;BYSETPOS=1')).toThrow('BYSETPOS');
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2SU')).toThrow('ordinals');
+      expect(() => parseRRule('FREQ=MONTHLY;COUNT=3;UNTIL=20260101')).toThrow();
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    test('2nd Sunday monthly, skipping December', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=2SU;BYMONTH=1,2,3,4,5,6,7,8,9,10,11');
+
+      const dates = expandRecurrence(rule, '2025-10-12', { from: '2025-10-01', to: '2026-02-28' });
+
+      expect(dates).toEqual(['2025-10-12', '2025-11-09', '2026-01-11', '2026-02-08']);
+    });
+
+    test('last Saturday of the month', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=-1SA');
+
+      const dates = expandRecurrence(rule, '2025-01-01', { from: '2025-01-01', to: '2025-03-31' });
+
+      expect(dates).toEqual(['2025-01-25', '2025-02-22', '2025-03-29']);
+    });
+
+    test('skips months without a 5th weekday', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=5SU');
+
+      const dates = expandRecurrence(rule, '2025-01-01', { from: '2025-01-01', to: '2025-06-30' });
+
+      expect(dates).toEqual(['2025-03-30', '2025-06-29']);
+    });
+
+    test('every other weekend', () => {
+      const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU');
+
+      const dates = expandRecurrence(rule, '2025-10-04', { from: '2025-10-01', to: '2025-10-31' });
+
+      expect(dates).toEqual(['2025-10-04', '2025-10-05', '2025-10-18', '2025-10-19']);
+    });
+
+    test('defaults to the DTSTART day when no BY* parts are given', () => {
+      const rule = parseRRule('FREQ=MONTHLY');
+
+      const dates = expandRecurrence(rule, '2025-01-31', { from: '2025-01-01', to: '2025-05-31' });
+
+      // February and April have no 31st
+      expect(dates).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+    });
+
+    test('counts COUNT from DTSTART even when the window starts later', () => {
+      const rule = parseRRule('FREQ=WEEKLY;COUNT=4');
+
+      const dates = expandRecurrence(rule, '2025-10-04', { from: '2025-10-15', to: '2026-12-31' });
+
+      expect(dates).toEqual(['2025-10-18', '2025-10-25']);
+    });
+
+    test('stops at UNTIL and removes EXDATEs', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=1;UNTIL=20250401');
+
+      const dates = expandRecurrence(rule, '2025-01-01', {
+        from: '2025-01-01',
+        to: '2025-12-31',
+        exdates: ['2025-02-01'],
+      });
+
+      expect(dates).toEqual(['2025-01-01', '2025-03-01', '2025-04-01']);
+    });
+
+    test('yearly in a given month', () => {
+      const rule = parseRRule('FREQ=YEARLY;BYMONTH=3;BYDAY=1SA');
+
+      const dates = expandRecurrence(rule, '2025-01-01', { from: '2025-01-01', to: '2027-12-31' });
+
+      expect(dates).toEqual(['2025-03-01', '2026-03-07', '2027-03-06']);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    test('describes common organizer rules', () => {
+      expect(
+        describeRecurrence(parseRRule('FREQ=MONTHLY;BYDAY=2SU;BYMONTH=1,2,3,4,5,6,7,8,9,10,11'))
+      ).toBe('Monthly on the 2nd Sunday, except December');
+      expect(describeRecurrence(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU'))).toBe(
+        'Every 2 weeks on Saturday and Sunday'
+      );
+      expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYDAY=-1SA;COUNT=6'))).toBe(
+        'Monthly on the last Saturday, 6 times'
+      );
+      expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231'))).toBe(
+        'Monthly on the 15th, until Dec 31, 2026'
+      );
+    });
+
+    test('uses the right ordinal suffix for every day of the month', () => {
+      expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYMONTHDAY=1,2,3,4,11,12,13'))).toBe(
+        'Monthly on the 1st, 2nd, 3rd, 4th, 11th, 12th and 13th'
+      );
+      expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYMONTHDAY=21,22,23,31'))).toBe(
+        'Monthly on the 21st, 22nd, 23rd and 31st'
+      );
+      expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYMONTHDAY=-2'))).toBe(
+        'Monthly on the 2nd to last day'
+      );
+    });
+  });
+});
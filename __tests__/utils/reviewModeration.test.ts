@@ -0,0 +1,33 @@
+/**
+ * Test suite for reviewModeration.ts
+ *
+ * Covers validation of the report-a-review form.
+ */
+
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REVIEW_REPORT_REASONS,
+  validateReviewReport,
+} from '../../src/utils/reviewModeration';
+
+describe('reviewModeration', () => {
+  test('requires a known reason', () => {
+    expect(validateReviewReport(null)).toBe('Please choose a reason');
+    expect(validateReviewReport('rude' as any)).toBe('Please choose a reason');
+    REVIEW_REPORT_REASONS.filter(option => option.value !== 'other').forEach(option => {
+      expect(validateReviewReport(option.value)).toBeNull();
+    });
+  });
+
+  test('requires details for "other"', () => {
+    expect(validateReviewReport('other', '   ')).toBe("Please tell us what's wrong");
+    expect(validateReviewReport('other', 'Posted by a competing organizer')).toBeNull();
+  });
+
+  test('limits details length', () => {
+    expect(validateReviewReport('spam', 'x'.repeat(MAX_REPORT_DETAILS_LENGTH))).toBeNull();
+    expect(validateReviewReport('spam', 'x'.repeat(MAX_REPORT_DETAILS_LENGTH + 1))).toBe(
+      'Details must be 500 characters or less'
+    );
+  });
+});
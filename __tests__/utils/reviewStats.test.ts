@@ -0,0 +1,64 @@
+/**
+ * Test suite for reviewStats.ts
+ *
+ * Covers aspect rating mapping and aggregation, and optimistic helpful
+ * vote tallies.
+ */
+
+import {
+  applyHelpfulVote,
+  aspectRatingsFromRow,
+  aspectRatingsToColumns,
+  summarizeAspectRatings,
+  validateAspectRatings,
+} from '../../src/utils/reviewStats';
+
+describe('reviewStats', () => {
+  test('maps aspect ratings to and from columns', () => {
+    expect(
+      aspectRatingsFromRow({ venue_rating: 4, dealer_variety_rating: null, pricing_rating: 2, parking_rating: 9 })
+    ).toEqual({ venue: 4, pricing: 2 });
+
+    expect(aspectRatingsToColumns({ venue: 5, parking: 1 })).toEqual({
+      venue_rating: 5,
+      dealer_variety_rating: null,
+      pricing_rating: null,
+      parking_rating: 1,
+    });
+  });
+
+  test('validates aspect ratings', () => {
+    expect(validateAspectRatings(undefined)).toBeNull();
+    expect(validateAspectRatings({ venue: 3, pricing: 5 })).toBeNull();
+    expect(validateAspectRatings({ parking: 0 })).toBe('Parking rating must be between 1 and 5');
+    expect(validateAspectRatings({ dealerVariety: 3.5 })).toBe(
+      'Dealer variety rating must be between 1 and 5'
+    );
+  });
+
+  test('averages each aspect over the reviews that rated it', () => {
+    const summary = summarizeAspectRatings([
+      { venue_rating: 5, pricing_rating: 2 },
+      { venue_rating: 4, pricing_rating: null },
+      { venue_rating: 4 },
+    ]);
+
+    expect(summary).toEqual({
+      venue: { average: 4.3, count: 3 },
+      pricing: { average: 2, count: 1 },
+    });
+    expect(summarizeAspectRatings([])).toEqual({});
+  });
+
+  test('adjusts tallies when a vote is cast, changed or withdrawn', () => {
+    const counts = { helpfulCount: 3, notHelpfulCount: 1 };
+
+    expect(applyHelpfulVote(counts, null, true)).toEqual({ helpfulCount: 4, notHelpfulCount: 1 });
+    expect(applyHelpfulVote(counts, true, false)).toEqual({ helpfulCount: 2, notHelpfulCount: 2 });
+    expect(applyHelpfulVote(counts, false, null)).toEqual({ helpfulCount: 3, notHelpfulCount: 0 });
+    expect(applyHelpfulVote({ helpfulCount: 0, notHelpfulCount: 0 }, true, null)).toEqual({
+      helpfulCount: 0,
+      notHelpfulCount: 0,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Test suite for searchResults.ts
+ *
+ * Covers query normalization, grouping results by type and highlighting
+ * the typed text in typeahead suggestions.
+ */
+
+import { groupSearchResults, highlightMatch, normalizeSearchQuery } from '../../src/utils/searchResults';
+import { SearchResult } from '../../src/types';
+
+const result = (overrides: Partial<SearchResult>): SearchResult => ({
+  type: 'show',
+  id: 'show-1',
+  title: 'Noblesville Card Show',
+  subtitle: 'Nov 8 · Expo Hall',
+  showId: 'show-1',
+  dealerId: null,
+  score: 1,
+  ...overrides,
+});
+
+describe('searchResults', () => {
+  test('normalizes queries', () => {
+    expect(normalizeSearchQuery('  noblesvile   card  ')).toBe('noblesvile card');
+    expect(normalizeSearchQuery(undefined)).toBe('');
+    expect(normalizeSearchQuery('x'.repeat(150))).toHaveLength(100);
+  });
+
+  test('groups results in display order, best first', () => {
+    const groups = groupSearchResults([
+      result({ type: 'city', id: 'city:noblesville, in', title: 'Noblesville, IN', score: 0.9 }),
+      result({ id: 'a', title: 'Fall Classic', score: 0.5 }),
+      result({ type: 'dealer', id: 'd1', title: 'Cardboard Kings', dealerId: 'd1', score: 0.7 }),
+      result({ id: 'b', title: 'Noblesville Card Show', score: 1.2 }),
+    ]);
+
+    expect(groups.map(group => group.label)).toEqual(['Shows', 'Dealers', 'Cities']);
+    expect(groups[0].results.map(r => r.id)).toEqual(['b', 'a']);
+    expect(groupSearchResults([])).toEqual([]);
+  });
+
+  test('highlights each typed word case-insensitively', () => {
+    expect(highlightMatch('Noblesville Card Show', 'card nob')).toEqual([
+      { text: 'Nob', match: true },
+      { text: 'lesville ', match: false },
+      { text: 'Card', match: true },
+      { text: ' Show', match: false },
+    ]);
+  });
+
+  test('leaves fuzzy matches and regex characters alone', () => {
+    expect(highlightMatch('Noblesville Card Show', 'noblesvile')).toEqual([
+      { text: 'Noblesville Card Show', match: false },
+    ]);
+    expect(highlightMatch('Cards (Graded)', '(gra')).toEqual([
+      { text: 'Cards ', match: false },
+      { text: '(Gra', match: true },
+      { text: 'ded)', match: false },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Test suite for showAnalytics.ts
+ *
+ * Covers zero-filling daily chart series, summing totals and comparing a
+ * series instance with the instances before it.
+ */
+
+import {
+  buildDailySeries,
+  compareWithPastInstances,
+  EMPTY_TOTALS,
+  sumTotals,
+} from '../../src/utils/showAnalytics';
+import { SeriesInstanceAnalytics } from '../../src/types';
+
+const instance = (
+  showId: string,
+  startDate: string,
+  overrides: Partial<SeriesInstanceAnalytics> = {}
+): SeriesInstanceAnalytics => ({
+  ...EMPTY_TOTALS,
+  showId,
+  title: `Show ${showId}`,
+  startDate,
+  ...overrides,
+});
+
+describe('showAnalytics', () => {
+  describe('buildDailySeries', () => {
+    test('fills missing days with zeros and keeps only the requested event type', () => {
+      const series = buildDailySeries(
+        [
+          { day: '2025-10-01', eventType: 'detail_view', count: 4 },
+          { day: '2025-10-03', eventType: 'detail_view', count: 2 },
+          { day: '2025-10-02', eventType: 'favorite', count: 9 },
+        ],
+        'detail_view',
+        new Date('2025-10-01T00:00:00Z'),
+        new Date('2025-10-04T12:00:00Z')
+      );
+
+      expect(series).toEqual([
+        { day: '2025-10-01', count: 4 },
+        { day: '2025-10-02', count: 0 },
+        { day: '2025-10-03', count: 2 },
+        { day: '2025-10-04', count: 0 },
+      ]);
+    });
+
+    test('crosses month boundaries', () => {
+      const series = buildDailySeries(
+        [],
+        'map_pin_tap',
+        new Date('2025-09-29T00:00:00Z'),
+        new Date('2025-10-02T00:00:00Z')
+      );
+      expect(series.map(s => s.day)).toEqual(['2025-09-29', '2025-09-30', '2025-10-01', '2025-10-02']);
+    });
+  });
+
+  test('sumTotals adds every metric', () => {
+    const total = sumTotals([
+      { ...EMPTY_TOTALS, detailViews: 3, favorites: 1 },
+      { ...EMPTY_TOTALS, detailViews: 2, directionsTaps: 5 },
+    ]);
+    expect(total).toEqual({ ...EMPTY_TOTALS, detailViews: 5, favorites: 1, directionsTaps: 5 });
+  });
+
+  describe('compareWithPastInstances', () => {
+    const instances = [
+      instance('a', '2025-01-12T00:00:00Z', { detailViews: 100, favorites: 10 }),
+      instance('b', '2025-04-13T00:00:00Z', { detailViews: 200, favorites: 0 }),
+      instance('c', '2025-07-13T00:00:00Z', { detailViews: 180, favorites: 6 }),
+      instance('d', '2025-10-12T00:00:00Z', { detailViews: 500 }),
+    ];
+
+    test('averages only earlier instances and reports percent change', () => {
+      const comparison = compareWithPastInstances('c', instances)!;
+
+      expect(comparison.pastInstanceCount).toBe(2);
+      expect(comparison.pastAverage.detailViews).toBe(150);
+      expect(comparison.change.detailViews).toBe(20);
+      expect(comparison.change.favorites).toBe(20);
+    });
+
+    test('has no change when there is no baseline', () => {
+      const comparison = compareWithPastInstances('a', instances)!;
+
+      expect(comparison.pastInstanceCount).toBe(0);
+      expect(comparison.change.detailViews).toBeNull();
+      expect(compareWithPastInstances('c', instances)!.change.mapPinTaps).toBeNull();
+    });
+
+    test('returns null for a show outside the series', () => {
+      expect(compareWithPastInstances('zzz', instances)).toBeNull();
+    });
+  });
+});
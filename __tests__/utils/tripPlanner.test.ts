@@ -0,0 +1,142 @@
+/**
+ * Test suite for tripPlanner.ts
+ *
+ * Covers opening windows, overlap detection, itinerary ordering and the
+ * share link round trip.
+ */
+
+import {
+  buildTripShareUrl,
+  findTripConflicts,
+  formatTripTime,
+  getShowOpenWindows,
+  parseTripShowIds,
+  planTrip,
+  toTripCalendarShows,
+} from '../../src/utils/tripPlanner';
+import { calculateDistance } from '../../src/utils/coordinateUtils';
+import { Coordinates, Show } from '../../src/types';
+import { makeShow } from '../fixtures/show';
+
+const distanceBetween = (a: Coordinates, b: Coordinates) =>
+  calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+
+const now = new Date('2025-11-01T12:00:00Z');
+
+// Saturday, November 8th shows, a week after `now`
+const tripShow = (id: string, overrides: Partial<Show> = {}): Show =>
+  makeShow({
+    id,
+    title: `Show ${id}`,
+    startDate: '2025-11-08T00:00:00Z',
+    endDate: '2025-11-08T00:00:00Z',
+    ...overrides,
+  });
+
+// Roughly 1 degree of latitude ≈ 69 miles
+const chicago = { latitude: 41.88, longitude: -87.63 };
+const milwaukee = { latitude: 43.04, longitude: -87.91 };
+
+describe('tripPlanner', () => {
+  test('formats clock times', () => {
+    expect(formatTripTime(570)).toBe('9:30 AM');
+    expect(formatTripTime(12 * 60)).toBe('12:00 PM');
+    expect(formatTripTime(17 * 60 + 5)).toBe('5:05 PM');
+  });
+
+  test('reads windows from the daily schedule, then show times, then defaults', () => {
+    const scheduled = tripShow('a', {
+      endDate: '2025-11-09T00:00:00Z',
+      dailySchedule: [
+        { date: '2025-11-09', startTime: '10:00 AM', endTime: '3:00 PM' },
+        { date: '2025-11-08', startTime: '9:00', endTime: '17:00' },
+      ],
+    });
+    expect(getShowOpenWindows(scheduled).map(w => [w.date, w.openMinutes, w.closeMinutes])).toEqual([
+      ['2025-11-08', 540, 1020],
+      ['2025-11-09', 600, 900],
+    ]);
+
+    const timed = tripShow('b', { startTime: '8:00 AM', endTime: '1:00 PM' });
+    expect(getShowOpenWindows(timed)[0]).toMatchObject({ openMinutes: 480, closeMinutes: 780, hoursKnown: true });
+
+    const untimed = tripShow('c', { endDate: '2025-11-09T00:00:00Z' });
+    const windows = getShowOpenWindows(untimed);
+    expect(windows).toHaveLength(2);
+    expect(windows[0]).toMatchObject({ openMinutes: 540, closeMinutes: 1020, hoursKnown: false });
+  });
+
+  test('finds shows open at the same time on the same day', () => {
+    const morning = tripShow('a', { startTime: '8:00 AM', endTime: '12:00 PM' });
+    const midday = tripShow('b', { startTime: '11:00 AM', endTime: '4:00 PM' });
+    const nextDay = tripShow('c', {
+      startDate: '2025-11-09T00:00:00Z',
+      endDate: '2025-11-09T00:00:00Z',
+      startTime: '8:00 AM',
+      endTime: '12:00 PM',
+    });
+
+    expect(findTripConflicts([morning, midday, nextDay])).toEqual([
+      { showIds: ['a', 'b'], date: '2025-11-08', overlapMinutes: 60 },
+    ]);
+  });
+
+  test('orders same-day shows by opening hours and drive time', () => {
+    const afternoon = tripShow('pm', { startTime: '1:00 PM', endTime: '5:00 PM', coordinates: milwaukee });
+    const morning = tripShow('am', { startTime: '8:00 AM', endTime: '11:00 AM', coordinates: chicago });
+
+    const plan = planTrip([afternoon, morning], { distanceBetween, now });
+
+    expect(plan.stops.map(s => s.show.id)).toEqual(['am', 'pm']);
+    expect(plan.stops[0].arriveMinutes).toBe(480);
+    expect(plan.stops[1].driveMiles).toBeGreaterThan(75);
+    expect(plan.stops[1].arriveMinutes).toBe(13 * 60);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  test('picks the shorter route when hours allow any order', () => {
+    // Three shows along a line heading north from the origin
+    const shows = [
+      tripShow('far', { coordinates: { latitude: 43.88, longitude: -87.63 } }),
+      tripShow('near', { coordinates: chicago }),
+      tripShow('mid', { coordinates: { latitude: 42.88, longitude: -87.63 } }),
+    ];
+
+    const plan = planTrip(shows, { distanceBetween, now, origin: chicago, visitMinutes: 60 });
+
+    expect(plan.stops.map(s => s.show.id)).toEqual(['near', 'mid', 'far']);
+    expect(plan.stops[0].driveMiles).toBe(0);
+  });
+
+  test('skips shows that cannot be fitted in or have ended', () => {
+    const first = tripShow('a', { startTime: '9:00 AM', endTime: '11:00 AM', coordinates: chicago });
+    const clash = tripShow('b', { startTime: '9:00 AM', endTime: '11:00 AM', coordinates: milwaukee });
+    const past = tripShow('c', { startDate: '2025-10-01T00:00:00Z', endDate: '2025-10-01T00:00:00Z' });
+
+    const plan = planTrip([first, clash, past], { distanceBetween, now, visitMinutes: 90 });
+
+    expect(plan.stops).toHaveLength(1);
+    expect(plan.skipped.map(s => [s.show.id, s.reason]).sort()).toEqual([
+      [plan.stops[0].show.id === 'a' ? 'b' : 'a', 'no_time'],
+      ['c', 'ended'],
+    ]);
+  });
+
+  test('builds a calendar entry per stop at the planned time', () => {
+    const plan = planTrip([tripShow('a', { startTime: '10:00 AM', endTime: '4:00 PM' })], { distanceBetween, now });
+    const [calendarShow] = toTripCalendarShows(plan);
+
+    expect(calendarShow.dailySchedule).toEqual([
+      { date: '2025-11-08', startTime: '10:00 AM', endTime: '11:30 AM', notes: 'Trip stop 1 of 1', timezone: undefined },
+    ]);
+  });
+
+  test('round-trips show ids through the share link', () => {
+    const ids = ['11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222'];
+    const url = buildTripShareUrl(ids, 'Fall weekend');
+
+    expect(url).toBe(`https://cardshowfinder.app/trip?shows=${ids.join(',')}&name=Fall%20weekend`);
+    expect(parseTripShowIds(new URL(url).searchParams.get('shows'))).toEqual(ids);
+    expect(parseTripShowIds(`${ids[0]},${ids[0]},not-an-id`)).toEqual([ids[0]]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Test suite for want list parsing (supabase/functions/_shared/wantListParser.ts)
+ *
+ * Covers splitting free-text lists into entries and pulling year, set,
+ * card number, grade and price caps out of each line.
+ */
+
+import {
+  formatWantListItem,
+  parseWantList,
+  parseWantListEntry,
+  splitWantListEntries,
+} from '../../supabase/functions/_shared/wantListParser';
+
+describe('wantListParser', () => {
+  describe('splitWantListEntries', () => {
+    test('splits lines, strips bullets and skips inventory lines', () => {
+      const entries = splitWantListEntries(
+        '- 1952 Topps Mantle\n2. Griffey rookie\n\n[INVENTORY] Vintage, Modern\n• Pikachu'
+      );
+
+      expect(entries).toEqual(['1952 Topps Mantle', 'Griffey rookie', 'Pikachu']);
+    });
+
+    test('splits a single line on commas but not on thousands separators', () => {
+      expect(splitWantListEntries('Jordan under $2,000, Bird, Magic')).toEqual([
+        'Jordan under $2,000',
+        'Bird',
+        'Magic',
+      ]);
+    });
+  });
+
+  describe('parseWantListEntry', () => {
+    test('extracts all structured fields', () => {
+      expect(parseWantListEntry('1986 Fleer #57 Michael Jordan PSA 8+ under $2,000')).toEqual({
+        playerName: 'Michael Jordan',
+        setName: 'Fleer',
+        year: 1986,
+        cardNumber: '57',
+        grader: 'PSA',
+        minGrade: 8,
+        maxPrice: 2000,
+        notes: null,
+        sourceText: '1986 Fleer #57 Michael Jordan PSA 8+ under $2,000',
+      });
+    });
+
+    test('handles seasons, short years, multi-word sets and k prices', () => {
+      expect(parseWantListEntry('2003-04 Topps Chrome LeBron James BGS 9.5 max 1.5k')).toMatchObject({
+        playerName: 'LeBron James',
+        setName: 'Topps Chrome',
+        year: 2003,
+        grader: 'BGS',
+        minGrade: 9.5,
+        maxPrice: 1500,
+      });
+
+      expect(parseWantListEntry("'52 Topps Mantle")).toMatchObject({ year: 1952, playerName: 'Mantle' });
+    });
+
+    test('keeps plain names and rejects lines without a name', () => {
+      expect(parseWantListEntry('Charizard')).toMatchObject({
+        playerName: 'Charizard',
+        setName: null,
+        year: null,
+        grader: null,
+        maxPrice: null,
+      });
+      expect(parseWantListEntry('1989 Upper Deck PSA 10')).toBeNull();
+    });
+  });
+
+  describe('parseWantList', () => {
+    test('reports entries that could not be parsed', () => {
+      const { items, unparsed } = parseWantList('Ken Griffey Jr\n1990 Topps\n$50');
+
+      expect(items.map(i => i.playerName)).toEqual(['Ken Griffey Jr']);
+      expect(unparsed).toEqual(['1990 Topps', '$50']);
+    });
+  });
+
+  describe('formatWantListItem', () => {
+    test('formats a compact label', () => {
+      const item = parseWantListEntry('1986 Fleer #57 Michael Jordan PSA 8 under $2000');
+      expect(item && formatWantListItem(item)).toBe('1986 Fleer #57 Michael Jordan · PSA 8+ · ≤ $2,000');
+    });
+  });
+});
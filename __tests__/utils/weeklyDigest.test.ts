@@ -0,0 +1,100 @@
+/**
+ * Test suite for the weekly email digest (supabase/functions/_shared/weeklyDigest.ts)
+ *
+ * Covers the subject line, section rendering, HTML escaping and the
+ * unsubscribe link in both bodies.
+ */
+
+import {
+  buildDigestSubject,
+  formatDigestDates,
+  isDigestEmpty,
+  renderWeeklyDigest,
+  WeeklyDigestContent,
+} from '../../supabase/functions/_shared/weeklyDigest';
+
+const empty: WeeklyDigestContent = {
+  home_zip: '60601',
+  radius_miles: 50,
+  nearby: [],
+  favorites_soon: [],
+  new_dealers: [],
+  followed_series: [],
+};
+
+const show = (id: string, title: string, start: string, end?: string) => ({
+  id,
+  title,
+  location: 'Rosemont Convention Center',
+  start_date: start,
+  end_date: end ?? start,
+});
+
+const unsubscribeUrl = 'https://example.supabase.co/functions/v1/email-digest-unsubscribe?token=abc';
+
+describe('weeklyDigest', () => {
+  test('formats single and multi-day dates', () => {
+    expect(formatDigestDates('2025-11-08T15:00:00Z', '2025-11-08T22:00:00Z')).toBe('Sat, Nov 8');
+    expect(formatDigestDates('2025-11-08T15:00:00Z', '2025-11-09T22:00:00Z')).toBe('Sat, Nov 8 – Sun, Nov 9');
+  });
+
+  test('detects an empty digest', () => {
+    expect(isDigestEmpty(empty)).toBe(true);
+    expect(isDigestEmpty({ ...empty, nearby: [show('s1', 'Show', '2025-11-08T15:00:00Z')] })).toBe(false);
+  });
+
+  test('builds the subject from saved and nearby shows', () => {
+    const nearby = [show('s1', 'A', '2025-11-08T15:00:00Z'), show('s2', 'B', '2025-11-09T15:00:00Z')];
+    const saved = [show('s3', 'C', '2025-11-10T15:00:00Z')];
+
+    expect(buildDigestSubject({ ...empty, nearby })).toBe('2 card shows coming up near you');
+    expect(buildDigestSubject({ ...empty, favorites_soon: saved })).toBe('1 of your saved shows is coming up');
+    expect(buildDigestSubject({ ...empty, nearby, favorites_soon: saved })).toBe(
+      '1 saved show coming up + 2 near you'
+    );
+  });
+
+  test('renders every non-empty section in both bodies', () => {
+    const digest = renderWeeklyDigest(
+      {
+        ...empty,
+        nearby: [{ ...show('s1', 'Windy City Show', '2025-11-08T15:00:00Z'), distance_miles: 12.5 }],
+        new_dealers: [
+          {
+            show_id: 's2',
+            show_title: 'Fall Classic',
+            start_date: '2025-11-15T15:00:00Z',
+            dealers: ['A', 'B', 'C', 'D', 'E', 'F', 'G'],
+          },
+        ],
+      },
+      { firstName: 'Sam', unsubscribeUrl, appUrl: 'https://cardshowfinder.app/' }
+    );
+
+    expect(digest.text).toContain('Hi Sam,');
+    expect(digest.text).toContain('UPCOMING SHOWS WITHIN 50 MILES OF 60601');
+    expect(digest.text).toContain('Windy City Show');
+    expect(digest.text).toContain('12.5 mi');
+    expect(digest.text).toContain('A, B, C, D, E and 2 more');
+    expect(digest.text).toContain('https://cardshowfinder.app/shows/s1');
+    expect(digest.text).not.toContain('YOUR SAVED SHOWS');
+    expect(digest.html).toContain('href="https://cardshowfinder.app/shows/s2"');
+  });
+
+  test('escapes show data in the HTML body', () => {
+    const digest = renderWeeklyDigest(
+      { ...empty, favorites_soon: [show('s1', '<script>Cards & Coins</script>', '2025-11-08T15:00:00Z')] },
+      { unsubscribeUrl }
+    );
+
+    expect(digest.html).toContain('&lt;script&gt;Cards &amp; Coins&lt;/script&gt;');
+    expect(digest.html).not.toContain('<script>');
+  });
+
+  test('includes the unsubscribe link in both bodies', () => {
+    const digest = renderWeeklyDigest(empty, { unsubscribeUrl });
+
+    expect(digest.text).toContain(`Unsubscribe: ${unsubscribeUrl}`);
+    expect(digest.html).toContain(`href="${unsubscribeUrl}"`);
+  });
+});
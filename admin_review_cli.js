@@ -51,6 +51,9 @@ const SUPABASE_ANON_KEY =
   process.env.SUPABASE_ANON_KEY ||
   process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ||
   '';
+// Extracted fields scoring below this are highlighted for checking
+const LOW_CONFIDENCE = 0.6;
+
 const FEEDBACK_TAGS = [
   'DATE_FORMAT',
   'VENUE_MISSING',
@@ -185,6 +188,42 @@ function truncate(str, length = 30) {
   return str.length > length ? str.substring(0, length - 3) + '...' : str;
 }
 
+function confidenceColor(confidence) {
+  return confidence >= 0.8 ? 'green' : (confidence >= LOW_CONFIDENCE ? 'yellow' : 'red');
+}
+
+// Per-field extraction confidence, with the page text each value was read from
+function displayFieldConfidence(show) {
+  const lowFields = new Set(show.low_confidence_fields || []);
+
+  console.warn(chalk.bold('\nExtraction Confidence:'));
+  if (show.confidence !== null && show.confidence !== undefined) {
+    const overall = Number(show.confidence);
+    console.warn(`  ${chalk.dim('Overall:')} ${chalk[confidenceColor(overall)](overall.toFixed(2))}`);
+  }
+
+  if (show.auto_review && show.auto_review.decision === 'held') {
+    console.warn(`  ${chalk.dim('Held for review:')} ${show.auto_review.reasons.join('; ')}`);
+  }
+
+  Object.entries(show.field_confidence).forEach(([field, provenance]) => {
+    if (provenance.method === 'missing' && !lowFields.has(field)) return;
+
+    const score = chalk[confidenceColor(provenance.confidence)](provenance.confidence.toFixed(2));
+    const flag = lowFields.has(field) ? chalk.red.bold('  ⚠ check') : '';
+    console.warn(`  ${chalk.dim(`${field}:`.padEnd(13))} ${score} ${chalk.dim(provenance.method)}${flag}`);
+
+    if (provenance.note) {
+      console.warn(`      ${chalk.yellow(provenance.note)}`);
+    }
+    if (provenance.snippet) {
+      console.warn(`      ${chalk.dim(`"${provenance.snippet}"`)}`);
+    } else if (provenance.method === 'inferred') {
+      console.warn(`      ${chalk.dim('Not found on the source page')}`);
+    }
+  });
+}
+
 // Display show details
 function displayShow(show) {
   console.warn('\n' + chalk.bold.underline(`Show Details: ${show.raw_payload.name || 'Unnamed Show'}`));
@@ -195,15 +234,17 @@ function displayShow(show) {
   console.warn(`  ${chalk.dim('Source:')} ${show.source_url}`);
   console.warn(`  ${chalk.dim('Created:')} ${formatDate(show.created_at)}`);
   
-  // Raw payload
+  // Raw payload, low-confidence values highlighted
   console.warn(chalk.bold('\nExtracted Data:'));
   const payload = show.raw_payload;
-  console.warn(`  ${chalk.dim('Name:')} ${payload.name || 'N/A'}`);
-  console.warn(`  ${chalk.dim('Dates:')} ${payload.startDate || 'N/A'} ${payload.endDate ? `to ${payload.endDate}` : ''}`);
-  console.warn(`  ${chalk.dim('Venue:')} ${payload.venueName || 'N/A'}`);
-  console.warn(`  ${chalk.dim('Location:')} ${[payload.address, payload.city, payload.state].filter(Boolean).join(', ') || 'N/A'}`);
-  console.warn(`  ${chalk.dim('Entry Fee:')} ${payload.entryFee || 'N/A'}`);
-  console.warn(`  ${chalk.dim('Contact:')} ${payload.contactInfo || 'N/A'}`);
+  const lowFields = show.low_confidence_fields || [];
+  const mark = (fields, text) => (fields.some(field => lowFields.includes(field)) ? chalk.red.bold(text) : text);
+  console.warn(`  ${chalk.dim('Name:')} ${mark(['name'], payload.name || 'N/A')}`);
+  console.warn(`  ${chalk.dim('Dates:')} ${mark(['startDate', 'endDate'], `${payload.startDate || 'N/A'} ${payload.endDate ? `to ${payload.endDate}` : ''}`)}`);
+  console.warn(`  ${chalk.dim('Venue:')} ${mark(['venueName'], payload.venueName || 'N/A')}`);
+  console.warn(`  ${chalk.dim('Location:')} ${mark(['address', 'city', 'state'], [payload.address, payload.city, payload.state].filter(Boolean).join(', ') || 'N/A')}`);
+  console.warn(`  ${chalk.dim('Entry Fee:')} ${mark(['entryFee'], payload.entryFee || 'N/A')}`);
+  console.warn(`  ${chalk.dim('Contact:')} ${mark(['contactInfo'], payload.contactInfo || 'N/A')}`);
   console.warn(`  ${chalk.dim('URL:')} ${payload.url || 'N/A'}`);
   
   if (payload.description) {
@@ -211,6 +252,10 @@ function displayShow(show) {
     console.warn(`    ${payload.description.replace(/\n/g, '\n    ')}`);
   }
   
+  if (show.field_confidence) {
+    displayFieldConfidence(show);
+  }
+  
   // Quality assessment
   if (show.quality) {
     console.warn(chalk.bold('\nQuality Assessment:'));
@@ -275,6 +320,7 @@ async function listPendingShows(options) {
         { name: 'date', title: 'Date', alignment: 'left' },
         { name: 'location', title: 'Location', alignment: 'left' },
         { name: 'score', title: 'Score', alignment: 'right' },
+        { name: 'confidence', title: 'Conf.', alignment: 'right' },
         { name: 'source', title: 'Source', alignment: 'left' },
         { name: 'created', title: 'Created', alignment: 'left' }
       ]
@@ -290,6 +336,9 @@ async function listPendingShows(options) {
         date: truncate(payload.startDate || 'N/A', 12),
         location: truncate([payload.city, payload.state].filter(Boolean).join(', '), 20),
         score: { text: show.quality.score, color: scoreColor },
+        confidence: show.confidence === null || show.confidence === undefined
+          ? 'N/A'
+          : { text: Number(show.confidence).toFixed(2), color: confidenceColor(Number(show.confidence)) },
         source: truncate(new URL(show.source_url).hostname.replace('www.', ''), 20),
         created: formatDate(show.created_at)
       });
@@ -199,6 +199,16 @@ module.exports = {
         ],
         category: ["BROWSABLE", "DEFAULT"],
       },
+      {
+        action: "VIEW",
+        data: [
+          {
+            scheme: "cardshowfinder",
+            host: "check-in",
+          },
+        ],
+        category: ["BROWSABLE", "DEFAULT"],
+      },
     ],
   },
   web: {
@@ -235,6 +245,7 @@ module.exports = {
     // App Tracking Transparency (iOS 14+) – required to correctly link the
     // native framework and generate the Info.plist entries that Apple checks
     "expo-tracking-transparency",
+    "expo-notifications",                // Push notification entitlements / channels
     "expo-asset",                        // Required for asset management
     "sentry-expo"                        // Enabled for crash reporting
   ],
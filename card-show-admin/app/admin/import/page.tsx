@@ -0,0 +1,102 @@
+/**
+ * Show Import Page
+ *
+ * Upload show files from promoters and partners. Rows are checked and
+ * compared with existing shows before anything is queued, and queued rows
+ * go through the normal review queue.
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import ImportUploader from '@/components/ImportUploader'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export default async function ImportPage() {
+  const supabase = createServerClient()
+
+  const [{ data: profiles, error }, { data: batches }] = await Promise.all([
+    supabase.from('import_mapping_profiles').select('*').order('name'),
+    supabase
+      .from('show_import_batches')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(10),
+  ])
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Import Shows</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          CSV, TSV, XLSX or JSON files of shows, queued for review after a dry run
+        </p>
+      </div>
+
+      {error && (
+        <div className="mt-8 p-4 bg-red-50 border-l-4 border-red-400">
+          <p className="text-sm text-red-700">Error loading mapping profiles: {error.message}</p>
+        </div>
+      )}
+
+      <div className="mt-8">
+        <ImportUploader profiles={profiles || []} />
+      </div>
+
+      {/* Recent imports */}
+      {batches && batches.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-lg font-medium text-gray-900">Recent imports</h2>
+          <div className="mt-4 overflow-x-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300 bg-white">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
+                    File
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Source
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Rows
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Queued
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Unchanged
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Errors
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Imported
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {batches.map(batch => (
+                  <tr key={batch.id}>
+                    <td className="py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">
+                      {batch.file_name}
+                      <span className="ml-1 text-xs uppercase text-gray-500">{batch.format}</span>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{batch.source_label}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{batch.row_count}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{batch.queued_count}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{batch.skipped_count}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{batch.error_count}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {new Date(batch.created_at).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+/**
+ * Review Moderation Page
+ *
+ * Queue of reviews and organizer responses held by automated screening or
+ * reported by users, plus the most recent moderation actions.
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import RefreshButton from '@/components/RefreshButton'
+import ReviewModerationQueue from '@/components/ReviewModerationQueue'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+const ACTION_LABELS: Record<string, string> = {
+  auto_hold: 'Held automatically',
+  report: 'Reported',
+  approve: 'Approved',
+  hide: 'Hidden',
+  ban: 'Hidden and banned',
+}
+
+const ACTION_COLORS: Record<string, string> = {
+  auto_hold: 'bg-yellow-100 text-yellow-800',
+  report: 'bg-orange-100 text-orange-800',
+  approve: 'bg-green-100 text-green-800',
+  hide: 'bg-gray-100 text-gray-800',
+  ban: 'bg-red-100 text-red-800',
+}
+
+export default async function ReviewsPage() {
+  const supabase = createServerClient()
+
+  const [{ data: queue, error }, { data: log, error: logError }] = await Promise.all([
+    supabase.rpc('get_review_moderation_queue', { p_limit: 100 }),
+    supabase.rpc('get_review_moderation_log', { p_limit: 25 }),
+  ])
+
+  const items = queue || []
+  const heldCount = items.filter(item => item.status === 'pending').length
+  const reportedCount = items.filter(item => item.open_reports > 0).length
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      {/* Header */}
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Review Moderation</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Reviews and organizer responses held by screening or reported by users
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+          <div className="inline-flex items-center rounded-md bg-purple-50 px-3 py-2">
+            <span className="text-sm font-medium text-purple-800">
+              {items.length} {items.length === 1 ? 'item' : 'items'} to review
+            </span>
+          </div>
+          <RefreshButton />
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="mt-8 grid grid-cols-1 gap-5 sm:grid-cols-2">
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <dl>
+              <dt className="text-sm font-medium text-gray-500 truncate">Held by screening or reports</dt>
+              <dd className="text-lg font-semibold text-gray-900">{heldCount}</dd>
+            </dl>
+          </div>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <dl>
+              <dt className="text-sm font-medium text-gray-500 truncate">With open reports</dt>
+              <dd className="text-lg font-semibold text-gray-900">{reportedCount}</dd>
+            </dl>
+          </div>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="mt-8 bg-white shadow overflow-hidden sm:rounded-lg">
+        {error && (
+          <div className="p-4 bg-red-50 border-l-4 border-red-400">
+            <p className="text-sm text-red-700">Error loading moderation queue: {error.message}</p>
+          </div>
+        )}
+
+        {!error && <ReviewModerationQueue items={items} />}
+      </div>
+
+      {/* Audit trail */}
+      <div className="mt-10">
+        <h2 className="text-lg font-semibold text-gray-900">Recent Actions</h2>
+        <div className="mt-4 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+          {logError && (
+            <div className="p-4 bg-red-50 border-l-4 border-red-400">
+              <p className="text-sm text-red-700">Error loading actions: {logError.message}</p>
+            </div>
+          )}
+
+          {!logError && (!log || log.length === 0) && (
+            <div className="text-center py-8 bg-white">
+              <p className="text-sm text-gray-500">No moderation actions yet.</p>
+            </div>
+          )}
+
+          {!logError && log && log.length > 0 && (
+            <table className="min-w-full divide-y divide-gray-300 bg-white">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
+                    When
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Action
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    By
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Author
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Reason
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {log.map(entry => {
+                  const flags = (entry.details as { flags?: string[] } | null)?.flags
+                  return (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-500 sm:pl-6">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm">
+                        <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${ACTION_COLORS[entry.action] || 'bg-gray-100 text-gray-800'}`}>
+                          {ACTION_LABELS[entry.action] || entry.action}
+                        </span>
+                        <span className="ml-2 text-xs text-gray-500">{entry.target}</span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{entry.actor_name}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{entry.subject_name}</td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        {entry.reason || (flags && flags.length > 0 ? flags.join(', ') : '-')}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+/**
+ * Scraper Source Health Page
+ *
+ * Approved-show yield, failures and backoff state per scraping source over
+ * the last 90 days, with each source's recent errors and last extraction
+ * sample.
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import RefreshButton from '@/components/RefreshButton'
+import SourceHealthTable from '@/components/SourceHealthTable'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+const HEALTH_WINDOW_DAYS = 90
+
+export default async function SourcesPage() {
+  const supabase = createServerClient()
+
+  const { data, error } = await supabase.rpc('get_scraping_source_health', {
+    p_days: HEALTH_WINDOW_DAYS,
+  })
+
+  const sources = data || []
+  const now = new Date()
+  const enabledCount = sources.filter(source => source.enabled).length
+  const backingOffCount = sources.filter(
+    source => source.enabled && source.next_attempt_at && new Date(source.next_attempt_at) > now
+  ).length
+  const autoDisabledCount = sources.filter(
+    source => !source.enabled && source.disabled_reason?.startsWith('Disabled after')
+  ).length
+  const approvedTotal = sources.reduce((sum, source) => sum + source.approved_count, 0)
+
+  const stats = [
+    { label: 'Enabled sources', value: `${enabledCount} of ${sources.length}` },
+    { label: 'Backing off after failures', value: backingOffCount },
+    { label: 'Disabled automatically', value: autoDisabledCount },
+    { label: `Approved shows (${HEALTH_WINDOW_DAYS} days)`, value: approvedTotal },
+  ]
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      {/* Header */}
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Scraper Sources</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Yield and health of each scraping source over the last {HEALTH_WINDOW_DAYS} days
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <RefreshButton />
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="mt-8 grid grid-cols-1 gap-5 sm:grid-cols-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <dl>
+                <dt className="text-sm font-medium text-gray-500 truncate">{stat.label}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{stat.value}</dd>
+              </dl>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Sources */}
+      <div className="mt-8 overflow-x-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        {error && (
+          <div className="p-4 bg-red-50 border-l-4 border-red-400">
+            <p className="text-sm text-red-700">Error loading sources: {error.message}</p>
+          </div>
+        )}
+
+        {!error && <SourceHealthTable sources={sources} />}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+/**
+ * API Route: Commit Show Import
+ *
+ * Queues the valid rows of an uploaded file in scraped_shows_pending for
+ * review, through the show-import function. Rows matching a published show
+ * with nothing new are skipped.
+ */
+
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+export async function POST(request: Request) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    // Check authentication
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .single()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    if (!body.fileName || !body.content) {
+      return NextResponse.json({ error: 'fileName and content are required' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase.functions.invoke('show-import/commit', { body })
+
+    if (error) {
+      const details = await error.context?.json?.().catch(() => null)
+      console.error('Error committing import:', details?.error || error.message)
+      return NextResponse.json(
+        { error: details?.error || 'Failed to import shows' },
+        { status: error.context?.status || 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      result: data.data,
+      message: `${data.data.queued} shows queued for review`,
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in import commit route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
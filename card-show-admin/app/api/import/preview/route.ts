@@ -0,0 +1,66 @@
+/**
+ * API Route: Preview Show Import
+ *
+ * Dry run of an uploaded file through the show-import function: the
+ * validation report per row and what each valid row would add or change.
+ * Nothing is written.
+ */
+
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+export async function POST(request: Request) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    // Check authentication
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .single()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    if (!body.fileName || !body.content) {
+      return NextResponse.json({ error: 'fileName and content are required' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase.functions.invoke('show-import/preview', { body })
+
+    if (error) {
+      // The function's own message says what is wrong with the file
+      const details = await error.context?.json?.().catch(() => null)
+      console.error('Error previewing import:', details?.error || error.message)
+      return NextResponse.json(
+        { error: details?.error || 'Failed to preview import' },
+        { status: error.context?.status || 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      preview: data.data,
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in import preview route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * API Route: Import Mapping Profiles
+ *
+ * POST saves a column mapping profile (insert, or update when an id is
+ * given); DELETE removes one. Batches imported with a deleted profile
+ * keep their history.
+ */
+
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+const FORMATS = ['csv', 'tsv', 'xlsx', 'json']
+
+async function requireAdmin() {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  // Check authentication
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    return { supabase, session: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Check admin role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('user_id', session.user.id)
+    .single()
+
+  if (!profile || profile.role !== 'admin') {
+    return { supabase, session, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  return { supabase, session, response: null }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, session, response } = await requireAdmin()
+    if (response) return response
+
+    const { id, name, description, sourceLabel, format, mapping, options } = await request.json()
+
+    if (!name?.trim() || !sourceLabel?.trim() || !mapping || typeof mapping !== 'object') {
+      return NextResponse.json(
+        { error: 'name, sourceLabel and mapping are required' },
+        { status: 400 }
+      )
+    }
+
+    if (format && !FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${FORMATS.join(', ')}` }, { status: 400 })
+    }
+
+    const values = {
+      name: name.trim(),
+      description: description || null,
+      source_label: sourceLabel.trim(),
+      format: format || null,
+      mapping,
+      options: options || {},
+      updated_at: new Date().toISOString(),
+    }
+
+    const { data, error } = id
+      ? await supabase.from('import_mapping_profiles').update(values).eq('id', id).select().single()
+      : await supabase
+          .from('import_mapping_profiles')
+          .insert({ ...values, created_by: session!.user.id })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Error saving mapping profile:', error)
+      const duplicate = error.code === '23505'
+      return NextResponse.json(
+        { error: duplicate ? `A profile named "${values.name}" already exists` : 'Failed to save profile', details: error.message },
+        { status: duplicate ? 409 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      profile: data,
+      message: 'Profile saved',
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in import profiles route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { supabase, response } = await requireAdmin()
+    if (response) return response
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    const { error } = await supabase.from('import_mapping_profiles').delete().eq('id', id)
+
+    if (error) {
+      console.error('Error deleting mapping profile:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete profile', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Profile deleted',
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in import profiles route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API Route: Moderate Review
+ *
+ * Approves, hides, or hides and bans the author of a review or organizer
+ * response (moderate_review). Open reports are resolved and the decision
+ * is written to the moderation audit trail.
+ */
+
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+const ACTIONS = ['approve', 'hide', 'ban']
+const TARGETS = ['review', 'response']
+
+export async function POST(request: Request) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    // Check authentication
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .single()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Parse request body
+    const { reviewId, action, target = 'review', reason } = await request.json()
+
+    if (!reviewId || !ACTIONS.includes(action) || !TARGETS.includes(target)) {
+      return NextResponse.json(
+        { error: 'reviewId, a valid action and target are required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase.rpc('moderate_review', {
+      p_review_id: reviewId,
+      p_action: action,
+      p_target: target,
+      p_reason: reason || null,
+    })
+
+    if (error) {
+      console.error('Error moderating review:', error)
+      return NextResponse.json(
+        { error: 'Failed to moderate review', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      result: data,
+      message: 'Review moderated successfully',
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in moderate route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * API Route: Show Duplicates
+ *
+ * Returns existing shows that are likely duplicates of the given show,
+ * scored on title, distance and date overlap (find_duplicates_for_show).
+ */
+
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+export async function GET(request: Request) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    // Check authentication
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .single()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Show ID is required' }, { status: 400 })
+    }
+
+    const { data: duplicates, error } = await supabase.rpc('find_duplicates_for_show', {
+      p_show_id: id,
+      p_limit: 5,
+    })
+
+    if (error) {
+      console.error('Error finding duplicates:', error)
+      return NextResponse.json(
+        { error: 'Failed to check for duplicates', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      duplicates: duplicates || [],
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in duplicates route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * API Route: Merge Shows
+ *
+ * Merges a duplicate show into the surviving one. Favorites, planned
+ * attendance, reviews, dealer participation and want-list shares are
+ * re-pointed; the duplicate is kept with status MERGED.
+ */
+
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+export async function POST(request: Request) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    // Check authentication
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .single()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Parse request body
+    const { survivorId, duplicateId, notes } = await request.json()
+
+    if (!survivorId || !duplicateId) {
+      return NextResponse.json(
+        { error: 'survivorId and duplicateId are required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase.rpc('merge_shows', {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+      p_notes: notes || null,
+    })
+
+    if (error) {
+      console.error('Error merging shows:', error)
+      return NextResponse.json(
+        { error: 'Failed to merge shows', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      moved: data?.moved,
+      message: 'Shows merged successfully',
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in merge route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * API Route: Toggle Scraping Source
+ *
+ * Enables or disables a scraping source (set_scraping_source_enabled).
+ * Re-enabling clears the error streak and backoff so the scheduler picks
+ * the source up again on its next run.
+ */
+
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+export async function POST(request: Request) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    // Check authentication
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .single()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Parse request body
+    const { url, enabled } = await request.json()
+
+    if (!url || typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'url and enabled (boolean) are required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase.rpc('set_scraping_source_enabled', {
+      p_url: url,
+      p_enabled: enabled,
+    })
+
+    if (error) {
+      console.error('Error updating scraping source:', error)
+      return NextResponse.json(
+        { error: 'Failed to update source', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (data && data.success === false) {
+      return NextResponse.json({ error: data.error }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      result: data,
+      message: enabled ? 'Source re-enabled' : 'Source disabled',
+    })
+  } catch (error: any) {
+    console.error('Unexpected error in toggle route:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,647 @@
+'use client'
+
+/**
+ * ImportUploader Client Component
+ *
+ * Upload a CSV, TSV, XLSX or JSON file of shows, map its columns (from a
+ * saved profile or suggested from the headers), check the row-by-row
+ * report and the diff against existing shows, then queue the valid rows
+ * for review.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Database } from '@/types/supabase'
+
+type MappingProfile = Database['public']['Tables']['import_mapping_profiles']['Row']
+type Mapping = Record<string, string[]>
+
+interface ImportOptions {
+  dateOrder?: 'mdy' | 'dmy'
+  defaultState?: string | null
+}
+
+interface RowIssue {
+  field: string | null
+  severity: 'error' | 'warning'
+  message: string
+}
+
+interface PreviewRow {
+  rowNumber: number
+  valid: boolean
+  issues: RowIssue[]
+  show: Record<string, any>
+  action: 'new' | 'update' | 'unchanged' | null
+  match: { id: string; title: string | null; score: number | null } | null
+  changes: { field: string; from: string | null; to: string | null }[]
+}
+
+interface Preview {
+  fileName: string
+  format: string
+  sheets: string[] | null
+  sheet: string | null
+  headers: string[]
+  mapping: Mapping
+  options: ImportOptions
+  sourceLabel: string
+  unmappedRequired: string[]
+  summary: {
+    totalRows: number
+    validRows: number
+    invalidRows: number
+    warningRows: number
+    new: number
+    update: number
+    unchanged: number
+  }
+  rows: PreviewRow[]
+}
+
+interface ImportUploaderProps {
+  profiles: MappingProfile[]
+}
+
+// Keep in sync with IMPORT_FIELDS in supabase/functions/_shared/showImport.ts
+const FIELDS: { key: string; label: string; required?: boolean }[] = [
+  { key: 'name', label: 'Show name', required: true },
+  { key: 'startDate', label: 'Start date', required: true },
+  { key: 'endDate', label: 'End date' },
+  { key: 'venueName', label: 'Venue' },
+  { key: 'address', label: 'Street address' },
+  { key: 'city', label: 'City', required: true },
+  { key: 'state', label: 'State', required: true },
+  { key: 'zipCode', label: 'ZIP code' },
+  { key: 'showHours', label: 'Hours' },
+  { key: 'entryFee', label: 'Entry fee' },
+  { key: 'description', label: 'Description' },
+  { key: 'url', label: 'Website' },
+  { key: 'contactInfo', label: 'Contact' },
+]
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(FIELDS.map(field => [field.key, field.label]))
+
+const ACTION_STYLES: Record<string, { label: string; color: string }> = {
+  new: { label: 'New show', color: 'bg-green-100 text-green-800' },
+  update: { label: 'Updates show', color: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'No changes', color: 'bg-gray-100 text-gray-800' },
+}
+
+// Must match MAX_FILE_BYTES in the show-import function
+const MAX_FILE_BYTES = 5 * 1024 * 1024
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''))
+    reader.onerror = () => reject(new Error('Could not read the file'))
+    reader.readAsDataURL(file)
+  })
+}
+
+export default function ImportUploader({ profiles: initialProfiles }: ImportUploaderProps) {
+  const router = useRouter()
+  const [profiles, setProfiles] = useState(initialProfiles)
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null)
+  const [profileId, setProfileId] = useState('')
+  const [mapping, setMapping] = useState<Mapping | null>(null)
+  const [options, setOptions] = useState<ImportOptions>({})
+  const [sourceLabel, setSourceLabel] = useState('')
+  const [sheet, setSheet] = useState<string | null>(null)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [busy, setBusy] = useState<'preview' | 'commit' | 'profile' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [showAllRows, setShowAllRows] = useState(false)
+  // Settings changed since the last check; the preview no longer applies
+  const [stale, setStale] = useState(false)
+
+  const requestBody = (overrides: Record<string, any> = {}) => ({
+    fileName: file?.name,
+    content: file?.content,
+    profileId: profileId || undefined,
+    mapping: mapping || undefined,
+    options,
+    sourceLabel: sourceLabel || undefined,
+    sheet: sheet || undefined,
+    ...overrides,
+  })
+
+  const runPreview = async (body: Record<string, any>) => {
+    setBusy('preview')
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/import/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to preview import')
+      }
+
+      const result: Preview = data.preview
+      setPreview(result)
+      setMapping(result.mapping)
+      setOptions(result.options || {})
+      setSourceLabel(result.sourceLabel)
+      setSheet(result.sheet)
+      setStale(false)
+    } catch (error: any) {
+      setPreview(null)
+      setError(error.message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return
+
+    if (selected.size > MAX_FILE_BYTES) {
+      setError('Files are limited to 5 MB; split larger files into several uploads.')
+      return
+    }
+
+    try {
+      const content = await readAsBase64(selected)
+      setFile({ name: selected.name, content })
+      // A new file starts from the chosen profile, or a suggested mapping
+      setMapping(null)
+      setSheet(null)
+      await runPreview({
+        fileName: selected.name,
+        content,
+        profileId: profileId || undefined,
+        sourceLabel: profileId ? undefined : sourceLabel || undefined,
+      })
+    } catch (error: any) {
+      setError(error.message)
+    }
+  }
+
+  const handleProfileChange = async (id: string) => {
+    setProfileId(id)
+    setMapping(null)
+    if (!id) setSourceLabel('')
+    if (file) {
+      await runPreview({ fileName: file.name, content: file.content, profileId: id || undefined, sheet: sheet || undefined })
+    }
+  }
+
+  const handleMappingChange = (field: string, value: string) => {
+    setMapping({ ...(mapping || {}), [field]: JSON.parse(value) })
+    setStale(true)
+  }
+
+  const handleSaveProfile = async () => {
+    if (!mapping) return
+
+    const current = profiles.find(profile => profile.id === profileId)
+    const name = prompt(
+      current ? `Save changes to "${current.name}"? Enter a new name to save a copy.` : 'Name for this mapping profile',
+      current?.name || sourceLabel
+    )
+    if (!name?.trim()) return
+
+    setBusy('profile')
+    setError(null)
+
+    try {
+      const response = await fetch('/api/import/profiles', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          id: current && current.name === name.trim() ? current.id : undefined,
+          name,
+          description: current?.description,
+          sourceLabel: sourceLabel || name,
+          format: preview?.format,
+          mapping,
+          options: { ...options, sheet },
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details && response.status !== 409 ? data.details : data.error || 'Failed to save profile')
+      }
+
+      setProfiles([...profiles.filter(profile => profile.id !== data.profile.id), data.profile].sort((a, b) => a.name.localeCompare(b.name)))
+      setProfileId(data.profile.id)
+      setMessage(`Saved profile "${data.profile.name}"`)
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDeleteProfile = async () => {
+    const current = profiles.find(profile => profile.id === profileId)
+    if (!current || !confirm(`Delete the "${current.name}" profile?`)) {
+      return
+    }
+
+    setBusy('profile')
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/import/profiles?id=${current.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details || data.error || 'Failed to delete profile')
+      }
+
+      setProfiles(profiles.filter(profile => profile.id !== current.id))
+      setProfileId('')
+      setMessage(`Deleted profile "${current.name}"`)
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!preview) return
+
+    const queued = preview.summary.new + preview.summary.update
+    if (!confirm(`Queue ${queued} shows from ${preview.fileName} for review?`)) {
+      return
+    }
+
+    setBusy('commit')
+    setError(null)
+
+    try {
+      const response = await fetch('/api/import/commit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody()),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to import shows')
+      }
+
+      setMessage(
+        `${data.result.queued} shows queued for review` +
+          (data.result.skipped > 0 ? `, ${data.result.skipped} unchanged skipped` : '') +
+          (data.result.invalid > 0 ? `, ${data.result.invalid} rows with errors left out` : '')
+      )
+      setPreview(null)
+      setFile(null)
+      router.refresh()
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const rows = preview
+    ? showAllRows
+      ? preview.rows
+      : preview.rows.filter(row => row.issues.length > 0 || row.action !== 'unchanged')
+    : []
+  const queueCount = preview ? preview.summary.new + preview.summary.update : 0
+
+  return (
+    <div className="space-y-6">
+      {/* File and profile */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Mapping profile</label>
+            <select
+              value={profileId}
+              onChange={e => handleProfileChange(e.target.value)}
+              disabled={busy !== null}
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-purple-500 focus:ring-purple-500"
+            >
+              <option value="">Suggest from headers</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+            {profileId && (
+              <p className="mt-1 text-xs text-gray-500">
+                {profiles.find(profile => profile.id === profileId)?.description}{' '}
+                <button
+                  type="button"
+                  onClick={handleDeleteProfile}
+                  disabled={busy !== null}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Source label</label>
+            <input
+              type="text"
+              value={sourceLabel}
+              onChange={e => {
+                setSourceLabel(e.target.value)
+                setStale(true)
+              }}
+              placeholder="e.g. indy-card-shows"
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-purple-500 focus:ring-purple-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">Re-imports under the same label update earlier rows</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">File</label>
+            <input
+              type="file"
+              accept=".csv,.tsv,.tab,.txt,.xlsx,.json"
+              onChange={e => handleFile(e.target.files?.[0])}
+              disabled={busy !== null}
+              className="mt-1 block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-purple-50 file:px-3 file:py-1.5 file:text-sm file:font-medium file:text-purple-700 hover:file:bg-purple-100"
+            />
+            <p className="mt-1 text-xs text-gray-500">CSV, TSV, XLSX or JSON, up to 5 MB</p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-l-4 border-red-400">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border-l-4 border-green-400">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {busy === 'preview' && <p className="text-sm text-gray-500">Checking file…</p>}
+
+      {preview && mapping && (
+        <>
+          {/* Column mapping */}
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="sm:flex sm:items-center sm:justify-between">
+              <h2 className="text-lg font-medium text-gray-900">Columns</h2>
+              <div className="mt-3 flex gap-2 sm:mt-0">
+                <button
+                  type="button"
+                  onClick={handleSaveProfile}
+                  disabled={busy !== null}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Save as profile
+                </button>
+                <button
+                  type="button"
+                  onClick={() => runPreview(requestBody())}
+                  disabled={busy !== null}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+                >
+                  Check again
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {FIELDS.map(field => {
+                const columns = mapping[field.key] || []
+                return (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {field.label}
+                      {field.required && <span className="text-red-600"> *</span>}
+                    </label>
+                    <select
+                      value={JSON.stringify(columns)}
+                      onChange={e => handleMappingChange(field.key, e.target.value)}
+                      className={`mt-1 block w-full rounded-md text-sm shadow-sm focus:border-purple-500 focus:ring-purple-500 ${
+                        field.required && columns.length === 0 ? 'border-red-300' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="[]">Not in file</option>
+                      {columns.length > 1 && (
+                        <option value={JSON.stringify(columns)}>{columns.join(' + ')}</option>
+                      )}
+                      {preview.headers.map(header => (
+                        <option key={header} value={JSON.stringify([header])}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )
+              })}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Numeric dates</label>
+                <select
+                  value={options.dateOrder || 'mdy'}
+                  onChange={e => {
+                    setOptions({ ...options, dateOrder: e.target.value as 'mdy' | 'dmy' })
+                    setStale(true)
+                  }}
+                  className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                >
+                  <option value="mdy">Month / day / year</option>
+                  <option value="dmy">Day / month / year</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Default state</label>
+                <input
+                  type="text"
+                  value={options.defaultState || ''}
+                  onChange={e => {
+                    setOptions({ ...options, defaultState: e.target.value || null })
+                    setStale(true)
+                  }}
+                  placeholder="For rows without one"
+                  className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                />
+              </div>
+
+              {preview.sheets && preview.sheets.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Sheet</label>
+                  <select
+                    value={sheet || ''}
+                    onChange={e => {
+                      setSheet(e.target.value)
+                      setStale(true)
+                    }}
+                    className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                  >
+                    {preview.sheets.map(name => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {preview.unmappedRequired.length > 0 && (
+              <p className="mt-4 text-sm text-red-700">
+                Pick columns for {preview.unmappedRequired.map(field => FIELD_LABELS[field] || field).join(', ')} and
+                check again.
+              </p>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-5 sm:grid-cols-5">
+            {[
+              { label: 'Rows', value: preview.summary.totalRows },
+              { label: 'With errors', value: preview.summary.invalidRows },
+              { label: 'New shows', value: preview.summary.new },
+              { label: 'Updates', value: preview.summary.update },
+              { label: 'Already up to date', value: preview.summary.unchanged },
+            ].map(stat => (
+              <div key={stat.label} className="bg-white overflow-hidden shadow rounded-lg">
+                <div className="p-5">
+                  <dl>
+                    <dt className="text-sm font-medium text-gray-500 truncate">{stat.label}</dt>
+                    <dd className="text-lg font-semibold text-gray-900">{stat.value}</dd>
+                  </dl>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Rows */}
+          <div className="overflow-x-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+            <div className="flex items-center justify-between bg-white px-4 py-3 sm:px-6">
+              <p className="text-sm text-gray-700">
+                {showAllRows ? 'All rows' : 'Rows with problems or changes'} in {preview.fileName}
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showAllRows}
+                  onChange={e => setShowAllRows(e.target.checked)}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                Show unchanged rows
+              </label>
+            </div>
+            <table className="min-w-full divide-y divide-gray-300 bg-white">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
+                    Row
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Show
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Result
+                  </th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Details
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="py-8 text-center text-sm text-gray-500">
+                      Every row matches an existing show with nothing new.
+                    </td>
+                  </tr>
+                )}
+                {rows.map(row => (
+                  <tr key={row.rowNumber} className={row.valid ? '' : 'bg-red-50'}>
+                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-500 sm:pl-6">{row.rowNumber}</td>
+                    <td className="px-3 py-4 text-sm">
+                      <p className="font-medium text-gray-900">{row.show.name || '(no name)'}</p>
+                      <p className="text-gray-500">
+                        {[row.show.startDate, [row.show.city, row.show.state].filter(Boolean).join(', ')]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                      {row.valid && row.action ? (
+                        <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${ACTION_STYLES[row.action].color}`}>
+                          {ACTION_STYLES[row.action].label}
+                        </span>
+                      ) : (
+                        <span className="inline-flex rounded-full px-2 text-xs font-semibold leading-5 bg-red-100 text-red-800">
+                          Not imported
+                        </span>
+                      )}
+                      {row.match && <p className="mt-1 text-xs text-gray-500">{row.match.title}</p>}
+                    </td>
+                    <td className="px-3 py-4 text-sm">
+                      {row.issues.length > 0 && (
+                        <ul className="space-y-1">
+                          {row.issues.map((issue, index) => (
+                            <li key={index} className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}>
+                              {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {row.changes.length > 0 && (
+                        <dl className="mt-1 space-y-1">
+                          {row.changes.map(change => (
+                            <div key={change.field}>
+                              <dt className="inline font-medium text-gray-700">{FIELD_LABELS[change.field] || change.field}: </dt>
+                              <dd className="inline">
+                                <span className="text-gray-500 line-through">{change.from || 'empty'}</span>{' '}
+                                <span className="text-gray-900">{change.to}</span>
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={busy !== null || stale || queueCount === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+            >
+              {busy === 'commit'
+                ? 'Queuing…'
+                : stale
+                  ? 'Check again before queuing'
+                  : `Queue ${queueCount} shows for review`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
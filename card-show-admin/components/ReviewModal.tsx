@@ -29,6 +29,21 @@ interface Show {
   confidence_score?: number
 }
 
+interface DuplicateCandidate {
+  show_id: string
+  title: string
+  location: string | null
+  start_date: string
+  end_date: string | null
+  status: string | null
+  score: number
+  distance_km: number | null
+  reasons: string[]
+}
+
+// Approving a show this similar to an existing one needs confirmation
+const LIKELY_DUPLICATE_SCORE = 0.8
+
 interface ReviewModalProps {
   show: Show
   isOpen: boolean
@@ -40,12 +55,39 @@ export default function ReviewModal({ show, isOpen, onClose }: ReviewModalProps)
   const [formData, setFormData] = useState<Show>(show)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([])
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false)
 
   // Update form data when show prop changes
   useEffect(() => {
     setFormData(show)
   }, [show])
 
+  // Look for existing shows this one duplicates (scraper vs web vs organizer)
+  useEffect(() => {
+    if (!isOpen) return
+
+    let cancelled = false
+    setIsCheckingDuplicates(true)
+    setDuplicates([])
+
+    fetch(`/api/shows/duplicates?id=${encodeURIComponent(show.id)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled) setDuplicates(data.duplicates || [])
+      })
+      .catch(err => {
+        console.error('Error checking duplicates:', err)
+      })
+      .finally(() => {
+        if (!cancelled) setIsCheckingDuplicates(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [show.id, isOpen])
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
     setFormData(prev => ({
@@ -55,6 +97,11 @@ export default function ReviewModal({ show, isOpen, onClose }: ReviewModalProps)
   }
 
   const handleApprove = async () => {
+    const likely = duplicates.find(d => Number(d.score) >= LIKELY_DUPLICATE_SCORE)
+    if (likely && !confirm(`This looks like a duplicate of "${likely.title}". Approve anyway?`)) {
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
@@ -114,6 +161,38 @@ export default function ReviewModal({ show, isOpen, onClose }: ReviewModalProps)
     }
   }
 
+  const handleMerge = async (candidate: DuplicateCandidate) => {
+    if (!confirm(`Merge this show into "${candidate.title}"? Favorites, reviews, dealers and want-list shares will move to that show.`)) {
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/shows/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ survivorId: candidate.show_id, duplicateId: show.id }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to merge shows')
+      }
+
+      // Success - refresh the page to update the list
+      router.refresh()
+      onClose()
+    } catch (err: any) {
+      setError(err.message)
+      setIsSubmitting(false)
+    }
+  }
+
   if (!isOpen) return null
 
   return (
@@ -172,6 +251,42 @@ export default function ReviewModal({ show, isOpen, onClose }: ReviewModalProps)
                 </div>
               )}
 
+              {/* Possible duplicates */}
+              {isCheckingDuplicates && (
+                <p className="mt-4 text-sm text-gray-500">Checking for duplicates...</p>
+              )}
+              {duplicates.length > 0 && (
+                <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                  <h4 className="text-sm font-medium text-yellow-800">Possible duplicates</h4>
+                  <ul className="mt-2 divide-y divide-yellow-100">
+                    {duplicates.map(candidate => (
+                      <li key={candidate.show_id} className="py-2 flex items-center justify-between">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {candidate.title}
+                            <span className="ml-2 text-xs text-gray-500">({candidate.status})</span>
+                          </p>
+                          <p className="text-xs text-gray-600">
+                            {new Date(candidate.start_date).toLocaleDateString()}
+                            {candidate.location ? ` · ${candidate.location}` : ''}
+                            {` · ${Math.round(Number(candidate.score) * 100)}% match`}
+                            {candidate.reasons?.length ? ` · ${candidate.reasons.join(', ')}` : ''}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleMerge(candidate)}
+                          disabled={isSubmitting}
+                          className="ml-4 flex-shrink-0 inline-flex items-center px-3 py-1.5 border border-yellow-300 text-xs font-medium rounded-md text-yellow-800 bg-white hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Merge into this show
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Form */}
               <div className="mt-6 space-y-6 max-h-[60vh] overflow-y-auto">
                 {/* Basic Info */}
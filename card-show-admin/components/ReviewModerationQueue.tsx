@@ -0,0 +1,185 @@
+'use client'
+
+/**
+ * ReviewModerationQueue Client Component
+ *
+ * Held and reported reviews / organizer responses with approve, hide and
+ * ban actions.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Database } from '@/types/supabase'
+
+type QueueItem = Database['public']['Functions']['get_review_moderation_queue']['Returns'][number]
+type ModerationAction = 'approve' | 'hide' | 'ban'
+
+interface ReviewModerationQueueProps {
+  items: QueueItem[]
+}
+
+const FLAG_LABELS: Record<string, string> = {
+  profanity: 'Blocked words',
+  link: 'Contains a link',
+  duplicate: 'Duplicate text',
+  burst: 'Review-bombing burst',
+  reports: 'Reported 3+ times',
+}
+
+const REASON_LABELS: Record<string, string> = {
+  spam: 'Spam',
+  abusive: 'Abusive',
+  off_topic: 'Off topic',
+  fake: 'Fake',
+  other: 'Other',
+}
+
+export default function ReviewModerationQueue({ items }: ReviewModerationQueueProps) {
+  const router = useRouter()
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  const handleAction = async (item: QueueItem, action: ModerationAction) => {
+    let reason: string | null = null
+    if (action !== 'approve') {
+      reason = prompt(
+        action === 'ban'
+          ? `Hide this ${item.target} and ban ${item.author_name} from posting. Reason:`
+          : `Hide this ${item.target}. Reason (optional):`
+      )
+      // Cancelled
+      if (reason === null) {
+        return
+      }
+    }
+
+    const key = `${item.review_id}-${item.target}`
+    setBusyKey(key)
+
+    try {
+      const response = await fetch('/api/reviews/moderate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          reviewId: item.review_id,
+          target: item.target,
+          action,
+          reason: reason?.trim() || null,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details || data.error || 'Failed to moderate review')
+      }
+
+      // Refresh to update the queue and audit trail
+      router.refresh()
+    } catch (error: any) {
+      alert('Error: ' + error.message)
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing to moderate</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          No reviews are held or reported right now.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <ul role="list" className="divide-y divide-gray-200">
+      {items.map((item) => {
+        const key = `${item.review_id}-${item.target}`
+        const isBusy = busyKey === key
+
+        return (
+          <li key={key} className="p-6">
+            <div className="flex items-start justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center flex-wrap gap-2">
+                  <span className="text-sm font-semibold text-gray-900">
+                    {item.target === 'response' ? 'Organizer response' : `${item.rating}★ review`}
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    by {item.author_name}
+                    {item.author_banned && (
+                      <span className="ml-1 text-red-600 font-medium">(banned)</span>
+                    )}
+                  </span>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    item.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+                  }`}>
+                    {item.status === 'pending' ? 'Held' : 'Live'}
+                  </span>
+                </div>
+
+                <p className="mt-1 text-sm text-gray-500">
+                  {item.series_name || item.show_title || 'Unknown show'}
+                  {' · '}
+                  {new Date(item.created_at).toLocaleString()}
+                </p>
+
+                <p className="mt-3 text-sm text-gray-900 whitespace-pre-wrap break-words">
+                  {item.content || <span className="italic text-gray-400">No text</span>}
+                </p>
+
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {item.flags.map(flag => (
+                    <span key={flag} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-50 text-yellow-800 border border-yellow-200">
+                      {FLAG_LABELS[flag] || flag}
+                    </span>
+                  ))}
+                  {item.open_reports > 0 && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-orange-50 text-orange-800 border border-orange-200">
+                      {item.open_reports} {item.open_reports === 1 ? 'report' : 'reports'}
+                      {item.report_reasons.length > 0 &&
+                        `: ${item.report_reasons.map(reason => REASON_LABELS[reason] || reason).join(', ')}`}
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <div className="ml-6 flex flex-shrink-0 flex-col space-y-2">
+                <button
+                  type="button"
+                  onClick={() => handleAction(item, 'approve')}
+                  disabled={isBusy}
+                  className="inline-flex justify-center items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleAction(item, 'hide')}
+                  disabled={isBusy}
+                  className="inline-flex justify-center items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Hide
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleAction(item, 'ban')}
+                  disabled={isBusy || !item.author_id}
+                  className="inline-flex justify-center items-center px-3 py-1.5 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                >
+                  Ban author
+                </button>
+              </div>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
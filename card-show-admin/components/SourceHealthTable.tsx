@@ -0,0 +1,256 @@
+'use client'
+
+/**
+ * SourceHealthTable Client Component
+ *
+ * Scraping sources with approved-show yield, failures and backoff state.
+ * Each row expands to the recent errors and the last extraction sample,
+ * and can be enabled / disabled.
+ */
+
+import { Fragment, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Database } from '@/types/supabase'
+
+type SourceHealth = Database['public']['Functions']['get_scraping_source_health']['Returns'][number]
+
+interface SourceHealthTableProps {
+  sources: SourceHealth[]
+}
+
+type HealthState = 'healthy' | 'failing' | 'backing_off' | 'disabled' | 'new'
+
+const STATE_LABELS: Record<HealthState, string> = {
+  healthy: 'Healthy',
+  failing: 'Failing',
+  backing_off: 'Backing off',
+  disabled: 'Disabled',
+  new: 'Not crawled yet',
+}
+
+const STATE_COLORS: Record<HealthState, string> = {
+  healthy: 'bg-green-100 text-green-800',
+  failing: 'bg-yellow-100 text-yellow-800',
+  backing_off: 'bg-orange-100 text-orange-800',
+  disabled: 'bg-gray-100 text-gray-800',
+  new: 'bg-blue-100 text-blue-800',
+}
+
+function healthState(source: SourceHealth, now = new Date()): HealthState {
+  if (!source.enabled) return 'disabled'
+  if (source.next_attempt_at && new Date(source.next_attempt_at) > now) return 'backing_off'
+  if (source.error_streak > 0) return 'failing'
+  if (!source.last_crawled_at) return 'new'
+  return 'healthy'
+}
+
+function formatWhen(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '-'
+}
+
+function displayUrl(url: string) {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.hostname}${parsed.pathname === '/' ? '' : parsed.pathname}`
+  } catch {
+    return url
+  }
+}
+
+export default function SourceHealthTable({ sources }: SourceHealthTableProps) {
+  const router = useRouter()
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [busyUrl, setBusyUrl] = useState<string | null>(null)
+
+  const handleToggle = async (source: SourceHealth) => {
+    const enabling = !source.enabled
+    if (!enabling && !confirm(`Stop scraping ${displayUrl(source.url)}?`)) {
+      return
+    }
+
+    setBusyUrl(source.url)
+
+    try {
+      const response = await fetch('/api/sources/toggle', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url: source.url, enabled: enabling }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details || data.error || 'Failed to update source')
+      }
+
+      router.refresh()
+    } catch (error: any) {
+      alert('Error: ' + error.message)
+    } finally {
+      setBusyUrl(null)
+    }
+  }
+
+  if (sources.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-medium text-gray-900">No scraping sources</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Add rows to scraping_sources to start crawling.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-300 bg-white">
+      <thead className="bg-gray-50">
+        <tr>
+          <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
+            Source
+          </th>
+          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+            Status
+          </th>
+          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+            Approved
+          </th>
+          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+            Yield / crawl
+          </th>
+          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+            Errors
+          </th>
+          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+            Last crawled
+          </th>
+          <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+            <span className="sr-only">Actions</span>
+          </th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {sources.map(source => {
+          const state = healthState(source)
+          const isOpen = expanded === source.url
+          const reviewed = source.approved_count + source.rejected_count
+
+          return (
+            <Fragment key={source.url}>
+              <tr className="hover:bg-gray-50">
+                <td className="py-4 pl-4 pr-3 text-sm sm:pl-6">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(isOpen ? null : source.url)}
+                    className="text-left font-medium text-purple-700 hover:text-purple-900 break-all"
+                  >
+                    {isOpen ? '▾' : '▸'} {displayUrl(source.url)}
+                  </button>
+                  <p className="mt-1 text-xs text-gray-500">Priority {source.priority_score}</p>
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm">
+                  <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${STATE_COLORS[state]}`}>
+                    {STATE_LABELS[state]}
+                  </span>
+                  {state === 'backing_off' && (
+                    <p className="mt-1 text-xs text-gray-500">until {formatWhen(source.next_attempt_at)}</p>
+                  )}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                  {source.approved_count}
+                  <span className="text-gray-500">
+                    {' '}of {source.queued_count} queued
+                    {reviewed > 0 && ` (${Math.round((source.approved_count / reviewed) * 100)}% approved)`}
+                  </span>
+                  {source.pending_count > 0 && (
+                    <p className="text-xs text-gray-500">{source.pending_count} awaiting review</p>
+                  )}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                  {source.crawl_count > 0 ? (source.approved_count / source.crawl_count).toFixed(1) : '-'}
+                  <span className="text-gray-500"> over {source.crawl_count} crawls</span>
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                  {source.error_count}
+                  {source.error_streak > 0 && (
+                    <span className="ml-1 text-red-600">({source.error_streak} in a row)</span>
+                  )}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                  {formatWhen(source.last_crawled_at)}
+                </td>
+                <td className="whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm sm:pr-6">
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(source)}
+                    disabled={busyUrl === source.url}
+                    className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md disabled:opacity-50 ${
+                      source.enabled
+                        ? 'border border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+                        : 'border border-transparent text-white bg-purple-600 hover:bg-purple-700'
+                    }`}
+                  >
+                    {source.enabled ? 'Disable' : 'Re-enable'}
+                  </button>
+                </td>
+              </tr>
+
+              {isOpen && (
+                <tr className="bg-gray-50">
+                  <td colSpan={7} className="px-4 py-4 sm:px-6">
+                    {source.disabled_reason && (
+                      <p className="mb-3 text-sm text-gray-700">
+                        <span className="font-medium">Disabled:</span> {source.disabled_reason}
+                        {source.disabled_at && ` (${formatWhen(source.disabled_at)})`}
+                      </p>
+                    )}
+
+                    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900">Recent errors</h4>
+                        {source.recent_errors.length === 0 ? (
+                          <p className="mt-2 text-sm text-gray-500">No errors recorded.</p>
+                        ) : (
+                          <ul className="mt-2 space-y-2">
+                            {source.recent_errors.map(entry => (
+                              <li key={entry.at} className="text-sm">
+                                <span className="text-gray-500">{formatWhen(entry.at)}</span>
+                                <p className="text-red-700 break-words">{entry.message || 'Unknown error'}</p>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <p className="mt-4 text-xs text-gray-500">
+                          Last success {formatWhen(source.last_success_at)} · page last changed{' '}
+                          {formatWhen(source.last_changed_at)}
+                        </p>
+                      </div>
+
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900">Last extraction sample</h4>
+                        {source.last_sample ? (
+                          <>
+                            <p className="mt-2 text-xs text-gray-500">
+                              {source.last_sample_extractor || 'unknown extractor'} ·{' '}
+                              {source.last_sample_count ?? 0} shows · {formatWhen(source.last_sample_at)}
+                            </p>
+                            <pre className="mt-2 max-h-80 overflow-auto rounded bg-white p-3 text-xs text-gray-800 ring-1 ring-gray-200">
+                              {source.last_sample}
+                            </pre>
+                          </>
+                        ) : (
+                          <p className="mt-2 text-sm text-gray-500">No sample yet.</p>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
@@ -111,6 +111,41 @@ export interface Database {
           updated_at: string
         }
       }
+      import_mapping_profiles: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          source_label: string
+          format: 'csv' | 'tsv' | 'xlsx' | 'json' | null
+          mapping: Record<string, string[]>
+          options: {
+            dateOrder?: 'mdy' | 'dmy'
+            defaultState?: string | null
+            sheet?: string | null
+          }
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+      }
+      show_import_batches: {
+        Row: {
+          id: string
+          profile_id: string | null
+          file_name: string
+          format: 'csv' | 'tsv' | 'xlsx' | 'json'
+          source_label: string
+          row_count: number
+          valid_count: number
+          queued_count: number
+          skipped_count: number
+          error_count: number
+          report: Json | null
+          created_by: string | null
+          created_at: string
+        }
+      }
     }
     Views: {
       v_scraper_activity: {
@@ -132,7 +167,82 @@ export interface Database {
       }
     }
     Functions: {
-      [_ in never]: never
+      get_review_moderation_queue: {
+        Args: { p_limit?: number }
+        Returns: {
+          review_id: string
+          target: 'review' | 'response'
+          status: 'published' | 'pending' | 'hidden'
+          flags: string[]
+          content: string | null
+          rating: number
+          show_id: string | null
+          show_title: string | null
+          series_id: string | null
+          series_name: string | null
+          author_id: string | null
+          author_name: string
+          author_banned: boolean
+          open_reports: number
+          report_reasons: string[]
+          created_at: string
+        }[]
+      }
+      get_review_moderation_log: {
+        Args: { p_limit?: number }
+        Returns: {
+          id: string
+          review_id: string | null
+          target: 'review' | 'response'
+          action: 'auto_hold' | 'report' | 'approve' | 'hide' | 'ban'
+          actor_name: string
+          subject_name: string
+          reason: string | null
+          details: Json
+          created_at: string
+        }[]
+      }
+      get_scraping_source_health: {
+        Args: { p_days?: number }
+        Returns: {
+          url: string
+          enabled: boolean
+          priority_score: number
+          error_streak: number
+          last_success_at: string | null
+          last_error_at: string | null
+          last_crawled_at: string | null
+          last_changed_at: string | null
+          next_attempt_at: string | null
+          disabled_at: string | null
+          disabled_reason: string | null
+          notes: string | null
+          crawl_count: number
+          error_count: number
+          queued_count: number
+          approved_count: number
+          rejected_count: number
+          pending_count: number
+          recent_errors: { at: string; message: string | null }[]
+          last_sample: string | null
+          last_sample_extractor: string | null
+          last_sample_count: number | null
+          last_sample_at: string | null
+        }[]
+      }
+      set_scraping_source_enabled: {
+        Args: { p_url: string; p_enabled: boolean }
+        Returns: Json
+      }
+      moderate_review: {
+        Args: {
+          p_review_id: string
+          p_action: 'approve' | 'hide' | 'ban'
+          p_target?: 'review' | 'response'
+          p_reason?: string | null
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -34,7 +34,9 @@ module.exports = {
     '.history',
     '/__tests__/components/',
     '/__tests__/screens/',
-    '/__tests__/hooks/'
+    '/__tests__/hooks/',
+    // Shared test data, imported by the suites
+    '/__tests__/fixtures/'
   ],
   
   // Coverage configuration
@@ -68,7 +70,7 @@ module.exports = {
   
   // Ignore transpilation for React Native modules
   transformIgnorePatterns: [
-    'node_modules/(?!(jest-)?react-native|@react-native|react-clone-referenced-element|@react-native-community|expo(nent)?|@expo(nent)?/.*|react-navigation|@react-navigation/.*|@unimodules/.*|unimodules|sentry-expo|native-base|@sentry/.*)'
+    'node_modules/(?!(jest-)?react-native|@react-native|react-clone-referenced-element|@react-native-community|expo(nent)?|@expo(nent)?/.*|react-navigation|@react-navigation/.*|@unimodules/.*|unimodules|sentry-expo|native-base|@sentry/.*|csv-parse)'
   ],
   
   // Global variables available in all test files
@@ -483,6 +483,11 @@ function parseShowHours(description) {
 
 // ------------------------------------------------------------
 // Deterministic parser for dpmsportcards Indiana show listings
+//
+// Local copy for the CLI. The scraper agent uses the `dpms-indiana`
+// extractor in supabase/functions/_shared/extractors/dpmsIndiana.ts,
+// which has the fixture tests – fix parsing bugs there first and keep
+// this one in sync.
 // ------------------------------------------------------------
 function parseDpmsIndianaHtml(html, sourceUrl) {
   // Entity replacements
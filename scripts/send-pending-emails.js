@@ -17,12 +17,18 @@
  * Environment variables required:
  *   SUPABASE_URL - Your Supabase project URL
  *   SUPABASE_SERVICE_KEY - Your Supabase service role key
- *   EMAIL_SERVICE - "resend", "sendgrid", "mailgun", or "console" (for testing)
+ *   EMAIL_SERVICE - "resend", "sendgrid", "smtp", or "console" (for testing)
  *   EMAIL_API_KEY - API key for your email service
  *   FROM_EMAIL - Email address to send from (e.g., noreply@cardshowfinder.com)
+ *
+ * SMTP mode (local testing against Mailpit, MailHog or `supabase start`'s mail catcher):
+ *   SMTP_HOST - defaults to localhost
+ *   SMTP_PORT - defaults to 1025 (use 54325 for the Supabase CLI's mail catcher)
  */
 
+const http = require('http');
 const https = require('https');
+const net = require('net');
 
 // Configuration
 const CONFIG = {
@@ -30,9 +36,30 @@ const CONFIG = {
   supabaseKey: process.env.SUPABASE_SERVICE_KEY || 'YOUR_SERVICE_ROLE_KEY',
   emailService: process.env.EMAIL_SERVICE || 'console', // resend, sendgrid, mailgun, console
   emailApiKey: process.env.EMAIL_API_KEY || '',
-  fromEmail: process.env.FROM_EMAIL || 'Card Show Finder <noreply@cardshowfinder.com>'
+  fromEmail: process.env.FROM_EMAIL || 'Card Show Finder <noreply@cardshowfinder.com>',
+  smtpHost: process.env.SMTP_HOST || 'localhost',
+  smtpPort: parseInt(process.env.SMTP_PORT || '1025', 10)
 };
 
+/**
+ * List-Unsubscribe headers for emails that carry an unsubscribe link
+ * (RFC 8058 one-click; the link's POST handler does the unsubscribe)
+ */
+function unsubscribeHeaders(email) {
+  if (!email.unsubscribe_url) return {};
+  return {
+    'List-Unsubscribe': `<${email.unsubscribe_url}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  };
+}
+
+/**
+ * http for a local Supabase (http://localhost:54321), https otherwise
+ */
+function clientFor(url) {
+  return url.protocol === 'http:' ? http : https;
+}
+
 /**
  * Fetch pending emails from Supabase
  */
@@ -42,6 +69,7 @@ async function fetchPendingEmails() {
     
     const options = {
       hostname: url.hostname,
+      port: url.port,
       path: url.pathname + url.search,
       method: 'GET',
       headers: {
@@ -51,7 +79,7 @@ async function fetchPendingEmails() {
       }
     };
 
-    const req = https.request(options, (res) => {
+    const req = clientFor(url).request(options, (res) => {
       let data = '';
       res.on('data', (chunk) => data += chunk);
       res.on('end', () => {
@@ -83,6 +111,7 @@ async function updateEmailStatus(emailId, status, errorMessage = null) {
 
     const options = {
       hostname: url.hostname,
+      port: url.port,
       path: url.pathname + url.search,
       method: 'PATCH',
       headers: {
@@ -93,7 +122,7 @@ async function updateEmailStatus(emailId, status, errorMessage = null) {
       }
     };
 
-    const req = https.request(options, (res) => {
+    const req = clientFor(url).request(options, (res) => {
       let data = '';
       res.on('data', (chunk) => data += chunk);
       res.on('end', () => {
@@ -120,7 +149,9 @@ async function sendWithResend(email) {
       from: CONFIG.fromEmail,
       to: [email.recipient_email],
       subject: email.subject,
-      text: email.body
+      text: email.body,
+      ...(email.html_body ? { html: email.html_body } : {}),
+      headers: unsubscribeHeaders(email)
     });
 
     const options = {
@@ -163,10 +194,11 @@ async function sendWithSendGrid(email) {
         subject: email.subject
       }],
       from: { email: CONFIG.fromEmail.match(/<(.+)>/)?.[1] || CONFIG.fromEmail },
-      content: [{
-        type: 'text/plain',
-        value: email.body
-      }]
+      content: [
+        { type: 'text/plain', value: email.body },
+        ...(email.html_body ? [{ type: 'text/html', value: email.html_body }] : [])
+      ],
+      ...(email.unsubscribe_url ? { headers: unsubscribeHeaders(email) } : {})
     });
 
     const options = {
@@ -199,6 +231,99 @@ async function sendWithSendGrid(email) {
   });
 }
 
+/**
+ * Build a MIME message: plaintext, or multipart/alternative when there is HTML
+ */
+function buildMimeMessage(email) {
+  const encode = (text) => Buffer.from(text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  const headers = [
+    `From: ${CONFIG.fromEmail}`,
+    `To: ${email.recipient_email}`,
+    `Subject: =?UTF-8?B?${Buffer.from(email.subject, 'utf8').toString('base64')}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${email.id}@cardshowfinder>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(unsubscribeHeaders(email)).map(([name, value]) => `${name}: ${value}`)
+  ];
+
+  if (!email.html_body) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encode(email.body)
+    ].join('\r\n');
+  }
+
+  const boundary = `csf-${email.id}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encode(email.body),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encode(email.html_body),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+/**
+ * Send email over plain SMTP (no TLS or auth) – meant for local mail catchers
+ */
+async function sendWithSmtp(email) {
+  const address = (value) => value.match(/<(.+)>/)?.[1] || value;
+  const commands = [
+    { send: null, expect: 220 },
+    { send: 'EHLO cardshowfinder.local', expect: 250 },
+    { send: `MAIL FROM:<${address(CONFIG.fromEmail)}>`, expect: 250 },
+    { send: `RCPT TO:<${address(email.recipient_email)}>`, expect: 250 },
+    { send: 'DATA', expect: 354 },
+    // base64 bodies never start a line with ".", so no dot-stuffing is needed
+    { send: `${buildMimeMessage(email)}\r\n.`, expect: 250 },
+    { send: 'QUIT', expect: 221 }
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: CONFIG.smtpHost, port: CONFIG.smtpPort });
+    let buffer = '';
+    let step = 0;
+
+    socket.setTimeout(10000, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('error', reject);
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      // Wait for the last line of a (possibly multi-line) reply: "250 OK" not "250-..."
+      const lines = buffer.split('\r\n').filter(Boolean);
+      const last = lines[lines.length - 1];
+      if (!buffer.endsWith('\r\n') || !last || last[3] === '-') return;
+      buffer = '';
+
+      const code = parseInt(last.slice(0, 3), 10);
+      if (code !== commands[step].expect) {
+        socket.destroy();
+        reject(new Error(`SMTP error after "${commands[step].send || 'connect'}": ${last}`));
+        return;
+      }
+
+      step++;
+      if (step === commands.length) {
+        socket.end();
+        resolve({ id: `smtp-${email.id}` });
+        return;
+      }
+      socket.write(`${commands[step].send}\r\n`);
+    });
+  });
+}
+
 /**
  * Send email using console (for testing)
  */
@@ -209,6 +334,12 @@ async function sendWithConsole(email) {
   console.log('From:', CONFIG.fromEmail);
   console.log('To:', email.recipient_email);
   console.log('Subject:', email.subject);
+  if (email.unsubscribe_url) {
+    console.log('List-Unsubscribe:', email.unsubscribe_url);
+  }
+  if (email.html_body) {
+    console.log(`(HTML alternative: ${email.html_body.length} characters)`);
+  }
   console.log('-'.repeat(60));
   console.log(email.body);
   console.log('='.repeat(60) + '\n');
@@ -231,6 +362,9 @@ async function sendEmail(email) {
       case 'sendgrid':
         result = await sendWithSendGrid(email);
         break;
+      case 'smtp':
+        result = await sendWithSmtp(email);
+        break;
       case 'console':
         result = await sendWithConsole(email);
         break;
@@ -305,4 +439,4 @@ if (require.main === module) {
   });
 }
 
-module.exports = { main, sendEmail };
+module.exports = { main, sendEmail, buildMimeMessage };
@@ -14,6 +14,8 @@ import {
   openExternalLink,
   DEFAULT_WHITELIST_HOSTS,
 } from '../utils/safeLinking';
+import { recordBoothVisit } from '../services/checkInService';
+import FollowButton from './FollowButton';
 
 interface DealerDetailModalProps {
   isVisible: boolean;
@@ -271,6 +273,8 @@ const DealerDetailModal: React.FC<DealerDetailModalProps> = ({
     };
 
     fetchBoothInfo();
+    // Counts towards booth-visit badges when checked in to the show
+    recordBoothVisit(showId, dealerId);
   }, [isVisible, dealerId, showId]);
 
   return (
@@ -288,6 +292,10 @@ const DealerDetailModal: React.FC<DealerDetailModalProps> = ({
 
           <Text style={styles.modalTitle}>{`${dealerName}'s Booth Info`}</Text>
 
+          <View style={styles.followRow}>
+            <FollowButton targetType="dealer" targetId={dealerId} label="Follow dealer" />
+          </View>
+
           {loading ? (
             <ActivityIndicator size="large" color="#0057B8" style={styles.loadingIndicator} />
           ) : error ? (
@@ -476,6 +484,10 @@ const styles = StyleSheet.create({
     color: '#333',
     textAlign: 'center',
   },
+  followRow: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
   loadingIndicator: {
     marginVertical: 30,
   },
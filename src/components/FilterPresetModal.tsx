@@ -19,7 +19,9 @@ import {
   loadFilterPresetsFromSupabase,
   deleteFilterPreset,
   setDefaultFilterPreset,
-  updateFilterPreset
+  updateFilterPreset,
+  setFilterPresetWatch,
+  WatchFrequency,
 } from '../services/filterService';
 import { ShowFilters } from '../types';
 
@@ -27,6 +29,12 @@ import { ShowFilters } from '../types';
 const PRIMARY_COLOR = '#FF6A00'; // Orange
 const SECONDARY_COLOR = '#0057B8'; // Blue
 
+const WATCH_FREQUENCIES: { value: WatchFrequency; label: string }[] = [
+  { value: 'instant', label: 'Instant' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
 interface FilterPresetModalProps {
   visible: boolean;
   onClose: () => void;
@@ -201,6 +209,30 @@ const FilterPresetModal: React.FC<FilterPresetModalProps> = ({
     }
   };
 
+  // Turn new-show alerts on/off or change how often they're sent
+  const handleUpdateWatch = async (
+    preset: FilterPreset,
+    watch: { enabled: boolean; frequency?: WatchFrequency }
+  ) => {
+    if (!userId) return;
+    try {
+      setError(null);
+      const updated = await setFilterPresetWatch(preset.id!, watch);
+      if (updated) {
+        setPresets(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+      }
+      if (watch.enabled && !preset.watchEnabled) {
+        Alert.alert(
+          'Alerts On',
+          `We'll let you know when new shows match "${preset.name}".`
+        );
+      }
+    } catch (err: any) {
+      setError('Failed to update alerts');
+      console.error('Error updating preset watch:', err);
+    }
+  };
+
   // Apply a preset
   const handleApplyPreset = (preset: FilterPreset) => {
     onApplyPreset(preset.filters);
@@ -209,36 +241,71 @@ const FilterPresetModal: React.FC<FilterPresetModalProps> = ({
 
   // Render a preset item
   const renderPresetItem = ({ item }: { item: FilterPreset }) => (
-    <View style={styles.presetItem}>
-      <TouchableOpacity
-        style={styles.presetNameContainer}
-        onPress={() => handleApplyPreset(item)}
-      >
-        <Text style={styles.presetName}>{item.name}</Text>
-        {item.isDefault && (
-          <View style={styles.defaultBadge}>
-            <Text style={styles.defaultBadgeText}>Default</Text>
-          </View>
-        )}
-      </TouchableOpacity>
+    <View style={styles.presetItemContainer}>
+      <View style={styles.presetItem}>
+        <TouchableOpacity
+          style={styles.presetNameContainer}
+          onPress={() => handleApplyPreset(item)}
+        >
+          <Text style={styles.presetName}>{item.name}</Text>
+          {item.isDefault && (
+            <View style={styles.defaultBadge}>
+              <Text style={styles.defaultBadgeText}>Default</Text>
+            </View>
+          )}
+        </TouchableOpacity>
       
-      <View style={styles.presetActions}>
-        {!item.isDefault && (
+        <View style={styles.presetActions}>
           <TouchableOpacity
-            style={[styles.presetAction, styles.defaultAction]}
-            onPress={() => handleSetDefaultPreset(item)}
+            style={[styles.presetAction, styles.watchAction, item.watchEnabled && styles.watchActionOn]}
+            onPress={() => handleUpdateWatch(item, { enabled: !item.watchEnabled })}
+            accessibilityLabel={item.watchEnabled ? 'Turn off new show alerts' : 'Alert me about new shows'}
           >
-            <Ionicons name="star-outline" size={20} color={PRIMARY_COLOR} />
+            <Ionicons
+              name={item.watchEnabled ? 'notifications' : 'notifications-outline'}
+              size={20}
+              color={item.watchEnabled ? 'white' : SECONDARY_COLOR}
+            />
           </TouchableOpacity>
-        )}
+
+          {!item.isDefault && (
+            <TouchableOpacity
+              style={[styles.presetAction, styles.defaultAction]}
+              onPress={() => handleSetDefaultPreset(item)}
+            >
+              <Ionicons name="star-outline" size={20} color={PRIMARY_COLOR} />
+            </TouchableOpacity>
+          )}
         
-        <TouchableOpacity
-          style={[styles.presetAction, styles.deleteAction]}
-          onPress={() => handleDeletePreset(item)}
-        >
-          <Ionicons name="trash-outline" size={20} color="#FF3B30" />
-        </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.presetAction, styles.deleteAction]}
+            onPress={() => handleDeletePreset(item)}
+          >
+            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+          </TouchableOpacity>
+        </View>
       </View>
+
+      {/* Alert frequency for watched presets */}
+      {item.watchEnabled && (
+        <View style={styles.watchRow}>
+          <Text style={styles.watchLabel}>New show alerts:</Text>
+          {WATCH_FREQUENCIES.map(({ value, label }) => {
+            const selected = (item.watchFrequency ?? 'daily') === value;
+            return (
+              <TouchableOpacity
+                key={value}
+                style={[styles.frequencyChip, selected && styles.frequencyChipSelected]}
+                onPress={() => !selected && handleUpdateWatch(item, { enabled: true, frequency: value })}
+              >
+                <Text style={[styles.frequencyChipText, selected && styles.frequencyChipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
     </View>
   );
 
@@ -301,7 +368,7 @@ const FilterPresetModal: React.FC<FilterPresetModalProps> = ({
               <Ionicons name="bookmarks-outline" size={50} color={SECONDARY_COLOR} />
               <Text style={styles.emptyText}>No saved presets</Text>
               <Text style={styles.emptySubtext}>
-                Save your current filters as a preset to quickly apply them later
+                Save your current filters as a preset to quickly apply them later, or tap the bell to be alerted about new matching shows
               </Text>
             </View>
           ) : (
@@ -408,13 +475,15 @@ const styles = StyleSheet.create({
   presetList: {
     paddingHorizontal: 20,
   },
+  presetItemContainer: {
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
   presetItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    paddingVertical: 15,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f0f0f0',
   },
   presetNameContainer: {
     flex: 1,
@@ -454,6 +523,44 @@ const styles = StyleSheet.create({
     borderColor: '#FF3B30',
     borderRadius: 4,
   },
+  watchAction: {
+    borderWidth: 1,
+    borderColor: SECONDARY_COLOR,
+    borderRadius: 4,
+  },
+  watchActionOn: {
+    backgroundColor: SECONDARY_COLOR,
+  },
+  watchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  watchLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginRight: 8,
+  },
+  frequencyChip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    marginRight: 6,
+  },
+  frequencyChipSelected: {
+    backgroundColor: SECONDARY_COLOR,
+    borderColor: SECONDARY_COLOR,
+  },
+  frequencyChipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  frequencyChipTextSelected: {
+    color: 'white',
+  },
 });
 
 export default FilterPresetModal;
@@ -15,6 +15,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { ShowFilters, ShowFeature, CardCategory } from '../types';
+import { DEALER_CARD_TYPES } from '../constants/dealerCardTypes';
 // Temporarily commenting out DatePicker import to fix the crash
 // import DatePicker from 'react-native-date-picker';
 import DateTimePicker, {
@@ -208,23 +209,6 @@ const FilterSheet: React.FC<FilterSheetProps> = ({
   };
 
   // Dealer Card Types helpers ------------------------------------
-  const DEALER_CARD_TYPES = [
-    'Vintage',
-    'Modern',
-    'Sealed Wax',
-    'Singles',
-    'Slabs',
-    'Raw',
-    'Pokemon',
-    'Magic',
-    'Yu-Gi-Oh',
-    'Baseball',
-    'Basketball',
-    'Football',
-    'Soccer',
-    'Memorabilia',
-  ] as const;
-
   const isDealerCardTypeSelected = (type: string) =>
     localFilters.dealerCardTypes?.includes(type) || false;
 
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { followTarget, getFollowSummary, unfollowTarget } from '../services/followService';
+import { FollowTargetType } from '../types';
+
+interface FollowButtonProps {
+  targetType: FollowTargetType;
+  targetId: string;
+  /** Button text when not following, e.g. "Follow series" */
+  label?: string;
+  /** Show the follower count next to the button */
+  showCount?: boolean;
+}
+
+/**
+ * Follow / Following toggle for an organizer, show series or dealer.
+ * Hidden for signed-out users and on the user's own profile.
+ */
+const FollowButton: React.FC<FollowButtonProps> = ({
+  targetType,
+  targetId,
+  label = 'Follow',
+  showCount = false,
+}) => {
+  const { authState } = useAuth();
+  const userId = authState.user?.id;
+
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [followerCount, setFollowerCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!userId || !targetId) return;
+    let cancelled = false;
+
+    getFollowSummary(targetType, targetId).then(({ data }) => {
+      if (cancelled) return;
+      if (data) {
+        setIsFollowing(data.isFollowing);
+        setFollowerCount(data.followerCount);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, targetType, targetId]);
+
+  if (!userId || !targetId || userId === targetId) return null;
+
+  const toggle = async () => {
+    const next = !isFollowing;
+    setSaving(true);
+    // Optimistic – roll back if the write fails
+    setIsFollowing(next);
+    setFollowerCount(count => Math.max(0, count + (next ? 1 : -1)));
+
+    const { success, error } = next
+      ? await followTarget(userId, targetType, targetId)
+      : await unfollowTarget(userId, targetType, targetId);
+
+    if (!success) {
+      setIsFollowing(!next);
+      setFollowerCount(count => Math.max(0, count + (next ? -1 : 1)));
+      Alert.alert('Error', error || 'Please try again.');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.button, isFollowing && styles.buttonFollowing]}
+        onPress={toggle}
+        disabled={loading || saving}
+        accessibilityRole="button"
+        accessibilityState={{ selected: isFollowing }}
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color="#007AFF" />
+        ) : (
+          <>
+            <Ionicons
+              name={isFollowing ? 'checkmark' : 'add'}
+              size={16}
+              color={isFollowing ? '#007AFF' : 'white'}
+            />
+            <Text style={[styles.buttonText, isFollowing && styles.buttonTextFollowing]}>
+              {isFollowing ? 'Following' : label}
+            </Text>
+          </>
+        )}
+      </TouchableOpacity>
+      {showCount && !loading && (
+        <Text style={styles.count}>
+          {followerCount} follower{followerCount === 1 ? '' : 's'}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 96,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#007AFF',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  buttonFollowing: {
+    backgroundColor: 'white',
+  },
+  buttonText: {
+    marginLeft: 4,
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  buttonTextFollowing: {
+    color: '#007AFF',
+  },
+  count: {
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#666',
+  },
+});
+
+export default FollowButton;
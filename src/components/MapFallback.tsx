@@ -452,6 +452,7 @@ export const FixedClusteredMapView = forwardRef<any, MapViewProps & {
       return (
         <RealMapView ref={ref} {...sanitizedProps}>
           {markers}
+          {props.children}
         </RealMapView>
       );
     } catch (error) {
@@ -23,10 +23,12 @@ import {
   Callout,
   FixedClusteredMapView,
 } from '../MapFallback';
-import { Show } from '../../types';
+import { MapCluster, Show } from '../../types';
 import { formatDate, formatEntryFee } from '../../utils/formatters';
+import { regionForCluster } from '../../utils/mapViewport';
 import { sanitizeCoordinates } from '../../utils/coordinateUtils'; 
 import { debounce } from '../../utils/helpers';
+import { trackShowEvent } from '../../services/showAnalyticsService';
 import { useNavigation } from '@react-navigation/native';
 import { supabase as _supabase } from '../../supabase';
 import {
@@ -67,6 +69,11 @@ interface MapShowClusterProps {
   showsScale?: boolean;
   provider?: 'google' | undefined;
   organizerProfiles?: Record<string, any>;
+  /**
+   * Clusters computed server-side (`get_map_viewport`). When provided,
+   * `shows` are drawn as-is and tapping a cluster zooms into it.
+   */
+  clusters?: MapCluster[];
 }
 
 // Methods exposed to parent components via ref
@@ -85,6 +92,7 @@ const MapShowCluster = forwardRef<MapShowClusterHandle, MapShowClusterProps>(({
   showsScale = true,
   provider = undefined,
   organizerProfiles = {},
+  clusters,
 }, ref) => {
   /* ------------------------------------------------------------------
    *  High-level render diagnostics
@@ -289,6 +297,7 @@ const MapShowCluster = forwardRef<MapShowClusterHandle, MapShowClusterProps>(({
         description={`${formatDate(show.startDate)} • ${formatEntryFee(show.entryFee).replace('Entry: ', '')}`}
         pinColor="#007AFF"
         tracksViewChanges={false} // Performance optimization: prevents unnecessary re-renders
+        onPress={() => trackShowEvent(show.id, 'map_pin_tap')}
       >
         {/* Entire callout is now clickable — navigates to ShowDetail */}
         <Callout
@@ -400,6 +409,14 @@ const MapShowCluster = forwardRef<MapShowClusterHandle, MapShowClusterProps>(({
     );
   };
 
+  // Zoom into a server-side cluster; the next viewport query splits it up
+  const handleServerClusterPress = (cluster: MapCluster) => {
+    const mapView = (mapRef.current?.getMapRef?.() ?? mapRef.current) as any;
+    if (mapView && typeof mapView.animateToRegion === 'function') {
+      mapView.animateToRegion(regionForCluster(cluster), 400);
+    }
+  };
+
   // Convert Show objects to points for the clusterer
   const showToPoint = (show: Show) => {
     // Debug target show
@@ -537,7 +554,7 @@ const MapShowCluster = forwardRef<MapShowClusterHandle, MapShowClusterProps>(({
         showsScale={showsScale}
         provider={provider}
         onRegionChangeComplete={onRegionChangeComplete}
-        clusteringEnabled={true}
+        clusteringEnabled={!clusters}
         spiralEnabled={true}
         zoomEnabled={true}
         minZoom={4}
@@ -550,7 +567,16 @@ const MapShowCluster = forwardRef<MapShowClusterHandle, MapShowClusterProps>(({
         nodeExtractor={showToPoint}
         /* Disable liteMode so pinch/zoom gestures work on Android */
         liteMode={false}
-      />
+      >
+        {clusters?.map((cluster) => (
+          <React.Fragment key={`server-cluster-${cluster.id}`}>
+            {renderCluster(
+              { pointCount: cluster.count, coordinate: cluster.coordinates },
+              () => handleServerClusterPress(cluster)
+            )}
+          </React.Fragment>
+        ))}
+      </FixedClusteredMapView>
       <View style={styles.zoomControls}>
         <TouchableOpacity 
           style={styles.zoomButton} 
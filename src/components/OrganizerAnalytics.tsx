@@ -0,0 +1,462 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  SeriesInstanceAnalytics,
+  ShowAnalyticsSummary,
+  ShowAnalyticsTotals,
+  ShowEventDailyCount,
+  ShowEventType,
+} from '../types';
+import {
+  getOrganizerShowAnalytics,
+  getSeriesInstanceAnalytics,
+  getShowEventTimeseries,
+} from '../services/showAnalyticsService';
+import { buildDailySeries, compareWithPastInstances, sumTotals } from '../utils/showAnalytics';
+
+const BLUE = '#0057B8';
+const ORANGE = '#FF6A00';
+const CHART_HEIGHT = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS = [30, 90] as const;
+
+interface Metric {
+  key: keyof ShowAnalyticsTotals;
+  eventType: ShowEventType;
+  label: string;
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+}
+
+const METRICS: Metric[] = [
+  { key: 'detailViews', eventType: 'detail_view', label: 'Views', icon: 'eye-outline' },
+  { key: 'mapPinTaps', eventType: 'map_pin_tap', label: 'Map taps', icon: 'location-outline' },
+  { key: 'favorites', eventType: 'favorite', label: 'Favorites', icon: 'heart-outline' },
+  { key: 'directionsTaps', eventType: 'directions_tap', label: 'Directions', icon: 'navigate-outline' },
+  { key: 'broadcastOpens', eventType: 'broadcast_open', label: 'Broadcast opens', icon: 'megaphone-outline' },
+];
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatChange = (change: number | null) =>
+  change === null ? '—' : `${change > 0 ? '+' : ''}${change}%`;
+
+interface OrganizerAnalyticsProps {
+  organizerId: string;
+}
+
+/**
+ * Engagement numbers for an organizer's shows: totals, a daily chart and,
+ * for a show in a series, a comparison with the series' past instances.
+ */
+const OrganizerAnalytics: React.FC<OrganizerAnalyticsProps> = ({ organizerId }) => {
+  const [periodDays, setPeriodDays] = useState<(typeof PERIODS)[number]>(30);
+  const [metric, setMetric] = useState<Metric>(METRICS[0]);
+  const [selectedShowId, setSelectedShowId] = useState<string | null>(null);
+
+  const [summaries, setSummaries] = useState<ShowAnalyticsSummary[]>([]);
+  const [timeseries, setTimeseries] = useState<ShowEventDailyCount[]>([]);
+  const [seriesInstances, setSeriesInstances] = useState<SeriesInstanceAnalytics[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(() => {
+    const to = new Date();
+    return { from: new Date(to.getTime() - (periodDays - 1) * DAY_MS), to };
+  }, [periodDays]);
+
+  const selectedShow = summaries.find(s => s.showId === selectedShowId) ?? null;
+
+  const loadAnalytics = useCallback(async () => {
+    if (!organizerId) return;
+    setLoading(true);
+    setError(null);
+
+    const [summaryResult, seriesResult] = await Promise.all([
+      getOrganizerShowAnalytics(range.from, range.to),
+      getShowEventTimeseries(range.from, range.to, selectedShowId ?? undefined),
+    ]);
+
+    setLoading(false);
+    if (summaryResult.error || seriesResult.error) {
+      setError('Unable to load analytics.');
+      return;
+    }
+    setSummaries(summaryResult.data);
+    setTimeseries(seriesResult.data);
+  }, [organizerId, range, selectedShowId]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  // Past-instance comparison for the selected show. For an upcoming show,
+  // past instances are measured at the same number of days before start.
+  useEffect(() => {
+    if (!selectedShow?.seriesId) {
+      setSeriesInstances([]);
+      return;
+    }
+    const daysUntilStart = Math.floor((new Date(selectedShow.startDate).getTime() - Date.now()) / DAY_MS);
+    getSeriesInstanceAnalytics(selectedShow.seriesId, daysUntilStart > 0 ? daysUntilStart : undefined).then(
+      ({ data }) => setSeriesInstances(data)
+    );
+  }, [selectedShow?.seriesId, selectedShow?.startDate]);
+
+  const totals = useMemo(
+    () => (selectedShow ? selectedShow : sumTotals(summaries)),
+    [selectedShow, summaries]
+  );
+
+  const daily = useMemo(
+    () => buildDailySeries(timeseries, metric.eventType, range.from, range.to),
+    [timeseries, metric, range]
+  );
+  const maxDaily = Math.max(1, ...daily.map(d => d.count));
+
+  const comparison = useMemo(
+    () => (selectedShowId ? compareWithPastInstances(selectedShowId, seriesInstances) : null),
+    [selectedShowId, seriesInstances]
+  );
+
+  if (loading && summaries.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={ORANGE} />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error}</Text>
+        <TouchableOpacity onPress={loadAnalytics} style={styles.retryButton}>
+          <Text style={styles.retryText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (summaries.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="bar-chart-outline" size={40} color="#CCCCCC" />
+        <Text style={styles.emptyText}>Analytics will appear here once you have shows listed.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Period */}
+      <View style={styles.row}>
+        {PERIODS.map(days => (
+          <TouchableOpacity
+            key={days}
+            style={[styles.chip, periodDays === days && styles.activeChip]}
+            onPress={() => setPeriodDays(days)}
+          >
+            <Text style={[styles.chipText, periodDays === days && styles.activeChipText]}>
+              Last {days} days
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.scopeText}>
+        {selectedShow ? selectedShow.title : 'All shows'}
+        {selectedShow && (
+          <Text style={styles.clearText} onPress={() => setSelectedShowId(null)}>
+            {'  '}Show all
+          </Text>
+        )}
+      </Text>
+
+      {/* Totals – tap one to chart it */}
+      <View style={styles.totalsGrid}>
+        {METRICS.map(m => (
+          <TouchableOpacity
+            key={m.key}
+            style={[styles.totalCard, metric.key === m.key && styles.activeTotalCard]}
+            onPress={() => setMetric(m)}
+          >
+            <Ionicons name={m.icon} size={18} color={BLUE} />
+            <Text style={styles.totalValue}>{totals[m.key].toLocaleString('en-US')}</Text>
+            <Text style={styles.totalLabel}>{m.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.noteText}>
+        {totals.uniqueViewers.toLocaleString('en-US')} signed-in viewers
+      </Text>
+
+      {/* Daily chart */}
+      <Text style={styles.sectionTitle}>{metric.label} per day</Text>
+      <View style={styles.chart}>
+        {daily.map(d => (
+          <View key={d.day} style={styles.barSlot}>
+            <View style={[styles.bar, { height: (d.count / maxDaily) * CHART_HEIGHT }]} />
+          </View>
+        ))}
+      </View>
+      <View style={styles.chartAxis}>
+        <Text style={styles.axisText}>{formatShortDate(range.from.toISOString())}</Text>
+        <Text style={styles.axisText}>Peak {maxDaily}</Text>
+        <Text style={styles.axisText}>Today</Text>
+      </View>
+
+      {/* Series comparison */}
+      {selectedShow?.seriesId && comparison && (
+        <View style={styles.comparison}>
+          <Text style={styles.sectionTitle}>Compared with past instances</Text>
+          {comparison.pastInstanceCount === 0 ? (
+            <Text style={styles.noteText}>This is the first instance of the series.</Text>
+          ) : (
+            <>
+              <Text style={styles.noteText}>
+                Average of {comparison.pastInstanceCount} earlier show
+                {comparison.pastInstanceCount === 1 ? '' : 's'}
+                {new Date(selectedShow.startDate).getTime() > Date.now() ? ', at the same point before each show' : ''}
+              </Text>
+              {METRICS.map(m => {
+                const current = seriesInstances.find(i => i.showId === selectedShow.showId)?.[m.key] ?? 0;
+                const change = comparison.change[m.key];
+                return (
+                  <View key={m.key} style={styles.comparisonRow}>
+                    <Text style={styles.comparisonLabel}>{m.label}</Text>
+                    <Text style={styles.comparisonValue}>
+                      {current} vs {Math.round(comparison.pastAverage[m.key])}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.comparisonChange,
+                        change !== null && (change >= 0 ? styles.positive : styles.negative),
+                      ]}
+                    >
+                      {formatChange(change)}
+                    </Text>
+                  </View>
+                );
+              })}
+            </>
+          )}
+        </View>
+      )}
+
+      {/* Per show */}
+      <Text style={styles.sectionTitle}>By show</Text>
+      {summaries.map(show => (
+        <TouchableOpacity
+          key={show.showId}
+          style={[styles.showRow, show.showId === selectedShowId && styles.selectedShowRow]}
+          onPress={() => setSelectedShowId(show.showId === selectedShowId ? null : show.showId)}
+        >
+          <View style={styles.showInfo}>
+            <Text style={styles.showTitle} numberOfLines={1}>
+              {show.title}
+            </Text>
+            <Text style={styles.showDate}>{formatShortDate(show.startDate)}</Text>
+          </View>
+          <Text style={styles.showStat}>{show.detailViews} views</Text>
+          <Text style={styles.showStat}>{show.favorites} favs</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+  },
+  centered: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+  },
+  activeChip: {
+    backgroundColor: BLUE,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  scopeText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: 'normal',
+    color: BLUE,
+  },
+  totalsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+  },
+  totalCard: {
+    width: '31%',
+    margin: '1%',
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F5F8FC',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  activeTotalCard: {
+    borderColor: BLUE,
+  },
+  totalValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginTop: 4,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  noteText: {
+    fontSize: 12,
+    color: '#888888',
+    marginTop: 6,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderBottomWidth: 1,
+    borderBottomColor: '#DDDDDD',
+  },
+  barSlot: {
+    flex: 1,
+    paddingHorizontal: 1,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    backgroundColor: ORANGE,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  axisText: {
+    fontSize: 11,
+    color: '#999999',
+  },
+  comparison: {
+    marginTop: 4,
+  },
+  comparisonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  comparisonLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333333',
+  },
+  comparisonValue: {
+    fontSize: 13,
+    color: '#666666',
+    marginRight: 12,
+  },
+  comparisonChange: {
+    width: 56,
+    textAlign: 'right',
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#999999',
+  },
+  positive: {
+    color: '#2E7D32',
+  },
+  negative: {
+    color: '#C62828',
+  },
+  showRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  selectedShowRow: {
+    backgroundColor: '#EEF4FB',
+  },
+  showInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  showTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  showDate: {
+    fontSize: 12,
+    color: '#888888',
+  },
+  showStat: {
+    fontSize: 12,
+    color: '#666666',
+    marginLeft: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#C62828',
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: BLUE,
+  },
+  retryText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default OrganizerAnalytics;
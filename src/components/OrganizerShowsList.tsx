@@ -317,6 +317,18 @@ console.warn(`[OrganizerShowsList] Fetched ${mappedStandaloneShows.length} stand
     });
   };
   
+  // Show the rotating check-in QR code for the entrance
+  const handleShowCheckInCode = (show: Show) => {
+    if (!show?.id) {
+      console.warn('[OrganizerShowsList] Attempted to show check-in code for show without ID');
+      return;
+    }
+    navigation.navigate('ShowCheckInQr', {
+      showId: show.id,
+      showTitle: show.title
+    });
+  };
+  
   // Handle canceling a show
   const handleCancelShow = (show: Show) => {
     if (!show?.id) {
@@ -380,6 +392,16 @@ console.warn('Cancel show:', show.id);
             <Text style={styles.actionButtonText}>Message</Text>
           </TouchableOpacity>
           
+          {!isPastShow && (
+            <TouchableOpacity 
+              style={styles.actionButton}
+              onPress={() => handleShowCheckInCode(show)}
+            >
+              <Ionicons name="qr-code-outline" size={16} color="#0057B8" />
+              <Text style={styles.actionButtonText}>Check-In</Text>
+            </TouchableOpacity>
+          )}
+          
           {!isPastShow && (
             <TouchableOpacity 
               style={[styles.actionButton, styles.cancelButton]}
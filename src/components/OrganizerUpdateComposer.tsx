@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { postOrganizerUpdate } from '../services/followService';
+
+const MAX_UPDATE_LENGTH = 1000;
+
+interface OrganizerUpdateComposerProps {
+  organizerId: string;
+}
+
+/**
+ * Lets an organizer post a short update that appears in their followers'
+ * activity feeds (and is pushed to them).
+ */
+const OrganizerUpdateComposer: React.FC<OrganizerUpdateComposerProps> = ({ organizerId }) => {
+  const [message, setMessage] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const handlePost = async () => {
+    setPosting(true);
+    const { success, error } = await postOrganizerUpdate(organizerId, message);
+    setPosting(false);
+
+    if (!success) {
+      Alert.alert('Error', error || 'Failed to post update');
+      return;
+    }
+    setMessage('');
+    Alert.alert('Posted', 'Your followers will see this update in their feed.');
+  };
+
+  const canPost = !!organizerId && message.trim().length > 0 && !posting;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Post an Update</Text>
+      <Text style={styles.description}>
+        Share news with everyone who follows you, like a venue change or a preview of big dealers coming.
+      </Text>
+      <TextInput
+        style={styles.input}
+        value={message}
+        onChangeText={setMessage}
+        placeholder="What's new?"
+        multiline
+        maxLength={MAX_UPDATE_LENGTH}
+        editable={!posting}
+      />
+      <View style={styles.footer}>
+        <Text style={styles.counter}>
+          {message.length}/{MAX_UPDATE_LENGTH}
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, !canPost && styles.buttonDisabled]}
+          onPress={handlePost}
+          disabled={!canPost}
+        >
+          {posting ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Ionicons name="send" size={16} color="#FFFFFF" />
+              <Text style={styles.buttonText}>Post</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 6,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  input: {
+    minHeight: 90,
+    borderWidth: 1,
+    borderColor: '#DDDDDD',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: '#FFFFFF',
+    textAlignVertical: 'top',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  counter: {
+    fontSize: 12,
+    color: '#999',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FF6A00',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    marginLeft: 6,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default OrganizerUpdateComposer;
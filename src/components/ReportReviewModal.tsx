@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ReviewReportReason, ReviewReportTarget } from '../types';
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REVIEW_REPORT_REASONS,
+  validateReviewReport,
+} from '../utils/reviewModeration';
+
+interface ReportReviewModalProps {
+  visible: boolean;
+  /** Whether the review itself or the organizer's response is being reported */
+  target: ReviewReportTarget;
+  submitting?: boolean;
+  onSubmit: (reason: ReviewReportReason, details: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Sheet for reporting a review or organizer response: pick a reason and
+ * optionally explain. Reports go to the admin moderation queue.
+ */
+const ReportReviewModal: React.FC<ReportReviewModalProps> = ({
+  visible,
+  target,
+  submitting = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [reason, setReason] = useState<ReviewReportReason | null>(null);
+  const [details, setDetails] = useState<string>('');
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    const error = validateReviewReport(reason, details);
+    if (error || !reason) {
+      Alert.alert('Report', error || 'Please choose a reason');
+      return;
+    }
+    onSubmit(reason, details.trim());
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onCancel}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.modalTitle}>
+            {target === 'response' ? 'Report Response' : 'Report Review'}
+          </Text>
+          <Text style={styles.modalSubtitle}>
+            Our team will take a look. The author isn't told who reported it.
+          </Text>
+
+          {REVIEW_REPORT_REASONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.reasonRow}
+              onPress={() => setReason(option.value)}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: reason === option.value }}
+            >
+              <Ionicons
+                name={reason === option.value ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={reason === option.value ? '#FF6A00' : '#999'}
+              />
+              <Text style={styles.reasonText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TextInput
+            style={styles.detailsInput}
+            placeholder={reason === 'other' ? "Tell us what's wrong" : 'Anything else? (optional)'}
+            multiline
+            numberOfLines={3}
+            maxLength={MAX_REPORT_DETAILS_LENGTH}
+            value={details}
+            onChangeText={setDetails}
+            textAlignVertical="top"
+          />
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={submitting}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={submitting}>
+              {submitting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={styles.submitButtonText}>Report</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalView: {
+    margin: 20,
+    backgroundColor: 'white',
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  reasonText: {
+    marginLeft: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  detailsInput: {
+    width: '100%',
+    height: 90,
+    borderColor: '#ddd',
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 15,
+    marginTop: 12,
+    marginBottom: 20,
+    color: '#333',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+    padding: 15,
+    borderRadius: 10,
+    flex: 1,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: '#FF6A00',
+    padding: 15,
+    borderRadius: 10,
+    flex: 1,
+    marginLeft: 10,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
+
+export default ReportReviewModal;
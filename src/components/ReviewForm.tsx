@@ -9,13 +9,16 @@ import {
   Modal,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { ReviewAspect, ReviewAspectRatings } from '../types';
+import { REVIEW_ASPECTS } from '../utils/reviewStats';
 
 interface ReviewFormProps {
   /** Foreign-key to the individual show being reviewed (currently unused in component) */
   _showId: string;
   /** Foreign-key to the parent show series being reviewed (currently unused in component) */
   _seriesId: string;
-  onSubmit: (rating: number, comment: string) => void;
+  /** Aspect ratings only include the aspects the user rated */
+  onSubmit: (rating: number, comment: string, aspectRatings: ReviewAspectRatings) => void;
   onCancel: () => void;
 }
 
@@ -27,13 +30,27 @@ const ReviewForm: React.FC<ReviewFormProps> = ({
 }) => {
   const [rating, setRating] = useState<number>(0);
   const [comment, setComment] = useState<string>('');
+  const [aspectRatings, setAspectRatings] = useState<ReviewAspectRatings>({});
+
+  // Tapping the selected star again clears an aspect; they're optional
+  const handleAspectRating = (aspect: ReviewAspect, value: number) => {
+    setAspectRatings(prev => {
+      const next = { ...prev };
+      if (next[aspect] === value) {
+        delete next[aspect];
+      } else {
+        next[aspect] = value;
+      }
+      return next;
+    });
+  };
 
   const handleSubmit = () => {
     if (rating === 0) {
       Alert.alert('Missing Rating', 'Please select a star rating before submitting your review.');
       return;
     }
-    onSubmit(rating, comment);
+    onSubmit(rating, comment, aspectRatings);
   };
 
   return (
@@ -61,6 +78,27 @@ const ReviewForm: React.FC<ReviewFormProps> = ({
             ))}
           </View>
 
+          {/* Optional aspect ratings */}
+          <View style={styles.aspectContainer}>
+            {REVIEW_ASPECTS.map(({ key, label }) => (
+              <View key={key} style={styles.aspectRow}>
+                <Text style={styles.aspectLabel}>{label}</Text>
+                <View style={styles.aspectStars}>
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <TouchableOpacity key={star} onPress={() => handleAspectRating(key, star)}>
+                      <Ionicons
+                        name={(aspectRatings[key] ?? 0) >= star ? 'star' : 'star-outline'}
+                        size={20}
+                        color={(aspectRatings[key] ?? 0) >= star ? '#FFD700' : '#ccc'}
+                        style={styles.aspectStarIcon}
+                      />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
+          </View>
+
           {/* Comment Input */}
           <TextInput
             style={styles.commentInput}
@@ -124,6 +162,26 @@ const styles = StyleSheet.create({
   starIcon: {
     marginHorizontal: 5,
   },
+  aspectContainer: {
+    width: '100%',
+    marginBottom: 16,
+  },
+  aspectRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  aspectLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  aspectStars: {
+    flexDirection: 'row',
+  },
+  aspectStarIcon: {
+    marginHorizontal: 2,
+  },
   commentInput: {
     width: '100%',
     height: 120,
@@ -1,14 +1,33 @@
 import React from 'react';
-import { View, Text, StyleSheet, FlatList } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Review } from '../types';
+import { Review, ReviewReportTarget } from '../types';
+import { REVIEW_ASPECTS } from '../utils/reviewStats';
 
 interface ReviewsListProps {
   reviews: Review[];
   emptyMessage: string;
+  /** Signed-in user; their own reviews can't be reported */
+  currentUserId?: string;
+  /** Shows a Report link on reviews and organizer responses when provided */
+  onReport?: (review: Review, target: ReviewReportTarget) => void;
+  /** Current user's votes keyed by review ID (true = helpful) */
+  myVotes?: Record<string, boolean>;
+  /** Shows Helpful / Not helpful buttons when provided; null withdraws the vote */
+  onVote?: (review: Review, helpful: boolean | null) => void;
+  /** Render rows as plain views, for use inside a parent ScrollView */
+  inline?: boolean;
 }
 
-const ReviewsList: React.FC<ReviewsListProps> = ({ reviews, emptyMessage }) => {
+const ReviewsList: React.FC<ReviewsListProps> = ({
+  reviews,
+  emptyMessage,
+  currentUserId,
+  onReport,
+  myVotes = {},
+  onVote,
+  inline = false,
+}) => {
   /* ------------------------------------------------------------------
    * Helper: Render star icons for a given rating (1–5)
    * ------------------------------------------------------------------ */
@@ -44,14 +63,93 @@ const ReviewsList: React.FC<ReviewsListProps> = ({ reviews, emptyMessage }) => {
       day  : 'numeric',
     });
 
+    const isOwnReview = item.userId === currentUserId;
+    const canReportReview = !!onReport && !isOwnReview;
+    const canVote = !!onVote && !!currentUserId && !isOwnReview;
+    const myVote = myVotes[item.id];
+    const ratedAspects = REVIEW_ASPECTS.filter(({ key }) => item.aspectRatings?.[key]);
+
     return (
       <View style={styles.reviewItem}>
         <View style={styles.reviewHeader}>
-          <Text style={styles.reviewerName}>{item.userName}</Text>
+          <View style={styles.reviewerInfo}>
+            <Text style={styles.reviewerName}>{item.userName}</Text>
+            {item.verifiedAttendee && (
+              <View style={styles.verifiedBadge}>
+                <Ionicons name="checkmark-circle" size={12} color="#0057B8" />
+                <Text style={styles.verifiedText}>Verified attendee</Text>
+              </View>
+            )}
+          </View>
           {renderStarRating(item.rating)}
         </View>
+        {item.moderationStatus && item.moderationStatus !== 'published' && (
+          <Text style={styles.moderationNote}>
+            {item.moderationStatus === 'pending'
+              ? 'Being checked – only you can see this for now'
+              : 'Removed for breaking our community guidelines'}
+          </Text>
+        )}
         <Text style={styles.reviewComment}>{item.comment}</Text>
-        <Text style={styles.reviewDate}>{reviewDate}</Text>
+        {ratedAspects.length > 0 && (
+          <Text style={styles.aspectRatings}>
+            {ratedAspects.map(({ key, label }) => `${label} ${item.aspectRatings?.[key]}/5`).join(' · ')}
+          </Text>
+        )}
+        {canVote && (
+          <View style={styles.voteRow}>
+            <Text style={styles.voteLabel}>Helpful?</Text>
+            <TouchableOpacity
+              style={[styles.voteButton, myVote === true && styles.voteButtonActive]}
+              onPress={() => onVote?.(item, myVote === true ? null : true)}
+            >
+              <Ionicons
+                name={myVote === true ? 'thumbs-up' : 'thumbs-up-outline'}
+                size={14}
+                color={myVote === true ? '#FF6A00' : '#666'}
+              />
+              <Text style={styles.voteCount}>{item.helpfulCount ?? 0}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.voteButton, myVote === false && styles.voteButtonActive]}
+              onPress={() => onVote?.(item, myVote === false ? null : false)}
+            >
+              <Ionicons
+                name={myVote === false ? 'thumbs-down' : 'thumbs-down-outline'}
+                size={14}
+                color={myVote === false ? '#FF6A00' : '#666'}
+              />
+              <Text style={styles.voteCount}>{item.notHelpfulCount ?? 0}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {!canVote && !!item.helpfulCount && (
+          <Text style={styles.helpfulSummary}>
+            {item.helpfulCount} {item.helpfulCount === 1 ? 'person' : 'people'} found this helpful
+          </Text>
+        )}
+        <View style={styles.reviewFooter}>
+          {canReportReview ? (
+            <TouchableOpacity onPress={() => onReport?.(item, 'review')}>
+              <Text style={styles.reportLink}>Report</Text>
+            </TouchableOpacity>
+          ) : (
+            <View />
+          )}
+          <Text style={styles.reviewDate}>{reviewDate}</Text>
+        </View>
+
+        {item.organizerResponse?.comment ? (
+          <View style={styles.responseContainer}>
+            <Text style={styles.responseLabel}>Organizer response</Text>
+            <Text style={styles.responseText}>{item.organizerResponse.comment}</Text>
+            {onReport && (
+              <TouchableOpacity onPress={() => onReport(item, 'response')}>
+                <Text style={styles.reportLink}>Report</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : null}
       </View>
     );
   };
@@ -64,6 +162,16 @@ const ReviewsList: React.FC<ReviewsListProps> = ({ reviews, emptyMessage }) => {
     </View>
   );
 
+  if (inline) {
+    return (
+      <View>
+        {reviews.length === 0
+          ? renderEmptyState()
+          : reviews.map(item => <React.Fragment key={item.id}>{renderReviewItem({ item })}</React.Fragment>)}
+      </View>
+    );
+  }
+
   return (
     <FlatList
       data={reviews}
@@ -103,11 +211,64 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  reviewerInfo: {
+    flexShrink: 1,
+  },
   reviewerName: {
     fontSize: 16,
     fontWeight: 'bold',
     color: '#333',
   },
+  verifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  verifiedText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#0057B8',
+    marginLeft: 3,
+  },
+  aspectRatings: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  voteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  voteLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginRight: 8,
+  },
+  voteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  voteButtonActive: {
+    borderColor: '#FF6A00',
+    backgroundColor: '#FFF4EC',
+  },
+  voteCount: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 4,
+  },
+  helpfulSummary: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+  },
   starRatingContainer: {
     flexDirection: 'row',
   },
@@ -125,6 +286,39 @@ const styles = StyleSheet.create({
     color: '#999',
     textAlign: 'right',
   },
+  reviewFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  moderationNote: {
+    fontSize: 12,
+    color: '#B45309',
+    marginBottom: 6,
+  },
+  reportLink: {
+    fontSize: 12,
+    color: '#999',
+    textDecorationLine: 'underline',
+  },
+  responseContainer: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F5F8FC',
+  },
+  responseLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0057B8',
+    marginBottom: 4,
+  },
+  responseText: {
+    fontSize: 14,
+    color: '#555',
+    marginBottom: 6,
+    lineHeight: 20,
+  },
   emptyContainer: {
     justifyContent: 'center',
     alignItems: 'center',
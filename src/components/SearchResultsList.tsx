@@ -0,0 +1,134 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SearchResult } from '../types';
+import { SearchResultGroup } from '../utils/searchResults';
+
+interface SearchResultsListProps {
+  query: string;
+  groups: SearchResultGroup[];
+  isSearching: boolean;
+  error: string | null;
+  onResultPress: (result: SearchResult) => void;
+}
+
+/**
+ * Unified search results, one section per result type (shows, series,
+ * dealers, venues, cities).
+ */
+const SearchResultsList: React.FC<SearchResultsListProps> = ({
+  query,
+  groups,
+  isSearching,
+  error,
+  onResultPress,
+}) => {
+  if (isSearching && groups.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#FF6A00" />
+      </View>
+    );
+  }
+
+  return (
+    <SectionList
+      sections={groups.map(group => ({ ...group, data: group.results }))}
+      keyExtractor={item => `${item.type}-${item.id}`}
+      stickySectionHeadersEnabled={false}
+      contentContainerStyle={groups.length === 0 ? styles.emptyContent : styles.listContent}
+      renderSectionHeader={({ section }) => (
+        <View style={styles.sectionHeader}>
+          <Ionicons name={section.icon as any} size={16} color="#0057B8" />
+          <Text style={styles.sectionTitle}>{section.label}</Text>
+        </View>
+      )}
+      renderItem={({ item }) => (
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => onResultPress(item)}
+          disabled={!item.showId}
+        >
+          <View style={styles.rowBody}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{item.title}</Text>
+            {item.subtitle ? (
+              <Text style={styles.rowSubtitle} numberOfLines={1}>{item.subtitle}</Text>
+            ) : null}
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#ccc" />
+        </TouchableOpacity>
+      )}
+      ListEmptyComponent={
+        <View style={styles.centered}>
+          <Ionicons name={error ? 'alert-circle-outline' : 'search-outline'} size={50} color="#ccc" />
+          <Text style={styles.emptyText}>{error || `No results for "${query}"`}</Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  listContent: {
+    paddingHorizontal: 15,
+    paddingBottom: 20,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  sectionTitle: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0057B8',
+    textTransform: 'uppercase',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowSubtitle: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#666',
+  },
+});
+
+export default SearchResultsList;
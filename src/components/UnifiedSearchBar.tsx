@@ -0,0 +1,128 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SearchSuggestion } from '../types';
+import { highlightMatch } from '../utils/searchResults';
+
+interface UnifiedSearchBarProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  /** Run a search for `query` (Enter key or a tapped suggestion) */
+  onSubmit: (query: string) => void;
+  onClear: () => void;
+  suggestions: SearchSuggestion[];
+}
+
+const SUGGESTION_ICONS: Record<SearchSuggestion['type'], string> = {
+  show: 'calendar-outline',
+  series: 'repeat-outline',
+  dealer: 'storefront-outline',
+  venue: 'business-outline',
+  city: 'location-outline',
+};
+
+/**
+ * Search box for shows, series, dealers, venues and cities, with typeahead
+ * suggestions listed underneath while typing.
+ */
+const UnifiedSearchBar: React.FC<UnifiedSearchBarProps> = ({
+  value,
+  onChangeText,
+  onSubmit,
+  onClear,
+  suggestions,
+}) => (
+  <View>
+    <View style={styles.inputRow}>
+      <Ionicons name="search" size={18} color="#888" />
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChangeText}
+        onSubmitEditing={() => onSubmit(value)}
+        placeholder="Search shows, dealers, venues, cities"
+        returnKeyType="search"
+        autoCorrect={false}
+        autoCapitalize="none"
+        accessibilityLabel="Search"
+      />
+      {value.length > 0 && (
+        <TouchableOpacity onPress={onClear} accessibilityLabel="Clear search">
+          <Ionicons name="close-circle" size={18} color="#999" />
+        </TouchableOpacity>
+      )}
+    </View>
+
+    {suggestions.length > 0 && (
+      <View style={styles.suggestions}>
+        {suggestions.map(suggestion => (
+          <TouchableOpacity
+            key={`${suggestion.type}-${suggestion.text}`}
+            style={styles.suggestionRow}
+            onPress={() => onSubmit(suggestion.text)}
+          >
+            <Ionicons name={SUGGESTION_ICONS[suggestion.type] as any} size={16} color="#0057B8" />
+            <Text style={styles.suggestionText} numberOfLines={1}>
+              {highlightMatch(suggestion.text, value).map((segment, index) => (
+                <Text key={index} style={segment.match ? styles.suggestionMatch : undefined}>
+                  {segment.text}
+                </Text>
+              ))}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f2f2f2',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  input: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 15,
+    color: '#333',
+    padding: 0,
+  },
+  suggestions: {
+    marginTop: 6,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#eee',
+  },
+  suggestionText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 15,
+    color: '#555',
+  },
+  suggestionMatch: {
+    fontWeight: '700',
+    color: '#333',
+  },
+});
+
+export default UnifiedSearchBar;
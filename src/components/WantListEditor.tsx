@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -12,7 +12,9 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { WantList, Show } from '../types';
-import { createWantList, updateWantList, shareWantList } from '../services/collectionService';
+import { shareWantList } from '../services/collectionService';
+import { saveWantListContent } from '../services/offlineSyncService';
+import { formatWantListItem, parseWantList } from '../utils/wantListParser';
 
 interface WantListEditorProps {
   wantList: WantList | null;
@@ -34,6 +36,9 @@ const WantListEditor: React.FC<WantListEditorProps> = ({
   const [sharingShowId, setSharingShowId] = useState<string | null>(null);
   const [sharedShows, setSharedShows] = useState<string[]>([]);
 
+  // Structured entries used to match against dealer inventory at shows
+  const parsed = useMemo(() => parseWantList(content), [content]);
+
   // Initialize content when wantList changes
   useEffect(() => {
     if (wantList) {
@@ -51,14 +56,8 @@ const WantListEditor: React.FC<WantListEditorProps> = ({
     try {
       setIsSaving(true);
       
-      let result;
-      if (wantList) {
-        // Update existing want list
-        result = await updateWantList(wantList.id, userId, content);
-      } else {
-        // Create new want list
-        result = await createWantList(userId, content);
-      }
+      // Creates or updates the list; queued for later when offline
+      const result = await saveWantListContent(userId, wantList, content);
 
       setIsSaving(false);
 
@@ -68,7 +67,12 @@ const WantListEditor: React.FC<WantListEditorProps> = ({
 
       if (result.data && onSave) {
         onSave(result.data);
-        Alert.alert('Success', 'Your want list has been saved successfully.');
+        Alert.alert(
+          result.queued ? 'Saved Offline' : 'Success',
+          result.queued
+            ? "You're offline. Your want list was saved on this device and will sync when you reconnect."
+            : 'Your want list has been saved successfully.'
+        );
       }
     } catch (error) {
       setIsSaving(false);
@@ -183,6 +187,27 @@ const WantListEditor: React.FC<WantListEditorProps> = ({
           editable={!isLoading && !isSaving}
         />
 
+        {/* How each line will be matched against dealer inventory */}
+        {(parsed.items.length > 0 || parsed.unparsed.length > 0) && (
+          <View style={styles.previewContainer}>
+            <Text style={styles.previewTitle}>
+              Matching {parsed.items.length} {parsed.items.length === 1 ? 'card' : 'cards'} against dealer inventory
+            </Text>
+            {parsed.items.map((item, index) => (
+              <View key={`item-${index}`} style={styles.previewRow}>
+                <Ionicons name="checkmark-circle-outline" size={16} color="#4CAF50" />
+                <Text style={styles.previewText}>{formatWantListItem(item)}</Text>
+              </View>
+            ))}
+            {parsed.unparsed.map((entry, index) => (
+              <View key={`unparsed-${index}`} style={styles.previewRow}>
+                <Ionicons name="help-circle-outline" size={16} color="#999" />
+                <Text style={[styles.previewText, styles.previewUnparsed]}>{entry}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Save Button */}
         <TouchableOpacity
           style={styles.saveButton}
@@ -301,6 +326,30 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 16,
   },
+  previewContainer: {
+    marginBottom: 16,
+  },
+  previewTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+    marginLeft: 6,
+  },
+  previewUnparsed: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
   saveButton: {
     backgroundColor: '#007AFF',
     flexDirection: 'row',
@@ -0,0 +1,18 @@
+// Card type labels dealers tag their booth / inventory with.
+// Used by the `dealerCardTypes` show filter and inventory search.
+export const DEALER_CARD_TYPES = [
+  'Vintage',
+  'Modern',
+  'Sealed Wax',
+  'Singles',
+  'Slabs',
+  'Raw',
+  'Pokemon',
+  'Magic',
+  'Yu-Gi-Oh',
+  'Baseball',
+  'Basketball',
+  'Football',
+  'Soccer',
+  'Memorabilia',
+] as const;
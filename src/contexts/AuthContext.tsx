@@ -5,6 +5,11 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as supabaseAuthService from '../services/supabaseAuthService';
 import { signIn as _signIn } from '../services/supabaseAuthService';
 import { refreshUserSession } from '../services/sessionService';
+import { clearOfflineStore } from '../services/offlineStore';
+import {
+  registerForPushNotifications,
+  unregisterPushDevice,
+} from '../services/notificationService';
 // import * as Sentry from 'sentry-expo'; // ↳ Temporarily disabled while debugging
 
 /* ------------------------------------------------------------------
@@ -308,6 +313,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       subscription.unsubscribe();
     };
   }, []);
+
+  // Register this device for push notifications once a user is signed in
+  const currentUserId = authState.user?.id;
+  useEffect(() => {
+    if (!currentUserId) return;
+    registerForPushNotifications().then(({ error }) => {
+      if (error && __DEV__) console.warn('[AuthContext] Push registration skipped:', error);
+    });
+  }, [currentUserId]);
   
   // Login method
   const login = async (credentials: AuthCredentials): Promise<User> => {
@@ -551,7 +565,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
       
+      // Drop this device's push token while we still have a session
+      await unregisterPushDevice();
       await supabaseAuthService.signOut();
+      // Saved shows, favorites and queued writes belong to this account
+      await clearOfflineStore();
       
       const newState = {
         user: null,
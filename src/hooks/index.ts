@@ -3,3 +3,8 @@ export { useInfiniteShows } from './useInfiniteShows';
 export { useUnifiedInfiniteShows } from './useUnifiedInfiniteShows';
 export { useUserSubscriptions } from './useUserSubscriptions';
 export { useUnclaimedShows } from './useUnclaimedShows';
+export { useShowRevisionsQuery } from './useShowRevisionsQuery';
+export { useOfflineSync } from './useOfflineSync';
+export { useActivityFeed } from './useActivityFeed';
+export { useMapViewport } from './useMapViewport';
+export { useUnifiedSearch } from './useUnifiedSearch';
@@ -0,0 +1,159 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { getActivityFeed, PaginatedActivityResult } from '../services/followService';
+import { ActivityFeedItem } from '../types';
+
+/**
+ * Interface for the parameters accepted by useActivityFeed hook
+ */
+export interface ActivityFeedParams {
+  /**
+   * Signed-in user (the feed is always the current user's); part of the
+   * query key so switching accounts never shows the previous user's feed
+   */
+  userId?: string | null;
+
+  /**
+   * Number of events to fetch per page
+   * @default 20
+   */
+  pageSize?: number;
+
+  /**
+   * Whether to enable the query automatically
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Result interface returned by useActivityFeed hook
+ */
+export interface ActivityFeedResult {
+  /**
+   * Flattened array of all events across all loaded pages
+   */
+  items: ActivityFeedItem[];
+
+  /**
+   * Total number of events in the feed
+   */
+  totalCount: number;
+
+  /**
+   * Whether there are more pages that can be loaded
+   */
+  hasNextPage: boolean;
+
+  /**
+   * Function to fetch the next page of events
+   */
+  fetchNextPage: () => Promise<void>;
+
+  /**
+   * Function to refresh all data
+   */
+  refresh: () => Promise<void>;
+
+  /**
+   * Whether the initial data is loading
+   */
+  isLoading: boolean;
+
+  /**
+   * Whether more data is being fetched
+   */
+  isFetchingNextPage: boolean;
+
+  /**
+   * Whether a pull-to-refresh is in progress
+   */
+  isRefreshing: boolean;
+
+  /**
+   * Error message if any
+   */
+  error: string | null;
+}
+
+/**
+ * Custom hook that uses React Query's useInfiniteQuery to page through the
+ * activity feed of the organizers, series and dealers the user follows.
+ * Paginates the same way as useInfiniteShows.
+ *
+ * @param params - User, page size and enabled flag
+ * @returns An object with feed items, loading states, and functions to fetch more data
+ */
+export const useActivityFeed = (params: ActivityFeedParams): ActivityFeedResult => {
+  const { userId, pageSize = 20, enabled = true } = params;
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    isRefetching,
+    isError,
+    error: queryError,
+    refetch,
+  } = useInfiniteQuery<PaginatedActivityResult, Error>({
+    queryKey: ['activityFeed', userId, { pageSize }],
+    // Start pagination at page 1
+    initialPageParam: 1,
+    queryFn: async ({ pageParam = 1 }) => {
+      const page = Number(pageParam) || 1;
+      const result = await getActivityFeed({ page, pageSize });
+
+      // If there's an error, throw it so React Query can handle it
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      return result;
+    },
+    getNextPageParam: (lastPage: PaginatedActivityResult) => {
+      // If we've reached the last page, return undefined (stops infinite loading)
+      if (lastPage.pagination.currentPage >= lastPage.pagination.totalPages) {
+        return undefined;
+      }
+
+      return lastPage.pagination.currentPage + 1;
+    },
+    enabled: enabled && !!userId,
+    staleTime: 60 * 1000, // Consider data fresh for 1 minute
+    refetchOnWindowFocus: false,
+  });
+
+  // Function to refresh data
+  const refresh = async (): Promise<void> => {
+    await refetch();
+  };
+
+  // Flatten the pages into a single array
+  const items =
+    data?.pages.flatMap((page: PaginatedActivityResult) => page.data) || [];
+
+  // Get the total count from the first page (or 0 if no data)
+  const totalCount = data?.pages[0]?.pagination.totalCount || 0;
+
+  // Extract error message if any
+  const errorMessage = isError ? (queryError as Error)?.message || 'Failed to load activity' : null;
+
+  return {
+    items,
+    totalCount,
+    hasNextPage: !!hasNextPage,
+    fetchNextPage: async () => {
+      if (hasNextPage && !isFetchingNextPage) {
+        await fetchNextPage();
+      }
+    },
+    refresh,
+    isLoading,
+    isFetchingNextPage,
+    isRefreshing: isRefetching && !isFetchingNextPage,
+    error: errorMessage,
+  };
+};
+
+export default useActivityFeed;
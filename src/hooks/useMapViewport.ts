@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { getMapViewport } from '../services/showService';
+import { MapCluster, MapViewportResult, Show, ShowFilters } from '../types';
+import {
+  MapRegion,
+  regionToViewport,
+  snapViewport,
+  viewportFilters,
+  viewportKey,
+} from '../utils/mapViewport';
+
+/**
+ * Interface for the parameters accepted by useMapViewport hook
+ */
+export interface MapViewportParams {
+  /**
+   * Visible map region (null until the map has a region)
+   */
+  region: MapRegion | null;
+
+  /**
+   * Show filters from the filter sheet; location and radius are ignored
+   */
+  filters?: ShowFilters;
+
+  /**
+   * Return every show regardless of status or date (admin map only)
+   * @default false
+   */
+  includeAll?: boolean;
+
+  /**
+   * Wait this long after the region stops changing before querying
+   * @default 300
+   */
+  debounceMs?: number;
+
+  /**
+   * Whether to enable the query automatically
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Result interface returned by useMapViewport hook
+ */
+export interface MapViewportQueryResult {
+  /**
+   * Shows to draw as individual pins
+   */
+  shows: Show[];
+
+  /**
+   * Server-side clusters (empty when zoomed in)
+   */
+  clusters: MapCluster[];
+
+  /**
+   * Matching shows in the viewport, including those inside clusters
+   */
+  totalCount: number;
+
+  /**
+   * True when the viewport has more pins than were returned
+   */
+  truncated: boolean;
+
+  /**
+   * True when the pins come from the offline store
+   */
+  fromOfflineStore: boolean;
+
+  /**
+   * Function to refetch the current viewport
+   */
+  refresh: () => Promise<void>;
+
+  /**
+   * Whether the first viewport is loading
+   */
+  isLoading: boolean;
+
+  /**
+   * Whether any viewport request is in flight (e.g. after a pan)
+   */
+  isFetching: boolean;
+
+  /**
+   * Error message if any
+   */
+  error: string | null;
+}
+
+/**
+ * Custom hook that queries `get_map_viewport` for the visible map area as
+ * the user pans and zooms.
+ *
+ * The region is snapped to the server's cluster grid, so small pans map to
+ * the same query key and are served from cache, and identical requests in
+ * flight are shared by React Query. The query's abort signal is passed to
+ * Supabase, so a request for an area the user has already left is
+ * cancelled. The previous result stays on screen while the next one loads.
+ *
+ * @param params - Region, filters and options
+ * @returns An object with pins, clusters, loading states and a refresh function
+ */
+export const useMapViewport = (params: MapViewportParams): MapViewportQueryResult => {
+  const { region, filters, includeAll = false, debounceMs = 300, enabled = true } = params;
+
+  // Only query once the map has settled
+  const [settledRegion, setSettledRegion] = useState<MapRegion | null>(region);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledRegion(region), debounceMs);
+    return () => clearTimeout(timer);
+  }, [region, debounceMs]);
+
+  const viewport = useMemo(
+    () => (settledRegion ? snapViewport(regionToViewport(settledRegion)) : null),
+    [settledRegion]
+  );
+  // Dates are reduced to whole days, so this hashes to the same query key
+  // on every render even when the caller builds a fresh `new Date()`
+  const rpcFilters = viewportFilters(filters);
+
+  const { data, isLoading, isFetching, isError, error: queryError, refetch } = useQuery<
+    MapViewportResult | null,
+    Error
+  >({
+    queryKey: ['shows', 'viewport', viewport ? viewportKey(viewport) : null, rpcFilters, includeAll],
+    queryFn: async ({ signal }) => {
+      const result = await getMapViewport(viewport!, rpcFilters, { signal, includeAll });
+
+      // If there's an error, throw it so React Query can handle it
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      return result.data;
+    },
+    enabled: enabled && !!viewport,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000, // Consider data fresh for 1 minute
+    refetchOnWindowFocus: false,
+  });
+
+  // Function to refresh data
+  const refresh = async (): Promise<void> => {
+    await refetch();
+  };
+
+  // Extract error message if any
+  const errorMessage = isError ? (queryError as Error)?.message || 'Failed to load shows' : null;
+
+  return {
+    shows: data?.shows ?? [],
+    clusters: data?.clusters ?? [],
+    totalCount: data?.totalCount ?? 0,
+    truncated: data?.truncated ?? false,
+    fromOfflineStore: data?.fromOfflineStore ?? false,
+    refresh,
+    isLoading,
+    isFetching,
+    error: errorMessage,
+  };
+};
+
+export default useMapViewport;
@@ -0,0 +1,71 @@
+// src/hooks/useOfflineSync.ts
+import { useState, useEffect } from 'react';
+import { Coordinates } from '../types';
+import { calculateDistance } from '../utils/coordinateUtils';
+import { getOfflineRegion, getPendingWrites } from '../services/offlineStore';
+import {
+  flushPendingWrites,
+  startOfflineSync,
+  syncRegion,
+  syncUserData,
+} from '../services/offlineSyncService';
+
+// Re-sync the stored region when it is older than this or the user moved
+const REGION_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+const REGION_MOVE_THRESHOLD_MILES = 25;
+
+/**
+ * Keeps the offline store in sync for the signed-in user and reports
+ * connectivity so screens can show an offline banner.
+ * @param userId Signed-in user (no sync when absent)
+ * @param coordinates User's current location, used for the region sync
+ * @returns isOnline flag and the number of writes waiting to be sent
+ */
+export const useOfflineSync = (userId?: string | null, coordinates?: Coordinates | null) => {
+  const [isOnline, setIsOnline] = useState<boolean>(true);
+  const [pendingWrites, setPendingWrites] = useState<number>(0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const refreshPending = () =>
+      getPendingWrites().then(queue => setPendingWrites(queue.length));
+
+    const unsubscribe = startOfflineSync(userId, online => {
+      setIsOnline(online);
+      refreshPending();
+    });
+
+    flushPendingWrites()
+      .then(() => syncUserData(userId))
+      .finally(refreshPending);
+
+    return unsubscribe;
+  }, [userId]);
+
+  const latitude = coordinates?.latitude;
+  const longitude = coordinates?.longitude;
+
+  useEffect(() => {
+    if (!isOnline || latitude === undefined || longitude === undefined) return;
+
+    const maybeSyncRegion = async () => {
+      const region = await getOfflineRegion();
+      const stale =
+        !region ||
+        Date.now() - region.syncedAt > REGION_MAX_AGE_MS ||
+        calculateDistance(region.latitude, region.longitude, latitude, longitude) >
+          REGION_MOVE_THRESHOLD_MILES;
+
+      if (stale) {
+        await syncRegion({ latitude, longitude });
+      }
+    };
+
+    maybeSyncRegion().catch(err =>
+      console.error('[useOfflineSync] Region sync failed:', err)
+    );
+  }, [isOnline, latitude, longitude]);
+
+  return { isOnline, pendingWrites };
+};
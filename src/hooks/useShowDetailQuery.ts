@@ -1,9 +1,14 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Alert, Share, Linking } from 'react-native';
 import { supabase } from '../supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { handleSupabaseError } from '../services/errorService';
 import { UserRole } from '../types';
+import { getFavorites, getShowDetails, saveShowDetails } from '../services/offlineStore';
+import { setFavorite } from '../services/offlineSyncService';
+import { getDirectionsUrl } from '../services/locationService';
+import { trackShowEvent } from '../services/showAnalyticsService';
 
 interface Dealer {
   id: string;
@@ -63,11 +68,31 @@ export const useShowDetailQuery = (showId: string) => {
   const authContext = useAuth();
   const user = authContext.authState?.user || null;
   
-  // Function to fetch show details from the RPC
+  // Function to fetch show details from the RPC, falling back to the
+  // offline store when the request fails
   const fetchShowDetails = async () => {
-    const { data, error } = await supabase.rpc('get_show_details_by_id', { 
+    try {
+      const details = await fetchOnlineShowDetails();
+      saveShowDetails(showId, details).catch(() => undefined);
+      return details;
+    } catch (err) {
+      const stored = await getShowDetails(showId);
+      if (stored) return stored as ShowDetailResponse;
+      throw err;
+    }
+  };
+
+  const fetchOnlineShowDetails = async () => {
+    let { data, error } = await supabase.rpc('get_show_details_by_id', { 
       show_id: showId 
     });
+
+    // Shows merged as duplicates point at the surviving listing
+    if (!error && data?.show?.status === 'MERGED' && data.show.merged_into_id) {
+      ({ data, error } = await supabase.rpc('get_show_details_by_id', {
+        show_id: data.show.merged_into_id
+      }));
+    }
     
     if (error) {
       throw new Error(error.message);
@@ -182,6 +207,12 @@ export const useShowDetailQuery = (showId: string) => {
     retry: 1, // Only retry once on failure
   });
   
+  // Count a detail view once the show has loaded (for organizer analytics)
+  const loadedShowId = data?.show?.id;
+  useEffect(() => {
+    if (loadedShowId) trackShowEvent(loadedShowId, 'detail_view');
+  }, [loadedShowId]);
+
   // Check if the current user is the show organizer
   const isCurrentUserOrganizer = user?.id === data?.show?.organizer_id;
   
@@ -199,9 +230,14 @@ export const useShowDetailQuery = (showId: string) => {
         .select()
         .eq('user_id', session.user.id)
         .eq('show_id', showId)
-        .single();
+        .maybeSingle();
+
+      if (error) {
+        // Offline – use the locally stored favorites
+        return (await getFavorites(session.user.id)).includes(showId);
+      }
         
-      return !error && !!data;
+      return !!data;
     } catch (error) {
       console.error('Error checking favorite status:', error);
       return false;
@@ -227,21 +263,9 @@ export const useShowDetailQuery = (showId: string) => {
       }
       const userId = session.user.id;
 
-      if (isFavorite) {
-        const { error } = await supabase
-          .from('user_favorite_shows')
-          .delete()
-          .eq('user_id', userId)
-          .eq('show_id', showId);
-        if (error) throw error;
-        return false; // Not a favorite anymore
-      } else {
-        const { error } = await supabase
-          .from('user_favorite_shows')
-          .insert([{ user_id: userId, show_id: showId }]);
-        if (error) throw error;
-        return true; // Now a favorite
-      }
+      // Queued and sent on reconnect when offline
+      await setFavorite(userId, showId, !isFavorite);
+      return !isFavorite;
     },
     onSuccess: (newFavoriteStatus) => {
       // Update the cache
@@ -298,6 +322,16 @@ export const useShowDetailQuery = (showId: string) => {
   const openMapLocation = () => {
     if (!data?.show) return;
     
+    trackShowEvent(data.show.id, 'directions_tap');
+
+    // Route to the pin when the show has GeoJSON coordinates, else search by address
+    const point = data.show.coordinates?.coordinates;
+    if (Array.isArray(point) && point.length >= 2) {
+      const directionsUrl = getDirectionsUrl({ latitude: Number(point[1]), longitude: Number(point[0]) });
+      Linking.openURL(directionsUrl).catch(err => console.error('Error opening directions:', err));
+      return;
+    }
+
     const address = data.show.address || data.show.location || '';
     const encodedAddress = encodeURIComponent(address);
     const url = `https://maps.apple.com/?q=${encodedAddress}`;
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { getShowRevisions, isRecentlyUpdated } from '../services/showRevisionService';
+
+/**
+ * Change log for a show plus whether it should carry the
+ * "Recently updated" badge.
+ * @param showId The ID of the show
+ */
+export const useShowRevisionsQuery = (showId: string) => {
+  const { data: revisions = [], isLoading, refetch } = useQuery({
+    queryKey: ['showRevisions', showId],
+    queryFn: async () => {
+      const { data, error } = await getShowRevisions(showId);
+      if (error) throw new Error(error);
+      return data;
+    },
+    enabled: !!showId,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+
+  return {
+    revisions,
+    recentlyUpdated: isRecentlyUpdated(revisions),
+    isLoading,
+    refetch,
+  };
+};
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { getSearchSuggestions, searchAll } from '../services/searchService';
+import { SearchSuggestion } from '../types';
+import {
+  groupSearchResults,
+  MIN_SEARCH_LENGTH,
+  normalizeSearchQuery,
+  SearchResultGroup,
+} from '../utils/searchResults';
+
+/**
+ * Interface for the parameters accepted by useUnifiedSearch hook
+ */
+export interface UnifiedSearchParams {
+  /**
+   * Text in the search box; drives typeahead suggestions
+   */
+  input: string;
+
+  /**
+   * Submitted query; drives the grouped results (empty = no results shown)
+   */
+  query: string;
+
+  /**
+   * Wait this long after typing stops before fetching suggestions
+   * @default 250
+   */
+  debounceMs?: number;
+}
+
+/**
+ * Result interface returned by useUnifiedSearch hook
+ */
+export interface UnifiedSearchResult {
+  /**
+   * Typeahead suggestions for the current input
+   */
+  suggestions: SearchSuggestion[];
+
+  /**
+   * Results for the submitted query, grouped by type
+   */
+  groups: SearchResultGroup[];
+
+  /**
+   * Whether results for the submitted query are loading
+   */
+  isSearching: boolean;
+
+  /**
+   * Error message if the search failed
+   */
+  error: string | null;
+}
+
+/**
+ * Custom hook for the home screen search box: debounced typeahead
+ * suggestions while typing, and grouped results once a query is submitted.
+ * Both queries pass React Query's abort signal on, so keystrokes cancel
+ * suggestion requests that are no longer needed.
+ *
+ * @param params - Current input, submitted query and debounce delay
+ * @returns Suggestions, grouped results and loading / error state
+ */
+export const useUnifiedSearch = (params: UnifiedSearchParams): UnifiedSearchResult => {
+  const { input, query, debounceMs = 250 } = params;
+
+  const [debouncedInput, setDebouncedInput] = useState(normalizeSearchQuery(input));
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedInput(normalizeSearchQuery(input)), debounceMs);
+    return () => clearTimeout(timer);
+  }, [input, debounceMs]);
+
+  const submitted = normalizeSearchQuery(query);
+
+  const { data: suggestions } = useQuery<SearchSuggestion[], Error>({
+    queryKey: ['search', 'suggestions', debouncedInput.toLowerCase()],
+    queryFn: async ({ signal }) => {
+      const result = await getSearchSuggestions(debouncedInput, { signal });
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    // No suggestions once the typed text has been submitted
+    enabled: debouncedInput.length >= MIN_SEARCH_LENGTH && debouncedInput !== submitted,
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const {
+    data: groups,
+    isFetching,
+    isError,
+    error: queryError,
+  } = useQuery<SearchResultGroup[], Error>({
+    queryKey: ['search', 'all', submitted.toLowerCase()],
+    queryFn: async ({ signal }) => {
+      const result = await searchAll(submitted, { limitPerType: 5, signal });
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return groupSearchResults(result.data);
+    },
+    enabled: submitted.length >= MIN_SEARCH_LENGTH,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const showSuggestions =
+    debouncedInput.length >= MIN_SEARCH_LENGTH && normalizeSearchQuery(input) !== submitted;
+
+  return {
+    suggestions: showSuggestions ? suggestions ?? [] : [],
+    groups: submitted.length >= MIN_SEARCH_LENGTH ? groups ?? [] : [],
+    isSearching: isFetching,
+    error: isError ? (queryError as Error)?.message || 'Search failed' : null,
+  };
+};
+
+export default useUnifiedSearch;
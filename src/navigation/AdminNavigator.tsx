@@ -4,12 +4,14 @@ import { AdminMapScreen } from '../screens/Admin';
 import { useAuth } from '../contexts/AuthContext';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { GenerateReferralCodeScreen } from '../screens/Admin';
+import { GenerateReferralCodeScreen, ApiKeysScreen, BadgeDefinitionsScreen } from '../screens/Admin';
 
 // Define the param list for the Admin stack navigator
 export type AdminStackParamList = {
   AdminMap: undefined;
   GenerateReferralCode: undefined;
+  ApiKeys: undefined;
+  BadgeDefinitions: undefined;
   // Add other admin screens here as needed
 };
 
@@ -58,16 +60,38 @@ const AdminNavigator: React.FC = () => {
           title: 'Coordinate Validation',
           headerBackTitle: 'Back',
           headerRight: () => (
-            <TouchableOpacity
-              style={{ flexDirection: 'row', alignItems: 'center' }}
-              onPress={() => navigation.navigate('GenerateReferralCode')}
-              accessibilityLabel="Generate referral codes"
-            >
-              <Ionicons name="gift" size={20} color="#0057B8" />
-              <Text style={{ marginLeft: 4, color: '#0057B8', fontWeight: '600' }}>
-                Codes
-              </Text>
-            </TouchableOpacity>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <TouchableOpacity
+                style={{ flexDirection: 'row', alignItems: 'center', marginRight: 16 }}
+                onPress={() => navigation.navigate('BadgeDefinitions')}
+                accessibilityLabel="Manage badges"
+              >
+                <Ionicons name="ribbon" size={20} color="#0057B8" />
+                <Text style={{ marginLeft: 4, color: '#0057B8', fontWeight: '600' }}>
+                  Badges
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={{ flexDirection: 'row', alignItems: 'center', marginRight: 16 }}
+                onPress={() => navigation.navigate('ApiKeys')}
+                accessibilityLabel="Manage public API keys"
+              >
+                <Ionicons name="key" size={20} color="#0057B8" />
+                <Text style={{ marginLeft: 4, color: '#0057B8', fontWeight: '600' }}>
+                  API
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={{ flexDirection: 'row', alignItems: 'center' }}
+                onPress={() => navigation.navigate('GenerateReferralCode')}
+                accessibilityLabel="Generate referral codes"
+              >
+                <Ionicons name="gift" size={20} color="#0057B8" />
+                <Text style={{ marginLeft: 4, color: '#0057B8', fontWeight: '600' }}>
+                  Codes
+                </Text>
+              </TouchableOpacity>
+            </View>
           ),
         })}
       />
@@ -76,6 +100,16 @@ const AdminNavigator: React.FC = () => {
         component={GenerateReferralCodeScreen}
         options={{ title: 'Generate Referral Code' }}
       />
+      <Stack.Screen
+        name="ApiKeys"
+        component={ApiKeysScreen}
+        options={{ title: 'API Keys' }}
+      />
+      <Stack.Screen
+        name="BadgeDefinitions"
+        component={BadgeDefinitionsScreen}
+        options={{ title: 'Badges' }}
+      />
       {/* Add more admin screens here as needed */}
     </Stack.Navigator>
   );
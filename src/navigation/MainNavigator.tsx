@@ -5,12 +5,15 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import MainTabNavigator from './MainTabNavigator';
 import ShowDetailScreen from '../screens/ShowDetail';
 import EditShowScreen from '../screens/EditShow';
+import TripPlannerScreen from '../screens/Trip';
 
 // Define navigation types for main stack
 export type MainStackParamList = {
   MainTabs: undefined;
-  ShowDetail: { showId: string; showReviewForm?: boolean };
+  ShowDetail: { showId: string; showReviewForm?: boolean; checkInCode?: string };
   EditShow: { showId: string };
+  // `shows` is a comma-separated id list when opened from a shared trip link
+  TripPlanner: { shows?: string; name?: string } | undefined;
 };
 
 // Create navigation stack
@@ -44,6 +47,16 @@ const MainNavigator: React.FC = () => {
           headerBackTitle: 'Back'
         }}
       />
+      <MainStack.Screen 
+        name="TripPlanner" 
+        component={TripPlannerScreen} 
+        options={{ 
+          headerShown: true, 
+          title: 'Trip Planner',
+          animation: 'slide_from_right',
+          headerBackTitle: 'Back'
+        }}
+      />
     </MainStack.Navigator>
   );
 };
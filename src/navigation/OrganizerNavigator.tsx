@@ -6,10 +6,8 @@ import OrganizerDashboardScreen from '../screens/Organizer/OrganizerDashboardScr
 import OrganizerReviewsScreen from '../screens/Organizer/OrganizerReviewsScreen';
 import AddShowScreen from '../screens/Organizer/AddShowScreen';
 import EditShowScreen from '../screens/EditShow/EditShowScreen';
-
-// These screens will be implemented later
-// Declaring them as placeholders for navigation
-const SeriesDetailScreen = () => null;
+import ShowCheckInQrScreen from '../screens/Organizer/ShowCheckInQrScreen';
+import SeriesDetailScreen from '../screens/Organizer/SeriesDetailScreen';
 
 // Define navigation types for organizer stack
 export type OrganizerStackParamList = {
@@ -23,6 +21,8 @@ export type OrganizerStackParamList = {
    * Optional seriesId when triggered from a Show Series context.
    */
   SendBroadcast: { showId: string; seriesId?: string };
+  /** Rotating check-in QR code to display at the show entrance */
+  ShowCheckInQr: { showId: string; showTitle?: string };
 };
 
 const OrganizerStack = createNativeStackNavigator<OrganizerStackParamList>();
@@ -84,6 +84,13 @@ const OrganizerNavigator: React.FC = () => {
           title: 'Edit Show',
         }}
       />
+      <OrganizerStack.Screen
+        name="ShowCheckInQr"
+        component={ShowCheckInQrScreen}
+        options={{
+          title: 'Check-In Code',
+        }}
+      />
     </OrganizerStack.Navigator>
   );
 };
@@ -5,12 +5,16 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { ProfileScreen } from '../screens/Profile';
 import SubscriptionScreen from '../screens/Profile/SubscriptionScreen';
 import ShowParticipationScreen from '../screens/Dealer/ShowParticipationScreen';
+import DealerInventoryScreen from '../screens/Dealer/DealerInventoryScreen';
+import BadgesScreen from '../screens/Badges';
 
 // Define navigation types for profile stack
 export type ProfileStackParamList = {
   ProfileMain: undefined;
   SubscriptionScreen: undefined;
   ShowParticipationScreen: undefined;
+  DealerInventoryScreen: undefined;
+  BadgesScreen: undefined;
 };
 
 // Create navigation stack
@@ -41,6 +45,26 @@ const ProfileNavigator: React.FC = () => {
           headerBackTitle: 'Profile',
         }}
       />
+      <ProfileStack.Screen
+        name="DealerInventoryScreen"
+        component={DealerInventoryScreen}
+        options={{
+          headerShown: true,
+          title: 'My Inventory',
+          animation: 'slide_from_right',
+          headerBackTitle: 'Profile',
+        }}
+      />
+      <ProfileStack.Screen
+        name="BadgesScreen"
+        component={BadgesScreen}
+        options={{
+          headerShown: true,
+          title: 'My Badges',
+          animation: 'slide_from_right',
+          headerBackTitle: 'Profile',
+        }}
+      />
       <ProfileStack.Screen 
         name="SubscriptionScreen" 
         component={SubscriptionScreen}
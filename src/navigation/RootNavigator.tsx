@@ -1,10 +1,10 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { LinkingOptions, NavigationContainer, NavigatorScreenParams } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
 // Import navigators
 import AuthNavigator from './AuthNavigator';
-import MainNavigator from './MainNavigator';
+import MainNavigator, { MainStackParamList } from './MainNavigator';
 import AdminNavigator from './AdminNavigator';
 
 // Import auth context
@@ -13,6 +13,12 @@ import { useAuth } from '../contexts/AuthContext';
 // Import UI components
 import { Loading } from '../components/ui';
 
+// Routes reachable from deep links
+type DeepLinkParamList = {
+  ResetPassword: { token?: string } | undefined;
+  Main: NavigatorScreenParams<MainStackParamList>;
+};
+
 /**
  * RootNavigator - Handles top-level navigation based on auth state
  * Shows either the auth flow or main app based on authentication status
@@ -38,12 +44,16 @@ const RootNavigator: React.FC = () => {
    * Deep-link configuration
    *  – Recognises our custom URL scheme `cardshowfinder://`
    *  – Handles the password-reset flow (`cardshowfinder://reset-password?token=XYZ`)
+   *  – Opens show check-in QR codes (`cardshowfinder://check-in/<showId>?checkInCode=XYZ`)
+   *    on ShowDetail, which submits the code
+   *  – Opens shared trips (`https://cardshowfinder.app/trip?shows=<id>,<id>&name=…`)
+   *    in the trip planner
    *
    *  The `ResetPassword` route lives inside the AuthNavigator stack.
    *  React Navigation will automatically drill into nested navigators
    *  as long as we declare the screen name in the config.
    */
-  const linking = {
+  const linking: LinkingOptions<DeepLinkParamList> = {
     // Accept both the custom-scheme URL and the universal https link
     prefixes: [
       'cardshowfinder://',
@@ -55,6 +65,18 @@ const RootNavigator: React.FC = () => {
         ResetPassword: {
           path: 'reset-password',
         },
+        // Show check-in (QR code at the show entrance)
+        Main: {
+          screens: {
+            ShowDetail: {
+              path: 'check-in/:showId',
+            },
+            // Shared trip plan
+            TripPlanner: {
+              path: 'trip',
+            },
+          },
+        },
       },
     },
   };
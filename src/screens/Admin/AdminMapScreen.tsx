@@ -6,8 +6,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { Region, Marker as _Marker } from '../../components/MapFallback';
 import { useNavigation } from '@react-navigation/native';
 import { Show, Coordinates } from '../../types';
-import { checkAdminStatus, getAllShowsForValidation, updateShowCoordinates } from '../../services/adminService';
+import { checkAdminStatus, updateShowCoordinates } from '../../services/adminService';
 import MapShowCluster from '../../components/MapShowCluster';
+import { useMapViewport } from '../../hooks';
 
 /**
  * Admin Map Screen for validating and correcting show coordinates
@@ -20,7 +21,6 @@ const AdminMapScreen: React.FC = () => {
   const [isAdmin, setIsAdmin] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [shows, setShows] = useState<Show[]>([]);
   const [selectedShow, setSelectedShow] = useState<Show | null>(null);
   const [editModalVisible, setEditModalVisible] = useState<boolean>(false);
   const [newCoordinates, setNewCoordinates] = useState<Coordinates>({ latitude: 0, longitude: 0 });
@@ -37,6 +37,14 @@ const AdminMapScreen: React.FC = () => {
   const mapRef = useRef<any>(null);
   const navigation = useNavigation();
 
+  // Every show in the visible area, including past and inactive ones
+  const {
+    shows,
+    clusters,
+    refresh,
+    error: showsError,
+  } = useMapViewport({ region: mapRegion, includeAll: true, enabled: isAdmin });
+
   // Check admin status on component mount
   useEffect(() => {
     const verifyAdminStatus = async () => {
@@ -49,9 +57,7 @@ const AdminMapScreen: React.FC = () => {
       } else {
         setIsAdmin(adminStatus);
         
-        if (adminStatus) {
-          await fetchAllShows();
-        } else {
+        if (!adminStatus) {
           setError('Unauthorized: Admin privileges required');
         }
       }
@@ -61,39 +67,6 @@ const AdminMapScreen: React.FC = () => {
     verifyAdminStatus();
   }, []);
 
-  // Fetch all shows from the database
-  const fetchAllShows = async () => {
-    const { shows: allShows, error: showsError } = await getAllShowsForValidation();
-    
-    if (showsError) {
-      setError(showsError);
-    } else {
-      setShows(allShows);
-      
-      // Adjust map region if shows are available
-      if (allShows.length > 0) {
-        // Find the center of all shows
-        const validCoordinates = allShows
-          .filter(show => show.coordinates && 
-            typeof show.coordinates.latitude === 'number' && 
-            typeof show.coordinates.longitude === 'number')
-          .map(show => show.coordinates as Coordinates);
-        
-        if (validCoordinates.length > 0) {
-          const avgLat = validCoordinates.reduce((sum, coord) => sum + coord.latitude, 0) / validCoordinates.length;
-          const avgLng = validCoordinates.reduce((sum, coord) => sum + coord.longitude, 0) / validCoordinates.length;
-          
-          setMapRegion({
-            latitude: avgLat,
-            longitude: avgLng,
-            latitudeDelta: 30,  // Zoom out to see more shows
-            longitudeDelta: 30,
-          });
-        }
-      }
-    }
-  };
-
   // Handle show selection
   const handleShowPress = (showId: string) => {
     const show = shows.find(s => s.id === showId);
@@ -150,14 +123,8 @@ const AdminMapScreen: React.FC = () => {
       setUpdateSuccess(true);
       setUpdateMessage('Coordinates updated successfully');
       
-      // Update the local state to reflect the change
-      setShows(prevShows => 
-        prevShows.map(show => 
-          show.id === selectedShow.id 
-            ? { ...show, coordinates: newCoordinates } 
-            : show
-        )
-      );
+      // Reload the visible area so the pin moves
+      refresh();
       
       // Update selected show with new coordinates
       setSelectedShow(prev => 
@@ -205,15 +172,15 @@ const AdminMapScreen: React.FC = () => {
   }
 
   // Render error state
-  if (error) {
+  if (error || (showsError && shows.length === 0)) {
     return (
       <View style={styles.centeredContainer}>
         <Ionicons name="alert-circle" size={64} color="#FF3B30" />
         <Text style={styles.errorTitle}>Error</Text>
-        <Text style={styles.errorMessage}>{error}</Text>
+        <Text style={styles.errorMessage}>{error || showsError}</Text>
         <TouchableOpacity 
           style={styles.retryButton}
-          onPress={fetchAllShows}
+          onPress={() => refresh()}
         >
           <Text style={styles.retryButtonText}>Retry</Text>
         </TouchableOpacity>
@@ -249,6 +216,7 @@ const AdminMapScreen: React.FC = () => {
         <MapShowCluster
           ref={mapRef}
           shows={shows}
+          clusters={clusters}
           onCalloutPress={handleShowPress}
           region={mapRegion}
           showsUserLocation={false}
@@ -0,0 +1,393 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Clipboard,
+  Platform,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ApiKey } from '../../types';
+import { createApiKey, getApiKeys, revokeApiKey } from '../../services/apiKeyService';
+
+const ORANGE = '#FF6A00';
+const BLUE = '#0057B8';
+const DARK_GRAY = '#666666';
+
+const DEFAULT_REQUESTS_PER_MINUTE = '60';
+const DEFAULT_DAILY_QUOTA = '10000';
+
+const formatDate = (value?: string | null): string =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : 'Never';
+
+/**
+ * Issue and revoke keys for the public show-listings API.
+ */
+const ApiKeysScreen: React.FC = () => {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<{ name: string; apiKey: string } | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [contactEmail, setContactEmail] = useState('');
+  const [requestsPerMinute, setRequestsPerMinute] = useState(DEFAULT_REQUESTS_PER_MINUTE);
+  const [dailyQuota, setDailyQuota] = useState(DEFAULT_DAILY_QUOTA);
+  const [notes, setNotes] = useState('');
+
+  const loadKeys = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await getApiKeys();
+    setIsLoading(false);
+    if (error) {
+      Alert.alert('Error', 'Failed to load API keys.');
+      return;
+    }
+    setKeys(data);
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const copyToClipboard = (value: string) => {
+    if (Platform.OS === 'web') {
+      navigator.clipboard
+        .writeText(value)
+        .then(() => Alert.alert('Copied', 'API key copied to clipboard.'))
+        .catch(err => {
+          console.error('Could not copy text: ', err);
+          Alert.alert('Error', 'Failed to copy to clipboard');
+        });
+    } else {
+      Clipboard.setString(value);
+      Alert.alert('Copied', 'API key copied to clipboard.');
+    }
+  };
+
+  const handleCreate = async () => {
+    const rpm = parseInt(requestsPerMinute, 10);
+    const quota = parseInt(dailyQuota, 10);
+
+    if (!name.trim()) {
+      Alert.alert('Missing Name', 'Enter the name of the site or company using this key.');
+      return;
+    }
+    if (!(rpm > 0) || !(quota > 0)) {
+      Alert.alert('Invalid Quota', 'Requests per minute and daily quota must be positive numbers.');
+      return;
+    }
+
+    setIsCreating(true);
+    const { data, error } = await createApiKey({
+      name,
+      contactEmail,
+      requestsPerMinute: rpm,
+      dailyQuota: quota,
+      notes,
+    });
+    setIsCreating(false);
+
+    if (error || !data) {
+      Alert.alert('Error', 'Failed to create API key. Please try again.');
+      return;
+    }
+
+    setNewKey({ name: name.trim(), apiKey: data.apiKey });
+    setName('');
+    setContactEmail('');
+    setRequestsPerMinute(DEFAULT_REQUESTS_PER_MINUTE);
+    setDailyQuota(DEFAULT_DAILY_QUOTA);
+    setNotes('');
+    loadKeys();
+  };
+
+  const handleRevoke = (key: ApiKey) => {
+    Alert.alert(
+      'Revoke API Key',
+      `Revoke the key for "${key.name}"? Their integration will stop working immediately.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(key.id);
+            const { error } = await revokeApiKey(key.id);
+            setRevokingId(null);
+            if (error) {
+              Alert.alert('Error', 'Failed to revoke API key. Please try again.');
+              return;
+            }
+            loadKeys();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={<RefreshControl refreshing={isLoading && keys.length > 0} onRefresh={loadKeys} />}
+    >
+      <Text style={styles.screenTitle}>Public API Keys</Text>
+
+      {/* Newly created key – shown once */}
+      {newKey && (
+        <View style={styles.newKeyBox}>
+          <Text style={styles.newKeyTitle}>Key for {newKey.name}</Text>
+          <Text style={styles.newKeyWarning}>
+            Copy this key now and send it to the consumer. It won't be shown again.
+          </Text>
+          <View style={styles.newKeyRow}>
+            <Text style={styles.newKeyText} selectable>
+              {newKey.apiKey}
+            </Text>
+            <TouchableOpacity onPress={() => copyToClipboard(newKey.apiKey)} style={styles.iconButton}>
+              <Ionicons name="copy-outline" size={20} color={BLUE} />
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={() => setNewKey(null)}>
+            <Text style={styles.dismissText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Issue a key */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Issue a Key</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Consumer name (e.g. Main Street Cards)"
+          value={name}
+          onChangeText={setName}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Contact email (optional)"
+          value={contactEmail}
+          onChangeText={setContactEmail}
+          autoCapitalize="none"
+          keyboardType="email-address"
+        />
+        <View style={styles.quotaRow}>
+          <View style={styles.quotaField}>
+            <Text style={styles.label}>Requests / minute</Text>
+            <TextInput
+              style={styles.input}
+              value={requestsPerMinute}
+              onChangeText={setRequestsPerMinute}
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={styles.quotaField}>
+            <Text style={styles.label}>Requests / day</Text>
+            <TextInput
+              style={styles.input}
+              value={dailyQuota}
+              onChangeText={setDailyQuota}
+              keyboardType="number-pad"
+            />
+          </View>
+        </View>
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          placeholder="Notes (optional)"
+          value={notes}
+          onChangeText={setNotes}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.createButton, isCreating && styles.disabledButton]}
+          onPress={handleCreate}
+          disabled={isCreating}
+        >
+          {isCreating ? <ActivityIndicator color="#fff" /> : <Text style={styles.createButtonText}>Create Key</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {/* Existing keys */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Issued Keys</Text>
+        {isLoading && keys.length === 0 ? (
+          <ActivityIndicator color={ORANGE} />
+        ) : keys.length === 0 ? (
+          <Text style={styles.emptyText}>No API keys have been issued yet.</Text>
+        ) : (
+          keys.map(key => {
+            const revoked = !!key.revokedAt;
+            return (
+              <View key={key.id} style={[styles.keyItem, revoked && styles.revokedItem]}>
+                <View style={styles.keyInfo}>
+                  <Text style={styles.keyName}>
+                    {key.name}
+                    {revoked ? ' (revoked)' : ''}
+                  </Text>
+                  <Text style={styles.keyMeta}>
+                    {key.keyPrefix}… · {key.requestsPerMinute}/min · {key.dailyQuota.toLocaleString('en-US')}/day
+                  </Text>
+                  {key.contactEmail ? <Text style={styles.keyMeta}>{key.contactEmail}</Text> : null}
+                  <Text style={styles.keyMeta}>
+                    Created {formatDate(key.createdAt)} · Last used {formatDate(key.lastUsedAt)}
+                  </Text>
+                </View>
+                {!revoked &&
+                  (revokingId === key.id ? (
+                    <ActivityIndicator size="small" color={ORANGE} />
+                  ) : (
+                    <TouchableOpacity onPress={() => handleRevoke(key)} style={styles.iconButton}>
+                      <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                    </TouchableOpacity>
+                  ))}
+              </View>
+            );
+          })
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    color: BLUE,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  label: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 10,
+    color: '#333',
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  quotaRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  quotaField: {
+    flex: 1,
+  },
+  createButton: {
+    backgroundColor: ORANGE,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  newKeyBox: {
+    backgroundColor: '#FFF4EC',
+    borderColor: ORANGE,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  newKeyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  newKeyWarning: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    marginVertical: 6,
+  },
+  newKeyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  newKeyText: {
+    flex: 1,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 13,
+    color: '#333',
+  },
+  dismissText: {
+    color: BLUE,
+    fontWeight: '600',
+    marginTop: 8,
+    textAlign: 'right',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  keyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  revokedItem: {
+    opacity: 0.5,
+  },
+  keyInfo: {
+    flex: 1,
+  },
+  keyName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  keyMeta: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
+
+export default ApiKeysScreen;
@@ -0,0 +1,434 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Badge, BadgeMetric, BadgeRuleParams, BadgeTier } from '../../types';
+import {
+  backfillBadge,
+  createBadgeDefinition,
+  getBadgeDefinitionsForAdmin,
+  updateBadgeDefinition,
+} from '../../services/badgeService';
+import { showSeriesService } from '../../services/showSeriesService';
+import { BADGE_METRICS, BADGE_METRIC_KEYS, describeBadgeRule, isSeriesId } from '../../utils/badgeRules';
+
+const ORANGE = '#FF6A00';
+const BLUE = '#0057B8';
+const DARK_GRAY = '#666666';
+
+const TIERS = [BadgeTier.BRONZE, BadgeTier.SILVER, BadgeTier.GOLD, BadgeTier.PLATINUM];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Add, retire and backfill rule-based badges. Rules are evaluated in the
+ * database, so new badges need no app release.
+ */
+const BadgeDefinitionsScreen: React.FC = () => {
+  const [badges, setBadges] = useState<Badge[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [tier, setTier] = useState<BadgeTier>(BadgeTier.BRONZE);
+  const [metric, setMetric] = useState<BadgeMetric>('shows_attended');
+  const [threshold, setThreshold] = useState('1');
+  const [seriesId, setSeriesId] = useState('');
+  const [year, setYear] = useState('');
+
+  const loadBadges = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await getBadgeDefinitionsForAdmin();
+    setIsLoading(false);
+    if (error) {
+      Alert.alert('Error', 'Failed to load badges.');
+      return;
+    }
+    setBadges(data);
+  }, []);
+
+  useEffect(() => {
+    loadBadges();
+  }, [loadBadges]);
+
+  const buildParams = (): BadgeRuleParams | null => {
+    if (metric === 'series_visits' && seriesId.trim()) {
+      if (!isSeriesId(seriesId)) return null;
+      return { series_id: seriesId.trim().toLowerCase() };
+    }
+    if (metric === 'shows_in_year' && year.trim()) {
+      const parsedYear = parseInt(year, 10);
+      if (!/^\d{4}$/.test(year.trim()) || !(parsedYear >= 2000 && parsedYear <= 2100)) return null;
+      return { year: parsedYear };
+    }
+    return {};
+  };
+
+  /**
+   * badge_metric_value() runs inside every check-in, so only save a series
+   * badge for a series that exists
+   */
+  const seriesExists = async (id: string): Promise<boolean | null> => {
+    try {
+      return (await showSeriesService.getShowSeriesById(id)) !== null;
+    } catch {
+      return null;
+    }
+  };
+
+  const handleBackfill = async (badge: Badge) => {
+    setBusyId(badge.id);
+    const { data, error } = await backfillBadge(badge.id);
+    setBusyId(null);
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+    Alert.alert('Badge Awarded', `"${badge.name}" was awarded to ${data} user${data === 1 ? '' : 's'}.`);
+  };
+
+  const handleCreate = async () => {
+    const parsedThreshold = parseInt(threshold, 10);
+    const params = buildParams();
+
+    if (!name.trim() || !description.trim()) {
+      Alert.alert('Missing Details', 'Enter a name and description for the badge.');
+      return;
+    }
+    if (!(parsedThreshold > 0)) {
+      Alert.alert('Invalid Threshold', 'The threshold must be a positive number.');
+      return;
+    }
+    if (!params) {
+      Alert.alert(
+        metric === 'series_visits' ? 'Invalid Series' : 'Invalid Year',
+        metric === 'series_visits'
+          ? 'Enter a show series ID or leave it blank for any series.'
+          : 'Enter a four-digit year or leave it blank for the current year.'
+      );
+      return;
+    }
+
+    setIsCreating(true);
+    if (params.series_id) {
+      const exists = await seriesExists(params.series_id);
+      if (!exists) {
+        setIsCreating(false);
+        Alert.alert(
+          exists === null ? 'Error' : 'Invalid Series',
+          exists === null ? 'Could not look up the show series. Please try again.' : 'No show series has that ID.'
+        );
+        return;
+      }
+    }
+
+    const { data, error } = await createBadgeDefinition({
+      name,
+      description,
+      tier,
+      metric,
+      threshold: parsedThreshold,
+      params,
+    });
+    setIsCreating(false);
+
+    if (error || !data) {
+      Alert.alert('Error', 'Failed to create badge. Please try again.');
+      return;
+    }
+
+    setName('');
+    setDescription('');
+    setThreshold('1');
+    setSeriesId('');
+    setYear('');
+    loadBadges();
+
+    Alert.alert(
+      'Badge Created',
+      'Users will earn it on their next qualifying activity. Award it now to everyone who already qualifies?',
+      [
+        { text: 'Later', style: 'cancel' },
+        { text: 'Award Now', onPress: () => handleBackfill(data) },
+      ]
+    );
+  };
+
+  const handleToggleActive = async (badge: Badge, isActive: boolean) => {
+    setBusyId(badge.id);
+    const { data, error } = await updateBadgeDefinition(badge.id, { isActive });
+    setBusyId(null);
+    if (error || !data) {
+      Alert.alert('Error', 'Failed to update badge. Please try again.');
+      return;
+    }
+    setBadges(prev => prev.map(b => (b.id === data.id ? data : b)));
+  };
+
+  const renderChips = <T extends string>(
+    options: T[],
+    selected: T,
+    onSelect: (value: T) => void,
+    label: (value: T) => string
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, selected === option && styles.chipSelected]}
+          onPress={() => onSelect(option)}
+        >
+          <Text style={[styles.chipText, selected === option && styles.chipTextSelected]}>
+            {label(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const previewThreshold = parseInt(threshold, 10) > 0 ? parseInt(threshold, 10) : 1;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={<RefreshControl refreshing={isLoading && badges.length > 0} onRefresh={loadBadges} />}
+    >
+      <Text style={styles.screenTitle}>Badges</Text>
+
+      {/* Add a badge */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Add a Badge</Text>
+        <TextInput style={styles.input} placeholder="Name (e.g. Road Tripper)" value={name} onChangeText={setName} />
+        <TextInput
+          style={styles.input}
+          placeholder="Description shown to users"
+          value={description}
+          onChangeText={setDescription}
+        />
+
+        <Text style={styles.label}>Tier</Text>
+        {renderChips(TIERS, tier, setTier, capitalize)}
+
+        <Text style={styles.label}>Counts</Text>
+        {renderChips(BADGE_METRIC_KEYS, metric, setMetric, value => BADGE_METRICS[value].label)}
+
+        <Text style={styles.label}>Threshold</Text>
+        <TextInput style={styles.input} value={threshold} onChangeText={setThreshold} keyboardType="number-pad" />
+
+        {metric === 'series_visits' && (
+          <TextInput
+            style={styles.input}
+            placeholder="Series ID (optional – blank means any one series)"
+            value={seriesId}
+            onChangeText={setSeriesId}
+            autoCapitalize="none"
+          />
+        )}
+        {metric === 'shows_in_year' && (
+          <TextInput
+            style={styles.input}
+            placeholder="Year (optional – blank means the current year)"
+            value={year}
+            onChangeText={setYear}
+            keyboardType="number-pad"
+          />
+        )}
+
+        <Text style={styles.preview}>
+          Rule: {describeBadgeRule(metric, previewThreshold, buildParams() ?? {})}
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.createButton, isCreating && styles.disabledButton]}
+          onPress={handleCreate}
+          disabled={isCreating}
+        >
+          {isCreating ? <ActivityIndicator color="#fff" /> : <Text style={styles.createButtonText}>Create Badge</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {/* Existing badges */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>All Badges</Text>
+        {isLoading && badges.length === 0 ? (
+          <ActivityIndicator color={ORANGE} />
+        ) : badges.length === 0 ? (
+          <Text style={styles.emptyText}>No badges have been defined yet.</Text>
+        ) : (
+          badges.map(badge => (
+            <View key={badge.id} style={[styles.badgeItem, !badge.isActive && styles.inactiveItem]}>
+              <View style={styles.badgeInfo}>
+                <Text style={styles.badgeName}>
+                  {badge.name} · {capitalize(badge.tier)}
+                </Text>
+                {badge.metric && badge.threshold ? (
+                  <Text style={styles.badgeMeta}>{describeBadgeRule(badge.metric, badge.threshold, badge.params)}</Text>
+                ) : null}
+                <Text style={styles.badgeMeta}>{badge.description}</Text>
+              </View>
+              {busyId === badge.id ? (
+                <ActivityIndicator size="small" color={ORANGE} />
+              ) : (
+                <View style={styles.badgeActions}>
+                  {badge.isActive && (
+                    <TouchableOpacity
+                      onPress={() => handleBackfill(badge)}
+                      style={styles.iconButton}
+                      accessibilityLabel={`Award ${badge.name} to users who qualify`}
+                    >
+                      <Ionicons name="people-outline" size={20} color={BLUE} />
+                    </TouchableOpacity>
+                  )}
+                  <Switch
+                    value={!!badge.isActive}
+                    onValueChange={value => handleToggleActive(badge, value)}
+                    accessibilityLabel={`${badge.name} active`}
+                  />
+                </View>
+              )}
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    color: BLUE,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  label: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 10,
+    color: '#333',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: BLUE,
+    borderColor: BLUE,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  preview: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    fontStyle: 'italic',
+    marginBottom: 10,
+  },
+  createButton: {
+    backgroundColor: ORANGE,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  iconButton: {
+    padding: 6,
+    marginRight: 4,
+  },
+  badgeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  inactiveItem: {
+    opacity: 0.5,
+  },
+  badgeInfo: {
+    flex: 1,
+  },
+  badgeName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  badgeMeta: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    marginTop: 2,
+  },
+  badgeActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
+
+export default BadgeDefinitionsScreen;
@@ -7,7 +7,9 @@
 
 import AdminMapScreen from './AdminMapScreen';
 import GenerateReferralCodeScreen from './GenerateReferralCodeScreen';
+import ApiKeysScreen from './ApiKeysScreen';
+import BadgeDefinitionsScreen from './BadgeDefinitionsScreen';
 
 // Re-export with the correct name (automation added the leading underscore by mistake)
-export { AdminMapScreen, GenerateReferralCodeScreen };
-export default { AdminMapScreen, GenerateReferralCodeScreen };
+export { AdminMapScreen, GenerateReferralCodeScreen, ApiKeysScreen, BadgeDefinitionsScreen };
+export default { AdminMapScreen, GenerateReferralCodeScreen, ApiKeysScreen, BadgeDefinitionsScreen };
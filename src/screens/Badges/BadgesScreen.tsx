@@ -1,119 +1,171 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity as _TouchableOpacity, SafeAreaView,  } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../contexts/AuthContext';
+import { getBadgeProgressList } from '../../services/badgeService';
+import { BadgeProgress, BadgeTier } from '../../types';
+import { describeBadgeRule, formatBadgeProgress, pickNextBadge } from '../../utils/badgeRules';
+
+// Badge tiers
+const badgeTiers = [
+  { tier: BadgeTier.BRONZE, name: 'Bronze', color: '#CD7F32' },
+  { tier: BadgeTier.SILVER, name: 'Silver', color: '#C0C0C0' },
+  { tier: BadgeTier.GOLD, name: 'Gold', color: '#FFD700' },
+  { tier: BadgeTier.PLATINUM, name: 'Platinum', color: '#E5E4E2' },
+];
+
+const tierColor = (tier: BadgeTier) =>
+  badgeTiers.find(t => t.tier === tier)?.color ?? '#CD7F32';
+
+const ruleText = ({ badge, required }: BadgeProgress) =>
+  badge.metric ? describeBadgeRule(badge.metric, required, badge.params) : badge.description;
+
+const ProgressBar: React.FC<{ progress: BadgeProgress }> = ({ progress }) => (
+  <View style={styles.progressBarContainer}>
+    <View style={styles.progressBarBackground}>
+      <View style={[styles.progressBar, { width: `${progress.percent}%` }]} />
+    </View>
+    <Text style={styles.progressText}>
+      {progress.earned
+        ? `Earned ${new Date(progress.badge.dateEarned as string).toLocaleDateString()}`
+        : progress.badge.metric
+          ? formatBadgeProgress(progress.badge.metric, progress.current, progress.required)
+          : `${progress.current}/${progress.required}`}
+    </Text>
+  </View>
+);
 
 const BadgesScreen: React.FC = () => {
-  // Badge tiers
-  const badgeTiers = [
-    {
-      tier: 'bronze',
-      name: 'Bronze',
-      color: '#CD7F32',
-      description: 'Earned by attending your first card show',
-      icon: 'trophy-outline',
-    },
-    {
-      tier: 'silver',
-      name: 'Silver',
-      color: '#C0C0C0',
-      description: 'Earned by attending 5 card shows',
-      icon: 'trophy-outline',
-    },
-    {
-      tier: 'gold',
-      name: 'Gold',
-      color: '#FFD700',
-      description: 'Earned by attending 25 card shows',
-      icon: 'trophy-outline',
-    },
-    {
-      tier: 'platinum',
-      name: 'Platinum',
-      color: '#E5E4E2',
-      description: 'Earned by attending 100 card shows',
-      icon: 'trophy-outline',
-    },
-  ];
+  const { authState } = useAuth();
+  const userId = authState.user?.id;
 
-  // Render a badge tier section
-  const renderBadgeTier = (tier: {
-    tier: string;
-    name: string;
-    color: string;
-    description: string;
-    icon: string;
-  }) => (
-    <View key={tier.tier} style={styles.tierContainer}>
-      <View style={styles.tierHeader}>
-        <View style={[styles.tierBadge, { backgroundColor: tier.color }]}>
-          <Text style={styles.tierBadgeText}>{tier.name[0]}</Text>
-        </View>
-        <Text style={styles.tierName}>{tier.name} Badges</Text>
-      </View>
-      
-      <View style={styles.tierDescription}>
-        <Text style={styles.tierDescriptionText}>{tier.description}</Text>
+  const [progress, setProgress] = useState<BadgeProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadProgress = useCallback(async () => {
+    if (!userId) return;
+    setProgress(await getBadgeProgressList(userId));
+  }, [userId]);
+
+  useEffect(() => {
+    loadProgress().finally(() => setLoading(false));
+  }, [loadProgress]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadProgress();
+    setRefreshing(false);
+  };
+
+  const earnedCount = progress.filter(p => p.earned).length;
+  const showsAttended = progress.find(p => p.badge.metric === 'shows_attended')?.current ?? 0;
+  const nextBadge = pickNextBadge(progress);
+
+  // Render one badge with its rule and progress
+  const renderBadge = (item: BadgeProgress) => (
+    <View key={item.badge.id} style={styles.badgeRow}>
+      <View
+        style={[
+          styles.badgeIcon,
+          { backgroundColor: item.earned ? tierColor(item.badge.tier) : '#f0f0f0' },
+        ]}
+      >
+        <Ionicons name="trophy-outline" size={24} color={item.earned ? 'white' : '#ccc'} />
       </View>
-      
-      <View style={styles.badgesRow}>
-        <View style={styles.emptyBadge}>
-          <Ionicons name={tier.icon as any} size={32} color="#ccc" />
-          <Text style={styles.emptyBadgeText}>Not yet earned</Text>
-        </View>
+      <View style={styles.badgeInfo}>
+        <Text style={styles.badgeName}>{item.badge.name}</Text>
+        <Text style={styles.badgeRule}>{ruleText(item)}</Text>
+        <ProgressBar progress={item} />
       </View>
     </View>
   );
 
+  // Render a badge tier section
+  const renderBadgeTier = (tier: typeof badgeTiers[number]) => {
+    const badges = progress.filter(p => p.badge.tier === tier.tier);
+    if (badges.length === 0) return null;
+
+    return (
+      <View key={tier.tier} style={styles.tierContainer}>
+        <View style={styles.tierHeader}>
+          <View style={[styles.tierBadge, { backgroundColor: tier.color }]}>
+            <Text style={styles.tierBadgeText}>{tier.name[0]}</Text>
+          </View>
+          <Text style={styles.tierName}>{tier.name} Badges</Text>
+          <Text style={styles.tierCount}>
+            {badges.filter(b => b.earned).length}/{badges.length}
+          </Text>
+        </View>
+        {badges.map(renderBadge)}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
-      {/* Header */}
-      <View style={styles.header}>
-        <Text style={styles.headerTitle}>My Badges</Text>
-      </View>
-      
       {/* Badge Summary */}
       <View style={styles.summary}>
         <View style={styles.summaryItem}>
-          <Text style={styles.summaryCount}>0</Text>
+          <Text style={styles.summaryCount}>{earnedCount}</Text>
           <Text style={styles.summaryLabel}>Total Badges</Text>
         </View>
         <View style={styles.summaryItem}>
-          <Text style={styles.summaryCount}>0</Text>
+          <Text style={styles.summaryCount}>{showsAttended}</Text>
           <Text style={styles.summaryLabel}>Shows Attended</Text>
         </View>
       </View>
-      
+
       {/* Badge List */}
-      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
-        <Text style={styles.sectionTitle}>Badge Collection</Text>
-        <Text style={styles.sectionDescription}>
-          Earn badges by attending card shows and interacting with the app.
-        </Text>
-        
-        {/* Badge Tiers */}
-        {badgeTiers.map(renderBadgeTier)}
-        
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
         {/* Next Badge */}
-        <View style={styles.nextBadgeContainer}>
-          <Text style={styles.nextBadgeTitle}>Next Badge</Text>
-          <View style={styles.nextBadgeContent}>
-            <View style={[styles.nextBadgeIcon, { backgroundColor: '#CD7F32' }]}>
-              <Ionicons name="trophy-outline" size={24} color="white" />
-            </View>
-            <View style={styles.nextBadgeInfo}>
-              <Text style={styles.nextBadgeName}>First Show</Text>
-              <Text style={styles.nextBadgeDescription}>
-                Attend your first card show to earn this badge!
-              </Text>
-              <View style={styles.progressBarContainer}>
-                <View style={styles.progressBarBackground}>
-                  <View style={[styles.progressBar, { width: '0%' }]} />
-                </View>
-                <Text style={styles.progressText}>0/1 shows attended</Text>
+        {nextBadge && (
+          <View style={styles.nextBadgeContainer}>
+            <Text style={styles.nextBadgeTitle}>Next Badge</Text>
+            <View style={styles.nextBadgeContent}>
+              <View style={[styles.nextBadgeIcon, { backgroundColor: tierColor(nextBadge.badge.tier) }]}>
+                <Ionicons name="trophy-outline" size={24} color="white" />
+              </View>
+              <View style={styles.nextBadgeInfo}>
+                <Text style={styles.nextBadgeName}>{nextBadge.badge.name}</Text>
+                <Text style={styles.nextBadgeDescription}>{ruleText(nextBadge)}</Text>
+                <ProgressBar progress={nextBadge} />
               </View>
             </View>
           </View>
-        </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Badge Collection</Text>
+        <Text style={styles.sectionDescription}>
+          Earn badges by checking in at card shows, visiting dealer booths and writing reviews.
+        </Text>
+
+        {/* Badge Tiers */}
+        {progress.length > 0 ? (
+          badgeTiers.map(renderBadgeTier)
+        ) : (
+          <Text style={styles.emptyText}>No badges available right now.</Text>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -124,16 +176,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f8f8f8',
   },
-  header: {
-    backgroundColor: 'white',
-    padding: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f0f0f0',
-  },
-  headerTitle: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: '#333',
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
   },
   summary: {
     flexDirection: 'row',
@@ -211,42 +256,55 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
   },
   tierName: {
+    flex: 1,
     fontSize: 16,
     fontWeight: '600',
     color: '#333',
   },
-  tierDescription: {
-    marginBottom: 16,
-  },
-  tierDescriptionText: {
+  tierCount: {
     fontSize: 14,
     color: '#666',
   },
-  badgesRow: {
+  badgeRow: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
-  },
-  emptyBadge: {
-    width: 80,
-    height: 80,
-    borderRadius: 40,
-    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  badgeIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: 12,
-    marginBottom: 12,
   },
-  emptyBadgeText: {
-    fontSize: 10,
+  badgeInfo: {
+    flex: 1,
+  },
+  badgeName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  badgeRule: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
     color: '#999',
-    marginTop: 4,
     textAlign: 'center',
+    marginTop: 16,
   },
   nextBadgeContainer: {
     backgroundColor: 'white',
     borderRadius: 12,
     padding: 16,
-    marginTop: 8,
+    marginBottom: 8,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 1 },
     shadowOpacity: 0.1,
@@ -13,7 +13,7 @@ import { useFocusEffect, useNavigation } from '@react-navigation/native';
 
 // Domain / context / services
 import { useAuth } from '../../contexts/AuthContext';
-import { UserRole } from '../../types';
+import { UserRole, WantList } from '../../types';
 import {
   getUserWantList as _getUserWantList,
   createWantList as _createWantList,
@@ -21,6 +21,10 @@ import {
   shareWantList as _shareWantList,
 } from '../../services/collectionService';
 import { getUpcomingShows } from '../../services/showService';
+import {
+  getWantList as getOfflineWantList,
+  saveWantList as saveOfflineWantList,
+} from '../../services/offlineStore';
 import { supabase } from '../../supabase';
 // UI
 import WantListEditor from '../../components/WantListEditor';
@@ -395,19 +399,27 @@ const CollectionScreen: React.FC = () => {
         .maybeSingle();
 
       if (error) {
+        // Offline – show the copy saved on this device, if any
+        const stored = await getOfflineWantList(userId);
+        if (stored) {
+          setWantList(stored);
+          return;
+        }
         console.error('Error loading want list:', error);
         setWantListError(error.message || 'Failed to load your want list');
         return;
       }
 
       if (data) {
-        setWantList({
+        const loaded: WantList = {
           id: data.id,
           userId: data.userid,
           content: data.content || '',
           createdAt: data.createdat,
           updatedAt: data.updatedat,
-        });
+        };
+        setWantList(loaded);
+        saveOfflineWantList(loaded).catch(() => undefined);
       } else {
         setWantList(null);
       }
@@ -0,0 +1,942 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  TextInput,
+  Modal,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '../../contexts/AuthContext';
+import { InventoryItem, InventoryItemInput, Show } from '../../types';
+import { DEALER_CARD_TYPES } from '../../constants/dealerCardTypes';
+import { getDealerShows } from '../../services/dealerService';
+import {
+  addInventoryPhoto,
+  deleteInventoryItem,
+  formatInventoryTitle,
+  getDealerInventory,
+  getInventoryPhotoUrls,
+  getItemIdsForShow,
+  importInventory,
+  removeInventoryPhoto,
+  saveInventoryItem,
+  setItemsBringingToShow,
+} from '../../services/inventoryService';
+import {
+  INVENTORY_CSV_TEMPLATE,
+  InventoryCsvResult,
+  parseInventoryCsv,
+} from '../../utils/inventoryCsv';
+
+// Text form state for the add / edit modal
+interface ItemForm {
+  sku: string;
+  playerName: string;
+  setName: string;
+  year: string;
+  cardNumber: string;
+  grader: string;
+  grade: string;
+  cardTypes: string[];
+  askingPrice: string;
+  quantity: string;
+  notes: string;
+}
+
+const EMPTY_FORM: ItemForm = {
+  sku: '',
+  playerName: '',
+  setName: '',
+  year: '',
+  cardNumber: '',
+  grader: '',
+  grade: '',
+  cardTypes: [],
+  askingPrice: '',
+  quantity: '1',
+  notes: '',
+};
+
+const itemToForm = (item: InventoryItem): ItemForm => ({
+  sku: item.sku ?? '',
+  playerName: item.playerName,
+  setName: item.setName ?? '',
+  year: item.year ? String(item.year) : '',
+  cardNumber: item.cardNumber ?? '',
+  grader: item.grader ?? '',
+  grade: item.grade ?? '',
+  cardTypes: item.cardTypes,
+  askingPrice: item.askingPrice !== null && item.askingPrice !== undefined ? String(item.askingPrice) : '',
+  quantity: String(item.quantity),
+  notes: item.notes ?? '',
+});
+
+const formToInput = (form: ItemForm): { input: InventoryItemInput | null; error: string | null } => {
+  if (!form.playerName.trim()) return { input: null, error: 'Player is required' };
+
+  const year = form.year.trim() ? Number(form.year) : null;
+  if (year !== null && (!Number.isInteger(year) || year < 1850 || year > 2100)) {
+    return { input: null, error: 'Enter a valid year' };
+  }
+
+  const askingPrice = form.askingPrice.trim() ? Number(form.askingPrice.replace(/[$,]/g, '')) : null;
+  if (askingPrice !== null && (Number.isNaN(askingPrice) || askingPrice < 0)) {
+    return { input: null, error: 'Enter a valid price' };
+  }
+
+  const quantity = Number(form.quantity || '0');
+  if (!Number.isInteger(quantity) || quantity < 0) {
+    return { input: null, error: 'Enter a valid quantity' };
+  }
+
+  return {
+    input: {
+      sku: form.sku,
+      playerName: form.playerName,
+      setName: form.setName,
+      year,
+      cardNumber: form.cardNumber,
+      grader: form.grader,
+      grade: form.grade,
+      cardTypes: form.cardTypes,
+      askingPrice,
+      quantity,
+      notes: form.notes,
+    },
+    error: null,
+  };
+};
+
+const DealerInventoryScreen: React.FC = () => {
+  const { authState } = useAuth();
+  const userId = authState.user?.id;
+
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+
+  // "Bringing to show" selection
+  const [upcomingShows, setUpcomingShows] = useState<Show[]>([]);
+  const [selectedShowId, setSelectedShowId] = useState<string | null>(null);
+  const [bringingIds, setBringingIds] = useState<Set<string>>(new Set());
+
+  // Add / edit modal
+  const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [form, setForm] = useState<ItemForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+
+  // CSV import modal
+  const [importVisible, setImportVisible] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [csvPreview, setCsvPreview] = useState<InventoryCsvResult | null>(null);
+  const [linkImportToShow, setLinkImportToShow] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  const loadInventory = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+
+    const [{ data, error }, { data: dealerShows }] = await Promise.all([
+      getDealerInventory(userId),
+      getDealerShows(userId),
+    ]);
+
+    if (error) {
+      Alert.alert('Error', error);
+    }
+    setItems(data);
+
+    const today = new Date().setHours(0, 0, 0, 0);
+    setUpcomingShows(
+      (dealerShows ?? [])
+        .filter(show => show.participation.status !== 'cancelled')
+        .filter(show => new Date(show.endDate || show.startDate).getTime() >= today)
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
+    );
+    setLoading(false);
+  }, [userId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInventory();
+    }, [loadInventory])
+  );
+
+  const selectShow = async (showId: string | null) => {
+    setSelectedShowId(showId);
+    if (!showId || !userId) {
+      setBringingIds(new Set());
+      return;
+    }
+    const { data } = await getItemIdsForShow(userId, showId);
+    setBringingIds(new Set(data));
+  };
+
+  const toggleBringing = async (itemIds: string[], bringing: boolean) => {
+    if (!userId || !selectedShowId) return;
+
+    const previous = bringingIds;
+    const next = new Set(bringingIds);
+    itemIds.forEach(id => (bringing ? next.add(id) : next.delete(id)));
+    setBringingIds(next);
+
+    const { error } = await setItemsBringingToShow(userId, selectedShowId, itemIds, bringing);
+    if (error) {
+      setBringingIds(previous);
+      Alert.alert('Error', error);
+    }
+  };
+
+  const filteredItems = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return items;
+    return items.filter(item =>
+      `${formatInventoryTitle(item)} ${item.sku ?? ''}`.toLowerCase().includes(term)
+    );
+  }, [items, search]);
+
+  /* ------------------------------------------------------------------
+   * Add / edit
+   * ------------------------------------------------------------------ */
+
+  const openEditor = async (item: InventoryItem | null) => {
+    setEditingItem(item);
+    setForm(item ? itemToForm(item) : EMPTY_FORM);
+    setPhotoUrls(item ? await getInventoryPhotoUrls(item.photoPaths) : {});
+  };
+
+  const closeEditor = () => {
+    setEditingItem(null);
+    setForm(null);
+  };
+
+  const replaceItem = (updated: InventoryItem) => {
+    setItems(prev => {
+      const exists = prev.some(i => i.id === updated.id);
+      return exists ? prev.map(i => (i.id === updated.id ? updated : i)) : [...prev, updated];
+    });
+    setEditingItem(updated);
+  };
+
+  const handleSave = async () => {
+    if (!userId || !form) return;
+
+    const { input, error: formError } = formToInput(form);
+    if (!input) {
+      Alert.alert('Check Item', formError ?? 'Invalid item');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await saveInventoryItem(userId, input, editingItem?.id);
+    setSaving(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error ?? 'Failed to save item');
+      return;
+    }
+
+    replaceItem(data);
+    if (editingItem) {
+      closeEditor();
+    } else {
+      // Stay open so photos can be added to the new item
+      Alert.alert('Saved', 'Item added. You can now add photos.');
+    }
+  };
+
+  const handleDelete = (item: InventoryItem) => {
+    Alert.alert('Delete Item', `Delete ${formatInventoryTitle(item)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const { success, error } = await deleteInventoryItem(item);
+          if (!success) {
+            Alert.alert('Error', error ?? 'Failed to delete item');
+            return;
+          }
+          setItems(prev => prev.filter(i => i.id !== item.id));
+          closeEditor();
+        },
+      },
+    ]);
+  };
+
+  const handleAddPhoto = async () => {
+    if (!editingItem) return;
+
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Photo library access is needed to add photos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      quality: 0.7,
+      base64: true,
+    });
+
+    const asset = result.canceled ? null : result.assets?.[0];
+    if (!asset?.base64) return;
+
+    setSaving(true);
+    const { data, error } = await addInventoryPhoto(editingItem, `data:image/jpeg;base64,${asset.base64}`);
+    setSaving(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error ?? 'Failed to add photo');
+      return;
+    }
+    replaceItem(data);
+    setPhotoUrls(await getInventoryPhotoUrls(data.photoPaths));
+  };
+
+  const handleRemovePhoto = async (path: string) => {
+    if (!editingItem) return;
+    const { data, error } = await removeInventoryPhoto(editingItem, path);
+    if (error || !data) {
+      Alert.alert('Error', error ?? 'Failed to remove photo');
+      return;
+    }
+    replaceItem(data);
+  };
+
+  /* ------------------------------------------------------------------
+   * CSV import
+   * ------------------------------------------------------------------ */
+
+  const handlePreviewCsv = () => {
+    setCsvPreview(parseInventoryCsv(csvText));
+  };
+
+  const handleImport = async () => {
+    if (!csvPreview || csvPreview.items.length === 0) return;
+
+    setImporting(true);
+    const showId = linkImportToShow ? selectedShowId : null;
+    const { data, error } = await importInventory(csvPreview.items, showId);
+    setImporting(false);
+
+    const summary = `${data.inserted} added, ${data.updated} updated${
+      showId ? `, ${data.linked} marked for the selected show` : ''
+    }.`;
+
+    if (error) {
+      Alert.alert('Import Incomplete', `${summary}\n\n${error}`);
+    } else {
+      Alert.alert('Import Complete', summary);
+      setImportVisible(false);
+      setCsvText('');
+      setCsvPreview(null);
+    }
+
+    await loadInventory();
+    if (selectedShowId) await selectShow(selectedShowId);
+  };
+
+  /* ------------------------------------------------------------------
+   * Render
+   * ------------------------------------------------------------------ */
+
+  const renderItem = ({ item }: { item: InventoryItem }) => {
+    const bringing = bringingIds.has(item.id);
+    return (
+      <TouchableOpacity style={styles.itemRow} onPress={() => openEditor(item)}>
+        {selectedShowId && (
+          <TouchableOpacity
+            style={styles.checkbox}
+            onPress={() => toggleBringing([item.id], !bringing)}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons
+              name={bringing ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={bringing ? '#FF6A00' : '#999'}
+            />
+          </TouchableOpacity>
+        )}
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemTitle}>{formatInventoryTitle(item)}</Text>
+          <Text style={styles.itemMeta}>
+            {item.askingPrice !== null && item.askingPrice !== undefined ? `$${item.askingPrice}` : 'No price'}
+            {` · Qty ${item.quantity}`}
+            {item.sku ? ` · ${item.sku}` : ''}
+            {item.photoPaths.length > 0 ? ` · ${item.photoPaths.length} photo(s)` : ''}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color="#ccc" />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderField = (
+    label: string,
+    key: keyof Omit<ItemForm, 'cardTypes'>,
+    options: { placeholder?: string; numeric?: boolean; multiline?: boolean } = {}
+  ) =>
+    form && (
+      <View style={styles.field}>
+        <Text style={styles.fieldLabel}>{label}</Text>
+        <TextInput
+          style={[styles.input, options.multiline && styles.multilineInput]}
+          value={form[key]}
+          placeholder={options.placeholder}
+          keyboardType={options.numeric ? 'decimal-pad' : 'default'}
+          multiline={options.multiline}
+          onChangeText={value => setForm(prev => (prev ? { ...prev, [key]: value } : prev))}
+        />
+      </View>
+    );
+
+  if (!userId) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyText}>Please sign in to manage inventory.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      {/* Toolbar */}
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={styles.primaryButton} onPress={() => openEditor(null)}>
+          <Ionicons name="add" size={18} color="white" />
+          <Text style={styles.primaryButtonText}>Add Item</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setImportVisible(true)}>
+          <Ionicons name="document-text-outline" size={18} color="#FF6A00" />
+          <Text style={styles.secondaryButtonText}>Import CSV</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Show selector */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.showSelector}>
+        <TouchableOpacity
+          style={[styles.showChip, !selectedShowId && styles.showChipSelected]}
+          onPress={() => selectShow(null)}
+        >
+          <Text style={[styles.showChipText, !selectedShowId && styles.showChipTextSelected]}>All Inventory</Text>
+        </TouchableOpacity>
+        {upcomingShows.map(show => (
+          <TouchableOpacity
+            key={show.id}
+            style={[styles.showChip, selectedShowId === show.id && styles.showChipSelected]}
+            onPress={() => selectShow(show.id)}
+          >
+            <Text
+              style={[styles.showChipText, selectedShowId === show.id && styles.showChipTextSelected]}
+              numberOfLines={1}
+            >
+              {show.title} · {new Date(show.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {selectedShowId && (
+        <View style={styles.bringingBar}>
+          <Text style={styles.bringingText}>
+            Bringing {bringingIds.size} of {items.length} item(s) to this show
+          </Text>
+          <TouchableOpacity
+            onPress={() =>
+              toggleBringing(
+                filteredItems.map(i => i.id),
+                filteredItems.some(i => !bringingIds.has(i.id))
+              )
+            }
+          >
+            <Text style={styles.linkText}>
+              {filteredItems.some(i => !bringingIds.has(i.id)) ? 'Select all' : 'Clear all'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.searchRow}>
+        <Ionicons name="search" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search your inventory"
+          value={search}
+          onChangeText={setSearch}
+        />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#FF6A00" />
+      ) : (
+        <FlatList
+          data={filteredItems}
+          keyExtractor={item => item.id}
+          renderItem={renderItem}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {items.length === 0
+                ? 'No inventory yet. Add items one at a time or import a CSV.'
+                : 'No items match your search.'}
+            </Text>
+          }
+        />
+      )}
+
+      {/* Add / edit modal */}
+      <Modal visible={!!form} animationType="slide" onRequestClose={closeEditor}>
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={closeEditor}>
+              <Text style={styles.linkText}>Close</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>{editingItem ? 'Edit Item' : 'Add Item'}</Text>
+            <TouchableOpacity onPress={handleSave} disabled={saving}>
+              {saving ? <ActivityIndicator color="#FF6A00" /> : <Text style={styles.linkText}>Save</Text>}
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalContent} keyboardShouldPersistTaps="handled">
+            {renderField('Player *', 'playerName', { placeholder: 'Mickey Mantle' })}
+            {renderField('Set', 'setName', { placeholder: 'Topps' })}
+            <View style={styles.fieldRow}>
+              <View style={styles.fieldHalf}>{renderField('Year', 'year', { numeric: true })}</View>
+              <View style={styles.fieldHalf}>{renderField('Card #', 'cardNumber')}</View>
+            </View>
+            <View style={styles.fieldRow}>
+              <View style={styles.fieldHalf}>{renderField('Grader', 'grader', { placeholder: 'PSA, BGS… (blank = raw)' })}</View>
+              <View style={styles.fieldHalf}>{renderField('Grade', 'grade')}</View>
+            </View>
+            <View style={styles.fieldRow}>
+              <View style={styles.fieldHalf}>{renderField('Asking Price ($)', 'askingPrice', { numeric: true })}</View>
+              <View style={styles.fieldHalf}>{renderField('Quantity', 'quantity', { numeric: true })}</View>
+            </View>
+            {renderField('SKU', 'sku', { placeholder: 'Optional – matches rows on re-import' })}
+            {renderField('Notes', 'notes', { multiline: true })}
+
+            <Text style={styles.fieldLabel}>Card Types</Text>
+            <View style={styles.chipWrap}>
+              {DEALER_CARD_TYPES.map(type => {
+                const selected = form?.cardTypes.includes(type) ?? false;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.showChip, selected && styles.showChipSelected]}
+                    onPress={() =>
+                      setForm(prev =>
+                        prev
+                          ? {
+                              ...prev,
+                              cardTypes: selected
+                                ? prev.cardTypes.filter(t => t !== type)
+                                : [...prev.cardTypes, type],
+                            }
+                          : prev
+                      )
+                    }
+                  >
+                    <Text style={[styles.showChipText, selected && styles.showChipTextSelected]}>{type}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {editingItem && (
+              <>
+                <Text style={styles.fieldLabel}>Photos</Text>
+                <View style={styles.photoRow}>
+                  {editingItem.photoPaths.map(path => (
+                    <TouchableOpacity key={path} onLongPress={() => handleRemovePhoto(path)}>
+                      {photoUrls[path] ? (
+                        <Image source={{ uri: photoUrls[path] }} style={styles.photo} />
+                      ) : (
+                        <View style={[styles.photo, styles.photoPlaceholder]} />
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity style={[styles.photo, styles.photoPlaceholder]} onPress={handleAddPhoto}>
+                    <Ionicons name="camera-outline" size={24} color="#999" />
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.hintText}>Long-press a photo to remove it.</Text>
+
+                <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(editingItem)}>
+                  <Ionicons name="trash-outline" size={18} color="#D32F2F" />
+                  <Text style={styles.deleteButtonText}>Delete Item</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* CSV import modal */}
+      <Modal visible={importVisible} animationType="slide" onRequestClose={() => setImportVisible(false)}>
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setImportVisible(false)}>
+              <Text style={styles.linkText}>Close</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Import Inventory</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalContent} keyboardShouldPersistTaps="handled">
+            <Text style={styles.hintText}>
+              Paste a CSV export or copy rows straight from a spreadsheet. The first row must be a header
+              with at least a "player" column. Rows with a SKU you already have update that item.
+            </Text>
+            <TouchableOpacity onPress={() => setCsvText(INVENTORY_CSV_TEMPLATE)}>
+              <Text style={styles.linkText}>Insert example</Text>
+            </TouchableOpacity>
+
+            <TextInput
+              style={[styles.input, styles.csvInput]}
+              value={csvText}
+              onChangeText={text => {
+                setCsvText(text);
+                setCsvPreview(null);
+              }}
+              multiline
+              autoCorrect={false}
+              autoCapitalize="none"
+              placeholder="sku,player,set,year,card_number,grader,grade,card_types,price,quantity,notes"
+            />
+
+            {selectedShowId && (
+              <TouchableOpacity style={styles.optionRow} onPress={() => setLinkImportToShow(prev => !prev)}>
+                <Ionicons
+                  name={linkImportToShow ? 'checkbox' : 'square-outline'}
+                  size={20}
+                  color={linkImportToShow ? '#FF6A00' : '#999'}
+                />
+                <Text style={styles.optionText}>Mark imported items as bringing to the selected show</Text>
+              </TouchableOpacity>
+            )}
+
+            {csvPreview && (
+              <View style={styles.previewBox}>
+                <Text style={styles.previewText}>
+                  {csvPreview.items.length} row(s) ready to import
+                  {csvPreview.errors.length > 0 ? `, ${csvPreview.errors.length} skipped` : ''}
+                </Text>
+                {csvPreview.errors.slice(0, 10).map(err => (
+                  <Text key={`${err.line}-${err.message}`} style={styles.errorText}>
+                    Line {err.line}: {err.message}
+                  </Text>
+                ))}
+                {csvPreview.errors.length > 10 && (
+                  <Text style={styles.errorText}>…and {csvPreview.errors.length - 10} more</Text>
+                )}
+              </View>
+            )}
+
+            {csvPreview && csvPreview.items.length > 0 ? (
+              <TouchableOpacity style={styles.primaryButton} onPress={handleImport} disabled={importing}>
+                {importing ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Import {csvPreview.items.length} Item(s)</Text>
+                )}
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.primaryButton, !csvText.trim() && styles.buttonDisabled]}
+                onPress={handlePreviewCsv}
+                disabled={!csvText.trim()}
+              >
+                <Text style={styles.primaryButtonText}>Check File</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    padding: 12,
+    gap: 10,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FF6A00',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#FF6A00',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#FF6A00',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  showSelector: {
+    flexGrow: 0,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  showChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 8,
+    marginBottom: 8,
+    maxWidth: 240,
+  },
+  showChipSelected: {
+    backgroundColor: '#FF6A00',
+    borderColor: '#FF6A00',
+  },
+  showChipText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  showChipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  bringingBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  bringingText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  linkText: {
+    color: '#FF6A00',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    marginHorizontal: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    paddingHorizontal: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    fontSize: 15,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  checkbox: {
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#777',
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#777',
+    marginTop: 40,
+    paddingHorizontal: 24,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  modalContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  field: {
+    marginBottom: 12,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  fieldHalf: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#555',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#333',
+  },
+  multilineInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  csvInput: {
+    minHeight: 200,
+    marginTop: 10,
+    fontFamily: 'Courier',
+    fontSize: 13,
+    textAlignVertical: 'top',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  photo: {
+    width: 72,
+    height: 96,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  photoPlaceholder: {
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#777',
+    marginBottom: 8,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+    padding: 12,
+  },
+  deleteButtonText: {
+    color: '#D32F2F',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  optionText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  previewBox: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f8f8f8',
+  },
+  previewText: {
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#D32F2F',
+  },
+});
+
+export default DealerInventoryScreen;
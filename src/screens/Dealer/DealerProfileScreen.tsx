@@ -4,6 +4,7 @@ import { supabase } from '../../supabase';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
 import { UserRole } from '../../types'; // Import UserRole from types
+import FollowButton from '../../components/FollowButton';
 
 /* ------------------------------------------------------------------
  * Local type helpers
@@ -168,6 +169,14 @@ const DealerProfileScreen: React.FC<{
               : dealer.role /* Fallback */
             }
           </Text>
+          {/* Organizers are followed for their updates, everyone else as a dealer */}
+          <View style={styles.followRow}>
+            <FollowButton
+              targetType={dealer.role === UserRole.SHOW_ORGANIZER ? 'organizer' : 'dealer'}
+              targetId={dealerId}
+              showCount
+            />
+          </View>
         </View>
       </View>
       
@@ -360,6 +369,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginTop: 4,
   },
+  followRow: {
+    marginTop: 8,
+  },
   actionContainer: {
     backgroundColor: 'white',
     padding: 16,
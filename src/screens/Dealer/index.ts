@@ -1,10 +1,12 @@
 import ShowParticipationScreen from './ShowParticipationScreen';
 import DealerProfileScreen from './DealerProfileScreen';
+import DealerInventoryScreen from './DealerInventoryScreen';
 
-export { ShowParticipationScreen, DealerProfileScreen };
+export { ShowParticipationScreen, DealerProfileScreen, DealerInventoryScreen };
 
 // Export default for direct import
 export default {
   ShowParticipationScreen,
   DealerProfileScreen,
+  DealerInventoryScreen,
 };
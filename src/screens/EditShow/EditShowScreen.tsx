@@ -16,6 +16,7 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useAuth } from '../../contexts/AuthContext';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { getShowById, updateShow } from '../../services/showService';
+import { showSeriesService } from '../../services/showSeriesService';
 
 /**
  * Lightweight geocoding helper (OpenStreetMap Nominatim).
@@ -88,6 +89,13 @@ const EditShowScreen: React.FC = () => {
   const [originalAddress, setOriginalAddress] = useState('');
   const [originalCoordinates, setOriginalCoordinates] = useState<{latitude: number, longitude: number} | null>(null);
 
+  // Set when this show was generated by a recurring series
+  const [seriesOccurrence, setSeriesOccurrence] = useState<{
+    seriesId: string;
+    startDate: string;
+    endDate: string;
+  } | null>(null);
+
   // UI state
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -204,6 +212,14 @@ const EditShowScreen: React.FC = () => {
         setEndHour(endTimeInfo.hour);
         setEndMinute(endTimeInfo.minute);
         setEndPeriod(endTimeInfo.period);
+
+        if (show.seriesId && show.seriesOccurrenceDate) {
+          setSeriesOccurrence({
+            seriesId: show.seriesId,
+            startDate: getFullDateForPostgres(startDt, startTimeInfo.hour, startTimeInfo.minute, startTimeInfo.period),
+            endDate: getFullDateForPostgres(endDt, endTimeInfo.hour, endTimeInfo.minute, endTimeInfo.period),
+          });
+        }
         
         // Update date text displays using the same local Date objects
         setStartDateText(formatDateTime(
@@ -529,19 +545,81 @@ const EditShowScreen: React.FC = () => {
         updates.longitude = coords.longitude;
       }
 
-      // Call update service
-      const { data: _data, error } = await updateShow({
-        id: showId,
-        updates,
-      });
+      /* -----------------------------------------------------------
+       * Recurring series: this show only, or every upcoming show?
+       * Dates/times always stay per-show – the series schedule owns them.
+       * --------------------------------------------------------- */
+      let scope: 'single' | 'future' = 'single';
+      if (seriesOccurrence) {
+        const chosen = await new Promise<'single' | 'future' | null>((resolve) => {
+          Alert.alert(
+            'Recurring Show',
+            'This show is part of a recurring series. Apply your changes to this show only, or to all upcoming shows in the series?\n\nDate and time changes only apply to this show.',
+            [
+              { text: 'Cancel', onPress: () => resolve(null), style: 'cancel' },
+              { text: 'This Show Only', onPress: () => resolve('single') },
+              { text: 'All Future Shows', onPress: () => resolve('future') }
+            ]
+          );
+        });
+
+        if (!chosen) {
+          setIsSubmitting(false);
+          return;
+        }
+        scope = chosen;
+      }
 
-      if (error) {
-        throw new Error(error);
+      if (seriesOccurrence && scope === 'future') {
+        const { success, error: seriesError } = await showSeriesService.updateFutureOccurrences(
+          seriesOccurrence.seriesId,
+          {
+            title: updates.title,
+            description: updates.description ?? undefined,
+            location: updates.location,
+            address: updates.address,
+            entryFee: updates.entryFee,
+            features: updates.features,
+            categories: updates.categories,
+            latitude: updates.latitude,
+            longitude: updates.longitude,
+          }
+        );
+
+        if (!success) {
+          throw new Error(seriesError || 'Failed to update the series');
+        }
+      }
+
+      const scheduleChanged =
+        !!seriesOccurrence &&
+        (fullStartDate !== seriesOccurrence.startDate || fullEndDate !== seriesOccurrence.endDate);
+
+      if (!seriesOccurrence || scope === 'single' || scheduleChanged) {
+        // Call update service
+        const { data: _data, error } = await updateShow({
+          id: showId,
+          updates,
+        });
+
+        if (error) {
+          throw new Error(error);
+        }
+
+        // Keep the series from overwriting this show's own edits
+        if (seriesOccurrence) {
+          const { success, error: detachError } = await showSeriesService.detachOccurrence(showId);
+          if (!success) {
+            console.warn('[EditShowScreen] Failed to detach series occurrence:', detachError);
+          }
+        }
       }
 
       Alert.alert(
         'Success',
-        'Your show has been updated successfully',
+        scope === 'future'
+          ? 'All upcoming shows in this series have been updated'
+          : 'Your show has been updated successfully',
         [{ text: 'OK', onPress: () => navigation.goBack() }]
       );
     } catch (error) {
@@ -0,0 +1,214 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../contexts/AuthContext';
+import { useActivityFeed } from '../../hooks';
+import { getMyFollows } from '../../services/followService';
+import { ActivityFeedItem, FollowedTarget } from '../../types';
+import { describeActivity, summarizeFollows } from '../../utils/activityFeed';
+import { formatRelativeTime } from '../../utils/dateUtils';
+
+interface ActivityFeedScreenProps {
+  onShowPress: (showId: string) => void;
+}
+
+/**
+ * ActivityFeedScreen
+ *
+ * "Following" tab on the home screen: what the organizers, show series and
+ * dealers the user follows have been up to, newest first.
+ */
+const ActivityFeedScreen: React.FC<ActivityFeedScreenProps> = ({ onShowPress }) => {
+  const { authState } = useAuth();
+  const userId = authState.user?.id;
+
+  const [follows, setFollows] = useState<FollowedTarget[]>([]);
+  const {
+    items,
+    hasNextPage,
+    fetchNextPage,
+    refresh,
+    isLoading,
+    isFetchingNextPage,
+    isRefreshing,
+    error,
+  } = useActivityFeed({ userId });
+
+  const loadFollows = useCallback(async () => {
+    if (!userId) return;
+    const { data } = await getMyFollows();
+    setFollows(data);
+  }, [userId]);
+
+  useEffect(() => {
+    loadFollows();
+  }, [loadFollows]);
+
+  // Follows change on other screens (dealer profile, show detail)
+  useFocusEffect(
+    useCallback(() => {
+      loadFollows();
+    }, [loadFollows])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    await Promise.all([refresh(), loadFollows()]);
+  }, [refresh, loadFollows]);
+
+  const renderItem = ({ item }: { item: ActivityFeedItem }) => {
+    const { icon, headline, detail } = describeActivity(item);
+    const showId = item.showId;
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        disabled={!showId}
+        onPress={() => showId && onShowPress(showId)}
+      >
+        <View style={styles.iconCircle}>
+          <Ionicons name={icon as any} size={20} color="#007AFF" />
+        </View>
+        <View style={styles.cardBody}>
+          <Text style={styles.headline}>{headline}</Text>
+          {detail ? <Text style={styles.detail}>{detail}</Text> : null}
+          <Text style={styles.time}>{formatRelativeTime(item.createdAt)}</Text>
+        </View>
+        {showId && <Ionicons name="chevron-forward" size={18} color="#ccc" />}
+      </TouchableOpacity>
+    );
+  };
+
+  if (!userId) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="people-outline" size={56} color="#ccc" />
+        <Text style={styles.emptyText}>Sign in to follow organizers, series and dealers.</Text>
+      </View>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={items.length === 0 ? styles.emptyContent : styles.listContent}
+      data={items}
+      keyExtractor={item => item.id}
+      renderItem={renderItem}
+      onEndReached={() => {
+        if (hasNextPage) fetchNextPage();
+      }}
+      onEndReachedThreshold={0.5}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      ListHeaderComponent={
+        follows.length > 0 ? <Text style={styles.summary}>{summarizeFollows(follows)}</Text> : null
+      }
+      ListFooterComponent={
+        isFetchingNextPage ? <ActivityIndicator style={styles.footer} color="#007AFF" /> : null
+      }
+      ListEmptyComponent={
+        <View style={styles.centered}>
+          <Ionicons name={error ? 'alert-circle-outline' : 'people-outline'} size={56} color="#ccc" />
+          <Text style={styles.emptyText}>
+            {error
+              ? error
+              : follows.length === 0
+              ? 'Follow dealers, organizers and show series to see their news here.'
+              : 'Nothing new from the people and shows you follow yet.'}
+          </Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+  },
+  listContent: {
+    padding: 16,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+  },
+  summary: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  iconCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#E8F1FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  cardBody: {
+    flex: 1,
+  },
+  headline: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#555',
+  },
+  time: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#999',
+  },
+  footer: {
+    marginVertical: 16,
+  },
+});
+
+export default ActivityFeedScreen;
@@ -11,8 +11,11 @@ import { useAuth } from '../../contexts/AuthContext';
 import FilterSheet from '../../components/FilterSheet';
 import FilterChips from '../../components/FilterChips';
 import FilterPresetModal from '../../components/FilterPresetModal';
-import { ShowFilters, Coordinates } from '../../types';
-import { useUnifiedInfiniteShows } from '../../hooks';
+import UnifiedSearchBar from '../../components/UnifiedSearchBar';
+import SearchResultsList from '../../components/SearchResultsList';
+import DealerDetailModal from '../../components/DealerDetailModal';
+import { ShowFilters, Coordinates, SearchResult } from '../../types';
+import { useUnifiedInfiniteShows, useUnifiedSearch } from '../../hooks';
 import { supabase } from '../../supabase';
 import { debounce } from 'lodash';
 
@@ -153,6 +156,17 @@ const HomeScreen = ({
   const [filterSheetVisible, setFilterSheetVisible] = useState(false);
   const [presetModalVisible, setPresetModalVisible] = useState(false);
 
+  // Unified search – typed text vs. submitted query
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedDealer, setSelectedDealer] = useState<SearchResult | null>(null);
+  const {
+    suggestions: searchSuggestions,
+    groups: searchGroups,
+    isSearching,
+    error: searchError,
+  } = useUnifiedSearch({ input: searchInput, query: searchQuery });
+
   /**
    * ------------------------------------------------------------------
    * Build a user-scoped storage key so each user gets their own
@@ -460,6 +474,34 @@ console.warn('App has come to the foreground - refreshing data');
     }
   };
 
+  const submitSearch = (query: string) => {
+    setSearchInput(query);
+    setSearchQuery(query.trim());
+  };
+
+  const clearSearch = () => {
+    setSearchInput('');
+    setSearchQuery('');
+  };
+
+  // Shows and series open a show; venues and cities narrow the list below;
+  // dealers open their booth at their next show
+  const handleSearchResultPress = (result: SearchResult) => {
+    if (result.type === 'venue' || result.type === 'city') {
+      const next = { ...filters, keyword: result.title };
+      if (onFilterChange) {
+        onFilterChange(next);
+      } else {
+        setLocalFilters(next);
+      }
+      clearSearch();
+    } else if (result.type === 'dealer') {
+      setSelectedDealer(result);
+    } else if (result.showId) {
+      handleShowPress(result.showId);
+    }
+  };
+
   // Open filter sheet
   const handleFilterPress = () => {
     setFilterSheetVisible(true);
@@ -705,6 +747,13 @@ console.warn('App has come to the foreground - refreshing data');
       <View style={styles.container}>
         {/* Filter Options */}
         <View style={styles.filterContainer}>
+          <UnifiedSearchBar
+            value={searchInput}
+            onChangeText={setSearchInput}
+            onSubmit={submitSearch}
+            onClear={clearSearch}
+            suggestions={searchSuggestions}
+          />
           <View style={styles.filterOptions}>
             <TouchableOpacity
               style={[styles.filterButton, { backgroundColor: SECONDARY_COLOR }]}
@@ -764,7 +813,19 @@ console.warn('App has come to the foreground - refreshing data');
           </View>
         )}
 
-        {/* Upcoming Shows Section */}
+        {/* Search results replace the show list while a search is active */}
+        {searchQuery ? (
+          <View style={styles.showsContainer}>
+            <SearchResultsList
+              query={searchQuery}
+              groups={searchGroups}
+              isSearching={isSearching}
+              error={searchError}
+              onResultPress={handleSearchResultPress}
+            />
+          </View>
+        ) : (
+        /* Upcoming Shows Section */
         <View style={styles.showsContainer}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Upcoming Shows</Text>
@@ -809,6 +870,7 @@ console.warn('App has come to the foreground - refreshing data');
             />
           )}
         </View>
+        )}
       </View>
 
       {/* Filter Sheet */}
@@ -834,6 +896,16 @@ console.warn('App has come to the foreground - refreshing data');
         }}
         userId={authState.user?.id || ''}
       />
+
+      {selectedDealer?.dealerId && selectedDealer.showId && (
+        <DealerDetailModal
+          isVisible
+          onClose={() => setSelectedDealer(null)}
+          dealerId={selectedDealer.dealerId}
+          showId={selectedDealer.showId}
+          dealerName={selectedDealer.title}
+        />
+      )}
     </>
   );
 };
@@ -1,12 +1,15 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { createMaterialTopTabNavigator } from '@react-navigation/material-top-tabs';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import HomeScreen from './HomeScreen';
 import MapScreen from '../Map/MapScreen';
+import ActivityFeedScreen from './ActivityFeedScreen';
 import { ShowFilters, Coordinates } from '../../types';
 import { getCurrentLocation } from '../../services/locationService';
 import { useAuth } from '../../contexts/AuthContext';
+import { useOfflineSync } from '../../hooks';
 import {
   DEFAULT_FILTERS,
   loadTemporaryFilters,
@@ -27,7 +30,8 @@ const Tab = createMaterialTopTabNavigator();
 /**
  * HomeTabsScreen
  * 
- * Container component that provides a tabbed interface between list and map views.
+ * Container component that provides a tabbed interface between list and map views,
+ * plus the activity feed of followed organizers, series and dealers.
  * Manages shared state (filters, location) between the views and handles persistence.
  */
 const HomeTabsScreen: React.FC<Props> = ({ navigation }) => {
@@ -41,7 +45,7 @@ const HomeTabsScreen: React.FC<Props> = ({ navigation }) => {
   // `activeTab` is currently unused but kept for potential future
   // analytics or state-driven styling; prefix with underscore to
   // satisfy eslint-unused-vars rule.
-  const [_activeTab, setActiveTab] = useState<'list' | 'map'>('list');
+  const [_activeTab, setActiveTab] = useState<'list' | 'map' | 'following'>('list');
 
   /**
    * ------------------------------------------------------------------
@@ -93,6 +97,9 @@ const HomeTabsScreen: React.FC<Props> = ({ navigation }) => {
     fetchLocation();
   }, []);
 
+  // Keep shows, favorites and want list available offline
+  const { isOnline, pendingWrites } = useOfflineSync(userId, userLocation);
+
   // Handle filter changes
   const handleFilterChange = useCallback((newFilters: ShowFilters) => {
     setFilters(newFilters);
@@ -105,11 +112,20 @@ const HomeTabsScreen: React.FC<Props> = ({ navigation }) => {
 
   // Handle tab change
   const handleTabChange = (index: number) => {
-    setActiveTab(index === 0 ? 'list' : 'map');
+    setActiveTab(index === 0 ? 'list' : index === 1 ? 'map' : 'following');
   };
 
   return (
     <View style={styles.container}>
+      {!isOnline && (
+        <View style={styles.offlineBanner}>
+          <Ionicons name="cloud-offline-outline" size={16} color="white" />
+          <Text style={styles.offlineText}>
+            Offline – showing saved shows
+            {pendingWrites > 0 ? ` · ${pendingWrites} change${pendingWrites === 1 ? '' : 's'} waiting to sync` : ''}
+          </Text>
+        </View>
+      )}
       <Tab.Navigator
         screenOptions={{
           tabBarActiveTintColor: '#007AFF',
@@ -140,6 +156,9 @@ const HomeTabsScreen: React.FC<Props> = ({ navigation }) => {
             <MapScreen {...props} initialUserLocation={userLocation} />
           )}
         </Tab.Screen>
+        <Tab.Screen name="Following">
+          {() => <ActivityFeedScreen onShowPress={handleShowPress} />}
+        </Tab.Screen>
       </Tab.Navigator>
     </View>
   );
@@ -150,6 +169,19 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f8f8f8',
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#666',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  offlineText: {
+    color: 'white',
+    fontSize: 13,
+    marginLeft: 6,
+  },
   tabBar: {
     backgroundColor: 'white',
     elevation: 2,
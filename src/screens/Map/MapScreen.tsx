@@ -14,17 +14,18 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
+import { useQueryClient } from '@tanstack/react-query';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import _MapView, { Marker, Callout, PROVIDER_GOOGLE as _PROVIDER_GOOGLE, Region } from 'react-native-maps';
 import { useAuth } from '../../contexts/AuthContext';
-import { Show, ShowStatus as _ShowStatus, ShowFilters, Coordinates } from '../../types';
+import { ShowStatus as _ShowStatus, ShowFilters, Coordinates } from '../../types';
 import FilterSheet from '../../components/FilterSheet';
 import { supabase } from '../../supabase';
 import { debounce } from 'lodash';
 import MapShowCluster, { MapShowClusterHandle } from '../../components/MapShowCluster/index';
 import * as locationService from '../../services/locationService';
-import { getPaginatedShows } from '../../services/showService';
+import { useMapViewport } from '../../hooks';
 // Import toast utilities for location notifications
 import { showErrorToast, showGpsLocationToast, showLocationFailedToast } from '../../utils/toastUtils';
 
@@ -49,15 +50,11 @@ const MapScreen: React.FC<MapScreenProps> = ({
   onShowPress,
   initialUserLocation
 }) => {
-  const [shows, setShows] = useState<Show[]>([]);
   const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
   const [filterVisible, setFilterVisible] = useState(false);
-  const [userLocation, setUserLocation] = useState<Coordinates | null>(initialUserLocation || null);
+  const [_userLocation, setUserLocation] = useState<Coordinates | null>(initialUserLocation || null);
   const [initialRegion, setInitialRegion] = useState<Region | null>(null);
   const [currentRegion, setCurrentRegion] = useState<Region | null>(null);
-  // Indicates that we've completed at least one fetch cycle
-  const [dataLoaded, setDataLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Default filters
@@ -78,7 +75,6 @@ const MapScreen: React.FC<MapScreenProps> = ({
   // Fix: Create proper ref for MapShowCluster with correct type
   const mapRef = useRef<MapShowClusterHandle>(null);
   const _scrollViewRef = useRef<ScrollView>(null);
-  const retryRef = useRef(0);
 
   // Get auth context
   const { authState } = useAuth();
@@ -298,71 +294,27 @@ const MapScreen: React.FC<MapScreenProps> = ({
 
     setupInitialRegion();
   }, [getUserLocation, user, initialUserLocation]);
-  // Fetch shows based on location or ZIP code
-  const fetchShows = useCallback(async (isRefreshing = false) => {
-    if (!userLocation) return;
-    try {
-      if (!isRefreshing) {
-        setLoading(true);
-      }
-      setError(null);
-      // Reset dataLoaded flag for new fetch cycle
-      setDataLoaded(false);
-
-      const today = new Date();
-      const thirtyDaysOut = new Date();
-      thirtyDaysOut.setDate(today.getDate() + 30);
-
-      const currentFilters: ShowFilters = {
-          ...filters,
-          radius: 25,
-          startDate: today.toISOString(),
-          endDate: thirtyDaysOut.toISOString(),
-          latitude: userLocation.latitude,
-          longitude: userLocation.longitude,
-      };
-
-       
-console.warn('[MapScreen] Filters being used:', currentFilters);
-
-      /* ------------------------------------------------------------------
-       * Use production-ready solution that bypasses broken nearby_shows RPC
-       * ------------------------------------------------------------------ */
-      const result = await getPaginatedShows({
-        ...currentFilters,
-        latitude: userLocation.latitude,
-        longitude: userLocation.longitude,
-        pageSize: 100, // large page to get everything for the map
-        page: 1,
-      });
-
-      const showsData = result.data || [];
-      setShows(showsData);
-      console.warn(
-        `[MapScreen] Successfully fetched ${showsData.length} shows (using production solution)`
-      );
-
-      if (showsData.length === 0 && retryRef.current < 1) {
-        retryRef.current += 1;
-        console.warn('[MapScreen] No shows returned – retrying in 2 seconds (attempt 1).');
-        setTimeout(() => fetchShows(), 2000);
-      } else {
-        retryRef.current = 0; // Reset on successful fetch
-      }
-
-    } catch (error: any) {
-      console.error('[MapScreen] Error fetching shows:', error);
-      setShows([]);
-      setError(error?.message || 'Failed to load card shows. Please try again.');
-    } finally {
-      // Mark fetch completed before clearing loading flag
-      setDataLoaded(true);
-      setLoading(false);
-      if (isRefreshing) {
-        setRefreshing(false);
-      }
-    }
-  }, [filters, userLocation, getUserLocation, user]);
+  /* ------------------------------------------------------------------
+   * Shows for the visible area – pins when zoomed in, server-side
+   * clusters when zoomed out. Re-queried as the user pans; see
+   * useMapViewport for de-duplication and cancellation.
+   * ----------------------------------------------------------------*/
+  const queryClient = useQueryClient();
+  const {
+    shows,
+    clusters,
+    totalCount,
+    truncated,
+    fromOfflineStore,
+    refresh,
+    isLoading: viewportLoading,
+    isFetching,
+    error: viewportError,
+  } = useMapViewport({ region: currentRegion, filters });
+
+  const invalidateViewport = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['shows', 'viewport'] });
+  }, [queryClient]);
 
   /* ------------------------------------------------------------------
    * Realtime – refresh map when the `shows` table changes.
@@ -370,7 +322,7 @@ console.warn('[MapScreen] Filters being used:', currentFilters);
    * ----------------------------------------------------------------*/
   useEffect(() => {
     const debounced = debounce(() => {
-      fetchShows();
+      invalidateViewport();
     }, 2000);
 
     const channel = supabase
@@ -386,22 +338,21 @@ console.warn('[MapScreen] Filters being used:', currentFilters);
       debounced.cancel();
       channel.unsubscribe();
     };
-  }, [fetchShows]);
+  }, [invalidateViewport]);
 
-  // Load shows when screen is focused or when the initial region is set
+  // Refresh the visible area when the screen regains focus
   useFocusEffect(
     useCallback(() => {
       if (initialRegion) {
-        fetchShows();
+        invalidateViewport();
       }
-    }, [fetchShows, initialRegion])
+    }, [invalidateViewport, initialRegion])
   );
 
   // Handle pull-to-refresh
   const _onRefresh = useCallback(() => {
-    setRefreshing(true);
-    fetchShows(true);
-  }, [fetchShows]);
+    refresh();
+  }, [refresh]);
 
   // Handle filter changes
   const handleFilterChange = (newFilters: ShowFilters) => {
@@ -431,7 +382,7 @@ console.warn('[MapScreen] Filters being used:', currentFilters);
     }
   };
 
-  // Handle region change from the map - this only updates the map's visible area, not trigger data fetch
+  // Handle region change from the map – the viewport query follows currentRegion
   const handleRegionChangeComplete = (region: Region) => {
     setCurrentRegion(region);
   };
@@ -614,13 +565,13 @@ console.warn('[MapScreen] Filters being used:', currentFilters);
 
   // Render empty state when no shows are found
   const _renderEmptyState = () => {
-    if (loading || !dataLoaded || shows.length > 0) return null;
+    if (loading || viewportLoading || isFetching || totalCount > 0) return null;
     return (
       <View style={styles.emptyStateContainer}>
         <Ionicons name="map-outline" size={50} color="#007AFF" />
         <Text style={styles.emptyStateTitle}>No Shows Found</Text>
         <Text style={styles.emptyStateDescription}>
-          Try adjusting your filters or expanding your search radius
+          Try adjusting your filters or zooming out
         </Text>
         <TouchableOpacity style={styles.resetButton} onPress={resetFilters}>
           <Text style={styles.resetButtonText}>Reset Filters</Text>
@@ -633,7 +584,13 @@ console.warn('[MapScreen] Filters being used:', currentFilters);
     <SafeAreaView style={styles.container} edges={['left', 'right']}>
         <View style={styles.filterInfoContainer}>
             <Text style={styles.filterInfoText}>
-                Showing shows within 25 miles
+                {isFetching
+                  ? 'Finding shows in this area...'
+                  : fromOfflineStore
+                  ? `${totalCount} saved show${totalCount === 1 ? '' : 's'} in this area (offline)`
+                  : truncated
+                  ? `Showing ${shows.length} of ${totalCount} shows – zoom in to see all`
+                  : `${totalCount} show${totalCount === 1 ? '' : 's'} in this area`}
             </Text>
             <TouchableOpacity style={styles.filterButton} onPress={() => setFilterVisible(true)}>
                 <Ionicons name="filter" size={18} color="#007AFF" />
@@ -641,19 +598,19 @@ console.warn('[MapScreen] Filters being used:', currentFilters);
             </TouchableOpacity>
         </View>
 
-        {loading && !refreshing ? (
+        {loading ? (
             <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color="#007AFF" />
                 <Text style={styles.loadingText}>Finding nearby shows...</Text>
             </View>
-        ) : dataLoaded && error && !shows.length ? (
+        ) : (viewportError || error) && !viewportLoading && totalCount === 0 ? (
             <View style={styles.errorContainer}>
-                 <Text style={styles.errorText}>{error}</Text>
-                 <TouchableOpacity style={styles.retryButton} onPress={() => fetchShows()}>
+                 <Text style={styles.errorText}>{viewportError || error}</Text>
+                 <TouchableOpacity style={styles.retryButton} onPress={() => refresh()}>
                      <Text style={styles.retryButtonText}>Retry</Text>
                  </TouchableOpacity>
             </View>
-        ) : dataLoaded ? (
+        ) : currentRegion ? (
             <MapShowCluster
                 ref={mapRef}
                 // Fix: Add null check for currentRegion
@@ -664,6 +621,7 @@ console.warn('[MapScreen] Filters being used:', currentFilters);
                   longitudeDelta: 0.5
                 }}
                 shows={shows}
+                clusters={clusters}
                 onCalloutPress={handleShowPress}
                 onRegionChangeComplete={handleRegionChangeComplete}
             />
@@ -13,11 +13,23 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 // Alias CommonActions to avoid unused-var lint warnings until we use it
 import { CommonActions as _CommonActions } from '@react-navigation/native';
-import { Show, Review } from '../../types';
+import {
+  Show,
+  Review,
+  ReviewAspectRatings,
+  ReviewReportReason,
+  ReviewReportTarget,
+} from '../../types';
 import ReviewForm from '../../components/ReviewForm';
 import ReviewsList from '../../components/ReviewsList';
+import ReportReviewModal from '../../components/ReportReviewModal';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../supabase';
+import { subscribeToCalendarFeed } from '../../services/calendarService';
+import { reportReview } from '../../services/reviewService';
+import { setTripDraft } from '../../services/tripService';
+import { MAX_TRIP_SHOWS } from '../../utils/tripPlanner';
+import { aspectRatingsFromRow, aspectRatingsToColumns } from '../../utils/reviewStats';
 
 /**
  * MyShowsScreen – Shows user's upcoming and past shows from:
@@ -34,12 +46,17 @@ const MyShowsScreen: React.FC = () => {
   const [reviews, setReviews] = useState<Review[]>([]);
   const [selectedShow, setSelectedShow] = useState<Show | null>(null);
   const [reviewFormVisible, setReviewFormVisible] = useState(false);
+  const [reporting, setReporting] = useState<{ review: Review; target: ReviewReportTarget } | null>(null);
+  const [reportSubmitting, setReportSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   // Track which shows have dealer booth info
   const [showsWithBoothInfo, setShowsWithBoothInfo] = useState<Record<string, string[]>>({});
 
+  // Show ids picked for a trip; null when not picking
+  const [tripSelection, setTripSelection] = useState<string[] | null>(null);
+
   useEffect(() => {
     if (!authState.isAuthenticated || !authState.user) return;
     
@@ -211,6 +228,12 @@ const MyShowsScreen: React.FC = () => {
             rating: review.rating,
             comment: review.comment,
             date: review.created_at,
+            organizerResponse: review.organizer_response ?? undefined,
+            moderationStatus: review.moderation_status,
+            verifiedAttendee: review.verified_attendee,
+            helpfulCount: review.helpful_count,
+            notHelpfulCount: review.not_helpful_count,
+            aspectRatings: aspectRatingsFromRow(review),
           })));
         }
         
@@ -242,7 +265,11 @@ const MyShowsScreen: React.FC = () => {
     setReviewFormVisible(true);
   };
 
-  const submitReview = async (rating: number, comment: string) => {
+  const submitReview = async (
+    rating: number,
+    comment: string,
+    aspectRatings: ReviewAspectRatings = {}
+  ) => {
     if (!selectedShow || !authState.user) return;
     
     try {
@@ -254,6 +281,7 @@ const MyShowsScreen: React.FC = () => {
           user_id: authState.user.id,
           rating,
           comment,
+          ...aspectRatingsToColumns(aspectRatings),
         })
         .select()
         .single();
@@ -272,18 +300,51 @@ const MyShowsScreen: React.FC = () => {
           rating: data.rating,
           comment: data.comment,
           date: data.created_at,
+          moderationStatus: data.moderation_status,
+          verifiedAttendee: data.verified_attendee,
+          aspectRatings: aspectRatingsFromRow(data),
         };
         
         setReviews((prev) => [...prev, newReview]);
         setReviewFormVisible(false);
         setSelectedShow(null);
         
-        Alert.alert('Success', 'Your review has been submitted!');
+        // Screening can hold a review for an admin before it goes public
+        Alert.alert(
+          'Success',
+          data.moderation_status === 'pending'
+            ? 'Your review has been submitted and will appear once it has been checked.'
+            : 'Your review has been submitted!'
+        );
       }
     } catch (err: any) {
       console.error('Error submitting review:', err);
-      Alert.alert('Error', 'Failed to submit your review. Please try again.');
+      // 42501: the author is banned from posting reviews
+      Alert.alert(
+        'Error',
+        err?.code === '42501' ? err.message : 'Failed to submit your review. Please try again.'
+      );
+    }
+  };
+
+  const submitReport = async (reason: ReviewReportReason, details: string) => {
+    if (!reporting || !authState.user) return;
+
+    setReportSubmitting(true);
+    const { success, error: reportError } = await reportReview(
+      reporting.review.id,
+      authState.user.id,
+      { target: reporting.target, reason, details }
+    );
+    setReportSubmitting(false);
+
+    if (!success) {
+      Alert.alert('Report', reportError || 'Unable to send your report. Please try again.');
+      return;
     }
+
+    setReporting(null);
+    Alert.alert('Thanks', 'Our team will take a look.');
   };
   
   const navigateToShowDetail = (show: Show) => {
@@ -310,14 +371,45 @@ const MyShowsScreen: React.FC = () => {
     return utcDate.toLocaleDateString();
   };
 
+  const toggleTripShow = (showId: string) => {
+    setTripSelection(prev => {
+      if (!prev) return prev;
+      if (prev.includes(showId)) return prev.filter(id => id !== showId);
+      if (prev.length >= MAX_TRIP_SHOWS) {
+        Alert.alert('Trip Planner', `A trip can include up to ${MAX_TRIP_SHOWS} shows.`);
+        return prev;
+      }
+      return [...prev, showId];
+    });
+  };
+
+  const startTripSelection = () => {
+    setCurrentTab('upcoming');
+    setTripSelection([]);
+  };
+
+  const planSelectedTrip = async () => {
+    if (!tripSelection || !authState.user) return;
+    await setTripDraft(authState.user.id, tripSelection);
+    setTripSelection(null);
+    (navigation as any).navigate('TripPlanner');
+  };
+
   // FlatList item renderer for upcoming shows
   const renderUpcomingItem = ({ item }: { item: Show }) => (
     <TouchableOpacity 
       style={styles.card}
-      onPress={() => navigateToShowDetail(item)}
+      onPress={() => (tripSelection ? toggleTripShow(item.id) : navigateToShowDetail(item))}
     >
       <View style={styles.cardHeader}>
         <Text style={styles.cardTitle}>{item.title}</Text>
+        {tripSelection ? (
+          <Ionicons
+            name={tripSelection.includes(item.id) ? 'checkmark-circle' : 'ellipse-outline'}
+            size={24}
+            color="#007AFF"
+          />
+        ) : (
         <View style={styles.cardActions}>
           {showsWithBoothInfo[item.id] && (
             <TouchableOpacity 
@@ -332,6 +424,7 @@ const MyShowsScreen: React.FC = () => {
             <Ionicons name="remove-circle-outline" size={22} color="#FF3B30" />
           </TouchableOpacity>
         </View>
+        )}
       </View>
       <Text style={styles.cardSubtitle}>
         {formatDate(item.startDate)} • {item.location}
@@ -376,18 +469,41 @@ const MyShowsScreen: React.FC = () => {
           <ReviewsList
             reviews={reviews.filter((r) => r.showId === item.id)}
             emptyMessage="No reviews yet."
+            currentUserId={authState.user?.id}
+            onReport={(review, target) => setReporting({ review, target })}
           />
         )}
       </View>
     );
   };
 
+  // Subscribe the device calendar to the user's private favorites/planned feed
+  const handleSubscribeCalendar = async () => {
+    const { success, error: feedError } = await subscribeToCalendarFeed();
+    if (!success) {
+      Alert.alert('Calendar', feedError || 'Unable to open your calendar feed.');
+    }
+  };
+
   /* -----------------------------  UI  ------------------------------- */
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>My Shows</Text>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity style={styles.calendarButton} onPress={startTripSelection}>
+            <Ionicons name="car-outline" size={20} color="#007AFF" />
+            <Text style={styles.calendarButtonText}>Plan Trip</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.calendarButton, styles.headerButtonSpacing]}
+            onPress={handleSubscribeCalendar}
+          >
+            <Ionicons name="calendar-outline" size={20} color="#007AFF" />
+            <Text style={styles.calendarButtonText}>Subscribe</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Segmented Control */}
@@ -407,7 +523,10 @@ const MyShowsScreen: React.FC = () => {
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.segmentButton, currentTab === 'past' && styles.segmentSelected]}
-          onPress={() => setCurrentTab('past')}
+          onPress={() => {
+            setTripSelection(null);
+            setCurrentTab('past');
+          }}
         >
           <Text
             style={[
@@ -453,6 +572,21 @@ const MyShowsScreen: React.FC = () => {
         />
       )}
 
+      {tripSelection && (
+        <View style={styles.tripBar}>
+          <TouchableOpacity onPress={() => setTripSelection(null)}>
+            <Text style={styles.tripBarCancel}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tripBarButton, tripSelection.length === 0 && styles.tripBarButtonDisabled]}
+            disabled={tripSelection.length === 0}
+            onPress={planSelectedTrip}
+          >
+            <Text style={styles.tripBarButtonText}>Plan trip ({tripSelection.length})</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {reviewFormVisible && selectedShow && (
         <ReviewForm
           _showId={selectedShow.id}
@@ -464,6 +598,14 @@ const MyShowsScreen: React.FC = () => {
           }}
         />
       )}
+
+      <ReportReviewModal
+        visible={!!reporting}
+        target={reporting?.target ?? 'review'}
+        submitting={reportSubmitting}
+        onSubmit={submitReport}
+        onCancel={() => setReporting(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -487,6 +629,50 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButtonSpacing: {
+    marginLeft: 16,
+  },
+  calendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  calendarButtonText: {
+    marginLeft: 4,
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  tripBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  tripBarCancel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  tripBarButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  tripBarButtonDisabled: {
+    opacity: 0.5,
+  },
+  tripBarButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   segmentedControl: {
     flexDirection: 'row',
     backgroundColor: 'white',
@@ -7,6 +7,7 @@ import {
   ActivityIndicator,
   Alert,
   RefreshControl,
+  ScrollView,
   SectionList,
   SectionListData
 } from 'react-native';
@@ -19,6 +20,8 @@ import { showSeriesService } from '../../services/showSeriesService';
 import { supabase } from '../../supabase';
 import OrganizerShowsList, { OrganizerShowsListRef } from '../../components/OrganizerShowsList';
 import UnclaimedShowsList from '../../components/UnclaimedShowsList';
+import OrganizerAnalytics from '../../components/OrganizerAnalytics';
+import OrganizerUpdateComposer from '../../components/OrganizerUpdateComposer';
 
 // Define interface for UnclaimedShowsList ref
 interface UnclaimedShowsListRef {
@@ -26,7 +29,7 @@ interface UnclaimedShowsListRef {
 }
 
 // Define the tab names
-type TabName = 'shows' | 'claim' | 'recurring' | 'reviews' | 'broadcast';
+type TabName = 'shows' | 'analytics' | 'claim' | 'recurring' | 'reviews' | 'broadcast';
 
 // Dashboard metrics interface
 interface DashboardMetrics {
@@ -273,8 +276,13 @@ const OrganizerDashboardScreen: React.FC = () => {
   // Render tabs navigation
   const renderTabsNavigation = () => {
     return (
-      <View style={styles.tabsContainer}>
-        {(['shows', 'claim', 'recurring', 'reviews', 'broadcast'] as TabName[]).map(tab => (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.tabsScroll}
+        contentContainerStyle={styles.tabsContainer}
+      >
+        {(['shows', 'analytics', 'claim', 'recurring', 'reviews', 'broadcast'] as TabName[]).map(tab => (
           <TouchableOpacity
             key={tab}
             style={[styles.tab, activeTab === tab && styles.activeTab]}
@@ -282,6 +290,7 @@ const OrganizerDashboardScreen: React.FC = () => {
           >
             <Text style={[styles.tabText, activeTab === tab && styles.activeTabText]}>
               {tab === 'shows' && 'My Shows'}
+              {tab === 'analytics' && 'Analytics'}
               {tab === 'claim' && 'Unclaimed'}
               {tab === 'recurring' && 'Recurring'}
               {tab === 'reviews' && 'Reviews'}
@@ -289,7 +298,7 @@ const OrganizerDashboardScreen: React.FC = () => {
             </Text>
           </TouchableOpacity>
         ))}
-      </View>
+      </ScrollView>
     );
   };
   
@@ -306,6 +315,9 @@ const OrganizerDashboardScreen: React.FC = () => {
           />
         );
         
+      case 'analytics':
+        return <OrganizerAnalytics organizerId={user?.id || ''} />;
+
       case 'claim':
         return (
           <UnclaimedShowsList
@@ -367,6 +379,8 @@ const OrganizerDashboardScreen: React.FC = () => {
       case 'broadcast':
         return (
           <View style={styles.tabContent}>
+            <OrganizerUpdateComposer organizerId={user?.id || ''} />
+
             <Text style={styles.sectionTitle}>Broadcast Messages</Text>
             <Text style={styles.sectionDescription}>
               Send pre-show and post-show messages to attendees of your events.
@@ -631,13 +645,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#0057B8',
   },
+  tabsScroll: {
+    flexGrow: 0,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEEEEE',
+  },
   tabsContainer: {
     flexDirection: 'row',
     paddingHorizontal: 16,
     paddingVertical: 12,
-    backgroundColor: '#FFFFFF',
-    borderBottomWidth: 1,
-    borderBottomColor: '#EEEEEE',
   },
   tab: {
     paddingHorizontal: 16,
@@ -14,7 +14,9 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
 import { showSeriesService } from '../../services/showSeriesService';
-import { Review, ShowSeries } from '../../types';
+import { reportReview } from '../../services/reviewService';
+import ReportReviewModal from '../../components/ReportReviewModal';
+import { Review, ReviewReportReason, ShowSeries } from '../../types';
 
 // Interface for grouped reviews
 interface ReviewsBySeriesItem {
@@ -52,6 +54,8 @@ const OrganizerReviewsScreen: React.FC = () => {
   const [mySeries, setMySeries] = useState<ShowSeries[]>([]);
   const [responses, setResponses] = useState<Record<string, string>>({});
   const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [reportingReview, setReportingReview] = useState<Review | null>(null);
+  const [reportSubmitting, setReportSubmitting] = useState<boolean>(false);
   const [submitting, setSubmitting] = useState<Record<string, boolean>>({});
   
   // Filter states
@@ -201,6 +205,27 @@ const OrganizerReviewsScreen: React.FC = () => {
     }
   };
   
+  // Report an abusive or fake review to the admin moderation queue
+  const handleSubmitReport = async (reason: ReviewReportReason, details: string) => {
+    if (!reportingReview || !user?.id) return;
+
+    setReportSubmitting(true);
+    const { success, error: reportError } = await reportReview(reportingReview.id, user.id, {
+      target: 'review',
+      reason,
+      details,
+    });
+    setReportSubmitting(false);
+
+    if (!success) {
+      Alert.alert('Error', reportError || 'Failed to send report. Please try again.');
+      return;
+    }
+
+    setReportingReview(null);
+    Alert.alert('Thanks', 'Our team will take a look at this review.');
+  };
+  
   // Reset filters
   const resetFilters = () => {
     setSelectedSeriesId(null);
@@ -232,6 +257,13 @@ const OrganizerReviewsScreen: React.FC = () => {
             <Text style={styles.reviewDate}>{formatReviewDate(review.date)}</Text>
           </View>
           <StarRating rating={review.rating} />
+          <TouchableOpacity
+            style={styles.reportButton}
+            onPress={() => setReportingReview(review)}
+            accessibilityLabel="Report review"
+          >
+            <Ionicons name="flag-outline" size={16} color="#999999" />
+          </TouchableOpacity>
         </View>
         
         <Text style={styles.reviewComment}>{review.comment}</Text>
@@ -530,6 +562,14 @@ const OrganizerReviewsScreen: React.FC = () => {
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
       />
+
+      <ReportReviewModal
+        visible={!!reportingReview}
+        target="review"
+        submitting={reportSubmitting}
+        onSubmit={handleSubmitReport}
+        onCancel={() => setReportingReview(null)}
+      />
     </View>
   );
 };
@@ -767,6 +807,10 @@ const styles = StyleSheet.create({
   starContainer: {
     flexDirection: 'row',
   },
+  reportButton: {
+    marginLeft: 8,
+    padding: 2,
+  },
   starIcon: {
     marginLeft: 2,
   },
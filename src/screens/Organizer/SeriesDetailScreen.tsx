@@ -0,0 +1,668 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { showSeriesService } from '../../services/showSeriesService';
+import {
+  RecurrenceRule,
+  describeRecurrence,
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+} from '../../utils/recurrence';
+import { formatDate } from '../../utils/formatters';
+import { SeriesRecurrence, SeriesShowTemplate, Show, ShowSeries, ShowStatus } from '../../types';
+
+interface SeriesDetailScreenProps {
+  route: { params: { seriesId: string } };
+}
+
+type Frequency = 'WEEKLY' | 'MONTHLY';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const REPEAT_OPTIONS: { label: string; frequency: Frequency; interval: number }[] = [
+  { label: 'Weekly', frequency: 'WEEKLY', interval: 1 },
+  { label: 'Every other week', frequency: 'WEEKLY', interval: 2 },
+  { label: 'Monthly', frequency: 'MONTHLY', interval: 1 },
+];
+const ORDINAL_OPTIONS = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+const DEFAULT_HORIZON_DAYS = 120;
+const PREVIEW_COUNT = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const todayKey = (): string => new Date().toISOString().slice(0, 10);
+
+const isTime = (value: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+/**
+ * Template for a series' first schedule, copied from its latest show
+ */
+const templateFromShow = (series: ShowSeries, show?: Show): SeriesShowTemplate => ({
+  title: show?.title ?? series.name,
+  description: show?.description ?? series.description,
+  location: show?.location,
+  address: show?.address,
+  entryFee: show?.entryFee !== undefined ? Number(show.entryFee) : undefined,
+  features: show?.features,
+  categories: show?.categories,
+  imageUrl: show?.imageUrl,
+  latitude: show?.coordinates?.latitude,
+  longitude: show?.coordinates?.longitude,
+});
+
+const Chip: React.FC<{ label: string; selected: boolean; onPress: () => void }> = ({
+  label,
+  selected,
+  onPress,
+}) => (
+  <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+/**
+ * Organizer view of one show series: its recurring schedule, which can be
+ * defined or changed here, and its upcoming shows, any of which can be
+ * cancelled on its own without touching the schedule.
+ */
+const SeriesDetailScreen: React.FC<SeriesDetailScreenProps> = ({ route }) => {
+  const { seriesId } = route.params;
+
+  const [series, setSeries] = useState<ShowSeries | null>(null);
+  const [recurrence, setRecurrence] = useState<SeriesRecurrence | null>(null);
+  const [shows, setShows] = useState<Show[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  // Schedule form
+  const [frequency, setFrequency] = useState<Frequency>('MONTHLY');
+  const [weekInterval, setWeekInterval] = useState(1);
+  const [ordinal, setOrdinal] = useState(2);
+  const [weekdays, setWeekdays] = useState<number[]>([0]);
+  const [skippedMonths, setSkippedMonths] = useState<number[]>([]);
+  const [dtstart, setDtstart] = useState(todayKey());
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('15:00');
+  const [durationDays, setDurationDays] = useState(1);
+
+  const resetForm = useCallback((current: SeriesRecurrence | null) => {
+    if (!current) return;
+    setDtstart(current.dtstart);
+    setStartTime(current.startTime);
+    setEndTime(current.endTime);
+    setDurationDays(current.durationDays);
+
+    let rule: RecurrenceRule;
+    try {
+      rule = parseRRule(current.rrule);
+    } catch {
+      return;
+    }
+    // The form only builds weekly and monthly weekday rules
+    if ((rule.freq !== 'WEEKLY' && rule.freq !== 'MONTHLY') || rule.byDay.length === 0) return;
+    setFrequency(rule.freq);
+    setWeekInterval(rule.freq === 'WEEKLY' ? rule.interval : 1);
+    setOrdinal(rule.byDay.find(d => d.ordinal !== undefined)?.ordinal ?? 1);
+    setWeekdays(Array.from(new Set(rule.byDay.map(d => d.weekday))));
+    setSkippedMonths(
+      rule.byMonth.length > 0
+        ? MONTH_LABELS.map((_, i) => i + 1).filter(m => !rule.byMonth.includes(m))
+        : []
+    );
+  }, []);
+
+  const loadSeries = useCallback(async () => {
+    try {
+      setError(null);
+      const [seriesData, recurrenceData, showsData] = await Promise.all([
+        showSeriesService.getShowSeriesById(seriesId),
+        showSeriesService.getSeriesRecurrence(seriesId),
+        showSeriesService.getShowsInSeries(seriesId),
+      ]);
+      setSeries(seriesData);
+      setRecurrence(recurrenceData);
+      setShows(showsData);
+      resetForm(recurrenceData);
+    } catch (err) {
+      console.error('Error loading series details:', err);
+      setError('Unable to load this series.');
+    } finally {
+      setLoading(false);
+    }
+  }, [seriesId, resetForm]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const rule: RecurrenceRule = useMemo(
+    () => ({
+      freq: frequency,
+      interval: frequency === 'WEEKLY' ? weekInterval : 1,
+      byDay: [...weekdays]
+        .sort((a, b) => a - b)
+        .map(weekday => ({ weekday, ordinal: frequency === 'MONTHLY' ? ordinal : undefined })),
+      byMonthDay: [],
+      byMonth:
+        skippedMonths.length > 0
+          ? MONTH_LABELS.map((_, i) => i + 1).filter(m => !skippedMonths.includes(m))
+          : [],
+    }),
+    [frequency, weekInterval, ordinal, weekdays, skippedMonths]
+  );
+
+  // Next few dates of the rule being edited, or null while it is incomplete
+  const previewDates = useMemo(() => {
+    if (weekdays.length === 0 || skippedMonths.length === MONTH_LABELS.length) return null;
+    try {
+      const from = todayKey() > dtstart ? todayKey() : dtstart;
+      const to = new Date(new Date(from).getTime() + 366 * DAY_MS).toISOString().slice(0, 10);
+      return expandRecurrence(rule, dtstart, { from, to }).slice(0, PREVIEW_COUNT);
+    } catch {
+      return null;
+    }
+  }, [rule, dtstart, weekdays, skippedMonths]);
+
+  const savedSummary = useMemo(() => {
+    if (!recurrence) return null;
+    try {
+      return describeRecurrence(parseRRule(recurrence.rrule));
+    } catch {
+      return recurrence.rrule;
+    }
+  }, [recurrence]);
+
+  const upcomingShows = useMemo(() => {
+    const today = todayKey();
+    return shows.filter(show => String(show.endDate || show.startDate).slice(0, 10) >= today);
+  }, [shows]);
+
+  const toggle = (values: number[], value: number): number[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const handleSave = async () => {
+    if (!series) return;
+    if (weekdays.length === 0) {
+      Alert.alert('Schedule', 'Pick at least one day of the week.');
+      return;
+    }
+    if (!previewDates) {
+      Alert.alert('Schedule', 'Enter the first show date as YYYY-MM-DD.');
+      return;
+    }
+    if (!isTime(startTime) || !isTime(endTime)) {
+      Alert.alert('Schedule', 'Enter show hours as HH:MM, e.g. 09:00 and 15:00.');
+      return;
+    }
+
+    setSaving(true);
+    const result = await showSeriesService.saveSeriesRecurrence({
+      seriesId,
+      rrule: formatRRule(rule),
+      dtstart,
+      startTime,
+      endTime,
+      timezone: recurrence?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+      durationDays,
+      horizonDays: recurrence?.horizonDays ?? DEFAULT_HORIZON_DAYS,
+      exdates: recurrence?.exdates ?? [],
+      template: recurrence?.template ?? templateFromShow(series, shows[shows.length - 1]),
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      Alert.alert('Schedule not saved', result.error ?? 'Please try again.');
+      return;
+    }
+
+    const { created = 0, updated = 0, cancelled = 0 } = result.result ?? {};
+    Alert.alert(
+      'Schedule saved',
+      `${created} show(s) added, ${updated} updated and ${cancelled} cancelled.`
+    );
+    setEditing(false);
+    loadSeries();
+  };
+
+  const handleCancelOccurrence = (show: Show) => {
+    Alert.alert(
+      'Cancel this show?',
+      `${show.title} on ${formatDate(show.startDate)} will be cancelled. The rest of the series is not affected, and attendees who favorited it are notified.`,
+      [
+        { text: 'Keep Show', style: 'cancel' },
+        {
+          text: 'Cancel Show',
+          style: 'destructive',
+          onPress: async () => {
+            setCancellingId(show.id);
+            const result = await showSeriesService.cancelOccurrence(show.id);
+            setCancellingId(null);
+            if (!result.success) {
+              Alert.alert('Show not cancelled', result.error ?? 'Please try again.');
+              return;
+            }
+            setShows(prev =>
+              prev.map(s => (s.id === show.id ? { ...s, status: ShowStatus.CANCELLED } : s))
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0057B8" />
+      </View>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="alert-circle-outline" size={40} color="#FF6A00" />
+        <Text style={styles.errorText}>{error ?? 'Series not found.'}</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={loadSeries}>
+          <Text style={styles.primaryButtonText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>{series.name}</Text>
+
+      {/* Schedule */}
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Schedule</Text>
+          {!editing && (
+            <TouchableOpacity onPress={() => setEditing(true)}>
+              <Text style={styles.link}>{recurrence ? 'Edit' : 'Set Up'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {!editing &&
+          (recurrence ? (
+            <>
+              <Text style={styles.summary}>{savedSummary}</Text>
+              <Text style={styles.muted}>
+                {recurrence.startTime}–{recurrence.endTime}
+                {recurrence.durationDays > 1 ? `, ${recurrence.durationDays} days` : ''}
+                {recurrence.active ? '' : ' (paused)'}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.muted}>
+              Set a repeating schedule and upcoming shows are added for you.
+            </Text>
+          ))}
+
+        {editing && (
+          <>
+            <Text style={styles.label}>Repeats</Text>
+            <View style={styles.chipRow}>
+              {REPEAT_OPTIONS.map(option => (
+                <Chip
+                  key={option.label}
+                  label={option.label}
+                  selected={
+                    frequency === option.frequency &&
+                    (option.frequency === 'MONTHLY' || weekInterval === option.interval)
+                  }
+                  onPress={() => {
+                    setFrequency(option.frequency);
+                    setWeekInterval(option.interval);
+                  }}
+                />
+              ))}
+            </View>
+
+            {frequency === 'MONTHLY' && (
+              <>
+                <Text style={styles.label}>Week of the month</Text>
+                <View style={styles.chipRow}>
+                  {ORDINAL_OPTIONS.map(option => (
+                    <Chip
+                      key={option.value}
+                      label={option.label}
+                      selected={ordinal === option.value}
+                      onPress={() => setOrdinal(option.value)}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.label}>Day</Text>
+            <View style={styles.chipRow}>
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <Chip
+                  key={label}
+                  label={label}
+                  selected={weekdays.includes(weekday)}
+                  onPress={() => setWeekdays(prev => toggle(prev, weekday))}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.label}>Skip months</Text>
+            <View style={styles.chipRow}>
+              {MONTH_LABELS.map((label, i) => (
+                <Chip
+                  key={label}
+                  label={label}
+                  selected={skippedMonths.includes(i + 1)}
+                  onPress={() => setSkippedMonths(prev => toggle(prev, i + 1))}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.label}>First show (YYYY-MM-DD)</Text>
+            <TextInput
+              style={styles.input}
+              value={dtstart}
+              onChangeText={setDtstart}
+              placeholder="2026-01-11"
+              autoCapitalize="none"
+            />
+
+            <View style={styles.row}>
+              <View style={styles.rowItem}>
+                <Text style={styles.label}>Opens</Text>
+                <TextInput
+                  style={styles.input}
+                  value={startTime}
+                  onChangeText={setStartTime}
+                  placeholder="09:00"
+                />
+              </View>
+              <View style={styles.rowItem}>
+                <Text style={styles.label}>Closes</Text>
+                <TextInput
+                  style={styles.input}
+                  value={endTime}
+                  onChangeText={setEndTime}
+                  placeholder="15:00"
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>Days per show</Text>
+            <View style={styles.chipRow}>
+              {[1, 2, 3].map(days => (
+                <Chip
+                  key={days}
+                  label={days === 1 ? '1 day' : `${days} days`}
+                  selected={durationDays === days}
+                  onPress={() => setDurationDays(days)}
+                />
+              ))}
+            </View>
+
+            <View style={styles.preview}>
+              <Text style={styles.summary}>
+                {weekdays.length > 0 ? describeRecurrence(rule) : 'Pick a day of the week'}
+              </Text>
+              {previewDates && previewDates.length > 0 && (
+                <Text style={styles.muted}>
+                  Next: {previewDates.map(date => formatDate(`${date}T12:00:00`)).join(', ')}
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.row}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => {
+                  resetForm(recurrence);
+                  setEditing(false);
+                }}
+                disabled={saving}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.primaryButton} onPress={handleSave} disabled={saving}>
+                {saving ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Save Schedule</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </View>
+
+      {/* Upcoming shows */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Upcoming Shows</Text>
+        {upcomingShows.length === 0 ? (
+          <Text style={styles.muted}>No upcoming shows in this series.</Text>
+        ) : (
+          upcomingShows.map(show => {
+            const cancelled = show.status === ShowStatus.CANCELLED;
+            return (
+              <View key={show.id} style={styles.showRow}>
+                <View style={styles.showInfo}>
+                  <Text style={[styles.showDate, cancelled && styles.cancelledText]}>
+                    {formatDate(show.startDate)}
+                  </Text>
+                  <Text style={styles.muted} numberOfLines={1}>
+                    {show.location}
+                  </Text>
+                </View>
+                {cancelled ? (
+                  <Text style={styles.cancelledLabel}>Cancelled</Text>
+                ) : cancellingId === show.id ? (
+                  <ActivityIndicator size="small" color="#FF6A00" />
+                ) : (
+                  <TouchableOpacity onPress={() => handleCancelOccurrence(show)}>
+                    <Text style={styles.cancelLink}>Cancel</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 16,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0057B8',
+  },
+  summary: {
+    fontSize: 15,
+    color: '#333333',
+    marginBottom: 4,
+  },
+  muted: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333333',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#DDDDDD',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#0057B8',
+    borderColor: '#0057B8',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#DDDDDD',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#333333',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rowItem: {
+    flex: 1,
+    marginRight: 8,
+  },
+  preview: {
+    backgroundColor: '#F0F6FF',
+    borderRadius: 8,
+    padding: 12,
+    marginVertical: 16,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#0057B8',
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0057B8',
+    marginTop: 12,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    color: '#0057B8',
+    fontWeight: '600',
+  },
+  retryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#0057B8',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#333333',
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  showRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#EEEEEE',
+  },
+  showInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  showDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  cancelledText: {
+    color: '#999999',
+    textDecorationLine: 'line-through',
+  },
+  cancelledLabel: {
+    fontSize: 13,
+    color: '#999999',
+  },
+  cancelLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF6A00',
+  },
+});
+
+export default SeriesDetailScreen;
@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+import { getShowCheckInCode, getShowCheckInCount } from '../../services/checkInService';
+import { buildCheckInUrl } from '../../utils/checkIn';
+import { ShowCheckInCode } from '../../types';
+
+interface ShowCheckInQrScreenProps {
+  route: { params: { showId: string; showTitle?: string } };
+}
+
+// Refresh the check-in count this often while the code is displayed
+const COUNT_REFRESH_MS = 30 * 1000;
+
+/**
+ * Full-screen rotating check-in QR code for the show entrance. The code
+ * changes every minute so a photo of it can't be shared around; attendees
+ * scan it with their phone camera, which opens the app and checks them in.
+ */
+const ShowCheckInQrScreen: React.FC<ShowCheckInQrScreenProps> = ({ route }) => {
+  const { showId, showTitle } = route.params;
+
+  const [checkInCode, setCheckInCode] = useState<ShowCheckInCode | null>(null);
+  const [checkInCount, setCheckInCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const rotationTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadCode = useCallback(async () => {
+    if (rotationTimer.current) clearTimeout(rotationTimer.current);
+    const { data, error: codeError } = await getShowCheckInCode(showId);
+    if (codeError || !data) {
+      setError('Unable to load the check-in code.');
+      return;
+    }
+    setError(null);
+    setCheckInCode(data);
+
+    // Fetch the next code just after this one expires
+    const msUntilExpiry = Math.max(new Date(data.expiresAt).getTime() - Date.now(), 0);
+    rotationTimer.current = setTimeout(loadCode, msUntilExpiry + 500);
+  }, [showId]);
+
+  useEffect(() => {
+    loadCode();
+    return () => {
+      if (rotationTimer.current) clearTimeout(rotationTimer.current);
+    };
+  }, [loadCode]);
+
+  useEffect(() => {
+    const refreshCount = () => getShowCheckInCount(showId).then(({ data }) => setCheckInCount(data));
+    refreshCount();
+    const interval = setInterval(refreshCount, COUNT_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [showId]);
+
+  return (
+    <View style={styles.container}>
+      {showTitle ? <Text style={styles.title}>{showTitle}</Text> : null}
+      <Text style={styles.instructions}>Scan with your phone's camera to check in</Text>
+
+      <View style={styles.qrBox}>
+        {error ? (
+          <View style={styles.errorBox}>
+            <Ionicons name="alert-circle-outline" size={40} color="#FF6A00" />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={loadCode}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : checkInCode ? (
+          <QRCode
+            value={buildCheckInUrl(showId, checkInCode.code)}
+            size={260}
+            backgroundColor="white"
+            color="black"
+          />
+        ) : (
+          <ActivityIndicator size="large" color="#0057B8" />
+        )}
+      </View>
+
+      <Text style={styles.note}>The code changes every minute.</Text>
+
+      <View style={styles.countRow}>
+        <Ionicons name="people" size={20} color="#0057B8" />
+        <Text style={styles.countText}>
+          {checkInCount} checked in
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#FFFFFF',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  instructions: {
+    fontSize: 15,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  qrBox: {
+    width: 292,
+    height: 292,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#EEEEEE',
+  },
+  errorBox: {
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#333333',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#0057B8',
+  },
+  retryText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 16,
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 32,
+  },
+  countText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0057B8',
+    marginLeft: 8,
+  },
+});
+
+export default ShowCheckInQrScreen;
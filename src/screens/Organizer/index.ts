@@ -6,3 +6,5 @@
  */
 
 export { default as OrganizerDashboardScreen } from './OrganizerDashboardScreen';
+export { default as ShowCheckInQrScreen } from './ShowCheckInQrScreen';
+export { default as SeriesDetailScreen } from './SeriesDetailScreen';
@@ -5,6 +5,8 @@ import { Ionicons } from '@expo/vector-icons';
 // UI sub-components & hooks extracted during refactor
 import ProfileHeader from './components/ProfileHeader';
 import SocialLinksSection from './components/SocialLinksSection';
+import EmailDigestSection from './components/EmailDigestSection';
+import PushNotificationsSection from './components/PushNotificationsSection';
 import useFavoriteCount from './hooks/useFavoriteCount';
 
 import { useAuth } from '../../contexts/AuthContext';
@@ -572,6 +574,10 @@ console.warn('[ProfileScreen] Forcing display as Dealer for specific user ID');
           </View>
         </View>
         
+        <PushNotificationsSection userId={user.id} />
+
+        <EmailDigestSection userId={user.id} hasHomeZip={!!user.homeZipCode} />
+
         {/* Account Actions */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Account Actions</Text>
@@ -609,7 +615,39 @@ console.warn('[ProfileScreen] Forcing display as Dealer for specific user ID');
               />
             </TouchableOpacity>
           )}
+
+          {/* Dealer inventory catalog (same audience as show participation) */}
+          {(user?.role === UserRole.MVP_DEALER || user?.role === UserRole.SHOW_ORGANIZER) && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => navigation.navigate('DealerInventoryScreen' as never)}
+            >
+              <Ionicons name="albums-outline" size={20} color="#007AFF" />
+              <Text style={styles.actionButtonText}>Manage Inventory</Text>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color="#ccc"
+                style={styles.actionButtonIcon}
+              />
+            </TouchableOpacity>
+          )}
           
+          {/* Badges and progress towards the next ones */}
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => navigation.navigate('BadgesScreen' as never)}
+          >
+            <Ionicons name="ribbon-outline" size={20} color="#007AFF" />
+            <Text style={styles.actionButtonText}>My Badges</Text>
+            <Ionicons
+              name="chevron-forward"
+              size={20}
+              color="#ccc"
+              style={styles.actionButtonIcon}
+            />
+          </TouchableOpacity>
+
           {/* Subscription management */}
           <TouchableOpacity
             style={styles.actionButton}
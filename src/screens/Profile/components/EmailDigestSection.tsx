@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, ActivityIndicator, Alert } from 'react-native';
+import { EmailDigestPreferences } from '../../../types';
+import {
+  DIGEST_RADIUS_OPTIONS,
+  getEmailDigestPreferences,
+  updateEmailDigestPreferences,
+} from '../../../services/emailDigestService';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface EmailDigestSectionProps {
+  userId: string;
+  hasHomeZip: boolean;
+}
+
+/**
+ * Weekly email digest settings: on/off, which day it arrives and how far
+ * from the home ZIP to look for shows.
+ */
+const EmailDigestSection: React.FC<EmailDigestSectionProps> = ({ userId, hasHomeZip }) => {
+  const [prefs, setPrefs] = useState<EmailDigestPreferences | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getEmailDigestPreferences(userId).then(({ data }) => {
+      if (!cancelled && data) setPrefs(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const save = async (changes: Partial<EmailDigestPreferences>) => {
+    if (!prefs) return;
+    const previous = prefs;
+    setPrefs({ ...prefs, ...changes });
+    const { success } = await updateEmailDigestPreferences(userId, changes);
+    if (!success) {
+      setPrefs(previous);
+      Alert.alert('Error', 'Failed to save your email settings. Please try again.');
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Weekly Email Digest</Text>
+
+      {!prefs ? (
+        <ActivityIndicator color="#FF6A00" />
+      ) : (
+        <>
+          <View style={styles.row}>
+            <View style={styles.rowText}>
+              <Text style={styles.label}>Email me a weekly digest</Text>
+              <Text style={styles.hint}>
+                Shows near you, your saved shows coming up and new dealers at them.
+              </Text>
+            </View>
+            <Switch value={prefs.enabled} onValueChange={enabled => save({ enabled })} />
+          </View>
+
+          {prefs.enabled && (
+            <>
+              {!hasHomeZip && (
+                <Text style={styles.warning}>Add a home ZIP code above to start receiving the digest.</Text>
+              )}
+
+              <Text style={styles.label}>Send on</Text>
+              <View style={styles.chipRow}>
+                {DAYS.map((day, index) => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.chip, prefs.sendDay === index && styles.chipSelected]}
+                    onPress={() => save({ sendDay: index })}
+                  >
+                    <Text style={[styles.chipText, prefs.sendDay === index && styles.chipTextSelected]}>{day}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Shows within</Text>
+              <View style={styles.chipRow}>
+                {DIGEST_RADIUS_OPTIONS.map(miles => (
+                  <TouchableOpacity
+                    key={miles}
+                    style={[styles.chip, prefs.radiusMiles === miles && styles.chipSelected]}
+                    onPress={() => save({ radiusMiles: miles })}
+                  >
+                    <Text style={[styles.chipText, prefs.radiusMiles === miles && styles.chipTextSelected]}>
+                      {miles} mi
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+  },
+  warning: {
+    fontSize: 13,
+    color: '#B00020',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#0057B8',
+    borderColor: '#0057B8',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+});
+
+export default EmailDigestSection;
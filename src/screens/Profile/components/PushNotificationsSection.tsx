@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, ActivityIndicator, Alert } from 'react-native';
+import { NotificationPreferences, NotificationType } from '../../../types';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../../../services/notificationService';
+
+const TYPE_LABELS: { type: NotificationType; label: string }[] = [
+  { type: NotificationType.SHOW_CHANGE, label: 'Changes to shows I saved' },
+  { type: NotificationType.SAVED_SEARCH_MATCH, label: 'New shows matching my saved searches' },
+  { type: NotificationType.WANT_LIST_MATCH, label: 'Dealers with cards on my want list' },
+  { type: NotificationType.FOLLOWED_ACTIVITY, label: 'Organizers, series and dealers I follow' },
+  { type: NotificationType.BROADCAST, label: 'Messages from show organizers' },
+  { type: NotificationType.REVIEW_REQUEST, label: 'Review reminders after a show' },
+  { type: NotificationType.BADGE_EARNED, label: 'Badges I earn' },
+  { type: NotificationType.NEW_FOLLOWER, label: 'New followers' },
+];
+
+const QUIET_START_OPTIONS = ['20:00', '21:00', '22:00', '23:00'];
+const QUIET_END_OPTIONS = ['06:00', '07:00', '08:00', '09:00'];
+const DEFAULT_QUIET_HOURS = { quietHoursStart: '22:00', quietHoursEnd: '07:00' };
+
+// "22:00" → "10 PM"
+const clockLabel = (time: string): string => {
+  const [hour, minute] = time.split(':').map(Number);
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return minute ? `${displayHour}:${String(minute).padStart(2, '0')} ${suffix}` : `${displayHour} ${suffix}`;
+};
+
+interface PushNotificationsSectionProps {
+  userId: string;
+}
+
+/**
+ * Push notification settings: on/off, which kinds of notification to send
+ * and quiet hours. Notifications that arrive during quiet hours are held
+ * by the server and sent when they end.
+ */
+const PushNotificationsSection: React.FC<PushNotificationsSectionProps> = ({ userId }) => {
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getNotificationPreferences(userId).then(({ data }) => {
+      if (!cancelled && data) setPrefs(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const save = async (changes: Partial<NotificationPreferences>) => {
+    if (!prefs) return;
+    const previous = prefs;
+    setPrefs({ ...prefs, ...changes });
+    const { success } = await updateNotificationPreferences(userId, changes);
+    if (!success) {
+      setPrefs(previous);
+      Alert.alert('Error', 'Failed to save your notification settings. Please try again.');
+    }
+  };
+
+  const toggleType = (type: NotificationType, enabled: boolean) => {
+    if (!prefs) return;
+    const disabledTypes = enabled
+      ? prefs.disabledTypes.filter(t => t !== type)
+      : [...prefs.disabledTypes, type];
+    save({ disabledTypes });
+  };
+
+  // Quiet hours are read in the device's current timezone
+  const saveQuietHours = (changes: Partial<NotificationPreferences>) =>
+    save({ ...changes, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || prefs?.timezone });
+
+  const quietHoursOn = !!prefs?.quietHoursStart && !!prefs?.quietHoursEnd;
+
+  const renderTimeChips = (
+    options: string[],
+    selected: string | null | undefined,
+    onSelect: (time: string) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(time => (
+        <TouchableOpacity
+          key={time}
+          style={[styles.chip, selected === time && styles.chipSelected]}
+          onPress={() => onSelect(time)}
+        >
+          <Text style={[styles.chipText, selected === time && styles.chipTextSelected]}>
+            {clockLabel(time)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Push Notifications</Text>
+
+      {!prefs ? (
+        <ActivityIndicator color="#FF6A00" />
+      ) : (
+        <>
+          <View style={styles.row}>
+            <View style={styles.rowText}>
+              <Text style={styles.label}>Send push notifications</Text>
+              <Text style={styles.hint}>You'll still find everything in your notifications list.</Text>
+            </View>
+            <Switch value={prefs.pushEnabled} onValueChange={pushEnabled => save({ pushEnabled })} />
+          </View>
+
+          {prefs.pushEnabled && (
+            <>
+              <Text style={styles.subheading}>Notify me about</Text>
+              {TYPE_LABELS.map(({ type, label }) => (
+                <View key={type} style={styles.row}>
+                  <Text style={[styles.label, styles.rowText]}>{label}</Text>
+                  <Switch
+                    value={!prefs.disabledTypes.includes(type)}
+                    onValueChange={enabled => toggleType(type, enabled)}
+                  />
+                </View>
+              ))}
+
+              <View style={styles.row}>
+                <View style={styles.rowText}>
+                  <Text style={styles.subheading}>Quiet hours</Text>
+                  <Text style={styles.hint}>
+                    {quietHoursOn
+                      ? `Held from ${clockLabel(prefs.quietHoursStart!)} to ${clockLabel(prefs.quietHoursEnd!)} (${prefs.timezone}) and sent afterwards.`
+                      : 'Hold notifications overnight and send them in the morning.'}
+                  </Text>
+                </View>
+                <Switch
+                  value={quietHoursOn}
+                  onValueChange={enabled =>
+                    saveQuietHours(enabled ? DEFAULT_QUIET_HOURS : { quietHoursStart: null, quietHoursEnd: null })
+                  }
+                />
+              </View>
+
+              {quietHoursOn && (
+                <>
+                  <Text style={styles.label}>From</Text>
+                  {renderTimeChips(QUIET_START_OPTIONS, prefs.quietHoursStart, time =>
+                    saveQuietHours({ quietHoursStart: time })
+                  )}
+                  <Text style={styles.label}>Until</Text>
+                  {renderTimeChips(QUIET_END_OPTIONS, prefs.quietHoursEnd, time =>
+                    saveQuietHours({ quietHoursEnd: time })
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 16,
+  },
+  subheading: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#0057B8',
+    borderColor: '#0057B8',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+});
+
+export default PushNotificationsSection;
@@ -15,9 +15,14 @@ import { useAuth } from '../../contexts/AuthContext';
 import * as _userRoleService from '../../services/userRoleService';
 import DealerDetailModal from '../../components/DealerDetailModal';
 import ReviewForm from '../../components/ReviewForm';
+import FollowButton from '../../components/FollowButton';
 import { UserRole, Show as ShowType } from '../../types'; // Import enums & primary Show model
 // Use the wrapped Sentry helpers to avoid direct SDK calls that may be treeshaken out
 import { captureMessage } from '../../services/sentryConfig';
+import { exportShowToCalendar } from '../../services/calendarService';
+import { addShowToTripDraft } from '../../services/tripService';
+import { MAX_TRIP_SHOWS } from '../../utils/tripPlanner';
+import { isCheckInOpen } from '../../utils/checkIn';
 
 // Import components from the components folder
 import {
@@ -30,11 +35,18 @@ import {
   ShowManagementButtons,
   ShowDailySchedule,
   ShowFeatures,
-  ShowCategories
+  ShowCategories,
+  ShowChangeLog,
+  RecentlyUpdatedBadge,
+  ShowInventorySearch,
+  WantListMatches,
+  ShowCheckIn,
+  ShowReviews
 } from './components';
 
 // Import the new hook
 import { useShowDetailQuery } from '../../hooks/useShowDetailQuery';
+import { useShowRevisionsQuery } from '../../hooks/useShowRevisionsQuery';
 
 interface ShowDetailProps {
   route: any;
@@ -50,7 +62,7 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
   // Guard against missing navigation params to avoid runtime crash
   // `route.params` can be undefined if the navigate() call forgets to pass extras.
   // Using a fallback empty object lets the screen render an error state gracefully.
-  const { showId } = route.params || {};
+  const { showId, checkInCode } = route.params || {};
   const authContext = useAuth();
   const user = authContext.authState?.user || null;
   // Hook-based navigation (needed for hyperlink handler)
@@ -98,6 +110,9 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
     openMapLocation,
   } = useShowDetailQuery(showId);
 
+  // Change log + "Recently updated" badge
+  const { revisions, recentlyUpdated } = useShowRevisionsQuery(showId);
+
   /* ------------------------------------------------------------------
    * Helpers
    * ------------------------------------------------------------------ */
@@ -126,6 +141,7 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
     // map time fields so ShowTimeInfo can display them
     startTime: details.start_time ?? details.startTime ?? undefined,
     endTime:   details.end_time   ?? details.endTime   ?? undefined,
+    dailySchedule: details.daily_schedule ?? details.dailySchedule ?? undefined,
 
     /* ---------------- Pricing / status --------------- */
     entryFee: details.entry_fee ?? details.entryFee ?? 0,
@@ -133,6 +149,7 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
 
     /* ---------------- Misc ---------------------------- */
     imageUrl: details.image_url ?? undefined,
+    websiteUrl: details.website_url ?? undefined,
     rating: details.rating ?? undefined,
     coordinates:
       details.coordinates ??
@@ -166,15 +183,15 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
     return compareDate.getTime() > Date.now();
   };
 
-  // Label for the attendance button based on show timing
-  const attendanceLabel = isUpcoming(parsedShow)
-    ? 'Mark as Attending'
-    : 'Mark as Attended';
+  // Attendance is recorded by verified check-in once the show is running;
+  // before that, users can mark that they plan to attend
+  const canMarkAttending =
+    isUpcoming(parsedShow) && !isCheckInOpen(parsedShow);
 
-  // Handle marking a show as attended
-  const handleMarkAsAttended = async () => {
+  // Handle marking a show as attending
+  const handleMarkAsAttending = async () => {
     if (!user || !parsedShow) {
-      Alert.alert("Error", "You must be logged in to mark a show as attended");
+      Alert.alert("Error", "You must be logged in to mark a show as attending");
       return;
     }
     
@@ -183,16 +200,11 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
       // This would typically call a service function
       
       // For now, just show a success message
-      Alert.alert(
-        'Success',
-        isUpcoming(parsedShow)
-          ? "You've marked that you'll attend this show!"
-          : "You've marked this show as attended!"
-      );
+      Alert.alert('Success', "You've marked that you'll attend this show!");
       
       // Track this business event in Sentry
       captureMessage(
-        'Show Attended',
+        'Show Attending',
         'info',
         {
           tags: { event_type: 'business' },
@@ -208,6 +220,38 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
     }
   };
 
+  // Export the show as an .ics file the user can add to their calendar
+  const handleAddToCalendar = async () => {
+    if (!parsedShow) return;
+    const { success, error: exportError } = await exportShowToCalendar(parsedShow);
+    if (!success) {
+      Alert.alert('Error', exportError || 'Failed to export show to calendar');
+    }
+  };
+
+  // Add the show to the user's trip plan (kept on the device until planned)
+  const handleAddToTrip = async () => {
+    if (!user || !parsedShow) {
+      Alert.alert('Error', 'You must be logged in to plan a trip');
+      return;
+    }
+
+    const { showIds, isFull } = await addShowToTripDraft(user.id, parsedShow.id);
+    if (isFull) {
+      Alert.alert('Trip Full', `A trip can include up to ${MAX_TRIP_SHOWS} shows.`);
+      return;
+    }
+
+    Alert.alert(
+      'Added to Trip',
+      `Your trip has ${showIds.length} show${showIds.length === 1 ? '' : 's'}.`,
+      [
+        { text: 'Keep Browsing', style: 'cancel' },
+        { text: 'Plan Trip', onPress: () => nav.navigate('TripPlanner') },
+      ]
+    );
+  };
+
   // Handle dealer interactions
   const handleViewDealerDetails = (dealerId: string, dealerName: string) => {
     setSelectedDealer({ id: dealerId, name: dealerName });
@@ -303,11 +347,15 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
         onOpenMap={openMapLocation}
         onShare={shareShow}
         onReview={() => setShowReviewForm(true)}
+        onAddToCalendar={handleAddToCalendar}
+        onAddToTrip={handleAddToTrip}
           show={parsedShow}
         />
       )}
 
       <View style={styles.detailsContainer}>
+        {recentlyUpdated && <RecentlyUpdatedBadge />}
+
         {/* Basic Show Info */}
         {parsedShow && <ShowBasicInfo show={parsedShow} />}
         
@@ -333,6 +381,14 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
         
         {/* Organizer Info */}
         {organizer && <OrganizerInfo organizer={organizer} />}
+
+        {/* Follow the series to hear when its next date is announced */}
+        {parsedShow?.seriesId && (
+          <View style={styles.seriesFollow}>
+            <Text style={styles.seriesFollowText}>Part of a recurring series</Text>
+            <FollowButton targetType="series" targetId={parsedShow.seriesId} label="Follow series" />
+          </View>
+        )}
         
         {/* Daily Schedule */}
         <ShowDailySchedule dailySchedule={show.daily_schedule} />
@@ -345,6 +401,9 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
         
         {/* Show Description */}
         <ShowDescription description={show.description} />
+
+        {/* Change Log */}
+        <ShowChangeLog revisions={revisions} />
         
         {/* Dealers List */}
         <DealersList
@@ -352,15 +411,41 @@ const ShowDetailScreen: React.FC<ShowDetailProps> = ({ route, navigation }) => {
           isLoading={false}
           onViewDealerDetails={handleViewDealerDetails}
         />
+
+        {/* Dealer Inventory Search */}
+        <ShowInventorySearch
+          showId={show.id}
+          onViewDealerDetails={handleViewDealerDetails}
+        />
+
+        {/* Want List Matches */}
+        {user && (
+          <WantListMatches
+            showId={show.id}
+            onViewDealerDetails={handleViewDealerDetails}
+          />
+        )}
         
-        {/* Attendance Button */}
+        {/* Verified check-in */}
         {user && parsedShow && (
+          <ShowCheckIn
+            show={parsedShow}
+            userId={user.id}
+            checkInCode={checkInCode}
+          />
+        )}
+
+        {/* Reviews */}
+        <ShowReviews showId={show.id} userId={user?.id} />
+
+        {/* Attendance Button */}
+        {user && parsedShow && canMarkAttending && (
           <TouchableOpacity 
             style={styles.attendanceButton}
-            onPress={handleMarkAsAttended}
+            onPress={handleMarkAsAttending}
           >
             <Ionicons name="checkmark-circle-outline" size={24} color="white" />
-            <Text style={styles.attendanceButtonText}>{attendanceLabel}</Text>
+            <Text style={styles.attendanceButtonText}>Mark as Attending</Text>
           </TouchableOpacity>
         )}
       </View>
@@ -393,6 +478,19 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F5F5F5',
   },
+  seriesFollow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#F9F9F9',
+    borderRadius: 8,
+  },
+  seriesFollowText: {
+    fontSize: 15,
+    color: '#333',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
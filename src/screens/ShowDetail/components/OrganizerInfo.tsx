@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, Image, StyleSheet } from 'react-native';
 import SocialLinksRow from '../../../components/ui/SocialLinksRow';
+import FollowButton from '../../../components/FollowButton';
 
 interface OrganizerInfoProps {
   organizer?: {
@@ -64,6 +65,7 @@ const OrganizerInfo: React.FC<OrganizerInfoProps> = ({ organizer }) => {
           </View>
         )}
         <Text style={styles.organizerName}>{displayName}</Text>
+        {organizer.id && <FollowButton targetType="organizer" targetId={organizer.id} />}
       </View>
 
       {/* ------------------- Social Icons Row -------------------- */}
@@ -126,6 +128,7 @@ const styles = StyleSheet.create({
     fontSize: 16,
   },
   organizerName: {
+    flex: 1,
     fontSize: 16,
     fontWeight: '500',
   },
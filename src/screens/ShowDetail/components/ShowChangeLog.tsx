@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ShowRevision } from '../../../types';
+
+interface ShowChangeLogProps {
+  revisions: ShowRevision[];
+}
+
+// Collapsed view keeps the section short; "Show all" reveals the rest
+const COLLAPSED_COUNT = 3;
+
+const formatRevisionDate = (iso: string): string => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const ShowChangeLog: React.FC<ShowChangeLogProps> = ({ revisions }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // Only revisions that produced readable lines are worth listing
+  const visible = revisions.filter(rev => rev.summary.length > 0);
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const shown = expanded ? visible : visible.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>🕘 Recent Changes</Text>
+      {shown.map(rev => (
+        <View key={rev.id} style={styles.entry}>
+          <Text style={styles.entryDate}>{formatRevisionDate(rev.createdAt)}</Text>
+          {rev.summary.map((line, index) => (
+            <View key={index} style={styles.lineRow}>
+              <Ionicons name="ellipse" size={6} color="#FF6A00" style={styles.bullet} />
+              <Text style={styles.lineText}>{line}</Text>
+            </View>
+          ))}
+        </View>
+      ))}
+      {visible.length > COLLAPSED_COUNT && (
+        <TouchableOpacity onPress={() => setExpanded(prev => !prev)}>
+          <Text style={styles.toggleText}>
+            {expanded ? 'Show less' : `Show all ${visible.length} changes`}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+/**
+ * Small pill shown next to the title when the show changed recently.
+ */
+export const RecentlyUpdatedBadge: React.FC = () => (
+  <View style={styles.badge}>
+    <Ionicons name="refresh-circle" size={14} color="#FF6A00" />
+    <Text style={styles.badgeText}>Recently updated</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+    color: '#333',
+  },
+  entry: {
+    marginBottom: 12,
+  },
+  entryDate: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 4,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  bullet: {
+    marginRight: 8,
+  },
+  lineText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333333',
+  },
+  toggleText: {
+    color: '#FF6A00',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: '#FFF3E0',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  badgeText: {
+    marginLeft: 4,
+    color: '#FF6A00',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default ShowChangeLog;
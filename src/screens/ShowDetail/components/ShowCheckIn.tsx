@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Show, ShowCheckIn as ShowCheckInRecord } from '../../../types';
+import { checkInWithCode, checkInWithLocation, getMyCheckIn } from '../../../services/checkInService';
+import { isCheckInOpen } from '../../../utils/checkIn';
+
+interface ShowCheckInProps {
+  show: Show;
+  userId: string;
+  /** Code from a scanned QR deep link; submitted automatically */
+  checkInCode?: string;
+}
+
+const formatCheckInTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Verified check-in for the show. Shows the user's check-in once they have
+ * one; while the show is running, offers a location check-in and submits
+ * a scanned QR code. Hidden otherwise.
+ */
+const ShowCheckIn: React.FC<ShowCheckInProps> = ({ show, userId, checkInCode }) => {
+  const showId = show.id;
+  const [checkIn, setCheckIn] = useState<ShowCheckInRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const submittedCode = useRef<string | null>(null);
+
+  const open = isCheckInOpen(show);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMyCheckIn(showId, userId).then(({ data }) => {
+      if (cancelled) return;
+      setCheckIn(data);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showId, userId]);
+
+  // Submit a code from a scanned QR link once
+  useEffect(() => {
+    if (!checkInCode || loading || checkIn || submittedCode.current === checkInCode) return;
+    submittedCode.current = checkInCode;
+
+    setSubmitting(true);
+    checkInWithCode(showId, checkInCode).then(({ data, error }) => {
+      setSubmitting(false);
+      if (error || !data) {
+        Alert.alert('Check-In Failed', error ?? 'Unable to check in. Please try again.');
+        return;
+      }
+      setCheckIn(data);
+      Alert.alert('Checked In', "You're checked in. Enjoy the show!");
+    });
+  }, [checkInCode, loading, checkIn, showId]);
+
+  const handleLocationCheckIn = async () => {
+    setSubmitting(true);
+    const { data, error } = await checkInWithLocation(showId);
+    setSubmitting(false);
+
+    if (error || !data) {
+      Alert.alert('Check-In Failed', error ?? 'Unable to check in. Please try again.');
+      return;
+    }
+    setCheckIn(data);
+    Alert.alert('Checked In', "You're checked in. Enjoy the show!");
+  };
+
+  if (loading || (!checkIn && !open)) {
+    return null;
+  }
+
+  if (checkIn) {
+    return (
+      <View style={[styles.container, styles.checkedIn]}>
+        <Ionicons name="checkmark-circle" size={24} color="#2E7D32" />
+        <View style={styles.textBlock}>
+          <Text style={styles.title}>Checked in</Text>
+          <Text style={styles.subtitle}>
+            {formatCheckInTime(checkIn.checkedInAt)} · {checkIn.method === 'qr' ? 'QR code' : 'Location'}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.wrapper}>
+      <TouchableOpacity
+        style={[styles.button, submitting && styles.buttonDisabled]}
+        onPress={handleLocationCheckIn}
+        disabled={submitting}
+      >
+        {submitting ? (
+          <ActivityIndicator color="white" />
+        ) : (
+          <>
+            <Ionicons name="location" size={22} color="white" />
+            <Text style={styles.buttonText}>Check In at This Show</Text>
+          </>
+        )}
+      </TouchableOpacity>
+      <Text style={styles.hint}>
+        Or scan the QR code at the entrance with your phone's camera.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  wrapper: {
+    marginTop: 16,
+  },
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  checkedIn: {
+    backgroundColor: '#E8F5E9',
+  },
+  textBlock: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2E7D32',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#555555',
+    marginTop: 2,
+  },
+  button: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    padding: 12,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777777',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
+
+export default ShowCheckIn;
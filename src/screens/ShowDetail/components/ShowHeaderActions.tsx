@@ -11,6 +11,10 @@ interface ShowHeaderActionsProps {
   onOpenMap: () => void;
   onShare: () => void;
   onReview: () => void;
+  /** Export the show as an .ics calendar event */
+  onAddToCalendar: () => void;
+  /** Add the show to the user's trip plan */
+  onAddToTrip?: () => void;
   /** Full show object so we can determine if the show is in the past */
   show: Show;
 }
@@ -22,6 +26,8 @@ const ShowHeaderActions: React.FC<ShowHeaderActionsProps> = ({
   onOpenMap,
   onShare,
   onReview,
+  onAddToCalendar,
+  onAddToTrip,
   show,
 }) => {
   /**
@@ -58,6 +64,19 @@ const ShowHeaderActions: React.FC<ShowHeaderActionsProps> = ({
         <Text style={styles.actionText}>Share</Text>
       </TouchableOpacity>
 
+      <TouchableOpacity style={styles.actionButton} onPress={onAddToCalendar}>
+        <Ionicons name="calendar-outline" size={24} color="#333333" />
+        <Text style={styles.actionText}>Calendar</Text>
+      </TouchableOpacity>
+
+      {/* Trip button – only shows that haven't finished can be planned */}
+      {onAddToTrip && !canLeaveReview && (
+        <TouchableOpacity style={styles.actionButton} onPress={onAddToTrip}>
+          <Ionicons name="car-outline" size={24} color="#333333" />
+          <Text style={styles.actionText}>Trip</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Review button – visible only AFTER the show has completed */}
       {canLeaveReview && (
         <TouchableOpacity style={styles.actionButton} onPress={onReview}>
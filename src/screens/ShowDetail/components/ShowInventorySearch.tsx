@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Image,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ShowInventoryItem } from '../../../types';
+import { DEALER_CARD_TYPES } from '../../../constants/dealerCardTypes';
+import {
+  formatInventoryTitle,
+  getInventoryPhotoUrls,
+  searchShowInventory,
+} from '../../../services/inventoryService';
+
+interface ShowInventorySearchProps {
+  showId: string;
+  onViewDealerDetails: (dealerId: string, dealerName: string) => void;
+}
+
+// Wait for the user to stop typing before querying
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatPrice = (price?: number | null): string =>
+  price === null || price === undefined
+    ? 'Ask dealer'
+    : `$${price.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+/**
+ * "Find a card" section – searches the inventory dealers marked as
+ * bringing to this show. Hidden when no dealer has listed anything.
+ */
+const ShowInventorySearch: React.FC<ShowInventorySearchProps> = ({ showId, onViewDealerDetails }) => {
+  const [query, setQuery] = useState('');
+  const [cardTypes, setCardTypes] = useState<string[]>([]);
+  const [results, setResults] = useState<ShowInventoryItem[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [hasInventory, setHasInventory] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      const { data, error: searchError } = await searchShowInventory(showId, { query, cardTypes });
+      if (cancelled) return;
+
+      setResults(data);
+      setError(searchError);
+      setLoading(false);
+      // The first unfiltered search tells us whether to show the section at all
+      if (hasInventory === null && !query && cardTypes.length === 0) {
+        setHasInventory(data.length > 0);
+      }
+
+      const firstPhotos = data.map(item => item.photoPaths[0]).filter(Boolean);
+      const urls = await getInventoryPhotoUrls(firstPhotos);
+      if (!cancelled) setPhotoUrls(urls);
+    }, query ? SEARCH_DEBOUNCE_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showId, query, cardTypes]);
+
+  const toggleCardType = (type: string) => {
+    setCardTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  if (!hasInventory) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>🔎 Find a Card</Text>
+
+      <View style={styles.searchRow}>
+        <Ionicons name="search" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Player, set, year, card #…"
+          value={query}
+          onChangeText={setQuery}
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <Ionicons name="close-circle" size={18} color="#999" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+        {DEALER_CARD_TYPES.map(type => {
+          const selected = cardTypes.includes(type);
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => toggleCardType(type)}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{type}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#FF6A00" style={styles.loader} />
+      ) : error ? (
+        <Text style={styles.emptyText}>{error}</Text>
+      ) : results.length === 0 ? (
+        <Text style={styles.emptyText}>No matching cards listed for this show.</Text>
+      ) : (
+        results.map(item => {
+          const photoUrl = item.photoPaths[0] ? photoUrls[item.photoPaths[0]] : undefined;
+          return (
+            <TouchableOpacity
+              key={item.id}
+              style={styles.itemRow}
+              onPress={() => onViewDealerDetails(item.dealerId, item.dealerName)}
+              activeOpacity={0.7}
+            >
+              {photoUrl ? (
+                <Image source={{ uri: photoUrl }} style={styles.thumbnail} />
+              ) : (
+                <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                  <Ionicons name="image-outline" size={20} color="#bbb" />
+                </View>
+              )}
+              <View style={styles.itemInfo}>
+                <Text style={styles.itemTitle} numberOfLines={2}>
+                  {formatInventoryTitle(item)}
+                </Text>
+                <Text style={styles.itemMeta}>
+                  {item.dealerName}
+                  {item.boothLocation ? ` · Booth ${item.boothLocation}` : ''}
+                  {item.quantity > 1 ? ` · ${item.quantity} available` : ''}
+                </Text>
+              </View>
+              <Text style={styles.itemPrice}>{formatPrice(item.askingPrice)}</Text>
+            </TouchableOpacity>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+    color: '#333',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    paddingHorizontal: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    color: '#333',
+  },
+  chipRow: {
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#FF6A00',
+    borderColor: '#FF6A00',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  loader: {
+    marginVertical: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#777',
+    marginVertical: 10,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  thumbnail: {
+    width: 44,
+    height: 60,
+    borderRadius: 4,
+    marginRight: 10,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#777',
+    marginTop: 2,
+  },
+  itemPrice: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FF6A00',
+    marginLeft: 8,
+  },
+});
+
+export default ShowInventorySearch;
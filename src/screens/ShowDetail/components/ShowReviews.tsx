@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Review, ReviewAspect, ReviewReportReason, ReviewReportTarget } from '../../../types';
+import {
+  Review as ServiceReview,
+  ReviewSort,
+  getReviewStatsByShowId,
+  getReviewsByShowId,
+  getUserReviewVotes,
+  reportReview,
+  voteOnReview,
+} from '../../../services/reviewService';
+import { AspectSummary, REVIEW_ASPECTS, applyHelpfulVote } from '../../../utils/reviewStats';
+import ReviewsList from '../../../components/ReviewsList';
+import ReportReviewModal from '../../../components/ReportReviewModal';
+
+interface ShowReviewsProps {
+  showId: string;
+  /** Signed-in user; voting and reporting need one */
+  userId?: string;
+}
+
+interface ReviewSummary {
+  averageRating: number;
+  reviewCount: number;
+  aspectRatings: Partial<Record<ReviewAspect, AspectSummary>>;
+}
+
+const REVIEW_LIMIT = 20;
+
+const SORT_OPTIONS: { value: ReviewSort; label: string }[] = [
+  { value: 'helpful', label: 'Most helpful' },
+  { value: 'recent', label: 'Newest' },
+];
+
+const toListReview = (review: ServiceReview): Review => ({
+  ...review,
+  seriesId: review.seriesId ?? '',
+  userName: review.userName ?? 'Anonymous',
+  date: review.createdAt,
+});
+
+/**
+ * Reviews of this show with the star and aspect averages, sortable by
+ * helpfulness or recency. Signed-in users can vote reviews helpful or not
+ * and report them. Hidden when the show has no reviews.
+ */
+const ShowReviews: React.FC<ShowReviewsProps> = ({ showId, userId }) => {
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [myVotes, setMyVotes] = useState<Record<string, boolean>>({});
+  const [reporting, setReporting] = useState<{ review: Review; target: ReviewReportTarget } | null>(null);
+  const [reportSubmitting, setReportSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getReviewStatsByShowId(showId).then(({ data }) => {
+      if (!cancelled && data) setSummary(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getReviewsByShowId(showId, { limit: REVIEW_LIMIT, sort }).then(async ({ data }) => {
+      if (cancelled || !data) return;
+      setReviews(data.map(toListReview));
+
+      if (userId) {
+        const { data: votes } = await getUserReviewVotes(userId, data.map(review => review.id));
+        if (!cancelled && votes) setMyVotes(votes);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showId, sort, userId]);
+
+  const handleVote = useCallback(
+    async (review: Review, helpful: boolean | null) => {
+      if (!userId) return;
+
+      const previous = myVotes[review.id];
+      const updateReview = (from: boolean | null | undefined, to: boolean | null) =>
+        setReviews(prev =>
+          prev.map(item =>
+            item.id === review.id
+              ? {
+                  ...item,
+                  ...applyHelpfulVote(
+                    { helpfulCount: item.helpfulCount ?? 0, notHelpfulCount: item.notHelpfulCount ?? 0 },
+                    from,
+                    to
+                  ),
+                }
+              : item
+          )
+        );
+      const setVote = (value: boolean | null | undefined) =>
+        setMyVotes(prev => {
+          const next = { ...prev };
+          if (value === null || value === undefined) {
+            delete next[review.id];
+          } else {
+            next[review.id] = value;
+          }
+          return next;
+        });
+
+      // Optimistic; rolled back if the vote doesn't save
+      updateReview(previous, helpful);
+      setVote(helpful);
+
+      const { success, error } = await voteOnReview(review.id, userId, helpful);
+      if (!success) {
+        updateReview(helpful, previous ?? null);
+        setVote(previous);
+        Alert.alert('Vote', error || 'Unable to save your vote. Please try again.');
+      }
+    },
+    [userId, myVotes]
+  );
+
+  const submitReport = async (reason: ReviewReportReason, details: string) => {
+    if (!reporting || !userId) return;
+
+    setReportSubmitting(true);
+    const { success, error } = await reportReview(reporting.review.id, userId, {
+      target: reporting.target,
+      reason,
+      details,
+    });
+    setReportSubmitting(false);
+
+    if (!success) {
+      Alert.alert('Report', error || 'Unable to send your report. Please try again.');
+      return;
+    }
+
+    setReporting(null);
+    Alert.alert('Thanks', 'Our team will take a look.');
+  };
+
+  if (!summary || summary.reviewCount === 0) {
+    return null;
+  }
+
+  const ratedAspects = REVIEW_ASPECTS.filter(({ key }) => summary.aspectRatings[key]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>⭐ Reviews</Text>
+
+      <View style={styles.summary}>
+        <View style={styles.summaryRating}>
+          <Ionicons name="star" size={18} color="#FFD700" />
+          <Text style={styles.summaryAverage}>{summary.averageRating.toFixed(1)}</Text>
+          <Text style={styles.summaryCount}>
+            {summary.reviewCount} {summary.reviewCount === 1 ? 'review' : 'reviews'}
+          </Text>
+        </View>
+        {ratedAspects.map(({ key, label }) => (
+          <View key={key} style={styles.aspectRow}>
+            <Text style={styles.aspectLabel}>{label}</Text>
+            <Text style={styles.aspectValue}>{summary.aspectRatings[key]?.average.toFixed(1)}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.sortRow}>
+        {SORT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.sortChip, sort === option.value && styles.sortChipActive]}
+            onPress={() => setSort(option.value)}
+          >
+            <Text style={[styles.sortChipText, sort === option.value && styles.sortChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ReviewsList
+        inline
+        reviews={reviews}
+        emptyMessage="No reviews for this show yet."
+        currentUserId={userId}
+        myVotes={myVotes}
+        onVote={userId ? handleVote : undefined}
+        onReport={userId ? (review, target) => setReporting({ review, target }) : undefined}
+      />
+
+      <ReportReviewModal
+        visible={!!reporting}
+        target={reporting?.target ?? 'review'}
+        submitting={reportSubmitting}
+        onSubmit={submitReport}
+        onCancel={() => setReporting(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+    color: '#333',
+  },
+  summary: {
+    marginBottom: 12,
+  },
+  summaryRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  summaryAverage: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 4,
+  },
+  summaryCount: {
+    fontSize: 14,
+    color: '#777',
+    marginLeft: 8,
+  },
+  aspectRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  aspectLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  aspectValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  sortChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  sortChipActive: {
+    borderColor: '#FF6A00',
+    backgroundColor: '#FF6A00',
+  },
+  sortChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  sortChipTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
+
+export default ShowReviews;
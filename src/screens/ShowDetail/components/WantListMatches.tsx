@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { WantListMatch } from '../../../types';
+import { getWantListMatches } from '../../../services/wantListItemService';
+import { formatInventoryTitle } from '../../../services/inventoryService';
+import { formatWantListItem } from '../../../utils/wantListParser';
+
+interface WantListMatchesProps {
+  showId: string;
+  onViewDealerDetails: (dealerId: string, dealerName: string) => void;
+}
+
+const formatPrice = (price?: number | null): string =>
+  price === null || price === undefined ? 'Ask dealer' : `$${price.toLocaleString('en-US')}`;
+
+const groupBy = (matches: WantListMatch[], key: (m: WantListMatch) => string) =>
+  matches.reduce<Record<string, WantListMatch[]>>((groups, match) => {
+    (groups[key(match)] = groups[key(match)] || []).push(match);
+    return groups;
+  }, {});
+
+/**
+ * Want-list matches for this show, from both sides: dealers who may have
+ * the user's wants, and collectors attending who want the user's inventory.
+ * Hidden when there are none.
+ */
+const WantListMatches: React.FC<WantListMatchesProps> = ({ showId, onViewDealerDetails }) => {
+  const [matches, setMatches] = useState<WantListMatch[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getWantListMatches(showId).then(({ data }) => {
+      if (!cancelled) setMatches(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showId]);
+
+  const byDealer = useMemo(
+    () => groupBy(matches.filter(m => m.role === 'collector'), m => m.dealerId),
+    [matches]
+  );
+  const byInventoryItem = useMemo(
+    () => groupBy(matches.filter(m => m.role === 'dealer'), m => formatInventoryTitle(m.inventoryItem)),
+    [matches]
+  );
+
+  const dealerIds = Object.keys(byDealer);
+  const itemTitles = Object.keys(byInventoryItem);
+
+  if (dealerIds.length === 0 && itemTitles.length === 0) {
+    return null;
+  }
+
+  const collectorCount = new Set(matches.filter(m => m.role === 'dealer').map(m => m.collectorId)).size;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>🎯 Want List Matches</Text>
+
+      {dealerIds.length > 0 && (
+        <View style={styles.group}>
+          <Text style={styles.summary}>
+            {dealerIds.length} {dealerIds.length === 1 ? 'dealer' : 'dealers'} at this show may have your items
+          </Text>
+          {dealerIds.map(dealerId => {
+            const dealerMatches = byDealer[dealerId];
+            const { dealerName, boothLocation } = dealerMatches[0];
+            return (
+              <TouchableOpacity
+                key={dealerId}
+                style={styles.row}
+                onPress={() => onViewDealerDetails(dealerId, dealerName)}
+                activeOpacity={0.7}
+              >
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>
+                    {dealerName}
+                    {boothLocation ? ` · Booth ${boothLocation}` : ''}
+                  </Text>
+                  {dealerMatches.map(match => (
+                    <Text key={match.id} style={styles.rowMeta}>
+                      {formatInventoryTitle(match.inventoryItem)} · {formatPrice(match.inventoryItem.askingPrice)}
+                    </Text>
+                  ))}
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#999" />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {itemTitles.length > 0 && (
+        <View style={styles.group}>
+          <Text style={styles.summary}>
+            {collectorCount} {collectorCount === 1 ? 'collector' : 'collectors'} attending want cards you have
+          </Text>
+          {itemTitles.map(title => (
+            <View key={title} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>{title}</Text>
+                {byInventoryItem[title].map(match => (
+                  <Text key={match.id} style={styles.rowMeta}>
+                    {match.collectorName}: {formatWantListItem(match.wantItem)}
+                  </Text>
+                ))}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+    color: '#333',
+  },
+  group: {
+    marginBottom: 8,
+  },
+  summary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF6A00',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#777',
+    marginTop: 2,
+  },
+});
+
+export default WantListMatches;
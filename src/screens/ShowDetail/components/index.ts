@@ -8,6 +8,11 @@ import ShowManagementButtons from './ShowManagementButtons';
 import ShowDailySchedule from './ShowDailySchedule';
 import ShowFeatures from './ShowFeatures';
 import ShowCategories from './ShowCategories';
+import ShowChangeLog, { RecentlyUpdatedBadge } from './ShowChangeLog';
+import ShowInventorySearch from './ShowInventorySearch';
+import WantListMatches from './WantListMatches';
+import ShowCheckIn from './ShowCheckIn';
+import ShowReviews from './ShowReviews';
 
 export {
   ShowHeaderActions,
@@ -19,5 +24,11 @@ export {
   ShowManagementButtons,
   ShowDailySchedule,
   ShowFeatures,
-  ShowCategories
+  ShowCategories,
+  ShowChangeLog,
+  RecentlyUpdatedBadge,
+  ShowInventorySearch,
+  WantListMatches,
+  ShowCheckIn,
+  ShowReviews
 };
@@ -0,0 +1,439 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../contexts/AuthContext';
+import { Coordinates, Show } from '../../types';
+import { calculateDistanceBetweenCoordinates, getZipCodeCoordinates } from '../../services/locationService';
+import {
+  exportTripToCalendar,
+  getTripDraft,
+  loadTripShows,
+  setTripDraft,
+  shareTrip,
+} from '../../services/tripService';
+import {
+  TripStop,
+  findTripConflicts,
+  formatTripTime,
+  parseTripShowIds,
+  planTrip,
+} from '../../utils/tripPlanner';
+
+const ORANGE = '#FF6A00';
+const BLUE = '#0057B8';
+const DARK_GRAY = '#666666';
+
+interface TripPlannerScreenProps {
+  route: { params?: { shows?: string; name?: string } };
+  navigation: any;
+}
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatDrive = (stop: TripStop, isFirst: boolean) => {
+  if (stop.driveMiles === null) return null;
+  if (stop.driveMiles < 1) return isFirst ? 'Close to home' : 'Same area';
+  const hours = Math.floor(stop.driveMinutes / 60);
+  const minutes = stop.driveMinutes % 60;
+  const time = hours > 0 ? `${hours} hr ${minutes} min` : `${minutes} min`;
+  return `${Math.round(stop.driveMiles)} mi · about ${time} drive${isFirst ? ' from home' : ''}`;
+};
+
+/**
+ * Plan a multi-show weekend: orders the picked shows into a feasible
+ * itinerary, warns about overlapping hours and exports the plan.
+ * Opened from My Shows / show details (trip draft) or a shared trip link.
+ */
+const TripPlannerScreen: React.FC<TripPlannerScreenProps> = ({ route, navigation }) => {
+  const { authState } = useAuth();
+  const user = authState.user;
+  const sharedIds = useMemo(() => parseTripShowIds(route.params?.shows), [route.params?.shows]);
+  const isSharedTrip = sharedIds.length > 0;
+
+  const [name, setName] = useState(route.params?.name || 'Weekend trip');
+  const [shows, setShows] = useState<Show[]>([]);
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadTrip = useCallback(async () => {
+    setLoading(true);
+    const ids = isSharedTrip ? sharedIds : user ? await getTripDraft(user.id) : [];
+    const { data, error } = await loadTripShows(ids);
+    if (error) {
+      Alert.alert('Error', 'Failed to load the shows for this trip.');
+    }
+    setShows(data);
+    setLoading(false);
+  }, [isSharedTrip, sharedIds, user]);
+
+  useEffect(() => {
+    loadTrip();
+  }, [loadTrip]);
+
+  // Drive times for the first stop are measured from the user's home ZIP
+  useEffect(() => {
+    if (!user?.homeZipCode) return;
+    getZipCodeCoordinates(user.homeZipCode).then(zip => {
+      if (zip) setOrigin(zip.coordinates);
+    });
+  }, [user?.homeZipCode]);
+
+  const itinerary = useMemo(
+    () => planTrip(shows, { distanceBetween: calculateDistanceBetweenCoordinates, origin }),
+    [shows, origin]
+  );
+  const conflicts = useMemo(() => findTripConflicts(shows), [shows]);
+  const titleOf = (showId: string) => shows.find(show => show.id === showId)?.title ?? 'A show';
+
+  const handleRemove = async (showId: string) => {
+    const remaining = shows.filter(show => show.id !== showId);
+    setShows(remaining);
+    if (!isSharedTrip && user) {
+      await setTripDraft(user.id, remaining.map(show => show.id));
+    }
+  };
+
+  const handleSaveSharedTrip = async () => {
+    if (!user) return;
+    await setTripDraft(user.id, shows.map(show => show.id));
+    navigation.setParams({ shows: undefined });
+    Alert.alert('Trip Saved', 'This trip is now your trip plan. Add more shows from their detail pages.');
+  };
+
+  const handleShare = async () => {
+    const { success, error } = await shareTrip(
+      itinerary.stops.map(stop => stop.show.id),
+      name
+    );
+    if (!success) Alert.alert('Error', error || 'Failed to share trip');
+  };
+
+  const handleExportCalendar = async () => {
+    const { success, error } = await exportTripToCalendar(itinerary, name);
+    if (!success) Alert.alert('Error', error || 'Failed to export trip');
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={ORANGE} />
+      </View>
+    );
+  }
+
+  if (shows.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="car-outline" size={56} color={DARK_GRAY} />
+        <Text style={styles.emptyTitle}>No shows in your trip yet</Text>
+        <Text style={styles.emptyText}>
+          Pick shows from My Shows, or tap Trip on any upcoming show&apos;s page.
+        </Text>
+      </View>
+    );
+  }
+
+  let lastDate: string | null = null;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TextInput
+        style={styles.nameInput}
+        value={name}
+        onChangeText={setName}
+        placeholder="Trip name"
+        maxLength={60}
+      />
+      <Text style={styles.summary}>
+        {itinerary.stops.length} of {shows.length} shows · {Math.round(itinerary.totalMiles)} mi of driving
+      </Text>
+
+      {isSharedTrip && user && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleSaveSharedTrip}>
+          <Ionicons name="bookmark-outline" size={18} color={BLUE} />
+          <Text style={styles.secondaryButtonText}>Use as my trip plan</Text>
+        </TouchableOpacity>
+      )}
+
+      {conflicts.length > 0 && (
+        <View style={styles.warningBox}>
+          <Ionicons name="time-outline" size={18} color={ORANGE} />
+          <View style={styles.warningTextContainer}>
+            {conflicts.map(conflict => (
+              <Text key={`${conflict.showIds.join('-')}-${conflict.date}`} style={styles.warningText}>
+                {titleOf(conflict.showIds[0])} and {titleOf(conflict.showIds[1])} are both open on{' '}
+                {formatDay(conflict.date)} ({conflict.overlapMinutes} min overlap)
+              </Text>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {itinerary.stops.map((stop, index) => {
+        const showDay = stop.date !== lastDate;
+        lastDate = stop.date;
+        const drive = formatDrive(stop, index === 0);
+        return (
+          <View key={stop.show.id}>
+            {showDay && <Text style={styles.dayHeader}>{formatDay(stop.date)}</Text>}
+            {drive && (
+              <View style={styles.driveRow}>
+                <Ionicons name="car-outline" size={16} color={DARK_GRAY} />
+                <Text style={styles.driveText}>{drive}</Text>
+              </View>
+            )}
+            <TouchableOpacity
+              style={styles.stopCard}
+              onPress={() => navigation.navigate('ShowDetail', { showId: stop.show.id })}
+            >
+              <View style={styles.stopNumber}>
+                <Text style={styles.stopNumberText}>{index + 1}</Text>
+              </View>
+              <View style={styles.stopInfo}>
+                <Text style={styles.stopTime}>
+                  {formatTripTime(stop.arriveMinutes)} – {formatTripTime(stop.departMinutes)}
+                </Text>
+                <Text style={styles.stopTitle}>{stop.show.title}</Text>
+                <Text style={styles.stopMeta}>{stop.show.location}</Text>
+                {!stop.hoursKnown && (
+                  <Text style={styles.stopMeta}>Hours not listed – assuming 9 AM to 5 PM</Text>
+                )}
+              </View>
+              <TouchableOpacity
+                onPress={() => handleRemove(stop.show.id)}
+                accessibilityLabel={`Remove ${stop.show.title} from trip`}
+                style={styles.removeButton}
+              >
+                <Ionicons name="close-circle-outline" size={22} color={DARK_GRAY} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {itinerary.skipped.length > 0 && (
+        <View style={styles.skippedSection}>
+          <Text style={styles.sectionTitle}>Doesn&apos;t fit</Text>
+          {itinerary.skipped.map(({ show, reason }) => (
+            <View key={show.id} style={styles.skippedRow}>
+              <View style={styles.stopInfo}>
+                <Text style={styles.stopTitle}>{show.title}</Text>
+                <Text style={styles.stopMeta}>
+                  {reason === 'ended' ? 'This show has already ended' : 'Not enough time around the other stops'}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleRemove(show.id)}
+                accessibilityLabel={`Remove ${show.title} from trip`}
+                style={styles.removeButton}
+              >
+                <Ionicons name="close-circle-outline" size={22} color={DARK_GRAY} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {itinerary.stops.length > 0 && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleExportCalendar}>
+            <Ionicons name="calendar-outline" size={18} color="#fff" />
+            <Text style={styles.primaryButtonText}>Add to Calendar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleShare}>
+            <Ionicons name="share-outline" size={18} color={BLUE} />
+            <Text style={styles.secondaryButtonText}>Share Trip Link</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#f5f5f5',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: DARK_GRAY,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  nameInput: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: BLUE,
+    paddingVertical: 4,
+  },
+  summary: {
+    fontSize: 14,
+    color: DARK_GRAY,
+    marginBottom: 12,
+  },
+  warningBox: {
+    flexDirection: 'row',
+    backgroundColor: '#FFF4EC',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningTextContainer: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#333',
+    marginBottom: 4,
+  },
+  dayHeader: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  driveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 12,
+    marginBottom: 6,
+  },
+  driveText: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    marginLeft: 6,
+  },
+  stopCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  stopNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: ORANGE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  stopNumberText: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopTime: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: BLUE,
+  },
+  stopTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 2,
+  },
+  stopMeta: {
+    fontSize: 13,
+    color: DARK_GRAY,
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  skippedSection: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 8,
+  },
+  skippedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    opacity: 0.7,
+  },
+  actions: {
+    marginTop: 16,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: ORANGE,
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginBottom: 10,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: BLUE,
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginBottom: 10,
+  },
+  secondaryButtonText: {
+    color: BLUE,
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
+
+export default TripPlannerScreen;
@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+/**
+ * Import Shows Script
+ *
+ * Command-line client for the show-import edge function, the same pipeline
+ * as the Import page of the admin dashboard. Reads a CSV, TSV, XLSX or JSON
+ * file, prints the row-by-row validation report and what each row would
+ * add or change, and (without --dry-run) queues the valid rows in
+ * scraped_shows_pending for review.
+ *
+ * Usage:
+ * 1. Make sure environment variables are set:
+ *    - SUPABASE_URL
+ *    - SUPABASE_SERVICE_ROLE_KEY
+ * 2. Run with: npm run shows:import -- --file path/to/shows.csv [options]
+ *    - --file path: File to import (required)
+ *    - --profile name: Saved column mapping profile (default: suggested from the headers)
+ *    - --source label: Source label, when not taken from the profile
+ *    - --format csv|tsv|xlsx|json: Override detection by file extension
+ *    - --sheet name: XLSX sheet to read (default: the first)
+ *    - --dry-run: Report and diff only, nothing is queued
+ */
+
+// Load environment variables
+import 'dotenv/config';
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+
+// Import service modules
+import { serviceSupabase } from './_supabaseService';
+
+interface ImportArgs {
+  filePath: string | null;
+  profileName: string | null;
+  sourceLabel: string | null;
+  format: string | null;
+  sheet: string | null;
+  dryRun: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+const parseCommandLineArgs = (): ImportArgs => {
+  const args: ImportArgs = {
+    filePath: null,
+    profileName: null,
+    sourceLabel: null,
+    format: null,
+    sheet: null,
+    dryRun: false,
+  };
+  const valueFlags: Record<string, keyof ImportArgs> = {
+    '--file': 'filePath',
+    '-f': 'filePath',
+    '--profile': 'profileName',
+    '-p': 'profileName',
+    '--source': 'sourceLabel',
+    '--format': 'format',
+    '--sheet': 'sheet',
+  };
+
+  for (let i = 2; i < process.argv.length; i++) {
+    const flag = process.argv[i];
+    if (valueFlags[flag] && i + 1 < process.argv.length) {
+      (args as any)[valueFlags[flag]] = process.argv[i + 1];
+      i++; // Skip the next argument as we've consumed it
+    } else if (flag === '--dry-run' || flag === '-d') {
+      args.dryRun = true;
+    } else if (!args.filePath && !flag.startsWith('-')) {
+      args.filePath = flag;
+    }
+  }
+
+  return args;
+};
+
+/**
+ * Show help information
+ */
+const showHelp = (): void => {
+  console.log(`
+Import Shows Script
+===================
+
+Check a file of shows and queue them for admin review.
+
+Usage:
+  npm run shows:import -- --file path/to/shows.csv [options]
+
+Options:
+  -f, --file        File to import: .csv, .tsv, .xlsx or .json (required)
+  -p, --profile     Saved column mapping profile, e.g. "Scraper CSV"
+  --source          Source label for re-imports (default: the profile's, or the file name)
+  --format          csv, tsv, xlsx or json, when the extension doesn't say
+  --sheet           XLSX sheet to read (default: the first)
+  -d, --dry-run     Report and diff only; nothing is queued
+
+Without a profile, columns are mapped from their headers. Required fields:
+show name, start date, city and state.
+
+Example:
+  npm run shows:import -- --file data/indy-shows.xlsx --profile "Show series JSON" --dry-run
+  `);
+};
+
+/**
+ * Call the show-import function, returning its data or throwing its error
+ */
+const callImport = async (action: 'preview' | 'commit', body: Record<string, any>): Promise<any> => {
+  const { data, error } = await serviceSupabase.functions.invoke(`show-import/${action}`, { body });
+
+  if (error) {
+    const details = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  return data.data;
+};
+
+/**
+ * Print the validation report and diff
+ */
+const printReport = (result: any): void => {
+  const { summary } = result;
+
+  console.log(chalk.cyan(`\nFormat: ${result.format}${result.sheet ? ` (sheet "${result.sheet}")` : ''}`));
+  console.log(chalk.cyan(`Source label: ${result.sourceLabel}`));
+  console.log(chalk.bold('\nColumns:'));
+  for (const [field, columns] of Object.entries(result.mapping as Record<string, string[]>)) {
+    console.log(`  ${field.padEnd(12)} ← ${columns.join(' + ')}`);
+  }
+  if (result.unmappedRequired.length > 0) {
+    console.log(chalk.red(`  No column for: ${result.unmappedRequired.join(', ')}`));
+  }
+
+  console.log(chalk.bold('\nRows:'));
+  for (const row of result.rows) {
+    if (row.valid && row.action === 'unchanged' && row.issues.length === 0) continue;
+
+    const label = `Row ${row.rowNumber}: ${row.show.name || '(no name)'} ${row.show.startDate || ''}`;
+    if (!row.valid) {
+      console.log(chalk.red(`  ✗ ${label}`));
+    } else if (row.action === 'update') {
+      console.log(chalk.blue(`  ~ ${label} → updates "${row.match.title}"`));
+    } else {
+      console.log(chalk.green(`  + ${label}`));
+    }
+
+    for (const issue of row.issues) {
+      const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+      console.log(color(`      ${issue.severity}: ${issue.message}`));
+    }
+    for (const change of row.changes) {
+      console.log(`      ${change.field}: ${chalk.gray(change.from || 'empty')} → ${change.to}`);
+    }
+  }
+
+  console.log(chalk.bold(`\nTotal rows: ${summary.totalRows}`));
+  console.log(`With errors: ${chalk.red(String(summary.invalidRows))}`);
+  console.log(`With warnings: ${chalk.yellow(String(summary.warningRows))}`);
+  console.log(`New shows: ${chalk.green(String(summary.new))}`);
+  console.log(`Updates: ${chalk.blue(String(summary.update))}`);
+  console.log(`Unchanged: ${summary.unchanged}`);
+};
+
+/**
+ * Run the script directly if executed with node/ts-node
+ */
+if (require.main === module) {
+  (async () => {
+    try {
+      console.log(chalk.bold.magenta('\n=== SHOW IMPORT SCRIPT ==='));
+
+      const args = parseCommandLineArgs();
+
+      if (!args.filePath) {
+        console.error(chalk.red('Error: No file path provided.'));
+        showHelp();
+        process.exit(1);
+      }
+
+      if (!fs.existsSync(args.filePath)) {
+        throw new Error(`File not found: ${args.filePath}`);
+      }
+
+      const body = {
+        fileName: path.basename(args.filePath),
+        content: fs.readFileSync(args.filePath).toString('base64'),
+        profileName: args.profileName || undefined,
+        sourceLabel: args.sourceLabel || undefined,
+        format: args.format || undefined,
+        sheet: args.sheet || undefined,
+      };
+
+      if (args.dryRun) {
+        console.log(chalk.yellow('DRY RUN MODE: Nothing will be queued'));
+        printReport(await callImport('preview', body));
+        process.exit(0);
+      }
+
+      const result = await callImport('commit', body);
+      printReport(result);
+      console.log(chalk.bold.green(`\n${result.queued} shows queued for review (batch ${result.batchId})`));
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.bold.red('\nImport failed:'), error.message);
+      process.exit(1);
+    }
+  })();
+}
@@ -0,0 +1,86 @@
+/**
+ * API Key Service
+ *
+ * Admin management of the per-consumer keys used by the read-only
+ * `public-api` edge function. Keys are stored hashed; `createApiKey`
+ * returns the only copy of the plaintext key.
+ */
+
+import { supabase } from '../supabase';
+import { ApiKey, ApiKeyInput } from '../types';
+
+const mapDbApiKey = (row: any): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  contactEmail: row.contact_email ?? null,
+  keyPrefix: row.key_prefix,
+  requestsPerMinute: row.requests_per_minute,
+  dailyQuota: row.daily_quota,
+  notes: row.notes ?? null,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at ?? null,
+  revokedAt: row.revoked_at ?? null,
+});
+
+/**
+ * All issued keys, active first (admins only)
+ */
+export const getApiKeys = async (): Promise<{ data: ApiKey[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(
+        'id, name, contact_email, key_prefix, requests_per_minute, daily_quota, notes, created_at, last_used_at, revoked_at'
+      )
+      .order('revoked_at', { ascending: false, nullsFirst: true })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return { data: (data ?? []).map(mapDbApiKey), error: null };
+  } catch (err: any) {
+    console.error('[apiKeyService] Error fetching API keys:', err);
+    return { data: [], error: err.message ?? 'Failed to load API keys' };
+  }
+};
+
+/**
+ * Issue a new key (admins only)
+ * @returns The new key's id and the plaintext key – it cannot be retrieved again
+ */
+export const createApiKey = async (
+  input: ApiKeyInput
+): Promise<{ data: { id: string; apiKey: string } | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('create_api_key', {
+      p_name: input.name.trim(),
+      p_contact_email: input.contactEmail?.trim() || null,
+      p_requests_per_minute: input.requestsPerMinute,
+      p_daily_quota: input.dailyQuota,
+      p_notes: input.notes?.trim() || null,
+    });
+
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row?.api_key) throw new Error('No key returned');
+
+    return { data: { id: row.id, apiKey: row.api_key }, error: null };
+  } catch (err: any) {
+    console.error('[apiKeyService] Error creating API key:', err);
+    return { data: null, error: err.message ?? 'Failed to create API key' };
+  }
+};
+
+/**
+ * Revoke a key (admins only). Requests using it are rejected immediately.
+ */
+export const revokeApiKey = async (id: string): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('revoke_api_key', { p_id: id });
+
+    if (error) throw error;
+    return { success: true, error: null };
+  } catch (err: any) {
+    console.error('[apiKeyService] Error revoking API key:', err);
+    return { success: false, error: err.message ?? 'Failed to revoke API key' };
+  }
+};
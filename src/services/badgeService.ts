@@ -1,5 +1,22 @@
 import { supabase } from '../supabase';
-import { Badge, BadgeTier } from '../types';
+import { Badge, BadgeDefinitionInput, BadgeMetric, BadgeProgress, BadgeTier } from '../types';
+import { pickNextBadge, progressPercent } from '../utils/badgeRules';
+
+/**
+ * Map a badges_definitions row to our Badge type
+ */
+const mapBadgeDefinition = (badge: any): Badge => ({
+  id: badge.id,
+  name: badge.name,
+  description: badge.description,
+  imageUrl: badge.image_url,
+  requirement: badge.requirement,
+  tier: badge.tier as BadgeTier,
+  metric: badge.metric as BadgeMetric,
+  threshold: badge.threshold,
+  params: badge.params ?? {},
+  isActive: badge.is_active,
+});
 
 /**
  * Get all badge definitions from the database
@@ -9,6 +26,7 @@ export const getAllBadgeDefinitions = async (): Promise<Badge[]> => {
     const { data, error } = await supabase
       .from('badges_definitions')
       .select('*')
+      .eq('is_active', true)
       .order('requirement_count', { ascending: true });
     
     if (error) {
@@ -20,14 +38,7 @@ export const getAllBadgeDefinitions = async (): Promise<Badge[]> => {
     }
     
     // Map the database records to our Badge type
-    return data.map(badge => ({
-      id: badge.id,
-      name: badge.name,
-      description: badge.description,
-      imageUrl: badge.image_url,
-      requirement: badge.requirement,
-      tier: badge.tier as BadgeTier,
-    }));
+    return data.map(mapBadgeDefinition);
   } catch (_error) {
     console.error('Error fetching badge definitions:', _error);
     return []; // Return empty array instead of throwing to prevent UI crashes
@@ -79,15 +90,7 @@ export const getUserBadges = async (userId: string): Promise<Badge[]> => {
       }
       
       // Map to our Badge type
-      return {
-        id: badgeDef.id,
-        name: badgeDef.name,
-        description: badgeDef.description,
-        imageUrl: badgeDef.image_url,
-        requirement: badgeDef.requirement,
-        tier: badgeDef.tier as BadgeTier,
-        dateEarned: userBadge.earned_at,
-      };
+      return { ...mapBadgeDefinition(badgeDef), dateEarned: userBadge.earned_at };
     }).filter(badge => badge !== null) as Badge[]; // Remove any nulls
   } catch (_error) {
     console.error('Error fetching user badges:', _error);
@@ -161,91 +164,43 @@ export const getUserFeaturedBadges = async (userId: string, limit: number = 3):
 };
 
 /**
- * Get a user's next badge to earn (lowest requirement badge not yet earned)
+ * Get a user's progress towards every active badge (and any retired badge
+ * they already hold). Rules are evaluated server-side.
  * @param userId The ID of the user
  */
-export const getUserNextBadge = async (userId: string): Promise<Badge | null> => {
+export const getBadgeProgressList = async (userId: string): Promise<BadgeProgress[]> => {
   try {
-    const unearnedBadges = await getUnearnedBadges(userId);
+    const { data, error } = await supabase.rpc('get_badge_progress', { p_user_id: userId });
 
-    if (unearnedBadges.length === 0) {
-      return null;
-    }
-    
-    // Get the user's show attendance count from profile
-    const { data: profileData, error: profileError } = await supabase
-      .from('profiles')
-      .select('show_attendance_count')
-      .eq('id', userId)
-      .single();
-    
-    if (profileError) {
-      console.error('Error fetching profile data:', profileError);
-      return null; // Return null instead of throwing
-    }
-    
-    const attendanceCount = profileData?.show_attendance_count || 0;
-    
-    // Filter attendance badges and find the one with the lowest requirement above current count
-    const attendanceBadges = unearnedBadges.filter(
-      badge => badge.requirement === 'show_attendance'
-    );
-    
-    if (attendanceBadges.length === 0) {
-      return null;
-    }
-    
-    // Get badge definitions to access requirement_count
-    const { data: badgeDefinitions, error: badgeError } = await supabase
-      .from('badges_definitions')
-      .select('*')
-      .in('id', attendanceBadges.map(badge => badge.id))
-      .order('requirement_count', { ascending: true });
-    
-    if (badgeError) {
-      console.error('Error fetching badge definitions:', badgeError);
-      return null; // Return null instead of throwing
-    }
-    
-    if (!badgeDefinitions || badgeDefinitions.length === 0) {
-      return null;
-    }
-    
-    // Find the next badge to earn (lowest requirement_count above current attendance)
-    const nextBadgeDef = badgeDefinitions.find(
-      badge => badge.requirement_count > attendanceCount
-    );
-    
-    if (!nextBadgeDef) {
-      // If no badge found above current count, return the highest requirement badge
-      const highestBadgeDef = badgeDefinitions[badgeDefinitions.length - 1];
-      
-      // Map to our Badge type
-      return {
-        id: highestBadgeDef.id,
-        name: highestBadgeDef.name,
-        description: highestBadgeDef.description,
-        imageUrl: highestBadgeDef.image_url,
-        requirement: highestBadgeDef.requirement,
-        tier: highestBadgeDef.tier as BadgeTier,
-      };
+    if (error) {
+      throw error;
     }
-    
-    // Map to our Badge type
-    return {
-      id: nextBadgeDef.id,
-      name: nextBadgeDef.name,
-      description: nextBadgeDef.description,
-      imageUrl: nextBadgeDef.image_url,
-      requirement: nextBadgeDef.requirement,
-      tier: nextBadgeDef.tier as BadgeTier,
-    };
+
+    return (data || []).map((row: any) => ({
+      badge: {
+        ...mapBadgeDefinition({ ...row, id: row.badge_id }),
+        dateEarned: row.earned_at ?? undefined,
+      },
+      current: row.current_value,
+      required: row.threshold,
+      percent: row.earned_at ? 100 : progressPercent(row.current_value, row.threshold),
+      earned: !!row.earned_at,
+    }));
   } catch (_error) {
-    console.error('Error fetching next badge:', _error);
-    return null; // Return null instead of throwing to prevent UI crashes
+    console.error('Error fetching badge progress:', _error);
+    return []; // Return empty array instead of throwing to prevent UI crashes
   }
 };
 
+/**
+ * Get a user's next badge to earn (the unearned badge they are closest to)
+ * @param userId The ID of the user
+ */
+export const getUserNextBadge = async (userId: string): Promise<Badge | null> => {
+  const next = pickNextBadge(await getBadgeProgressList(userId));
+  return next ? next.badge : null;
+};
+
 /**
  * Get badge progress information for a user
  * @param userId The ID of the user
@@ -259,47 +214,121 @@ export const getBadgeProgress = async (
   required: number;
   percent: number;
 } | null> => {
+  const progress = (await getBadgeProgressList(userId)).find(p => p.badge.id === badgeId);
+
+  if (!progress) {
+    return null;
+  }
+
+  return {
+    current: progress.current,
+    required: progress.required,
+    percent: progress.percent,
+  };
+};
+
+const toDefinitionRow = (input: Partial<BadgeDefinitionInput>) => {
+  const row: Record<string, unknown> = {};
+  if (input.name !== undefined) row.name = input.name.trim();
+  if (input.description !== undefined) row.description = input.description.trim();
+  if (input.tier !== undefined) row.tier = input.tier;
+  if (input.imageUrl !== undefined) row.image_url = input.imageUrl;
+  if (input.metric !== undefined) row.metric = input.metric;
+  if (input.threshold !== undefined) row.threshold = input.threshold;
+  if (input.params !== undefined) row.params = input.params;
+  if (input.isActive !== undefined) row.is_active = input.isActive;
+  return row;
+};
+
+/**
+ * Admin: every badge definition, including inactive ones
+ */
+export const getBadgeDefinitionsForAdmin = async (): Promise<{ data: Badge[]; error: string | null }> => {
   try {
-    // Get the badge definition
-    const { data: badgeDef, error: badgeError } = await supabase
+    const { data, error } = await supabase
       .from('badges_definitions')
       .select('*')
-      .eq('id', badgeId)
-      .single();
-    if (badgeError) {
-      console.error('Error fetching badge definition:', badgeError);
-      return null; // Return null instead of throwing
+      .order('metric', { ascending: true })
+      .order('threshold', { ascending: true });
+
+    if (error) {
+      throw error;
     }
-    
-    if (!badgeDef) {
-      console.error('Badge not found');
-      return null; // Return null instead of throwing
+
+    return { data: (data || []).map(mapBadgeDefinition), error: null };
+  } catch (_error) {
+    console.error('Error fetching badge definitions for admin:', _error);
+    return { data: [], error: 'Unable to load badges.' };
+  }
+};
+
+/**
+ * Admin: add a badge. It takes effect on users' next qualifying event;
+ * call backfillBadge to award it to users who already qualify.
+ */
+export const createBadgeDefinition = async (
+  input: BadgeDefinitionInput
+): Promise<{ data: Badge | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('badges_definitions')
+      .insert(toDefinitionRow(input))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
     }
-    
-    // Get the user's profile to check progress
-    const { data: profileData, error: profileError } = await supabase
-      .from('profiles')
-      .select('show_attendance_count')
-      .eq('id', userId)
+
+    return { data: mapBadgeDefinition(data), error: null };
+  } catch (_error) {
+    console.error('Error creating badge definition:', _error);
+    return { data: null, error: 'Unable to create badge.' };
+  }
+};
+
+/**
+ * Admin: change a badge's rule or details, or retire it with isActive: false.
+ * Badges already earned are kept.
+ */
+export const updateBadgeDefinition = async (
+  badgeId: string,
+  changes: Partial<BadgeDefinitionInput>
+): Promise<{ data: Badge | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('badges_definitions')
+      .update(toDefinitionRow(changes))
+      .eq('id', badgeId)
+      .select('*')
       .single();
-    if (profileError) {
-      console.error('Error fetching profile data:', profileError);
-      return null; // Return null instead of throwing
+
+    if (error) {
+      throw error;
     }
 
-    const current = profileData?.show_attendance_count || 0;
-    const required = badgeDef.requirement_count || 0;
+    return { data: mapBadgeDefinition(data), error: null };
+  } catch (_error) {
+    console.error('Error updating badge definition:', _error);
+    return { data: null, error: 'Unable to update badge.' };
+  }
+};
+
+/**
+ * Admin: award a badge to every user who already meets its rule
+ * @returns The number of users newly awarded
+ */
+export const backfillBadge = async (badgeId: string): Promise<{ data: number; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('backfill_badge', { p_badge_id: badgeId });
 
-    // Calculate percentage (cap at 100%)
-    const percent = Math.min((current / required) * 100, 100);
+    if (error) {
+      throw error;
+    }
 
-    return {
-      current,
-      required,
-      percent,
-    };
+    return { data: data ?? 0, error: null };
   } catch (_error) {
-    console.error('Error getting badge progress:', _error);
-    return null; // Return null instead of throwing to prevent UI crashes
+    console.error('Error backfilling badge:', _error);
+    return { data: 0, error: 'Unable to award badge to existing users.' };
   }
 };
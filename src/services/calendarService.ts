@@ -0,0 +1,133 @@
+/**
+ * Calendar Service
+ *
+ * Exports shows as iCalendar (.ics) files and manages the private,
+ * token-protected calendar feed of a user's favorited / planned shows.
+ */
+
+import { Linking, Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { supabase } from '../supabase';
+import { Show } from '../types';
+import { generateShowCalendar } from '../utils/icalendar';
+
+const CALENDAR_FEED_FUNCTION_URL = `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+/**
+ * Build a filesystem-safe filename from the show title.
+ */
+const toIcsFilename = (show: Show): string => {
+  const base = (show.title || 'card-show')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${base || 'card-show'}.ics`;
+};
+
+/**
+ * Write a single show to an .ics file and hand it to the OS share sheet
+ * so the user can add it to Apple/Google/Outlook calendars.
+ */
+export const exportShowToCalendar = async (
+  show: Show
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const ics = generateShowCalendar([show]);
+    const fileUri = `${FileSystem.cacheDirectory}${toIcsFilename(show)}`;
+
+    await FileSystem.writeAsStringAsync(fileUri, ics, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    // iOS shares the file itself; Android's Share API only supports text,
+    // so fall back to the raw calendar payload there.
+    await Share.share(
+      Platform.OS === 'ios'
+        ? { url: fileUri, title: show.title }
+        : { message: ics, title: show.title }
+    );
+
+    return { success: true };
+  } catch (err: any) {
+    console.error('[calendarService] Error exporting show to calendar:', err);
+    return { success: false, error: err.message ?? 'Failed to export show' };
+  }
+};
+
+/**
+ * Fetch (or lazily create) the caller's private calendar feed token.
+ */
+export const getCalendarFeedToken = async (): Promise<{
+  token: string | null;
+  error: string | null;
+}> => {
+  try {
+    const { data, error } = await supabase.rpc('get_or_create_calendar_feed_token');
+    if (error) throw error;
+    return { token: (data as string) ?? null, error: null };
+  } catch (err: any) {
+    console.error('[calendarService] Error fetching calendar feed token:', err);
+    return { token: null, error: err.message ?? 'Failed to load calendar feed' };
+  }
+};
+
+/**
+ * Invalidate the current feed URL and issue a new one
+ * (e.g. if the user shared the link by mistake).
+ */
+export const rotateCalendarFeedToken = async (): Promise<{
+  token: string | null;
+  error: string | null;
+}> => {
+  try {
+    const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+    if (error) throw error;
+    return { token: (data as string) ?? null, error: null };
+  } catch (err: any) {
+    console.error('[calendarService] Error rotating calendar feed token:', err);
+    return { token: null, error: err.message ?? 'Failed to reset calendar feed' };
+  }
+};
+
+/**
+ * Build the subscribable feed URL for a token.
+ * `webcal://` makes iOS/macOS open the "Subscribe to calendar" flow.
+ */
+export const buildCalendarFeedUrl = (
+  token: string,
+  scheme: 'https' | 'webcal' = 'https'
+): string => {
+  const url = `${CALENDAR_FEED_FUNCTION_URL}?token=${encodeURIComponent(token)}`;
+  return scheme === 'webcal' ? url.replace(/^https?:\/\//, 'webcal://') : url;
+};
+
+/**
+ * Open the OS calendar subscription flow for the user's feed.
+ * Falls back to sharing the https URL when no app handles `webcal://`.
+ */
+export const subscribeToCalendarFeed = async (): Promise<{
+  success: boolean;
+  error?: string;
+}> => {
+  const { token, error } = await getCalendarFeedToken();
+  if (!token) {
+    return { success: false, error: error ?? 'Calendar feed unavailable' };
+  }
+
+  try {
+    const webcalUrl = buildCalendarFeedUrl(token, 'webcal');
+    if (await Linking.canOpenURL(webcalUrl)) {
+      await Linking.openURL(webcalUrl);
+    } else {
+      await Share.share({
+        message: buildCalendarFeedUrl(token),
+        title: 'My Card Shows calendar',
+      });
+    }
+    return { success: true };
+  } catch (err: any) {
+    console.error('[calendarService] Error subscribing to calendar feed:', err);
+    return { success: false, error: err.message ?? 'Failed to open calendar' };
+  }
+};
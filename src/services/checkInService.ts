@@ -0,0 +1,142 @@
+/**
+ * Check-In Service
+ *
+ * Verified show check-ins (`show_check_ins`): attendees check in with the
+ * organizer's rotating QR code or, during the show, by location. The
+ * database turns check-ins into attendance counts, badges and post-show
+ * review requests.
+ */
+
+import { supabase } from '../supabase';
+import { ShowCheckIn, ShowCheckInCode } from '../types';
+import { getCurrentLocation } from './locationService';
+
+const mapDbCheckIn = (row: any): ShowCheckIn => ({
+  id: row.id,
+  showId: row.show_id,
+  userId: row.user_id,
+  method: row.method,
+  distanceMeters: row.distance_meters !== null && row.distance_meters !== undefined ? Number(row.distance_meters) : null,
+  checkedInAt: row.checked_in_at,
+});
+
+/**
+ * The current user's check-in for a show, if any
+ */
+export const getMyCheckIn = async (
+  showId: string,
+  userId: string
+): Promise<{ data: ShowCheckIn | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('show_check_ins')
+      .select('*')
+      .eq('show_id', showId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { data: data ? mapDbCheckIn(data) : null, error: null };
+  } catch (err: any) {
+    console.error('[checkInService] Error fetching check-in:', err);
+    return { data: null, error: err.message ?? 'Failed to load check-in' };
+  }
+};
+
+/**
+ * Check in with a code scanned from the organizer's QR display
+ */
+export const checkInWithCode = async (
+  showId: string,
+  code: string
+): Promise<{ data: ShowCheckIn | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('check_in_to_show', {
+      p_show_id: showId,
+      p_code: code,
+    });
+
+    if (error) throw error;
+    return { data: mapDbCheckIn(data), error: null };
+  } catch (err: any) {
+    console.error('[checkInService] Error checking in with code:', err);
+    return { data: null, error: err.message ?? 'Failed to check in' };
+  }
+};
+
+/**
+ * Check in using the device location; must be at the venue while the show is running
+ */
+export const checkInWithLocation = async (
+  showId: string
+): Promise<{ data: ShowCheckIn | null; error: string | null }> => {
+  try {
+    const location = await getCurrentLocation();
+    if (!location) {
+      return { data: null, error: 'Location is unavailable. Allow location access or scan the code at the entrance.' };
+    }
+
+    const { data, error } = await supabase.rpc('check_in_to_show', {
+      p_show_id: showId,
+      p_latitude: location.latitude,
+      p_longitude: location.longitude,
+    });
+
+    if (error) throw error;
+    return { data: mapDbCheckIn(data), error: null };
+  } catch (err: any) {
+    console.error('[checkInService] Error checking in by location:', err);
+    return { data: null, error: err.message ?? 'Failed to check in' };
+  }
+};
+
+/**
+ * The rotating check-in code for a show (organizers only)
+ */
+export const getShowCheckInCode = async (
+  showId: string
+): Promise<{ data: ShowCheckInCode | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_show_check_in_code', { p_show_id: showId });
+
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row?.code) throw new Error('No check-in code returned');
+
+    return { data: { code: row.code, expiresAt: row.expires_at }, error: null };
+  } catch (err: any) {
+    console.error('[checkInService] Error fetching check-in code:', err);
+    return { data: null, error: err.message ?? 'Failed to load check-in code' };
+  }
+};
+
+/**
+ * Number of attendees checked in to a show (organizers only)
+ */
+export const getShowCheckInCount = async (
+  showId: string
+): Promise<{ data: number; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_show_check_in_count', { p_show_id: showId });
+
+    if (error) throw error;
+    return { data: Number(data ?? 0), error: null };
+  } catch (err: any) {
+    console.error('[checkInService] Error fetching check-in count:', err);
+    return { data: 0, error: err.message ?? 'Failed to load check-in count' };
+  }
+};
+
+/**
+ * Record that the current user visited a dealer's booth. Only counts while
+ * they're checked in to the running show; otherwise the server ignores it.
+ * Fire-and-forget.
+ */
+export const recordBoothVisit = (showId: string, dealerId: string): void => {
+  if (!showId || !dealerId) return;
+  supabase
+    .rpc('record_booth_visit', { p_show_id: showId, p_dealer_id: dealerId })
+    .then(({ error }) => {
+      if (error) console.error('[checkInService] Error recording booth visit:', error);
+    });
+};
@@ -0,0 +1,77 @@
+/**
+ * Email Digest Service
+ *
+ * Reads and saves the user's weekly email digest settings. Digests are
+ * assembled and queued server-side by the `queue-weekly-digests` edge
+ * function and delivered by scripts/send-pending-emails.js.
+ */
+
+import { supabase } from '../supabase';
+import { EmailDigestPreferences } from '../types';
+
+export const DIGEST_RADIUS_OPTIONS = [25, 50, 100, 150];
+
+const defaultDigestPreferences = (): EmailDigestPreferences => ({
+  enabled: true,
+  sendDay: 4,
+  radiusMiles: 50,
+});
+
+/**
+ * Load the user's digest settings (defaults when never saved).
+ */
+export const getEmailDigestPreferences = async (
+  userId: string
+): Promise<{ data: EmailDigestPreferences | null; error: string | null }> => {
+  try {
+    // The unsubscribe token is not readable by the app, so list columns explicitly
+    const { data, error } = await supabase
+      .from('email_digest_preferences')
+      .select('weekly_digest_enabled, send_day, radius_miles')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { data: defaultDigestPreferences(), error: null };
+
+    return {
+      data: {
+        enabled: data.weekly_digest_enabled,
+        sendDay: data.send_day,
+        radiusMiles: data.radius_miles,
+      },
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[emailDigestService] Error fetching digest preferences:', err);
+    return { data: null, error: err.message ?? 'Failed to load email settings' };
+  }
+};
+
+/**
+ * Save (upsert) the user's digest settings.
+ */
+export const updateEmailDigestPreferences = async (
+  userId: string,
+  prefs: Partial<EmailDigestPreferences>
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const row: Record<string, unknown> = {
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    };
+    if (prefs.enabled !== undefined) row.weekly_digest_enabled = prefs.enabled;
+    if (prefs.sendDay !== undefined) row.send_day = prefs.sendDay;
+    if (prefs.radiusMiles !== undefined) row.radius_miles = prefs.radiusMiles;
+
+    const { error } = await supabase
+      .from('email_digest_preferences')
+      .upsert(row, { onConflict: 'user_id' });
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[emailDigestService] Error updating digest preferences:', err);
+    return { success: false, error: err.message ?? 'Failed to save email settings' };
+  }
+};
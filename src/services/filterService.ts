@@ -29,6 +29,9 @@ export const DEFAULT_FILTERS: ShowFilters = {
   categories: [],
 };
 
+// How often a watched preset sends its digest of new shows
+export type WatchFrequency = 'instant' | 'daily' | 'weekly';
+
 // Interface for filter presets
 export interface FilterPreset {
   id?: string;
@@ -36,10 +39,35 @@ export interface FilterPreset {
   name: string;
   filters: ShowFilters;
   isDefault?: boolean;
+  /** Watched presets notify the user about newly published matching shows */
+  watchEnabled?: boolean;
+  watchFrequency?: WatchFrequency;
+  watchLastNotifiedAt?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 }
 
+/**
+ * Map a filter_presets row to our FilterPreset interface
+ */
+const mapDbPreset = (item: any): FilterPreset => ({
+  id: item.id,
+  userId: item.user_id,
+  name: item.name,
+  filters: {
+    ...item.filters,
+    // Convert ISO strings back to Date objects
+    startDate: item.filters.startDate ? new Date(item.filters.startDate) : null,
+    endDate: item.filters.endDate ? new Date(item.filters.endDate) : null,
+  },
+  isDefault: item.is_default,
+  watchEnabled: !!item.watch_enabled,
+  watchFrequency: item.watch_frequency ?? 'daily',
+  watchLastNotifiedAt: item.watch_last_notified_at ?? null,
+  createdAt: item.created_at,
+  updatedAt: item.updated_at,
+});
+
 /**
  * Save temporary filters to AsyncStorage
  */
@@ -191,20 +219,7 @@ export const createFilterPreset = async (
     }
     
     // Map the database response to our FilterPreset interface
-    const createdPreset: FilterPreset = {
-      id: data.id,
-      userId: data.user_id,
-      name: data.name,
-      filters: {
-        ...data.filters,
-        // Convert ISO strings back to Date objects
-        startDate: data.filters.startDate ? new Date(data.filters.startDate) : null,
-        endDate: data.filters.endDate ? new Date(data.filters.endDate) : null,
-      },
-      isDefault: data.is_default,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    const createdPreset: FilterPreset = mapDbPreset(data);
     
     // Update local cache
     const localPresets = await loadFilterPresetsFromAsyncStorage(preset.userId);
@@ -237,20 +252,7 @@ export const loadFilterPresetsFromSupabase = async (userId: string): Promise<Fil
     }
     
     // Map database response to our FilterPreset interface
-    const presets: FilterPreset[] = data.map(item => ({
-      id: item.id,
-      userId: item.user_id,
-      name: item.name,
-      filters: {
-        ...item.filters,
-        // Convert ISO strings to Date objects
-        startDate: item.filters.startDate ? new Date(item.filters.startDate) : null,
-        endDate: item.filters.endDate ? new Date(item.filters.endDate) : null,
-      },
-      isDefault: item.is_default,
-      createdAt: item.created_at,
-      updatedAt: item.updated_at,
-    }));
+    const presets: FilterPreset[] = data.map(mapDbPreset);
     
     // Update local cache
     await saveFilterPresetsToAsyncStorage(userId, presets);
@@ -309,20 +311,7 @@ export const updateFilterPreset = async (
     }
     
     // Map the database response to our FilterPreset interface
-    const updatedPreset: FilterPreset = {
-      id: data.id,
-      userId: data.user_id,
-      name: data.name,
-      filters: {
-        ...data.filters,
-        // Convert ISO strings back to Date objects
-        startDate: data.filters.startDate ? new Date(data.filters.startDate) : null,
-        endDate: data.filters.endDate ? new Date(data.filters.endDate) : null,
-      },
-      isDefault: data.is_default,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    const updatedPreset: FilterPreset = mapDbPreset(data);
     
     // Update local cache
     const localPresets = await loadFilterPresetsFromAsyncStorage(updatedPreset.userId);
@@ -426,19 +415,7 @@ export const getDefaultFilterPreset = async (userId: string): Promise<FilterPres
       return null;
     }
     
-    return {
-      id: data.id,
-      userId: data.user_id,
-      name: data.name,
-      filters: {
-        ...data.filters,
-        startDate: data.filters.startDate ? new Date(data.filters.startDate) : null,
-        endDate: data.filters.endDate ? new Date(data.filters.endDate) : null,
-      },
-      isDefault: data.is_default,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    return mapDbPreset(data);
   } catch (error) {
     console.error('Error getting default filter preset:', error);
     return null;
@@ -465,19 +442,7 @@ export const syncFilters = async (userId: string): Promise<void> => {
     const _localPresets = await loadFilterPresetsFromAsyncStorage(userId);
     
     // Map server presets to our format
-    const mappedServerPresets: FilterPreset[] = serverPresets.map(item => ({
-      id: item.id,
-      userId: item.user_id,
-      name: item.name,
-      filters: {
-        ...item.filters,
-        startDate: item.filters.startDate ? new Date(item.filters.startDate) : null,
-        endDate: item.filters.endDate ? new Date(item.filters.endDate) : null,
-      },
-      isDefault: item.is_default,
-      createdAt: item.created_at,
-      updatedAt: item.updated_at,
-    }));
+    const mappedServerPresets: FilterPreset[] = serverPresets.map(mapDbPreset);
     
     // Update local cache with server data
     await saveFilterPresetsToAsyncStorage(userId, mappedServerPresets);
@@ -487,6 +452,51 @@ export const syncFilters = async (userId: string): Promise<void> => {
   }
 };
 
+/**
+ * Turn a preset's watch on or off, or change its digest frequency.
+ * Turning a watch on only reports shows published from then on.
+ */
+export const setFilterPresetWatch = async (
+  presetId: string,
+  watch: { enabled: boolean; frequency?: WatchFrequency }
+): Promise<FilterPreset | null> => {
+  try {
+    const updateData: Record<string, any> = { watch_enabled: watch.enabled };
+    if (watch.frequency) {
+      updateData.watch_frequency = watch.frequency;
+    }
+
+    const { data, error } = await supabase
+      .from('filter_presets')
+      .update(updateData)
+      .eq('id', presetId)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const updatedPreset = mapDbPreset(data);
+
+    // Update local cache
+    const localPresets = await loadFilterPresetsFromAsyncStorage(updatedPreset.userId);
+    await saveFilterPresetsToAsyncStorage(
+      updatedPreset.userId,
+      localPresets.map(preset => (preset.id === presetId ? updatedPreset : preset))
+    );
+
+    return updatedPreset;
+  } catch (error) {
+    console.error('Error updating filter preset watch:', error);
+    throw new Error('Failed to update saved search alerts');
+  }
+};
+
 /**
  * Check if a filter matches the default filter values
  */
@@ -0,0 +1,209 @@
+/**
+ * Follow Service
+ *
+ * Follow / unfollow organizers, show series and dealers, and page through the
+ * home activity feed built from what the user follows. Feed events and
+ * follower notifications are created by database triggers.
+ */
+
+import { supabase } from '../supabase';
+import { ActivityFeedItem, FollowedTarget, FollowTargetType } from '../types';
+import { PaginationMeta } from './showService';
+
+export interface FollowSummary {
+  followerCount: number;
+  isFollowing: boolean;
+}
+
+/**
+ * Shape returned by `getActivityFeed` (same pagination as `getPaginatedShows`).
+ */
+export interface PaginatedActivityResult {
+  data: ActivityFeedItem[];
+  pagination: PaginationMeta;
+  error: string | null;
+}
+
+/**
+ * Start following a target. Following twice is a no-op.
+ */
+export const followTarget = async (
+  userId: string,
+  targetType: FollowTargetType,
+  targetId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (userId === targetId) {
+      return { success: false, error: "You can't follow yourself" };
+    }
+
+    const { error } = await supabase
+      .from('follows')
+      .upsert(
+        { follower_id: userId, target_type: targetType, target_id: targetId },
+        { onConflict: 'follower_id,target_type,target_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[followService] Error following target:', err);
+    return { success: false, error: err.message ?? 'Failed to follow' };
+  }
+};
+
+/**
+ * Stop following a target.
+ */
+export const unfollowTarget = async (
+  userId: string,
+  targetType: FollowTargetType,
+  targetId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('follows')
+      .delete()
+      .eq('follower_id', userId)
+      .eq('target_type', targetType)
+      .eq('target_id', targetId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[followService] Error unfollowing target:', err);
+    return { success: false, error: err.message ?? 'Failed to unfollow' };
+  }
+};
+
+/**
+ * Follower count for a target and whether the current user follows it.
+ */
+export const getFollowSummary = async (
+  targetType: FollowTargetType,
+  targetId: string
+): Promise<{ data: FollowSummary | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_follow_summary', {
+      p_target_type: targetType,
+      p_target_id: targetId,
+    });
+
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      data: {
+        followerCount: row?.follower_count ?? 0,
+        isFollowing: !!row?.is_following,
+      },
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[followService] Error fetching follow summary:', err);
+    return { data: null, error: err.message ?? 'Failed to load followers' };
+  }
+};
+
+/**
+ * Everything the current user follows, newest first.
+ */
+export const getMyFollows = async (): Promise<{ data: FollowedTarget[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_my_follows');
+
+    if (error) throw error;
+    return {
+      data: (data ?? []).map((row: any) => ({
+        targetType: row.target_type,
+        targetId: row.target_id,
+        name: row.target_name ?? '',
+        followedAt: row.created_at,
+      })),
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[followService] Error fetching follows:', err);
+    return { data: [], error: err.message ?? 'Failed to load follows' };
+  }
+};
+
+/**
+ * One page of the current user's activity feed, newest first.
+ */
+export const getActivityFeed = async (
+  params: { page?: number; pageSize?: number } = {}
+): Promise<PaginatedActivityResult> => {
+  const page = params.page ?? 1;
+  const pageSize = params.pageSize ?? 20;
+
+  try {
+    const { data, error } = await supabase.rpc('get_activity_feed', {
+      p_page: page,
+      p_page_size: pageSize,
+    });
+
+    if (error) throw error;
+
+    const rows = data ?? [];
+    const totalCount = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    return {
+      data: rows.map((row: any) => ({
+        id: row.id,
+        eventType: row.event_type,
+        targetType: row.target_type,
+        targetId: row.target_id,
+        targetName: row.target_name ?? '',
+        showId: row.show_id,
+        showTitle: row.show_title,
+        showStartDate: row.show_start_date,
+        showLocation: row.show_location,
+        message: row.message,
+        createdAt: row.created_at,
+      })),
+      pagination: {
+        totalCount,
+        pageSize,
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / pageSize),
+      },
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[followService] Error fetching activity feed:', err);
+    return {
+      data: [],
+      pagination: { totalCount: 0, pageSize, currentPage: page, totalPages: 0 },
+      error: err.message ?? 'Failed to load activity',
+    };
+  }
+};
+
+/**
+ * Post an update to the organizer's followers (optionally about one of their shows).
+ */
+export const postOrganizerUpdate = async (
+  organizerId: string,
+  message: string,
+  showId?: string | null
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const trimmed = message.trim();
+    if (!trimmed) {
+      return { success: false, error: 'Update cannot be empty' };
+    }
+    if (trimmed.length > 1000) {
+      return { success: false, error: 'Update cannot exceed 1000 characters' };
+    }
+
+    const { error } = await supabase
+      .from('organizer_updates')
+      .insert({ organizer_id: organizerId, message: trimmed, show_id: showId ?? null });
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[followService] Error posting organizer update:', err);
+    return { success: false, error: err.message ?? 'Failed to post update' };
+  }
+};
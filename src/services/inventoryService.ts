@@ -0,0 +1,354 @@
+/**
+ * Inventory Service
+ *
+ * Structured dealer inventory (`dealer_inventory_items`), which items a
+ * dealer is bringing to which show (`dealer_inventory_show_items`),
+ * inventory search on a show and bulk CSV import.
+ */
+
+import { supabase } from '../supabase';
+import { InventoryItem, InventoryItemInput, ShowInventoryItem } from '../types';
+import { storageService } from './storageService';
+
+// Rows sent per import_dealer_inventory call (the RPC accepts up to 1000)
+const IMPORT_BATCH_SIZE = 500;
+
+export interface InventorySearchOptions {
+  query?: string;
+  /** Same labels as the `dealerCardTypes` show filter */
+  cardTypes?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface InventoryImportResult {
+  inserted: number;
+  updated: number;
+  linked: number;
+}
+
+export const mapDbInventoryItem = (row: any): InventoryItem => ({
+  id: row.id,
+  dealerId: row.dealer_id,
+  sku: row.sku ?? null,
+  playerName: row.player_name,
+  setName: row.set_name ?? null,
+  year: row.year ?? null,
+  cardNumber: row.card_number ?? null,
+  grader: row.grader ?? null,
+  grade: row.grade ?? null,
+  cardTypes: row.card_types ?? [],
+  askingPrice: row.asking_price !== null && row.asking_price !== undefined ? Number(row.asking_price) : null,
+  quantity: row.quantity ?? 0,
+  photoPaths: row.photo_paths ?? [],
+  notes: row.notes ?? null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const mapInputToDb = (input: InventoryItemInput) => ({
+  sku: input.sku?.trim() || null,
+  player_name: input.playerName.trim(),
+  set_name: input.setName?.trim() || null,
+  year: input.year ?? null,
+  card_number: input.cardNumber?.trim() || null,
+  grader: input.grader?.trim() || null,
+  grade: input.grade?.trim() || null,
+  card_types: input.cardTypes,
+  asking_price: input.askingPrice ?? null,
+  quantity: input.quantity,
+  notes: input.notes?.trim() || null,
+});
+
+/**
+ * One-line description, e.g. "1952 Topps #311 Mickey Mantle PSA 4"
+ */
+export const formatInventoryTitle = (item: InventoryItemInput): string =>
+  [
+    item.year,
+    item.setName,
+    item.cardNumber ? `#${item.cardNumber}` : null,
+    item.playerName,
+    [item.grader, item.grade].filter(Boolean).join(' ') || null,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Get all inventory for a dealer (including sold-out items)
+ */
+export const getDealerInventory = async (
+  dealerId: string
+): Promise<{ data: InventoryItem[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('dealer_inventory_items')
+      .select('*')
+      .eq('dealer_id', dealerId)
+      .order('player_name', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data ?? []).map(mapDbInventoryItem), error: null };
+  } catch (err: any) {
+    console.error('[inventoryService] Error fetching dealer inventory:', err);
+    return { data: [], error: err.message ?? 'Failed to load inventory' };
+  }
+};
+
+/**
+ * Create or update an inventory item
+ * @param itemId Existing item to update; omit to create
+ */
+export const saveInventoryItem = async (
+  dealerId: string,
+  input: InventoryItemInput,
+  itemId?: string
+): Promise<{ data: InventoryItem | null; error: string | null }> => {
+  try {
+    if (!input.playerName?.trim()) {
+      return { data: null, error: 'Player is required' };
+    }
+
+    const query = itemId
+      ? supabase
+          .from('dealer_inventory_items')
+          .update(mapInputToDb(input))
+          .eq('id', itemId)
+          .eq('dealer_id', dealerId)
+      : supabase
+          .from('dealer_inventory_items')
+          .insert([{ ...mapInputToDb(input), dealer_id: dealerId }]);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return { data: null, error: `You already have an item with SKU "${input.sku}"` };
+      }
+      throw error;
+    }
+    return { data: mapDbInventoryItem(data), error: null };
+  } catch (err: any) {
+    console.error('[inventoryService] Error saving inventory item:', err);
+    return { data: null, error: err.message ?? 'Failed to save item' };
+  }
+};
+
+/**
+ * Delete an item and its photos
+ */
+export const deleteInventoryItem = async (
+  item: InventoryItem
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('dealer_inventory_items')
+      .delete()
+      .eq('id', item.id)
+      .eq('dealer_id', item.dealerId);
+
+    if (error) throw error;
+
+    // Best effort – an orphaned photo is harmless
+    await Promise.all(item.photoPaths.map(path => storageService.deleteImage(path)));
+    return { success: true, error: null };
+  } catch (err: any) {
+    console.error('[inventoryService] Error deleting inventory item:', err);
+    return { success: false, error: err.message ?? 'Failed to delete item' };
+  }
+};
+
+/**
+ * Upload a photo (base64 data URL from expo-image-picker) and attach it
+ */
+export const addInventoryPhoto = async (
+  item: InventoryItem,
+  imageDataUrl: string
+): Promise<{ data: InventoryItem | null; error: string | null }> => {
+  const { data: path, error: uploadError } = await storageService.uploadImage(
+    item.dealerId,
+    imageDataUrl,
+    `inventory/${item.id}_${Date.now()}.jpg`
+  );
+
+  if (uploadError || !path) {
+    return { data: null, error: uploadError?.message ?? 'Failed to upload photo' };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('dealer_inventory_items')
+      .update({ photo_paths: [...item.photoPaths, path] })
+      .eq('id', item.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: mapDbInventoryItem(data), error: null };
+  } catch (err: any) {
+    console.error('[inventoryService] Error attaching inventory photo:', err);
+    await storageService.deleteImage(path);
+    return { data: null, error: err.message ?? 'Failed to save photo' };
+  }
+};
+
+/**
+ * Detach and delete a photo
+ */
+export const removeInventoryPhoto = async (
+  item: InventoryItem,
+  path: string
+): Promise<{ data: InventoryItem | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('dealer_inventory_items')
+      .update({ photo_paths: item.photoPaths.filter(p => p !== path) })
+      .eq('id', item.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await storageService.deleteImage(path);
+    return { data: mapDbInventoryItem(data), error: null };
+  } catch (err: any) {
+    console.error('[inventoryService] Error removing inventory photo:', err);
+    return { data: null, error: err.message ?? 'Failed to remove photo' };
+  }
+};
+
+/**
+ * Signed URLs for item photos, keyed by storage path
+ */
+export const getInventoryPhotoUrls = async (
+  paths: string[]
+): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+  const { data } = await storageService.getMultipleImages(paths, {
+    transform: { width: 400, quality: 80 },
+  });
+  return data ?? {};
+};
+
+/**
+ * Ids of the items a dealer is bringing to a show
+ */
+export const getItemIdsForShow = async (
+  dealerId: string,
+  showId: string
+): Promise<{ data: string[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('dealer_inventory_show_items')
+      .select('item_id')
+      .eq('dealer_id', dealerId)
+      .eq('show_id', showId);
+
+    if (error) throw error;
+    return { data: (data ?? []).map((row: any) => row.item_id), error: null };
+  } catch (err: any) {
+    console.error('[inventoryService] Error fetching show items:', err);
+    return { data: [], error: err.message ?? 'Failed to load show items' };
+  }
+};
+
+/**
+ * Mark items as bringing (or no longer bringing) to a show
+ */
+export const setItemsBringingToShow = async (
+  dealerId: string,
+  showId: string,
+  itemIds: string[],
+  bringing: boolean
+): Promise<{ success: boolean; error: string | null }> => {
+  if (itemIds.length === 0) return { success: true, error: null };
+
+  try {
+    const { error } = bringing
+      ? await supabase
+          .from('dealer_inventory_show_items')
+          .upsert(
+            itemIds.map(itemId => ({ item_id: itemId, show_id: showId, dealer_id: dealerId })),
+            { onConflict: 'item_id,show_id', ignoreDuplicates: true }
+          )
+      : await supabase
+          .from('dealer_inventory_show_items')
+          .delete()
+          .eq('dealer_id', dealerId)
+          .eq('show_id', showId)
+          .in('item_id', itemIds);
+
+    if (error) throw error;
+    return { success: true, error: null };
+  } catch (err: any) {
+    console.error('[inventoryService] Error updating show items:', err);
+    return { success: false, error: err.message ?? 'Failed to update show items' };
+  }
+};
+
+/**
+ * Search what dealers are bringing to a show
+ */
+export const searchShowInventory = async (
+  showId: string,
+  options: InventorySearchOptions = {}
+): Promise<{ data: ShowInventoryItem[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('search_show_inventory', {
+      p_show_id: showId,
+      p_query: options.query?.trim() || null,
+      p_card_types: options.cardTypes?.length ? options.cardTypes : null,
+      p_limit: options.limit ?? 50,
+      p_offset: options.offset ?? 0,
+    });
+
+    if (error) throw error;
+    return {
+      data: (data ?? []).map((row: any) => ({
+        ...mapDbInventoryItem(row),
+        dealerName: row.dealer_name,
+        boothLocation: row.booth_location ?? null,
+      })),
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[inventoryService] Error searching show inventory:', err);
+    return { data: [], error: err.message ?? 'Failed to search inventory' };
+  }
+};
+
+/**
+ * Bulk import parsed CSV rows. Rows with a SKU update the existing item
+ * with that SKU. Sent in batches; a failed batch stops the import and the
+ * counts so far are returned with the error.
+ * @param showId Also mark every imported item as bringing to this show
+ */
+export const importInventory = async (
+  items: InventoryItemInput[],
+  showId?: string | null
+): Promise<{ data: InventoryImportResult; error: string | null }> => {
+  const totals: InventoryImportResult = { inserted: 0, updated: 0, linked: 0 };
+
+  for (let start = 0; start < items.length; start += IMPORT_BATCH_SIZE) {
+    const batch = items.slice(start, start + IMPORT_BATCH_SIZE).map(mapInputToDb);
+
+    const { data, error } = await supabase.rpc('import_dealer_inventory', {
+      p_items: batch,
+      p_show_id: showId ?? null,
+    });
+
+    if (error) {
+      console.error('[inventoryService] Error importing inventory:', error);
+      return {
+        data: totals,
+        error: `Import stopped at row ${start + 1}: ${error.message}`,
+      };
+    }
+
+    totals.inserted += data?.inserted ?? 0;
+    totals.updated += data?.updated ?? 0;
+    totals.linked += data?.linked ?? 0;
+  }
+
+  return { data: totals, error: null };
+};
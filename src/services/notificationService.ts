@@ -1 +1,239 @@
-// Notification Service placeholder
+/**
+ * Notification Service
+ *
+ * Registers this device for push notifications, manages the user's
+ * delivery preferences and reads / updates in-app notifications.
+ * Delivery itself happens server-side: every `user_notifications` row is
+ * queued in `notification_outbox` and sent by the
+ * `send-push-notifications` edge function.
+ */
+
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { supabase } from '../supabase';
+import { Notification, NotificationPreferences } from '../types';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+// Token registered during this session, so sign-out can remove it
+let registeredToken: string | null = null;
+
+const defaultPreferences = (): NotificationPreferences => ({
+  pushEnabled: true,
+  disabledTypes: [],
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE,
+});
+
+// Postgres TIME comes back as "HH:MM:SS"; the app works with "HH:MM"
+const toClock = (value?: string | null): string | null =>
+  value ? value.slice(0, 5) : null;
+
+const mapDbNotification = (row: any): Notification => ({
+  id: row.id,
+  userId: row.user_id,
+  title: row.title,
+  message: row.message,
+  type: row.type,
+  referenceId: row.reference_id ?? undefined,
+  isRead: !!row.is_read,
+  createdAt: row.created_at,
+});
+
+/**
+ * Ask for permission, obtain an Expo push token and register it for the
+ * signed-in user. Safe to call on every launch – registration is an upsert.
+ */
+export const registerForPushNotifications = async (): Promise<{
+  token: string | null;
+  error: string | null;
+}> => {
+  try {
+    if (!Device.isDevice) {
+      return { token: null, error: 'Push notifications require a physical device' };
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'default',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') {
+      return { token: null, error: 'Push notification permission not granted' };
+    }
+
+    const projectId =
+      Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+    const { error } = await supabase.rpc('register_push_device', {
+      p_token: token,
+      p_platform: Platform.OS,
+      p_device_name: Device.deviceName ?? null,
+      p_app_version: Constants.expoConfig?.version ?? null,
+    });
+    if (error) throw error;
+
+    registeredToken = token;
+    return { token, error: null };
+  } catch (err: any) {
+    console.error('[notificationService] Error registering for push notifications:', err);
+    return { token: null, error: err.message ?? 'Failed to register for notifications' };
+  }
+};
+
+/**
+ * Remove this device's token (call before signing out so the next
+ * account on the device doesn't receive the previous user's pushes).
+ */
+export const unregisterPushDevice = async (): Promise<{ success: boolean; error?: string }> => {
+  if (!registeredToken) return { success: true };
+
+  try {
+    const { error } = await supabase.rpc('unregister_push_device', {
+      p_token: registeredToken,
+    });
+    if (error) throw error;
+
+    registeredToken = null;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[notificationService] Error unregistering push device:', err);
+    return { success: false, error: err.message ?? 'Failed to unregister device' };
+  }
+};
+
+/**
+ * Load the user's delivery preferences (defaults when never saved).
+ */
+export const getNotificationPreferences = async (
+  userId: string
+): Promise<{ data: NotificationPreferences | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { data: defaultPreferences(), error: null };
+
+    return {
+      data: {
+        pushEnabled: data.push_enabled,
+        disabledTypes: data.disabled_types ?? [],
+        quietHoursStart: toClock(data.quiet_hours_start),
+        quietHoursEnd: toClock(data.quiet_hours_end),
+        timezone: data.timezone ?? DEFAULT_TIMEZONE,
+      },
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[notificationService] Error fetching notification preferences:', err);
+    return { data: null, error: err.message ?? 'Failed to load notification settings' };
+  }
+};
+
+/**
+ * Save (upsert) the user's delivery preferences.
+ */
+export const updateNotificationPreferences = async (
+  userId: string,
+  prefs: Partial<NotificationPreferences>
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const row: Record<string, unknown> = {
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    };
+    if (prefs.pushEnabled !== undefined) row.push_enabled = prefs.pushEnabled;
+    if (prefs.disabledTypes !== undefined) row.disabled_types = prefs.disabledTypes;
+    if (prefs.quietHoursStart !== undefined) row.quiet_hours_start = prefs.quietHoursStart;
+    if (prefs.quietHoursEnd !== undefined) row.quiet_hours_end = prefs.quietHoursEnd;
+    if (prefs.timezone !== undefined) row.timezone = prefs.timezone;
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert(row, { onConflict: 'user_id' });
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[notificationService] Error updating notification preferences:', err);
+    return { success: false, error: err.message ?? 'Failed to save notification settings' };
+  }
+};
+
+/**
+ * Fetch the user's most recent in-app notifications.
+ */
+export const getUserNotifications = async (
+  userId: string,
+  limit = 50
+): Promise<{ data: Notification[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return { data: (data ?? []).map(mapDbNotification), error: null };
+  } catch (err: any) {
+    console.error('[notificationService] Error fetching notifications:', err);
+    return { data: [], error: err.message ?? 'Failed to load notifications' };
+  }
+};
+
+/**
+ * Mark a single notification as read.
+ */
+export const markNotificationRead = async (
+  notificationId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('user_notifications')
+      .update({ is_read: true })
+      .eq('id', notificationId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[notificationService] Error marking notification read:', err);
+    return { success: false, error: err.message ?? 'Failed to update notification' };
+  }
+};
+
+/**
+ * Mark all of the user's notifications as read.
+ */
+export const markAllNotificationsRead = async (
+  userId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('user_notifications')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    console.error('[notificationService] Error marking notifications read:', err);
+    return { success: false, error: err.message ?? 'Failed to update notifications' };
+  }
+};
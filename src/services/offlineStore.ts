@@ -0,0 +1,325 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Show, ShowFilters, WantList } from '../types';
+import { calculateDistance } from '../utils/coordinateUtils';
+
+/**
+ * Persistent on-device store used when the app has no connection.
+ *
+ * Holds upcoming shows around the user's region, show details (including
+ * dealer booth info), favorites and the want list, plus a queue of writes
+ * made while offline. `offlineSyncService` fills it and replays the queue
+ * on reconnect; screens read from it through the regular services.
+ */
+
+// Define store keys
+const STORE_KEYS = {
+  SHOWS: 'offline:shows',
+  REGION: 'offline:region',
+  SHOW_DETAILS: 'offline:show_details',
+  FAVORITES: 'offline:favorites',
+  WANT_LIST: 'offline:want_list',
+  PENDING_WRITES: 'offline:pending_writes',
+};
+
+// Size limits so the store never grows without bound
+export const MAX_STORED_SHOWS = 500;
+export const MAX_STORED_SHOW_DETAILS = 50;
+
+export interface OfflineRegion {
+  latitude: number;
+  longitude: number;
+  radius: number; // miles
+  syncedAt: number;
+}
+
+export interface OfflineShowQuery extends ShowFilters {
+  latitude?: number;
+  longitude?: number;
+}
+
+export type PendingWrite =
+  | {
+      id: string;
+      type: 'favorite';
+      userId: string;
+      showId: string;
+      favorite: boolean;
+      createdAt: number;
+      attempts: number;
+    }
+  | {
+      id: string;
+      type: 'wantList';
+      userId: string;
+      content: string;
+      createdAt: number;
+      attempts: number;
+    };
+
+// Distributive so each PendingWrite variant keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type NewPendingWrite = DistributiveOmit<PendingWrite, 'id' | 'createdAt' | 'attempts'>;
+
+interface StoredDetails {
+  details: any;
+  savedAt: number;
+}
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const json = await AsyncStorage.getItem(key);
+    return json ? (JSON.parse(json) as T) : fallback;
+  } catch (error) {
+    console.error(`[offlineStore] Error reading ${key}:`, error);
+    return fallback;
+  }
+};
+
+const writeJson = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`[offlineStore] Error writing ${key}:`, error);
+  }
+};
+
+const toTime = (value: Date | string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/* ------------------------------------------------------------------
+ * Pure helpers (exported for tests)
+ * ------------------------------------------------------------------ */
+
+/**
+ * Apply the same filters as `getPaginatedShows` to stored shows.
+ * Shows without coordinates are kept (distance unknown), matching the
+ * online behaviour.
+ */
+export const filterStoredShows = (shows: Show[], query: OfflineShowQuery): Show[] => {
+  const rangeStart = toTime(query.startDate) ?? Date.now();
+  const rangeEnd = toTime(query.endDate) ?? rangeStart + 30 * 24 * 60 * 60 * 1000;
+  const keyword = query.keyword?.trim().toLowerCase();
+  const hasCenter =
+    typeof query.latitude === 'number' &&
+    typeof query.longitude === 'number' &&
+    !(query.latitude === 0 && query.longitude === 0);
+
+  return shows
+    .filter(show => {
+      // Overlap logic: show starts on/before rangeEnd AND ends on/after rangeStart
+      const start = toTime(show.startDate);
+      const end = toTime(show.endDate) ?? start;
+      if (start === null || end === null) return false;
+      if (start > rangeEnd || end < rangeStart) return false;
+
+      if (typeof query.maxEntryFee === 'number' && (show.entryFee ?? 0) > query.maxEntryFee) {
+        return false;
+      }
+
+      if (query.categories?.length && !query.categories.some(c => show.categories?.includes(c))) {
+        return false;
+      }
+
+      if (query.features?.length && !query.features.every(f => show.features?.[f] === true)) {
+        return false;
+      }
+
+      if (keyword) {
+        const haystack = [show.title, show.description, show.location, show.address]
+          .filter(Boolean)
+          .join(' ')
+          .toLowerCase();
+        if (!haystack.includes(keyword)) return false;
+      }
+
+      if (hasCenter && query.radius && show.coordinates) {
+        const distance = calculateDistance(
+          query.latitude as number,
+          query.longitude as number,
+          show.coordinates.latitude,
+          show.coordinates.longitude
+        );
+        if (distance > query.radius) return false;
+      }
+
+      return true;
+    })
+    .sort((a, b) => (toTime(a.startDate) ?? 0) - (toTime(b.startDate) ?? 0));
+};
+
+/**
+ * Add a write to the queue, replacing any earlier write for the same
+ * target (favorite of a show / a user's want list) – only the final
+ * state needs to reach the server.
+ */
+export const coalesceWrites = (queue: PendingWrite[], write: PendingWrite): PendingWrite[] => {
+  const sameTarget = (w: PendingWrite): boolean => {
+    if (w.type !== write.type || w.userId !== write.userId) return false;
+    return w.type === 'favorite' && write.type === 'favorite' ? w.showId === write.showId : true;
+  };
+  return [...queue.filter(w => !sameTarget(w)), write];
+};
+
+/* ------------------------------------------------------------------
+ * Shows
+ * ------------------------------------------------------------------ */
+
+/**
+ * Merge shows into the store. Shows that already ended are dropped and
+ * the store is capped at MAX_STORED_SHOWS (soonest first).
+ * @param shows Shows returned by a successful online query
+ * @param region Region the shows were synced for, if this was a region sync
+ */
+export const saveShows = async (shows: Show[], region?: Omit<OfflineRegion, 'syncedAt'>): Promise<void> => {
+  const stored = await readJson<Record<string, Show>>(STORE_KEYS.SHOWS, {});
+  shows.forEach(show => {
+    stored[show.id] = show;
+  });
+
+  const now = Date.now();
+  const kept = Object.values(stored)
+    .filter(show => (toTime(show.endDate) ?? toTime(show.startDate) ?? 0) >= now - 24 * 60 * 60 * 1000)
+    .sort((a, b) => (toTime(a.startDate) ?? 0) - (toTime(b.startDate) ?? 0))
+    .slice(0, MAX_STORED_SHOWS);
+
+  await writeJson(
+    STORE_KEYS.SHOWS,
+    Object.fromEntries(kept.map(show => [show.id, show]))
+  );
+
+  if (region) {
+    await writeJson(STORE_KEYS.REGION, { ...region, syncedAt: now });
+  }
+};
+
+/**
+ * Query stored shows with the same filters the online list uses
+ */
+export const queryShows = async (query: OfflineShowQuery): Promise<Show[]> => {
+  const stored = await readJson<Record<string, Show>>(STORE_KEYS.SHOWS, {});
+  return filterStoredShows(Object.values(stored), query);
+};
+
+export const getStoredShow = async (showId: string): Promise<Show | null> => {
+  const stored = await readJson<Record<string, Show>>(STORE_KEYS.SHOWS, {});
+  return stored[showId] ?? null;
+};
+
+export const getStoredShowsByIds = async (showIds: string[]): Promise<Show[]> => {
+  const stored = await readJson<Record<string, Show>>(STORE_KEYS.SHOWS, {});
+  return showIds.map(id => stored[id]).filter((show): show is Show => !!show);
+};
+
+export const getOfflineRegion = (): Promise<OfflineRegion | null> =>
+  readJson<OfflineRegion | null>(STORE_KEYS.REGION, null);
+
+/* ------------------------------------------------------------------
+ * Show details (get_show_details_by_id response incl. dealer booths)
+ * ------------------------------------------------------------------ */
+
+export const saveShowDetails = async (showId: string, details: any): Promise<void> => {
+  const stored = await readJson<Record<string, StoredDetails>>(STORE_KEYS.SHOW_DETAILS, {});
+  stored[showId] = { details, savedAt: Date.now() };
+
+  // Keep the most recently viewed / synced details
+  const kept = Object.entries(stored)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_STORED_SHOW_DETAILS);
+
+  await writeJson(STORE_KEYS.SHOW_DETAILS, Object.fromEntries(kept));
+};
+
+export const getShowDetails = async (showId: string): Promise<any | null> => {
+  const stored = await readJson<Record<string, StoredDetails>>(STORE_KEYS.SHOW_DETAILS, {});
+  return stored[showId]?.details ?? null;
+};
+
+/* ------------------------------------------------------------------
+ * Favorites
+ * ------------------------------------------------------------------ */
+
+export const saveFavorites = (userId: string, showIds: string[]): Promise<void> =>
+  writeJson(STORE_KEYS.FAVORITES, { userId, showIds });
+
+export const getFavorites = async (userId: string): Promise<string[]> => {
+  const stored = await readJson<{ userId: string; showIds: string[] } | null>(STORE_KEYS.FAVORITES, null);
+  return stored?.userId === userId ? stored.showIds : [];
+};
+
+export const setFavoriteLocally = async (userId: string, showId: string, favorite: boolean): Promise<void> => {
+  const showIds = (await getFavorites(userId)).filter(id => id !== showId);
+  if (favorite) showIds.push(showId);
+  await saveFavorites(userId, showIds);
+};
+
+/* ------------------------------------------------------------------
+ * Want list
+ * ------------------------------------------------------------------ */
+
+export const saveWantList = (wantList: WantList): Promise<void> =>
+  writeJson(STORE_KEYS.WANT_LIST, wantList);
+
+export const getWantList = async (userId: string): Promise<WantList | null> => {
+  const stored = await readJson<WantList | null>(STORE_KEYS.WANT_LIST, null);
+  return stored?.userId === userId ? stored : null;
+};
+
+/* ------------------------------------------------------------------
+ * Pending writes
+ * ------------------------------------------------------------------ */
+
+export const getPendingWrites = (): Promise<PendingWrite[]> =>
+  readJson<PendingWrite[]>(STORE_KEYS.PENDING_WRITES, []);
+
+/**
+ * Queue a write made while offline
+ * @returns The queued write
+ */
+export const enqueueWrite = async (write: NewPendingWrite): Promise<PendingWrite> => {
+  const queued = {
+    ...write,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+    attempts: 0,
+  } as PendingWrite;
+
+  const queue = await getPendingWrites();
+  await writeJson(STORE_KEYS.PENDING_WRITES, coalesceWrites(queue, queued));
+  return queued;
+};
+
+/**
+ * Replace the queue after a sync pass (removes flushed writes and stores
+ * attempt counts). Writes queued during the pass are preserved.
+ * @param processed Writes the sync pass looked at
+ * @param remaining Subset of `processed` that must stay queued
+ */
+export const settlePendingWrites = async (
+  processed: PendingWrite[],
+  remaining: PendingWrite[]
+): Promise<void> => {
+  const processedIds = new Set(processed.map(w => w.id));
+  const current = await getPendingWrites();
+  const addedMeanwhile = current.filter(w => !processedIds.has(w.id));
+
+  let queue = remaining;
+  addedMeanwhile.forEach(write => {
+    queue = coalesceWrites(queue, write);
+  });
+  await writeJson(STORE_KEYS.PENDING_WRITES, queue);
+};
+
+/**
+ * Remove everything (call on logout so another account never sees it)
+ */
+export const clearOfflineStore = async (): Promise<void> => {
+  try {
+    await AsyncStorage.multiRemove(Object.values(STORE_KEYS));
+  } catch (error) {
+    console.error('[offlineStore] Error clearing store:', error);
+  }
+};
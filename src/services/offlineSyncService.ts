@@ -0,0 +1,287 @@
+/**
+ * Offline Sync Service
+ *
+ * Keeps the offline store (see `offlineStore`) filled while the app is
+ * online and reconciles with Supabase on reconnect: queued favorite and
+ * want-list writes are replayed first, then the user's data is refreshed.
+ */
+
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { supabase } from '../supabase';
+import { Coordinates, WantList } from '../types';
+import * as offlineStore from './offlineStore';
+import { PendingWrite } from './offlineStore';
+import { getPaginatedShows, getShowsByIds } from './showService';
+import { createWantList, getUserWantList } from './collectionService';
+import { syncWantListItems } from './wantListItemService';
+
+// A queued write is dropped after this many failed (non-network) attempts
+export const MAX_WRITE_ATTEMPTS = 5;
+// Region synced for offline browsing (miles / days ahead)
+export const REGION_SYNC_RADIUS = 100;
+export const REGION_SYNC_DAYS = 60;
+// Favorite shows whose details (incl. dealer booths) are prefetched
+export const DETAIL_PREFETCH_LIMIT = 20;
+
+let flushInFlight: Promise<number> | null = null;
+
+const isConnected = (state: NetInfoState): boolean =>
+  !!state.isConnected && state.isInternetReachable !== false;
+
+export const isOnline = async (): Promise<boolean> => {
+  try {
+    return isConnected(await NetInfo.fetch());
+  } catch {
+    // If NetInfo is unavailable assume online and let the request decide
+    return true;
+  }
+};
+
+/**
+ * True for errors caused by the connection rather than the request
+ * (these keep a write queued without counting an attempt)
+ */
+export const isNetworkError = (err: any): boolean => {
+  const message = String(err?.message ?? err ?? '').toLowerCase();
+  return (
+    message.includes('network request failed') ||
+    message.includes('failed to fetch') ||
+    message.includes('network error') ||
+    message.includes('timeout')
+  );
+};
+
+/**
+ * Store upcoming shows around the user for offline browsing
+ */
+export const syncRegion = async (
+  coordinates: Coordinates,
+  radius: number = REGION_SYNC_RADIUS
+): Promise<{ success: boolean; error: string | null }> => {
+  const startDate = new Date();
+  const endDate = new Date(startDate.getTime() + REGION_SYNC_DAYS * 24 * 60 * 60 * 1000);
+
+  const result = await getPaginatedShows({
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    radius,
+    startDate,
+    endDate,
+    page: 1,
+    pageSize: offlineStore.MAX_STORED_SHOWS,
+  });
+
+  if (result.error || result.fromOfflineStore) {
+    return { success: false, error: result.error ?? 'Offline' };
+  }
+
+  await offlineStore.saveShows(result.data, {
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    radius,
+  });
+  return { success: true, error: null };
+};
+
+/**
+ * Store the user's favorites (with show details) and want list
+ */
+export const syncUserData = async (
+  userId: string
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { data: favoriteRows, error: favoritesError } = await supabase
+      .from('user_favorite_shows')
+      .select('show_id')
+      .eq('user_id', userId);
+
+    if (favoritesError) throw favoritesError;
+
+    const favoriteIds = (favoriteRows ?? []).map((row: any) => row.show_id as string);
+    await offlineStore.saveFavorites(userId, favoriteIds);
+
+    const { data: favoriteShows } = await getShowsByIds(favoriteIds);
+    await offlineStore.saveShows(favoriteShows);
+
+    const upcoming = favoriteShows
+      .filter(show => new Date(show.endDate || show.startDate).getTime() >= Date.now())
+      .slice(0, DETAIL_PREFETCH_LIMIT);
+
+    for (const show of upcoming) {
+      const { data, error } = await supabase.rpc('get_show_details_by_id', {
+        show_id: show.id,
+      });
+      if (!error && data && !data.error) {
+        await offlineStore.saveShowDetails(show.id, data);
+      }
+    }
+
+    const { data: wantList } = await getUserWantList(userId);
+    if (wantList) {
+      await offlineStore.saveWantList(wantList);
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    console.error('[offlineSyncService] Error syncing user data:', err);
+    return { success: false, error: err.message ?? 'Failed to sync offline data' };
+  }
+};
+
+const applyWrite = async (write: PendingWrite): Promise<void> => {
+  if (write.type === 'favorite') {
+    if (write.favorite) {
+      const { error } = await supabase
+        .from('user_favorite_shows')
+        .insert([{ user_id: write.userId, show_id: write.showId }]);
+      // 23505 = already a favorite (e.g. favorited on another device)
+      if (error && error.code !== '23505') throw error;
+    } else {
+      const { error } = await supabase
+        .from('user_favorite_shows')
+        .delete()
+        .eq('user_id', write.userId)
+        .eq('show_id', write.showId);
+      if (error) throw error;
+    }
+    return;
+  }
+
+  // createWantList updates the existing list when there is one
+  const { error } = await createWantList(write.userId, write.content);
+  if (error) throw error;
+
+  // Structured entries are best-effort; match-want-lists re-parses lists
+  // that weren't synced
+  await syncWantListItems(write.content);
+};
+
+/**
+ * Replay queued writes in order. Stops at the first network error so
+ * later writes are not applied ahead of earlier ones.
+ * @returns Number of writes applied
+ */
+export const flushPendingWrites = (): Promise<number> => {
+  if (flushInFlight) return flushInFlight;
+
+  flushInFlight = (async () => {
+    const queue = await offlineStore.getPendingWrites();
+    const remaining: PendingWrite[] = [];
+    let applied = 0;
+    let offline = false;
+
+    for (const write of queue) {
+      if (offline) {
+        remaining.push(write);
+        continue;
+      }
+
+      try {
+        await applyWrite(write);
+        applied += 1;
+      } catch (err: any) {
+        if (isNetworkError(err)) {
+          offline = true;
+          remaining.push(write);
+        } else if (write.attempts + 1 < MAX_WRITE_ATTEMPTS) {
+          remaining.push({ ...write, attempts: write.attempts + 1 });
+        } else {
+          console.error('[offlineSyncService] Dropping queued write after repeated failures:', write, err);
+        }
+      }
+    }
+
+    await offlineStore.settlePendingWrites(queue, remaining);
+    return applied;
+  })().finally(() => {
+    flushInFlight = null;
+  });
+
+  return flushInFlight;
+};
+
+/**
+ * Favorite / unfavorite a show, queueing the change when offline
+ * @returns queued=true when the change will be sent on reconnect
+ */
+export const setFavorite = async (
+  userId: string,
+  showId: string,
+  favorite: boolean
+): Promise<{ queued: boolean }> => {
+  await offlineStore.setFavoriteLocally(userId, showId, favorite);
+  const write = { type: 'favorite' as const, userId, showId, favorite };
+
+  if (!(await isOnline())) {
+    await offlineStore.enqueueWrite(write);
+    return { queued: true };
+  }
+
+  try {
+    await applyWrite({ ...write, id: 'direct', createdAt: Date.now(), attempts: 0 });
+    return { queued: false };
+  } catch (err: any) {
+    if (!isNetworkError(err)) throw err;
+    await offlineStore.enqueueWrite(write);
+    return { queued: true };
+  }
+};
+
+/**
+ * Save want-list content, queueing the change when offline
+ * @param wantList Current list, if any (kept for ids/timestamps locally)
+ */
+export const saveWantListContent = async (
+  userId: string,
+  wantList: WantList | null,
+  content: string
+): Promise<{ data: WantList | null; queued: boolean; error: any }> => {
+  const now = new Date().toISOString();
+  const local: WantList = {
+    id: wantList?.id ?? userId,
+    userId,
+    content,
+    createdAt: wantList?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  const queue = async () => {
+    await offlineStore.saveWantList(local);
+    await offlineStore.enqueueWrite({ type: 'wantList', userId, content });
+    return { data: local, queued: true, error: null };
+  };
+
+  if (!(await isOnline())) return queue();
+
+  const { data, error } = await createWantList(userId, content);
+  if (error) {
+    return isNetworkError(error) ? queue() : { data: null, queued: false, error };
+  }
+
+  if (data) await offlineStore.saveWantList(data);
+  await syncWantListItems(content);
+  return { data, queued: false, error: null };
+};
+
+/**
+ * Listen for connectivity changes and reconcile on reconnect
+ * @returns Unsubscribe function
+ */
+export const startOfflineSync = (
+  userId: string,
+  onChange?: (online: boolean) => void
+): (() => void) => {
+  let wasOnline: boolean | null = null;
+
+  return NetInfo.addEventListener(state => {
+    const online = isConnected(state);
+    onChange?.(online);
+
+    if (online && wasOnline !== true) {
+      flushPendingWrites()
+        .then(() => syncUserData(userId))
+        .catch(err => console.error('[offlineSyncService] Reconnect sync failed:', err));
+    }
+    wasOnline = online;
+  });
+};
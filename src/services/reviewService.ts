@@ -5,10 +5,27 @@
  * - Creating, reading, updating, and deleting reviews
  * - Fetching reviews by show or series
  * - Handling organizer responses to reviews
+ * - Reporting reviews and organizer responses for moderation
+ * - Helpful / not-helpful votes and per-aspect ratings
  */
 
 import { supabase } from '../supabase';
-import { User as _User } from '../types';
+import {
+  User as _User,
+  ReviewAspect,
+  ReviewAspectRatings,
+  ReviewModerationStatus,
+  ReviewReportReason,
+  ReviewReportTarget,
+} from '../types';
+import { validateReviewReport } from '../utils/reviewModeration';
+import {
+  AspectSummary,
+  aspectRatingsFromRow,
+  aspectRatingsToColumns,
+  summarizeAspectRatings,
+  validateAspectRatings,
+} from '../utils/reviewStats';
 
 /**
  * Review type definition based on the database schema
@@ -30,6 +47,13 @@ export interface Review {
     comment: string;
     date: Date | string;
   };
+  /** Held reviews are 'pending' and only visible to their author until approved */
+  moderationStatus?: ReviewModerationStatus;
+  /** Reviewer favorited or checked in to the show */
+  verifiedAttendee?: boolean;
+  helpfulCount?: number;
+  notHelpfulCount?: number;
+  aspectRatings?: ReviewAspectRatings;
   createdAt: Date | string;
   updatedAt: Date | string;
 }
@@ -45,8 +69,15 @@ export interface ReviewInput {
   comment: string;
   favoriteDealer?: string;
   favoriteDealerReason?: string;
+  aspectRatings?: ReviewAspectRatings;
 }
 
+/**
+ * Sort orders for show reviews. 'helpful' ranks by the lower bound of the
+ * helpful vote share, so a review needs several votes to rise to the top.
+ */
+export type ReviewSort = 'helpful' | 'recent';
+
 /**
  * Input type for organizer responses
  */
@@ -55,6 +86,15 @@ export interface OrganizerResponseInput {
   comment: string;
 }
 
+/**
+ * Input type for reporting a review or an organizer response
+ */
+export interface ReviewReportInput {
+  target?: ReviewReportTarget;
+  reason: ReviewReportReason;
+  details?: string;
+}
+
 /**
  * Create a new review
  */
@@ -71,6 +111,11 @@ export const createReview = async (
       return { data: null, error: 'Comment must be 250 characters or less' };
     }
 
+    const aspectError = validateAspectRatings(reviewInput.aspectRatings);
+    if (aspectError) {
+      return { data: null, error: aspectError };
+    }
+
     // Check if the user has already reviewed this show
     const existingReview = await getUserReviewForShow(reviewInput.userId, reviewInput.showId);
     if (existingReview.data) {
@@ -86,6 +131,7 @@ export const createReview = async (
       comment: reviewInput.comment,
       favorite_dealer: reviewInput.favoriteDealer || null,
       favorite_dealer_reason: reviewInput.favoriteDealerReason || null,
+      ...aspectRatingsToColumns(reviewInput.aspectRatings),
     };
 
     // Insert the review
@@ -144,11 +190,11 @@ export const getReviewById = async (
 };
 
 /**
- * Get reviews for a specific show
+ * Get reviews for a specific show, newest first or most helpful first
  */
 export const getReviewsByShowId = async (
   showId: string,
-  options: { limit?: number; offset?: number } = {}
+  options: { limit?: number; offset?: number; sort?: ReviewSort } = {}
 ): Promise<{ data: Review[] | null; error: string | null; count: number }> => {
   try {
     // First, get the count of reviews for pagination
@@ -163,8 +209,12 @@ export const getReviewsByShowId = async (
     let query = supabase
       .from('reviews')
       .select('*, profiles:user_id(username, _first_name, last_name)')
-      .eq('show_id', showId)
-      .order('created_at', { ascending: false });
+      .eq('show_id', showId);
+
+    if (options.sort === 'helpful') {
+      query = query.order('helpfulness_score', { ascending: false });
+    }
+    query = query.order('created_at', { ascending: false });
 
     // Apply pagination if specified
     if (options.limit) {
@@ -293,12 +343,18 @@ export const updateReview = async (
       return { data: null, error: 'Comment must be 250 characters or less' };
     }
 
+    const aspectError = validateAspectRatings(updates.aspectRatings);
+    if (aspectError) {
+      return { data: null, error: aspectError };
+    }
+
     // Prepare the data for update
     const updateData: any = {};
     if (updates.rating !== undefined) updateData.rating = updates.rating;
     if (updates.comment !== undefined) updateData.comment = updates.comment;
     if (updates.favoriteDealer !== undefined) updateData.favorite_dealer = updates.favoriteDealer;
     if (updates.favoriteDealerReason !== undefined) updateData.favorite_dealer_reason = updates.favoriteDealerReason;
+    if (updates.aspectRatings !== undefined) Object.assign(updateData, aspectRatingsToColumns(updates.aspectRatings));
 
     // Update the review
     const { data, error } = await supabase
@@ -470,12 +526,133 @@ export const _removeOrganizerResponse = async (
 };
 
 /**
- * Get aggregate statistics for reviews by show ID
+ * Report a review, or the organizer's response to it, for moderation.
+ * Three open reports hold the item until an admin looks at it.
+ */
+export const reportReview = async (
+  reviewId: string,
+  reporterId: string,
+  report: ReviewReportInput
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const validationError = validateReviewReport(report.reason, report.details);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const { error } = await supabase.from('review_reports').insert([
+      {
+        review_id: reviewId,
+        reporter_id: reporterId,
+        target: report.target || 'review',
+        reason: report.reason,
+        details: report.details?.trim() || null,
+      },
+    ]);
+
+    if (error) {
+      // Unique (review_id, reporter_id, target)
+      if (error.code === '23505') {
+        return { success: false, error: 'You have already reported this' };
+      }
+      console.error('Error reporting review:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    console.error('Unexpected error reporting review:', error);
+    return { success: false, error: error.message || 'An unexpected error occurred' };
+  }
+};
+
+/**
+ * Mark a review as helpful (true) or not helpful (false), or withdraw the
+ * vote (null). One vote per user per review; voting again replaces it.
+ */
+export const voteOnReview = async (
+  reviewId: string,
+  userId: string,
+  helpful: boolean | null
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } =
+      helpful === null
+        ? await supabase
+            .from('review_votes')
+            .delete()
+            .eq('review_id', reviewId)
+            .eq('user_id', userId)
+        : await supabase
+            .from('review_votes')
+            .upsert([{ review_id: reviewId, user_id: userId, helpful }], {
+              onConflict: 'review_id,user_id',
+            });
+
+    if (error) {
+      // RLS rejects votes on your own review
+      if (error.code === '42501') {
+        return { success: false, error: "You can't vote on your own review" };
+      }
+      console.error('Error voting on review:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error: any) {
+    console.error('Unexpected error voting on review:', error);
+    return { success: false, error: error.message || 'An unexpected error occurred' };
+  }
+};
+
+/**
+ * Get the current user's votes for a set of reviews, keyed by review ID
+ */
+export const getUserReviewVotes = async (
+  userId: string,
+  reviewIds: string[]
+): Promise<{ data: Record<string, boolean> | null; error: string | null }> => {
+  try {
+    if (reviewIds.length === 0) {
+      return { data: {}, error: null };
+    }
+
+    const { data, error } = await supabase
+      .from('review_votes')
+      .select('review_id, helpful')
+      .eq('user_id', userId)
+      .in('review_id', reviewIds);
+
+    if (error) {
+      console.error('Error fetching review votes:', error);
+      return { data: null, error: error.message };
+    }
+
+    const votes: Record<string, boolean> = {};
+    (data || []).forEach((vote: { review_id: string; helpful: boolean }) => {
+      votes[vote.review_id] = vote.helpful;
+    });
+
+    return { data: votes, error: null };
+  } catch (error: any) {
+    console.error('Unexpected error fetching review votes:', error);
+    return { data: null, error: error.message || 'An unexpected error occurred' };
+  }
+};
+
+/**
+ * Get aggregate statistics for reviews by show ID, including the average
+ * of each aspect rating
  */
 export const getReviewStatsByShowId = async (
   showId: string
 ): Promise<{ 
-  data: { averageRating: number; reviewCount: number; ratingDistribution: Record<string, number> } | null; 
+  data: {
+    averageRating: number;
+    reviewCount: number;
+    ratingDistribution: Record<string, number>;
+    aspectRatings: Partial<Record<ReviewAspect, AspectSummary>>;
+  } | null; 
   error: string | null 
 }> => {
   try {
@@ -491,11 +668,12 @@ export const getReviewStatsByShowId = async (
       return { data: null, error: statsError.message };
     }
 
-    // Get the rating distribution
+    // Get the rating distribution and aspect ratings
     const { data: distributionData, error: distributionError } = await supabase
       .from('reviews')
-      .select('rating')
-      .eq('show_id', showId);
+      .select('rating, venue_rating, dealer_variety_rating, pricing_rating, parking_rating')
+      .eq('show_id', showId)
+      .eq('moderation_status', 'published');
 
     if (distributionError) {
       console.error('Error fetching rating distribution:', distributionError);
@@ -520,6 +698,7 @@ export const getReviewStatsByShowId = async (
         averageRating: statsData.rating || 0,
         reviewCount: distributionData.length,
         ratingDistribution: distribution,
+        aspectRatings: summarizeAspectRatings(distributionData),
       },
       error: null,
     };
@@ -539,7 +718,7 @@ export const getReviewStatsBySeriesId = async (
   error: string | null 
 }> => {
   try {
-    // Get the average rating and count
+    // Get the average rating and count (maintained by trigger from published reviews only)
     const { data: statsData, error: statsError } = await supabase
       .from('show_series')
       .select('average_rating, review_count')
@@ -555,7 +734,8 @@ export const getReviewStatsBySeriesId = async (
     const { data: distributionData, error: distributionError } = await supabase
       .from('reviews')
       .select('rating')
-      .eq('series_id', seriesId);
+      .eq('series_id', seriesId)
+      .eq('moderation_status', 'published');
 
     if (distributionError) {
       console.error('Error fetching series rating distribution:', distributionError);
@@ -615,6 +795,11 @@ const mapDbReviewToAppReview = (dbReview: any): Review => {
     favoriteDealer: dbReview.favorite_dealer,
     favoriteDealerReason: dbReview.favorite_dealer_reason,
     organizerResponse: dbReview.organizer_response,
+    moderationStatus: dbReview.moderation_status,
+    verifiedAttendee: dbReview.verified_attendee ?? false,
+    helpfulCount: dbReview.helpful_count ?? 0,
+    notHelpfulCount: dbReview.not_helpful_count ?? 0,
+    aspectRatings: aspectRatingsFromRow(dbReview),
     createdAt: dbReview.created_at,
     updatedAt: dbReview.updated_at,
   };
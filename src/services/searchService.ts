@@ -0,0 +1,93 @@
+/**
+ * Search Service
+ *
+ * Unified search across upcoming shows, show series, venues, cities and
+ * dealers (`search_all`), plus typeahead suggestions (`search_suggestions`).
+ * Ranking and typo tolerance live in the database; see
+ * docs/UNIFIED_SEARCH.md.
+ */
+
+import { supabase } from '../supabase';
+import { SearchResult, SearchResultType, SearchSuggestion } from '../types';
+import { normalizeSearchQuery, MIN_SEARCH_LENGTH } from '../utils/searchResults';
+
+const mapSearchResult = (row: any): SearchResult => ({
+  type: row.result_type as SearchResultType,
+  id: row.result_id,
+  title: row.title,
+  subtitle: row.subtitle ?? null,
+  showId: row.show_id ?? null,
+  dealerId: row.dealer_id ?? null,
+  score: Number(row.score) || 0,
+});
+
+/**
+ * Search everything. Returns up to `limitPerType` hits of each result type,
+ * best first within each type. Queries shorter than two characters return
+ * nothing. A request cancelled through `signal` resolves with no data and
+ * no error.
+ */
+export const searchAll = async (
+  query: string,
+  options: { limitPerType?: number; signal?: AbortSignal } = {}
+): Promise<{ data: SearchResult[]; error: string | null }> => {
+  const q = normalizeSearchQuery(query);
+  if (q.length < MIN_SEARCH_LENGTH) return { data: [], error: null };
+
+  try {
+    let request = supabase.rpc('search_all', {
+      p_query: q,
+      p_limit_per_type: options.limitPerType ?? 5,
+    });
+    if (options.signal) {
+      request = request.abortSignal(options.signal);
+    }
+
+    const { data, error } = await request;
+
+    if (options.signal?.aborted) return { data: [], error: null };
+    if (error) throw error;
+
+    return { data: (data || []).map(mapSearchResult), error: null };
+  } catch (err: any) {
+    console.error('[searchService] Error searching:', err);
+    return { data: [], error: err.message ?? 'Search failed. Please try again.' };
+  }
+};
+
+/**
+ * Typeahead suggestions for a partial query, best first.
+ */
+export const getSearchSuggestions = async (
+  query: string,
+  options: { limit?: number; signal?: AbortSignal } = {}
+): Promise<{ data: SearchSuggestion[]; error: string | null }> => {
+  const q = normalizeSearchQuery(query);
+  if (q.length < MIN_SEARCH_LENGTH) return { data: [], error: null };
+
+  try {
+    let request = supabase.rpc('search_suggestions', {
+      p_query: q,
+      p_limit: options.limit ?? 8,
+    });
+    if (options.signal) {
+      request = request.abortSignal(options.signal);
+    }
+
+    const { data, error } = await request;
+
+    if (options.signal?.aborted) return { data: [], error: null };
+    if (error) throw error;
+
+    return {
+      data: (data || []).map((row: any) => ({
+        text: row.suggestion,
+        type: row.result_type as SearchResultType,
+      })),
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[searchService] Error loading suggestions:', err);
+    return { data: [], error: err.message ?? 'Failed to load suggestions' };
+  }
+};
@@ -0,0 +1,139 @@
+/**
+ * Show Analytics Service
+ *
+ * Records engagement events (detail views, map pin taps, "get directions"
+ * taps) and reads the aggregates behind the organizer analytics dashboard.
+ * Favorites and broadcast opens are recorded by database triggers.
+ */
+
+import { supabase } from '../supabase';
+import {
+  SeriesInstanceAnalytics,
+  ShowAnalyticsSummary,
+  ShowEventDailyCount,
+  ShowEventType,
+} from '../types';
+
+/** Event types the client records itself */
+export type TrackedShowEventType = Extract<ShowEventType, 'detail_view' | 'map_pin_tap' | 'directions_tap'>;
+
+const toDateParam = (date: Date): string => date.toISOString().split('T')[0];
+
+const toCount = (value: any): number => Number(value ?? 0);
+
+/**
+ * Record an engagement event. Fire-and-forget: failures are logged and
+ * never surface to the user.
+ */
+export const trackShowEvent = (showId: string, eventType: TrackedShowEventType): void => {
+  if (!showId) return;
+  supabase
+    .rpc('track_show_event', { p_show_id: showId, p_event_type: eventType })
+    .then(({ error }) => {
+      if (error) console.error(`[showAnalyticsService] Error tracking ${eventType}:`, error);
+    });
+};
+
+/**
+ * Event totals for each show the current user organizes
+ */
+export const getOrganizerShowAnalytics = async (
+  from: Date,
+  to: Date
+): Promise<{ data: ShowAnalyticsSummary[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_organizer_show_analytics', {
+      p_from: toDateParam(from),
+      p_to: toDateParam(to),
+    });
+
+    if (error) throw error;
+    return {
+      data: (data ?? []).map((row: any) => ({
+        showId: row.show_id,
+        title: row.title,
+        startDate: row.start_date,
+        seriesId: row.series_id ?? null,
+        detailViews: toCount(row.detail_views),
+        uniqueViewers: toCount(row.unique_viewers),
+        mapPinTaps: toCount(row.map_pin_taps),
+        favorites: toCount(row.favorites),
+        unfavorites: toCount(row.unfavorites),
+        directionsTaps: toCount(row.directions_taps),
+        broadcastOpens: toCount(row.broadcast_opens),
+      })),
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[showAnalyticsService] Error fetching show analytics:', err);
+    return { data: [], error: err.message ?? 'Failed to load analytics' };
+  }
+};
+
+/**
+ * Daily event counts for one show, or for all of the organizer's shows
+ * when `showId` is omitted. Days without events are not returned.
+ */
+export const getShowEventTimeseries = async (
+  from: Date,
+  to: Date,
+  showId?: string
+): Promise<{ data: ShowEventDailyCount[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_show_event_timeseries', {
+      p_show_id: showId ?? null,
+      p_from: toDateParam(from),
+      p_to: toDateParam(to),
+    });
+
+    if (error) throw error;
+    return {
+      data: (data ?? []).map((row: any) => ({
+        day: row.day,
+        eventType: row.event_type,
+        count: toCount(row.count),
+      })),
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[showAnalyticsService] Error fetching event timeseries:', err);
+    return { data: [], error: err.message ?? 'Failed to load analytics' };
+  }
+};
+
+/**
+ * Totals for every instance of a series
+ * @param daysBefore Only count events up to this many days before each
+ *   instance's start, so an upcoming show can be compared with past
+ *   instances at the same point in their run-up
+ */
+export const getSeriesInstanceAnalytics = async (
+  seriesId: string,
+  daysBefore?: number
+): Promise<{ data: SeriesInstanceAnalytics[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_series_instance_analytics', {
+      p_series_id: seriesId,
+      p_days_before: daysBefore ?? null,
+    });
+
+    if (error) throw error;
+    return {
+      data: (data ?? []).map((row: any) => ({
+        showId: row.show_id,
+        title: row.title,
+        startDate: row.start_date,
+        detailViews: toCount(row.detail_views),
+        uniqueViewers: toCount(row.unique_viewers),
+        mapPinTaps: toCount(row.map_pin_taps),
+        favorites: toCount(row.favorites),
+        directionsTaps: toCount(row.directions_taps),
+        broadcastOpens: toCount(row.broadcast_opens),
+      })),
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[showAnalyticsService] Error fetching series analytics:', err);
+    return { data: [], error: err.message ?? 'Failed to load series analytics' };
+  }
+};
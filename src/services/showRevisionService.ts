@@ -0,0 +1,61 @@
+/**
+ * Show Revision Service
+ *
+ * Reads the change log written by the `track_show_revision` trigger
+ * whenever a show's dates, venue, fee, status, etc. are edited.
+ */
+
+import { supabase } from '../supabase';
+import { ShowRevision } from '../types';
+
+/** How long a show keeps its "Recently updated" badge */
+export const RECENTLY_UPDATED_WINDOW_DAYS = 7;
+
+const mapDbRevision = (row: any): ShowRevision => ({
+  id: row.id,
+  showId: row.show_id,
+  changedBy: row.changed_by ?? null,
+  changedFields: row.changed_fields ?? [],
+  changes: row.changes ?? {},
+  summary: row.summary ?? [],
+  createdAt: row.created_at,
+});
+
+/**
+ * Fetch the most recent revisions for a show, newest first.
+ */
+export const getShowRevisions = async (
+  showId: string,
+  limit = 20
+): Promise<{ data: ShowRevision[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('show_revisions')
+      .select('*')
+      .eq('show_id', showId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return { data: (data ?? []).map(mapDbRevision), error: null };
+  } catch (err: any) {
+    console.error('[showRevisionService] Error fetching show revisions:', err);
+    return { data: [], error: err.message ?? 'Failed to load change history' };
+  }
+};
+
+/**
+ * True when the newest revision with a visible summary falls inside the
+ * badge window. Revisions without summary lines (e.g. an ACTIVE →
+ * COMPLETED status flip) don't count.
+ */
+export const isRecentlyUpdated = (
+  revisions: ShowRevision[],
+  now: Date = new Date(),
+  windowDays: number = RECENTLY_UPDATED_WINDOW_DAYS
+): boolean => {
+  const cutoff = now.getTime() - windowDays * 24 * 60 * 60 * 1000;
+  return revisions.some(
+    rev => rev.summary.length > 0 && new Date(rev.createdAt).getTime() >= cutoff
+  );
+};
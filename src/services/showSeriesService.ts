@@ -1,5 +1,55 @@
 import { supabase } from '../supabase';
-import { ShowSeries, Review, Show } from '../types';
+import {
+  ShowSeries,
+  Review,
+  Show,
+  SeriesRecurrence,
+  SeriesShowTemplate,
+  ShowStatus,
+} from '../types';
+import { expandRecurrence, parseRRule } from '../utils/recurrence';
+
+type MaterializeResult = { created: number; updated: number; cancelled: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (d: Date): string => d.toISOString().slice(0, 10);
+
+/**
+ * Convert the camelCase template to the snake_case JSONB stored in
+ * `show_series_recurrence.template` (read by `materialize_show_series`).
+ */
+const templateToDb = (template: SeriesShowTemplate): Record<string, unknown> => {
+  const row: Record<string, unknown> = {
+    title: template.title,
+    description: template.description,
+    location: template.location,
+    address: template.address,
+    entry_fee: template.entryFee,
+    features: template.features,
+    categories: template.categories,
+    image_url: template.imageUrl,
+    website_url: template.websiteUrl,
+    latitude: template.latitude,
+    longitude: template.longitude,
+  };
+  Object.keys(row).forEach(key => row[key] === undefined && delete row[key]);
+  return row;
+};
+
+const templateFromDb = (row: any): SeriesShowTemplate => ({
+  title: row?.title ?? undefined,
+  description: row?.description ?? undefined,
+  location: row?.location ?? undefined,
+  address: row?.address ?? undefined,
+  entryFee: row?.entry_fee ?? undefined,
+  features: row?.features ?? undefined,
+  categories: row?.categories ?? undefined,
+  imageUrl: row?.image_url ?? undefined,
+  websiteUrl: row?.website_url ?? undefined,
+  latitude: row?.latitude ?? undefined,
+  longitude: row?.longitude ?? undefined,
+});
 
 /**
  * Service for interacting with show_series table and related functionality
@@ -149,7 +199,9 @@ export const showSeriesService = {
       features: show.features,
       categories: show.categories,
       createdAt: show.created_at,
-      updatedAt: show.updated_at
+      updatedAt: show.updated_at,
+      seriesOccurrenceDate: show.series_occurrence_date ?? undefined,
+      recurrenceDetached: show.recurrence_detached ?? undefined
     }));
   },
 
@@ -562,6 +614,8 @@ export const showSeriesService = {
       categories: row.categories,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
+      seriesOccurrenceDate: row.series_occurrence_date ?? undefined,
+      recurrenceDetached: row.recurrence_detached ?? undefined,
     };
   },
 
@@ -644,5 +698,205 @@ export const showSeriesService = {
         error: err instanceof Error ? err.message : 'Unknown error',
       };
     }
+  },
+
+  /* ------------------------------------------------------------------
+   * Recurrence (RRULE) – auto-generated occurrences
+   * ----------------------------------------------------------------*/
+
+  /**
+   * Get the recurrence rule of a series
+   * @param seriesId Show series ID
+   * @returns Recurrence definition or null if the series has none
+   */
+  async getSeriesRecurrence(seriesId: string): Promise<SeriesRecurrence | null> {
+    const { data, error } = await supabase
+      .from('show_series_recurrence')
+      .select('*')
+      .eq('series_id', seriesId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching series recurrence:', error);
+      throw new Error(`Failed to fetch series recurrence: ${error.message}`);
+    }
+    if (!data) return null;
+
+    return {
+      seriesId: data.series_id,
+      rrule: data.rrule,
+      dtstart: data.dtstart,
+      startTime: data.start_time,
+      endTime: data.end_time,
+      timezone: data.timezone,
+      durationDays: data.duration_days,
+      horizonDays: data.horizon_days,
+      exdates: data.exdates ?? [],
+      template: templateFromDb(data.template),
+      active: data.active,
+      lastMaterializedAt: data.last_materialized_at,
+    };
+  },
+
+  /**
+   * Create or replace a series' recurrence rule and immediately generate
+   * its upcoming shows. The rule is validated before anything is saved.
+   * @param recurrence Recurrence definition (organizer must own the series)
+   */
+  async saveSeriesRecurrence(
+    recurrence: Omit<SeriesRecurrence, 'active' | 'lastMaterializedAt'> & { active?: boolean }
+  ): Promise<{ success: boolean; result?: MaterializeResult; error?: string }> {
+    try {
+      parseRRule(recurrence.rrule);
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Invalid recurrence rule' };
+    }
+
+    const { error } = await supabase.from('show_series_recurrence').upsert(
+      {
+        series_id: recurrence.seriesId,
+        rrule: recurrence.rrule.replace(/^RRULE:/i, ''),
+        dtstart: recurrence.dtstart,
+        start_time: recurrence.startTime,
+        end_time: recurrence.endTime,
+        timezone: recurrence.timezone,
+        duration_days: recurrence.durationDays,
+        horizon_days: recurrence.horizonDays,
+        exdates: recurrence.exdates,
+        template: templateToDb(recurrence.template),
+        active: recurrence.active ?? true,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'series_id' }
+    );
+
+    if (error) {
+      console.error('Error saving series recurrence:', error);
+      return { success: false, error: error.message };
+    }
+
+    return this.materializeSeries(recurrence.seriesId);
+  },
+
+  /**
+   * Generate / sync the series' shows up to its horizon.
+   * Edits to non-detached occurrences are overwritten by the template.
+   * @param seriesId Show series ID
+   */
+  async materializeSeries(
+    seriesId: string
+  ): Promise<{ success: boolean; result?: MaterializeResult; error?: string }> {
+    try {
+      const recurrence = await this.getSeriesRecurrence(seriesId);
+      if (!recurrence || !recurrence.active) {
+        return { success: false, error: 'This series has no active schedule' };
+      }
+
+      const today = new Date();
+      const through = toDateKey(new Date(today.getTime() + recurrence.horizonDays * DAY_MS));
+      const occurrences = expandRecurrence(parseRRule(recurrence.rrule), recurrence.dtstart, {
+        from: toDateKey(today),
+        to: through,
+        exdates: recurrence.exdates,
+      });
+
+      const { data, error } = await supabase.rpc('materialize_show_series', {
+        p_series_id: seriesId,
+        p_occurrences: occurrences,
+        p_through: through,
+      });
+
+      if (error) {
+        console.error('Error materializing series:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, result: data as MaterializeResult };
+    } catch (err) {
+      console.error('Unexpected error materializing series:', err);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      };
+    }
+  },
+
+  /**
+   * "All future instances" edit – merge fields into the series template
+   * and re-sync every upcoming, non-detached occurrence.
+   * @param seriesId Show series ID
+   * @param changes Template fields to change
+   */
+  async updateFutureOccurrences(
+    seriesId: string,
+    changes: SeriesShowTemplate
+  ): Promise<{ success: boolean; result?: MaterializeResult; error?: string }> {
+    try {
+      const recurrence = await this.getSeriesRecurrence(seriesId);
+      if (!recurrence) {
+        return { success: false, error: 'This series has no schedule' };
+      }
+
+      const { error } = await supabase
+        .from('show_series_recurrence')
+        .update({
+          template: templateToDb({ ...recurrence.template, ...changes }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('series_id', seriesId);
+
+      if (error) {
+        console.error('Error updating series template:', error);
+        return { success: false, error: error.message };
+      }
+
+      return this.materializeSeries(seriesId);
+    } catch (err) {
+      console.error('Unexpected error updating future occurrences:', err);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      };
+    }
+  },
+
+  /**
+   * "This instance only" edit – stop series-wide changes from touching
+   * this occurrence. Call after saving the instance's own changes.
+   * @param showId ID of the generated show
+   */
+  async detachOccurrence(showId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('shows')
+      .update({ recurrence_detached: true })
+      .eq('id', showId);
+
+    if (error) {
+      console.error('Error detaching series occurrence:', error);
+      return { success: false, error: error.message };
+    }
+    return { success: true };
+  },
+
+  /**
+   * Cancel a single occurrence without changing the rule. The show row is
+   * kept (status = cancelled) so favoriting users are notified.
+   * @param showId ID of the generated show
+   */
+  async cancelOccurrence(showId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('shows')
+      .update({
+        status: ShowStatus.CANCELLED,
+        recurrence_detached: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', showId);
+
+    if (error) {
+      console.error('Error cancelling series occurrence:', error);
+      return { success: false, error: error.message };
+    }
+    return { success: true };
   }
 };
@@ -5,12 +5,18 @@
  */
 
 import { supabase } from '../supabase';
-import { Show, ShowStatus } from '../types';
+import { MapCluster, MapViewport, MapViewportResult, Show, ShowStatus } from '../types';
 import {
   calculateDistanceBetweenCoordinates,
   getAddressCoordinatesWithCache,
 } from './locationService';
 import { safeOverlaps } from '../utils/postgrest';
+import { clusterViewportShows } from '../utils/mapViewport';
+import {
+  OfflineShowQuery,
+  queryShows as queryOfflineShows,
+  saveShows as saveOfflineShows,
+} from './offlineStore';
 
 /* ------------------------------------------------------------------ */
 /* WKB (hex) → Lat/Lng helpers                                         */
@@ -195,6 +201,10 @@ const mapDbShowToAppShow = (row: any): Show => ({
   updatedAt: row.updated_at,
   seriesId: row.series_id,
   websiteUrl: row.website_url,
+  dailySchedule: row.daily_schedule ?? undefined,
+  seriesOccurrenceDate: row.series_occurrence_date ?? undefined,
+  recurrenceDetached: row.recurrence_detached ?? undefined,
+  mergedIntoId: row.merged_into_id ?? undefined,
 });
 
 /**
@@ -247,6 +257,8 @@ export interface PaginatedShowsResult {
   data: Show[];
   pagination: PaginationMeta;
   error: string | null;
+  /** True when the request failed and results came from the offline store */
+  fromOfflineStore?: boolean;
 }
 
 export const getShows = async (filters: ShowFilters = {}): Promise<Show[]> => {
@@ -692,9 +704,19 @@ export const getPaginatedShows = async (
       console.warn(
         '[showService] getPaginatedShows → using direct query (RPC bypass)',
       );
-    return await getDirectPaginatedShows(params);
+    const result = await getDirectPaginatedShows(params);
+
+    if (!result.error) {
+      // Write-through so the same shows are available without a connection
+      saveOfflineShows(result.data).catch(() => undefined);
+      return result;
+    }
+
+    return (await getOfflinePaginatedShows(params)) ?? result;
   } catch (err: any) {
     console.error('[showService] Error in getPaginatedShows:', err);
+    const offline = await getOfflinePaginatedShows(params);
+    if (offline) return offline;
     return {
       data: [],
       pagination: {
@@ -708,6 +730,33 @@ export const getPaginatedShows = async (
   }
 };
 
+/**
+ * Serve a page of shows from the offline store (no connection / request
+ * failed). Returns null when nothing is stored for these filters.
+ */
+const getOfflinePaginatedShows = async (
+  params: PaginatedShowsParams
+): Promise<PaginatedShowsResult | null> => {
+  const pageSize = params.pageSize ?? 20;
+  const page = params.page ?? 1;
+  const stored = await queryOfflineShows({ ...params, radius: params.radius ?? 25 });
+
+  if (stored.length === 0) return null;
+
+  console.warn(`[showService] Serving ${stored.length} show(s) from offline store`);
+  return {
+    data: stored.slice((page - 1) * pageSize, page * pageSize),
+    pagination: {
+      totalCount: stored.length,
+      pageSize,
+      currentPage: page,
+      totalPages: Math.ceil(stored.length / pageSize),
+    },
+    error: null,
+    fromOfflineStore: true,
+  };
+};
+
 /**
  * Direct implementation for getPaginatedShows that uses Supabase queries
  * (bypasses the broken nearby_shows RPC).
@@ -897,6 +946,32 @@ const getDirectPaginatedShows = async (
               partsMap[row.showid] = arr;
             });
 
+            // Inventory dealers marked as "bringing to this show" counts too
+            const { data: inventoryRows, error: inventoryErr } = await supabase
+              .from('dealer_inventory_show_items')
+              .select('show_id, dealer_inventory_items(card_types, search_text)')
+              .in('show_id', showIds);
+
+            if (inventoryErr) {
+              console.warn(
+                '[showService] Inventory lookup failed – filtering on booth info only',
+                inventoryErr.message,
+              );
+            }
+
+            (inventoryRows || []).forEach((row: any) => {
+              const item = Array.isArray(row.dealer_inventory_items)
+                ? row.dealer_inventory_items[0]
+                : row.dealer_inventory_items;
+              if (!item) return;
+              const arr = partsMap[row.show_id] ?? [];
+              arr.push({
+                card_types: item.card_types,
+                notable_items: item.search_text,
+              });
+              partsMap[row.show_id] = arr;
+            });
+
             // Normalise dealer card type strings once for comparison
             const normDealerTypes = (dealerCardTypes || []).map(t =>
               t.toString().toLowerCase(),
@@ -1388,6 +1463,126 @@ export const getShowById = async (
   }
 };
 
+/**
+ * Fetch several shows by id (e.g. a user's favorites). Order is not preserved.
+ */
+export const getShowsByIds = async (
+  ids: string[]
+): Promise<{ data: Show[]; error: string | null }> => {
+  if (ids.length === 0) return { data: [], error: null };
+
+  try {
+    const { data, error } = await supabase
+      .from('shows')
+      .select('*')
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+
+    return { data: (data || []).map(mapDbShowToAppShow), error: null };
+  } catch (err: any) {
+    console.error('Error fetching shows by id:', err);
+    return { data: [], error: err.message ?? 'Unknown error' };
+  }
+};
+
+/**
+ * Shows for the visible map area via `get_map_viewport`: individual pins
+ * when zoomed in, server-side clusters when zoomed out.
+ *
+ * `filters` are the RPC filter keys (see `viewportFilters`). Pass `signal`
+ * to cancel a request the user has already panned away from; a cancelled
+ * request resolves with `{ data: null, error: null }`. `includeAll` returns
+ * every show regardless of status or date and is admin-only.
+ *
+ * Without a connection (or when the RPC fails) pins and clusters are built
+ * from the offline store instead, like `getPaginatedShows`.
+ */
+export const getMapViewport = async (
+  viewport: MapViewport,
+  filters: Record<string, unknown>,
+  options: { signal?: AbortSignal; includeAll?: boolean } = {}
+): Promise<{ data: MapViewportResult | null; error: string | null }> => {
+  try {
+    let request = supabase.rpc('get_map_viewport', {
+      p_min_lat: viewport.minLatitude,
+      p_min_lng: viewport.minLongitude,
+      p_max_lat: viewport.maxLatitude,
+      p_max_lng: viewport.maxLongitude,
+      p_zoom: viewport.zoom,
+      p_filters: filters,
+      p_include_all: options.includeAll ?? false,
+    });
+    if (options.signal) {
+      request = request.abortSignal(options.signal);
+    }
+
+    const { data, error } = await request;
+
+    if (options.signal?.aborted) {
+      return { data: null, error: null };
+    }
+    if (error) {
+      throw error;
+    }
+
+    const result = (data || {}) as any;
+    return {
+      data: {
+        mode: result.mode === 'clusters' ? 'clusters' : 'pins',
+        shows: (result.shows || []).map(mapDbShowToAppShow),
+        clusters: (result.clusters || []).map(
+          (c: any): MapCluster => ({
+            id: c.id,
+            coordinates: { latitude: c.latitude, longitude: c.longitude },
+            count: c.count,
+            bounds: {
+              minLatitude: c.min_latitude,
+              minLongitude: c.min_longitude,
+              maxLatitude: c.max_latitude,
+              maxLongitude: c.max_longitude,
+            },
+          })
+        ),
+        totalCount: result.total ?? 0,
+        truncated: !!result.truncated,
+      },
+      error: null,
+    };
+  } catch (err: any) {
+    if (options.signal?.aborted) {
+      return { data: null, error: null };
+    }
+    console.error('[showService] Error fetching map viewport:', err);
+    const offline = options.includeAll ? null : await getOfflineMapViewport(viewport, filters);
+    if (offline) return { data: offline, error: null };
+    return { data: null, error: err.message ?? 'Failed to load shows for this area' };
+  }
+};
+
+/**
+ * Serve the map viewport from the offline store. Returns null when nothing
+ * is stored for these filters.
+ */
+const getOfflineMapViewport = async (
+  viewport: MapViewport,
+  filters: Record<string, unknown>
+): Promise<MapViewportResult | null> => {
+  try {
+    // The RPC filters use the same keys as ShowFilters, without a location
+    const stored = await queryOfflineShows(filters as OfflineShowQuery);
+    if (stored.length === 0) return null;
+
+    console.warn(`[showService] Serving map from ${stored.length} stored show(s)`);
+    return { ...clusterViewportShows(stored, viewport), fromOfflineStore: true };
+  } catch (err) {
+    console.error('[showService] Error reading offline store for map:', err);
+    return null;
+  }
+};
+
 /**
  * Create a new show (stub)
  */
@@ -1,7 +1,6 @@
 import { supabase } from '../supabase';
 import { UserRole, WantList as _WantList } from '../types';
-
-const INVENTORY_PREFIX = "[INVENTORY]";
+import { INVENTORY_PREFIX } from '../utils/wantListParser';
 
 /**
  * Interface for want list with user information
@@ -0,0 +1,140 @@
+/**
+ * Trip Service
+ *
+ * Keeps the on-device draft of shows picked for a trip (from My Shows or a
+ * show's detail page), loads them for the trip planner and exports a planned
+ * itinerary as a shareable link or calendar entries. Planning itself lives
+ * in `utils/tripPlanner`.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { Show } from '../types';
+import { getShowsByIds } from './showService';
+import { generateShowCalendar } from '../utils/icalendar';
+import {
+  MAX_TRIP_SHOWS,
+  TripItinerary,
+  buildTripShareUrl,
+  toTripCalendarShows,
+} from '../utils/tripPlanner';
+
+// Namespaced per user so drafts never leak between accounts on one device
+const getTripDraftKey = (userId: string) => `tripDraft_${userId}`;
+
+/**
+ * Show ids currently picked for the user's trip.
+ */
+export const getTripDraft = async (userId: string): Promise<string[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(getTripDraftKey(userId));
+    const ids = raw ? JSON.parse(raw) : [];
+    return Array.isArray(ids) ? ids.filter(id => typeof id === 'string') : [];
+  } catch (err) {
+    console.error('[tripService] Error reading trip draft:', err);
+    return [];
+  }
+};
+
+/**
+ * Replace the trip draft (e.g. after removing a show in the planner).
+ */
+export const setTripDraft = async (userId: string, showIds: string[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      getTripDraftKey(userId),
+      JSON.stringify(Array.from(new Set(showIds)).slice(0, MAX_TRIP_SHOWS))
+    );
+  } catch (err) {
+    console.error('[tripService] Error saving trip draft:', err);
+  }
+};
+
+/**
+ * Add a show to the trip draft.
+ * @returns The draft after the change, and whether the trip was already full
+ */
+export const addShowToTripDraft = async (
+  userId: string,
+  showId: string
+): Promise<{ showIds: string[]; isFull: boolean }> => {
+  const current = await getTripDraft(userId);
+  if (current.includes(showId)) {
+    return { showIds: current, isFull: false };
+  }
+  if (current.length >= MAX_TRIP_SHOWS) {
+    return { showIds: current, isFull: true };
+  }
+
+  const showIds = [...current, showId];
+  await setTripDraft(userId, showIds);
+  return { showIds, isFull: false };
+};
+
+/**
+ * Load the trip's shows in the order given.
+ */
+export const loadTripShows = async (
+  showIds: string[]
+): Promise<{ data: Show[]; error: string | null }> => {
+  const { data, error } = await getShowsByIds(showIds);
+  const byId = new Map(data.map(show => [show.id, show]));
+  return {
+    data: showIds.map(id => byId.get(id)).filter((show): show is Show => !!show),
+    error,
+  };
+};
+
+/**
+ * Share a link that opens the trip planner with the same shows.
+ */
+export const shareTrip = async (
+  showIds: string[],
+  name: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const url = buildTripShareUrl(showIds, name);
+    await Share.share({
+      message: `${name || 'Card show trip'}: ${url}`,
+      url,
+      title: name || 'Card show trip',
+    });
+    return { success: true };
+  } catch (err: any) {
+    console.error('[tripService] Error sharing trip:', err);
+    return { success: false, error: err.message ?? 'Failed to share trip' };
+  }
+};
+
+/**
+ * Write the itinerary to an .ics file (one event per stop, at the planned
+ * visit time) and hand it to the OS share sheet.
+ */
+export const exportTripToCalendar = async (
+  itinerary: TripItinerary,
+  name: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const ics = generateShowCalendar(toTripCalendarShows(itinerary), {
+      calendarName: name || 'Card show trip',
+    });
+    const fileUri = `${FileSystem.cacheDirectory}card-show-trip.ics`;
+
+    await FileSystem.writeAsStringAsync(fileUri, ics, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    // Same platform split as exportShowToCalendar: Android can only share text
+    await Share.share(
+      Platform.OS === 'ios'
+        ? { url: fileUri, title: name || 'Card show trip' }
+        : { message: ics, title: name || 'Card show trip' }
+    );
+
+    return { success: true };
+  } catch (err: any) {
+    console.error('[tripService] Error exporting trip to calendar:', err);
+    return { success: false, error: err.message ?? 'Failed to export trip' };
+  }
+};
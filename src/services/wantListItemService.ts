@@ -0,0 +1,123 @@
+/**
+ * Want List Item Service
+ *
+ * Structured want-list entries (`want_list_items`) parsed from the free-text
+ * want list, and the dealer inventory matches found for them at the shows a
+ * collector plans to attend (`want_list_matches`).
+ */
+
+import { supabase } from '../supabase';
+import { WantListItem, WantListItemInput, WantListMatch } from '../types';
+import { parseWantList } from '../utils/wantListParser';
+import { mapDbInventoryItem } from './inventoryService';
+
+const toNumberOrNull = (value: any): number | null =>
+  value !== null && value !== undefined ? Number(value) : null;
+
+const mapDbWantListItem = (row: any): WantListItem => ({
+  id: row.id,
+  userId: row.user_id,
+  playerName: row.player_name,
+  setName: row.set_name ?? null,
+  year: row.year ?? null,
+  cardNumber: row.card_number ?? null,
+  grader: row.grader ?? null,
+  minGrade: toNumberOrNull(row.min_grade),
+  maxPrice: toNumberOrNull(row.max_price),
+  notes: row.notes ?? null,
+  sourceText: row.source_text ?? null,
+  createdAt: row.created_at,
+});
+
+const mapInputToDb = (input: WantListItemInput) => ({
+  player_name: input.playerName.trim(),
+  set_name: input.setName?.trim() || null,
+  year: input.year ?? null,
+  card_number: input.cardNumber?.trim() || null,
+  grader: input.grader?.trim() || null,
+  min_grade: input.minGrade ?? null,
+  max_price: input.maxPrice ?? null,
+  notes: input.notes?.trim() || null,
+  source_text: input.sourceText ?? null,
+});
+
+/**
+ * Get a user's structured want-list entries
+ */
+export const getWantListItems = async (
+  userId: string
+): Promise<{ data: WantListItem[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('want_list_items')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data ?? []).map(mapDbWantListItem), error: null };
+  } catch (err: any) {
+    console.error('[wantListItemService] Error fetching want list items:', err);
+    return { data: [], error: err.message ?? 'Failed to load want list items' };
+  }
+};
+
+/**
+ * Re-parse the current user's free-text want list and replace their
+ * structured entries with the result. Call after the want list is saved.
+ * @returns Number of entries stored
+ */
+export const syncWantListItems = async (
+  content: string
+): Promise<{ data: number; error: string | null }> => {
+  try {
+    const { items } = parseWantList(content);
+    const { data, error } = await supabase.rpc('replace_want_list_items', {
+      p_items: items.map(mapInputToDb),
+    });
+
+    if (error) throw error;
+    return { data: data ?? 0, error: null };
+  } catch (err: any) {
+    console.error('[wantListItemService] Error syncing want list items:', err);
+    return { data: 0, error: err.message ?? 'Failed to update want list items' };
+  }
+};
+
+/**
+ * Matches for the current user, both as a collector (dealers who may have
+ * my wants) and as a dealer (collectors who want my inventory)
+ * @param showId Limit to a single show
+ */
+export const getWantListMatches = async (
+  showId?: string
+): Promise<{ data: WantListMatch[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_want_list_matches', {
+      p_show_id: showId ?? null,
+    });
+
+    if (error) throw error;
+    return {
+      data: (data ?? []).map((row: any) => ({
+        id: row.id,
+        showId: row.show_id,
+        showTitle: row.show_title,
+        role: row.role,
+        collectorId: row.collector_id,
+        collectorName: row.collector_name,
+        dealerId: row.dealer_id,
+        dealerName: row.dealer_name,
+        boothLocation: row.booth_location ?? null,
+        wantItem: mapDbWantListItem(row.want_item),
+        inventoryItem: mapDbInventoryItem(row.inventory_item),
+        score: Number(row.score),
+        matchedAt: row.matched_at,
+      })),
+      error: null,
+    };
+  } catch (err: any) {
+    console.error('[wantListItemService] Error fetching want list matches:', err);
+    return { data: [], error: err.message ?? 'Failed to load want list matches' };
+  }
+};
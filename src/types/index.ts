@@ -125,6 +125,36 @@ export interface Show {
   createdAt: Date | string;
   updatedAt: Date | string;
   websiteUrl?: string;
+  /**
+   * Per-day opening hours for multi-day shows (JSONB `daily_schedule`).
+   * Null/undefined when the show only uses `startTime` / `endTime`.
+   */
+  dailySchedule?: ShowDaySchedule[] | null;
+  /**
+   * Occurrence date (YYYY-MM-DD) when this show was generated from the
+   * series' recurrence rule; undefined for manually added shows.
+   */
+  seriesOccurrenceDate?: string;
+  /**
+   * True once the organizer edited/cancelled "this instance only" –
+   * series-wide edits no longer overwrite it.
+   */
+  recurrenceDetached?: boolean;
+  /** Surviving show when this one was merged as a duplicate (status MERGED). */
+  mergedIntoId?: string;
+}
+
+/**
+ * A single day's hours inside `Show.dailySchedule`.
+ * Times are local wall-clock times ("08:00" or "8:00 AM") in `timezone`.
+ */
+export interface ShowDaySchedule {
+  date: string; // YYYY-MM-DD
+  startTime: string;
+  endTime: string;
+  notes?: string;
+  /** IANA timezone name, e.g. 'America/New_York' */
+  timezone?: string;
 }
 
 export enum ShowStatus {
@@ -132,7 +162,8 @@ export enum ShowStatus {
   ONGOING = 'ongoing',
   COMPLETED = 'completed',
   CANCELLED = 'cancelled',
-  ACTIVE = 'ACTIVE' // Default in Supabase
+  ACTIVE = 'ACTIVE', // Default in Supabase
+  MERGED = 'MERGED' // Duplicate merged into `mergedIntoId`
 }
 
 /* ------------------------------------------------------------------
@@ -169,6 +200,49 @@ export interface ShowSeries {
   updatedAt?: Date | string;
 }
 
+/**
+ * Show fields copied onto every generated occurrence of a series
+ * (stored as snake_case JSONB in `show_series_recurrence.template`).
+ */
+export interface SeriesShowTemplate {
+  title?: string;
+  description?: string;
+  location?: string;
+  address?: string;
+  entryFee?: number | null;
+  features?: Record<string, boolean>;
+  categories?: string[];
+  imageUrl?: string;
+  websiteUrl?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * RRULE-based schedule for a Show Series,
+ * e.g. "2nd Sunday monthly, 9am–3pm, skip December".
+ */
+export interface SeriesRecurrence {
+  seriesId: string;
+  /** RFC 5545 RRULE, e.g. 'FREQ=MONTHLY;BYDAY=2SU;BYMONTH=1,2,3,4,5,6,7,8,9,10,11' */
+  rrule: string;
+  /** First occurrence date (YYYY-MM-DD) */
+  dtstart: string;
+  /** Local times in `timezone`, e.g. '09:00' */
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  /** Number of consecutive days per occurrence (weekend shows = 2) */
+  durationDays: number;
+  /** How many days ahead shows are generated */
+  horizonDays: number;
+  /** Dates removed from the rule */
+  exdates: string[];
+  template: SeriesShowTemplate;
+  active: boolean;
+  lastMaterializedAt?: string | null;
+}
+
 export enum ShowFeature {
   ON_SITE_GRADING = 'On-site Grading',
   AUTOGRAPHS = 'Autograph Guests',
@@ -215,8 +289,37 @@ export interface Review {
     comment: string;
     date: Date | string;
   };
+  /**
+   * 'pending' while held for an admin, 'hidden' once removed. Only the
+   * author (and admins) can read reviews that are not 'published'.
+   */
+  moderationStatus?: ReviewModerationStatus;
+  /**
+   * Reviewer favorited or checked in to this show. Set server-side.
+   */
+  verifiedAttendee?: boolean;
+  helpfulCount?: number;
+  notHelpfulCount?: number;
+  /**
+   * Optional 1-5 ratings for individual parts of the show.
+   */
+  aspectRatings?: ReviewAspectRatings;
 }
 
+// Parts of a show that can be rated on their own alongside the star rating
+export type ReviewAspect = 'venue' | 'dealerVariety' | 'pricing' | 'parking';
+
+export type ReviewAspectRatings = Partial<Record<ReviewAspect, number>>;
+
+// Moderation state of a review or organizer response (`reviews.moderation_status`)
+export type ReviewModerationStatus = 'published' | 'pending' | 'hidden';
+
+// What a report is about: the review itself or the organizer's response to it
+export type ReviewReportTarget = 'review' | 'response';
+
+// Reasons a user can pick when reporting (`review_reports.reason`)
+export type ReviewReportReason = 'spam' | 'abusive' | 'off_topic' | 'fake' | 'other';
+
 // Filter-related types
 export interface ShowFilters {
   radius?: number; // in miles (_25, _50, 100, 200)
@@ -283,8 +386,49 @@ export interface Badge {
    */
   tier: BadgeTier;
   dateEarned?: Date | string;
+  /** Rule: what is counted, and how many are needed (see BadgeMetric) */
+  metric?: BadgeMetric;
+  threshold?: number;
+  params?: BadgeRuleParams;
+  isActive?: boolean;
+}
+
+/**
+ * What a badge rule counts. Evaluated server-side by `badge_metric_value()`.
+ */
+export type BadgeMetric =
+  | 'shows_attended'
+  | 'distinct_states'
+  | 'reviews_written'
+  | 'series_visits'
+  | 'shows_in_year'
+  | 'dealer_booths_visited';
+
+export interface BadgeRuleParams {
+  /** series_visits: count one series instead of the user's most-visited */
+  series_id?: string;
+  /** shows_in_year: the year to count; defaults to the current year */
+  year?: number;
 }
 
+/** A badge with the user's progress towards it */
+export interface BadgeProgress {
+  badge: Badge;
+  current: number;
+  required: number;
+  /** 0–100 */
+  percent: number;
+  earned: boolean;
+}
+
+export type BadgeDefinitionInput = Pick<Badge, 'name' | 'description' | 'tier'> & {
+  imageUrl?: string | null;
+  metric: BadgeMetric;
+  threshold: number;
+  params?: BadgeRuleParams;
+  isActive?: boolean;
+};
+
 export enum BadgeTier {
   BRONZE = 'bronze',
   SILVER = 'silver',
@@ -318,6 +462,81 @@ export interface WantList {
   updatedAt: Date | string;
 }
 
+// Structured want-list entry (`want_list_items`), parsed from WantList.content
+export interface WantListItem {
+  id: string;
+  userId: string;
+  playerName: string;
+  setName?: string | null;
+  year?: number | null;
+  cardNumber?: string | null;
+  /** Required grading company, e.g. PSA; null = any / raw */
+  grader?: string | null;
+  /** Lowest acceptable numeric grade */
+  minGrade?: number | null;
+  maxPrice?: number | null;
+  notes?: string | null;
+  /** Original free-text line this entry was parsed from */
+  sourceText?: string | null;
+  createdAt?: string;
+}
+
+export type WantListItemInput = Omit<WantListItem, 'id' | 'userId' | 'createdAt'>;
+
+// A dealer inventory item that may satisfy a want at a show (`want_list_matches`)
+export interface WantListMatch {
+  id: string;
+  showId: string;
+  showTitle: string;
+  /** 'collector' = one of my wants matched; 'dealer' = my inventory matched */
+  role: 'collector' | 'dealer';
+  collectorId: string;
+  collectorName: string;
+  dealerId: string;
+  dealerName: string;
+  boothLocation?: string | null;
+  wantItem: WantListItemInput;
+  inventoryItem: InventoryItemInput;
+  score: number;
+  matchedAt: string;
+}
+
+// Dealer inventory (`dealer_inventory_items`)
+export interface InventoryItem {
+  id: string;
+  dealerId: string;
+  /** Dealer's own stock number; used to match rows on CSV re-import */
+  sku?: string | null;
+  playerName: string;
+  setName?: string | null;
+  year?: number | null;
+  cardNumber?: string | null;
+  /** e.g. PSA, BGS, SGC – empty for raw cards */
+  grader?: string | null;
+  grade?: string | null;
+  /** Same labels as the `dealerCardTypes` show filter */
+  cardTypes: string[];
+  askingPrice?: number | null;
+  quantity: number;
+  /** Storage paths in the card_images bucket */
+  photoPaths: string[];
+  notes?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Fields a dealer edits / imports (ids, photos and timestamps are managed)
+export type InventoryItemInput = Omit<
+  InventoryItem,
+  'id' | 'dealerId' | 'photoPaths' | 'createdAt' | 'updatedAt'
+>;
+
+// Inventory search result on a show (`search_show_inventory`)
+export interface ShowInventoryItem extends InventoryItem {
+  dealerName: string;
+  boothLocation?: string | null;
+}
+
 // Notifications (e.g., review requests, badge earned)
 export interface Notification {
   id: string;
@@ -333,6 +552,103 @@ export interface Notification {
   createdAt: Date | string;
 }
 
+/**
+ * Notification types that can be pushed to devices.
+ * Values match `user_notifications.type`.
+ */
+export enum NotificationType {
+  REVIEW_REQUEST = 'review_request',
+  BADGE_EARNED = 'badge_earned',
+  BROADCAST = 'broadcast',
+  SHOW_CHANGE = 'show_change',
+  WANT_LIST_MATCH = 'want_list_match',
+  SAVED_SEARCH_MATCH = 'saved_search_match',
+  FOLLOWED_ACTIVITY = 'followed_activity',
+  NEW_FOLLOWER = 'new_follower',
+}
+
+// Things a user can follow (`follows.target_type`)
+export type FollowTargetType = 'organizer' | 'series' | 'dealer';
+
+// A target the current user follows (`get_my_follows`)
+export interface FollowedTarget {
+  targetType: FollowTargetType;
+  targetId: string;
+  name: string;
+  followedAt: string;
+}
+
+export type ActivityEventType = 'dealer_registered' | 'series_date_announced' | 'organizer_update';
+
+// One entry in the home activity feed (`get_activity_feed`)
+export interface ActivityFeedItem {
+  id: string;
+  eventType: ActivityEventType;
+  targetType: FollowTargetType;
+  targetId: string;
+  targetName: string;
+  showId?: string | null;
+  showTitle?: string | null;
+  showStartDate?: string | null;
+  showLocation?: string | null;
+  /** Text of an organizer update */
+  message?: string | null;
+  createdAt: string;
+}
+
+// What a unified search hit points at (`search_all`)
+export type SearchResultType = 'show' | 'series' | 'venue' | 'city' | 'dealer';
+
+// One unified search hit. showId is the show to open: the show itself, the
+// series' next date, or the next show at a venue / in a city / with a dealer.
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  showId: string | null;
+  dealerId: string | null;
+  score: number;
+}
+
+// Typeahead entry (`search_suggestions`)
+export interface SearchSuggestion {
+  text: string;
+  type: SearchResultType;
+}
+
+// One entry in a show's change log (`show_revisions`)
+export interface ShowRevision {
+  id: string;
+  showId: string;
+  changedBy?: string | null;
+  changedFields: string[];
+  changes: Record<string, { old: unknown; new: unknown }>;
+  /** Human readable lines, e.g. "Moved from Sat, Oct 4 to Sun, Oct 5" */
+  summary: string[];
+  createdAt: string;
+}
+
+// Per-user push delivery settings
+export interface NotificationPreferences {
+  pushEnabled: boolean;
+  /** Types the user opted out of; everything else is delivered */
+  disabledTypes: string[];
+  /** Local "HH:MM" in `timezone`; start may be after end to span midnight */
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone: string;
+}
+
+// Per-user weekly email digest settings
+export interface EmailDigestPreferences {
+  enabled: boolean;
+  /** 0 = Sunday … 6 = Saturday, in the user's notification timezone */
+  sendDay: number;
+  /** Radius around the home ZIP for "shows near you" */
+  radiusMiles: number;
+}
+
 // Tracking planned attendance
 export interface PlannedAttendance {
   id: string;
@@ -354,6 +670,36 @@ export type ZipCodeData = {
   coordinates: Coordinates;
 };
 
+// Visible map area sent to `get_map_viewport`. minLongitude > maxLongitude
+// means the area crosses the antimeridian.
+export interface MapViewport {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+  zoom: number;
+}
+
+// A group of shows aggregated server-side at low zoom
+export interface MapCluster {
+  id: string;
+  coordinates: Coordinates;
+  count: number;
+  bounds: Omit<MapViewport, 'zoom'>;
+}
+
+export interface MapViewportResult {
+  mode: 'pins' | 'clusters';
+  shows: Show[];
+  clusters: MapCluster[];
+  /** Matching shows in the viewport, including those inside clusters */
+  totalCount: number;
+  /** True when there were more pins than the server returns at once */
+  truncated: boolean;
+  /** True when the request failed and results came from the offline store */
+  fromOfflineStore?: boolean;
+}
+
 /* ------------------------------------------------------------------
  * Subscription / Billing types
  * ------------------------------------------------------------------ */
@@ -378,3 +724,96 @@ export interface SubscriptionPlan {
   /** Length of the free-trial period in days */
   trialDays: number;
 }
+
+/* ------------------------------------------------------------------
+ * Public API keys
+ * ------------------------------------------------------------------ */
+/**
+ * A third-party consumer key for the `public-api` edge function. Only the
+ * prefix is readable after creation – the full key is shown once.
+ */
+export interface ApiKey {
+  id: string;
+  /** Consumer name, e.g. "Main Street Cards website" */
+  name: string;
+  contactEmail?: string | null;
+  /** First characters of the key, e.g. "csk_1a2b3c4d" */
+  keyPrefix: string;
+  requestsPerMinute: number;
+  dailyQuota: number;
+  notes?: string | null;
+  createdAt: string;
+  lastUsedAt?: string | null;
+  revokedAt?: string | null;
+}
+
+export type ApiKeyInput = Pick<ApiKey, 'name' | 'contactEmail' | 'requestsPerMinute' | 'dailyQuota' | 'notes'>;
+
+/* ------------------------------------------------------------------
+ * Show analytics
+ * ------------------------------------------------------------------ */
+/** Engagement events counted for organizer analytics */
+export type ShowEventType =
+  | 'detail_view'
+  | 'map_pin_tap'
+  | 'favorite'
+  | 'unfavorite'
+  | 'directions_tap'
+  | 'broadcast_open';
+
+/** Event totals for one show over a period */
+export interface ShowAnalyticsTotals {
+  detailViews: number;
+  /** Distinct signed-in viewers; anonymous views are only in `detailViews` */
+  uniqueViewers: number;
+  mapPinTaps: number;
+  favorites: number;
+  directionsTaps: number;
+  broadcastOpens: number;
+}
+
+export interface ShowAnalyticsSummary extends ShowAnalyticsTotals {
+  showId: string;
+  title: string;
+  startDate: string;
+  seriesId?: string | null;
+  unfavorites: number;
+}
+
+/** One series instance, for comparing a show with past editions */
+export interface SeriesInstanceAnalytics extends ShowAnalyticsTotals {
+  showId: string;
+  title: string;
+  startDate: string;
+}
+
+/** Count of one event type on one day */
+export interface ShowEventDailyCount {
+  /** YYYY-MM-DD */
+  day: string;
+  eventType: ShowEventType;
+  count: number;
+}
+
+/* ------------------------------------------------------------------
+ * Show check-ins
+ * ------------------------------------------------------------------ */
+/** `qr` = scanned the organizer's code; `geofence` = checked in on-site by location */
+export type CheckInMethod = 'qr' | 'geofence';
+
+/** A verified visit to a show. Drives attendance count, badges and review requests. */
+export interface ShowCheckIn {
+  id: string;
+  showId: string;
+  userId: string;
+  method: CheckInMethod;
+  /** Distance from the venue, geofence check-ins only */
+  distanceMeters?: number | null;
+  checkedInAt: string;
+}
+
+/** The organizer's current rotating QR code */
+export interface ShowCheckInCode {
+  code: string;
+  expiresAt: string;
+}
@@ -0,0 +1,73 @@
+/**
+ * activityFeed.ts
+ * Turns activity feed events (`get_activity_feed`) into the text shown on the
+ * home "Following" tab, and groups follows for the feed header.
+ */
+
+import { ActivityFeedItem, FollowedTarget, FollowTargetType } from '../types';
+import { formatDate } from './formatters';
+
+export interface ActivityDescription {
+  /** Ionicons name */
+  icon: string;
+  /** e.g. "Dealer X registered for Show Y" */
+  headline: string;
+  /** Show date/location or the organizer's update text */
+  detail: string | null;
+}
+
+const showWhenWhere = (item: ActivityFeedItem): string | null => {
+  const parts = [
+    item.showStartDate ? formatDate(item.showStartDate) : null,
+    item.showLocation?.trim() || null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+/**
+ * Feed text for one event.
+ */
+export const describeActivity = (item: ActivityFeedItem): ActivityDescription => {
+  const name = item.targetName.trim() || 'Someone you follow';
+  const show = item.showTitle?.trim() || 'a show';
+
+  switch (item.eventType) {
+    case 'dealer_registered':
+      return {
+        icon: 'storefront-outline',
+        headline: `${name} registered for ${show}`,
+        detail: showWhenWhere(item),
+      };
+    case 'series_date_announced':
+      return {
+        icon: 'calendar-outline',
+        headline: `${name} announced its next date`,
+        detail: showWhenWhere(item),
+      };
+    case 'organizer_update':
+      return {
+        icon: 'megaphone-outline',
+        headline: item.showTitle ? `${name} posted an update about ${show}` : `${name} posted an update`,
+        detail: item.message?.trim() || null,
+      };
+    default:
+      return { icon: 'notifications-outline', headline: name, detail: null };
+  }
+};
+
+/**
+ * "Following 3 dealers, 1 series and 2 organizers"
+ */
+export const summarizeFollows = (follows: FollowedTarget[]): string => {
+  if (follows.length === 0) return 'Not following anyone yet';
+
+  const counts = (['dealer', 'series', 'organizer'] as FollowTargetType[])
+    .map(type => ({ type, count: follows.filter(f => f.targetType === type).length }))
+    .filter(({ count }) => count > 0)
+    // "series" is its own plural
+    .map(({ type, count }) => `${count} ${count === 1 || type === 'series' ? type : `${type}s`}`);
+
+  const list =
+    counts.length > 1 ? `${counts.slice(0, -1).join(', ')} and ${counts[counts.length - 1]}` : counts[0];
+  return `Following ${list}`;
+};
@@ -0,0 +1,90 @@
+/**
+ * Display helpers for rule-based badges: describing a rule, formatting
+ * progress and picking the badge to show as "next".
+ *
+ * Rules themselves are evaluated in the database (`badge_metric_value()`);
+ * keep the metric list in sync with `badges_definitions_metric_check`.
+ */
+
+import { BadgeMetric, BadgeProgress, BadgeRuleParams } from '../types';
+
+interface MetricInfo {
+  /** Shown in the admin metric picker */
+  label: string;
+  /** Unit, singular and plural */
+  unit: [string, string];
+}
+
+export const BADGE_METRICS: Record<BadgeMetric, MetricInfo> = {
+  shows_attended: { label: 'Shows attended', unit: ['show', 'shows'] },
+  distinct_states: { label: 'States with a show attended', unit: ['state', 'states'] },
+  reviews_written: { label: 'Reviews written', unit: ['review', 'reviews'] },
+  series_visits: { label: 'Visits to one show series', unit: ['visit', 'visits'] },
+  shows_in_year: { label: 'Shows attended in a year', unit: ['show', 'shows'] },
+  dealer_booths_visited: { label: 'Dealer booths visited', unit: ['booth', 'booths'] },
+};
+
+export const BADGE_METRIC_KEYS = Object.keys(BADGE_METRICS) as BadgeMetric[];
+
+// Canonical UUID text, as badges_definitions_params_check accepts it
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether an admin-typed series ID is a well-formed UUID
+ */
+export const isSeriesId = (value: string): boolean => UUID_PATTERN.test(value.trim());
+
+const unitFor = (metric: BadgeMetric, count: number): string =>
+  BADGE_METRICS[metric].unit[count === 1 ? 0 : 1];
+
+/**
+ * Human-readable rule, e.g. "Attend shows in 5 states"
+ */
+export const describeBadgeRule = (
+  metric: BadgeMetric,
+  threshold: number,
+  params: BadgeRuleParams = {}
+): string => {
+  switch (metric) {
+    case 'shows_attended':
+      return `Check in at ${threshold} ${unitFor(metric, threshold)}`;
+    case 'distinct_states':
+      return `Check in at shows in ${threshold} ${unitFor(metric, threshold)}`;
+    case 'reviews_written':
+      return `Write ${threshold} ${unitFor(metric, threshold)}`;
+    case 'series_visits':
+      return params.series_id
+        ? `Visit this show series ${threshold} ${threshold === 1 ? 'time' : 'times'}`
+        : `Visit the same show series ${threshold} ${threshold === 1 ? 'time' : 'times'}`;
+    case 'shows_in_year': {
+      const year = params.year ? `in ${params.year}` : 'this year';
+      return threshold === 1
+        ? `Check in at your first show of ${params.year ?? 'the year'}`
+        : `Check in at ${threshold} shows ${year}`;
+    }
+    case 'dealer_booths_visited':
+      return `Visit ${threshold} dealer ${unitFor(metric, threshold)} while checked in`;
+    default:
+      return `Reach ${threshold}`;
+  }
+};
+
+/**
+ * Progress text, e.g. "3/5 states"
+ */
+export const formatBadgeProgress = (metric: BadgeMetric, current: number, required: number): string =>
+  `${Math.min(current, required)}/${required} ${unitFor(metric, required)}`;
+
+/**
+ * Percent towards a threshold, 0–100
+ */
+export const progressPercent = (current: number, required: number): number =>
+  required > 0 ? Math.min(Math.round((current / required) * 100), 100) : 0;
+
+/**
+ * The unearned badge the user is closest to (ties go to the smaller threshold)
+ */
+export const pickNextBadge = (progress: BadgeProgress[]): BadgeProgress | null =>
+  progress
+    .filter(p => !p.earned)
+    .sort((a, b) => b.percent - a.percent || a.required - b.required)[0] ?? null;
@@ -0,0 +1,109 @@
+/**
+ * Show check-in helpers shared by the organizer QR display and the
+ * attendee side.
+ *
+ * The QR code is a deep link (`cardshowfinder://check-in/<showId>?checkInCode=…`)
+ * so attendees can scan it with their phone's camera; it opens ShowDetail,
+ * which submits the code.
+ *
+ * `isCheckInOpen` follows the same rules as `is_show_check_in_open()` in
+ * `20251020190000_show_check_ins.sql`; both are tested against the same
+ * cases.
+ */
+
+import { Show } from '../types';
+import { getShowOpenWindows } from './tripPlanner';
+
+export const CHECK_IN_GRACE_MINUTES = 60;
+
+const GRACE_MS = CHECK_IN_GRACE_MINUTES * 60 * 1000;
+const CHECK_IN_URL_PREFIX = 'cardshowfinder://check-in/';
+// Bounds for show hours that don't say which timezone they are in
+const EARLIEST_US_TIMEZONE = 'America/New_York';
+const LATEST_US_TIMEZONE = 'America/Los_Angeles';
+
+export interface CheckInWindow {
+  opensAt: Date;
+  closesAt: Date;
+}
+
+/**
+ * Deep link encoded in the organizer's QR code
+ */
+export const buildCheckInUrl = (showId: string, code: string): string =>
+  `${CHECK_IN_URL_PREFIX}${encodeURIComponent(showId)}?checkInCode=${encodeURIComponent(code)}`;
+
+/**
+ * Instant of a local wall-clock time on a show day. Falls back to
+ * `fallbackTimeZone` when the day has no timezone or an unknown one.
+ */
+const localTimeToUtc = (
+  dateKey: string,
+  minutes: number,
+  timeZone: string | undefined,
+  fallbackTimeZone: string
+): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Offset of the zone (local minus UTC) at a given instant
+  const offsetAt = (instant: number, zone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(new Date(instant));
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    return (
+      Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute')) -
+      Math.floor(instant / 60000) * 60000
+    );
+  };
+
+  const convert = (zone: string): number => {
+    const guess = wallClock - offsetAt(wallClock, zone);
+    // Second pass in case the guess landed on the other side of a DST change
+    return wallClock - offsetAt(guess, zone);
+  };
+
+  if (timeZone) {
+    try {
+      return convert(timeZone);
+    } catch {
+      // Unknown timezone name
+    }
+  }
+  return convert(fallbackTimeZone);
+};
+
+/**
+ * When check-in is open on each show day: the day's hours from
+ * `dailySchedule`, or the show's start/end time (9 AM to 5 PM when it lists
+ * none), widened by CHECK_IN_GRACE_MINUTES on both sides. Without a
+ * timezone the hours are read as Eastern for opening and Pacific for
+ * closing, so they cover the show in any contiguous US timezone.
+ */
+export const getCheckInWindows = (show: Show): CheckInWindow[] =>
+  getShowOpenWindows(show).map(day => ({
+    opensAt: new Date(
+      localTimeToUtc(day.date, day.openMinutes, day.timezone, EARLIEST_US_TIMEZONE) - GRACE_MS
+    ),
+    closesAt: new Date(
+      localTimeToUtc(day.date, day.closeMinutes, day.timezone, LATEST_US_TIMEZONE) + GRACE_MS
+    ),
+  }));
+
+/**
+ * Whether check-in is open, i.e. the show is running (see getCheckInWindows)
+ */
+export const isCheckInOpen = (show: Show | null | undefined, now: Date = new Date()): boolean => {
+  if (!show?.startDate) return false;
+  const time = now.getTime();
+  return getCheckInWindows(show).some(
+    window => time >= window.opensAt.getTime() && time < window.closesAt.getTime()
+  );
+};
@@ -0,0 +1,56 @@
+/**
+ * icalendar.ts
+ * Exports shows to calendar apps (.ics files).
+ *
+ * The iCalendar rules live in `supabase/functions/_shared/ical.ts`, which
+ * also renders the subscribable per-user feed; this file maps the app's
+ * `Show` model onto the `shows` row that module works on.
+ */
+
+import { Show } from '../types';
+import {
+  CalendarOptions,
+  ShowRow,
+  generateCalendar,
+  toDateKey,
+} from '../../supabase/functions/_shared/ical';
+
+export {
+  buildShowEvents,
+  escapeText,
+  foldLine,
+  parseClockTime,
+  toDateKey,
+} from '../../supabase/functions/_shared/ical';
+export type { CalendarOptions, ShowRow } from '../../supabase/functions/_shared/ical';
+
+const toIsoString = (value?: Date | string | null): string | null =>
+  value instanceof Date ? (isFinite(value.getTime()) ? value.toISOString() : null) : value ?? null;
+
+/**
+ * Map an app show to the `shows` row the calendar builder reads.
+ */
+export const toCalendarRow = (show: Show): ShowRow => ({
+  id: show.id,
+  title: show.title,
+  description: show.description,
+  location: show.location,
+  address: show.address,
+  start_date: toDateKey(show.startDate) ?? '',
+  end_date: show.endDate ? toDateKey(show.endDate) : null,
+  start_time: show.startTime,
+  end_time: show.endTime,
+  entry_fee: typeof show.entryFee === 'number' ? show.entryFee : null,
+  status: show.status,
+  website_url: show.websiteUrl,
+  updated_at: toIsoString(show.updatedAt),
+  latitude: show.coordinates?.latitude,
+  longitude: show.coordinates?.longitude,
+  daily_schedule: show.dailySchedule,
+});
+
+/**
+ * Generate a complete VCALENDAR document for one or more shows.
+ */
+export const generateShowCalendar = (shows: Show[], options: CalendarOptions = {}): string =>
+  generateCalendar(shows.map(toCalendarRow), options);
@@ -0,0 +1,245 @@
+/**
+ * inventoryCsv.ts
+ * Parses dealer inventory spreadsheets (CSV, or tab-separated text pasted
+ * from Excel / Google Sheets) into `InventoryItemInput` rows.
+ *
+ * Headers are matched loosely ("Player", "player_name", "Card #", "Qty"…)
+ * so dealers can export from whatever tool they already use.
+ */
+
+import {
+  DelimitedRecord,
+  parseDelimited,
+  parseDelimitedRecords,
+} from '../../supabase/functions/_shared/delimited';
+import { InventoryItemInput } from '../types';
+
+// Same CSV parser the show import pipeline uses
+export { parseDelimited };
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const INVENTORY_CSV_TEMPLATE =
+  'sku,player,set,year,card_number,grader,grade,card_types,price,quantity,notes\n' +
+  'A-001,Mickey Mantle,Topps,1952,311,PSA,4,Vintage;Baseball;Slabs,12500,1,Centered\n';
+
+export interface InventoryCsvError {
+  /** 1-based line number in the source text */
+  line: number;
+  message: string;
+}
+
+export interface InventoryCsvResult {
+  items: InventoryItemInput[];
+  errors: InventoryCsvError[];
+}
+
+type InventoryField =
+  | 'sku'
+  | 'playerName'
+  | 'setName'
+  | 'year'
+  | 'cardNumber'
+  | 'grader'
+  | 'grade'
+  | 'cardTypes'
+  | 'askingPrice'
+  | 'quantity'
+  | 'notes';
+
+// Normalized header (lowercase, alphanumerics only) → field
+const HEADER_ALIASES: Record<string, InventoryField> = {
+  sku: 'sku',
+  stocknumber: 'sku',
+  id: 'sku',
+  player: 'playerName',
+  playername: 'playerName',
+  name: 'playerName',
+  subject: 'playerName',
+  card: 'playerName',
+  set: 'setName',
+  setname: 'setName',
+  product: 'setName',
+  year: 'year',
+  season: 'year',
+  number: 'cardNumber',
+  cardnumber: 'cardNumber',
+  no: 'cardNumber',
+  grader: 'grader',
+  gradingcompany: 'grader',
+  company: 'grader',
+  grade: 'grade',
+  condition: 'grade',
+  cardtypes: 'cardTypes',
+  cardtype: 'cardTypes',
+  type: 'cardTypes',
+  types: 'cardTypes',
+  category: 'cardTypes',
+  categories: 'cardTypes',
+  price: 'askingPrice',
+  askingprice: 'askingPrice',
+  asking: 'askingPrice',
+  quantity: 'quantity',
+  qty: 'quantity',
+  count: 'quantity',
+  notes: 'notes',
+  note: 'notes',
+  description: 'notes',
+};
+
+// Grading companies recognised in a combined "PSA 10" grade column
+const KNOWN_GRADERS = ['PSA', 'BGS', 'SGC', 'CGC', 'CSG', 'HGA', 'BVG', 'TAG'];
+
+const normalizeHeader = (header: string): string => {
+  const trimmed = header.trim().toLowerCase();
+  // "Card #" / "#" → card number
+  if (trimmed === '#' || /card\s*#/.test(trimmed)) return 'cardnumber';
+  return trimmed.replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Tab when the header row has tabs (pasted from a spreadsheet), else comma
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.includes('\t') ? '\t' : ',';
+};
+
+/**
+ * "$1,250.00" → 1250; returns null for blanks and NaN for garbage
+ */
+const parsePrice = (value: string): number | null => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+  return /^\d+(\.\d{1,2})?$/.test(cleaned) ? Number(cleaned) : NaN;
+};
+
+/**
+ * Split "PSA 10" / "BGS 9.5" into grader + grade when no grader column
+ * was given. Anything else is kept as the grade.
+ */
+export const splitGrade = (value: string): { grader: string | null; grade: string | null } => {
+  const trimmed = value.trim();
+  if (!trimmed) return { grader: null, grade: null };
+
+  const match = trimmed.match(/^([A-Za-z]{3})\s*[- ]?\s*(.+)$/);
+  if (match && KNOWN_GRADERS.includes(match[1].toUpperCase())) {
+    return { grader: match[1].toUpperCase(), grade: match[2].trim() };
+  }
+  return { grader: null, grade: trimmed };
+};
+
+/**
+ * Parse an inventory spreadsheet. Rows with errors are skipped and
+ * reported; the remaining rows can still be imported.
+ */
+export const parseInventoryCsv = (text: string): InventoryCsvResult => {
+  const items: InventoryItemInput[] = [];
+  const errors: InventoryCsvError[] = [];
+
+  let records: DelimitedRecord[];
+  try {
+    records = parseDelimitedRecords(text.replace(/^\uFEFF/, ''), detectDelimiter(text));
+  } catch (error) {
+    // csv-parse reports where it gave up, e.g. a quote that is never closed
+    const { code, lines } = error as { code?: string; lines?: number };
+    return {
+      items,
+      errors: [
+        {
+          line: lines || 1,
+          message:
+            code === 'CSV_QUOTE_NOT_CLOSED'
+              ? 'A quoted cell is never closed'
+              : 'The file could not be read',
+        },
+      ],
+    };
+  }
+
+  const headerIndex = records.findIndex(record => record.cells.some(cell => cell.trim() !== ''));
+
+  if (headerIndex === -1) {
+    return { items, errors: [{ line: 1, message: 'The file is empty' }] };
+  }
+
+  const header = records[headerIndex];
+  const columns = header.cells.map(cell => HEADER_ALIASES[normalizeHeader(cell)]);
+  if (!columns.includes('playerName')) {
+    return {
+      items,
+      errors: [{ line: header.line, message: 'Missing a "player" column' }],
+    };
+  }
+
+  const dataRows = records.slice(headerIndex + 1);
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return {
+      items,
+      errors: [{ line: header.line, message: `Import at most ${MAX_IMPORT_ROWS} rows at a time` }],
+    };
+  }
+
+  dataRows.forEach(({ line, cells: row }) => {
+    if (row.every(cell => cell.trim() === '')) return;
+
+    const values: Partial<Record<InventoryField, string>> = {};
+    columns.forEach((field, col) => {
+      if (field && values[field] === undefined) {
+        values[field] = (row[col] ?? '').trim();
+      }
+    });
+
+    if (!values.playerName) {
+      errors.push({ line, message: 'Player is required' });
+      return;
+    }
+
+    let year: number | null = null;
+    if (values.year) {
+      year = Number(values.year.slice(0, 4));
+      if (!/^\d{4}/.test(values.year) || year < 1850 || year > 2100) {
+        errors.push({ line, message: `Invalid year "${values.year}"` });
+        return;
+      }
+    }
+
+    const askingPrice = parsePrice(values.askingPrice ?? '');
+    if (Number.isNaN(askingPrice)) {
+      errors.push({ line, message: `Invalid price "${values.askingPrice}"` });
+      return;
+    }
+
+    let quantity = 1;
+    if (values.quantity) {
+      quantity = Number(values.quantity);
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        errors.push({ line, message: `Invalid quantity "${values.quantity}"` });
+        return;
+      }
+    }
+
+    const { grader, grade } = values.grader
+      ? { grader: values.grader.toUpperCase(), grade: values.grade || null }
+      : splitGrade(values.grade ?? '');
+
+    items.push({
+      sku: values.sku || null,
+      playerName: values.playerName,
+      setName: values.setName || null,
+      year,
+      cardNumber: values.cardNumber?.replace(/^#/, '') || null,
+      grader,
+      grade,
+      cardTypes: (values.cardTypes ?? '')
+        .split(/[;|,]/)
+        .map(type => type.trim())
+        .filter(Boolean),
+      askingPrice,
+      quantity,
+      notes: values.notes || null,
+    });
+  });
+
+  return { items, errors };
+};
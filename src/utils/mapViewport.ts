@@ -0,0 +1,218 @@
+/**
+ * mapViewport.ts
+ * Turns a map region into the bounding box + zoom that `get_map_viewport`
+ * expects, and snaps it to the server's cluster grid so small pans reuse
+ * the previous request instead of firing a new one. Also clusters shows
+ * on the device the same way, for the offline map.
+ */
+
+import { MapCluster, MapViewport, MapViewportResult, Show, ShowFilters } from '../types';
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export const MIN_MAP_ZOOM = 0;
+export const MAX_MAP_ZOOM = 20;
+
+// Same grid the RPC clusters on: 2^(zoom + 2) cells around the world
+const GRID_CELLS_PER_TILE = 4;
+
+const DEFAULT_DATE_RANGE_DAYS = 30;
+
+// Same thresholds as get_map_viewport
+const PIN_ZOOM = 11;
+const MAX_UNCLUSTERED_SHOWS = 150;
+const PIN_LIMIT = 500;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Wrap a longitude into [-180, 180) */
+export const normalizeLongitude = (longitude: number): number => {
+  const wrapped = ((((longitude + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 && longitude > 0 ? 180 : wrapped;
+};
+
+/** Web-mercator style zoom level for a region's longitude span */
+export const zoomForRegion = (region: MapRegion): number => {
+  const delta = clamp(region.longitudeDelta, 1e-6, 360);
+  return clamp(Math.round(Math.log2(360 / delta)), MIN_MAP_ZOOM, MAX_MAP_ZOOM);
+};
+
+export const regionToViewport = (region: MapRegion): MapViewport => {
+  const zoom = zoomForRegion(region);
+  const halfLat = region.latitudeDelta / 2;
+  const minLatitude = clamp(region.latitude - halfLat, -90, 90);
+  const maxLatitude = clamp(region.latitude + halfLat, -90, 90);
+
+  if (region.longitudeDelta >= 360) {
+    return { minLatitude, minLongitude: -180, maxLatitude, maxLongitude: 180, zoom };
+  }
+
+  const halfLng = region.longitudeDelta / 2;
+  return {
+    minLatitude,
+    minLongitude: normalizeLongitude(region.longitude - halfLng),
+    maxLatitude,
+    maxLongitude: normalizeLongitude(region.longitude + halfLng),
+    zoom,
+  };
+};
+
+/**
+ * Grow the viewport outwards to whole grid cells. Regions that differ by
+ * less than a cell produce the same viewport (and so the same query key),
+ * and clusters on the edge of the screen are never cut in half.
+ */
+export const snapViewport = (viewport: MapViewport): MapViewport => {
+  const cell = 360 / (Math.pow(2, viewport.zoom) * GRID_CELLS_PER_TILE);
+  const down = (value: number, offset: number) => Math.floor((value + offset) / cell) * cell - offset;
+  const up = (value: number, offset: number) => Math.ceil((value + offset) / cell) * cell - offset;
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  const minLongitude = round(Math.max(-180, down(viewport.minLongitude, 180)));
+  const maxLongitude = round(Math.min(180, up(viewport.maxLongitude, 180)));
+  const crossesAntimeridian = viewport.minLongitude > viewport.maxLongitude;
+
+  return {
+    minLatitude: round(Math.max(-90, down(viewport.minLatitude, 90))),
+    maxLatitude: round(Math.min(90, up(viewport.maxLatitude, 90))),
+    // Snapping a box that crosses the antimeridian can make the two ends meet
+    ...(crossesAntimeridian && minLongitude <= maxLongitude
+      ? { minLongitude: -180, maxLongitude: 180 }
+      : { minLongitude, maxLongitude }),
+    zoom: viewport.zoom,
+  };
+};
+
+/** Stable string for de-duplicating identical viewport requests */
+export const viewportKey = (viewport: MapViewport): string =>
+  [
+    viewport.zoom,
+    viewport.minLatitude,
+    viewport.minLongitude,
+    viewport.maxLatitude,
+    viewport.maxLongitude,
+  ].join(':');
+
+const toDay = (value: Date | string): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+/**
+ * Filters in the shape the RPC reads (the same keys as a saved search).
+ * Location/radius are dropped – the viewport replaces them – and dates are
+ * reduced to whole days so a `new Date()` default doesn't change the query
+ * key on every render.
+ */
+export const viewportFilters = (filters: ShowFilters = {}, now: Date = new Date()) => {
+  const start = toDay(filters.startDate || now);
+  const end = toDay(
+    filters.endDate || new Date(now.getTime() + DEFAULT_DATE_RANGE_DAYS * 24 * 60 * 60 * 1000)
+  );
+
+  return {
+    startDate: start ? `${start}T00:00:00.000Z` : undefined,
+    endDate: end ? `${end}T23:59:59.999Z` : undefined,
+    maxEntryFee: typeof filters.maxEntryFee === 'number' ? filters.maxEntryFee : undefined,
+    features: filters.features?.length ? [...filters.features].sort() : undefined,
+    categories: filters.categories?.length ? [...filters.categories].sort() : undefined,
+    dealerCardTypes: filters.dealerCardTypes?.length ? [...filters.dealerCardTypes].sort() : undefined,
+    keyword: filters.keyword?.trim() || undefined,
+  };
+};
+
+/** Region that frames a cluster's shows, used when a cluster is tapped */
+export const regionForCluster = (cluster: MapCluster, padding = 1.4): MapRegion => {
+  const { minLatitude, minLongitude, maxLatitude, maxLongitude } = cluster.bounds;
+  // Never zoom past street level, even if every show is at one venue
+  const minDelta = 0.02;
+
+  return {
+    latitude: (minLatitude + maxLatitude) / 2,
+    longitude: (minLongitude + maxLongitude) / 2,
+    latitudeDelta: Math.max((maxLatitude - minLatitude) * padding, minDelta),
+    longitudeDelta: Math.max((maxLongitude - minLongitude) * padding, minDelta),
+  };
+};
+
+/** Whether a point is inside the viewport, which may cross the antimeridian */
+export const isInViewport = (
+  latitude: number,
+  longitude: number,
+  viewport: Omit<MapViewport, 'zoom'>
+): boolean => {
+  if (latitude < viewport.minLatitude || latitude > viewport.maxLatitude) return false;
+  return viewport.minLongitude <= viewport.maxLongitude
+    ? longitude >= viewport.minLongitude && longitude <= viewport.maxLongitude
+    : longitude >= viewport.minLongitude || longitude <= viewport.maxLongitude;
+};
+
+const startTime = (show: Show): number => {
+  const time = new Date(show.startDate).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Pins or grid clusters for shows already filtered on the device, using
+ * the same thresholds and grid as `get_map_viewport`. Shows outside the
+ * viewport or without coordinates are left out.
+ */
+export const clusterViewportShows = (shows: Show[], viewport: MapViewport): MapViewportResult => {
+  const inside = shows
+    .filter(
+      show =>
+        !!show.coordinates &&
+        isInViewport(show.coordinates.latitude, show.coordinates.longitude, viewport)
+    )
+    .sort((a, b) => startTime(a) - startTime(b));
+  const zoom = clamp(Math.round(viewport.zoom), MIN_MAP_ZOOM, 22);
+
+  if (zoom >= PIN_ZOOM || inside.length <= MAX_UNCLUSTERED_SHOWS) {
+    return {
+      mode: 'pins',
+      shows: inside.slice(0, PIN_LIMIT),
+      clusters: [],
+      totalCount: inside.length,
+      truncated: inside.length > PIN_LIMIT,
+    };
+  }
+
+  const cell = 360 / Math.pow(2, zoom + 2);
+  const cells = new Map<string, Show[]>();
+  inside.forEach(show => {
+    const { latitude, longitude } = show.coordinates!;
+    const id = `${zoom}:${Math.floor((longitude + 180) / cell)}:${Math.floor((latitude + 90) / cell)}`;
+    cells.set(id, [...(cells.get(id) ?? []), show]);
+  });
+
+  const pins: Show[] = [];
+  const clusters: MapCluster[] = [];
+  cells.forEach((members, id) => {
+    if (members.length === 1) {
+      pins.push(members[0]);
+      return;
+    }
+    const latitudes = members.map(show => show.coordinates!.latitude);
+    const longitudes = members.map(show => show.coordinates!.longitude);
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    clusters.push({
+      id,
+      coordinates: { latitude: average(latitudes), longitude: average(longitudes) },
+      count: members.length,
+      bounds: {
+        minLatitude: Math.min(...latitudes),
+        minLongitude: Math.min(...longitudes),
+        maxLatitude: Math.max(...latitudes),
+        maxLongitude: Math.max(...longitudes),
+      },
+    });
+  });
+
+  return { mode: 'clusters', shows: pins, clusters, totalCount: inside.length, truncated: false };
+};
@@ -0,0 +1,20 @@
+/**
+ * Recurrence rules (RFC 5545 RRULE subset) for show series
+ *
+ * Implemented in `supabase/functions/_shared/recurrence.ts`, which the
+ * `materialize-show-series` edge function uses too, so the app and the
+ * daily roll-forward always expand a rule to the same dates.
+ */
+
+export {
+  describeRecurrence,
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+} from '../../supabase/functions/_shared/recurrence';
+export type {
+  ExpandOptions,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday,
+} from '../../supabase/functions/_shared/recurrence';
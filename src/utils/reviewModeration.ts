@@ -0,0 +1,44 @@
+/**
+ * Review moderation helpers
+ *
+ * Report reasons offered to users and validation of the report form.
+ * Screening and holds happen server-side (see
+ * supabase/migrations/20251021020000_review_moderation.sql).
+ */
+
+import { ReviewReportReason } from '../types';
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/** Reasons in the order they are offered in the report sheet */
+export const REVIEW_REPORT_REASONS: { value: ReviewReportReason; label: string }[] = [
+  { value: 'abusive', label: 'Abusive or harassing' },
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'fake', label: "Fake – they didn't attend" },
+  { value: 'off_topic', label: 'Not about this show' },
+  { value: 'other', label: 'Something else' },
+];
+
+/**
+ * Check a report before sending it.
+ * @returns An error message for the user, or null when the report is valid
+ */
+export const validateReviewReport = (
+  reason: ReviewReportReason | null | undefined,
+  details?: string | null
+): string | null => {
+  if (!reason || !REVIEW_REPORT_REASONS.some(option => option.value === reason)) {
+    return 'Please choose a reason';
+  }
+
+  const trimmed = (details ?? '').trim();
+  if (reason === 'other' && trimmed.length === 0) {
+    return "Please tell us what's wrong";
+  }
+
+  if (trimmed.length > MAX_REPORT_DETAILS_LENGTH) {
+    return `Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or less`;
+  }
+
+  return null;
+};
@@ -0,0 +1,125 @@
+/**
+ * Review stats helpers
+ *
+ * Per-aspect ratings (venue, dealer variety, pricing, parking) and the
+ * helpful / not-helpful tallies shown next to each review. Vote totals
+ * and the "most helpful" ranking are maintained server-side (see
+ * supabase/migrations/20251021030000_review_helpfulness.sql).
+ */
+
+import { ReviewAspect, ReviewAspectRatings } from '../types';
+
+/** Aspects in the order they are shown, with their `reviews` column */
+export const REVIEW_ASPECTS: { key: ReviewAspect; column: string; label: string }[] = [
+  { key: 'venue', column: 'venue_rating', label: 'Venue' },
+  { key: 'dealerVariety', column: 'dealer_variety_rating', label: 'Dealer variety' },
+  { key: 'pricing', column: 'pricing_rating', label: 'Pricing' },
+  { key: 'parking', column: 'parking_rating', label: 'Parking' },
+];
+
+export interface AspectSummary {
+  /** Average of the ratings given, rounded to one decimal */
+  average: number;
+  /** Number of reviews that rated this aspect */
+  count: number;
+}
+
+export interface HelpfulCounts {
+  helpfulCount: number;
+  notHelpfulCount: number;
+}
+
+const isValidRating = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+
+/**
+ * Read the aspect ratings off a `reviews` row. Unrated aspects are left out.
+ */
+export const aspectRatingsFromRow = (row: Record<string, any>): ReviewAspectRatings => {
+  const ratings: ReviewAspectRatings = {};
+  REVIEW_ASPECTS.forEach(({ key, column }) => {
+    if (isValidRating(row[column])) {
+      ratings[key] = row[column];
+    }
+  });
+  return ratings;
+};
+
+/**
+ * Column values for an insert or update. Aspects that aren't set are
+ * written as NULL so clearing one in the form clears it in the database.
+ */
+export const aspectRatingsToColumns = (
+  ratings: ReviewAspectRatings = {}
+): Record<string, number | null> => {
+  const columns: Record<string, number | null> = {};
+  REVIEW_ASPECTS.forEach(({ key, column }) => {
+    columns[column] = ratings[key] ?? null;
+  });
+  return columns;
+};
+
+/**
+ * Check aspect ratings before saving.
+ * @returns An error message for the user, or null when the ratings are valid
+ */
+export const validateAspectRatings = (ratings?: ReviewAspectRatings | null): string | null => {
+  if (!ratings) {
+    return null;
+  }
+
+  for (const { key, label } of REVIEW_ASPECTS) {
+    const value = ratings[key];
+    if (value !== undefined && value !== null && !isValidRating(value)) {
+      return `${label} rating must be between 1 and 5`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Average each aspect across reviews. Aspects nobody rated are left out.
+ */
+export const summarizeAspectRatings = (
+  rows: Record<string, any>[]
+): Partial<Record<ReviewAspect, AspectSummary>> => {
+  const summary: Partial<Record<ReviewAspect, AspectSummary>> = {};
+
+  REVIEW_ASPECTS.forEach(({ key, column }) => {
+    const values = rows.map(row => row[column]).filter(isValidRating);
+    if (values.length === 0) {
+      return;
+    }
+    const total = values.reduce((sum, value) => sum + value, 0);
+    summary[key] = {
+      average: Math.round((total / values.length) * 10) / 10,
+      count: values.length,
+    };
+  });
+
+  return summary;
+};
+
+/**
+ * Tallies after a user changes their vote, for optimistic updates.
+ * `previous` and `next` are true (helpful), false (not helpful) or null
+ * (no vote).
+ */
+export const applyHelpfulVote = (
+  counts: HelpfulCounts,
+  previous: boolean | null | undefined,
+  next: boolean | null
+): HelpfulCounts => {
+  let { helpfulCount, notHelpfulCount } = counts;
+
+  if (previous === true) helpfulCount--;
+  if (previous === false) notHelpfulCount--;
+  if (next === true) helpfulCount++;
+  if (next === false) notHelpfulCount++;
+
+  return {
+    helpfulCount: Math.max(0, helpfulCount),
+    notHelpfulCount: Math.max(0, notHelpfulCount),
+  };
+};
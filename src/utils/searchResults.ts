@@ -0,0 +1,75 @@
+/**
+ * searchResults.ts
+ * Query normalization, grouping and match highlighting for unified search.
+ */
+
+import { SearchResult, SearchResultType } from '../types';
+
+export const MIN_SEARCH_LENGTH = 2;
+
+export interface SearchResultGroup {
+  type: SearchResultType;
+  label: string;
+  icon: string;
+  results: SearchResult[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Display order and labels for grouped results
+const GROUPS: { type: SearchResultType; label: string; icon: string }[] = [
+  { type: 'show', label: 'Shows', icon: 'calendar-outline' },
+  { type: 'series', label: 'Series', icon: 'repeat-outline' },
+  { type: 'dealer', label: 'Dealers', icon: 'storefront-outline' },
+  { type: 'venue', label: 'Venues', icon: 'business-outline' },
+  { type: 'city', label: 'Cities', icon: 'location-outline' },
+];
+
+/** Trim, collapse whitespace and cap the length of a search query */
+export const normalizeSearchQuery = (query: string | null | undefined): string =>
+  (query ?? '').replace(/\s+/g, ' ').trim().slice(0, 100);
+
+/**
+ * Group results by type in display order, best match first within each
+ * group. Empty groups are left out.
+ */
+export const groupSearchResults = (results: SearchResult[]): SearchResultGroup[] =>
+  GROUPS.map(group => ({
+    ...group,
+    results: results
+      .filter(result => result.type === group.type)
+      .sort((a, b) => b.score - a.score),
+  })).filter(group => group.results.length > 0);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split `text` into matched / unmatched runs so typeahead rows can bold the
+ * part the user typed. Each query word is matched case-insensitively; a
+ * fuzzy hit with no literal overlap comes back as one unmatched segment.
+ */
+export const highlightMatch = (text: string, query: string): HighlightSegment[] => {
+  const words = normalizeSearchQuery(query)
+    .split(' ')
+    .filter(word => word.length > 0)
+    .map(escapeRegExp);
+  if (!text || words.length === 0) return [{ text, match: false }];
+
+  // Longest words first so "card" wins over "ca" at the same position
+  const pattern = new RegExp(`(${words.sort((a, b) => b.length - a.length).join('|')})`, 'gi');
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(text)) !== null) {
+    if (found.index > last) segments.push({ text: text.slice(last, found.index), match: false });
+    segments.push({ text: found[0], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+
+  return segments;
+};
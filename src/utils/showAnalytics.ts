@@ -0,0 +1,109 @@
+/**
+ * Helpers for the organizer analytics dashboard: filling daily series for
+ * charts, summing totals and comparing a show with its series' other
+ * instances.
+ */
+
+import {
+  SeriesInstanceAnalytics,
+  ShowAnalyticsTotals,
+  ShowEventDailyCount,
+  ShowEventType,
+} from '../types';
+
+export const EMPTY_TOTALS: ShowAnalyticsTotals = {
+  detailViews: 0,
+  uniqueViewers: 0,
+  mapPinTaps: 0,
+  favorites: 0,
+  directionsTaps: 0,
+  broadcastOpens: 0,
+};
+
+export const TOTAL_KEYS = Object.keys(EMPTY_TOTALS) as (keyof ShowAnalyticsTotals)[];
+
+const toDayKey = (date: Date): string => {
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const d = String(date.getUTCDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+/**
+ * Per-day counts of one event type from `from` to `to` (inclusive, UTC
+ * calendar days), with zeros for days that had no events.
+ */
+export const buildDailySeries = (
+  counts: ShowEventDailyCount[],
+  eventType: ShowEventType,
+  from: Date,
+  to: Date
+): { day: string; count: number }[] => {
+  const byDay = new Map<string, number>();
+  counts
+    .filter(c => c.eventType === eventType)
+    .forEach(c => byDay.set(c.day, (byDay.get(c.day) ?? 0) + c.count));
+
+  const series: { day: string; count: number }[] = [];
+  const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  const end = toDayKey(to);
+  while (toDayKey(cursor) <= end) {
+    const day = toDayKey(cursor);
+    series.push({ day, count: byDay.get(day) ?? 0 });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return series;
+};
+
+/**
+ * Sum totals across shows
+ */
+export const sumTotals = (rows: ShowAnalyticsTotals[]): ShowAnalyticsTotals =>
+  rows.reduce<ShowAnalyticsTotals>(
+    (acc, row) => {
+      TOTAL_KEYS.forEach(key => {
+        acc[key] += row[key];
+      });
+      return acc;
+    },
+    { ...EMPTY_TOTALS }
+  );
+
+export interface SeriesComparison {
+  /** Average of the series' other instances that started before this one */
+  pastAverage: ShowAnalyticsTotals;
+  /** Number of past instances averaged */
+  pastInstanceCount: number;
+  /** Percent change vs. the past average; null when there is nothing to compare with */
+  change: Record<keyof ShowAnalyticsTotals, number | null>;
+}
+
+/**
+ * Compare one instance of a series with the instances that came before it
+ */
+export const compareWithPastInstances = (
+  showId: string,
+  instances: SeriesInstanceAnalytics[]
+): SeriesComparison | null => {
+  const current = instances.find(i => i.showId === showId);
+  if (!current) return null;
+
+  const currentStart = new Date(current.startDate).getTime();
+  const past = instances.filter(
+    i => i.showId !== showId && new Date(i.startDate).getTime() < currentStart
+  );
+
+  const pastAverage = { ...EMPTY_TOTALS };
+  const change = {} as Record<keyof ShowAnalyticsTotals, number | null>;
+  const totals = sumTotals(past);
+
+  TOTAL_KEYS.forEach(key => {
+    pastAverage[key] = past.length > 0 ? totals[key] / past.length : 0;
+    change[key] =
+      past.length > 0 && pastAverage[key] > 0
+        ? Math.round(((current[key] - pastAverage[key]) / pastAverage[key]) * 100)
+        : null;
+  });
+
+  return { pastAverage, pastInstanceCount: past.length, change };
+};
@@ -0,0 +1,332 @@
+/**
+ * tripPlanner.ts
+ * Plans a multi-show weekend: works out when each show is open (from
+ * `dailySchedule`, the show's start/end time, or default hours), flags shows
+ * whose hours overlap, and orders the shows into a feasible itinerary that
+ * keeps driving to a minimum.
+ *
+ * Times are local wall-clock minutes after midnight on each show day. Shows
+ * in one weekend trip are assumed to share a timezone.
+ */
+
+import { Coordinates, Show } from '../types';
+import { parseClockTime, toDateKey } from './icalendar';
+
+export const MAX_TRIP_SHOWS = 6;
+export const DEFAULT_VISIT_MINUTES = 90;
+export const DEFAULT_DRIVING_SPEED_MPH = 45;
+
+// Assumed opening hours when a show lists none
+const DEFAULT_OPEN_MINUTES = 9 * 60;
+const DEFAULT_CLOSE_MINUTES = 17 * 60;
+
+const TRIP_URL = 'https://cardshowfinder.app/trip';
+
+export type DistanceFn = (from: Coordinates, to: Coordinates) => number;
+
+export interface ShowOpenWindow {
+  showId: string;
+  date: string; // YYYY-MM-DD
+  openMinutes: number;
+  closeMinutes: number;
+  /** False when the show lists no hours and defaults were assumed */
+  hoursKnown: boolean;
+  timezone?: string;
+}
+
+export interface TripConflict {
+  showIds: [string, string];
+  date: string;
+  overlapMinutes: number;
+}
+
+export interface TripStop {
+  show: Show;
+  date: string;
+  arriveMinutes: number;
+  departMinutes: number;
+  /** Miles from the previous stop (or the origin); null when unknown */
+  driveMiles: number | null;
+  driveMinutes: number;
+  hoursKnown: boolean;
+  timezone?: string;
+}
+
+export interface SkippedTripShow {
+  show: Show;
+  reason: 'ended' | 'no_time';
+}
+
+export interface TripItinerary {
+  stops: TripStop[];
+  skipped: SkippedTripShow[];
+  totalMiles: number;
+}
+
+export interface TripPlanOptions {
+  distanceBetween: DistanceFn;
+  /** Where the trip starts, e.g. the user's location */
+  origin?: Coordinates | null;
+  visitMinutes?: number;
+  drivingSpeedMph?: number;
+  /** Days before this are ignored (defaults to today) */
+  now?: Date;
+}
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+const toMinutes = (time: { hours: number; minutes: number }): number =>
+  time.hours * 60 + time.minutes;
+
+const addDays = (dateKey: string, days: number): string => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/**
+ * "9:30 AM" for 570
+ */
+export const formatTripTime = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60) % 24;
+  const mins = rounded % 60;
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${pad(mins)} ${suffix}`;
+};
+
+/**
+ * The days and hours a show is open, earliest first.
+ */
+export const getShowOpenWindows = (show: Show): ShowOpenWindow[] => {
+  const schedule = Array.isArray(show.dailySchedule) ? show.dailySchedule : [];
+  const fromSchedule = schedule
+    .map((day): ShowOpenWindow | null => {
+      const open = parseClockTime(day?.startTime);
+      const close = parseClockTime(day?.endTime);
+      if (!day || !/^\d{4}-\d{2}-\d{2}$/.test(day.date ?? '') || !open || !close) return null;
+      return {
+        showId: show.id,
+        date: day.date,
+        openMinutes: toMinutes(open),
+        closeMinutes: toMinutes(close),
+        hoursKnown: true,
+        timezone: day.timezone,
+      };
+    })
+    .filter((window): window is ShowOpenWindow => !!window && window.closeMinutes > window.openMinutes);
+
+  if (fromSchedule.length > 0) {
+    return fromSchedule.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  const startKey = toDateKey(show.startDate);
+  if (!startKey) return [];
+  const endKey = toDateKey(show.endDate) ?? startKey;
+  const lastKey = endKey < startKey ? startKey : endKey;
+
+  const open = parseClockTime(show.startTime);
+  const close = parseClockTime(show.endTime);
+  const hoursKnown = !!open && !!close && toMinutes(close) > toMinutes(open);
+
+  const windows: ShowOpenWindow[] = [];
+  for (let key = startKey; key <= lastKey; key = addDays(key, 1)) {
+    windows.push({
+      showId: show.id,
+      date: key,
+      openMinutes: hoursKnown ? toMinutes(open!) : DEFAULT_OPEN_MINUTES,
+      closeMinutes: hoursKnown ? toMinutes(close!) : DEFAULT_CLOSE_MINUTES,
+      hoursKnown,
+    });
+  }
+  return windows;
+};
+
+/**
+ * Pairs of shows open at the same time on the same day.
+ */
+export const findTripConflicts = (shows: Show[]): TripConflict[] => {
+  const windows = shows.map(getShowOpenWindows);
+  const conflicts: TripConflict[] = [];
+
+  for (let i = 0; i < shows.length; i++) {
+    for (let j = i + 1; j < shows.length; j++) {
+      windows[i].forEach(a => {
+        windows[j]
+          .filter(b => b.date === a.date)
+          .forEach(b => {
+            const overlap =
+              Math.min(a.closeMinutes, b.closeMinutes) - Math.max(a.openMinutes, b.openMinutes);
+            if (overlap > 0) {
+              conflicts.push({ showIds: [shows[i].id, shows[j].id], date: a.date, overlapMinutes: overlap });
+            }
+          });
+      });
+    }
+  }
+
+  return conflicts;
+};
+
+interface PlanState {
+  date: string | null;
+  minutes: number;
+  position: Coordinates | null;
+}
+
+/**
+ * Earliest visit to `show` that fits after the current position and time.
+ */
+const scheduleVisit = (
+  show: Show,
+  windows: ShowOpenWindow[],
+  state: PlanState,
+  options: Required<Pick<TripPlanOptions, 'visitMinutes' | 'drivingSpeedMph' | 'distanceBetween'>>
+): TripStop | null => {
+  const driveMiles =
+    state.position && show.coordinates ? options.distanceBetween(state.position, show.coordinates) : null;
+  const driveMinutes = driveMiles !== null ? (driveMiles / options.drivingSpeedMph) * 60 : 0;
+
+  for (const window of windows) {
+    if (state.date && window.date < state.date) continue;
+
+    const visit = Math.min(options.visitMinutes, window.closeMinutes - window.openMinutes);
+    // A later day leaves the evening / morning for the drive
+    const arrive =
+      state.date === window.date
+        ? Math.max(state.minutes + driveMinutes, window.openMinutes)
+        : window.openMinutes;
+
+    if (arrive + visit <= window.closeMinutes) {
+      return {
+        show,
+        date: window.date,
+        arriveMinutes: arrive,
+        departMinutes: arrive + visit,
+        driveMiles,
+        driveMinutes: Math.round(driveMinutes),
+        hoursKnown: window.hoursKnown,
+        timezone: window.timezone,
+      };
+    }
+  }
+
+  return null;
+};
+
+const permutations = <T>(items: T[]): T[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+};
+
+/**
+ * Order shows into the itinerary that visits the most of them, then drives
+ * the fewest miles, then finishes earliest. Shows that can't be fitted in are
+ * returned in `skipped`.
+ */
+export const planTrip = (shows: Show[], options: TripPlanOptions): TripItinerary => {
+  const today = toDateKey(options.now ?? new Date()) ?? '';
+  const settings = {
+    distanceBetween: options.distanceBetween,
+    visitMinutes: options.visitMinutes ?? DEFAULT_VISIT_MINUTES,
+    drivingSpeedMph: options.drivingSpeedMph ?? DEFAULT_DRIVING_SPEED_MPH,
+  };
+
+  const candidates = shows.slice(0, MAX_TRIP_SHOWS).map(show => ({
+    show,
+    windows: getShowOpenWindows(show).filter(window => window.date >= today),
+  }));
+  const ended = candidates.filter(c => c.windows.length === 0).map(c => c.show);
+  const open = candidates.filter(c => c.windows.length > 0);
+
+  let best: { stops: TripStop[]; miles: number; finish: string } | null = null;
+
+  for (const order of permutations(open)) {
+    const state: PlanState = { date: null, minutes: 0, position: options.origin ?? null };
+    const stops: TripStop[] = [];
+
+    order.forEach(({ show, windows }) => {
+      const stop = scheduleVisit(show, windows, state, settings);
+      if (!stop) return;
+      stops.push(stop);
+      state.date = stop.date;
+      state.minutes = stop.departMinutes;
+      state.position = show.coordinates ?? state.position;
+    });
+
+    const miles = stops.reduce((sum, stop) => sum + (stop.driveMiles ?? 0), 0);
+    const finish = `${state.date ?? ''}T${pad(Math.floor(state.minutes / 60))}:${pad(Math.round(state.minutes % 60))}`;
+
+    const isBetter =
+      !best ||
+      stops.length > best.stops.length ||
+      (stops.length === best.stops.length &&
+        (miles < best.miles - 0.05 || (Math.abs(miles - best.miles) <= 0.05 && finish < best.finish)));
+
+    if (isBetter) {
+      best = { stops, miles, finish };
+    }
+  }
+
+  const plannedIds = new Set((best?.stops ?? []).map(stop => stop.show.id));
+
+  return {
+    stops: best?.stops ?? [],
+    skipped: [
+      ...ended.map(show => ({ show, reason: 'ended' as const })),
+      ...open.filter(c => !plannedIds.has(c.show.id)).map(c => ({ show: c.show, reason: 'no_time' as const })),
+    ],
+    totalMiles: Math.round((best?.miles ?? 0) * 10) / 10,
+  };
+};
+
+/**
+ * Shareable link that opens the trip planner with the same shows
+ */
+export const buildTripShareUrl = (showIds: string[], name?: string): string => {
+  const params = [`shows=${showIds.map(encodeURIComponent).join(',')}`];
+  if (name && name.trim()) params.push(`name=${encodeURIComponent(name.trim())}`);
+  return `${TRIP_URL}?${params.join('&')}`;
+};
+
+/**
+ * Show ids from a trip link's `shows` param (comma separated), de-duplicated
+ * and capped at MAX_TRIP_SHOWS.
+ */
+export const parseTripShowIds = (value?: string | string[] | null): string[] => {
+  const raw = Array.isArray(value) ? value.join(',') : value ?? '';
+  const ids = raw
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => /^[0-9a-f-]{8,}$/i.test(id));
+  return Array.from(new Set(ids)).slice(0, MAX_TRIP_SHOWS);
+};
+
+/**
+ * One calendar-ready show per stop, scheduled for the planned visit, so the
+ * regular .ics export can be reused for the trip.
+ */
+export const toTripCalendarShows = (itinerary: TripItinerary): Show[] =>
+  itinerary.stops.map((stop, index) => {
+    const drive =
+      stop.driveMiles !== null && index > 0
+        ? ` · ${Math.round(stop.driveMiles)} mi from ${itinerary.stops[index - 1].show.title}`
+        : '';
+    return {
+      ...stop.show,
+      startTime: undefined,
+      endTime: undefined,
+      dailySchedule: [
+        {
+          date: stop.date,
+          startTime: formatTripTime(stop.arriveMinutes),
+          endTime: formatTripTime(stop.departMinutes),
+          notes: `Trip stop ${index + 1} of ${itinerary.stops.length}${drive}`,
+          timezone: stop.timezone,
+        },
+      ],
+    };
+  });
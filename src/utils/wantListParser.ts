@@ -0,0 +1,17 @@
+/**
+ * wantListParser.ts
+ * Turns a free-text want list ("1986 Fleer #57 Michael Jordan PSA 8+ under
+ * $2,000") into structured entries used for dealer inventory matching.
+ *
+ * Implemented in `supabase/functions/_shared/wantListParser.ts`, which the
+ * `match-want-lists` edge function also uses to upgrade existing lists.
+ */
+
+export {
+  INVENTORY_PREFIX,
+  formatWantListItem,
+  parseWantList,
+  parseWantListEntry,
+  splitWantListEntries,
+} from '../../supabase/functions/_shared/wantListParser';
+export type { WantListParseResult } from '../../supabase/functions/_shared/wantListParser';
@@ -0,0 +1,77 @@
+/**
+ * API keys for the public-api edge function
+ *
+ * Keys are looked up by their SHA-256 hex digest, the same value
+ * `create_api_key()` stores with pgcrypto, and every key gets two quotas
+ * on the shared rate limiter: a per-minute burst limit and a daily quota.
+ * Runs under Deno in the edge function and under Jest in tests.
+ */
+
+import type { RateLimitConfig, RateLimiter, RateLimitResult } from "./rate-limit.ts";
+
+export interface ApiKeyRow {
+  id: string;
+  name: string;
+  requests_per_minute: number;
+  daily_quota: number;
+}
+
+export interface ApiKeyQuotaResult {
+  allowed: boolean;
+  /** The exceeded window when blocked, otherwise the per-minute one */
+  result: RateLimitResult;
+  /** Error message for the exceeded window */
+  errorMessage?: string;
+}
+
+/**
+ * Hex SHA-256 of a key, matching `api_keys.key_hash`
+ */
+export const hashApiKey = async (apiKey: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Rate limiter settings for a key's two quotas
+ */
+export const apiKeyQuotas = (key: ApiKeyRow): { minute: RateLimitConfig; day: RateLimitConfig } => ({
+  minute: {
+    limit: key.requests_per_minute,
+    window: 60,
+    userBased: true,
+    errorMessage: "Rate limit exceeded for this API key.",
+  },
+  day: {
+    limit: key.daily_quota,
+    window: 24 * 60 * 60,
+    userBased: true,
+    errorMessage: "Daily quota exceeded for this API key.",
+  },
+});
+
+/**
+ * Count one request against a key. The daily quota is only charged for
+ * requests the per-minute limit lets through.
+ */
+export async function checkApiKeyQuotas(
+  rateLimiter: Pick<RateLimiter, "checkRateLimit">,
+  key: ApiKeyRow,
+): Promise<ApiKeyQuotaResult> {
+  const { minute, day } = apiKeyQuotas(key);
+  const consumer = `api_key:${key.id}`;
+
+  const minuteResult = await rateLimiter.checkRateLimit("public-api:minute", minute, undefined, consumer);
+  if (!minuteResult.allowed) {
+    return { allowed: false, result: minuteResult, errorMessage: minute.errorMessage };
+  }
+
+  const dayResult = await rateLimiter.checkRateLimit("public-api:day", day, undefined, consumer);
+  if (!dayResult.allowed) {
+    return { allowed: false, result: dayResult, errorMessage: day.errorMessage };
+  }
+
+  return { allowed: true, result: minuteResult };
+}
@@ -26,7 +26,7 @@
 export const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Authorization, X-Client-Info, Content-Type, X-Requested-With, stripe-signature",
+  "Access-Control-Allow-Headers": "Authorization, X-Client-Info, Content-Type, X-Requested-With, X-API-Key, stripe-signature",
   "Access-Control-Max-Age": "86400", // 24 hours cache for preflight requests
 };
 
@@ -0,0 +1,53 @@
+/**
+ * Card Show Finder - Delimited text
+ *
+ * CSV / TSV parsing shared by the show import pipeline (`./importFormats.ts`)
+ * and the app's dealer inventory import (`src/utils/inventoryCsv.ts`), on
+ * csv-parse. The browser build is used because it bundles its own Buffer,
+ * which React Native doesn't have; edge functions map the specifier to npm
+ * in their deno.json. Runs under Deno, React Native and Jest.
+ */
+
+import { parse } from "csv-parse/browser/esm/sync";
+
+export interface DelimitedRecord {
+  /** 1-based line the record starts on in the source text */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Split delimited text into records (RFC 4180 quoting: fields may be
+ * wrapped in double quotes, `""` is a literal quote, quoted fields may
+ * contain delimiters and newlines). Leading spaces are dropped, rows may
+ * have different lengths, stray quotes inside unquoted fields are kept, and
+ * blank lines are kept as `['']`.
+ *
+ * Throws csv-parse's `CsvError` (with the line in `lines`) when the text
+ * can't be read, e.g. a quoted field that is never closed.
+ */
+export function parseDelimitedRecords(text: string, delimiter = ","): DelimitedRecord[] {
+  const records = parse(text, {
+    delimiter,
+    info: true,
+    ltrim: true,
+    // Mixed line endings, as in files edited on more than one OS
+    record_delimiter: ["\r\n", "\n", "\r"],
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: false,
+  }) as { record: string[]; info: { lines: number } }[];
+
+  // info.lines is the line a record ends on; quoted newlines make it span several
+  let nextLine = 1;
+  return records.map(({ record, info }) => {
+    const line = nextLine;
+    nextLine = info.lines + 1;
+    return { line, cells: record };
+  });
+}
+
+/** The cells of `parseDelimitedRecords()`, without line numbers */
+export function parseDelimited(text: string, delimiter = ","): string[][] {
+  return parseDelimitedRecords(text, delimiter).map((record) => record.cells);
+}
@@ -0,0 +1,414 @@
+/**
+ * Card Show Finder - Extraction confidence
+ *
+ * Scores how much each field of an extracted show can be trusted, by
+ * looking for the value on the page it came from. A value found verbatim
+ * was read; one that appears nowhere was guessed by the AI. Each field
+ * keeps the page snippet it was found in so an admin can check it without
+ * opening the source.
+ *
+ * Scores are stored on `scraped_shows_pending.field_confidence` and
+ * `confidence`. The normalizer lowers them for values it can't parse and
+ * auto-approves rows that clear the threshold (see autoReview).
+ *
+ * Runs under Deno in the edge functions and under Jest in tests.
+ */
+
+import { stripTags } from './extractors/html.ts';
+
+export type ProvenanceMethod = 'structured' | 'verbatim' | 'partial' | 'inferred' | 'missing';
+
+export interface FieldProvenance {
+  /** 0 (absent or guessed) to 1 (read verbatim) */
+  confidence: number;
+  method: ProvenanceMethod;
+  /** Page text around the value, when it was found */
+  snippet: string | null;
+  /** Why the score was lowered after extraction */
+  note?: string;
+}
+
+export type FieldConfidence = Record<string, FieldProvenance>;
+
+/** Fields scored, in the order reviewers read them */
+export const SCORED_FIELDS = [
+  'name',
+  'startDate',
+  'endDate',
+  'venueName',
+  'address',
+  'city',
+  'state',
+  'entryFee',
+  'showHours',
+  'contactInfo',
+] as const;
+
+// A show can't be published without these, so they weigh more and count
+// against the overall score even when missing
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 3,
+  startDate: 3,
+  city: 2,
+  state: 2,
+};
+
+/** Fields below this are highlighted for review */
+export const LOW_CONFIDENCE = 0.6;
+
+/** Used when AUTO_APPROVE_THRESHOLD is not set */
+export const DEFAULT_AUTO_APPROVE_THRESHOLD = 0.9;
+
+/** Same cut-off admin-scraper-api uses to block manual approvals */
+export const DUPLICATE_BLOCK_SCORE = 0.8;
+
+const SNIPPET_CONTEXT = 40;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/** State codes to lowercase names */
+export const US_STATES: Record<string, string> = {
+  AL: 'alabama', AK: 'alaska', AZ: 'arizona', AR: 'arkansas', CA: 'california',
+  CO: 'colorado', CT: 'connecticut', DE: 'delaware', FL: 'florida', GA: 'georgia',
+  HI: 'hawaii', ID: 'idaho', IL: 'illinois', IN: 'indiana', IA: 'iowa',
+  KS: 'kansas', KY: 'kentucky', LA: 'louisiana', ME: 'maine', MD: 'maryland',
+  MA: 'massachusetts', MI: 'michigan', MN: 'minnesota', MS: 'mississippi', MO: 'missouri',
+  MT: 'montana', NE: 'nebraska', NV: 'nevada', NH: 'new hampshire', NJ: 'new jersey',
+  NM: 'new mexico', NY: 'new york', NC: 'north carolina', ND: 'north dakota', OH: 'ohio',
+  OK: 'oklahoma', OR: 'oregon', PA: 'pennsylvania', RI: 'rhode island', SC: 'south carolina',
+  SD: 'south dakota', TN: 'tennessee', TX: 'texas', UT: 'utah', VT: 'vermont',
+  VA: 'virginia', WA: 'washington', WV: 'west virginia', WI: 'wisconsin', WY: 'wyoming',
+  DC: 'district of columbia',
+};
+
+/**
+ * Visible page text, plus a lowercased copy with punctuation collapsed to
+ * single spaces so "Sat., March 8" matches "sat march 8". `offsets` maps
+ * each folded character back to the original text for snippets.
+ */
+export interface SourceText {
+  text: string;
+  folded: string;
+  offsets: number[];
+}
+
+interface Match {
+  start: number;
+  end: number;
+}
+
+function fold(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i].toLowerCase();
+    if (/[\p{L}\p{N}]/u.test(ch)) {
+      folded += ch;
+      offsets.push(i);
+    } else if (folded.length > 0 && !folded.endsWith(' ')) {
+      folded += ' ';
+      offsets.push(i);
+    }
+  }
+  return { folded: folded.trimEnd(), offsets };
+}
+
+const foldValue = (value: string): string => fold(value).folded;
+
+export function sourceText(html: string): SourceText {
+  const text = stripTags(html);
+  return { text, ...fold(text) };
+}
+
+/** Whole-word match of an already folded needle */
+function findFolded(source: SourceText, needle: string): Match | null {
+  if (!needle) return null;
+  const { folded, offsets } = source;
+  let from = 0;
+  while (from <= folded.length) {
+    const at = folded.indexOf(needle, from);
+    if (at === -1) return null;
+    const end = at + needle.length;
+    const before = at === 0 || folded[at - 1] === ' ';
+    const after = end === folded.length || folded[end] === ' ';
+    if (before && after) {
+      return { start: offsets[at], end: offsets[end - 1] + 1 };
+    }
+    from = at + 1;
+  }
+  return null;
+}
+
+function findPattern(source: SourceText, pattern: RegExp): Match | null {
+  const match = pattern.exec(source.text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+function snippetAt(text: string, match: Match): string {
+  const start = Math.max(0, match.start - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, match.end + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+const ordinal = (day: number): string => {
+  if (day % 100 >= 11 && day % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][day % 10] || 'th';
+};
+
+/** Ways a page might write an ISO date: "March 8", "Mar 8th", "3/8", "8 March" */
+function dateCandidates(value: string): string[] {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!iso) return [value];
+
+  const month = Number(iso[2]);
+  const day = Number(iso[3]);
+  const name = MONTHS[month - 1];
+  if (!name) return [value];
+  const short = name.slice(0, 3);
+
+  return [
+    value,
+    `${name} ${day}`,
+    `${short} ${day}`,
+    `${name} ${day}${ordinal(day)}`,
+    `${short} ${day}${ordinal(day)}`,
+    `${day} ${name}`,
+    `${month}/${day}`,
+    `${iso[2]}/${iso[3]}`,
+  ];
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** First place the value appears on the page, however the page writes it */
+function findValue(field: string, value: string, source: SourceText): Match | null {
+  if (field === 'startDate' || field === 'endDate') {
+    for (const candidate of dateCandidates(value)) {
+      const match = findFolded(source, foldValue(candidate));
+      if (match) return match;
+    }
+    return null;
+  }
+
+  if (field === 'state') {
+    const code = value.trim().toUpperCase();
+    if (US_STATES[code]) {
+      // Two-letter codes are matched as written: "in" appears everywhere
+      return findPattern(source, new RegExp(`\\b${code}\\b`)) || findFolded(source, US_STATES[code]);
+    }
+    return findFolded(source, foldValue(value));
+  }
+
+  if (field === 'entryFee') {
+    const amount = value.match(/\d+(?:\.\d{1,2})?/);
+    if (amount && !/[a-z]{3,}/i.test(value)) {
+      const whole = amount[0].replace(/\.00$/, '');
+      return findPattern(source, new RegExp(`\\$\\s*${escapeRegExp(whole)}(?:\\.00)?(?!\\d)`));
+    }
+  }
+
+  return findFolded(source, foldValue(value));
+}
+
+/** Share of the value's words found on the page, with the longest one found */
+function findWords(value: string, source: SourceText): { ratio: number; match: Match | null } {
+  const words = foldValue(value).split(' ').filter((word) => word.length >= 3);
+  if (words.length < 2) return { ratio: 0, match: null };
+
+  let found = 0;
+  let best: { word: string; match: Match } | null = null;
+  for (const word of words) {
+    const match = findFolded(source, word);
+    if (!match) continue;
+    found++;
+    if (!best || word.length > best.word.length) best = { word, match };
+  }
+  return { ratio: found / words.length, match: best?.match ?? null };
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Confidence and source snippet for each scored field of an extracted show.
+ * `structured` is the extractor's flag: those read fields out of markup
+ * (JSON-LD, tables), which is trusted even where the visible text differs.
+ */
+export function scoreFields(
+  show: Record<string, any>,
+  source: SourceText,
+  options: { structured?: boolean } = {}
+): FieldConfidence {
+  const fields: FieldConfidence = {};
+
+  for (const field of SCORED_FIELDS) {
+    const raw = show[field];
+    if (isBlank(raw)) {
+      fields[field] = { confidence: 0, method: 'missing', snippet: null };
+      continue;
+    }
+
+    const value = String(raw).replace(/\s+/g, ' ').trim();
+    const match = findValue(field, value, source);
+
+    if (options.structured) {
+      fields[field] = {
+        confidence: match ? 0.98 : 0.9,
+        method: 'structured',
+        snippet: match ? snippetAt(source.text, match) : null,
+      };
+    } else if (match) {
+      fields[field] = { confidence: 0.95, method: 'verbatim', snippet: snippetAt(source.text, match) };
+    } else {
+      const words = field === 'startDate' || field === 'endDate' || field === 'state' || field === 'entryFee'
+        ? { ratio: 0, match: null }
+        : findWords(value, source);
+
+      fields[field] = words.ratio >= 0.5 && words.match
+        ? { confidence: round(0.4 + 0.4 * words.ratio), method: 'partial', snippet: snippetAt(source.text, words.match) }
+        : { confidence: 0.3, method: 'inferred', snippet: null };
+    }
+  }
+
+  return fields;
+}
+
+function capField(fields: FieldConfidence, field: string, cap: number, note: string): void {
+  const current = fields[field];
+  if (!current || current.method === 'missing') return;
+  fields[field] = { ...current, confidence: Math.min(current.confidence, cap), note };
+}
+
+/**
+ * Lower the score of fields the normalizer couldn't make sense of: a value
+ * quoted straight from the page is still wrong if it isn't a date.
+ */
+export function adjustForNormalization(
+  fields: FieldConfidence,
+  raw: Record<string, any>,
+  normalized: Record<string, any>
+): FieldConfidence {
+  const adjusted: FieldConfidence = { ...fields };
+  const isIsoDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  for (const field of ['startDate', 'endDate']) {
+    if (!isBlank(raw[field]) && !isIsoDate(normalized[field])) {
+      capField(adjusted, field, 0.2, 'Could not be read as a date');
+    }
+  }
+
+  if (!isBlank(raw.state) && !/^[A-Z]{2}$/.test(String(normalized.state ?? ''))) {
+    capField(adjusted, 'state', 0.3, 'Not a recognised US state');
+  }
+
+  if (!isBlank(raw.entryFee) && typeof normalized.entryFee !== 'number') {
+    capField(adjusted, 'entryFee', 0.4, 'No amount found');
+  }
+
+  return adjusted;
+}
+
+/**
+ * Weighted mean over the fields the show has. Required fields always
+ * count, so a show without a city can't score well on its other fields.
+ */
+export function overallConfidence(fields: FieldConfidence): number {
+  let total = 0;
+  let weights = 0;
+
+  for (const [field, provenance] of Object.entries(fields)) {
+    const required = field in FIELD_WEIGHTS;
+    if (!required && provenance.method === 'missing') continue;
+    const weight = FIELD_WEIGHTS[field] ?? 1;
+    total += provenance.confidence * weight;
+    weights += weight;
+  }
+
+  return weights === 0 ? 0 : round(total / weights);
+}
+
+/** Fields to highlight in review: weak values and missing required ones */
+export function lowConfidenceFields(
+  fields: FieldConfidence | null | undefined,
+  threshold: number = LOW_CONFIDENCE
+): string[] {
+  if (!fields) return [];
+  return Object.entries(fields)
+    .filter(([field, provenance]) =>
+      provenance.method === 'missing' ? field in FIELD_WEIGHTS : provenance.confidence < threshold
+    )
+    .map(([field]) => field);
+}
+
+/**
+ * AUTO_APPROVE_THRESHOLD as a number in (0, 1]. Unset means the default;
+ * "off" or anything unreadable turns auto-approval off rather than
+ * approving on a typo.
+ */
+export function parseAutoApproveThreshold(value: string | null | undefined): number | null {
+  if (value === undefined || value === null || value.trim() === '') {
+    return DEFAULT_AUTO_APPROVE_THRESHOLD;
+  }
+  const threshold = Number(value);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) return null;
+  return threshold;
+}
+
+export interface AutoReviewInput {
+  confidence: number | null;
+  fields: FieldConfidence | null;
+  changeType: string;
+  /** Coordinates found for the address, and whether they're street-level */
+  geocoded: boolean;
+  geocodePrecise: boolean;
+  /** isShowDateValid() from _shared/date-filter.ts */
+  dateCheck: { valid: boolean; reason?: string };
+  /** Best find_duplicates_for_pending score, once checked */
+  duplicateScore?: number | null;
+}
+
+export interface AutoReviewResult {
+  approve: boolean;
+  /** Why the row was held for an admin; empty when approved */
+  reasons: string[];
+}
+
+/**
+ * Whether a pending row can be published without an admin. Only new shows
+ * qualify: changes and removals touch a show that's already live.
+ */
+export function autoReview(input: AutoReviewInput, threshold: number | null): AutoReviewResult {
+  const reasons: string[] = [];
+
+  if (threshold === null) reasons.push('Auto-approval is off');
+  if (input.changeType === 'changed') reasons.push('Updates a published show');
+  if (input.changeType === 'removed') reasons.push('Listing removed from the source');
+
+  if (input.confidence === null) {
+    reasons.push('No extraction confidence recorded');
+  } else if (threshold !== null && input.confidence < threshold) {
+    reasons.push(`Confidence ${input.confidence.toFixed(2)} is below ${threshold}`);
+  }
+
+  const weakRequired = lowConfidenceFields(input.fields).filter((field) => field in FIELD_WEIGHTS);
+  if (weakRequired.length > 0) reasons.push(`Low confidence in ${weakRequired.join(', ')}`);
+
+  if (!input.geocoded) {
+    reasons.push('Address could not be geocoded');
+  } else if (!input.geocodePrecise) {
+    reasons.push('Address only geocoded approximately');
+  }
+
+  if (!input.dateCheck.valid) reasons.push(input.dateCheck.reason || 'Failed the date filter');
+
+  if (input.duplicateScore != null && input.duplicateScore >= DUPLICATE_BLOCK_SCORE) {
+    reasons.push(`Possible duplicate of a published show (score ${input.duplicateScore.toFixed(2)})`);
+  }
+
+  return { approve: reasons.length === 0, reasons };
+}
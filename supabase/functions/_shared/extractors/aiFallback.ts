@@ -0,0 +1,202 @@
+/**
+ * Gemini extraction
+ *
+ * Sends up to three 100 KB slices of the page (start / middle / end) to
+ * Gemini and merges the JSON arrays it returns. The generic extractor is
+ * the last resort for pages no other extractor understands. Sites that
+ * only need a different prompt register their own with createAiExtractor.
+ */
+
+import type { ExtractionContext, RawShow, SiteExtractor } from './types.ts';
+
+export const AI_MODEL = 'gemini-1.5-flash';
+const AI_TIMEOUT_MS = 30000;   // 30s per AI request
+const MAX_HTML_SIZE = 100_000; // 100 KB per chunk sent to AI
+const MAX_CHUNKS = 3;          // never send more than 3 chunks
+
+type PromptBuilder = (html: string, context: ExtractionContext, chunkNote: string) => string;
+
+export function buildAIPrompt(html: string, context: ExtractionContext): string {
+  return `
+You are a specialized card show event extractor. Your task is to analyze the HTML content from ${context.url} and extract all trading card show events into a valid JSON array.
+
+Each event object MUST have these keys (use null if information is missing):
+{
+  "name": "Full event name/title",
+  "startDate": "Start date in any format you find (will be normalized later)",
+  "endDate": "End date if multi-day event, otherwise same as start date",
+  "venueName": "Name of venue/location",
+  "address": "Full address if available",
+  "city": "City name",
+  "state": "State abbreviation (2 letters) or full name",
+  "entryFee": "Entry fee as number or text",
+  "description": "Event description if available",
+  "url": "Direct link to event details if available, otherwise use source URL",
+  "contactInfo": "Promoter/contact information if available"
+}
+
+IMPORTANT RULES:
+1. Only extract ACTUAL CARD SHOW EVENTS. Ignore unrelated content.
+2. For tables or lists of events, extract EACH event separately.
+3. If dates appear as ranges like "January 5-6, 2025", create a single event with proper start/end dates.
+4. If multiple shows occur at same venue on different dates, create separate entries for each date.
+5. Normalize state names to standard 2-letter codes when possible.
+6. Extract as much detail as possible, but it's better to return partial information than nothing.
+7. ONLY output the valid JSON array of events. No explanations or markdown.
+
+HTML CONTENT:
+${html}
+`;
+}
+
+// Sports Collectors Digest lists shows under UPPERCASE state headings
+export function buildSCDPrompt(html: string, _context: ExtractionContext, stateNote = ''): string {
+  return `
+You are a specialized card-show event extractor. The HTML is from Sports Collectors Digest.
+The calendar is organised by STATE headings in UPPERCASE (e.g. ALABAMA, ARIZONA).
+Extract EVERY show listing beneath those headings.
+${stateNote ? `NOTE: This chunk mostly contains states: ${stateNote}` : ''}
+
+Output ONLY a JSON array, each object with:
+  name, startDate, endDate, venueName, address, city, state, entryFee,
+  description, url, contactInfo
+
+Important:
+• Use the state heading when populating "state".
+• If a date is a range like "Jan 5-6 2025" set startDate / endDate accordingly.
+• One list/bullet/paragraph = one event.
+• No markdown, no extra text.
+
+HTML:
+${html}
+`;
+}
+
+/** Start / middle / end slices of a large page */
+export function chunkHtml(html: string): { chunk: string; note: string }[] {
+  const chunks = [{ chunk: html.substring(0, MAX_HTML_SIZE), note: 'Document start' }];
+  if (html.length > MAX_HTML_SIZE * 2) {
+    const midStart = Math.floor(html.length / 2) - Math.floor(MAX_HTML_SIZE / 2);
+    chunks.push({ chunk: html.substring(midStart, midStart + MAX_HTML_SIZE), note: 'Document middle' });
+  }
+  if (html.length > MAX_HTML_SIZE * 3) {
+    chunks.push({ chunk: html.substring(html.length - MAX_HTML_SIZE), note: 'Document end' });
+  }
+  return chunks.slice(0, MAX_CHUNKS);
+}
+
+/**
+ * JSON array out of a model reply: strips markdown fences and any prose
+ * around the array. Returns [] when there isn't a parseable array.
+ */
+export function parseAiResponse(rawText: string): Record<string, unknown>[] {
+  let text = rawText.trim();
+  if (text.startsWith('```')) text = text.replace(/```[a-z]*\n?|```/g, '').trim();
+
+  if (!text.startsWith('[')) {
+    const first = text.indexOf('[');
+    const last = text.lastIndexOf(']');
+    if (first === -1 || last === -1) return [];
+    text = text.slice(first, last + 1);
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed.filter((item) => item && typeof item === 'object') : [];
+  } catch (_) {
+    return [];
+  }
+}
+
+const field = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+/** Model output mapped onto RawShow, dropping anything it invented outside the schema */
+export function toRawShow(item: Record<string, unknown>, context: ExtractionContext): RawShow {
+  const startDate = field(item.startDate);
+  return {
+    name: field(item.name),
+    startDate,
+    endDate: field(item.endDate) ?? startDate,
+    venueName: field(item.venueName),
+    address: field(item.address),
+    city: field(item.city),
+    state: field(item.state),
+    entryFee: field(item.entryFee),
+    description: field(item.description),
+    url: field(item.url) ?? context.url,
+    contactInfo: field(item.contactInfo),
+  };
+}
+
+async function callGemini(prompt: string, apiKey: string): Promise<string> {
+  const aiApiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${AI_MODEL}:generateContent?key=${apiKey}`;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(aiApiUrl, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: { temperature: 0.2, topP: 0.8, topK: 40 },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`AI error ${response.status}`);
+    }
+    const json = await response.json();
+    return json?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export function createAiExtractor(options: {
+  id: string;
+  description: string;
+  urlPatterns?: RegExp[];
+  buildPrompt: PromptBuilder;
+}): SiteExtractor {
+  return {
+    id: options.id,
+    description: options.description,
+    urlPatterns: options.urlPatterns,
+    extract: async (html, context) => {
+      if (!context.aiApiKey) {
+        throw new Error('Missing Google AI API key');
+      }
+
+      const shows: RawShow[] = [];
+      const chunks = chunkHtml(html);
+      for (let i = 0; i < chunks.length; i++) {
+        const { chunk, note } = chunks[i];
+        try {
+          const reply = await callGemini(options.buildPrompt(chunk, context, note), context.aiApiKey);
+          const items = parseAiResponse(reply);
+          shows.push(...items.map((item) => toRawShow(item, context)));
+          context.log?.(`chunk ${i + 1} ⇒ ${items.length} shows`);
+        } catch (err) {
+          // One bad chunk shouldn't lose the others
+          context.log?.(`AI failed on chunk ${i + 1}: ${(err as Error).message}`);
+        }
+      }
+      return shows;
+    },
+  };
+}
+
+export const aiExtractor = createAiExtractor({
+  id: 'ai-generic',
+  description: 'Gemini extraction for pages no other extractor understands',
+  buildPrompt: (html, context) => buildAIPrompt(html, context),
+});
+
+export const sportsCollectorsDigestExtractor = createAiExtractor({
+  id: 'ai-sports-collectors-digest',
+  description: 'Gemini extraction with the Sports Collectors Digest state-heading prompt',
+  urlPatterns: [/sportscollectorsdigest/i],
+  buildPrompt: buildSCDPrompt,
+});
@@ -0,0 +1,178 @@
+/**
+ * DPMS Sports Cards – Indiana card show list
+ *
+ * The page is one line per show:
+ *   "Jan 5 - Lafayette, "Knights of Columbus" - 1600 S 9th St (9-2) Bob Smith 765-555-0100"
+ * i.e. date (or range), city, quoted venue, address, then hours and the
+ * promoter in parentheses / free text. Shows are free to enter.
+ */
+
+import type { ExtractionContext, RawShow, SiteExtractor } from './types.ts';
+import { htmlToLines, isLikelyHours } from './html.ts';
+
+const MONTH_MAP: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+// Words that end up in front of a phone number but aren't a contact name
+const CONTACT_STOP_WORDS = new Set([
+  'Street', 'St', 'St.', 'Drive', 'Dr', 'Dr.', 'Road', 'Rd', 'Rd.',
+  'Avenue', 'Ave', 'Ave.', 'Boulevard', 'Blvd', 'Blvd.', 'Way', 'Lane', 'Ln', 'Ln.',
+  'Court', 'Ct', 'Ct.', 'East', 'West', 'North', 'South', 'E', 'W', 'N', 'S',
+  'Main', 'Division', 'Taylor', 'Carroll', 'Hunter', 'Wabash', 'Victory', 'Field',
+  'Bronco', 'Votaw', 'Sample', 'Jefferson', 'Robbins',
+]);
+
+// The list has no years. Dates more than two months back belong to next
+// year (a December page already lists January shows).
+const ROLLOVER_DAYS = 60;
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function parseSingleDate(text: string, now: Date): Date | null {
+  const month = MONTH_MAP[text.match(/^([a-z]+)/i)?.[1]?.toLowerCase() ?? ''];
+  const day = Number(text.match(/(\d{1,2})/)?.[1]);
+  if (month === undefined || !day) return null;
+
+  const date = new Date(Date.UTC(now.getUTCFullYear(), month, day));
+  if (now.getTime() - date.getTime() > ROLLOVER_DAYS * 24 * 60 * 60 * 1000) {
+    date.setUTCFullYear(date.getUTCFullYear() + 1);
+  }
+  return date;
+}
+
+function parseDateRange(text: string, now: Date): { start: Date; end: Date } | null {
+  const value = text.replace(/(\d+)(st|nd|rd|th)/gi, '$1').trim();
+  if (!/[-–—]| to /i.test(value)) {
+    const date = parseSingleDate(value, now);
+    return date ? { start: date, end: date } : null;
+  }
+
+  const [a, b] = value.split(/[-–—]| to /i).map((s) => s.trim());
+  const start = parseSingleDate(a, now);
+  if (!start) return null;
+
+  // "Jan 5-6": the second half has no month
+  const month = a.match(/^([a-z]+)/i)?.[1];
+  const end = parseSingleDate(/^[a-z]/i.test(b) ? b : `${month} ${b}`, now);
+  if (!end) return null;
+
+  // A range that crosses New Year
+  if (end < start) end.setUTCFullYear(end.getUTCFullYear() + 1);
+  return { start, end };
+}
+
+function parseContact(text: string): string {
+  const phone = /\(?\s*(\d{3})\s*\)?[-\s]?(\d{3})[-\s]?(\d{4})/.exec(text);
+  if (!phone) return '';
+
+  const formatted = `(${phone[1]}) ${phone[2]}-${phone[3]}`;
+  const before = text.slice(Math.max(0, phone.index - 60), phone.index);
+  const nameMatch = /([A-Z][a-zA-Z.'-]{2,}(?:\s+[A-Z][a-zA-Z.'-]{2,}){0,2})\s*$/.exec(before);
+
+  let name = '';
+  if (nameMatch) {
+    const parts = nameMatch[1].split(/\s+/).filter((word) => !CONTACT_STOP_WORDS.has(word));
+    if (parts.length >= 2) {
+      name = `${parts[parts.length - 2]} ${parts[parts.length - 1]}`;
+    } else if (parts.length === 1) {
+      name = parts[0];
+    }
+  }
+  return name ? `${name} ${formatted}` : formatted;
+}
+
+export function parseDpmsIndianaHtml(html: string, context: ExtractionContext): RawShow[] {
+  const monthRe = /^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)/i;
+  const showLines = htmlToLines(html).filter(
+    (line) => monthRe.test(line) && /[-–—]/.test(line) && /,/.test(line)
+  );
+
+  const shows: RawShow[] = [];
+  const seen = new Set<string>();
+
+  for (const line of showLines) {
+    const dateMatch = line.match(
+      /^(\s*[A-Za-z]+\s+\d{1,2}(?:st|nd|rd|th)?(?:\s*(?:-|–|—|to)\s*\d{1,2}(?:st|nd|rd|th)?)?)/
+    );
+    if (!dateMatch) continue;
+
+    const dates = parseDateRange(dateMatch[1], context.now);
+    if (!dates) continue;
+
+    const remaining = line.slice(dateMatch[0].length).trim();
+
+    const locEnd = remaining.indexOf('(') > -1 ? remaining.indexOf('(') : remaining.length;
+    const locPart = remaining.slice(0, locEnd).replace(/^[–—-]\s*/, '').trim();
+    const segs = locPart.split(/\s[–—-]\s/).map((s) => s.trim());
+
+    let city = '';
+    let venue = '';
+    let address = '';
+    if (segs.length >= 2) {
+      address = segs.slice(1).join(' - ');
+      const comma = segs[0].indexOf(',');
+      if (comma > -1) {
+        city = segs[0].slice(0, comma).trim();
+        venue = segs[0].slice(comma + 1).trim().replace(/^["']|["']$/g, '');
+      } else {
+        city = segs[0].trim();
+      }
+    }
+    if (!city && locPart.includes(',')) {
+      city = locPart.split(',')[0].trim();
+    }
+
+    const hoursTokens: string[] = [];
+    const hoursRe = /\(([^)]+)\)/g;
+    let m: RegExpExecArray | null;
+    while ((m = hoursRe.exec(remaining)) !== null) {
+      if (isLikelyHours(m[1])) hoursTokens.push(m[1]);
+    }
+    const hours = hoursTokens
+      .map((t) => t.replace(/[–—]/g, '-').replace(/\s+/g, ' ').trim())
+      .join(', ');
+
+    const startDate = toIsoDate(dates.start);
+    const key = `${city}|${address}|${startDate}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    shows.push({
+      name: city || null,
+      startDate,
+      endDate: toIsoDate(dates.end),
+      venueName: venue || null,
+      address: address || null,
+      city: city || null,
+      state: 'IN',
+      zipCode: null,
+      showHours: hours || null,
+      contactInfo: parseContact(remaining) || null,
+      entryFee: 'free',
+      description: null,
+      url: context.url,
+    });
+  }
+
+  return shows;
+}
+
+export const dpmsIndianaExtractor: SiteExtractor = {
+  id: 'dpms-indiana',
+  description: 'DPMS Sports Cards Indiana show list (one show per line)',
+  urlPatterns: [/dpmsportcards\.com\/indiana-card-shows/i],
+  structured: true,
+  extract: parseDpmsIndianaHtml,
+};
@@ -0,0 +1,86 @@
+/**
+ * Facebook-style single event pages
+ *
+ * Public event pages carry the details in OpenGraph tags and an embedded
+ * data blob rather than in the visible markup:
+ *   og:title        "Spring Card Show"
+ *   og:description  "Event in Peoria, IL by Central Illinois Collectors on
+ *                    Saturday, March 15 2025 with 120 people interested…"
+ *   "start_timestamp":1742043600, "event_place":{"name":"Expo Hall"}
+ * Each page is one show.
+ */
+
+import type { ExtractionContext, RawShow, SiteExtractor } from './types.ts';
+import { decodeEntities, emptyShow, getMetaContent } from './html.ts';
+
+// "Event in Peoria, IL by Central Illinois Collectors on Saturday, March 15 2025"
+const DESCRIPTION_RE =
+  /Event in ([^,]+),\s*([A-Z]{2}|[A-Za-z ]+?)(?: by (.+?))? on (?:[A-Za-z]+,\s*)?([A-Za-z]+ \d{1,2},? \d{4})/;
+
+const unescapeJson = (value: string) => {
+  try {
+    return JSON.parse(`"${value}"`) as string;
+  } catch (_) {
+    return value;
+  }
+};
+
+/** Date (YYYY-MM-DD) and clock time of a Unix timestamp in the page's zone offset */
+function fromTimestamp(seconds: number, offsetMinutes: number): { date: string; time: string } {
+  const local = new Date((seconds + offsetMinutes * 60) * 1000);
+  const hours = local.getUTCHours();
+  const minutes = local.getUTCMinutes().toString().padStart(2, '0');
+  return {
+    date: local.toISOString().slice(0, 10),
+    time: `${hours % 12 || 12}:${minutes}${hours >= 12 ? 'pm' : 'am'}`,
+  };
+}
+
+function extractFacebookEvent(html: string, context: ExtractionContext): RawShow[] {
+  const show = emptyShow(getMetaContent(html, 'og:url') ?? context.url);
+  show.name = getMetaContent(html, 'og:title');
+  show.description = getMetaContent(html, 'og:description');
+
+  const description = show.description?.match(DESCRIPTION_RE);
+  if (description) {
+    show.city = description[1].trim();
+    show.state = description[2].trim();
+    show.contactInfo = description[3]?.trim() ?? null;
+    show.startDate = description[4];
+    show.endDate = description[4];
+  }
+
+  // The embedded blob is more precise than the description when present
+  const start = html.match(/"start_timestamp"\s*:\s*(\d{9,})/);
+  const end = html.match(/"end_timestamp"\s*:\s*(\d{9,})/);
+  const offset = Number(html.match(/"tz_offset_minutes"\s*:\s*(-?\d+)/)?.[1] ?? 0);
+  if (start) {
+    const startAt = fromTimestamp(Number(start[1]), offset);
+    show.startDate = startAt.date;
+    show.endDate = startAt.date;
+    if (end) {
+      const endAt = fromTimestamp(Number(end[1]), offset);
+      show.endDate = endAt.date;
+      show.showHours = `${startAt.time}-${endAt.time}`;
+    }
+  }
+
+  const place = html.match(/"event_place"\s*:\s*\{[^{}]*?"name"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+  if (place) {
+    show.venueName = decodeEntities(unescapeJson(place[1]));
+  }
+
+  const address = html.match(/"one_line_address"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+  if (address) {
+    show.address = decodeEntities(unescapeJson(address[1]));
+  }
+
+  return show.name && show.startDate ? [show] : [];
+}
+
+export const facebookEventExtractor: SiteExtractor = {
+  id: 'facebook-event',
+  description: 'Facebook-style public event page (OpenGraph tags + embedded event data)',
+  urlPatterns: [/(?:^|\/\/|\.)facebook\.com\/events\//i, /(?:^|\/\/|\.)fb\.me\/e\//i],
+  extract: extractFacebookEvent,
+};
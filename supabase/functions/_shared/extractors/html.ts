@@ -0,0 +1,169 @@
+/**
+ * Card Show Finder - HTML helpers for the scraper extractors
+ *
+ * Regex-based on purpose: edge functions have no DOM, and promoter pages
+ * are small enough that a parser isn't worth the cold-start cost.
+ */
+
+import type { RawShow } from './types.ts';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '-',
+  mdash: '-',
+  ldquo: '"',
+  rdquo: '"',
+  lsquo: "'",
+  rsquo: "'",
+  hellip: '...',
+};
+
+/**
+ * Decode the HTML entities promoter pages actually use. Dashes and curly
+ * quotes are flattened to ASCII so the parsers only have to handle one form.
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => {
+      const n = Number(code);
+      if (n === 8211 || n === 8212) return '-';
+      if (n === 8216 || n === 8217) return "'";
+      if (n === 8220 || n === 8221) return '"';
+      return String.fromCharCode(n);
+    })
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&([a-z]+);/gi, (match, name) => NAMED_ENTITIES[name.toLowerCase()] ?? match);
+}
+
+/** Inline text of an HTML fragment, whitespace collapsed */
+export function stripTags(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Text of a page split into trimmed, non-empty lines at block boundaries */
+export function htmlToLines(html: string): string[] {
+  return decodeEntities(
+    html
+      .replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n')
+      .replace(/<[^>]*>/g, ' ')
+  )
+    .replace(/\r/g, '')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/** Content of a <meta property|name="..."> tag, decoded */
+export function getMetaContent(html: string, key: string): string | null {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const tag = html.match(new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]*>`, 'i'));
+  const content = tag?.[0].match(/content=(["'])([\s\S]*?)\1/i);
+  return content ? decodeEntities(content[2]).trim() : null;
+}
+
+/** Whether a snippet reads like opening hours ("8-2", "Sat 9am-3pm") */
+export function isLikelyHours(text: string): boolean {
+  if (!text) return false;
+  // Time range (e.g., "8-2", "10:30am-4pm")
+  const timeRangePattern = /\b(1[0-2]|[1-9])(:[0-5][0-9])?\s*(am|pm)?\s*(?:[-–—]|to)\s*(1[0-2]|[1-9])(:[0-5][0-9])?\s*(am|pm)?\b/i;
+  // Day of week followed by a time
+  const dayTimePattern = /\b(mon|tue|wed|thu|fri|sat|sun|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\s+\d/i;
+  return timeRangePattern.test(text) || dayTimePattern.test(text);
+}
+
+/**
+ * Start and end time from a single range ("9am-3pm", "8-2"). Bare hours
+ * are read as a morning start and an afternoon end. Multi-range strings
+ * ("Sat 9-4, Sun 10-3") are left for the normalizer.
+ */
+export function parseSimpleHours(text: string): { startTime: string | null; endTime: string | null } {
+  if (!text) return { startTime: null, endTime: null };
+
+  if (/[,;]/.test(text)) {
+    return { startTime: null, endTime: null };
+  }
+
+  const norm = text.replace(/[–—]/g, '-').toLowerCase().trim();
+
+  const ampmRegex = /\b(\d{1,2}(?::\d{2})?\s*(?:am|pm))\s*(?:-|to|until)\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm))\b/;
+  const m1 = norm.match(ampmRegex);
+  if (m1) {
+    return { startTime: m1[1], endTime: m1[2] };
+  }
+
+  const simpleRegex = /\b(\d{1,2}(?::\d{2})?)\s*-\s*(\d{1,2}(?::\d{2})?)\b/;
+  const m2 = norm.match(simpleRegex);
+  if (!m2) return { startTime: null, endTime: null };
+
+  const toAmPm = (value: string, isEnd: boolean) => {
+    const [h, mins = 0] = value.split(':').map(Number);
+    const meridian = h === 12 ? 'pm' : h >= 1 && h <= 11 ? (isEnd ? 'pm' : 'am') : 'am';
+    return `${h}:${mins.toString().padStart(2, '0')}${meridian}`;
+  };
+
+  return {
+    startTime: toAmPm(m2[1], false),
+    endTime: toAmPm(m2[2], true),
+  };
+}
+
+/**
+ * Split a date range into start and end strings, keeping the month and
+ * year on both halves: "March 5-6, 2025" → "March 5, 2025" / "March 6, 2025".
+ * Anything that isn't a recognisable range comes back as start = end.
+ */
+export function splitDateRange(text: string): { start: string; end: string } {
+  const value = text.replace(/[–—]/g, '-').replace(/\s+/g, ' ').trim();
+
+  // "March 5-6, 2025" / "Mar 5 - 6"
+  const sameMonth = value.match(/^([A-Za-z]+\.?)\s+(\d{1,2})(?:st|nd|rd|th)?\s*(?:-|to)\s*(\d{1,2})(?:st|nd|rd|th)?(,?\s*\d{4})?$/i);
+  if (sameMonth) {
+    const year = sameMonth[4] ?? '';
+    return {
+      start: `${sameMonth[1]} ${sameMonth[2]}${year}`,
+      end: `${sameMonth[1]} ${sameMonth[3]}${year}`,
+    };
+  }
+
+  // "March 31 - April 1, 2025"
+  const crossMonth = value.match(/^([A-Za-z]+\.?\s+\d{1,2})(?:st|nd|rd|th)?\s*(?:-|to)\s*([A-Za-z]+\.?\s+\d{1,2})(?:st|nd|rd|th)?(,?\s*\d{4})?$/i);
+  if (crossMonth) {
+    const year = crossMonth[3] ?? '';
+    return { start: `${crossMonth[1]}${year}`, end: `${crossMonth[2]}${year}` };
+  }
+
+  return { start: value, end: value };
+}
+
+/** A RawShow with every field null, for extractors to fill in */
+export function emptyShow(url: string): RawShow {
+  return {
+    name: null,
+    startDate: null,
+    endDate: null,
+    venueName: null,
+    address: null,
+    city: null,
+    state: null,
+    zipCode: null,
+    showHours: null,
+    entryFee: null,
+    description: null,
+    url,
+    contactInfo: null,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Listing tables
+ *
+ * Promoter calendars are often a plain <table> with a header row
+ * ("Date | Show | Venue | City | Hours | Admission"). Columns are matched
+ * on header keywords, so the order doesn't matter. Runs on any page with a
+ * table whose header has a date column and a show, venue or city column.
+ */
+
+import type { ExtractionContext, RawShow, SiteExtractor } from './types.ts';
+import { emptyShow, splitDateRange, stripTags } from './html.ts';
+
+type Column = 'date' | 'name' | 'venue' | 'address' | 'city' | 'state' | 'hours' | 'fee' | 'contact' | 'description';
+
+// First match wins, so "show date" is a date column and not a name column
+const HEADER_KEYWORDS: { column: Column; pattern: RegExp }[] = [
+  { column: 'date', pattern: /\b(date|dates|when|day)\b/i },
+  { column: 'hours', pattern: /\b(hours|time|times)\b/i },
+  { column: 'fee', pattern: /\b(admission|fee|cost|price|entry)\b/i },
+  { column: 'address', pattern: /\b(address|street)\b/i },
+  { column: 'city', pattern: /\b(city|town|location)\b/i },
+  { column: 'state', pattern: /\b(state|st)\b/i },
+  { column: 'venue', pattern: /\b(venue|place|facility|where)\b/i },
+  { column: 'contact', pattern: /\b(contact|promoter|phone|organizer|host)\b/i },
+  { column: 'description', pattern: /\b(details|notes|description|info)\b/i },
+  { column: 'name', pattern: /\b(show|event|name|title)\b/i },
+];
+
+const TABLE_RE = /<table[\s\S]*?<\/table>/gi;
+const ROW_RE = /<tr[\s\S]*?<\/tr>/gi;
+const CELL_RE = /<(td|th)[^>]*>([\s\S]*?)<\/\1>/gi;
+
+function rowsOf(table: string): { cells: string[]; isHeader: boolean }[] {
+  return (table.match(ROW_RE) ?? []).map((row) => {
+    const cells: string[] = [];
+    let isHeader = true;
+    let match: RegExpExecArray | null;
+    CELL_RE.lastIndex = 0;
+    while ((match = CELL_RE.exec(row)) !== null) {
+      if (match[1].toLowerCase() === 'td') isHeader = false;
+      cells.push(stripTags(match[2]));
+    }
+    return { cells, isHeader };
+  });
+}
+
+/** Column index by role, from a header row. Null when it isn't a show listing. */
+function mapHeader(cells: string[]): Partial<Record<Column, number>> | null {
+  const columns: Partial<Record<Column, number>> = {};
+  cells.forEach((cell, index) => {
+    const match = HEADER_KEYWORDS.find(({ pattern }) => pattern.test(cell));
+    if (match && columns[match.column] === undefined) {
+      columns[match.column] = index;
+    }
+  });
+
+  const hasDate = columns.date !== undefined;
+  const hasWhat = columns.name !== undefined || columns.venue !== undefined || columns.city !== undefined;
+  return hasDate && hasWhat ? columns : null;
+}
+
+function findListings(html: string): { columns: Partial<Record<Column, number>>; rows: string[][] }[] {
+  const listings: { columns: Partial<Record<Column, number>>; rows: string[][] }[] = [];
+
+  for (const table of html.match(TABLE_RE) ?? []) {
+    const rows = rowsOf(table).filter((row) => row.cells.some(Boolean));
+    const headerIndex = rows.findIndex((row) => mapHeader(row.cells) !== null);
+    if (headerIndex === -1) continue;
+
+    const columns = mapHeader(rows[headerIndex].cells)!;
+    listings.push({
+      columns,
+      rows: rows.slice(headerIndex + 1).filter((row) => !row.isHeader).map((row) => row.cells),
+    });
+  }
+
+  return listings;
+}
+
+function toRawShow(cells: string[], columns: Partial<Record<Column, number>>, context: ExtractionContext): RawShow | null {
+  const cell = (column: Column) => {
+    const index = columns[column];
+    return index === undefined ? null : cells[index] || null;
+  };
+
+  const date = cell('date');
+  if (!date) return null;
+
+  const show = emptyShow(context.url);
+  const { start, end } = splitDateRange(date);
+  show.startDate = start;
+  show.endDate = end;
+  show.venueName = cell('venue');
+  show.address = cell('address');
+  show.showHours = cell('hours');
+  show.entryFee = cell('fee');
+  show.contactInfo = cell('contact');
+  show.description = cell('description');
+
+  // "Peoria, IL" in a single location column
+  const city = cell('city');
+  const cityState = city?.match(/^(.+?),\s*([A-Z]{2})\b/);
+  show.city = cityState ? cityState[1] : city;
+  show.state = cell('state') ?? (cityState ? cityState[2] : null);
+
+  show.name = cell('name') ?? show.venueName ?? show.city;
+  return show.name ? show : null;
+}
+
+export const htmlTableExtractor: SiteExtractor = {
+  id: 'html-table',
+  description: 'Show listing tables with a header row',
+  detect: (html) => findListings(html).length > 0,
+  extract: (html, context) =>
+    findListings(html).flatMap(({ columns, rows }) =>
+      rows
+        .map((cells) => toRawShow(cells, columns, context))
+        .filter((show): show is RawShow => show !== null)
+    ),
+};
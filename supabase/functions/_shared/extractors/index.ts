@@ -0,0 +1,80 @@
+/**
+ * Card Show Finder - Scraper extractor registry
+ *
+ * Decides how a scraping source is read:
+ *   1. Site extractors whose urlPatterns match `scraping_sources.url`,
+ *      in registration order (hand-written parsers, site-specific prompts)
+ *   2. Generic extractors whose detect() recognises the page
+ *      (JSON-LD events, listing tables)
+ *   3. The generic AI extractor
+ * The first extractor that returns any shows wins. One that throws or
+ * finds nothing falls through to the next, so a redesigned promoter page
+ * degrades to AI extraction instead of going quiet.
+ *
+ * To support a new site, add an extractor module with a fixture test and
+ * register it in SITE_EXTRACTORS. The scraper agent doesn't change.
+ */
+
+import type { ExtractionContext, ExtractionOutcome, SiteExtractor } from './types.ts';
+import { dpmsIndianaExtractor } from './dpmsIndiana.ts';
+import { facebookEventExtractor } from './facebookEvent.ts';
+import { htmlTableExtractor } from './htmlTable.ts';
+import { jsonLdEventExtractor } from './jsonLdEvent.ts';
+import { aiExtractor, sportsCollectorsDigestExtractor } from './aiFallback.ts';
+
+export type { ExtractionContext, ExtractionOutcome, RawShow, SiteExtractor } from './types.ts';
+export { isLikelyHours, parseSimpleHours } from './html.ts';
+
+/** Matched on `scraping_sources.url`; first match runs first */
+export const SITE_EXTRACTORS: SiteExtractor[] = [
+  dpmsIndianaExtractor,
+  facebookEventExtractor,
+  sportsCollectorsDigestExtractor,
+];
+
+/** Tried on any page they detect, most reliable first */
+export const GENERIC_EXTRACTORS: SiteExtractor[] = [
+  jsonLdEventExtractor,
+  htmlTableExtractor,
+];
+
+export const FALLBACK_EXTRACTOR: SiteExtractor = aiExtractor;
+
+/** Extractors to try for a source, in order */
+export function selectExtractors(url: string, html: string): SiteExtractor[] {
+  const bySite = SITE_EXTRACTORS.filter((extractor) =>
+    extractor.urlPatterns?.some((pattern) => pattern.test(url))
+  );
+  const byContent = GENERIC_EXTRACTORS.filter((extractor) => extractor.detect?.(html));
+  return [...bySite, ...byContent, FALLBACK_EXTRACTOR];
+}
+
+export async function extractShows(html: string, context: ExtractionContext): Promise<ExtractionOutcome> {
+  const outcome: ExtractionOutcome = {
+    extractorId: null,
+    structured: false,
+    shows: [],
+    attempted: [],
+    errors: [],
+  };
+
+  for (const extractor of selectExtractors(context.url, html)) {
+    outcome.attempted.push(extractor.id);
+    try {
+      const shows = await extractor.extract(html, context);
+      context.log?.(`${extractor.id} ⇒ ${shows.length} shows`);
+      if (shows.length > 0) {
+        outcome.extractorId = extractor.id;
+        outcome.structured = !!extractor.structured;
+        outcome.shows = shows;
+        return outcome;
+      }
+    } catch (err) {
+      const message = (err as Error).message;
+      context.log?.(`${extractor.id} failed: ${message}`);
+      outcome.errors.push(`${extractor.id}: ${message}`);
+    }
+  }
+
+  return outcome;
+}
@@ -0,0 +1,139 @@
+/**
+ * schema.org `Event` in JSON-LD
+ *
+ * Most WordPress event plugins (The Events Calendar, Eventbrite embeds,
+ * Squarespace) publish one <script type="application/ld+json"> per event or
+ * an ItemList of them. Runs on any page that has one.
+ */
+
+import type { ExtractionContext, RawShow, SiteExtractor } from './types.ts';
+import { decodeEntities, emptyShow, stripTags } from './html.ts';
+
+const JSON_LD_RE = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+const isEventType = (type: unknown): boolean => {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some((t) => typeof t === 'string' && /Event$/.test(t));
+};
+
+/** Every Event node in a JSON-LD document, including @graph and ItemList members */
+function collectEvents(node: unknown, events: Record<string, any>[], depth = 0): void {
+  if (!node || typeof node !== 'object' || depth > 5) return;
+
+  if (Array.isArray(node)) {
+    node.forEach((item) => collectEvents(item, events, depth + 1));
+    return;
+  }
+
+  const obj = node as Record<string, any>;
+  if (isEventType(obj['@type'])) {
+    events.push(obj);
+    return;
+  }
+
+  collectEvents(obj['@graph'], events, depth + 1);
+  collectEvents(obj.itemListElement, events, depth + 1);
+  collectEvents(obj.item, events, depth + 1);
+}
+
+function parseJsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  let match: RegExpExecArray | null;
+  JSON_LD_RE.lastIndex = 0;
+  while ((match = JSON_LD_RE.exec(html)) !== null) {
+    try {
+      blocks.push(JSON.parse(match[1].trim()));
+    } catch (_) {
+      // Plugins occasionally emit invalid JSON; skip that block
+    }
+  }
+  return blocks;
+}
+
+const text = (value: unknown): string | null => {
+  if (typeof value === 'string') {
+    const cleaned = stripTags(decodeEntities(value));
+    return cleaned || null;
+  }
+  if (typeof value === 'number') return String(value);
+  return null;
+};
+
+/** "2025-03-15T09:00:00-05:00" → "2025-03-15" */
+const isoDate = (value: unknown): string | null => {
+  const raw = text(value);
+  if (!raw) return null;
+  const match = raw.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : raw;
+};
+
+/** "2025-03-15T09:00:00-05:00" → "9:00am" */
+const isoTime = (value: unknown): string | null => {
+  const match = text(value)?.match(/T(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  if (hours === 0 && match[2] === '00') return null; // date-only events
+  const meridian = hours >= 12 ? 'pm' : 'am';
+  return `${hours % 12 || 12}:${match[2]}${meridian}`;
+};
+
+function formatFee(offers: unknown): string | null {
+  const offer = Array.isArray(offers) ? offers[0] : offers;
+  if (!offer || typeof offer !== 'object') return null;
+
+  const { price, priceCurrency } = offer as Record<string, unknown>;
+  if (price === undefined || price === null || price === '') return null;
+
+  const amount = Number(price);
+  if (amount === 0) return 'free';
+  if (Number.isNaN(amount)) return text(price);
+  return priceCurrency && priceCurrency !== 'USD' ? `${amount} ${priceCurrency}` : `$${amount}`;
+}
+
+function toRawShow(event: Record<string, any>, context: ExtractionContext): RawShow {
+  const show = emptyShow(context.url);
+  const location = Array.isArray(event.location) ? event.location[0] : event.location;
+  const address = location?.address;
+
+  show.name = text(event.name);
+  show.startDate = isoDate(event.startDate);
+  show.endDate = isoDate(event.endDate) ?? show.startDate;
+  show.description = text(event.description);
+  show.url = text(event.url) ?? context.url;
+  show.entryFee = formatFee(event.offers);
+  show.contactInfo = text((Array.isArray(event.organizer) ? event.organizer[0] : event.organizer)?.name);
+
+  if (typeof location === 'string') {
+    show.venueName = text(location);
+  } else if (location) {
+    show.venueName = text(location.name);
+  }
+
+  if (typeof address === 'string') {
+    show.address = text(address);
+  } else if (address) {
+    show.address = text(address.streetAddress);
+    show.city = text(address.addressLocality);
+    show.state = text(address.addressRegion);
+    show.zipCode = text(address.postalCode);
+  }
+
+  const startTime = isoTime(event.startDate);
+  const endTime = isoTime(event.endDate);
+  if (startTime) {
+    show.showHours = endTime ? `${startTime}-${endTime}` : startTime;
+  }
+
+  return show;
+}
+
+export const jsonLdEventExtractor: SiteExtractor = {
+  id: 'json-ld-event',
+  description: 'schema.org Event markup (JSON-LD)',
+  detect: (html) => /application\/ld\+json/i.test(html) && /"@type"\s*:\s*(\[[^\]]*)?"\w*Event"/.test(html),
+  extract: (html, context) => {
+    const events: Record<string, any>[] = [];
+    parseJsonLdBlocks(html).forEach((block) => collectEvents(block, events));
+    return events.map((event) => toRawShow(event, context)).filter((show) => show.name && show.startDate);
+  },
+};
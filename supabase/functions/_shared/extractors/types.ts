@@ -0,0 +1,71 @@
+/**
+ * Card Show Finder - Scraper extractor types
+ *
+ * An extractor turns the HTML of one scraping source into raw show records
+ * for `scraped_shows_pending.raw_payload`. The scraper agent picks
+ * extractors through the registry in `./index.ts`; it never needs to know
+ * how a particular site is laid out.
+ */
+
+/**
+ * One show as pulled off a page. Field names match `raw_payload`, which the
+ * normalizer reads. Use null for anything the page doesn't say.
+ */
+export interface RawShow {
+  name: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  venueName: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode?: string | null;
+  showHours?: string | null;
+  entryFee?: string | null;
+  description?: string | null;
+  url: string | null;
+  contactInfo?: string | null;
+}
+
+export interface ExtractionContext {
+  /** `scraping_sources.url` being processed */
+  url: string;
+  /** Reference date for pages that omit the year */
+  now: Date;
+  /** Google AI key; only the AI extractors need it */
+  aiApiKey?: string;
+  log?: (message: string) => void;
+}
+
+export interface SiteExtractor {
+  /** Stable id, recorded on each raw payload as `extractor` */
+  id: string;
+  description: string;
+  /**
+   * `scraping_sources.url` patterns this extractor was written for. Matching
+   * extractors run before the generic ones.
+   */
+  urlPatterns?: RegExp[];
+  /**
+   * Generic extractors only: whether the page contains something this
+   * extractor understands (a JSON-LD Event, a listing table, ...).
+   */
+  detect?: (html: string) => boolean;
+  /**
+   * Output dates are ISO (YYYY-MM-DD) and fields are clean, so records can
+   * skip the normalizer and be stored as `normalized_json` straight away.
+   */
+  structured?: boolean;
+  extract: (html: string, context: ExtractionContext) => RawShow[] | Promise<RawShow[]>;
+}
+
+export interface ExtractionOutcome {
+  /** Extractor whose records were used, or null when none found any */
+  extractorId: string | null;
+  structured: boolean;
+  shows: RawShow[];
+  /** Every extractor tried, in order */
+  attempted: string[];
+  /** Extractors that threw, as "id: message" */
+  errors: string[];
+}
@@ -0,0 +1,265 @@
+/**
+ * iCalendar (RFC 5545) builder for show calendars
+ *
+ * Used by the `calendar-feed` edge function and, through
+ * `src/utils/icalendar.ts`, by the app's .ics export. It works on `shows`
+ * rows (snake_case columns); the app maps its `Show` model to a row first.
+ * Runs under Deno, React Native and Jest.
+ *
+ * - `daily_schedule` present → one timed VEVENT per day (TZID from the day)
+ * - `start_time` / `end_time` present → one timed VEVENT per show day
+ * - otherwise → one all-day VEVENT covering the show's dates
+ * - cancelled shows emit `STATUS:CANCELLED`
+ */
+
+const PRODUCT_ID = "-//Card Show Finder//Shows//EN";
+const UID_DOMAIN = "cardshowfinder.app";
+const CRLF = "\r\n";
+
+/**
+ * Subset of the `shows` table used for calendar output
+ */
+export interface ShowRow {
+  id: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  address?: string | null;
+  start_date: string;
+  end_date?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  entry_fee?: number | string | null;
+  status?: string | null;
+  website_url?: string | null;
+  updated_at?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  daily_schedule?: Array<{
+    date?: string;
+    startTime?: string;
+    endTime?: string;
+    notes?: string;
+    timezone?: string;
+  }> | null;
+}
+
+export interface CalendarOptions {
+  /** X-WR-CALNAME shown by calendar apps for subscribed feeds */
+  calendarName?: string;
+  /** How often subscribed calendars should re-poll the feed */
+  refreshIntervalHours?: number;
+  /** Override for DTSTAMP (mainly for deterministic output in tests) */
+  now?: Date;
+}
+
+const pad = (n: number): string => n.toString().padStart(2, "0");
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+export function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const parts: string[] = [line.slice(0, 75)];
+  let rest = line.slice(75);
+  while (rest.length > 0) {
+    parts.push(" " + rest.slice(0, 74));
+    rest = rest.slice(74);
+  }
+  return parts.join(CRLF);
+}
+
+function formatUtcDateTime(d: Date): string {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+/**
+ * Reduce a show date to its calendar day (YYYY-MM-DD). ISO strings are
+ * sliced rather than parsed so the stored calendar day is kept whatever
+ * the runtime's timezone offset.
+ */
+export function toDateKey(value?: Date | string | null): string | null {
+  if (!value) return null;
+  if (typeof value === "string") {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  const d = new Date(value);
+  if (!isFinite(d.getTime())) return null;
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function addDays(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Parse a wall-clock time such as "08:00", "8:00 AM", "9am" or "14:30:00".
+ * Returns null when the string cannot be understood.
+ */
+export function parseClockTime(
+  value?: string | null,
+): { hours: number; minutes: number } | null {
+  if (!value) return null;
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.charAt(0);
+
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+function dateTimeProperty(
+  name: "DTSTART" | "DTEND",
+  dateKey: string,
+  time: { hours: number; minutes: number },
+  timezone?: string,
+): string {
+  const value = `${dateKey.replace(/-/g, "")}T${pad(time.hours)}${pad(time.minutes)}00`;
+  return timezone ? `${name};TZID=${timezone}:${value}` : `${name}:${value}`;
+}
+
+function commonProperties(show: ShowRow, notes?: string): string[] {
+  const lines = [`SUMMARY:${escapeText(show.title || "Card Show")}`];
+
+  const location = [show.location, show.address].filter(Boolean).join(", ");
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+
+  if (typeof show.latitude === "number" && typeof show.longitude === "number") {
+    lines.push(`GEO:${show.latitude};${show.longitude}`);
+  }
+
+  const description: string[] = [];
+  if (notes) description.push(notes);
+  if (show.description) description.push(show.description);
+  const fee = show.entry_fee === null || show.entry_fee === undefined
+    ? null
+    : Number(show.entry_fee);
+  if (fee !== null && isFinite(fee)) {
+    description.push(fee > 0 ? `Entry fee: $${fee}` : "Free entry");
+  }
+  if (description.length > 0) {
+    lines.push(`DESCRIPTION:${escapeText(description.join("\n\n"))}`);
+  }
+
+  if (show.website_url) lines.push(`URL:${show.website_url}`);
+
+  const cancelled = (show.status ?? "").toLowerCase() === "cancelled";
+  lines.push(`STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`);
+
+  if (show.updated_at) {
+    const updated = new Date(show.updated_at);
+    if (isFinite(updated.getTime())) {
+      lines.push(`LAST-MODIFIED:${formatUtcDateTime(updated)}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Convert a show row into one or more VEVENT blocks
+ */
+export function buildShowEvents(show: ShowRow, now: Date = new Date()): string[] {
+  const dtStamp = `DTSTAMP:${formatUtcDateTime(now)}`;
+  const events: string[][] = [];
+
+  const scheduleDays = Array.isArray(show.daily_schedule)
+    ? show.daily_schedule.filter((day) =>
+      !!day &&
+      /^\d{4}-\d{2}-\d{2}$/.test(day.date ?? "") &&
+      !!parseClockTime(day.startTime) &&
+      !!parseClockTime(day.endTime)
+    )
+    : [];
+
+  if (scheduleDays.length > 0) {
+    for (const day of scheduleDays) {
+      events.push([
+        `UID:${show.id}-${day.date}@${UID_DOMAIN}`,
+        dtStamp,
+        dateTimeProperty("DTSTART", day.date!, parseClockTime(day.startTime)!, day.timezone),
+        dateTimeProperty("DTEND", day.date!, parseClockTime(day.endTime)!, day.timezone),
+        ...commonProperties(show, day.notes),
+      ]);
+    }
+  } else {
+    const startKey = toDateKey(show.start_date);
+    if (!startKey) return [];
+    const endKey = toDateKey(show.end_date) ?? startKey;
+    const lastKey = endKey < startKey ? startKey : endKey;
+
+    const startTime = parseClockTime(show.start_time);
+    const endTime = parseClockTime(show.end_time);
+
+    if (startTime && endTime) {
+      for (let key = startKey; key <= lastKey; key = addDays(key, 1)) {
+        events.push([
+          `UID:${show.id}-${key}@${UID_DOMAIN}`,
+          dtStamp,
+          dateTimeProperty("DTSTART", key, startTime),
+          dateTimeProperty("DTEND", key, endTime),
+          ...commonProperties(show),
+        ]);
+      }
+    } else {
+      events.push([
+        `UID:${show.id}@${UID_DOMAIN}`,
+        dtStamp,
+        `DTSTART;VALUE=DATE:${startKey.replace(/-/g, "")}`,
+        // DTEND is exclusive for all-day events
+        `DTEND;VALUE=DATE:${addDays(lastKey, 1).replace(/-/g, "")}`,
+        ...commonProperties(show),
+      ]);
+    }
+  }
+
+  return events.map((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"].join(CRLF));
+}
+
+/**
+ * Render a full VCALENDAR document
+ */
+export function generateCalendar(shows: ShowRow[], options: CalendarOptions = {}): string {
+  const now = options.now ?? new Date();
+  const header = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.calendarName) {
+    header.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  if (options.refreshIntervalHours) {
+    // Hint for subscribed calendars on how often to re-poll the feed
+    header.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalHours}H`);
+    header.push(`X-PUBLISHED-TTL:PT${options.refreshIntervalHours}H`);
+  }
+
+  const body = shows.flatMap((show) => buildShowEvents(show, now));
+
+  return [...header, ...body, "END:VCALENDAR"]
+    .join(CRLF)
+    .split(CRLF)
+    .map(foldLine)
+    .join(CRLF) + CRLF;
+}
@@ -0,0 +1,327 @@
+/**
+ * Card Show Finder - Import file formats
+ *
+ * Reads the files admins upload to the show import pipeline (CSV, TSV,
+ * XLSX, JSON) into one shape: a header row and string values per row.
+ * Column mapping and validation happen in `./showImport.ts`.
+ *
+ * XLSX is read without a spreadsheet library: it is a zip of XML parts,
+ * unpacked with DecompressionStream, which Deno, Node and browsers all have.
+ * Only the first sheet (or the one asked for) is read, as plain values;
+ * dates come through as Excel serial numbers.
+ */
+
+import { parseDelimited, parseDelimitedRecords } from './delimited.ts';
+
+export { parseDelimited };
+
+export type ImportFormat = 'csv' | 'tsv' | 'xlsx' | 'json';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'tsv', 'xlsx', 'json'];
+
+export interface ParsedRow {
+  /** Row number as the admin sees it: spreadsheet row, or item number in JSON */
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface ParsedFile {
+  format: ImportFormat;
+  headers: string[];
+  rows: ParsedRow[];
+  /** XLSX only: every sheet in the workbook, and the one read */
+  sheets?: string[];
+  sheet?: string;
+}
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  xlsx: 'xlsx',
+  json: 'json',
+};
+
+/** Format from the file extension, sniffing the content when that doesn't say */
+export function detectFormat(fileName: string, bytes: Uint8Array): ImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  if (extension === 'xls') {
+    throw new Error('Old .xls workbooks are not supported. Save the file as .xlsx or CSV.');
+  }
+  if (EXTENSIONS[extension]) return EXTENSIONS[extension];
+
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'xlsx';
+  const head = decodeText(bytes.subarray(0, 4096)).trimStart();
+  if (head.startsWith('[') || head.startsWith('{')) return 'json';
+  const firstLine = head.split(/\r?\n/, 1)[0];
+  return firstLine.includes('\t') ? 'tsv' : 'csv';
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, '');
+}
+
+/**
+ * First non-empty row is the header. Blank headers become "Column N" and
+ * repeated ones get a suffix, so every value stays addressable.
+ */
+function toTable(records: { rowNumber: number; cells: string[] }[]): { headers: string[]; rows: ParsedRow[] } {
+  const filled = records.filter((record) => record.cells.some((cell) => cell.trim() !== ''));
+  if (filled.length === 0) return { headers: [], rows: [] };
+
+  const seen = new Map<string, number>();
+  const headers = filled[0].cells.map((cell, index) => {
+    const base = cell.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+
+  const rows = filled.slice(1).map(({ rowNumber, cells }) => {
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      values[header] = (cells[index] ?? '').trim();
+    });
+    return { rowNumber, values };
+  });
+
+  return { headers, rows };
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(cellText).filter(Boolean).join(', ');
+  return String(value);
+}
+
+/** Nested objects become dotted columns ("venue.city") */
+function flatten(item: Record<string, unknown>, prefix = '', into: Record<string, string> = {}): Record<string, string> {
+  for (const [key, value] of Object.entries(item)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      flatten(value as Record<string, unknown>, column, into);
+    } else {
+      into[column] = cellText(value).trim();
+    }
+  }
+  return into;
+}
+
+/**
+ * An array of show objects, or an object holding one
+ * ({ "shows": [...] }, { "data": [...] }, ...)
+ */
+export function parseJsonRows(text: string): { headers: string[]; rows: ParsedRow[] } {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${(e as Error).message}`);
+  }
+
+  let items: unknown = document;
+  if (!Array.isArray(items) && items && typeof items === 'object') {
+    const container = items as Record<string, unknown>;
+    const key = ['shows', 'rows', 'data', 'records', 'items'].find((name) => Array.isArray(container[name]))
+      || Object.keys(container).find((name) => Array.isArray(container[name]));
+    items = key ? container[key] : [container];
+  }
+
+  const headers: string[] = [];
+  const rows: ParsedRow[] = [];
+  (items as unknown[]).forEach((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return;
+    const values = flatten(item as Record<string, unknown>);
+    for (const column of Object.keys(values)) {
+      if (!headers.includes(column)) headers.push(column);
+    }
+    rows.push({ rowNumber: index + 1, values });
+  });
+
+  for (const row of rows) {
+    for (const header of headers) row.values[header] ??= '';
+  }
+
+  return { headers, rows };
+}
+
+// ------------------------------------------------------------------
+// XLSX
+// ------------------------------------------------------------------
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/** Text of the zip entries `wanted` accepts, by entry name */
+async function readZipEntries(bytes: Uint8Array, wanted: (name: string) => boolean): Promise<Map<string, string>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory: last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a valid .xlsx file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let pointer = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, string>();
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(pointer, true) !== 0x02014b50) throw new Error('Not a valid .xlsx file');
+    const method = view.getUint16(pointer + 10, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decodeText(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) continue;
+
+    const dataStart = localOffset + 30
+      + view.getUint16(localOffset + 26, true)
+      + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, decodeText(data));
+    } else if (method === 8) {
+      entries.set(name, decodeText(await inflateRaw(data)));
+    } else {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+  }
+
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attrs[match[1]] = decodeXml(match[2]);
+  }
+  return attrs;
+}
+
+/** Text of every <t> run inside an element (rich text is split into runs) */
+function runText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+export async function parseXlsx(
+  bytes: Uint8Array,
+  sheetName?: string | null
+): Promise<{ headers: string[]; rows: ParsedRow[]; sheets: string[]; sheet: string }> {
+  const parts = await readZipEntries(bytes, (name) =>
+    name === 'xl/workbook.xml' || name === 'xl/_rels/workbook.xml.rels' || name === 'xl/sharedStrings.xml'
+  );
+  const workbook = parts.get('xl/workbook.xml');
+  if (!workbook) throw new Error('Not a valid .xlsx file: no workbook');
+
+  const sheets = Array.from(workbook.matchAll(/<sheet\s[^>]*\/?>/g), (match) => attributes(match[0]));
+  if (sheets.length === 0) throw new Error('The workbook has no sheets');
+
+  const chosen = sheetName ? sheets.find((sheet) => sheet.name === sheetName) : sheets[0];
+  if (!chosen) throw new Error(`No sheet named "${sheetName}"`);
+
+  const relations = Array.from(
+    (parts.get('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\s[^>]*\/?>/g),
+    (match) => attributes(match[0])
+  );
+  const target = relations.find((relation) => relation.Id === chosen['r:id'])?.Target;
+  if (!target) throw new Error(`Sheet "${chosen.name}" could not be found in the workbook`);
+  const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+  const sheetXml = (await readZipEntries(bytes, (name) => name === sheetPath)).get(sheetPath);
+  if (!sheetXml) throw new Error(`Sheet "${chosen.name}" could not be found in the workbook`);
+
+  const sharedStrings = Array.from(
+    (parts.get('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    (match) => runText(match[1])
+  );
+
+  const records: { rowNumber: number; cells: string[] }[] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attributes(rowMatch[1]).r) || records.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = attributes(cellMatch[1]);
+      const body = cellMatch[2] || '';
+      const index = attrs.r ? columnIndex(attrs.r) : cells.length;
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (attrs.t === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (attrs.t === 'inlineStr') value = runText(body);
+      else if (attrs.t === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (attrs.t !== 'e' && raw !== undefined) value = decodeXml(raw);
+
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+    }
+
+    records.push({ rowNumber, cells });
+  }
+
+  return { ...toTable(records), sheets: sheets.map((sheet) => sheet.name), sheet: chosen.name };
+}
+
+/** Read an uploaded file into rows, whatever its format */
+export async function parseImportFile(
+  bytes: Uint8Array,
+  options: { fileName: string; format?: ImportFormat | null; sheet?: string | null }
+): Promise<ParsedFile> {
+  const format = options.format || detectFormat(options.fileName, bytes);
+
+  if (format === 'xlsx') {
+    return { format, ...(await parseXlsx(bytes, options.sheet)) };
+  }
+
+  const text = decodeText(bytes);
+  if (format === 'json') {
+    return { format, ...parseJsonRows(text) };
+  }
+
+  const records = parseDelimitedRecords(text, format === 'tsv' ? '\t' : ',');
+  return { format, ...toTable(records.map(({ line, cells }) => ({ rowNumber: line, cells }))) };
+}
@@ -0,0 +1,143 @@
+/**
+ * Push delivery providers for Supabase Edge Functions
+ *
+ * The outbox worker only talks to the `PushProvider` interface so the
+ * transport can be swapped without touching queue logic. Select one with
+ * the `PUSH_PROVIDER` env var:
+ *
+ * - `expo` (default) – Expo push service, works for iOS + Android tokens
+ * - `mock`           – no network; records messages and fails on demand
+ */
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushTicket {
+  token: string;
+  ok: boolean;
+  id?: string;
+  error?: string;
+  /** Token is no longer valid and should be disabled (never retried) */
+  invalidToken?: boolean;
+}
+
+export interface PushProvider {
+  readonly name: string;
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+}
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+const EXPO_BATCH_SIZE = 100;
+
+/**
+ * Expo push service. HTTP/transport failures throw so the caller can
+ * retry the whole batch; per-message errors are reported as tickets.
+ */
+export class ExpoPushProvider implements PushProvider {
+  readonly name = "expo";
+
+  constructor(private accessToken?: string) {}
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const tickets: PushTicket[] = [];
+
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const chunk = messages.slice(i, i + EXPO_BATCH_SIZE);
+
+      const headers: Record<string, string> = {
+        "Accept": "application/json",
+        "Content-Type": "application/json",
+      };
+      if (this.accessToken) {
+        headers["Authorization"] = `Bearer ${this.accessToken}`;
+      }
+
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(
+          chunk.map((m) => ({
+            to: m.to,
+            title: m.title,
+            body: m.body,
+            data: m.data ?? {},
+            sound: "default",
+            channelId: "default",
+          })),
+        ),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Expo push request failed: ${response.status} ${await response.text()}`);
+      }
+
+      const payload = await response.json();
+      const results: any[] = Array.isArray(payload?.data) ? payload.data : [];
+
+      chunk.forEach((message, index) => {
+        const result = results[index];
+        if (result?.status === "ok") {
+          tickets.push({ token: message.to, ok: true, id: result.id });
+        } else {
+          tickets.push({
+            token: message.to,
+            ok: false,
+            error: result?.message ?? "No ticket returned",
+            invalidToken: result?.details?.error === "DeviceNotRegistered",
+          });
+        }
+      });
+    }
+
+    return tickets;
+  }
+}
+
+/**
+ * Local provider for development and tests. Tokens can force outcomes:
+ * `invalid:*` → DeviceNotRegistered, `fail:*` → transient error.
+ * Set `PUSH_MOCK_THROW=true` to simulate a provider outage.
+ */
+export class MockPushProvider implements PushProvider {
+  readonly name = "mock";
+  readonly sent: PushMessage[] = [];
+
+  constructor(private throwOnSend = false) {}
+
+  send(messages: PushMessage[]): Promise<PushTicket[]> {
+    if (this.throwOnSend) {
+      return Promise.reject(new Error("Mock push provider unavailable"));
+    }
+
+    const tickets = messages.map((message, index): PushTicket => {
+      if (message.to.startsWith("invalid:")) {
+        return { token: message.to, ok: false, error: "DeviceNotRegistered", invalidToken: true };
+      }
+      if (message.to.startsWith("fail:")) {
+        return { token: message.to, ok: false, error: "Mock transient failure" };
+      }
+      this.sent.push(message);
+      console.log(`[mock-push] → ${message.to}: ${message.title}`);
+      return { token: message.to, ok: true, id: `mock-${Date.now()}-${index}` };
+    });
+
+    return Promise.resolve(tickets);
+  }
+}
+
+export function getPushProvider(): PushProvider {
+  const provider = (Deno.env.get("PUSH_PROVIDER") || "expo").toLowerCase();
+
+  switch (provider) {
+    case "mock":
+      return new MockPushProvider(Deno.env.get("PUSH_MOCK_THROW") === "true");
+    case "expo":
+      return new ExpoPushProvider(Deno.env.get("EXPO_ACCESS_TOKEN") || undefined);
+    default:
+      throw new Error(`Unknown PUSH_PROVIDER "${provider}"`);
+  }
+}
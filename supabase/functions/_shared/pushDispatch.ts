@@ -0,0 +1,241 @@
+/**
+ * Push outbox dispatch decisions
+ *
+ * Given a batch of claimed `notification_outbox` rows, the recipients'
+ * preferences and their enabled devices, decides what happens to each
+ * row: skipped (opted out, no devices), deferred until quiet hours end,
+ * sent, retried with backoff or dead-lettered once `max_attempts` is
+ * reached. Every message that should go out now is sent in one call to
+ * the provider, which chunks as it needs to.
+ *
+ * The caller writes the returned updates; nothing here touches the
+ * database. Runs under Deno in the edge function and under Jest in tests.
+ */
+
+import type { PushMessage, PushProvider, PushTicket } from "./push-providers.ts";
+
+export const BASE_RETRY_DELAY_MS = 60 * 1000;
+export const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export interface OutboxRow {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface PreferencesRow {
+  user_id: string;
+  push_enabled: boolean;
+  disabled_types: string[] | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string | null;
+}
+
+export interface DeviceRow {
+  id: string;
+  user_id: string;
+  token: string;
+}
+
+export interface DispatchStats {
+  claimed: number;
+  sent: number;
+  skipped: number;
+  deferred: number;
+  retried: number;
+  dead: number;
+}
+
+/** Columns to set on one outbox row */
+export interface OutboxUpdate {
+  id: string;
+  changes: Record<string, unknown>;
+}
+
+export interface DispatchResult {
+  stats: DispatchStats;
+  updates: OutboxUpdate[];
+  /** Device tokens the provider reported as gone, with the reason */
+  invalidTokens: Map<string, string>;
+}
+
+const toMinutes = (time: string | null): number | null => {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+/**
+ * Minutes past midnight in the given IANA timezone (falls back to UTC)
+ */
+export const localMinutes = (now: Date, timezone: string | null): number => {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone || "UTC",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+    const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+    const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+    return hour * 60 + minute;
+  } catch {
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+};
+
+/**
+ * If `now` falls inside the user's quiet hours, return when they end.
+ * Windows may wrap midnight (e.g. 22:00 → 07:00).
+ */
+export const quietHoursEnd = (prefs: PreferencesRow | undefined, now: Date): Date | null => {
+  const start = toMinutes(prefs?.quiet_hours_start ?? null);
+  const end = toMinutes(prefs?.quiet_hours_end ?? null);
+  if (start === null || end === null || start === end) return null;
+
+  const current = localMinutes(now, prefs?.timezone ?? null);
+  const inside = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!inside) return null;
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  const resume = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  resume.setUTCSeconds(0, 0);
+  return resume;
+};
+
+/**
+ * Exponential backoff: 1m, 2m, 4m … capped at 6h
+ */
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+/**
+ * Decide and send one claimed batch. `attempts` on each row already
+ * counts this try (claiming increments it).
+ */
+export async function dispatchOutbox(
+  rows: OutboxRow[],
+  preferences: PreferencesRow[],
+  devices: DeviceRow[],
+  provider: PushProvider,
+  now: Date,
+): Promise<DispatchResult> {
+  const stats: DispatchStats = { claimed: rows.length, sent: 0, skipped: 0, deferred: 0, retried: 0, dead: 0 };
+  const updates: OutboxUpdate[] = [];
+  const invalidTokens = new Map<string, string>();
+
+  const prefsByUser = new Map(preferences.map((p) => [p.user_id, p]));
+  const devicesByUser = new Map<string, DeviceRow[]>();
+  for (const device of devices) {
+    devicesByUser.set(device.user_id, [...(devicesByUser.get(device.user_id) ?? []), device]);
+  }
+
+  const failRow = (row: OutboxRow, reason: string) => {
+    if (row.attempts >= row.max_attempts) {
+      stats.dead++;
+      updates.push({ id: row.id, changes: { status: "dead", last_error: reason } });
+    } else {
+      stats.retried++;
+      updates.push({
+        id: row.id,
+        changes: {
+          status: "pending",
+          last_error: reason,
+          next_attempt_at: new Date(now.getTime() + retryDelayMs(row.attempts)).toISOString(),
+        },
+      });
+    }
+  };
+
+  // Decide per row, collecting messages for the ones that should go out now
+  const outgoing: { row: OutboxRow; messages: PushMessage[] }[] = [];
+
+  for (const row of rows) {
+    const prefs = prefsByUser.get(row.user_id);
+
+    if (prefs && (!prefs.push_enabled || (prefs.disabled_types ?? []).includes(row.type))) {
+      stats.skipped++;
+      updates.push({ id: row.id, changes: { status: "skipped", last_error: "Disabled by user preferences" } });
+      continue;
+    }
+
+    const resumeAt = quietHoursEnd(prefs, now);
+    if (resumeAt) {
+      // Deferral is not a failed attempt – give the claim back
+      stats.deferred++;
+      updates.push({
+        id: row.id,
+        changes: {
+          status: "pending",
+          attempts: Math.max(row.attempts - 1, 0),
+          next_attempt_at: resumeAt.toISOString(),
+        },
+      });
+      continue;
+    }
+
+    const rowDevices = devicesByUser.get(row.user_id) ?? [];
+    if (rowDevices.length === 0) {
+      stats.skipped++;
+      updates.push({ id: row.id, changes: { status: "skipped", last_error: "No registered devices" } });
+      continue;
+    }
+
+    outgoing.push({
+      row,
+      messages: rowDevices.map((device) => ({
+        to: device.token,
+        title: row.title,
+        body: row.body,
+        data: { ...(row.data ?? {}), outboxId: row.id },
+      })),
+    });
+  }
+
+  if (outgoing.length === 0) return { stats, updates, invalidTokens };
+
+  let tickets: PushTicket[] | null = null;
+  let providerError: string | null = null;
+
+  try {
+    tickets = await provider.send(outgoing.flatMap((item) => item.messages));
+  } catch (error) {
+    providerError = error instanceof Error ? error.message : String(error);
+    console.error(`Push provider ${provider.name} failed:`, providerError);
+  }
+
+  let offset = 0;
+
+  for (const { row, messages } of outgoing) {
+    if (!tickets) {
+      failRow(row, providerError ?? "Provider error");
+      continue;
+    }
+
+    const rowTickets = tickets.slice(offset, offset + messages.length);
+    offset += messages.length;
+
+    rowTickets
+      .filter((t) => t.invalidToken)
+      .forEach((t) => invalidTokens.set(t.token, t.error ?? "Invalid token"));
+
+    if (rowTickets.some((t) => t.ok)) {
+      stats.sent++;
+      updates.push({ id: row.id, changes: { status: "sent", sent_at: now.toISOString(), last_error: null } });
+    } else if (rowTickets.length > 0 && rowTickets.every((t) => t.invalidToken)) {
+      stats.skipped++;
+      updates.push({ id: row.id, changes: { status: "skipped", last_error: "All device tokens invalid" } });
+    } else {
+      failRow(row, rowTickets.map((t) => t.error).filter(Boolean).join("; ") || "Delivery failed");
+    }
+  }
+
+  return { stats, updates, invalidTokens };
+}
@@ -93,7 +93,7 @@ interface RateLimitRecord {
 /**
  * Rate limit result
  */
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
   limit: number;
   remaining: number;
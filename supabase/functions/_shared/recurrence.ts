@@ -0,0 +1,388 @@
+/**
+ * Recurrence rules (RFC 5545 RRULE subset) for show series
+ *
+ * Works purely on calendar dates ("YYYY-MM-DD"); times and timezones are
+ * applied when occurrences are materialized into `shows` rows.
+ *
+ * Supported parts:
+ * - FREQ = DAILY | WEEKLY | MONTHLY | YEARLY
+ * - INTERVAL, COUNT, UNTIL
+ * - BYDAY (with ordinals for MONTHLY/YEARLY, e.g. `2SU`, `-1SA`)
+ * - BYMONTHDAY (negative values count from the end of the month)
+ * - BYMONTH (used to skip months, e.g. everything but December)
+ *
+ * YEARLY rules apply BYDAY / BYMONTHDAY within BYMONTH (or DTSTART's month).
+ *
+ * Used by the `materialize-show-series` edge function and, through
+ * `src/utils/recurrence.ts`, by the app. Runs under Deno, React Native and
+ * Jest.
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceWeekday {
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  /** 1 = first, 2 = second, -1 = last … (MONTHLY / YEARLY only) */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  /** 1 = January … 12 = December */
+  byMonth: number[];
+  count?: number;
+  /** Inclusive last date, "YYYY-MM-DD" */
+  until?: string;
+}
+
+export interface ExpandOptions {
+  /** First date to return (inclusive) */
+  from: string;
+  /** Last date to return (inclusive) */
+  to: string;
+  /** Dates to skip (one-off cancellations) */
+  exdates?: string[];
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Hard stop so a rule that never matches can't loop forever
+const MAX_PERIODS = 5000;
+
+const pad = (n: number): string => n.toString().padStart(2, "0");
+
+const toKey = (y: number, m: number, d: number): string => `${y}-${pad(m)}-${pad(d)}`;
+
+const fromKey = (key: string): Date => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+const dateToKey = (date: Date): string =>
+  toKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+
+const addDays = (key: string, days: number): string =>
+  dateToKey(new Date(fromKey(key).getTime() + days * DAY_MS));
+
+const daysInMonth = (y: number, m: number): number => new Date(Date.UTC(y, m, 0)).getUTCDate();
+
+const isDateKey = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && dateToKey(fromKey(value)) === value;
+
+/**
+ * Day of month of the nth weekday (negative n counts from the end), or null
+ * when the month doesn't have one (e.g. a 5th Sunday).
+ */
+const nthWeekdayOfMonth = (y: number, m: number, weekday: number, n: number): number | null => {
+  const total = daysInMonth(y, m);
+  if (n > 0) {
+    const firstWeekday = new Date(Date.UTC(y, m - 1, 1)).getUTCDay();
+    const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+    return day <= total ? day : null;
+  }
+  const lastWeekday = new Date(Date.UTC(y, m - 1, total)).getUTCDay();
+  const day = total - ((lastWeekday - weekday + 7) % 7) + (n + 1) * 7;
+  return day >= 1 ? day : null;
+};
+
+/**
+ * Parse an RRULE string (with or without the `RRULE:` prefix).
+ * Throws on anything outside the supported subset so bad rules are
+ * rejected when saved instead of silently producing no shows.
+ */
+export const parseRRule = (input: string): RecurrenceRule => {
+  const body = input.trim().replace(/^RRULE:/i, "");
+  if (!body) throw new Error("Recurrence rule is empty");
+
+  const rule: RecurrenceRule = { freq: "WEEKLY", interval: 1, byDay: [], byMonthDay: [], byMonth: [] };
+  let hasFreq = false;
+
+  for (const part of body.split(";").filter(Boolean)) {
+    const [rawName, rawValue = ""] = part.split("=");
+    const name = rawName.trim().toUpperCase();
+    const value = rawValue.trim().toUpperCase();
+
+    switch (name) {
+      case "FREQ":
+        if (!FREQUENCIES.includes(value as RecurrenceFrequency)) {
+          throw new Error(`Unsupported FREQ "${value}"`);
+        }
+        rule.freq = value as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      case "INTERVAL": {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) throw new Error(`Invalid INTERVAL "${value}"`);
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) throw new Error(`Invalid COUNT "${value}"`);
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+        if (!isDateKey(until)) throw new Error(`Invalid UNTIL "${value}"`);
+        rule.until = until;
+        break;
+      }
+      case "BYDAY":
+        rule.byDay = value.split(",").map(token => {
+          const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) throw new Error(`Invalid BYDAY "${token}"`);
+          const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new Error(`Invalid BYDAY ordinal "${token}"`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = value.split(",").map(token => {
+          const day = Number(token);
+          if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+            throw new Error(`Invalid BYMONTHDAY "${token}"`);
+          }
+          return day;
+        });
+        break;
+      case "BYMONTH":
+        rule.byMonth = value.split(",").map(token => {
+          const month = Number(token);
+          if (!Number.isInteger(month) || month < 1 || month > 12) {
+            throw new Error(`Invalid BYMONTH "${token}"`);
+          }
+          return month;
+        });
+        break;
+      case "WKST":
+        // Weeks always start on Monday here; accept the RFC default only
+        if (value !== "MO") throw new Error("Only WKST=MO is supported");
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${name}"`);
+    }
+  }
+
+  if (!hasFreq) throw new Error("Recurrence rule must include FREQ");
+  if (rule.count !== undefined && rule.until) {
+    throw new Error("COUNT and UNTIL cannot both be set");
+  }
+  if (rule.byDay.some(d => d.ordinal !== undefined) && (rule.freq === "DAILY" || rule.freq === "WEEKLY")) {
+    throw new Error("BYDAY ordinals are only valid for MONTHLY or YEARLY rules");
+  }
+
+  return rule;
+};
+
+/**
+ * Serialize a rule back to its RRULE string (without prefix).
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.weekday]}`).join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+};
+
+/**
+ * Candidate days (sorted day-of-month numbers) for one month
+ */
+const daysForMonth = (rule: RecurrenceRule, y: number, m: number, fallbackDay: number): number[] => {
+  const total = daysInMonth(y, m);
+
+  let fromByDay: number[] | null = null;
+  if (rule.byDay.length > 0) {
+    fromByDay = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      if (ordinal !== undefined) {
+        const day = nthWeekdayOfMonth(y, m, weekday, ordinal);
+        if (day !== null) fromByDay.push(day);
+      } else {
+        for (let day = nthWeekdayOfMonth(y, m, weekday, 1)!; day <= total; day += 7) {
+          fromByDay.push(day);
+        }
+      }
+    }
+  }
+
+  let fromByMonthDay: number[] | null = null;
+  if (rule.byMonthDay.length > 0) {
+    fromByMonthDay = rule.byMonthDay
+      .map(day => (day > 0 ? day : total + day + 1))
+      .filter(day => day >= 1 && day <= total);
+  }
+
+  let days: number[];
+  if (fromByDay && fromByMonthDay) {
+    days = fromByDay.filter(day => fromByMonthDay!.includes(day));
+  } else {
+    days = fromByDay ?? fromByMonthDay ?? (fallbackDay <= total ? [fallbackDay] : []);
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+/**
+ * First day of period `p` plus its candidate dates
+ */
+const periodCandidates = (
+  rule: RecurrenceRule,
+  start: string,
+  p: number
+): { periodStart: string; dates: string[] } => {
+  const startDate = fromKey(start);
+  const sy = startDate.getUTCFullYear();
+  const sm = startDate.getUTCMonth() + 1;
+  const sd = startDate.getUTCDate();
+  const monthAllowed = (m: number) => rule.byMonth.length === 0 || rule.byMonth.includes(m);
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const key = addDays(start, p * rule.interval);
+      const date = fromKey(key);
+      const ok =
+        monthAllowed(date.getUTCMonth() + 1) &&
+        (rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === date.getUTCDay())) &&
+        (rule.byMonthDay.length === 0 ||
+          daysForMonth({ ...rule, byDay: [] }, date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+            .includes(date.getUTCDate()));
+      return { periodStart: key, dates: ok ? [key] : [] };
+    }
+    case "WEEKLY": {
+      const monday = addDays(start, -((startDate.getUTCDay() + 6) % 7) + p * rule.interval * 7);
+      const weekdays = rule.byDay.length > 0
+        ? rule.byDay.map(d => d.weekday)
+        : [startDate.getUTCDay()];
+      const dates = Array.from(new Set(weekdays))
+        .map(weekday => addDays(monday, (weekday + 6) % 7))
+        .filter(key => monthAllowed(fromKey(key).getUTCMonth() + 1))
+        .sort();
+      return { periodStart: monday, dates };
+    }
+    case "MONTHLY": {
+      const index = sm - 1 + p * rule.interval;
+      const y = sy + Math.floor(index / 12);
+      const m = (index % 12) + 1;
+      const dates = monthAllowed(m) ? daysForMonth(rule, y, m, sd).map(d => toKey(y, m, d)) : [];
+      return { periodStart: toKey(y, m, 1), dates };
+    }
+    case "YEARLY": {
+      const y = sy + p * rule.interval;
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [sm];
+      const dates = months.flatMap(m => daysForMonth(rule, y, m, sd).map(d => toKey(y, m, d)));
+      return { periodStart: toKey(y, 1, 1), dates };
+    }
+  }
+};
+
+/**
+ * Expand a rule into occurrence dates between `from` and `to` (inclusive).
+ * COUNT is counted from `dtstart`, as in RFC 5545, and EXDATEs are
+ * removed afterwards so a cancelled date still uses up a COUNT slot.
+ */
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  dtstart: string,
+  options: ExpandOptions
+): string[] => {
+  if (!isDateKey(dtstart)) throw new Error(`Invalid start date "${dtstart}"`);
+
+  const exdates = new Set(options.exdates ?? []);
+  const results: string[] = [];
+  let emitted = 0;
+
+  for (let p = 0; p < MAX_PERIODS; p++) {
+    const { periodStart, dates } = periodCandidates(rule, dtstart, p);
+    if (periodStart > options.to) break;
+    if (rule.until && periodStart > rule.until) break;
+
+    for (const key of dates) {
+      if (key < dtstart) continue;
+      if (rule.until && key > rule.until) return results;
+      if (rule.count !== undefined && emitted >= rule.count) return results;
+      if (key > options.to) return results;
+      emitted++;
+      if (key >= options.from && !exdates.has(key)) results.push(key);
+    }
+  }
+
+  return results;
+};
+
+const ordinalLabel = (n: number): string => {
+  if (n === -1) return "last";
+  if (n < -1) return `${ordinalLabel(-n)} to last`;
+  // 11th, 12th and 13th, but 21st, 22nd and 23rd
+  const lastDigit = n % 100 >= 11 && n % 100 <= 13 ? 0 : n % 10;
+  const suffix = lastDigit === 1 ? "st" : lastDigit === 2 ? "nd" : lastDigit === 3 ? "rd" : "th";
+  return `${n}${suffix}`;
+};
+
+const joinWords = (words: string[]): string =>
+  words.length <= 1 ? words.join("") : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+
+/**
+ * Human readable summary, e.g. "Monthly on the 2nd Sunday, except December".
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[rule.freq];
+  let text = rule.interval > 1
+    ? `Every ${rule.interval} ${unit}s`
+    : { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly" }[rule.freq];
+
+  const dayWords = rule.byDay.map(d =>
+    d.ordinal !== undefined
+      ? `${ordinalLabel(d.ordinal)} ${WEEKDAY_NAMES[d.weekday]}`
+      : WEEKDAY_NAMES[d.weekday]
+  );
+  const months = [...rule.byMonth].sort((a, b) => a - b);
+
+  if (rule.freq === "YEARLY" && months.length > 0) {
+    text += ` in ${joinWords(months.map(m => MONTH_NAMES[m - 1]))}`;
+  }
+
+  if (dayWords.length > 0) {
+    text += rule.byDay.some(d => d.ordinal !== undefined)
+      ? ` on the ${joinWords(dayWords)}`
+      : ` on ${joinWords(dayWords)}`;
+  } else if (rule.byMonthDay.length > 0) {
+    const labels = rule.byMonthDay.map(d => (d > 0 ? ordinalLabel(d) : `${ordinalLabel(d)} day`));
+    text += ` on the ${joinWords(labels)}`;
+  }
+
+  if (rule.freq !== "YEARLY" && months.length > 0) {
+    const skipped = MONTH_NAMES.filter((_, i) => !months.includes(i + 1));
+    text += months.length > 6
+      ? `, except ${joinWords(skipped)}`
+      : `, only in ${joinWords(months.map(m => MONTH_NAMES[m - 1]))}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  } else if (rule.until) {
+    const until = fromKey(rule.until);
+    text += `, until ${MONTH_NAMES[until.getUTCMonth()].slice(0, 3)} ${until.getUTCDate()}, ${until.getUTCFullYear()}`;
+  }
+
+  return text;
+};
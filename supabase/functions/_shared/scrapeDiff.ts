@@ -0,0 +1,181 @@
+/**
+ * Card Show Finder - Scrape change detection
+ *
+ * Lets the scraper agent skip sources whose page hasn't changed since the
+ * last run, and compare the shows it extracts against what the source
+ * listed last time (`scrape_source_shows`). Only new, changed and removed
+ * shows go to `scraped_shows_pending`.
+ *
+ * Runs under Deno in the edge function and under Jest in tests, so it only
+ * relies on Web Crypto.
+ */
+
+/** Change recorded on `scraped_shows_pending.change_type` */
+export type ChangeType = 'new' | 'changed' | 'removed';
+
+/** One `scrape_source_shows` row: what a source listed on its last run */
+export interface ShowSnapshot {
+  showKey: string;
+  contentHash: string;
+  payload: Record<string, any>;
+  /** Set once the show has dropped off the source */
+  removedAt?: string | null;
+}
+
+export interface ExtractedShow {
+  showKey: string;
+  contentHash: string;
+  payload: Record<string, any>;
+}
+
+export interface ShowDiff {
+  added: ExtractedShow[];
+  changed: { current: ExtractedShow; previous: ShowSnapshot }[];
+  unchanged: ExtractedShow[];
+  removed: ShowSnapshot[];
+}
+
+// Payload fields that describe the show. Bookkeeping such as `extractor`
+// and `extractedAt` changes on every run and would make every show "changed".
+const CONTENT_FIELDS = [
+  'name',
+  'startDate',
+  'endDate',
+  'venueName',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+  'showHours',
+  'entryFee',
+  'description',
+  'url',
+  'contactInfo',
+];
+
+const BLOCK_RE = /<(style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi;
+const SCRIPT_RE = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+const DATA_SCRIPT_TYPE_RE = /type\s*=\s*["']?application\/(ld\+)?json/i;
+
+/**
+ * Page text used for the content hash. Drops comments, styles and scripts
+ * (cache busters, nonces, analytics ids) but keeps JSON / JSON-LD script
+ * bodies, which some extractors read show data from.
+ */
+export function normalizeHtmlForHash(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(BLOCK_RE, ' ')
+    .replace(SCRIPT_RE, (_match, attrs: string, body: string) =>
+      DATA_SCRIPT_TYPE_RE.test(attrs) ? ` ${body} ` : ' '
+    )
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;|&#160;/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function hashPageContent(html: string): Promise<string> {
+  return sha256Hex(normalizeHtmlForHash(html));
+}
+
+const squash = (value: unknown): string =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/** YYYY-MM-DD when the date can be read, so "Mar 8" and "March 8" match */
+function dateKey(value: unknown): string {
+  const text = String(value ?? '').trim();
+  const iso = text.match(/^\d{4}-\d{2}-\d{2}/);
+  if (iso) return iso[0];
+
+  const parsed = new Date(text.replace(/(\d+)(st|nd|rd|th)\b/i, '$1'));
+  if (!text || isNaN(parsed.getTime())) return squash(text);
+
+  const month = String(parsed.getMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getDate()).padStart(2, '0');
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Identity of a show within one source: name, start date and city. A show
+ * whose venue or hours change keeps its key and shows up as "changed";
+ * one that moves to another date is a removal plus a new show.
+ */
+export function showKey(show: Record<string, any>): string {
+  return [squash(show.name), dateKey(show.startDate), squash(show.city)].join('|');
+}
+
+const fieldText = (value: unknown): string =>
+  value === undefined || value === null ? '' : String(value).replace(/\s+/g, ' ').trim();
+
+/** Hash of the fields that matter to a reviewer, in a fixed order */
+export function showContentHash(show: Record<string, any>): Promise<string> {
+  return sha256Hex(JSON.stringify(CONTENT_FIELDS.map((field) => fieldText(show[field]))));
+}
+
+/** Fields a changed show differs in, for the review queue */
+export function changedFields(previous: Record<string, any>, current: Record<string, any>): string[] {
+  return CONTENT_FIELDS.filter((field) => fieldText(previous[field]) !== fieldText(current[field]));
+}
+
+export async function toExtractedShow(payload: Record<string, any>): Promise<ExtractedShow> {
+  return {
+    showKey: showKey(payload),
+    contentHash: await showContentHash(payload),
+    payload,
+  };
+}
+
+/**
+ * Compares this run's shows with the source's snapshot.
+ *
+ * A snapshot show missing from the page is only reported as removed while
+ * it is still upcoming (past shows simply drop off listings). When nothing
+ * was extracted at all nothing is reported as removed either: an empty
+ * page is far more likely a layout change or outage than every show being
+ * cancelled at once. A show that comes back after being reported removed
+ * is reported as changed.
+ */
+export function diffShows(
+  previous: ShowSnapshot[],
+  current: ExtractedShow[],
+  options: { isUpcoming: (payload: Record<string, any>) => boolean }
+): ShowDiff {
+  const diff: ShowDiff = { added: [], changed: [], unchanged: [], removed: [] };
+  const previousByKey = new Map(previous.map((snapshot) => [snapshot.showKey, snapshot]));
+  const seen = new Set<string>();
+
+  for (const show of current) {
+    // Listings sometimes repeat a show (e.g. in a sidebar); the first one wins
+    if (seen.has(show.showKey)) continue;
+    seen.add(show.showKey);
+
+    const before = previousByKey.get(show.showKey);
+    if (!before) {
+      diff.added.push(show);
+    } else if (before.removedAt || before.contentHash !== show.contentHash) {
+      diff.changed.push({ current: show, previous: before });
+    } else {
+      diff.unchanged.push(show);
+    }
+  }
+
+  if (current.length > 0) {
+    diff.removed = previous.filter(
+      (snapshot) => !snapshot.removedAt && !seen.has(snapshot.showKey) && options.isUpcoming(snapshot.payload)
+    );
+  }
+
+  return diff;
+}
@@ -0,0 +1,474 @@
+/**
+ * Card Show Finder - Show import pipeline
+ *
+ * Turns the rows of an uploaded file (see `./importFormats.ts`) into shows
+ * for `scraped_shows_pending`. Three steps:
+ *   1. Map columns to show fields with a mapping profile. Profiles are
+ *      saved per source in `import_mapping_profiles`; suggestMapping()
+ *      guesses one from the headers.
+ *   2. Normalize and validate each row, giving a row-level report.
+ *   3. Compare valid rows with the show they match, if any (diffAgainstShow),
+ *      for the dry-run preview and the change type of each queued row.
+ *
+ * The `show-import` edge function runs the steps and does the database
+ * work. This module stays pure so it runs under Deno and Jest.
+ */
+
+import { US_STATES } from './extractionConfidence.ts';
+import { showKey } from './scrapeDiff.ts';
+
+export const IMPORT_FIELDS = [
+  'name',
+  'startDate',
+  'endDate',
+  'venueName',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+  'showHours',
+  'entryFee',
+  'description',
+  'url',
+  'contactInfo',
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/** A show can't be reviewed without these */
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['name', 'startDate', 'city', 'state'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Show name',
+  startDate: 'Start date',
+  endDate: 'End date',
+  venueName: 'Venue',
+  address: 'Street address',
+  city: 'City',
+  state: 'State',
+  zipCode: 'ZIP code',
+  showHours: 'Hours',
+  entryFee: 'Entry fee',
+  description: 'Description',
+  url: 'Website',
+  contactInfo: 'Contact',
+};
+
+/** Columns feeding each field; several columns are joined with ", " */
+export type FieldMapping = Partial<Record<ImportField, string[]>>;
+
+export interface ImportOptions {
+  /** How to read ambiguous numeric dates such as 03/04/2026 */
+  dateOrder?: 'mdy' | 'dmy';
+  /** State for rows that don't have one */
+  defaultState?: string | null;
+  /** XLSX sheet to read; the first one when unset */
+  sheet?: string | null;
+}
+
+/** Headers each field is recognised by, lowercased with punctuation as spaces */
+const FIELD_SYNONYMS: Record<ImportField, string[]> = {
+  name: ['name', 'title', 'show', 'show name', 'show title', 'event', 'event name'],
+  startDate: ['start date', 'date', 'start', 'show date', 'event date', 'begins'],
+  endDate: ['end date', 'end', 'ends'],
+  venueName: ['venue', 'venue name', 'location', 'location name', 'building', 'hall'],
+  address: ['address', 'street', 'street address', 'address 1', 'address1', 'addr'],
+  city: ['city', 'town'],
+  state: ['state', 'st', 'province'],
+  zipCode: ['zip', 'zip code', 'zipcode', 'postal code', 'postcode'],
+  showHours: ['hours', 'show hours', 'time', 'times'],
+  entryFee: ['entry fee', 'admission', 'admission fee', 'fee', 'price', 'cost'],
+  description: ['description', 'details', 'notes', 'about'],
+  url: ['website', 'website url', 'url', 'link', 'event url', 'source url'],
+  contactInfo: ['contact', 'contact info', 'contact name', 'organizer', 'promoter', 'phone', 'email', 'contact email', 'contact phone'],
+};
+
+// Contact details are often split over several columns; keep them all
+const MULTI_COLUMN_FIELDS: ImportField[] = ['contactInfo'];
+
+const headerKey = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Best guess at a mapping from the file's headers */
+export function suggestMapping(headers: string[]): FieldMapping {
+  const mapping: FieldMapping = {};
+
+  for (const header of headers) {
+    const key = headerKey(header);
+    const field = IMPORT_FIELDS.find((candidate) => FIELD_SYNONYMS[candidate].includes(key));
+    if (!field) continue;
+
+    if (!mapping[field]) {
+      mapping[field] = [header];
+    } else if (MULTI_COLUMN_FIELDS.includes(field)) {
+      mapping[field]!.push(header);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Mapping as stored in `import_mapping_profiles.mapping`, keeping only
+ * known fields and columns the file has. Single column names are accepted
+ * in place of lists.
+ */
+export function cleanMapping(mapping: Record<string, unknown> | null | undefined, headers?: string[]): FieldMapping {
+  const cleaned: FieldMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const value = mapping?.[field];
+    const columns = (Array.isArray(value) ? value : value ? [value] : [])
+      .map(String)
+      .filter((column) => column && (!headers || headers.includes(column)));
+    if (columns.length > 0) cleaned[field] = columns;
+  }
+  return cleaned;
+}
+
+// ------------------------------------------------------------------
+// Normalization
+// ------------------------------------------------------------------
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9,
+  september: 9, oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+
+const STATE_CODES: Record<string, string> = Object.fromEntries(
+  Object.entries(US_STATES).map(([code, name]) => [name, code])
+);
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+const fullYear = (year: string): number => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+/**
+ * YYYY-MM-DD, or null when the value isn't a full date. Reads ISO dates,
+ * numeric dates in `dateOrder`, written-out dates ("Sat, March 8th 2026",
+ * "8 March 2026") and Excel serial numbers. Dates without a year are
+ * rejected rather than guessed.
+ */
+export function toIsoDate(value: string | null | undefined, dateOrder: 'mdy' | 'dmy' = 'mdy'): string | null {
+  const text = (value || '').trim().toLowerCase().replace(/(\d)(st|nd|rd|th)\b/g, '$1');
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[t\s].*)?$/);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  // Excel stores dates as days since 1899-12-30
+  match = text.match(/^(\d{5})(?:\.\d+)?$/);
+  if (match) {
+    const serial = Number(match[1]);
+    if (serial < 20000 || serial > 80000) return null;
+    return new Date(Date.UTC(1899, 11, 30) + serial * 86400000).toISOString().slice(0, 10);
+  }
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    return dateOrder === 'dmy'
+      ? isoDate(fullYear(match[3]), second, first)
+      : isoDate(fullYear(match[3]), first, second);
+  }
+
+  const words = text.replace(/[,.]/g, ' ').split(/\s+/).filter(Boolean);
+  const monthAt = words.findIndex((word) => MONTHS[word] !== undefined);
+  if (monthAt === -1) return null;
+
+  const month = MONTHS[words[monthAt]];
+  const year = words.find((word) => /^\d{4}$/.test(word));
+  const day = [words[monthAt + 1], words[monthAt - 1]].find((word) => word && /^\d{1,2}$/.test(word));
+  if (!year || !day) return null;
+  return isoDate(Number(year), month, Number(day));
+}
+
+/** Two-letter code for a state code or name, or null */
+export function toStateCode(value: string | null | undefined): string | null {
+  const text = (value || '').trim();
+  if (!text) return null;
+  const upper = text.toUpperCase();
+  if (US_STATES[upper]) return upper;
+  return STATE_CODES[text.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ')] || null;
+}
+
+/** Dollar amount of an entry fee; 0 for "free"; null when there's no amount */
+export function toEntryFee(value: string | null | undefined): number | null {
+  const text = (value || '').trim();
+  if (!text) return null;
+  if (/^(free|no charge|none)\b/i.test(text)) return 0;
+  const amount = text.match(/\d+(?:\.\d{1,2})?/);
+  return amount ? Number(amount[0]) : null;
+}
+
+/** Mapped values of one row: joined column text, null when empty */
+export function mapRow(values: Record<string, string>, mapping: FieldMapping): Record<ImportField, string | null> {
+  const mapped = {} as Record<ImportField, string | null>;
+  for (const field of IMPORT_FIELDS) {
+    const text = (mapping[field] || [])
+      .map((column) => (values[column] || '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join(', ');
+    mapped[field] = text || null;
+  }
+  return mapped;
+}
+
+/**
+ * A row as it goes to `normalized_json`: ISO dates, state code, numeric
+ * fee and the full address, the shape approve_pending_show() reads.
+ */
+export interface ImportedShow {
+  name: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  venueName: string | null;
+  /** Street, city, state and ZIP */
+  address: string | null;
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+  showHours: string | null;
+  entryFee: number | null;
+  description: string | null;
+  url: string | null;
+  contactInfo: string | null;
+}
+
+export function normalizeImportedShow(
+  mapped: Record<ImportField, string | null>,
+  options: ImportOptions = {}
+): ImportedShow {
+  const startDate = toIsoDate(mapped.startDate, options.dateOrder);
+  const state = toStateCode(mapped.state || options.defaultState);
+  // Spreadsheets drop the leading zero of New England ZIP codes
+  const zipCode = mapped.zipCode && /^\d{4}$/.test(mapped.zipCode) ? `0${mapped.zipCode}` : mapped.zipCode;
+  const address = [mapped.address, mapped.city, [state, zipCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    name: mapped.name,
+    startDate,
+    endDate: toIsoDate(mapped.endDate, options.dateOrder) || startDate,
+    venueName: mapped.venueName,
+    address: address || null,
+    street: mapped.address,
+    city: mapped.city,
+    state,
+    zipCode,
+    showHours: mapped.showHours,
+    entryFee: toEntryFee(mapped.entryFee),
+    description: mapped.description,
+    url: mapped.url,
+    contactInfo: mapped.contactInfo,
+  };
+}
+
+// ------------------------------------------------------------------
+// Validation
+// ------------------------------------------------------------------
+
+export interface RowIssue {
+  field: ImportField | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  /** Mapped text as in the file, stored as `raw_payload` */
+  raw: Record<ImportField, string | null>;
+  show: ImportedShow;
+  showKey: string;
+  issues: RowIssue[];
+  /** No errors; warnings don't block the row */
+  valid: boolean;
+}
+
+export interface ImportReport {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  /** Valid rows with at least one warning */
+  warningRows: number;
+  /** Required fields no column is mapped to */
+  unmappedRequired: ImportField[];
+  rows: ImportRow[];
+}
+
+const MAX_YEARS_AHEAD = 2;
+
+function rowIssues(
+  raw: Record<ImportField, string | null>,
+  show: ImportedShow,
+  options: ImportOptions,
+  today: string
+): RowIssue[] {
+  const issues: RowIssue[] = [];
+  const error = (field: ImportField | null, message: string) => issues.push({ field, severity: 'error', message });
+  const warning = (field: ImportField | null, message: string) => issues.push({ field, severity: 'warning', message });
+
+  for (const field of REQUIRED_IMPORT_FIELDS) {
+    if (!raw[field] && !(field === 'state' && options.defaultState)) {
+      error(field, `${IMPORT_FIELD_LABELS[field]} is missing`);
+    }
+  }
+
+  if (raw.startDate && !show.startDate) error('startDate', `Start date "${raw.startDate}" is not a full date`);
+  if (raw.endDate && !toIsoDate(raw.endDate, options.dateOrder)) {
+    error('endDate', `End date "${raw.endDate}" is not a full date`);
+  }
+  if (show.startDate && show.endDate && show.endDate < show.startDate) {
+    error('endDate', 'End date is before the start date');
+  }
+  if (show.endDate && show.endDate < today) {
+    error('startDate', 'Show is in the past');
+  }
+  if (show.startDate && show.startDate > `${Number(today.slice(0, 4)) + MAX_YEARS_AHEAD}${today.slice(4)}`) {
+    warning('startDate', `More than ${MAX_YEARS_AHEAD} years away`);
+  }
+
+  const stateText = raw.state || options.defaultState;
+  if (stateText && !show.state) error('state', `"${stateText}" is not a US state`);
+
+  if (!raw.address) warning('address', 'No street address; the show will be placed at the city');
+  if (show.zipCode && !/^\d{5}(-\d{4})?$/.test(show.zipCode)) {
+    warning('zipCode', `ZIP code "${show.zipCode}" looks wrong`);
+  }
+  if (raw.entryFee && show.entryFee === null) {
+    warning('entryFee', `Entry fee "${raw.entryFee}" has no amount; it will be left blank`);
+  }
+  if (show.url && !/^https?:\/\/\S+$/i.test(show.url)) warning('url', `"${show.url}" is not a web address`);
+
+  return issues;
+}
+
+/**
+ * Map, normalize and validate every row. A row repeating an earlier one
+ * (same name, start date and city) is an error, so a file can't queue
+ * the same show twice.
+ */
+export function prepareImport(
+  rows: { rowNumber: number; values: Record<string, string> }[],
+  mapping: FieldMapping,
+  options: ImportOptions = {},
+  now: Date = new Date()
+): ImportReport {
+  const today = now.toISOString().slice(0, 10);
+  const firstRowByKey = new Map<string, number>();
+
+  const prepared = rows.map(({ rowNumber, values }) => {
+    const raw = mapRow(values, mapping);
+    const show = normalizeImportedShow(raw, options);
+    const key = showKey(show);
+    const issues = rowIssues(raw, show, options, today);
+
+    const firstRow = firstRowByKey.get(key);
+    if (firstRow !== undefined && show.name && show.startDate) {
+      issues.push({ field: null, severity: 'error', message: `Same show as row ${firstRow}` });
+    } else {
+      firstRowByKey.set(key, rowNumber);
+    }
+
+    const valid = !issues.some((issue) => issue.severity === 'error');
+    return { rowNumber, raw, show, showKey: key, issues, valid };
+  });
+
+  const validRows = prepared.filter((row) => row.valid);
+  return {
+    totalRows: prepared.length,
+    validRows: validRows.length,
+    invalidRows: prepared.length - validRows.length,
+    warningRows: validRows.filter((row) => row.issues.length > 0).length,
+    unmappedRequired: REQUIRED_IMPORT_FIELDS.filter(
+      (field) => !mapping[field]?.length && !(field === 'state' && options.defaultState)
+    ),
+    rows: prepared,
+  };
+}
+
+// ------------------------------------------------------------------
+// Dry-run diff
+// ------------------------------------------------------------------
+
+/** The `shows` columns approve_pending_show() updates for a changed row */
+export interface ExistingShow {
+  id: string;
+  title: string | null;
+  location: string | null;
+  address: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  entry_fee: number | string | null;
+  description: string | null;
+}
+
+export type ImportAction = 'new' | 'update' | 'unchanged';
+
+export interface FieldChange {
+  field: ImportField;
+  from: string | null;
+  to: string | null;
+}
+
+const squash = (value: unknown): string =>
+  String(value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Show columns as import fields, for `previous_payload` and the diff */
+export function existingShowPayload(existing: ExistingShow): Record<string, string | null> {
+  return {
+    name: existing.title,
+    startDate: existing.start_date ? existing.start_date.slice(0, 10) : null,
+    endDate: existing.end_date ? existing.end_date.slice(0, 10) : null,
+    venueName: existing.location,
+    address: existing.address,
+    entryFee: existing.entry_fee === null || existing.entry_fee === undefined ? null : String(Number(existing.entry_fee)),
+    description: existing.description,
+  };
+}
+
+/**
+ * What queuing the row would do to the show it matches: nothing matched
+ * means a new show. Fields the file leaves empty keep the show's value
+ * on approval, so they don't count as changes.
+ */
+export function diffAgainstShow(
+  show: ImportedShow,
+  existing: ExistingShow | null
+): { action: ImportAction; changes: FieldChange[] } {
+  if (!existing) return { action: 'new', changes: [] };
+
+  const current = existingShowPayload(existing);
+  const incoming: Record<string, string | null> = {
+    name: show.name,
+    startDate: show.startDate,
+    endDate: show.endDate,
+    venueName: show.venueName,
+    address: show.address,
+    entryFee: show.entryFee === null ? null : String(show.entryFee),
+    description: show.description,
+  };
+
+  const changes: FieldChange[] = [];
+  for (const [field, to] of Object.entries(incoming)) {
+    if (to === null) continue;
+    const from = current[field];
+    if (squash(from) !== squash(to)) changes.push({ field: field as ImportField, from, to });
+  }
+
+  return { action: changes.length > 0 ? 'update' : 'unchanged', changes };
+}
+
+/** `scraped_shows_pending.source_url` for rows imported under a label */
+export function importSourceUrl(sourceLabel: string): string {
+  const slug = sourceLabel.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `import://${slug || 'upload'}`;
+}
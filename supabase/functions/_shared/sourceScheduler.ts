@@ -0,0 +1,103 @@
+/**
+ * Card Show Finder - Scraper source scheduling
+ *
+ * Decides which scraping sources get the scraper agent's per-run budget
+ * and how long a failing source is left alone.
+ *
+ * A source's score is its approved-show yield per crawl, scaled by how long
+ * it has been since the last crawl and by its manual priority_score. Sources
+ * that have never been crawled go first. One slot per run is reserved for
+ * the longest-waiting source, so low-yield sources are still revisited now
+ * and then instead of starving behind the prolific ones.
+ *
+ * Runs under Deno in the edge function and under Jest in tests.
+ */
+
+/** One source as returned by get_scraping_source_health() */
+export interface SourceStats {
+  url: string;
+  priorityScore: number;
+  /** Last fetch of any outcome; null when never crawled */
+  lastCrawledAt: string | null;
+  /** Crawls that didn't fail, within the health window */
+  crawlCount: number;
+  /** New shows from this source that an admin approved, within the window */
+  approvedCount: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Consecutive failures after which the scraper disables a source */
+export const MAX_ERROR_STREAK = 6;
+
+const BASE_BACKOFF_MS = HOUR_MS;
+const MAX_BACKOFF_MS = 7 * 24 * HOUR_MS;
+
+// A source is "due" a day after its last crawl; waiting longer than two
+// weeks doesn't make it any more urgent
+const TARGET_INTERVAL_HOURS = 24;
+const MAX_STALENESS = 14;
+
+/** Wait before retrying after `errorStreak` consecutive failures: 1h, 2h, 4h, ... up to a week */
+export function backoffDelayMs(errorStreak: number): number {
+  if (errorStreak <= 0) return 0;
+  return Math.min(BASE_BACKOFF_MS * 2 ** (errorStreak - 1), MAX_BACKOFF_MS);
+}
+
+export function shouldDisable(errorStreak: number): boolean {
+  return errorStreak >= MAX_ERROR_STREAK;
+}
+
+/**
+ * Approved shows per crawl, with one imaginary crawl that found one show so
+ * new sources start at 1 and a single bad run doesn't sink a source.
+ */
+export function yieldPerCrawl(source: SourceStats): number {
+  return (source.approvedCount + 1) / (source.crawlCount + 1);
+}
+
+export function sourceScore(source: SourceStats, now: Date): number {
+  if (!source.lastCrawledAt) return Infinity;
+
+  const hoursSince = Math.max(0, (now.getTime() - new Date(source.lastCrawledAt).getTime()) / HOUR_MS);
+  const staleness = Math.min(hoursSince / TARGET_INTERVAL_HOURS, MAX_STALENESS);
+  const priority = 0.5 + Math.min(Math.max(source.priorityScore, 0), 100) / 100;
+
+  return yieldPerCrawl(source) * staleness * priority;
+}
+
+const crawledAt = (source: SourceStats) =>
+  source.lastCrawledAt ? new Date(source.lastCrawledAt).getTime() : -Infinity;
+
+// Infinity - Infinity is NaN, so equal values compare as 0 explicitly
+const descending = (a: number, b: number) => (a === b ? 0 : b - a);
+
+/**
+ * URLs to crawl this run, best first. `sources` should only contain
+ * sources that are enabled and not backing off.
+ */
+export function planCrawl(
+  sources: SourceStats[],
+  budget: number,
+  now: Date,
+  options: { explorationSlots?: number } = {}
+): string[] {
+  if (budget <= 0) return [];
+
+  const ranked = sources
+    .map((source) => ({ source, score: sourceScore(source, now) }))
+    .sort((a, b) =>
+      descending(a.score, b.score) ||
+      descending(a.source.priorityScore, b.source.priorityScore) ||
+      a.source.url.localeCompare(b.source.url)
+    )
+    .map(({ source }) => source);
+
+  const explorationSlots = Math.max(0, Math.min(options.explorationSlots ?? 1, budget - 1));
+  const picked = ranked.slice(0, budget - explorationSlots);
+  const waiting = ranked
+    .filter((source) => !picked.includes(source))
+    .sort((a, b) => descending(crawledAt(b), crawledAt(a)));
+
+  return [...picked, ...waiting.slice(0, budget - picked.length)].map((source) => source.url);
+}
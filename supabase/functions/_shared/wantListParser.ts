@@ -0,0 +1,212 @@
+/**
+ * Free-text want list parsing ("1986 Fleer #57 Michael Jordan PSA 8+ under
+ * $2,000" → structured entry) used for dealer inventory matching.
+ *
+ * Used by the app's want list editor (through `src/utils/wantListParser.ts`)
+ * and by the `match-want-lists` edge function, which upgrades existing
+ * free-text lists. Runs under Deno, React Native and Jest.
+ */
+
+/** One want list entry; same shape as the app's `WantListItemInput` */
+export interface WantListItemInput {
+  playerName: string;
+  setName?: string | null;
+  year?: number | null;
+  cardNumber?: string | null;
+  grader?: string | null;
+  minGrade?: number | null;
+  maxPrice?: number | null;
+  notes?: string | null;
+  sourceText?: string | null;
+}
+
+// Dealer inventory saved through the want-list flow is prefixed with this
+export const INVENTORY_PREFIX = "[INVENTORY]";
+
+const GRADERS = ["PSA", "BGS", "SGC", "CGC", "CSG", "HGA", "BVG", "TAG"];
+
+// Longest names first so "Topps Chrome" wins over "Topps"
+const KNOWN_SETS = [
+  "National Treasures",
+  "Bowman Chrome",
+  "Topps Chrome",
+  "Panini Prizm",
+  "Stadium Club",
+  "Fleer Ultra",
+  "Upper Deck",
+  "O-Pee-Chee",
+  "Contenders",
+  "Heritage",
+  "Flawless",
+  "Base Set",
+  "Donruss",
+  "Goudey",
+  "Bowman",
+  "Finest",
+  "Mosaic",
+  "Select",
+  "Skybox",
+  "Topps",
+  "Fleer",
+  "Hoops",
+  "Optic",
+  "Prizm",
+  "Score",
+  "Leaf",
+];
+
+export interface WantListParseResult {
+  items: WantListItemInput[];
+  /** Lines that didn't contain anything recognisable as a card */
+  unparsed: string[];
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Split a want list into one string per wanted card. Newline separated
+ * lists are split by line; a single line is split on commas/semicolons.
+ */
+export const splitWantListEntries = (content: string): string[] => {
+  const lines = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith(INVENTORY_PREFIX));
+
+  const entries = lines.length === 1 ? lines[0].split(/[;,](?!\d{3})/) : lines;
+
+  return entries
+    .map(entry => entry.replace(/^\s*(?:[-*•]|\d{1,3}[.)])\s+/, "").trim())
+    .filter(Boolean);
+};
+
+const parsePrice = (value: string, thousands?: string): number =>
+  Number(value.replace(/,/g, "")) * (thousands ? 1000 : 1);
+
+/**
+ * Parse one want-list entry. Returns null when no player / card name is left
+ * after pulling out year, set, number, grade and price.
+ */
+export const parseWantListEntry = (entry: string): WantListItemInput | null => {
+  let rest = ` ${entry} `;
+  let maxPrice: number | null = null;
+  let grader: string | null = null;
+  let minGrade: number | null = null;
+  let year: number | null = null;
+  let cardNumber: string | null = null;
+  let setName: string | null = null;
+
+  // "under $500", "max $1.5k", "<= 200", "up to $75"
+  const capMatch = rest.match(
+    /\b(?:under|below|max(?:imum)?|up to|less than|budget)\s*:?\s*\$?\s*(\d[\d,]*(?:\.\d{1,2})?)\s*(k)?\b|(?:<=?)\s*\$?\s*(\d[\d,]*(?:\.\d{1,2})?)\s*(k)?\b/i
+  );
+  if (capMatch) {
+    maxPrice = parsePrice(capMatch[1] ?? capMatch[3], capMatch[2] ?? capMatch[4]);
+    rest = rest.replace(capMatch[0], " ");
+  } else {
+    const dollarMatch = rest.match(/\$\s*(\d[\d,]*(?:\.\d{1,2})?)\s*(k)?\b/i);
+    if (dollarMatch) {
+      maxPrice = parsePrice(dollarMatch[1], dollarMatch[2]);
+      rest = rest.replace(dollarMatch[0], " ");
+    }
+  }
+
+  // "PSA 8", "BGS 9.5+", "SGC 7 or better", or just "PSA"
+  const gradeMatch = rest.match(
+    new RegExp(`\\b(${GRADERS.join("|")})\\b\\s*-?\\s*(\\d{1,2}(?:\\.5)?)?\\s*(\\+|or better|and up)?`, "i")
+  );
+  if (gradeMatch) {
+    grader = gradeMatch[1].toUpperCase();
+    minGrade = gradeMatch[2] ? Number(gradeMatch[2]) : null;
+    rest = rest.replace(gradeMatch[0], " ");
+  }
+
+  // "1986", "1986-87" (season → first year), "'52"
+  const yearMatch = rest.match(/\b(18[5-9]\d|19\d\d|20\d\d)(?:[-/]\d{2})?\b/);
+  if (yearMatch) {
+    year = Number(yearMatch[1]);
+    rest = rest.replace(yearMatch[0], " ");
+  } else {
+    const shortYear = rest.match(/(?:^|\s)['’](\d{2})\b/);
+    if (shortYear) {
+      const yy = Number(shortYear[1]);
+      year = yy > (new Date().getFullYear() % 100) ? 1900 + yy : 2000 + yy;
+      rest = rest.replace(shortYear[0], " ");
+    }
+  }
+
+  const numberMatch = rest.match(/#\s*([A-Za-z0-9-]+)/);
+  if (numberMatch) {
+    cardNumber = numberMatch[1];
+    rest = rest.replace(numberMatch[0], " ");
+  }
+
+  for (const set of KNOWN_SETS) {
+    const setMatch = rest.match(new RegExp(`\\b${escapeRegExp(set)}\\b`, "i"));
+    if (setMatch) {
+      setName = set;
+      rest = rest.replace(setMatch[0], " ");
+      break;
+    }
+  }
+
+  const playerName = rest
+    .replace(/[()[\]{}]/g, " ")
+    .replace(/\s+[-–—|:]\s+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^[-–—,:|]+|[-–—,:|]+$/g, "")
+    .trim();
+
+  if (!playerName || !/[A-Za-z]/.test(playerName)) {
+    return null;
+  }
+
+  return {
+    playerName,
+    setName,
+    year,
+    cardNumber,
+    grader,
+    minGrade,
+    maxPrice,
+    notes: null,
+    sourceText: entry,
+  };
+};
+
+/**
+ * Parse a whole free-text want list
+ */
+export const parseWantList = (content: string): WantListParseResult => {
+  const items: WantListItemInput[] = [];
+  const unparsed: string[] = [];
+
+  splitWantListEntries(content).forEach(entry => {
+    const item = parseWantListEntry(entry);
+    if (item) {
+      items.push(item);
+    } else {
+      unparsed.push(entry);
+    }
+  });
+
+  return { items, unparsed };
+};
+
+/**
+ * Compact label, e.g. "1986 Fleer #57 Michael Jordan · PSA 8+ · ≤ $2,000"
+ */
+export const formatWantListItem = (item: WantListItemInput): string => {
+  const card = [item.year, item.setName, item.cardNumber ? `#${item.cardNumber}` : null, item.playerName]
+    .filter(Boolean)
+    .join(" ");
+
+  const grade = item.grader
+    ? `${item.grader}${item.minGrade !== null && item.minGrade !== undefined ? ` ${item.minGrade}+` : ""}`
+    : null;
+  const price =
+    item.maxPrice !== null && item.maxPrice !== undefined ? `≤ $${item.maxPrice.toLocaleString("en-US")}` : null;
+
+  return [card, grade, price].filter(Boolean).join(" · ");
+};
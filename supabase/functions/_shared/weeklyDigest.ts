@@ -0,0 +1,215 @@
+/**
+ * Weekly email digest rendering (subject, HTML and plaintext) from the JSON
+ * returned by `get_weekly_digest_content()`.
+ */
+
+export interface DigestShow {
+  id: string;
+  title: string;
+  location?: string | null;
+  address?: string | null;
+  start_date: string;
+  end_date?: string | null;
+  entry_fee?: number | null;
+  distance_miles?: number | null;
+}
+
+export interface DigestNewDealers {
+  show_id: string;
+  show_title: string;
+  start_date: string;
+  dealers: string[];
+}
+
+export interface DigestFollowedSeries {
+  series_id: string;
+  series_name: string;
+  show: DigestShow;
+}
+
+export interface WeeklyDigestContent {
+  home_zip: string | null;
+  radius_miles: number;
+  nearby: DigestShow[];
+  favorites_soon: DigestShow[];
+  new_dealers: DigestNewDealers[];
+  followed_series: DigestFollowedSeries[];
+}
+
+export interface WeeklyDigestOptions {
+  firstName?: string | null;
+  unsubscribeUrl: string;
+  /** Base URL for show links, e.g. https://cardshowfinder.app */
+  appUrl?: string;
+  /** IANA zone used to print show dates */
+  timeZone?: string;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Dealer names listed per show before "and N more"
+const MAX_DEALER_NAMES = 5;
+
+export const isDigestEmpty = (content: WeeklyDigestContent): boolean =>
+  content.nearby.length === 0 &&
+  content.favorites_soon.length === 0 &&
+  content.new_dealers.length === 0 &&
+  content.followed_series.length === 0;
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/** "Sat, Nov 8" or "Sat, Nov 8 – Sun, Nov 9" */
+export const formatDigestDates = (start: string, end?: string | null, timeZone = 'UTC'): string => {
+  const format = (value: string) =>
+    new Date(value).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  const first = format(start);
+  const last = end ? format(end) : first;
+  return first === last ? first : `${first} – ${last}`;
+};
+
+const listDealers = (dealers: string[]): string => {
+  const names = dealers.filter(Boolean);
+  if (names.length <= MAX_DEALER_NAMES) return names.join(', ');
+  return `${names.slice(0, MAX_DEALER_NAMES).join(', ')} and ${names.length - MAX_DEALER_NAMES} more`;
+};
+
+export const buildDigestSubject = (content: WeeklyDigestContent): string => {
+  const soon = content.favorites_soon.length;
+  const nearby = content.nearby.length;
+  if (soon > 0 && nearby > 0) {
+    return `${soon} saved show${soon === 1 ? '' : 's'} coming up + ${nearby} near you`;
+  }
+  if (soon > 0) {
+    return `${soon} of your saved shows ${soon === 1 ? 'is' : 'are'} coming up`;
+  }
+  if (nearby > 0) {
+    return `${nearby} card show${nearby === 1 ? '' : 's'} coming up near you`;
+  }
+  return 'Your weekly card show update';
+};
+
+interface DigestLine {
+  title: string;
+  detail: string;
+  showId?: string;
+}
+
+interface DigestSection {
+  heading: string;
+  lines: DigestLine[];
+}
+
+const buildSections = (content: WeeklyDigestContent, timeZone: string): DigestSection[] => {
+  const showLine = (show: DigestShow, extra?: string): DigestLine => ({
+    title: show.title,
+    detail: [formatDigestDates(show.start_date, show.end_date, timeZone), show.location, extra]
+      .filter(Boolean)
+      .join(' · '),
+    showId: show.id,
+  });
+
+  const sections: DigestSection[] = [
+    {
+      heading: 'Your saved shows are coming up',
+      lines: content.favorites_soon.map(show => showLine(show)),
+    },
+    {
+      heading: 'New dealers at your shows',
+      lines: content.new_dealers.map(group => ({
+        title: group.show_title,
+        detail: `${formatDigestDates(group.start_date, null, timeZone)} · ${listDealers(group.dealers)}`,
+        showId: group.show_id,
+      })),
+    },
+    {
+      heading: content.home_zip
+        ? `Upcoming shows within ${content.radius_miles} miles of ${content.home_zip}`
+        : 'Upcoming shows near you',
+      lines: content.nearby.map(show =>
+        showLine(show, show.distance_miles != null ? `${show.distance_miles} mi` : undefined)
+      ),
+    },
+    {
+      heading: 'Next up in series you follow',
+      lines: content.followed_series.map(entry => showLine(entry.show, entry.series_name)),
+    },
+  ];
+
+  return sections.filter(section => section.lines.length > 0);
+};
+
+export const renderWeeklyDigest = (
+  content: WeeklyDigestContent,
+  options: WeeklyDigestOptions
+): RenderedDigest => {
+  const timeZone = options.timeZone || 'UTC';
+  const greeting = options.firstName ? `Hi ${options.firstName},` : 'Hi there,';
+  const intro = "Here's what's happening at card shows you care about this week.";
+  const footer = "You're receiving this because weekly digests are on in your Card Show Finder settings.";
+  const showUrl = (showId?: string) =>
+    options.appUrl && showId ? `${options.appUrl.replace(/\/$/, '')}/shows/${showId}` : null;
+
+  const sections = buildSections(content, timeZone);
+
+  const text = [
+    greeting,
+    '',
+    intro,
+    ...sections.flatMap(section => [
+      '',
+      section.heading.toUpperCase(),
+      ...section.lines.map(line => {
+        const url = showUrl(line.showId);
+        return `- ${line.title}\n  ${line.detail}${url ? `\n  ${url}` : ''}`;
+      }),
+    ]),
+    '',
+    '--',
+    footer,
+    `Unsubscribe: ${options.unsubscribeUrl}`,
+  ].join('\n');
+
+  const htmlSections = sections
+    .map(section => {
+      const items = section.lines
+        .map(line => {
+          const url = showUrl(line.showId);
+          const title = url
+            ? `<a href="${escapeHtml(url)}" style="color:#0057B8;text-decoration:none;">${escapeHtml(line.title)}</a>`
+            : escapeHtml(line.title);
+          return (
+            `<li style="margin:0 0 12px;"><strong>${title}</strong><br>` +
+            `<span style="color:#666666;font-size:14px;">${escapeHtml(line.detail)}</span></li>`
+          );
+        })
+        .join('');
+      return (
+        `<h2 style="color:#FF6A00;font-size:18px;margin:24px 0 8px;">${escapeHtml(section.heading)}</h2>` +
+        `<ul style="padding-left:18px;margin:0;">${items}</ul>`
+      );
+    })
+    .join('');
+
+  const html =
+    '<!DOCTYPE html><html><body style="font-family:Helvetica,Arial,sans-serif;color:#333333;margin:0;padding:0;">' +
+    '<div style="max-width:600px;margin:0 auto;padding:24px;">' +
+    `<p>${escapeHtml(greeting)}</p>` +
+    `<p>${escapeHtml(intro)}</p>` +
+    htmlSections +
+    '<hr style="border:none;border-top:1px solid #eeeeee;margin:32px 0 16px;">' +
+    `<p style="color:#999999;font-size:12px;">${escapeHtml(footer)} ` +
+    `<a href="${escapeHtml(options.unsubscribeUrl)}" style="color:#999999;">Unsubscribe</a></p>` +
+    '</div></body></html>';
+
+  return { subject: buildDigestSubject(content), html, text };
+};
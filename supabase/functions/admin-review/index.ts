@@ -1,6 +1,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { changedFields } from '../_shared/scrapeDiff.ts'
+import { lowConfidenceFields, type FieldConfidence } from '../_shared/extractionConfidence.ts'
 
 // Types
 interface PendingShow {
@@ -11,6 +13,12 @@ interface PendingShow {
   geocoded_json?: any
   status: 'PENDING' | 'APPROVED' | 'REJECTED'
   admin_notes?: string
+  change_type?: 'new' | 'changed' | 'removed'
+  show_key?: string
+  previous_payload?: any
+  field_confidence?: FieldConfidence | null
+  confidence?: number | null
+  auto_review?: { decision: 'approved' | 'held', reasons: string[] } | null
   created_at: string
   reviewed_at?: string
 }
@@ -215,6 +223,7 @@ serve(async (req) => {
         const limit = parseInt(params.get('limit') || '50')
         const offset = parseInt(params.get('offset') || '0')
         const source = params.get('source') || null
+        const changeType = params.get('changeType') || null
         const minScore = parseInt(params.get('minScore') || '0')
         const maxScore = parseInt(params.get('maxScore') || '100')
         
@@ -230,6 +239,10 @@ serve(async (req) => {
         if (source) {
           query = query.eq('source_url', source)
         }
+
+        if (changeType) {
+          query = query.eq('change_type', changeType)
+        }
         
         const { data: pendingShows, error } = await query
         
@@ -248,6 +261,10 @@ serve(async (req) => {
           return {
             ...show,
             quality: qualityScore,
+            changed_fields: show.change_type === 'changed' && show.previous_payload
+              ? changedFields(show.previous_payload, show.raw_payload)
+              : [],
+            low_confidence_fields: lowConfidenceFields(show.field_confidence),
             duplicates: duplicates.map(d => ({
               id: d.id,
               name: d.raw_payload.name,
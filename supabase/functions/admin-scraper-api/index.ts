@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { lowConfidenceFields } from '../_shared/extractionConfidence.ts'
 
 // Create a Supabase client with the service role key
 const getSupabaseAdmin = () => createClient(
@@ -45,6 +46,9 @@ async function isAdmin(req: Request): Promise<boolean> {
   }
 }
 
+// Approvals scoring at or above this against a live show need "force"
+const DUPLICATE_BLOCK_SCORE = 0.8
+
 // Parse URL path and query parameters
 function parseRequest(req: Request) {
   const url = new URL(req.url)
@@ -72,8 +76,14 @@ async function getPendingShows(req: Request): Promise<Response> {
     })
     
     if (error) throw new Error(error.message)
+
+    // Fields the AI likely guessed, for the reviewer to check first
+    const shows = (data?.data || []).map((show: any) => ({
+      ...show,
+      low_confidence_fields: lowConfidenceFields(show.field_confidence)
+    }))
     
-    return new Response(JSON.stringify(data), {
+    return new Response(JSON.stringify({ ...data, data: shows }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200
     })
@@ -109,6 +119,40 @@ async function approveShow(req: Request): Promise<Response> {
     const adminNotes = body.notes || body.adminNotes || null
     
     const supabase = getSupabaseAdmin()
+
+    // Changed and removed rows apply to a show already published from this
+    // listing, which the duplicate check would always find
+    const { data: pending } = await supabase
+      .from('scraped_shows_pending')
+      .select('change_type')
+      .eq('id', id)
+      .maybeSingle()
+    const isUpdate = pending?.change_type === 'changed' || pending?.change_type === 'removed'
+
+    // Block approval of likely duplicates unless the admin confirms
+    if (!body.force && !isUpdate) {
+      const { data: duplicates, error: dupError } = await supabase.rpc('find_duplicates_for_pending', {
+        p_pending_id: id,
+        p_limit: 5
+      })
+
+      if (dupError) {
+        console.error('Error checking duplicates before approval:', dupError)
+      } else {
+        const likely = (duplicates || []).filter((d: any) => Number(d.score) >= DUPLICATE_BLOCK_SCORE)
+        if (likely.length > 0) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Possible duplicate of an existing show. Reject it as DUPLICATE, or resend with "force": true to approve anyway.',
+            duplicates: likely
+          }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 409
+          })
+        }
+      }
+    }
+
     const { data, error } = await supabase.rpc('approve_pending_show', {
       p_pending_id: id,
       p_admin_notes: adminNotes
@@ -230,6 +274,89 @@ async function editShow(req: Request): Promise<Response> {
   }
 }
 
+// Handle GET /duplicates/:id - Likely duplicates of a pending show
+async function getPendingDuplicates(req: Request): Promise<Response> {
+  try {
+    const { params, query } = parseRequest(req)
+    const id = params[1] // /duplicates/:id
+    
+    if (!id) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        error: 'Missing show ID' 
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400
+      })
+    }
+    
+    const supabase = getSupabaseAdmin()
+    const { data, error } = await supabase.rpc('find_duplicates_for_pending', {
+      p_pending_id: id,
+      p_limit: parseInt(query.limit || '5')
+    })
+    
+    if (error) throw new Error(error.message)
+    
+    return new Response(JSON.stringify({ success: true, data: data || [] }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    })
+  } catch (e) {
+    console.error('Error finding duplicates:', e)
+    return new Response(JSON.stringify({ 
+      success: false, 
+      error: e.message 
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500
+    })
+  }
+}
+
+// Handle POST /merge - Merge a duplicate live show into a surviving one
+async function mergeShows(req: Request): Promise<Response> {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const survivorId = body.survivor_id || body.survivorId
+    const duplicateId = body.duplicate_id || body.duplicateId
+    
+    if (!survivorId || !duplicateId) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        error: 'Missing survivor_id or duplicate_id' 
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400
+      })
+    }
+    
+    // Run as the admin so the merge is attributed in show_merges
+    const supabase = getSupabaseClient(req) || getSupabaseAdmin()
+    const { data, error } = await supabase.rpc('merge_shows', {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+      p_notes: body.notes || null
+    })
+    
+    if (error) throw new Error(error.message)
+    
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    })
+  } catch (e) {
+    console.error('Error merging shows:', e)
+    return new Response(JSON.stringify({ 
+      success: false, 
+      error: e.message 
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500
+    })
+  }
+}
+
 // Handle GET /sources - List scraping sources
 async function getScrapingSources(req: Request): Promise<Response> {
   try {
@@ -341,6 +468,10 @@ serve(async (req: Request) => {
       return await rejectShow(req)
     } else if (path.startsWith('/edit/') && req.method === 'PATCH') {
       return await editShow(req)
+    } else if (path.startsWith('/duplicates/') && req.method === 'GET') {
+      return await getPendingDuplicates(req)
+    } else if (path === '/merge' && req.method === 'POST') {
+      return await mergeShows(req)
     } else if (path.startsWith('/sources') && params.length === 1 && req.method === 'GET') {
       return await getScrapingSources(req)
     } else if (path.startsWith('/sources/') && params.length === 2 && req.method === 'PATCH') {
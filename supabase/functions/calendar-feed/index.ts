@@ -0,0 +1,117 @@
+// supabase/functions/calendar-feed/index.ts
+//
+// Private iCalendar feed of a user's favorited and planned shows.
+// Calendar apps cannot send a Supabase JWT, so the function is deployed with
+// `verify_jwt = false` and authenticates via the secret `?token=` parameter
+// issued by `get_or_create_calendar_feed_token()`.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { generateCalendar, ShowRow } from "../_shared/ical.ts";
+
+// Keep recently finished shows in the feed so calendars don't drop them instantly
+const PAST_SHOW_WINDOW_DAYS = 30;
+const REFRESH_INTERVAL_HOURS = 6;
+
+const jsonError = (message: string, status: number) =>
+  new Response(
+    JSON.stringify({ success: false, message }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" }, status },
+  );
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return jsonError("Method not allowed", 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = new URL(req.url).searchParams.get("token")?.trim();
+    if (!token || !/^[a-f0-9]{32,128}$/i.test(token)) {
+      return jsonError("Missing or malformed feed token", 400);
+    }
+
+    // Resolve token → user
+    const { data: tokenRow, error: tokenError } = await supabase
+      .from("calendar_feed_tokens")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (tokenError) throw new Error(tokenError.message);
+    if (!tokenRow) {
+      return jsonError("Calendar feed not found", 404);
+    }
+
+    const userId = tokenRow.user_id as string;
+
+    // Collect favorited + planned show IDs
+    const [{ data: favorites, error: favError }, { data: planned, error: plannedError }] =
+      await Promise.all([
+        supabase.from("user_favorite_shows").select("show_id").eq("user_id", userId),
+        supabase.from("planned_attendance").select("show_id").eq("user_id", userId),
+      ]);
+
+    if (favError) throw new Error(favError.message);
+    if (plannedError) throw new Error(plannedError.message);
+
+    const showIds = Array.from(
+      new Set([...(favorites ?? []), ...(planned ?? [])].map((row) => row.show_id).filter(Boolean)),
+    );
+
+    let shows: ShowRow[] = [];
+    if (showIds.length > 0) {
+      const cutoff = new Date(Date.now() - PAST_SHOW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+      // Cancelled shows are deliberately included so subscribers see STATUS:CANCELLED
+      const { data: showRows, error: showsError } = await supabase
+        .from("shows")
+        .select("*")
+        .in("id", showIds)
+        .gte("end_date", cutoff.toISOString())
+        .order("start_date", { ascending: true });
+
+      if (showsError) throw new Error(showsError.message);
+      shows = (showRows ?? []) as ShowRow[];
+    }
+
+    // Best-effort usage tracking – never fail the feed over it
+    supabase
+      .from("calendar_feed_tokens")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .then(({ error }) => {
+        if (error) console.error("Failed to record feed access:", error.message);
+      });
+
+    const body = generateCalendar(shows, {
+      calendarName: "My Card Shows",
+      refreshIntervalHours: REFRESH_INTERVAL_HOURS,
+    });
+
+    return new Response(req.method === "HEAD" ? null : body, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="card-shows.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return jsonError(`Unexpected error: ${error.message}`, 500);
+  }
+});
@@ -24,10 +24,12 @@ serve(async (_req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // 1. Fetch all records from the holding table
+    // 1. Fetch all records from the holding table (extraction samples are
+    //    kept for the source health dashboard, not loaded as shows)
     const { data: rawData, error: fetchError } = await supabaseAdmin
       .from('raw_ai_responses')
-      .select('*');
+      .select('*')
+      .eq('is_sample', false);
 
     if (fetchError) throw new Error(`Failed to fetch raw data: ${fetchError.message}`);
     if (!rawData || rawData.length === 0) {
@@ -84,7 +86,7 @@ serve(async (_req) => {
     }
 
     // 4. Clear the holding table after successful processing
-    await supabaseAdmin.from('raw_ai_responses').delete().neq('id', 0);
+    await supabaseAdmin.from('raw_ai_responses').delete().eq('is_sample', false);
 
     return new Response(JSON.stringify({ message: `Successfully processed and loaded ${showsToInsert.length} shows.` }), { headers: corsHeaders });
 
@@ -0,0 +1,84 @@
+// supabase/functions/email-digest-unsubscribe/index.ts
+//
+// Target of the unsubscribe link in every weekly digest. GET only shows a
+// confirmation form, so link scanners that follow the link change nothing;
+// the form's POST, or the RFC 8058 one-click POST that mail clients send
+// from the List-Unsubscribe header, unsubscribes. JWT verification is off
+// (see config.toml) since mail clients cannot send one.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { corsHeaders } from "../_shared/cors.ts";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const page = (
+  title: string,
+  message: string,
+  status = 200,
+  extraHtml = "",
+  extraHeaders: Record<string, string> = {},
+) =>
+  new Response(
+    `<!DOCTYPE html><html><head><meta charset="utf-8">` +
+      `<meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>` +
+      `<body style="font-family:Helvetica,Arial,sans-serif;color:#333333;text-align:center;padding:48px 24px;">` +
+      `<h1 style="color:#0057B8;font-size:22px;">${title}</h1><p>${message}</p>${extraHtml}</body></html>`,
+    { headers: { ...corsHeaders, "Content-Type": "text/html; charset=utf-8", ...extraHeaders }, status },
+  );
+
+// Posts back to this function with the same token (already checked to be a UUID)
+const confirmForm = (token: string) =>
+  `<form method="post" action="?token=${token}">` +
+  `<button type="submit" style="background:#0057B8;color:#ffffff;border:0;border-radius:6px;` +
+  `padding:12px 24px;font-size:16px;cursor:pointer;">Unsubscribe</button></form>`;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return page("Not supported", "This link only supports GET and POST.", 405, "", { Allow: "GET, POST, OPTIONS" });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const token = new URL(req.url).searchParams.get("token") || "";
+    if (!UUID_PATTERN.test(token)) {
+      return page("Link not recognised", "This unsubscribe link is invalid or incomplete.", 400);
+    }
+
+    if (req.method === "GET") {
+      return page(
+        "Unsubscribe from the weekly digest?",
+        "You'll stop receiving the weekly card show digest. You can turn it back on from your profile in the app.",
+        200,
+        confirmForm(token),
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: found, error } = await supabase.rpc("unsubscribe_email_digest", { p_token: token });
+    if (error) throw new Error(error.message);
+
+    if (!found) {
+      return page("Link not recognised", "This unsubscribe link is invalid or has expired.", 404);
+    }
+
+    return page(
+      "You're unsubscribed",
+      "You won't receive the weekly card show digest any more. You can turn it back on from your profile in the app.",
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return page("Something went wrong", "We couldn't update your email preferences. Please try again later.", 500);
+  }
+});
@@ -0,0 +1,120 @@
+// supabase/functions/match-want-lists/index.ts
+//
+// Matches collector want lists against the inventory of dealers at the shows
+// they plan to attend. Run hourly (service role):
+//   1. Upgrades free-text want lists that haven't been parsed into
+//      `want_list_items` yet (`want_lists.structured_at IS NULL`).
+//   2. Calls `refresh_want_list_matches()`, which records new matches and
+//      notifies both sides.
+// POST `{ "show_id": "..." }` to refresh a single show.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { parseWantList } from "../_shared/wantListParser.ts";
+
+interface WantListRow {
+  id: string;
+  userid: string;
+  content: string | null;
+}
+
+// Lists upgraded per run; the rest are picked up next time
+const UPGRADE_BATCH_SIZE = 200;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let showId: string | null = null;
+    if (req.method === "POST") {
+      const body = await req.json().catch(() => ({}));
+      showId = typeof body?.show_id === "string" ? body.show_id : null;
+    }
+
+    const { data: lists, error: listsError } = await supabase
+      .from("want_lists")
+      .select("id, userid, content")
+      .is("structured_at", null)
+      .limit(UPGRADE_BATCH_SIZE);
+    if (listsError) throw new Error(listsError.message);
+
+    let upgraded = 0;
+    let upgradeFailures = 0;
+
+    for (const list of (lists ?? []) as WantListRow[]) {
+      try {
+        const { items } = parseWantList(list.content ?? "");
+
+        const { error: deleteError } = await supabase
+          .from("want_list_items")
+          .delete()
+          .eq("user_id", list.userid);
+        if (deleteError) throw new Error(deleteError.message);
+
+        if (items.length > 0) {
+          const { error: insertError } = await supabase.from("want_list_items").insert(
+            items.map((item) => ({
+              user_id: list.userid,
+              player_name: item.playerName,
+              set_name: item.setName ?? null,
+              year: item.year ?? null,
+              card_number: item.cardNumber ?? null,
+              grader: item.grader ?? null,
+              min_grade: item.minGrade ?? null,
+              max_price: item.maxPrice ?? null,
+              notes: item.notes ?? null,
+              source_text: item.sourceText ?? null,
+            })),
+          );
+          if (insertError) throw new Error(insertError.message);
+        }
+
+        const { error: updateError } = await supabase
+          .from("want_lists")
+          .update({ structured_at: new Date().toISOString() })
+          .eq("id", list.id);
+        if (updateError) throw new Error(updateError.message);
+
+        upgraded++;
+      } catch (error) {
+        // Leave structured_at unset so the list is retried next run
+        console.error(`Failed to upgrade want list ${list.id}:`, error);
+        upgradeFailures++;
+      }
+    }
+
+    const { data: refresh, error: refreshError } = await supabase.rpc("refresh_want_list_matches", {
+      p_show_id: showId,
+    });
+    if (refreshError) throw new Error(refreshError.message);
+
+    return new Response(
+      JSON.stringify({
+        success: upgradeFailures === 0,
+        message: `Upgraded ${upgraded} want lists, ${refresh?.new_matches ?? 0} new matches`,
+        upgraded,
+        upgrade_failures: upgradeFailures,
+        ...(refresh ?? {}),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ success: false, message: `Unexpected error: ${error.message}` }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+    );
+  }
+});
@@ -0,0 +1,106 @@
+// supabase/functions/materialize-show-series/index.ts
+//
+// Rolls recurring series forward. Run daily (service role) so every active
+// `show_series_recurrence` always has shows materialized `horizon_days`
+// ahead. POST `{ "series_id": "..." }` to process a single series.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { expandRecurrence, parseRRule } from "../_shared/recurrence.ts";
+
+interface RecurrenceRow {
+  series_id: string;
+  rrule: string;
+  dtstart: string;
+  horizon_days: number;
+  exdates: string[] | null;
+}
+
+interface SeriesResult {
+  series_id: string;
+  created?: number;
+  updated?: number;
+  cancelled?: number;
+  error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (d: Date): string => d.toISOString().slice(0, 10);
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let seriesId: string | null = null;
+    if (req.method === "POST") {
+      const body = await req.json().catch(() => ({}));
+      seriesId = typeof body?.series_id === "string" ? body.series_id : null;
+    }
+
+    let query = supabase
+      .from("show_series_recurrence")
+      .select("series_id, rrule, dtstart, horizon_days, exdates")
+      .eq("active", true);
+    if (seriesId) query = query.eq("series_id", seriesId);
+
+    const { data: rules, error: rulesError } = await query;
+    if (rulesError) throw new Error(rulesError.message);
+
+    const today = new Date();
+    const results: SeriesResult[] = [];
+
+    for (const row of (rules ?? []) as RecurrenceRow[]) {
+      try {
+        const through = toDateKey(new Date(today.getTime() + row.horizon_days * DAY_MS));
+        const occurrences = expandRecurrence(parseRRule(row.rrule), row.dtstart, {
+          from: toDateKey(today),
+          to: through,
+          exdates: row.exdates ?? [],
+        });
+
+        const { data, error } = await supabase.rpc("materialize_show_series", {
+          p_series_id: row.series_id,
+          p_occurrences: occurrences,
+          p_through: through,
+        });
+        if (error) throw new Error(error.message);
+
+        results.push({ series_id: row.series_id, ...(data ?? {}) });
+      } catch (error) {
+        // One broken rule must not stop the other series from rolling forward
+        console.error(`Failed to materialize series ${row.series_id}:`, error);
+        results.push({ series_id: row.series_id, error: error.message ?? String(error) });
+      }
+    }
+
+    const failed = results.filter((r) => r.error).length;
+
+    return new Response(
+      JSON.stringify({
+        success: failed === 0,
+        message: `Materialized ${results.length - failed} of ${results.length} series`,
+        results,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ success: false, message: `Unexpected error: ${error.message}` }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+    );
+  }
+});
@@ -1,6 +1,15 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { isShowDateValid } from '../_shared/date-filter.ts'
+import { sha256Hex } from '../_shared/scrapeDiff.ts'
+import {
+  adjustForNormalization,
+  autoReview,
+  overallConfidence,
+  parseAutoApproveThreshold,
+  type AutoReviewInput
+} from '../_shared/extractionConfidence.ts'
 
 // Create a Supabase client with the service role key
 const getSupabaseAdmin = () => createClient(
@@ -11,6 +20,9 @@ const getSupabaseAdmin = () => createClient(
 // Batch size for processing
 const BATCH_SIZE = 50
 
+const GEOCODING_API_URL = 'https://maps.googleapis.com/maps/api/geocode/json'
+const GEOCODING_TIMEOUT_MS = 10000
+
 // State name to code mapping
 const STATE_MAPPING: Record<string, string> = {
   'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR', 'california': 'CA',
@@ -247,7 +259,7 @@ async function processPendingShows(supabase: any, limit: number = BATCH_SIZE): P
     // Get pending shows that don't have normalized_json yet
     const { data: pendingShows, error } = await supabase
       .from('scraped_shows_pending')
-      .select('id, raw_payload')
+      .select('id, raw_payload, field_confidence')
       .eq('status', 'PENDING')
       .is('normalized_json', null)
       .limit(limit);
@@ -272,11 +284,20 @@ async function processPendingShows(supabase: any, limit: number = BATCH_SIZE): P
       try {
         // Normalize the raw payload
         const normalizedData = normalizeShow(show.raw_payload);
+        const update: Record<string, any> = { normalized_json: normalizedData };
+
+        // A value quoted from the page still counts for little if it
+        // couldn't be parsed
+        if (show.field_confidence && normalizedData) {
+          const fieldConfidence = adjustForNormalization(show.field_confidence, show.raw_payload, normalizedData);
+          update.field_confidence = fieldConfidence;
+          update.confidence = overallConfidence(fieldConfidence);
+        }
         
         // Update the record
         const { error: updateError } = await supabase
           .from('scraped_shows_pending')
-          .update({ normalized_json: normalizedData })
+          .update(update)
           .eq('id', show.id);
         
         if (updateError) {
@@ -298,6 +319,215 @@ async function processPendingShows(supabase: any, limit: number = BATCH_SIZE): P
   }
 }
 
+// Geocode cache key, matching normalizeAddress() in src/services/googleGeocoder.ts
+function geocodeCacheKey(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^\w\s,.-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Address to geocode: the street address when there is one, otherwise the
+// venue in its city
+function geocodeQuery(show: any): string | null {
+  if (show.address && /\d/.test(show.address)) {
+    return show.address;
+  }
+  if (!show.city || !show.state) return null;
+  return [show.venueName, show.city, show.state].filter(Boolean).join(', ');
+}
+
+// Geocode through the shared geocode_cache, calling Google Maps on a miss.
+// Returns null when the address can't be found or no API key is set.
+async function geocodeShow(supabase: any, show: any): Promise<Record<string, any> | null> {
+  const address = geocodeQuery(show);
+  if (!address) return null;
+
+  const addressHash = await sha256Hex(address);
+
+  const { data: cached } = await supabase
+    .from('geocode_cache')
+    .select('lat, lng, formatted_address, raw')
+    .eq('address_hash', addressHash)
+    .maybeSingle();
+
+  if (cached) {
+    return {
+      latitude: cached.lat,
+      longitude: cached.lng,
+      formattedAddress: cached.formatted_address,
+      locationType: cached.raw?.geometry?.location_type || null,
+      geocodedAt: new Date().toISOString()
+    };
+  }
+
+  const apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
+  if (!apiKey) return null;
+
+  try {
+    const params = new URLSearchParams({ address, key: apiKey });
+    const response = await fetch(`${GEOCODING_API_URL}?${params}`, {
+      signal: AbortSignal.timeout(GEOCODING_TIMEOUT_MS)
+    });
+    const body = await response.json();
+
+    if (body.status !== 'OK' || !body.results?.length) {
+      console.log(`Geocoding "${address}" failed: ${body.status}`);
+      return null;
+    }
+
+    const result = body.results[0];
+    const { error: cacheError } = await supabase.rpc('geocode_cache_upsert', {
+      p_address_hash: addressHash,
+      p_address_norm: geocodeCacheKey(address),
+      p_formatted_address: result.formatted_address,
+      p_lat: result.geometry.location.lat,
+      p_lng: result.geometry.location.lng,
+      p_raw: result
+    });
+    if (cacheError) {
+      console.error(`Error caching geocode for "${address}":`, cacheError.message);
+    }
+
+    return {
+      latitude: result.geometry.location.lat,
+      longitude: result.geometry.location.lng,
+      formattedAddress: result.formatted_address,
+      locationType: result.geometry.location_type || null,
+      geocodedAt: new Date().toISOString()
+    };
+  } catch (e) {
+    console.error(`Error geocoding "${address}":`, e);
+    return null;
+  }
+}
+
+// Highest find_duplicates_for_pending score, or undefined if the check failed
+async function bestDuplicateScore(supabase: any, pendingId: string): Promise<number | undefined> {
+  const { data, error } = await supabase.rpc('find_duplicates_for_pending', {
+    p_pending_id: pendingId,
+    p_limit: 1
+  });
+
+  if (error) {
+    console.error(`Error checking duplicates for ${pendingId}:`, error.message);
+    return undefined;
+  }
+
+  return Math.max(0, ...(data || []).map((d: any) => Number(d.score)));
+}
+
+// Geocode normalized scraper rows and publish those that clear the
+// auto-approve threshold; the rest stay pending with the reasons recorded
+async function reviewPendingShows(
+  supabase: any,
+  threshold: number | null,
+  limit: number = BATCH_SIZE
+): Promise<{ reviewed: number, autoApproved: number, errors: number }> {
+  const { data: rows, error } = await supabase
+    .from('scraped_shows_pending')
+    .select('id, normalized_json, geocoded_json, field_confidence, confidence, change_type')
+    .eq('status', 'PENDING')
+    .is('auto_review', null)
+    .not('confidence', 'is', null)
+    .not('normalized_json', 'is', null)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching shows to review:', error.message);
+    return { reviewed: 0, autoApproved: 0, errors: 0 };
+  }
+
+  let reviewed = 0;
+  let autoApproved = 0;
+  let errors = 0;
+
+  for (const row of rows || []) {
+    try {
+      const show = row.normalized_json;
+
+      // Stored before the duplicate check, which compares coordinates
+      let geocoded = row.geocoded_json;
+      if (!geocoded) {
+        geocoded = await geocodeShow(supabase, show);
+        if (geocoded) {
+          await supabase
+            .from('scraped_shows_pending')
+            .update({ geocoded_json: geocoded })
+            .eq('id', row.id);
+        }
+      }
+
+      const input: AutoReviewInput = {
+        confidence: row.confidence === null ? null : Number(row.confidence),
+        fields: row.field_confidence,
+        changeType: row.change_type || 'new',
+        geocoded: !!geocoded,
+        geocodePrecise: !!geocoded && geocoded.locationType !== 'APPROXIMATE',
+        dateCheck: isShowDateValid(show.startDate, show.endDate)
+      };
+
+      let result = autoReview(input, threshold);
+      if (result.approve) {
+        const duplicateScore = await bestDuplicateScore(supabase, row.id);
+        result = duplicateScore === undefined
+          ? { approve: false, reasons: ['Duplicate check failed'] }
+          : autoReview({ ...input, duplicateScore }, threshold);
+      }
+
+      if (result.approve) {
+        const { data: approval, error: approveError } = await supabase.rpc('approve_pending_show', {
+          p_pending_id: row.id,
+          p_admin_notes: `Auto-approved (confidence ${input.confidence?.toFixed(2)}, threshold ${threshold})`
+        });
+
+        if (approveError || approval?.success === false) {
+          result = { approve: false, reasons: [`Approval failed: ${approveError?.message || approval?.error}`] };
+        } else {
+          autoApproved++;
+          if (approval?.show_id) {
+            const { error: coordError } = await supabase.rpc('set_show_coordinates', {
+              show_id: approval.show_id,
+              p_lat: geocoded.latitude,
+              p_lng: geocoded.longitude
+            });
+            if (coordError) {
+              console.error(`Error setting coordinates for show ${approval.show_id}:`, coordError.message);
+            }
+          }
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from('scraped_shows_pending')
+        .update({
+          auto_review: {
+            decision: result.approve ? 'approved' : 'held',
+            reasons: result.reasons,
+            threshold,
+            confidence: input.confidence,
+            reviewed_at: new Date().toISOString()
+          }
+        })
+        .eq('id', row.id);
+
+      if (updateError) {
+        console.error(`Error recording auto-review for ${row.id}:`, updateError.message);
+        errors++;
+      } else {
+        reviewed++;
+      }
+    } catch (e) {
+      console.error(`Error reviewing show ${row.id}:`, e);
+      errors++;
+    }
+  }
+
+  return { reviewed, autoApproved, errors };
+}
+
 // Main request handler
 serve(async (req: Request) => {
   // Handle preflight CORS requests
@@ -314,14 +544,25 @@ serve(async (req: Request) => {
     const limitParam = url.searchParams.get('limit');
     const limit = limitParam ? parseInt(limitParam) : BATCH_SIZE;
     
+    const thresholdSetting = Deno.env.get('AUTO_APPROVE_THRESHOLD');
+    const threshold = parseAutoApproveThreshold(thresholdSetting);
+    if (threshold === null && thresholdSetting && thresholdSetting.toLowerCase() !== 'off') {
+      console.warn(`AUTO_APPROVE_THRESHOLD "${thresholdSetting}" is not a number in (0, 1]; auto-approval is off`);
+    }
+    
     const supabaseAdmin = getSupabaseAdmin();
     const result = await processPendingShows(supabaseAdmin, limit);
+    const review = await reviewPendingShows(supabaseAdmin, threshold, limit);
     
     const elapsedSeconds = ((Date.now() - startTime) / 1000).toFixed(2);
     
     return new Response(JSON.stringify({
-      message: `Normalizer completed in ${elapsedSeconds}s. Processed ${result.processed} shows with ${result.errors} errors.`,
-      ...result
+      message: `Normalizer completed in ${elapsedSeconds}s. Processed ${result.processed} shows with ${result.errors} errors. ` +
+        `Auto-reviewed ${review.reviewed} shows, ${review.autoApproved} approved.`,
+      ...result,
+      reviewed: review.reviewed,
+      autoApproved: review.autoApproved,
+      reviewErrors: review.errors
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200
@@ -0,0 +1,276 @@
+// supabase/functions/public-api/index.ts
+//
+// Read-only public API for third parties (card shops, podcasts…) embedding
+// our show listings. Deployed with `verify_jwt = false`; every request must
+// send an `X-API-Key` issued from the admin API Keys screen.
+//
+//   GET /public-api/v1/shows                 ?lat&lng&radius&startDate&endDate&maxEntryFee
+//                                            &categories&features&keyword&dealerCardTypes
+//                                            &seriesId&limit&offset
+//   GET /public-api/v1/shows/:id
+//   GET /public-api/v1/shows/:id/dealers
+//   GET /public-api/v1/series                ?limit&offset
+//   GET /public-api/v1/series/:id            (includes upcoming shows)
+//
+// Requests pass through the shared WAF, then per-key quotas (requests per
+// minute and per day) enforced with the shared rate limiter.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { ApiKeyRow, checkApiKeyQuotas, hashApiKey } from "../_shared/apiKeys.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getRateLimiter } from "../_shared/rate-limit.ts";
+import { getWAF, WafProtectionLevel } from "../_shared/waf.ts";
+
+const API_VERSION = "v1";
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      "Cache-Control": status === 200 ? "public, max-age=60" : "no-store",
+      ...headers,
+    },
+  });
+
+/* ------------------------------------------------------------------
+ * Query parameter parsing
+ * ---------------------------------------------------------------- */
+
+const listParam = (params: URLSearchParams, name: string): string[] | null => {
+  const values = params
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : null;
+};
+
+const numberParam = (params: URLSearchParams, name: string): number | null => {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new ApiError(400, `${name} must be a number`);
+  return value;
+};
+
+const dateParam = (params: URLSearchParams, name: string): string | null => {
+  const raw = params.get(name);
+  if (!raw) return null;
+  if (!DATE_PATTERN.test(raw) || Number.isNaN(Date.parse(raw))) {
+    throw new ApiError(400, `${name} must be a date (YYYY-MM-DD)`);
+  }
+  return raw;
+};
+
+const uuidParam = (value: string | null, name: string): string | null => {
+  if (!value) return null;
+  if (!UUID_PATTERN.test(value)) throw new ApiError(400, `${name} must be a UUID`);
+  return value;
+};
+
+const pageParams = (params: URLSearchParams) => {
+  const limit = numberParam(params, "limit") ?? DEFAULT_PAGE_SIZE;
+  const offset = numberParam(params, "offset") ?? 0;
+  return {
+    limit: Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE),
+    offset: Math.max(Math.floor(offset), 0),
+  };
+};
+
+/* ------------------------------------------------------------------
+ * Handlers
+ * ---------------------------------------------------------------- */
+
+const listShows = async (supabase: SupabaseClient, params: URLSearchParams) => {
+  const latitude = numberParam(params, "lat");
+  const longitude = numberParam(params, "lng");
+  if ((latitude === null) !== (longitude === null)) {
+    throw new ApiError(400, "lat and lng must be given together");
+  }
+
+  const { limit, offset } = pageParams(params);
+  const { data, error } = await supabase.rpc("public_api_search_shows", {
+    p_latitude: latitude,
+    p_longitude: longitude,
+    p_radius_miles: numberParam(params, "radius") ?? 25,
+    p_start_date: dateParam(params, "startDate"),
+    p_end_date: dateParam(params, "endDate"),
+    p_max_entry_fee: numberParam(params, "maxEntryFee"),
+    p_categories: listParam(params, "categories"),
+    p_features: listParam(params, "features"),
+    p_keyword: params.get("keyword")?.trim() || null,
+    p_dealer_card_types: listParam(params, "dealerCardTypes"),
+    p_series_id: uuidParam(params.get("seriesId"), "seriesId"),
+    p_limit: limit,
+    p_offset: offset,
+  });
+  if (error) throw new Error(error.message);
+
+  return {
+    data: data?.data ?? [],
+    pagination: { total: data?.total ?? 0, limit, offset },
+  };
+};
+
+const getShow = async (supabase: SupabaseClient, showId: string) => {
+  const { data, error } = await supabase.rpc("public_api_get_show", { p_show_id: showId });
+  if (error) throw new Error(error.message);
+  if (!data) throw new ApiError(404, "Show not found");
+  return { data };
+};
+
+const getShowDealers = async (supabase: SupabaseClient, showId: string) => {
+  const { data, error } = await supabase.rpc("public_api_show_dealers", { p_show_id: showId });
+  if (error) throw new Error(error.message);
+  return { data: data ?? [] };
+};
+
+const mapSeries = (row: any) => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? null,
+  averageRating: row.average_rating !== null ? Number(row.average_rating) : null,
+  reviewCount: row.review_count ?? 0,
+});
+
+const listSeries = async (supabase: SupabaseClient, params: URLSearchParams) => {
+  const { limit, offset } = pageParams(params);
+  const { data, error, count } = await supabase
+    .from("show_series")
+    .select("id, name, description, average_rating, review_count", { count: "exact" })
+    .order("name")
+    .range(offset, offset + limit - 1);
+  if (error) throw new Error(error.message);
+
+  return {
+    data: (data ?? []).map(mapSeries),
+    pagination: { total: count ?? 0, limit, offset },
+  };
+};
+
+const getSeries = async (supabase: SupabaseClient, seriesId: string) => {
+  const { data, error } = await supabase
+    .from("show_series")
+    .select("id, name, description, average_rating, review_count")
+    .eq("id", seriesId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new ApiError(404, "Series not found");
+
+  const { data: shows, error: showsError } = await supabase.rpc("public_api_search_shows", {
+    p_series_id: seriesId,
+    p_limit: MAX_PAGE_SIZE,
+  });
+  if (showsError) throw new Error(showsError.message);
+
+  return { data: { ...mapSeries(data), upcomingShows: shows?.data ?? [] } };
+};
+
+const route = (supabase: SupabaseClient, segments: string[], params: URLSearchParams) => {
+  const [resource, id, sub] = segments;
+
+  if (resource === "shows") {
+    if (!id) return listShows(supabase, params);
+    const showId = uuidParam(id, "show id") as string;
+    if (!sub) return getShow(supabase, showId);
+    if (sub === "dealers" && segments.length === 3) return getShowDealers(supabase, showId);
+  }
+
+  if (resource === "series" && segments.length <= 2) {
+    if (!id) return listSeries(supabase, params);
+    return getSeries(supabase, uuidParam(id, "series id") as string);
+  }
+
+  throw new ApiError(404, "Unknown endpoint");
+};
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const wafResponse = await getWAF().protect(req, WafProtectionLevel.MEDIUM);
+    if (wafResponse) return wafResponse;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Resolve the API key
+    const apiKey = req.headers.get("X-API-Key")?.trim();
+    if (!apiKey) {
+      return jsonResponse({ error: "Missing X-API-Key header" }, 401);
+    }
+
+    const { data: keyRow, error: keyError } = await supabase
+      .from("api_keys")
+      .select("id, name, requests_per_minute, daily_quota")
+      .eq("key_hash", await hashApiKey(apiKey))
+      .is("revoked_at", null)
+      .maybeSingle();
+    if (keyError) throw new Error(keyError.message);
+    if (!keyRow) {
+      return jsonResponse({ error: "Invalid or revoked API key" }, 401);
+    }
+    const key = keyRow as ApiKeyRow;
+
+    // Per-key quotas: a burst limit and a daily quota
+    const rateLimiter = getRateLimiter();
+    const quota = await checkApiKeyQuotas(rateLimiter, key);
+
+    if (!quota.allowed) {
+      return rateLimiter.addRateLimitHeaders(
+        jsonResponse({ error: quota.errorMessage, retryAfter: quota.result.retryAfter }, 429),
+        quota.result,
+      );
+    }
+
+    // Best effort – usage tracking must not fail the request
+    supabase
+      .from("api_keys")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", key.id)
+      .then(({ error }) => error && console.error("Failed to update last_used_at:", error));
+
+    // Route: /public-api/<version>/<resource>[/<id>[/<sub>]]
+    const url = new URL(req.url);
+    const segments = url.pathname.split("/").filter(Boolean);
+    const versionIndex = segments.findIndex((segment) => /^v\d+$/.test(segment));
+    if (versionIndex === -1 || segments[versionIndex] !== API_VERSION) {
+      return jsonResponse({ error: `Unsupported API version; use /${API_VERSION}/` }, 404);
+    }
+
+    const body = await route(supabase, segments.slice(versionIndex + 1), url.searchParams);
+
+    return rateLimiter.addRateLimitHeaders(jsonResponse(body), quota.result);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("Unexpected error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,110 @@
+// supabase/functions/queue-weekly-digests/index.ts
+//
+// Renders the weekly digest for every user whose send day has come round and
+// queues it in `email_notifications` for scripts/send-pending-emails.js to
+// deliver. Run hourly (service role); see `get_due_weekly_digests()`.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { isDigestEmpty, renderWeeklyDigest, WeeklyDigestContent } from "../_shared/weeklyDigest.ts";
+
+interface DueDigest {
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  unsubscribe_token: string;
+  timezone: string;
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+    const appUrl = Deno.env.get("APP_URL") || undefined;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: due, error: dueError } = await supabase.rpc("get_due_weekly_digests");
+    if (dueError) throw new Error(dueError.message);
+
+    let queued = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const user of (due ?? []) as DueDigest[]) {
+      try {
+        const { data: content, error: contentError } = await supabase.rpc("get_weekly_digest_content", {
+          p_user_id: user.user_id,
+        });
+        if (contentError) throw new Error(contentError.message);
+
+        // Nothing worth an email this week; try again next send day
+        if (!content || isDigestEmpty(content as WeeklyDigestContent)) {
+          skipped++;
+          await supabase
+            .from("email_digest_preferences")
+            .update({ last_sent_at: new Date().toISOString() })
+            .eq("user_id", user.user_id);
+          continue;
+        }
+
+        const unsubscribeUrl =
+          `${supabaseUrl}/functions/v1/email-digest-unsubscribe?token=${user.unsubscribe_token}`;
+        const digest = renderWeeklyDigest(content as WeeklyDigestContent, {
+          firstName: user.first_name,
+          unsubscribeUrl,
+          appUrl,
+          timeZone: user.timezone,
+        });
+
+        const { error: insertError } = await supabase.from("email_notifications").insert({
+          recipient_email: user.email,
+          user_id: user.user_id,
+          template: "weekly_digest",
+          subject: digest.subject,
+          body: digest.text,
+          html_body: digest.html,
+          unsubscribe_url: unsubscribeUrl,
+          status: "PENDING",
+        });
+        if (insertError) throw new Error(insertError.message);
+
+        await supabase
+          .from("email_digest_preferences")
+          .update({ last_sent_at: new Date().toISOString() })
+          .eq("user_id", user.user_id);
+
+        queued++;
+      } catch (error) {
+        failed++;
+        console.error(`Failed to queue digest for ${user.user_id}:`, error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `${queued} digests queued, ${skipped} empty, ${failed} failed`,
+        queued,
+        skipped,
+        failed,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ success: false, message: `Unexpected error: ${error.message}` }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+    );
+  }
+});
@@ -0,0 +1,44 @@
+// supabase/functions/run-saved-search-watches/index.ts
+//
+// Runs every watched filter preset against newly published shows and sends
+// the digests that are due (instant, daily or weekly per watch). Run hourly
+// (service role); see `run_saved_search_watches()`.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { corsHeaders } from "../_shared/cors.ts";
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: result, error } = await supabase.rpc("run_saved_search_watches");
+    if (error) throw new Error(error.message);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `${result?.new_matches ?? 0} new matches, ${result?.digests_sent ?? 0} digests sent`,
+        ...(result ?? {}),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ success: false, message: `Unexpected error: ${error.message}` }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+    );
+  }
+});
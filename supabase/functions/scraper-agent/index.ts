@@ -6,282 +6,47 @@ import {
   isShowDateValid,
   logDateFilterResult
 } from '../_shared/date-filter.ts'
-
-const AI_MODEL = 'gemini-1.5-flash'
-const BATCH_SIZE = 7 // Process 7 URLs with highest priority each run
+// Extractor registry: site parsers, JSON-LD / tables, then Gemini
+import {
+  extractShows,
+  parseSimpleHours
+} from '../_shared/extractors/index.ts'
+// Change detection: page hashes and per-source show snapshots
+import {
+  diffShows,
+  hashPageContent,
+  toExtractedShow,
+  type ExtractedShow,
+  type ShowSnapshot
+} from '../_shared/scrapeDiff.ts'
+// Crawl budget allocation and failure backoff
+import {
+  backoffDelayMs,
+  planCrawl,
+  shouldDisable,
+  type SourceStats
+} from '../_shared/sourceScheduler.ts'
+// Per-field confidence: was each value read off the page or guessed?
+import {
+  overallConfidence,
+  scoreFields,
+  sourceText
+} from '../_shared/extractionConfidence.ts'
+
+const BATCH_SIZE = 7 // Crawl budget per run, allocated by planCrawl
+const HEALTH_WINDOW_DAYS = 90 // History the scheduler judges yield on
+const SAMPLE_SHOWS = 10 // Shows kept in each source's extraction sample
 const TIMEOUT_MS = 25000 // 25 second timeout for fetch operations
 
-// --- NEW CONSTANTS for chunk-based AI extraction ---------------------------
-const AI_TIMEOUT_MS = 30000   // 30s per AI request (Gemini)
-const MAX_HTML_SIZE  = 100_000 // 100 KB per chunk sent to AI
-const MAX_CHUNKS     = 3       // fail-safe: never send more than 3 chunks
-
-// Helper functions for DPMS Indiana card shows
-function isLikelyHours(text: string): boolean {
-  if (!text) return false;
-  // Check for time range pattern (e.g., "8-2", "10:30am-4pm")
-  const timeRangePattern = /\b(1[0-2]|[1-9])(:[0-5][0-9])?\s*(am|pm)?\s*(?:[-–—]|to)\s*(1[0-2]|[1-9])(:[0-5][0-9])?\s*(am|pm)?\b/i;
-  // Check for day of week followed by time
-  const dayTimePattern = /\b(mon|tue|wed|thu|fri|sat|sun|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\s+\d/i;
-  return timeRangePattern.test(text) || dayTimePattern.test(text);
-}
-
-function parseSimpleHours(text: string): { startTime: string|null; endTime: string|null } {
-  if (!text) return { startTime: null, endTime: null };
-
-  // Reject multi-range strings (contains comma or semicolon)
-  if (/[,;]/.test(text)) {
-    return { startTime: null, endTime: null };
-  }
-
-  // Normalize unicode dashes
-  const norm = text.replace(/[–—]/g, '-').toLowerCase().trim();
-
-  // Try explicit am/pm first
-  const ampmRegex = /\b(\d{1,2}(?::\d{2})?\s*(?:am|pm))\s*(?:-|to|until)\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm))\b/;
-  const m1 = norm.match(ampmRegex);
-  if (m1) {
-    return { startTime: m1[1], endTime: m1[2] };
-  }
-
-  // Fallback "8-2" or "9:30-2:30"
-  const simpleRegex = /\b(\d{1,2}(?::\d{2})?)\s*-\s*(\d{1,2}(?::\d{2})?)\b/;
-  const m2 = norm.match(simpleRegex);
-  if (!m2) return { startTime: null, endTime: null };
-
-  const pad = (val: string) => val.includes(':') ? val : `${val}:00`;
-
-  const startRaw = pad(m2[1]);
-  const endRaw = pad(m2[2]);
-
-  // Assume start am, end pm if not specified
-  const toAmPm = (t: string, isEnd: boolean) => {
-    const [h, mins] = t.split(':').map(Number);
-    const meridian =
-      h >= 1 && h <= 6 ? (isEnd ? 'pm' : 'am')
-      : h >= 7 && h <= 11 ? (isEnd ? 'pm' : 'am')
-      : h === 12 ? (isEnd ? 'pm' : 'pm')
-      : 'am';
-    return `${h}:${mins.toString().padStart(2, '0')}${meridian}`;
-  };
-
-  return {
-    startTime: toAmPm(startRaw, false),
-    endTime: toAmPm(endRaw, true)
-  };
-}
-
-function parseDpmsIndianaHtml(html: string, sourceUrl: string): Array<{
-  name: string|null;
-  startDate: string;
-  endDate: string;
-  venueName: string|null;
-  address: string|null;
-  city: string|null;
-  state: 'IN';
-  zipCode?: string|null;
-  showHours?: string|null;
-  contactInfo?: string;
-  entryFee?: string;
-  url: string;
-}> {
-  // Entity replacements
-  let text = html
-    .replace(/&ndash;|&mdash;|&#8211;|&#8212;/g, '-')
-    .replace(/&ldquo;|&rdquo;|&#8220;|&#8221;/g, '"')
-    .replace(/&lsquo;|&rsquo;|&#8216;|&#8217;/g, "'")
-    .replace(/&nbsp;/g, ' ')
-    .replace(/<br\s*\/?>/gi, '\n')
-    .replace(/<\/p>|<\/div>|<\/li>/gi, '\n')
-    .replace(/<[^>]*>/g, ' ');
-
-  text = text
-    .replace(/\r/g, '')
-    .replace(/\n{2,}/g, '\n')
-    .split('\n')
-    .map((l) => l.trim())
-    .filter(Boolean)
-    .join('\n');
-
-  const lines = text.split('\n');
-  const monthRe = /^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)/i;
-  const showLines = lines.filter(
-    (l) => monthRe.test(l) && /[-–—]/.test(l) && /,/.test(l)
-  );
-
-  const MONTH_MAP: Record<string, number> = {
-    jan: 0, january: 0,
-    feb: 1, february: 1,
-    mar: 2, march: 2,
-    apr: 3, april: 3,
-    may: 4,
-    jun: 5, june: 5,
-    jul: 6, july: 6,
-    aug: 7, august: 7,
-    sep: 8, sept: 8, september: 8,
-    oct: 9, october: 9,
-    nov: 10, november: 10,
-    dec: 11, december: 11
-  };
-
-  const ASSUME_YEAR = 2025;
-
-  const parseDateRange = (str: string) => {
-    str = str.replace(/(\d+)(st|nd|rd|th)/gi, '$1').trim();
-    const hasRange = /[-–—]| to /i.test(str);
-    if (!hasRange) {
-      const d = parseSingle(str);
-      return d ? { start: d, end: d } : null;
-    }
-    const [a, b] = str.split(/[-–—]| to /i).map((s) => s.trim());
-    const start = parseSingle(a);
-    if (!start) return null;
-    let end = parseSingle(b);
-    if (!end) {
-      const month = a.match(/^([a-z]+)/i)?.[1];
-      if (month) {
-        end = parseSingle(`${month} ${b}`);
-      }
-    }
-    return end ? { start, end } : null;
-  };
-
-  const parseSingle = (str: string) => {
-    const mm = str.match(/^([a-z]+)/i);
-    if (!mm?.[1]) return null;
-    const month = MONTH_MAP[mm[1].toLowerCase()];
-    if (month === undefined) return null;
-    
-    const dayMatch = str.match(/(\d{1,2})/);
-    if (!dayMatch?.[1]) return null;
-    
-    const day = Number(dayMatch[1]);
-    return new Date(ASSUME_YEAR, month, day);
-  };
-
-  const shows: Array<{
-    name: string|null;
-    startDate: string;
-    endDate: string;
-    venueName: string|null;
-    address: string|null;
-    city: string|null;
-    state: 'IN';
-    zipCode?: string|null;
-    showHours?: string|null;
-    contactInfo?: string;
-    entryFee?: string;
-    url: string;
-  }> = [];
-  
-  const seen = new Set<string>();
-
-  for (const line of showLines) {
-    const dateMatch = line.match(
-      /^(\s*[A-Za-z]+\s+\d{1,2}(?:st|nd|rd|th)?(?:\s*(?:-|–|—|to)\s*\d{1,2}(?:st|nd|rd|th)?)?)/
-    );
-    if (!dateMatch) continue;
-
-    const dateInfo = parseDateRange(dateMatch[1]);
-    if (!dateInfo) continue;
-
-    let remaining = line.slice(dateMatch[0].length).trim();
-
-    const locEnd = remaining.indexOf('(') > -1 ? remaining.indexOf('(') : remaining.length;
-    const locPart = remaining.slice(0, locEnd).replace(/^[–—-]\s*/, '').trim();
-    const segs = locPart.split(/\s[–—-]\s/).map((s) => s.trim());
-
-    let city = '', venue = '', address = '';
-    if (segs.length >= 2) {
-      const cv = segs[0];
-      address = segs.slice(1).join(' - ');
-      const comma = cv.indexOf(',');
-      if (comma > -1) {
-        city = cv.slice(0, comma).trim();
-        venue = cv.slice(comma + 1).trim().replace(/^["']|["']$/g, '');
-      } else {
-        city = cv.trim();
-      }
-    }
-
-    if (!city && locPart.includes(',')) {
-      city = locPart.split(',')[0].trim();
-    }
-
-    // Hours
-    const hoursTokens: string[] = [];
-    const hrRe = /\(([^)]+)\)/g;
-    let m: RegExpExecArray | null;
-    while ((m = hrRe.exec(remaining)) !== null) {
-      if (isLikelyHours(m[1])) hoursTokens.push(m[1]);
-    }
-    const hours = hoursTokens
-      .map((t) => t.replace(/[–—]/g, '-').replace(/\s+/g, ' ').trim())
-      .join(', ');
-
-    // Contact
-    let contactInfo = '';
-    const phoneRe = /\(?\s*(\d{3})\s*\)?[-\s]?(\d{3})[-\s]?(\d{4})/;
-    const pMatch = phoneRe.exec(remaining);
-    if (pMatch) {
-      const phoneFmt = `(${pMatch[1]}) ${pMatch[2]}-${pMatch[3]}`;
-      const nameCtx = remaining.slice(
-        Math.max(0, pMatch.index - 60),
-        pMatch.index
-      );
-      const nameRe =
-        /([A-Z][a-zA-Z.'-]{2,}(?:\s+[A-Z][a-zA-Z.'-]{2,}){0,2})\s*$/;
-      const nm = nameRe.exec(nameCtx);
-      const stop = new Set([
-        'Street','St','St.','Drive','Dr','Dr.','Road','Rd','Rd.',
-        'Avenue','Ave','Ave.','Boulevard','Blvd','Blvd.','Way','Lane','Ln','Ln.',
-        'Court','Ct','Ct.','East','West','North','South','E','W','N','S',
-        'Main','Division','Taylor','Carroll','Hunter','Wabash','Victory','Field',
-        'Bronco','Votaw','Sample','Jefferson','Robbins'
-      ]);
-      let name = '';
-      if (nm) {
-        const parts = nm[1].split(/\s+/).filter((w) => !stop.has(w));
-        if (parts.length >= 2) {
-          name = `${parts[parts.length - 2]} ${parts[parts.length - 1]}`;
-        } else if (parts.length === 1) {
-          name = parts[0];
-        }
-      }
-      contactInfo = name ? `${name} ${phoneFmt}` : phoneFmt;
-    }
-
-    const key = `${city}|${address}|${dateInfo.start.toISOString().slice(0,10)}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-
-    shows.push({
-      name: city || null,
-      startDate: dateInfo.start.toISOString().split('T')[0],
-      endDate: dateInfo.end.toISOString().split('T')[0],
-      venueName: venue || null,
-      address: address || null,
-      city: city || null,
-      state: 'IN',
-      zipCode: null,
-      showHours: hours || null,
-      contactInfo,
-      entryFee: 'free',
-      url: sourceUrl
-    });
-  }
-
-  return shows;
-}
-
 // Create a Supabase client with the service role key for admin access
 const getSupabaseAdmin = () => createClient(
   Deno.env.get('SUPABASE_URL') || '',
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
 )
 
-// Function to get the highest priority URLs to process
-// If `stateFilter` is provided, only return sources matching that state
+// Sources to crawl this run: enabled ones that aren't backing off, with the
+// batch budget allocated by yield and time since last crawl.
+// If `stateFilter` is provided, only sources matching that state are considered
 async function getUrlsToProcess(
   supabase: any,
   batchSize: number,
@@ -290,11 +55,11 @@ async function getUrlsToProcess(
   try {
     let query = supabase
       .from('scraping_sources')
-      .select('url')
+      .select('url, priority_score')
       .eq('enabled', true)
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
       .order('priority_score', { ascending: false })
-      .order('last_success_at', { ascending: true, nullsFirst: true })
-      .limit(batchSize);
+      .order('last_success_at', { ascending: true, nullsFirst: true });
 
     // Apply state filtering if provided
     if (stateFilter) {
@@ -308,8 +73,31 @@ async function getUrlsToProcess(
       console.error('Error fetching URLs:', error.message);
       return [];
     }
-    
-    return data.map((row: any) => row.url);
+
+    const { data: health, error: healthError } = await supabase.rpc(
+      'get_scraping_source_health',
+      { p_days: HEALTH_WINDOW_DAYS }
+    );
+
+    if (healthError) {
+      // Still crawl something: fall back to plain priority order
+      console.error('Error fetching source health, using priority order:', healthError.message);
+      return data.slice(0, batchSize).map((row: any) => row.url);
+    }
+
+    const healthByUrl = new Map((health || []).map((row: any) => [row.url, row]));
+    const candidates: SourceStats[] = data.map((row: any) => {
+      const stats: any = healthByUrl.get(row.url) || {};
+      return {
+        url: row.url,
+        priorityScore: row.priority_score ?? 50,
+        lastCrawledAt: stats.last_crawled_at ?? null,
+        crawlCount: stats.crawl_count ?? 0,
+        approvedCount: stats.approved_count ?? 0
+      };
+    });
+
+    return planCrawl(candidates, batchSize, new Date());
   } catch (e) {
     console.error('Exception fetching URLs:', e.message);
     return [];
@@ -321,7 +109,8 @@ async function updateScrapingSourceStats(
   supabase: any, 
   url: string, 
   success: boolean, 
-  showCount: number = 0
+  showCount: number = 0,
+  errorMessage?: string
 ): Promise<void> {
   try {
     const updates: any = {
@@ -331,6 +120,7 @@ async function updateScrapingSourceStats(
     if (success) {
       updates.last_success_at = new Date().toISOString();
       updates.error_streak = 0;
+      updates.next_attempt_at = null;
 
       /* ------------------------------------------------------------------
          NOTE: supabase.rpc(...) returns a promise -> { data, error }.
@@ -360,6 +150,16 @@ async function updateScrapingSourceStats(
         console.error(`[${url}] – RPC increment_error_streak failed: ${streakErr.message}`);
       } else if (typeof newStreak === 'number') {
         updates.error_streak = newStreak;
+
+        // Back off exponentially, and give up once the source keeps failing
+        updates.next_attempt_at = new Date(Date.now() + backoffDelayMs(newStreak)).toISOString();
+        if (shouldDisable(newStreak)) {
+          updates.enabled = false;
+          updates.disabled_at = new Date().toISOString();
+          updates.disabled_reason =
+            `Disabled after ${newStreak} consecutive failures${errorMessage ? `: ${errorMessage}` : ''}`;
+          console.warn(`[${url}] – Disabled after ${newStreak} consecutive failures`);
+        }
       }
 
       // Decrease priority for errors
@@ -387,279 +187,227 @@ async function updateScrapingSourceStats(
   }
 }
 
-// Enhanced AI prompt for better extraction
-function buildAIPrompt(html: string, sourceUrl: string): string {
-  return `
-You are a specialized card show event extractor. Your task is to analyze the HTML content from ${sourceUrl} and extract all trading card show events into a valid JSON array.
-
-Each event object MUST have these keys (use null if information is missing):
-{
-  "name": "Full event name/title",
-  "startDate": "Start date in any format you find (will be normalized later)",
-  "endDate": "End date if multi-day event, otherwise same as start date",
-  "venueName": "Name of venue/location",
-  "address": "Full address if available",
-  "city": "City name",
-  "state": "State abbreviation (2 letters) or full name",
-  "entryFee": "Entry fee as number or text",
-  "description": "Event description if available",
-  "url": "Direct link to event details if available, otherwise use source URL",
-  "contactInfo": "Promoter/contact information if available"
+// Page fingerprint from the last successful run
+interface SourceFingerprint {
+  content_hash: string | null;
+  http_etag: string | null;
+  http_last_modified: string | null;
+}
+
+interface ProcessResult {
+  success: boolean;
+  showCount: number;
+  unchanged?: boolean;
+  error?: string;
+  extractor?: string | null;
+  showsFound?: number;
+  changes?: { new: number; changed: number; removed: number; unchanged: number };
+}
+
+async function getSourceFingerprint(supabase: any, url: string): Promise<SourceFingerprint | null> {
+  const { data, error } = await supabase
+    .from('scraping_sources')
+    .select('content_hash, http_etag, http_last_modified')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[${url}] - Error loading page fingerprint: ${error.message}`);
+    return null;
+  }
+  return data;
+}
+
+async function saveSourceFingerprint(
+  supabase: any,
+  url: string,
+  updates: Partial<SourceFingerprint> & { last_changed_at?: string }
+): Promise<void> {
+  const { error } = await supabase
+    .from('scraping_sources')
+    .update({ ...updates, last_checked_at: new Date().toISOString() })
+    .eq('url', url);
+
+  if (error) {
+    console.error(`[${url}] - Error saving page fingerprint: ${error.message}`);
+  }
 }
 
-IMPORTANT RULES:
-1. Only extract ACTUAL CARD SHOW EVENTS. Ignore unrelated content.
-2. For tables or lists of events, extract EACH event separately.
-3. If dates appear as ranges like "January 5-6, 2025", create a single event with proper start/end dates.
-4. If multiple shows occur at same venue on different dates, create separate entries for each date.
-5. Normalize state names to standard 2-letter codes when possible.
-6. Extract as much detail as possible, but it's better to return partial information than nothing.
-7. ONLY output the valid JSON array of events. No explanations or markdown.
-
-HTML CONTENT:
-${html}
-`;
+// Older unreviewed rows for the same show are replaced by the new one
+async function supersedePendingRows(supabase: any, url: string, showKeys: string[]): Promise<void> {
+  if (showKeys.length === 0) return;
+
+  const { error } = await supabase
+    .from('scraped_shows_pending')
+    .update({
+      status: 'DUPLICATE',
+      admin_notes: 'Superseded by a later scrape of the same listing',
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('source_url', url)
+    .eq('status', 'PENDING')
+    .in('show_key', showKeys);
+
+  if (error) {
+    console.error(`[${url}] - Error superseding pending rows: ${error.message}`);
+  }
 }
 
-// ---------------------------------------------------------------------------
-// Specialised prompt for Sports Collectors Digest (state-organised listings)
-// ---------------------------------------------------------------------------
-function buildSCDPrompt(html: string, stateNote = ''): string {
-  return `
-You are a specialized card-show event extractor. The HTML is from Sports Collectors Digest.
-The calendar is organised by STATE headings in UPPERCASE (e.g. ALABAMA, ARIZONA).
-Extract EVERY show listing beneath those headings.
-${stateNote ? `NOTE: This chunk mostly contains states: ${stateNote}` : ''}
-
-Output ONLY a JSON array, each object with:
-  name, startDate, endDate, venueName, address, city, state, entryFee,
-  description, url, contactInfo
-
-Important:
-• Use the state heading when populating "state".
-• If a date is a range like "Jan 5-6 2025" set startDate / endDate accordingly.
-• One list/bullet/paragraph = one event.
-• No markdown, no extra text.
-
-HTML:
-${html}
-`;
+// Latest extraction sample per source, for the source health dashboard.
+// Flagged is_sample so data-processor never publishes it.
+async function saveExtractionSample(
+  supabase: any,
+  url: string,
+  extractor: string | null,
+  shows: unknown[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('raw_ai_responses')
+    .delete()
+    .eq('source_url', url)
+    .eq('is_sample', true);
+
+  if (deleteError) {
+    console.error(`[${url}] - Error clearing old extraction sample: ${deleteError.message}`);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('raw_ai_responses')
+    .insert({
+      source_url: url,
+      ai_response_text: JSON.stringify(shows.slice(0, SAMPLE_SHOWS), null, 2),
+      extractor,
+      show_count: shows.length,
+      is_sample: true
+    });
+
+  if (error) {
+    console.error(`[${url}] - Error saving extraction sample: ${error.message}`);
+  }
+}
+
+// One row per source per run, for yield and error history
+async function recordRun(
+  supabase: any,
+  url: string,
+  result: ProcessResult,
+  durationMs: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('scraping_source_runs')
+    .insert({
+      source_url: url,
+      status: !result.success ? 'error' : result.unchanged ? 'unchanged' : 'success',
+      extractor: result.extractor ?? null,
+      shows_found: result.showsFound ?? 0,
+      shows_queued: result.showCount,
+      error_message: result.error ?? null,
+      duration_ms: durationMs
+    });
+
+  if (error) {
+    console.error(`[${url}] - Error recording run: ${error.message}`);
+  }
 }
 
 // Process a single URL
-async function processUrl(supabase: any, url: string): Promise<{ success: boolean; showCount: number }> {
+async function processUrl(
+  supabase: any,
+  url: string,
+  force = false
+): Promise<ProcessResult> {
   console.log(`[${url}] - Processing...`);
-  
+
   try {
-    // Fetch the page HTML
-    const pageResponse = await fetch(url, { 
+    const fingerprint = force ? null : await getSourceFingerprint(supabase, url);
+
+    // Fetch the page HTML, letting the server answer 304 when nothing changed
+    const pageResponse = await fetch(url, {
       signal: AbortSignal.timeout(TIMEOUT_MS),
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+        ...(fingerprint?.http_etag ? { 'If-None-Match': fingerprint.http_etag } : {}),
+        ...(fingerprint?.http_last_modified ? { 'If-Modified-Since': fingerprint.http_last_modified } : {})
       }
     });
-    
+
+    if (pageResponse.status === 304) {
+      console.log(`[${url}] - Not modified (HTTP 304). Skipping extraction.`);
+      await saveSourceFingerprint(supabase, url, {});
+      return { success: true, showCount: 0, unchanged: true };
+    }
+
     if (!pageResponse.ok) {
       console.error(`[${url}] - HTTP Error: ${pageResponse.status} ${pageResponse.statusText}`);
-      return { success: false, showCount: 0 };
+      return { success: false, showCount: 0, error: `HTTP ${pageResponse.status} ${pageResponse.statusText}`.trim() };
     }
-    
+
     const html = await pageResponse.text();
     if (!html || html.length < 100) {
       console.error(`[${url}] - Empty or too small HTML response`);
-      return { success: false, showCount: 0 };
+      return { success: false, showCount: 0, error: 'Empty or too small HTML response' };
     }
 
-    // Check if this is the DPMS Indiana URL - use deterministic parser
-    if (url.includes('dpmsportcards.com/indiana-card-shows')) {
-      console.log(`[${url}] - Detected DPMS Indiana URL. Using deterministic parser...`);
-      
-      // Parse with custom DPMS parser
-      const rawShows = parseDpmsIndianaHtml(html, url);
-      console.log(`[${url}] - Extracted ${rawShows.length} raw shows from DPMS. Processing...`);
-      
-      // Insert each show into the pending table
-      let insertedCount = 0;
-      let filteredCount = 0;
-      
-      for (const rawShow of rawShows) {
-        // Skip shows without minimal required data
-        if (!rawShow.name || !rawShow.startDate) {
-          continue;
-        }
-        
-        // Skip shows where the date is in the past or un-parseable
-        const dateValidation = isShowDateValid(
-          rawShow.startDate,
-          rawShow.endDate
-        );
-
-        if (!dateValidation.valid) {
-          logDateFilterResult(
-            dateValidation,
-            rawShow.startDate || 'no date',
-            url
-          );
-          filteredCount++;
-          continue;
-        }
+    const validators = {
+      http_etag: pageResponse.headers.get('etag'),
+      http_last_modified: pageResponse.headers.get('last-modified')
+    };
+    const contentHash = await hashPageContent(html);
 
-        // Create normalized show with parsed hours
-        const { startTime, endTime } = parseSimpleHours(rawShow.showHours || '');
-        
-        const normalizedShow = {
-          ...rawShow,
-          startTime,
-          endTime
-        };
-
-        try {
-          const { error } = await supabase
-            .from('scraped_shows_pending')
-            .insert({
-              source_url: url,
-              raw_payload: rawShow,
-              normalized_json: normalizedShow,
-              status: 'PENDING'
-            });
-          
-          if (error) {
-            console.error(`[${url}] - Error inserting DPMS show: ${error.message}`);
-          } else {
-            insertedCount++;
-          }
-        } catch (e) {
-          console.error(`[${url}] - Exception inserting DPMS show: ${e.message}`);
-        }
-      }
-      
-      console.log(
-        `[${url}] - Successfully inserted ${insertedCount} of ${rawShows.length} DPMS shows (filtered ${filteredCount} past/invalid)`
-      );
-      return { success: true, showCount: insertedCount };
+    if (fingerprint?.content_hash === contentHash) {
+      console.log(`[${url}] - Page content unchanged since last run. Skipping extraction.`);
+      await saveSourceFingerprint(supabase, url, validators);
+      return { success: true, showCount: 0, unchanged: true };
     }
 
-    // For non-DPMS URLs, continue with AI extraction
-    console.log(`[${url}] - HTML fetched (${html.length} bytes). Chunking & extracting with AI...`);
-
-    // ---------------- AI chunk logic ------------------
-    const geminiApiKey = Deno.env.get('GOOGLE_AI_KEY');
-    if (!geminiApiKey) {
-      console.error(`[${url}] - Missing Google AI API key`);
-      return { success: false, showCount: 0 };
-    }
+    console.log(`[${url}] - HTML fetched (${html.length} bytes). Extracting...`);
 
-    const aiApiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${AI_MODEL}:generateContent?key=${geminiApiKey}`;
+    // Site-specific parser, structured data or AI (see _shared/extractors)
+    const outcome = await extractShows(html, {
+      url,
+      now: new Date(),
+      aiApiKey: Deno.env.get('GOOGLE_AI_KEY') || undefined,
+      log: (message: string) => console.log(`[${url}] - ${message}`)
+    });
 
-    // naive chunking: start / middle / end
-    const htmlChunks: {chunk: string; note: string}[] = [];
-    htmlChunks.push({ chunk: html.substring(0, MAX_HTML_SIZE),
-                      note: 'Document start' });
-    if (html.length > MAX_HTML_SIZE * 2) {
-      const midStart = Math.floor(html.length / 2) - Math.floor(MAX_HTML_SIZE / 2);
-      htmlChunks.push({ chunk: html.substring(midStart, midStart + MAX_HTML_SIZE),
-                        note: 'Document middle' });
-    }
-    if (html.length > MAX_HTML_SIZE * 3) {
-      htmlChunks.push({ chunk: html.substring(html.length - MAX_HTML_SIZE),
-                        note: 'Document end' });
+    // Not fingerprinted on failure, so the next run extracts again
+    if (outcome.shows.length === 0 && outcome.errors.length > 0) {
+      console.error(`[${url}] - Extraction failed: ${outcome.errors.join('; ')}`);
+      return { success: false, showCount: 0, error: `Extraction failed: ${outcome.errors.join('; ')}` };
     }
 
-    // limit
-    const chunksToProcess = htmlChunks.slice(0, MAX_CHUNKS);
-
-    const allShows: any[] = [];
-    const isSCD = url.includes('sportscollectorsdigest');
-
-    for (let i = 0; i < chunksToProcess.length; i++) {
-      const { chunk, note } = chunksToProcess[i];
-      const prompt = isSCD ? buildSCDPrompt(chunk, note) : buildAIPrompt(chunk, url);
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
-      let aiRespOk = false;
-      let rawText = '';
-      try {
-        const aiResp = await fetch(aiApiUrl, {
-          method: 'POST',
-          signal: controller.signal,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: { temperature: 0.2, topP: 0.8, topK: 40 }
-          })
-        });
-        clearTimeout(timeoutId);
-        if (!aiResp.ok) {
-          console.warn(`[${url}] - AI error on chunk ${i+1}: ${aiResp.status}`);
-          continue;
-        }
-        const aiJson = await aiResp.json();
-        rawText = aiJson?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
-        aiRespOk = rawText.length > 0;
-      } catch (err) {
-        console.warn(`[${url}] - AI timeout on chunk ${i+1}`);
-      }
-      if (!aiRespOk) continue;
-
-      // strip markdown fences
-      if (rawText.startsWith('```')) rawText = rawText.replace(/```[a-z]*\n?|```/g, '');
-
-      // braces fix
-      if (!rawText.startsWith('[')) {
-        const fb = rawText.indexOf('[');
-        const lb = rawText.lastIndexOf(']');
-        if (fb !== -1 && lb !== -1) rawText = rawText.slice(fb, lb + 1);
-      }
-      let showsChunk: any[] = [];
-      try {
-        showsChunk = JSON.parse(rawText);
-        if (Array.isArray(showsChunk)) {
-          allShows.push(...showsChunk);
-          console.log(`[${url}] - chunk ${i+1} ⇒ ${showsChunk.length} shows`);
-        }
-      } catch (_) { /* ignore parse issues */ }
+    if (outcome.shows.length === 0) {
+      console.log(`[${url}] - No shows found (tried ${outcome.attempted.join(', ')})`);
+    } else {
+      console.log(`[${url}] - ${outcome.extractorId} extracted ${outcome.shows.length} shows. Comparing with last run...`);
     }
 
-    if (allShows.length === 0) {
-      console.log(`[${url}] - No shows parsed from any chunk`);
-      return { success: true, showCount: 0 };
-    }
-    
-    console.log(`[${url}] - Extracted total ${allShows.length} shows. Inserting...`);
-    
-    // Insert each show into the pending table
-    let insertedCount = 0;
+    await saveExtractionSample(supabase, url, outcome.extractorId, outcome.shows);
+
+    const extracted: ExtractedShow[] = [];
     let filteredCount = 0; // shows ignored due to past/invalid dates
 
-    for (const show of allShows) {
-      // Create a standardized raw_payload
+    for (const show of outcome.shows) {
       const rawPayload = {
-        name: show.name || null,
-        startDate: show.startDate || null,
+        ...show,
         endDate: show.endDate || show.startDate || null,
-        venueName: show.venueName || null,
-        address: show.address || null,
-        city: show.city || null,
-        state: show.state || null,
-        entryFee: show.entryFee || null,
-        description: show.description || null,
         url: show.url || url,
-        contactInfo: show.contactInfo || null,
+        extractor: outcome.extractorId,
         extractedAt: new Date().toISOString()
       };
-      
+
       // Skip shows without minimal required data
-      if (!rawPayload.name || (!rawPayload.startDate && !rawPayload.date)) {
+      if (!rawPayload.name || !rawPayload.startDate) {
         continue;
       }
-      
+
       // ------------------------------------------------------------------
       // Skip shows where the date is in the past or un-parseable
       // ------------------------------------------------------------------
       const dateValidation = isShowDateValid(
-        rawPayload.startDate as string | null,
-        rawPayload.endDate as string | null
+        rawPayload.startDate,
+        rawPayload.endDate
       );
 
       if (!dateValidation.valid) {
@@ -673,15 +421,72 @@ async function processUrl(supabase: any, url: string): Promise<{ success: boolea
         continue;
       }
 
+      extracted.push(await toExtractedShow(rawPayload));
+    }
+
+    // Shows this source listed last time
+    const { data: snapshotRows, error: snapshotError } = await supabase
+      .from('scrape_source_shows')
+      .select('show_key, content_hash, payload, removed_at')
+      .eq('source_url', url);
+
+    if (snapshotError) {
+      // Without the snapshot every show would be queued again as new
+      console.error(`[${url}] - Error loading previous shows: ${snapshotError.message}`);
+      return { success: false, showCount: 0, error: `Error loading previous shows: ${snapshotError.message}` };
+    }
+
+    const previous: ShowSnapshot[] = (snapshotRows || []).map((row: any) => ({
+      showKey: row.show_key,
+      contentHash: row.content_hash,
+      payload: row.payload,
+      removedAt: row.removed_at
+    }));
+    const isUpcoming = (payload: Record<string, any>) =>
+      isShowDateValid(payload.startDate, payload.endDate).valid;
+    const diff = diffShows(previous, extracted, { isUpcoming });
+
+    const pendingRows = [
+      ...diff.added.map((show) => ({ show, changeType: 'new', previousPayload: null })),
+      ...diff.changed.map(({ current, previous }) => ({
+        show: current,
+        changeType: 'changed',
+        previousPayload: previous.payload
+      }))
+    ];
+
+    await supersedePendingRows(supabase, url, [
+      ...pendingRows.map(({ show }) => show.showKey),
+      ...diff.removed.map((snapshot) => snapshot.showKey)
+    ]);
+
+    // Insert each new or changed show into the pending table
+    let insertedCount = 0;
+    const pageText = sourceText(html);
+
+    for (const { show, changeType, previousPayload } of pendingRows) {
+      // Structured extractors already produce clean fields; the normalizer
+      // only picks up rows without normalized_json
+      const normalizedJson = outcome.structured
+        ? { ...show.payload, ...parseSimpleHours(show.payload.showHours || '') }
+        : null;
+      const fieldConfidence = scoreFields(show.payload, pageText, { structured: outcome.structured });
+
       try {
         const { error } = await supabase
           .from('scraped_shows_pending')
           .insert({
             source_url: url,
-            raw_payload: rawPayload,
+            raw_payload: show.payload,
+            ...(normalizedJson ? { normalized_json: normalizedJson } : {}),
+            change_type: changeType,
+            show_key: show.showKey,
+            previous_payload: previousPayload,
+            field_confidence: fieldConfidence,
+            confidence: overallConfidence(fieldConfidence),
             status: 'PENDING'
           });
-        
+
         if (error) {
           console.error(`[${url}] - Error inserting show: ${error.message}`);
         } else {
@@ -692,14 +497,96 @@ async function processUrl(supabase: any, url: string): Promise<{ success: boolea
       }
     }
 
+    // Upcoming shows that dropped off the source
+    for (const snapshot of diff.removed) {
+      const { error } = await supabase
+        .from('scraped_shows_pending')
+        .insert({
+          source_url: url,
+          raw_payload: snapshot.payload,
+          previous_payload: snapshot.payload,
+          change_type: 'removed',
+          show_key: snapshot.showKey,
+          admin_notes: 'No longer listed on source – possibly cancelled',
+          status: 'PENDING'
+        });
+
+      if (error) {
+        console.error(`[${url}] - Error flagging removed show: ${error.message}`);
+      }
+    }
+
+    // Remember what the source lists now. first_seen_at and show_id are
+    // left alone on existing rows.
+    const now = new Date().toISOString();
+    const listed = [...diff.added, ...diff.changed.map(({ current }) => current), ...diff.unchanged];
+    if (listed.length > 0) {
+      const { error } = await supabase
+        .from('scrape_source_shows')
+        .upsert(
+          listed.map((show) => ({
+            source_url: url,
+            show_key: show.showKey,
+            content_hash: show.contentHash,
+            payload: show.payload,
+            last_seen_at: now,
+            removed_at: null
+          })),
+          { onConflict: 'source_url,show_key' }
+        );
+      if (error) console.error(`[${url}] - Error saving show snapshot: ${error.message}`);
+    }
+
+    if (diff.removed.length > 0) {
+      const { error } = await supabase
+        .from('scrape_source_shows')
+        .update({ removed_at: now })
+        .eq('source_url', url)
+        .in('show_key', diff.removed.map((snapshot) => snapshot.showKey));
+      if (error) console.error(`[${url}] - Error marking removed shows: ${error.message}`);
+    }
+
+    // Shows that are over have nothing left to compare against
+    const listedKeys = new Set(listed.map((show) => show.showKey));
+    const expiredKeys = previous
+      .filter((snapshot) => !listedKeys.has(snapshot.showKey) && !isUpcoming(snapshot.payload))
+      .map((snapshot) => snapshot.showKey);
+    if (expiredKeys.length > 0) {
+      const { error } = await supabase
+        .from('scrape_source_shows')
+        .delete()
+        .eq('source_url', url)
+        .in('show_key', expiredKeys);
+      if (error) console.error(`[${url}] - Error pruning past shows: ${error.message}`);
+    }
+
+    await saveSourceFingerprint(supabase, url, {
+      ...validators,
+      content_hash: contentHash,
+      last_changed_at: now
+    });
+
+    const changes = {
+      new: diff.added.length,
+      changed: diff.changed.length,
+      removed: diff.removed.length,
+      unchanged: diff.unchanged.length
+    };
     console.log(
-      `[${url}] - Successfully inserted ${insertedCount} of ${allShows.length} shows (filtered ${filteredCount} past/invalid)`
+      `[${url}] - Inserted ${insertedCount} of ${pendingRows.length} new/changed shows, flagged ${changes.removed} removed, ` +
+      `${changes.unchanged} unchanged (filtered ${filteredCount} past/invalid)`
     );
-    return { success: true, showCount: insertedCount };
-    
+    return {
+      success: true,
+      showCount: insertedCount,
+      changes,
+      extractor: outcome.extractorId,
+      showsFound: outcome.shows.length
+    };
+
   } catch (e) {
     console.error(`[${url}] - Processing failed: ${e.message}`);
-    return { success: false, showCount: 0 };
+    return { success: false, showCount: 0, error: e.message };
   }
 }
 
@@ -721,6 +608,8 @@ serve(async (req) => {
     const stateFilter = rawState
       ? rawState.trim().toUpperCase().slice(0, 2)
       : undefined;
+    // ?force=true re-extracts pages even when they haven't changed
+    const force = urlObj.searchParams.get('force') === 'true';
     
     const supabaseAdmin = getSupabaseAdmin();
     const urlsToProcess = await getUrlsToProcess(
@@ -748,15 +637,19 @@ serve(async (req) => {
     const results = [];
     let totalShowsFound = 0;
     let successfulScrapes = 0;
+    let unchangedPages = 0;
     
     // Process URLs sequentially to avoid rate limits and resource contention
     for (const url of urlsToProcess) {
-      const result = await processUrl(supabaseAdmin, url);
+      const urlStartTime = Date.now();
+      const result = await processUrl(supabaseAdmin, url, force);
       results.push({ url, ...result });
+      await recordRun(supabaseAdmin, url, result, Date.now() - urlStartTime);
       
       if (result.success) {
         successfulScrapes++;
         totalShowsFound += result.showCount;
+        if (result.unchanged) unchangedPages++;
       }
       
       // Update stats after each URL
@@ -764,7 +657,8 @@ serve(async (req) => {
         supabaseAdmin, 
         url, 
         result.success, 
-        result.showCount
+        result.showCount,
+        result.error
       );
       
       // Small delay between requests to be nice to servers
@@ -776,8 +670,9 @@ serve(async (req) => {
     const elapsedSeconds = ((Date.now() - startTime) / 1000).toFixed(2);
     
     return new Response(JSON.stringify({ 
-      message: `Scraper completed in ${elapsedSeconds}s. Processed ${urlsToProcess.length} URLs with ${successfulScrapes} successful scrapes. Found ${totalShowsFound} shows.`,
+      message: `Scraper completed in ${elapsedSeconds}s. Processed ${urlsToProcess.length} URLs with ${successfulScrapes} successful scrapes (${unchangedPages} unchanged). Queued ${totalShowsFound} new or changed shows.`,
       ...(stateFilter ? { state: stateFilter } : {}),
+      ...(force ? { force } : {}),
       results
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
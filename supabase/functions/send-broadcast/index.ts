@@ -266,6 +266,37 @@ serve(async (req: Request) => {
       );
     }
     
+    // Queue a `broadcast` notification for every recipient; the outbox
+    // trigger on user_notifications picks these up for push delivery.
+    // Best-effort – the broadcast itself has already been delivered.
+    const { data: recipients, error: recipientsError } = await supabase
+      .from('conversation_participants')
+      .select('user_id')
+      .eq('conversation_id', result)
+      .neq('user_id', sender_id);
+
+    if (recipientsError) {
+      console.error("Failed to load broadcast recipients:", recipientsError);
+    } else if (recipients && recipients.length > 0) {
+      const preview = sanitizedMessage.length > 140
+        ? `${sanitizedMessage.substring(0, 137)}...`
+        : sanitizedMessage;
+
+      const { error: notifyError } = await supabase
+        .from('user_notifications')
+        .insert(recipients.map((r: { user_id: string }) => ({
+          user_id: r.user_id,
+          title: isShowOrganizer ? 'Message from the show organizer' : 'Message from a dealer',
+          message: preview,
+          type: 'broadcast',
+          reference_id: result,
+        })));
+
+      if (notifyError) {
+        console.error("Failed to queue broadcast notifications:", notifyError);
+      }
+    }
+
     // Return success with conversation ID
     return new Response(
       JSON.stringify({
@@ -0,0 +1,123 @@
+// supabase/functions/send-push-notifications/index.ts
+//
+// Drains `notification_outbox`. Meant to be invoked on a schedule
+// (e.g. every minute) with the service role key. Each run:
+//   1. claims due rows via `claim_notification_outbox()`
+//   2. applies the recipient's preferences (opt-outs, quiet hours)
+//   3. fans out to every enabled device through the configured provider
+//   4. marks rows sent, reschedules failures with backoff, or dead-letters
+//      them once `max_attempts` is reached
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.21.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getPushProvider } from "../_shared/push-providers.ts";
+import {
+  DeviceRow,
+  DispatchStats,
+  dispatchOutbox,
+  OutboxRow,
+  PreferencesRow,
+} from "../_shared/pushDispatch.ts";
+
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 500;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const provider = getPushProvider();
+
+    let batchSize = DEFAULT_BATCH_SIZE;
+    if (req.method === "POST") {
+      const body = await req.json().catch(() => ({}));
+      if (Number.isInteger(body?.batch_size) && body.batch_size > 0) {
+        batchSize = Math.min(body.batch_size, MAX_BATCH_SIZE);
+      }
+    }
+
+    const now = new Date();
+
+    const { data: claimed, error: claimError } = await supabase
+      .rpc("claim_notification_outbox", { p_limit: batchSize });
+
+    if (claimError) throw new Error(claimError.message);
+
+    const rows = (claimed ?? []) as OutboxRow[];
+
+    if (rows.length === 0) {
+      const stats: DispatchStats = { claimed: 0, sent: 0, skipped: 0, deferred: 0, retried: 0, dead: 0 };
+      return new Response(
+        JSON.stringify({ success: true, message: "No notifications due", provider: provider.name, stats }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const userIds = Array.from(new Set(rows.map((row) => row.user_id)));
+
+    const [{ data: prefRows, error: prefError }, { data: deviceRows, error: deviceError }] =
+      await Promise.all([
+        supabase.from("notification_preferences").select("*").in("user_id", userIds),
+        supabase
+          .from("push_device_tokens")
+          .select("id, user_id, token")
+          .in("user_id", userIds)
+          .eq("enabled", true),
+      ]);
+
+    if (prefError) throw new Error(prefError.message);
+    if (deviceError) throw new Error(deviceError.message);
+
+    const { stats, updates, invalidTokens } = await dispatchOutbox(
+      rows,
+      (prefRows ?? []) as PreferencesRow[],
+      (deviceRows ?? []) as DeviceRow[],
+      provider,
+      now,
+    );
+
+    for (const { id, changes } of updates) {
+      const { error } = await supabase
+        .from("notification_outbox")
+        .update({ ...changes, locked_at: null, updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) console.error(`Failed to update outbox row ${id}:`, error.message);
+    }
+
+    // Stop sending to tokens the provider says are gone
+    for (const [token, reason] of invalidTokens) {
+      const { error } = await supabase
+        .from("push_device_tokens")
+        .update({ enabled: false, last_error: reason, updated_at: new Date().toISOString() })
+        .eq("token", token);
+      if (error) console.error("Failed to disable push token:", error.message);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Processed ${stats.claimed} notification(s)`,
+        provider: provider.name,
+        stats,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ success: false, message: `Unexpected error: ${error.message}` }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+    );
+  }
+});
@@ -0,0 +1,450 @@
+/**
+ * Show Import Edge Function
+ *
+ * One pipeline for show files from promoters and partners, replacing the
+ * separate CSV/series importers:
+ *
+ *   POST /show-import/preview  parse, map and validate an upload and
+ *                              compare it with existing shows (dry run)
+ *   POST /show-import/commit   the same, then queue the valid rows in
+ *                              scraped_shows_pending for review
+ *
+ * Body: { fileName, content (base64), format?, sheet?, profileId? |
+ * profileName?, mapping?, options?, sourceLabel? }. A mapping in the body
+ * overrides the profile's; with neither, one is suggested from the headers.
+ *
+ * Imported rows never go straight into shows. Rows matching a published
+ * show are queued as "changed" and linked through scrape_source_shows, so
+ * approving them updates that show instead of adding a copy.
+ *
+ * Callers must be admins, or use the service role key (the CLI,
+ * `npm run shows:import`).
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { ImportFormat, IMPORT_FORMATS, ParsedFile, parseImportFile } from '../_shared/importFormats.ts'
+import { showContentHash } from '../_shared/scrapeDiff.ts'
+import {
+  ExistingShow,
+  FieldChange,
+  FieldMapping,
+  ImportAction,
+  ImportOptions,
+  ImportReport,
+  cleanMapping,
+  diffAgainstShow,
+  existingShowPayload,
+  importSourceUrl,
+  prepareImport,
+  suggestMapping
+} from '../_shared/showImport.ts'
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024
+const MAX_ROWS = 1000
+
+// Same bar the review queue uses to block approving a likely duplicate
+const MATCH_SCORE = 0.8
+const MATCH_BATCH_SIZE = 10
+
+const getSupabaseAdmin = () => createClient(
+  Deno.env.get('SUPABASE_URL') || '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+)
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+
+// Errors the caller can fix, returned with their status code
+class ImportRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+  }
+}
+
+// Admin user, or the service role key. userId is null for the latter.
+async function authorize(req: Request): Promise<{ allowed: boolean; userId: string | null }> {
+  const jwt = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+  if (!jwt) return { allowed: false, userId: null }
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (serviceKey && jwt === serviceKey) return { allowed: true, userId: null }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_ANON_KEY') || '',
+      { global: { headers: { Authorization: `Bearer ${jwt}` } } }
+    )
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) return { allowed: false, userId: null }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+    if (profileError || !profile) return { allowed: false, userId: null }
+
+    return { allowed: profile.role?.toLowerCase() === 'admin', userId: user.id }
+  } catch (e) {
+    console.error('Error checking admin status:', e)
+    return { allowed: false, userId: null }
+  }
+}
+
+function decodeBase64(content: string): Uint8Array {
+  const binary = atob(content.replace(/^data:[^,]*,/, ''))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+interface MatchedRow {
+  rowNumber: number
+  action: ImportAction
+  match: { id: string; title: string | null; score: number | null } | null
+  changes: FieldChange[]
+  existing: ExistingShow | null
+}
+
+interface ImportPlan {
+  profileId: string | null
+  fileName: string
+  sourceLabel: string
+  file: ParsedFile
+  mapping: FieldMapping
+  options: ImportOptions
+  report: ImportReport
+  matches: Map<number, MatchedRow>
+}
+
+// Parse the upload, apply the mapping and match valid rows to shows
+async function planImport(supabase: any, body: any): Promise<ImportPlan> {
+  const fileName = String(body.fileName || '').trim()
+  if (!fileName || !body.content) {
+    throw new ImportRequestError('fileName and content (base64) are required')
+  }
+  if (body.format && !IMPORT_FORMATS.includes(body.format)) {
+    throw new ImportRequestError(`Unsupported format "${body.format}"; use ${IMPORT_FORMATS.join(', ')}`)
+  }
+
+  let profile: any = null
+  if (body.profileId || body.profileName) {
+    const query = supabase.from('import_mapping_profiles').select('*')
+    const { data, error } = await (body.profileId
+      ? query.eq('id', body.profileId)
+      : query.eq('name', body.profileName)
+    ).maybeSingle()
+    if (error) throw new Error(`Error loading mapping profile: ${error.message}`)
+    if (!data) throw new ImportRequestError('Mapping profile not found', 404)
+    profile = data
+  }
+
+  let bytes: Uint8Array
+  try {
+    bytes = decodeBase64(String(body.content))
+  } catch {
+    throw new ImportRequestError('content is not valid base64')
+  }
+  if (bytes.length > MAX_FILE_BYTES) {
+    throw new ImportRequestError(`File is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB; split it into smaller uploads`, 413)
+  }
+
+  const options: ImportOptions = { ...(profile?.options || {}), ...(body.options || {}) }
+  let file: ParsedFile
+  try {
+    file = await parseImportFile(bytes, {
+      fileName,
+      format: (body.format || profile?.format || null) as ImportFormat | null,
+      sheet: body.sheet || options.sheet || null
+    })
+  } catch (e) {
+    throw new ImportRequestError(`Could not read ${fileName}: ${e.message}`)
+  }
+  if (file.rows.length > MAX_ROWS) {
+    throw new ImportRequestError(`File has ${file.rows.length} rows; imports are limited to ${MAX_ROWS}`, 413)
+  }
+
+  const mapping = body.mapping
+    ? cleanMapping(body.mapping, file.headers)
+    : profile
+      ? cleanMapping(profile.mapping, file.headers)
+      : suggestMapping(file.headers)
+
+  const report = prepareImport(file.rows, mapping, options)
+  const sourceLabel = String(body.sourceLabel || profile?.source_label || fileName.replace(/\.[^.]+$/, ''))
+  const matches = await matchExistingShows(supabase, importSourceUrl(sourceLabel), report)
+
+  return {
+    profileId: profile?.id || null,
+    fileName,
+    sourceLabel,
+    file,
+    mapping,
+    options,
+    report,
+    matches
+  }
+}
+
+/**
+ * The show each valid row would update. A show linked to the same listing
+ * by an earlier import wins; otherwise the closest live show scoring at
+ * least MATCH_SCORE.
+ */
+async function matchExistingShows(supabase: any, sourceUrl: string, report: ImportReport): Promise<Map<number, MatchedRow>> {
+  const validRows = report.rows.filter((row) => row.valid)
+  const showIds = new Map<number, { id: string; score: number | null }>()
+
+  const { data: linked, error: linkedError } = await supabase
+    .from('scrape_source_shows')
+    .select('show_key, show_id')
+    .eq('source_url', sourceUrl)
+    .not('show_id', 'is', null)
+  if (linkedError) throw new Error(`Error loading earlier imports: ${linkedError.message}`)
+  const linkedByKey = new Map<string, string>((linked || []).map((row: any) => [row.show_key, row.show_id]))
+
+  const unlinked = validRows.filter((row) => {
+    const showId = linkedByKey.get(row.showKey)
+    if (showId) showIds.set(row.rowNumber, { id: showId, score: null })
+    return !showId
+  })
+
+  for (let i = 0; i < unlinked.length; i += MATCH_BATCH_SIZE) {
+    await Promise.all(unlinked.slice(i, i + MATCH_BATCH_SIZE).map(async (row) => {
+      const { data, error } = await supabase.rpc('find_show_duplicates', {
+        p_title: row.show.name,
+        p_address: row.show.address,
+        p_latitude: null,
+        p_longitude: null,
+        p_start_date: row.show.startDate,
+        p_end_date: row.show.endDate,
+        p_min_score: MATCH_SCORE,
+        p_limit: 1
+      })
+      if (error) {
+        console.error(`Error matching row ${row.rowNumber}:`, error.message)
+        return
+      }
+      if (data?.[0]) showIds.set(row.rowNumber, { id: data[0].show_id, score: Number(data[0].score) })
+    }))
+  }
+
+  const ids = [...new Set([...showIds.values()].map((match) => match.id))]
+  const showsById = new Map<string, ExistingShow>()
+  if (ids.length > 0) {
+    const { data: shows, error } = await supabase
+      .from('shows')
+      .select('id, title, location, address, start_date, end_date, entry_fee, description')
+      .in('id', ids)
+    if (error) throw new Error(`Error loading matched shows: ${error.message}`)
+    for (const show of shows || []) showsById.set(show.id, show)
+  }
+
+  const matches = new Map<number, MatchedRow>()
+  for (const row of validRows) {
+    const found = showIds.get(row.rowNumber)
+    const existing = found ? showsById.get(found.id) || null : null
+    const { action, changes } = diffAgainstShow(row.show, existing)
+    matches.set(row.rowNumber, {
+      rowNumber: row.rowNumber,
+      action,
+      match: existing ? { id: existing.id, title: existing.title, score: found!.score } : null,
+      changes,
+      existing
+    })
+  }
+  return matches
+}
+
+function summarize(plan: ImportPlan) {
+  const actions = [...plan.matches.values()].map((row) => row.action)
+  const count = (action: ImportAction) => actions.filter((value) => value === action).length
+
+  return {
+    fileName: plan.fileName,
+    format: plan.file.format,
+    sheets: plan.file.sheets || null,
+    sheet: plan.file.sheet || null,
+    headers: plan.file.headers,
+    mapping: plan.mapping,
+    options: plan.options,
+    sourceLabel: plan.sourceLabel,
+    unmappedRequired: plan.report.unmappedRequired,
+    summary: {
+      totalRows: plan.report.totalRows,
+      validRows: plan.report.validRows,
+      invalidRows: plan.report.invalidRows,
+      warningRows: plan.report.warningRows,
+      new: count('new'),
+      update: count('update'),
+      unchanged: count('unchanged')
+    },
+    rows: plan.report.rows.map((row) => {
+      const matched = plan.matches.get(row.rowNumber)
+      return {
+        rowNumber: row.rowNumber,
+        valid: row.valid,
+        issues: row.issues,
+        show: row.show,
+        action: matched?.action || null,
+        match: matched?.match || null,
+        changes: matched?.changes || []
+      }
+    })
+  }
+}
+
+// Handle POST /preview - Dry run: report and diff, nothing is written
+async function previewImport(req: Request): Promise<Response> {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const plan = await planImport(getSupabaseAdmin(), body)
+    return json({ success: true, data: summarize(plan) })
+  } catch (e) {
+    if (e instanceof ImportRequestError) return json({ success: false, error: e.message }, e.status)
+    console.error('Error previewing import:', e)
+    return json({ success: false, error: e.message }, 500)
+  }
+}
+
+// Handle POST /commit - Queue the valid new and changed rows for review
+async function commitImport(req: Request, userId: string | null): Promise<Response> {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const supabase = getSupabaseAdmin()
+    const plan = await planImport(supabase, body)
+
+    if (plan.report.validRows === 0) {
+      return json({ success: false, error: 'No valid rows to import', data: summarize(plan) }, 400)
+    }
+
+    const sourceUrl = importSourceUrl(plan.sourceLabel)
+    const rows = plan.report.rows.filter((row) => row.valid)
+    const queued = rows.filter((row) => plan.matches.get(row.rowNumber)?.action !== 'unchanged')
+
+    const { data: batch, error: batchError } = await supabase
+      .from('show_import_batches')
+      .insert({
+        profile_id: plan.profileId,
+        file_name: plan.fileName,
+        format: plan.file.format,
+        source_label: plan.sourceLabel,
+        row_count: plan.report.totalRows,
+        valid_count: plan.report.validRows,
+        error_count: plan.report.invalidRows,
+        report: plan.report.rows
+          .filter((row) => row.issues.length > 0)
+          .map((row) => ({ rowNumber: row.rowNumber, issues: row.issues })),
+        created_by: userId
+      })
+      .select('id')
+      .single()
+    if (batchError) throw new Error(`Error recording import: ${batchError.message}`)
+
+    // An earlier upload's unreviewed rows for the same shows are replaced
+    if (queued.length > 0) {
+      const { error } = await supabase
+        .from('scraped_shows_pending')
+        .update({
+          status: 'DUPLICATE',
+          admin_notes: 'Superseded by a later import of the same show',
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('source_url', sourceUrl)
+        .eq('status', 'PENDING')
+        .in('show_key', queued.map((row) => row.showKey))
+      if (error) console.error('Error superseding pending rows:', error.message)
+    }
+
+    // Link matched rows to their show so approval updates it in place
+    const now = new Date().toISOString()
+    const { error: snapshotError } = await supabase
+      .from('scrape_source_shows')
+      .upsert(
+        await Promise.all(rows.map(async (row) => {
+          const existing = plan.matches.get(row.rowNumber)?.existing
+          return {
+            source_url: sourceUrl,
+            show_key: row.showKey,
+            content_hash: await showContentHash(row.show),
+            payload: row.show,
+            last_seen_at: now,
+            removed_at: null,
+            ...(existing ? { show_id: existing.id } : {})
+          }
+        })),
+        { onConflict: 'source_url,show_key' }
+      )
+    if (snapshotError) throw new Error(`Error linking imported shows: ${snapshotError.message}`)
+
+    if (queued.length > 0) {
+      const { error } = await supabase
+        .from('scraped_shows_pending')
+        .insert(queued.map((row) => {
+          const matched = plan.matches.get(row.rowNumber)!
+          return {
+            source_url: sourceUrl,
+            raw_payload: row.raw,
+            normalized_json: row.show,
+            change_type: matched.action === 'update' ? 'changed' : 'new',
+            show_key: row.showKey,
+            previous_payload: matched.existing ? existingShowPayload(matched.existing) : null,
+            import_batch_id: batch.id,
+            admin_notes: matched.action === 'update'
+              ? `Imported from ${plan.fileName} row ${row.rowNumber}; changes ${matched.changes.map((change) => change.field).join(', ')}`
+              : `Imported from ${plan.fileName} row ${row.rowNumber}`,
+            status: 'PENDING'
+          }
+        }))
+      if (error) throw new Error(`Error queuing imported shows: ${error.message}`)
+    }
+
+    const { error: countError } = await supabase
+      .from('show_import_batches')
+      .update({ queued_count: queued.length, skipped_count: rows.length - queued.length })
+      .eq('id', batch.id)
+    if (countError) console.error('Error saving import counts:', countError.message)
+
+    return json({
+      success: true,
+      data: {
+        batchId: batch.id,
+        queued: queued.length,
+        skipped: rows.length - queued.length,
+        invalid: plan.report.invalidRows,
+        ...summarize(plan)
+      }
+    })
+  } catch (e) {
+    if (e instanceof ImportRequestError) return json({ success: false, error: e.message }, e.status)
+    console.error('Error committing import:', e)
+    return json({ success: false, error: e.message }, 500)
+  }
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const { allowed, userId } = await authorize(req)
+  if (!allowed) {
+    return json({ success: false, error: 'Unauthorized: Admin access required' }, 401)
+  }
+
+  const path = new URL(req.url).pathname.replace(/^.*\/show-import/, '')
+
+  if (path === '/preview' && req.method === 'POST') {
+    return await previewImport(req)
+  } else if (path === '/commit' && req.method === 'POST') {
+    return await commitImport(req, userId)
+  }
+
+  return json({ success: false, error: 'Not found' }, 404)
+})
@@ -0,0 +1,95 @@
+-- Migration: 20251020100000_calendar_feed_tokens.sql
+-- Description: Private per-user tokens for the subscribable iCalendar feed
+--              served by the `calendar-feed` edge function.
+-- Date: 2025-10-20
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- 1) One active feed token per user
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  user_id     UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token       TEXT UNIQUE NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  rotated_at  TIMESTAMPTZ,
+  last_accessed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE public.calendar_feed_tokens IS
+'Secret tokens embedded in private calendar feed URLs. Anyone holding the token can read the user''s favorited/planned shows feed, so it can be rotated at any time.';
+
+-- 2) RLS – users may only see their own token; writes go through the functions below
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "calendar_feed_tokens_select_self" ON public.calendar_feed_tokens;
+CREATE POLICY "calendar_feed_tokens_select_self"
+  ON public.calendar_feed_tokens
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+GRANT SELECT ON TABLE public.calendar_feed_tokens TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.calendar_feed_tokens TO service_role;
+
+-- 3) Return the caller's token, creating it on first use
+CREATE OR REPLACE FUNCTION public.get_or_create_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT token INTO v_token
+  FROM public.calendar_feed_tokens
+  WHERE user_id = auth.uid();
+
+  IF v_token IS NULL THEN
+    INSERT INTO public.calendar_feed_tokens (user_id, token)
+    VALUES (auth.uid(), encode(gen_random_bytes(24), 'hex'))
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT token INTO v_token
+    FROM public.calendar_feed_tokens
+    WHERE user_id = auth.uid();
+  END IF;
+
+  RETURN v_token;
+END;
+$$;
+
+-- 4) Replace the caller's token (old feed URLs stop working immediately)
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT := encode(gen_random_bytes(24), 'hex');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), v_token)
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token,
+        rotated_at = now();
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_or_create_calendar_feed_token() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.rotate_calendar_feed_token() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_or_create_calendar_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token() TO authenticated;
+
+COMMIT;
@@ -0,0 +1,295 @@
+-- Migration: 20251020110000_push_notifications.sql
+-- Description: Push notification pipeline – device token registry, per-user
+--              delivery preferences (types + quiet hours) and a delivery
+--              outbox drained by the `send-push-notifications` edge function.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Device tokens (one row per physical install)
+CREATE TABLE IF NOT EXISTS public.push_device_tokens (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token         TEXT UNIQUE NOT NULL,
+  platform      TEXT NOT NULL CHECK (platform IN ('ios', 'android', 'web')),
+  provider      TEXT NOT NULL DEFAULT 'expo',
+  device_name   TEXT,
+  app_version   TEXT,
+  enabled       BOOLEAN NOT NULL DEFAULT TRUE,
+  last_error    TEXT,
+  last_seen_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_device_tokens_user
+  ON public.push_device_tokens (user_id)
+  WHERE enabled;
+
+COMMENT ON TABLE public.push_device_tokens IS
+'Push tokens per device. Tokens rejected by the provider are disabled by the sender rather than deleted so we keep the error for debugging.';
+
+-- 2) Delivery preferences (absent row = defaults: everything on, no quiet hours)
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id            UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  push_enabled       BOOLEAN NOT NULL DEFAULT TRUE,
+  disabled_types     TEXT[] NOT NULL DEFAULT '{}',
+  quiet_hours_start  TIME,
+  quiet_hours_end    TIME,
+  timezone           TEXT NOT NULL DEFAULT 'America/New_York',
+  updated_at         TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.notification_preferences.disabled_types IS
+'Notification types (user_notifications.type) the user has opted out of for push. Stored as opt-outs so new types are delivered by default.';
+COMMENT ON COLUMN public.notification_preferences.quiet_hours_start IS
+'Local start of quiet hours in `timezone`. May be later than quiet_hours_end to span midnight.';
+
+-- 3) Outbox – one row per notification to push, drained by the edge function
+CREATE TABLE IF NOT EXISTS public.notification_outbox (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id  UUID REFERENCES public.user_notifications(id) ON DELETE CASCADE,
+  user_id          UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type             TEXT NOT NULL,
+  title            TEXT NOT NULL,
+  body             TEXT NOT NULL,
+  data             JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status           TEXT NOT NULL DEFAULT 'pending'
+                   CHECK (status IN ('pending', 'processing', 'sent', 'skipped', 'dead')),
+  attempts         INTEGER NOT NULL DEFAULT 0,
+  max_attempts     INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at        TIMESTAMPTZ,
+  last_error       TEXT,
+  sent_at          TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON public.notification_outbox (next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_dead
+  ON public.notification_outbox (updated_at DESC)
+  WHERE status = 'dead';
+
+COMMENT ON TABLE public.notification_outbox IS
+'Push delivery queue. Rows move pending → processing → sent | skipped, or back to pending with backoff on failure and to dead once max_attempts is reached.';
+
+-- 4) RLS
+ALTER TABLE public.push_device_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "push_device_tokens_select_self" ON public.push_device_tokens;
+CREATE POLICY "push_device_tokens_select_self"
+  ON public.push_device_tokens
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "push_device_tokens_update_self" ON public.push_device_tokens;
+CREATE POLICY "push_device_tokens_update_self"
+  ON public.push_device_tokens
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "push_device_tokens_delete_self" ON public.push_device_tokens;
+CREATE POLICY "push_device_tokens_delete_self"
+  ON public.push_device_tokens
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "notification_preferences_select_self" ON public.notification_preferences;
+CREATE POLICY "notification_preferences_select_self"
+  ON public.notification_preferences
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "notification_preferences_insert_self" ON public.notification_preferences;
+CREATE POLICY "notification_preferences_insert_self"
+  ON public.notification_preferences
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "notification_preferences_update_self" ON public.notification_preferences;
+CREATE POLICY "notification_preferences_update_self"
+  ON public.notification_preferences
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Outbox is service-role only (no policies for authenticated users)
+
+GRANT SELECT, UPDATE, DELETE ON TABLE public.push_device_tokens TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON TABLE public.notification_preferences TO authenticated;
+GRANT ALL ON TABLE public.push_device_tokens TO service_role;
+GRANT ALL ON TABLE public.notification_preferences TO service_role;
+GRANT ALL ON TABLE public.notification_outbox TO service_role;
+
+-- 5) Register / refresh the caller's device token.
+--    A token that previously belonged to another account (shared device,
+--    re-login) is re-assigned to the caller.
+CREATE OR REPLACE FUNCTION public.register_push_device(
+  p_token TEXT,
+  p_platform TEXT,
+  p_device_name TEXT DEFAULT NULL,
+  p_app_version TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_token IS NULL OR length(trim(p_token)) = 0 THEN
+    RAISE EXCEPTION 'Push token is required';
+  END IF;
+
+  INSERT INTO public.push_device_tokens (user_id, token, platform, device_name, app_version)
+  VALUES (auth.uid(), trim(p_token), lower(p_platform), p_device_name, p_app_version)
+  ON CONFLICT (token) DO UPDATE
+    SET user_id      = EXCLUDED.user_id,
+        platform     = EXCLUDED.platform,
+        device_name  = COALESCE(EXCLUDED.device_name, push_device_tokens.device_name),
+        app_version  = COALESCE(EXCLUDED.app_version, push_device_tokens.app_version),
+        enabled      = TRUE,
+        last_error   = NULL,
+        last_seen_at = now(),
+        updated_at   = now()
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- 6) Remove the caller's token (sign-out)
+CREATE OR REPLACE FUNCTION public.unregister_push_device(p_token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.push_device_tokens
+  WHERE token = p_token
+    AND user_id = auth.uid();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.register_push_device(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.unregister_push_device(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.register_push_device(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unregister_push_device(TEXT) TO authenticated;
+
+-- 7) Every in-app notification is also queued for push
+CREATE OR REPLACE FUNCTION public.enqueue_push_for_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notification_outbox (notification_id, user_id, type, title, body, data)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    NEW.type,
+    NEW.title,
+    NEW.message,
+    jsonb_strip_nulls(jsonb_build_object(
+      'notificationId', NEW.id,
+      'type', NEW.type,
+      'referenceId', NEW.reference_id
+    ))
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_user_notifications_enqueue_push ON public.user_notifications;
+CREATE TRIGGER trg_user_notifications_enqueue_push
+  AFTER INSERT ON public.user_notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_push_for_notification();
+
+-- 8) Badge awards create a `badge_earned` notification
+CREATE OR REPLACE FUNCTION public.notify_badge_earned()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_badge_name TEXT;
+BEGIN
+  IF NEW.user_id IS NULL OR NEW.badge_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_badge_name
+  FROM public.badges_definitions
+  WHERE id = NEW.badge_id;
+
+  INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+  VALUES (
+    NEW.user_id,
+    'New badge earned!',
+    'You earned the ' || COALESCE(v_badge_name, 'new') || ' badge. Nice collecting!',
+    'badge_earned',
+    NEW.badge_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_user_badges_notify ON public.user_badges;
+CREATE TRIGGER trg_user_badges_notify
+  AFTER INSERT ON public.user_badges
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_badge_earned();
+
+-- 9) Claim a batch of due outbox rows for delivery.
+--    Rows stuck in `processing` (crashed worker) are reclaimed after 10 minutes.
+CREATE OR REPLACE FUNCTION public.claim_notification_outbox(p_limit INTEGER DEFAULT 100)
+RETURNS SETOF public.notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.notification_outbox o
+  SET status = 'processing',
+      attempts = o.attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  WHERE o.id IN (
+    SELECT id
+    FROM public.notification_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'processing' AND locked_at < now() - INTERVAL '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT GREATEST(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_notification_outbox(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_notification_outbox(INTEGER) TO service_role;
+
+COMMIT;
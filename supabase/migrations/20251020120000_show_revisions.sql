@@ -0,0 +1,170 @@
+-- Migration: 20251020120000_show_revisions.sql
+-- Description: Revision history for shows plus `show_change` notifications
+--              for users who favorited or plan to attend a changed show.
+--              Captured by trigger so organizer edits, admin fixes and
+--              scraper updates are all tracked the same way.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Revision log
+CREATE TABLE IF NOT EXISTS public.show_revisions (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  show_id         UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  changed_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_fields  TEXT[] NOT NULL,
+  changes         JSONB NOT NULL,
+  summary         TEXT[] NOT NULL DEFAULT '{}',
+  notified        BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_revisions_show_created
+  ON public.show_revisions (show_id, created_at DESC);
+
+COMMENT ON TABLE public.show_revisions IS
+'One row per show update that touched a tracked field. `changes` is {field: {old, new}}; `summary` holds human readable lines ("Moved from Sat, Oct 4 to Sun, Oct 5").';
+COMMENT ON COLUMN public.show_revisions.changed_by IS
+'auth.uid() of the editor; NULL for service-role updates (scraper, admin scripts).';
+
+-- 2) RLS – change logs are public like the shows themselves
+ALTER TABLE public.show_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "show_revisions_select_all" ON public.show_revisions;
+CREATE POLICY "show_revisions_select_all"
+  ON public.show_revisions
+  FOR SELECT
+  USING (true);
+
+GRANT SELECT ON TABLE public.show_revisions TO anon, authenticated;
+GRANT ALL ON TABLE public.show_revisions TO service_role;
+
+-- 3) Record revision + notify interested users
+CREATE OR REPLACE FUNCTION public.track_show_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes    JSONB := '{}'::jsonb;
+  v_fields     TEXT[] := '{}';
+  v_summary    TEXT[] := '{}';
+  v_notify     TEXT[] := '{}';
+  v_field      TEXT;
+  v_old        JSONB := to_jsonb(OLD);
+  v_new        JSONB := to_jsonb(NEW);
+  v_tz         TEXT := COALESCE(NEW.daily_schedule->0->>'timezone', 'America/New_York');
+  v_editor     UUID := auth.uid();
+  v_revision   UUID;
+BEGIN
+  FOREACH v_field IN ARRAY ARRAY[
+    'title', 'description', 'location', 'address',
+    'start_date', 'end_date', 'start_time', 'end_time', 'daily_schedule',
+    'entry_fee', 'status', 'website_url'
+  ]
+  LOOP
+    IF (v_old->v_field) IS DISTINCT FROM (v_new->v_field) THEN
+      v_fields := v_fields || v_field;
+      v_changes := v_changes || jsonb_build_object(
+        v_field,
+        jsonb_build_object('old', v_old->v_field, 'new', v_new->v_field)
+      );
+    END IF;
+  END LOOP;
+
+  IF array_length(v_fields, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Dates (compared as local calendar days, so time-only edits don't read as a move)
+  IF to_char(OLD.start_date AT TIME ZONE v_tz, 'YYYY-MM-DD')
+       IS DISTINCT FROM to_char(NEW.start_date AT TIME ZONE v_tz, 'YYYY-MM-DD') THEN
+    v_notify := v_notify || (
+      'Moved from ' || to_char(OLD.start_date AT TIME ZONE v_tz, 'Dy, Mon FMDD') ||
+      ' to ' || to_char(NEW.start_date AT TIME ZONE v_tz, 'Dy, Mon FMDD')
+    );
+  ELSIF to_char(OLD.end_date AT TIME ZONE v_tz, 'YYYY-MM-DD')
+       IS DISTINCT FROM to_char(NEW.end_date AT TIME ZONE v_tz, 'YYYY-MM-DD') THEN
+    v_notify := v_notify || ('Now ends ' || to_char(NEW.end_date AT TIME ZONE v_tz, 'Dy, Mon FMDD'));
+  END IF;
+
+  IF 'start_time' = ANY(v_fields) OR 'end_time' = ANY(v_fields) OR 'daily_schedule' = ANY(v_fields) THEN
+    IF NEW.start_time IS NOT NULL AND NEW.end_time IS NOT NULL
+       AND NOT ('daily_schedule' = ANY(v_fields)) THEN
+      v_notify := v_notify || ('Hours changed to ' || NEW.start_time || ' – ' || NEW.end_time);
+    ELSE
+      v_notify := v_notify || 'Hours changed'::TEXT;
+    END IF;
+  END IF;
+
+  IF 'location' = ANY(v_fields) THEN
+    v_notify := v_notify || ('Venue changed to ' || NEW.location);
+  ELSIF 'address' = ANY(v_fields) THEN
+    v_notify := v_notify || 'Venue address changed'::TEXT;
+  END IF;
+
+  IF 'entry_fee' = ANY(v_fields) THEN
+    IF COALESCE(NEW.entry_fee, 0) = 0 THEN
+      v_notify := v_notify || 'Entry is now free'::TEXT;
+    ELSIF OLD.entry_fee IS NULL THEN
+      v_notify := v_notify || ('Entry fee set to $' || trim(to_char(NEW.entry_fee, 'FM999990.00')));
+    ELSE
+      v_notify := v_notify || (
+        'Entry fee changed from $' || trim(to_char(OLD.entry_fee, 'FM999990.00')) ||
+        ' to $' || trim(to_char(NEW.entry_fee, 'FM999990.00'))
+      );
+    END IF;
+  END IF;
+
+  IF 'status' = ANY(v_fields) THEN
+    IF upper(COALESCE(NEW.status, '')) = 'CANCELLED' THEN
+      v_notify := v_notify || 'Show cancelled'::TEXT;
+    ELSIF upper(COALESCE(OLD.status, '')) = 'CANCELLED' THEN
+      v_notify := v_notify || 'Show is back on'::TEXT;
+    END IF;
+  END IF;
+
+  IF 'title' = ANY(v_fields) THEN
+    v_notify := v_notify || ('Renamed to "' || NEW.title || '"');
+  END IF;
+
+  v_summary := v_notify;
+  IF 'description' = ANY(v_fields) OR 'website_url' = ANY(v_fields) THEN
+    v_summary := v_summary || 'Show details updated'::TEXT;
+  END IF;
+
+  INSERT INTO public.show_revisions (show_id, changed_by, changed_fields, changes, summary)
+  VALUES (NEW.id, v_editor, v_fields, v_changes, v_summary)
+  RETURNING id INTO v_revision;
+
+  -- Only attendee-relevant changes to shows that haven't finished yet
+  IF array_length(v_notify, 1) IS NOT NULL AND NEW.end_date >= now() THEN
+    INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+    SELECT
+      r.user_id,
+      NEW.title || ' was updated',
+      array_to_string(v_notify, '. '),
+      'show_change',
+      NEW.id
+    FROM (
+      SELECT user_id FROM public.user_favorite_shows WHERE show_id = NEW.id
+      UNION
+      SELECT user_id FROM public.planned_attendance WHERE show_id = NEW.id
+    ) r
+    WHERE r.user_id IS DISTINCT FROM v_editor;
+
+    UPDATE public.show_revisions SET notified = TRUE WHERE id = v_revision;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_shows_track_revision ON public.shows;
+CREATE TRIGGER trg_shows_track_revision
+  AFTER UPDATE ON public.shows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_show_revision();
+
+COMMIT;
@@ -0,0 +1,246 @@
+-- Migration: 20251020130000_show_series_recurrence.sql
+-- Description: RRULE-based recurrence for show series. A series can carry
+--              a rule + show template; upcoming occurrences are
+--              materialized as regular `shows` rows a configurable horizon
+--              ahead by `materialize_show_series()` (called from the app
+--              after edits and daily by the `materialize-show-series`
+--              edge function).
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Link materialized shows back to their occurrence
+ALTER TABLE public.shows
+  ADD COLUMN IF NOT EXISTS series_occurrence_date DATE,
+  ADD COLUMN IF NOT EXISTS recurrence_detached BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.shows.series_occurrence_date IS
+'Occurrence date this show was generated for (NULL for manually added shows).';
+COMMENT ON COLUMN public.shows.recurrence_detached IS
+'TRUE once an organizer edits or cancels "this instance only" – materialization no longer touches the row.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_shows_series_occurrence
+  ON public.shows (series_id, series_occurrence_date)
+  WHERE series_occurrence_date IS NOT NULL;
+
+-- 2) Recurrence definition (one per series)
+CREATE TABLE IF NOT EXISTS public.show_series_recurrence (
+  series_id             UUID PRIMARY KEY REFERENCES public.show_series(id) ON DELETE CASCADE,
+  rrule                 TEXT NOT NULL,
+  dtstart               DATE NOT NULL,
+  start_time            TEXT NOT NULL,
+  end_time              TEXT NOT NULL,
+  timezone              TEXT NOT NULL DEFAULT 'America/New_York',
+  duration_days         INTEGER NOT NULL DEFAULT 1 CHECK (duration_days BETWEEN 1 AND 7),
+  horizon_days          INTEGER NOT NULL DEFAULT 120 CHECK (horizon_days BETWEEN 7 AND 730),
+  exdates               DATE[] NOT NULL DEFAULT '{}',
+  template              JSONB NOT NULL DEFAULT '{}'::jsonb,
+  active                BOOLEAN NOT NULL DEFAULT TRUE,
+  last_materialized_at  TIMESTAMPTZ,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at            TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.show_series_recurrence IS
+'Recurrence rule for a series, e.g. rrule = ''FREQ=MONTHLY;BYDAY=2SU;BYMONTH=1,2,3,4,5,6,7,8,9,10,11'' (2nd Sunday, skip December). `template` holds the show fields copied to every occurrence: title, description, location, address, entry_fee, features, categories, image_url, website_url, latitude, longitude.';
+COMMENT ON COLUMN public.show_series_recurrence.exdates IS
+'Occurrence dates removed from the rule (one-off skips).';
+
+ALTER TABLE public.show_series_recurrence ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "show_series_recurrence_select_all" ON public.show_series_recurrence;
+CREATE POLICY "show_series_recurrence_select_all"
+  ON public.show_series_recurrence
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "show_series_recurrence_write_organizer" ON public.show_series_recurrence;
+CREATE POLICY "show_series_recurrence_write_organizer"
+  ON public.show_series_recurrence
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.show_series s
+      WHERE s.id = series_id AND s.organizer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.show_series s
+      WHERE s.id = series_id AND s.organizer_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON TABLE public.show_series_recurrence TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON TABLE public.show_series_recurrence TO authenticated;
+GRANT ALL ON TABLE public.show_series_recurrence TO service_role;
+
+-- 3) Materialize occurrences.
+--    RRULE expansion happens in TypeScript (app / edge function); this
+--    function receives the expanded dates up to p_through and reconciles
+--    the series' shows in one transaction:
+--      * missing dates → new show rows from the template
+--      * existing, non-detached rows → synced to the template ("all future")
+--      * non-detached rows no longer produced by the rule → cancelled
+CREATE OR REPLACE FUNCTION public.materialize_show_series(
+  p_series_id UUID,
+  p_occurrences DATE[],
+  p_through DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series     public.show_series%ROWTYPE;
+  v_rule       public.show_series_recurrence%ROWTYPE;
+  v_valid      DATE[];
+  v_date       DATE;
+  v_show_id    UUID;
+  v_start      TIMESTAMPTZ;
+  v_end        TIMESTAMPTZ;
+  v_schedule   JSONB;
+  v_title      TEXT;
+  v_fee        NUMERIC;
+  v_coords     GEOGRAPHY;
+  v_created    INTEGER := 0;
+  v_updated    INTEGER := 0;
+  v_cancelled  INTEGER := 0;
+BEGIN
+  SELECT * INTO v_series FROM public.show_series WHERE id = p_series_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Show series not found';
+  END IF;
+
+  -- Service role (auth.uid() IS NULL) may materialize any series
+  IF auth.uid() IS NOT NULL AND v_series.organizer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the series organizer can change its schedule';
+  END IF;
+
+  SELECT * INTO v_rule FROM public.show_series_recurrence WHERE series_id = p_series_id;
+  IF NOT FOUND OR NOT v_rule.active THEN
+    RAISE EXCEPTION 'Series has no active recurrence rule';
+  END IF;
+
+  v_title := COALESCE(NULLIF(v_rule.template->>'title', ''), v_series.name);
+  v_fee := NULLIF(v_rule.template->>'entry_fee', '')::NUMERIC;
+  IF v_rule.template ? 'latitude' AND v_rule.template ? 'longitude' THEN
+    v_coords := ST_SetSRID(
+      ST_MakePoint((v_rule.template->>'longitude')::FLOAT8, (v_rule.template->>'latitude')::FLOAT8),
+      4326
+    )::GEOGRAPHY;
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT d ORDER BY d), '{}')
+  INTO v_valid
+  FROM unnest(p_occurrences) AS d
+  WHERE d >= CURRENT_DATE
+    AND d <= p_through
+    AND NOT (d = ANY(v_rule.exdates));
+
+  FOREACH v_date IN ARRAY v_valid
+  LOOP
+    v_start := (v_date::TEXT || ' ' || v_rule.start_time)::TIMESTAMP AT TIME ZONE v_rule.timezone;
+    v_end := ((v_date + v_rule.duration_days - 1)::TEXT || ' ' || v_rule.end_time)::TIMESTAMP
+             AT TIME ZONE v_rule.timezone;
+
+    SELECT jsonb_agg(
+             jsonb_build_object(
+               'date', (v_date + i)::TEXT,
+               'startTime', v_rule.start_time,
+               'endTime', v_rule.end_time,
+               'timezone', v_rule.timezone
+             ) ORDER BY i)
+    INTO v_schedule
+    FROM generate_series(0, v_rule.duration_days - 1) AS i;
+
+    SELECT id INTO v_show_id
+    FROM public.shows
+    WHERE series_id = p_series_id AND series_occurrence_date = v_date;
+
+    IF v_show_id IS NULL THEN
+      INSERT INTO public.shows (
+        title, description, location, address,
+        start_date, end_date, start_time, end_time, daily_schedule,
+        entry_fee, features, categories, image_url, website_url, coordinates,
+        status, organizer_id, series_id, series_occurrence_date
+      ) VALUES (
+        v_title,
+        v_rule.template->>'description',
+        COALESCE(v_rule.template->>'location', 'TBD'),
+        COALESCE(v_rule.template->>'address', 'TBD'),
+        v_start, v_end, v_rule.start_time, v_rule.end_time, v_schedule,
+        v_fee,
+        COALESCE(v_rule.template->'features', '{}'::jsonb),
+        COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_rule.template->'categories')), '{}'),
+        v_rule.template->>'image_url',
+        v_rule.template->>'website_url',
+        v_coords,
+        'ACTIVE',
+        v_series.organizer_id,
+        p_series_id,
+        v_date
+      );
+      v_created := v_created + 1;
+    ELSE
+      UPDATE public.shows
+      SET title          = v_title,
+          description    = v_rule.template->>'description',
+          location       = COALESCE(v_rule.template->>'location', location),
+          address        = COALESCE(v_rule.template->>'address', address),
+          start_date     = v_start,
+          end_date       = v_end,
+          start_time     = v_rule.start_time,
+          end_time       = v_rule.end_time,
+          daily_schedule = v_schedule,
+          entry_fee      = v_fee,
+          website_url    = v_rule.template->>'website_url',
+          coordinates    = COALESCE(v_coords, coordinates),
+          -- A date that comes back into the rule is reinstated
+          status         = CASE WHEN lower(status) = 'cancelled' THEN 'ACTIVE' ELSE status END,
+          updated_at     = now()
+      WHERE id = v_show_id
+        AND NOT recurrence_detached
+        AND (title, description, location, address, start_date, end_date,
+             start_time, end_time, entry_fee, website_url, lower(status) = 'cancelled')
+            IS DISTINCT FROM
+            (v_title, v_rule.template->>'description',
+             COALESCE(v_rule.template->>'location', location),
+             COALESCE(v_rule.template->>'address', address),
+             v_start, v_end, v_rule.start_time, v_rule.end_time, v_fee,
+             v_rule.template->>'website_url', FALSE);
+
+      IF FOUND THEN
+        v_updated := v_updated + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Dates that dropped out of the rule (rule edited, date skipped)
+  UPDATE public.shows
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE series_id = p_series_id
+    AND series_occurrence_date BETWEEN CURRENT_DATE AND p_through
+    AND NOT recurrence_detached
+    AND NOT (series_occurrence_date = ANY(v_valid))
+    AND lower(COALESCE(status, '')) <> 'cancelled';
+  GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+  UPDATE public.show_series_recurrence
+  SET last_materialized_at = now()
+  WHERE series_id = p_series_id;
+
+  RETURN jsonb_build_object(
+    'created', v_created,
+    'updated', v_updated,
+    'cancelled', v_cancelled
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.materialize_show_series(UUID, DATE[], DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.materialize_show_series(UUID, DATE[], DATE) TO authenticated, service_role;
+
+COMMIT;
@@ -0,0 +1,542 @@
+-- Migration: 20251020140000_show_duplicate_detection.sql
+-- Description: Duplicate detection across scraped (`scraped_shows_pending`),
+--              web-submitted and organizer-entered shows, plus an admin
+--              merge that re-points favorites, planned attendance, reviews,
+--              dealer participation and want-list shares to the surviving
+--              show. Candidates are scored on normalized title, geocoded
+--              distance (`shows.coordinates` / `geocode_cache`) and date
+--              overlap.
+-- Date: 2025-10-20
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- 1) Merged shows stay in place (old links keep resolving) but leave every
+--    ACTIVE listing.
+ALTER TABLE public.shows
+  ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES public.shows(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.shows.merged_into_id IS
+'Set (with status = ''MERGED'') when this show was merged into another as a duplicate.';
+
+CREATE INDEX IF NOT EXISTS idx_shows_merged_into_id
+  ON public.shows (merged_into_id)
+  WHERE merged_into_id IS NOT NULL;
+
+-- 2) Admin check. is_admin() is currently stubbed to FALSE (see
+--    20251002180000_emergency_rls_fix.sql), so check both role sources
+--    here; SECURITY DEFINER avoids the profiles RLS recursion.
+CREATE OR REPLACE FUNCTION public.has_admin_role(p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE user_id = p_user_id AND role = 'admin')
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id AND lower(role) = 'admin')
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.has_admin_role(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.has_admin_role(UUID) TO authenticated, service_role;
+
+-- 3) Audit log of merges
+CREATE TABLE IF NOT EXISTS public.show_merges (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id    UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  merged_id      UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  merged_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  moved          JSONB NOT NULL DEFAULT '{}'::jsonb,
+  merged_snapshot JSONB NOT NULL,
+  notes          TEXT,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_merges_survivor ON public.show_merges (survivor_id);
+
+ALTER TABLE public.show_merges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "show_merges_admin_select" ON public.show_merges;
+CREATE POLICY "show_merges_admin_select"
+  ON public.show_merges
+  FOR SELECT
+  USING (public.has_admin_role());
+
+GRANT SELECT ON TABLE public.show_merges TO authenticated;
+GRANT ALL ON TABLE public.show_merges TO service_role;
+
+-- 4) Normalization helpers
+
+-- "The 5th Annual Chicago Sports Card Show 2025" -> "chicago"
+CREATE OR REPLACE FUNCTION public.normalize_show_title(p_title TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          replace(lower(COALESCE(p_title, '')), '&', ' and '),
+          '\m(19|20)\d{2}\M|\m\d+(st|nd|rd|th)\M', ' ', 'g'),     -- years, ordinals
+        '[^a-z0-9 ]', ' ', 'g'),                                   -- punctuation
+      '\m(the|annual|sports?|trading|cards?|collectibles?|memorabilia|show|expo|and)\M', ' ', 'g'),
+    '\s+', ' ', 'g'));
+$$;
+
+-- Mirrors normalizeAddress() in src/services/googleGeocoder.ts so lookups
+-- hit the same `geocode_cache.address_norm` keys the app writes.
+CREATE OR REPLACE FUNCTION public.normalize_geocode_address(p_address TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(lower(COALESCE(p_address, '')), '[^\w\s,.-]', '', 'g'),
+    '\s+', ' ', 'g'));
+$$;
+
+-- Scraped dates are free text; unparseable values become NULL
+CREATE OR REPLACE FUNCTION public.try_parse_date(p_value TEXT)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_value IS NULL OR btrim(p_value) = '' THEN
+    RETURN NULL;
+  END IF;
+  RETURN p_value::DATE;
+EXCEPTION WHEN OTHERS THEN
+  RETURN NULL;
+END;
+$$;
+
+-- 5) Core scorer.
+--    score = 0.5 * title + 0.3 * distance + 0.2 * dates
+--      title    : trigram similarity of normalized titles (1 when equal)
+--      distance : 1 within 0.5 km, linear to 0 at 25 km; when either side
+--                 has no coordinates, trigram similarity of the addresses
+--      dates    : 1 when the date ranges overlap, -0.25 per day apart
+--    Only shows starting within 3 days of the input range are considered.
+CREATE OR REPLACE FUNCTION public.find_show_duplicates(
+  p_title TEXT,
+  p_address TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_exclude_show_id UUID DEFAULT NULL,
+  p_min_score NUMERIC DEFAULT 0.6,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  show_id      UUID,
+  title        TEXT,
+  location     TEXT,
+  address      TEXT,
+  start_date   TIMESTAMPTZ,
+  end_date     TIMESTAMPTZ,
+  status       TEXT,
+  score        NUMERIC,
+  title_score  NUMERIC,
+  distance_km  NUMERIC,
+  date_score   NUMERIC,
+  reasons      TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_title  TEXT := public.normalize_show_title(p_title);
+  v_point  GEOGRAPHY;
+  v_start  DATE := p_start_date;
+  v_end    DATE := COALESCE(p_end_date, p_start_date);
+BEGIN
+  IF v_start IS NULL OR v_title = '' THEN
+    RETURN;
+  END IF;
+
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    v_point := ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::GEOGRAPHY;
+  ELSIF p_address IS NOT NULL THEN
+    SELECT ST_SetSRID(ST_MakePoint(gc.lng, gc.lat), 4326)::GEOGRAPHY
+    INTO v_point
+    FROM public.geocode_cache gc
+    WHERE gc.address_norm = public.normalize_geocode_address(p_address);
+  END IF;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      s.id, s.title, s.location, s.address, s.start_date, s.end_date, s.status,
+      COALESCE(
+        s.coordinates,
+        (SELECT ST_SetSRID(ST_MakePoint(gc.lng, gc.lat), 4326)::GEOGRAPHY
+         FROM public.geocode_cache gc
+         WHERE gc.address_norm = public.normalize_geocode_address(s.address))
+      ) AS point,
+      s.start_date::DATE AS s_start,
+      COALESCE(s.end_date, s.start_date)::DATE AS s_end
+    FROM public.shows s
+    WHERE s.start_date::DATE BETWEEN v_start - 3 AND v_end + 3
+      AND s.id IS DISTINCT FROM p_exclude_show_id
+      AND upper(COALESCE(s.status, '')) NOT IN ('MERGED', 'CANCELLED', 'REJECTED')
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      CASE
+        WHEN public.normalize_show_title(c.title) = v_title THEN 1
+        ELSE similarity(public.normalize_show_title(c.title), v_title)
+      END::NUMERIC AS t_score,
+      CASE
+        WHEN c.point IS NOT NULL AND v_point IS NOT NULL
+          THEN (ST_Distance(c.point, v_point) / 1000.0)::NUMERIC
+      END AS dist_km,
+      GREATEST(
+        0,
+        1 - GREATEST(c.s_start - v_end, v_start - c.s_end, 0) * 0.25
+      )::NUMERIC AS d_score
+    FROM candidates c
+  ),
+  final AS (
+    SELECT
+      sc.*,
+      CASE
+        WHEN sc.dist_km IS NOT NULL
+          THEN GREATEST(0, LEAST(1, 1 - (sc.dist_km - 0.5) / 24.5))
+        ELSE similarity(
+          public.normalize_geocode_address(sc.address),
+          public.normalize_geocode_address(p_address)
+        )::NUMERIC
+      END AS g_score
+    FROM scored sc
+  )
+  SELECT
+    f.id,
+    f.title,
+    f.location,
+    f.address,
+    f.start_date,
+    f.end_date,
+    f.status,
+    round(0.5 * f.t_score + 0.3 * f.g_score + 0.2 * f.d_score, 2),
+    round(f.t_score, 2),
+    round(f.dist_km, 1),
+    round(f.d_score, 2),
+    array_remove(ARRAY[
+      CASE WHEN f.t_score = 1 THEN 'Same title'
+           WHEN f.t_score >= 0.6 THEN 'Similar title' END,
+      CASE WHEN f.dist_km <= 0.5 THEN 'Same venue'
+           WHEN f.dist_km IS NOT NULL AND f.dist_km <= 25
+             THEN 'Within ' || round(f.dist_km, 1) || ' km' END,
+      CASE WHEN f.s_start = v_start AND f.s_end = v_end THEN 'Same dates'
+           WHEN f.d_score = 1 THEN 'Overlapping dates' END
+    ], NULL)
+  FROM final f
+  WHERE 0.5 * f.t_score + 0.3 * f.g_score + 0.2 * f.d_score >= p_min_score
+  ORDER BY 8 DESC, f.start_date
+  LIMIT p_limit;
+END;
+$$;
+
+-- 6) Entry points for the review flows
+
+-- Scraped / web-submitted show awaiting review in `scraped_shows_pending`
+CREATE OR REPLACE FUNCTION public.find_duplicates_for_pending(
+  p_pending_id UUID,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  show_id      UUID,
+  title        TEXT,
+  location     TEXT,
+  address      TEXT,
+  start_date   TIMESTAMPTZ,
+  end_date     TIMESTAMPTZ,
+  status       TEXT,
+  score        NUMERIC,
+  title_score  NUMERIC,
+  distance_km  NUMERIC,
+  date_score   NUMERIC,
+  reasons      TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pending  public.scraped_shows_pending%ROWTYPE;
+  v_data     JSONB;
+  v_schedule JSONB;
+  v_address  TEXT;
+  v_start    DATE;
+  v_end      DATE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_pending FROM public.scraped_shows_pending WHERE id = p_pending_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending show not found';
+  END IF;
+
+  -- Normalized fields win over the raw AI / web-form payload
+  v_data := COALESCE(v_pending.raw_payload, '{}'::jsonb) || COALESCE(v_pending.normalized_json, '{}'::jsonb);
+  v_schedule := v_data->'dailySchedule';
+
+  IF jsonb_typeof(v_schedule) = 'array' AND jsonb_array_length(v_schedule) > 0 THEN
+    v_start := public.try_parse_date(v_schedule->0->>'date');
+    v_end := public.try_parse_date(v_schedule->(jsonb_array_length(v_schedule) - 1)->>'date');
+  ELSE
+    v_start := public.try_parse_date(v_data->>'startDate');
+    v_end := public.try_parse_date(v_data->>'endDate');
+  END IF;
+
+  v_address := NULLIF(concat_ws(', ',
+    NULLIF(v_data->>'address', ''),
+    CASE WHEN position(COALESCE(v_data->>'city', '') IN COALESCE(v_data->>'address', '')) = 0
+         THEN NULLIF(v_data->>'city', '') END,
+    CASE WHEN position(COALESCE(v_data->>'city', '') IN COALESCE(v_data->>'address', '')) = 0
+         THEN NULLIF(v_data->>'state', '') END
+  ), '');
+
+  RETURN QUERY
+  SELECT *
+  FROM public.find_show_duplicates(
+    v_data->>'name',
+    v_address,
+    COALESCE(v_pending.geocoded_json->>'lat', v_pending.geocoded_json->>'latitude')::DOUBLE PRECISION,
+    COALESCE(v_pending.geocoded_json->>'lng', v_pending.geocoded_json->>'longitude')::DOUBLE PRECISION,
+    v_start,
+    v_end,
+    NULL,
+    0.6,
+    p_limit
+  );
+END;
+$$;
+
+-- Any show row: PENDING scraper rows on the admin dashboard, organizer
+-- entries, or two live shows an admin suspects are the same
+CREATE OR REPLACE FUNCTION public.find_duplicates_for_show(
+  p_show_id UUID,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  show_id      UUID,
+  title        TEXT,
+  location     TEXT,
+  address      TEXT,
+  start_date   TIMESTAMPTZ,
+  end_date     TIMESTAMPTZ,
+  status       TEXT,
+  score        NUMERIC,
+  title_score  NUMERIC,
+  distance_km  NUMERIC,
+  date_score   NUMERIC,
+  reasons      TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_show public.shows%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_show FROM public.shows WHERE id = p_show_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Show not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM public.find_show_duplicates(
+    v_show.title,
+    v_show.address,
+    CASE WHEN v_show.coordinates IS NOT NULL THEN ST_Y(v_show.coordinates::GEOMETRY) END,
+    CASE WHEN v_show.coordinates IS NOT NULL THEN ST_X(v_show.coordinates::GEOMETRY) END,
+    v_show.start_date::DATE,
+    COALESCE(v_show.end_date, v_show.start_date)::DATE,
+    v_show.id,
+    0.6,
+    p_limit
+  );
+END;
+$$;
+
+-- 7) Merge: move everything attached to p_duplicate_id onto p_survivor_id.
+--    Rows that would violate a per-user uniqueness on the survivor (the
+--    user already favorited / reviewed / registered there) are dropped.
+CREATE OR REPLACE FUNCTION public.merge_shows(
+  p_survivor_id UUID,
+  p_duplicate_id UUID,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor  public.shows%ROWTYPE;
+  v_duplicate public.shows%ROWTYPE;
+  v_favorites INTEGER := 0;
+  v_attending INTEGER := 0;
+  v_reviews   INTEGER := 0;
+  v_dealers   INTEGER := 0;
+  v_wantlists INTEGER := 0;
+  v_moved     JSONB;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a show into itself';
+  END IF;
+
+  -- Lock both rows so two admins cannot merge the same pair concurrently
+  SELECT * INTO v_survivor FROM public.shows WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving show not found';
+  END IF;
+  SELECT * INTO v_duplicate FROM public.shows WHERE id = p_duplicate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duplicate show not found';
+  END IF;
+
+  IF upper(COALESCE(v_survivor.status, '')) = 'MERGED' THEN
+    RAISE EXCEPTION 'Surviving show was itself merged into %', v_survivor.merged_into_id;
+  END IF;
+  IF upper(COALESCE(v_duplicate.status, '')) = 'MERGED' THEN
+    RAISE EXCEPTION 'Show was already merged into %', v_duplicate.merged_into_id;
+  END IF;
+
+  -- Favorites
+  UPDATE public.user_favorite_shows f
+  SET show_id = p_survivor_id
+  WHERE f.show_id = p_duplicate_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_favorite_shows x
+      WHERE x.show_id = p_survivor_id AND x.user_id = f.user_id
+    );
+  GET DIAGNOSTICS v_favorites = ROW_COUNT;
+  DELETE FROM public.user_favorite_shows WHERE show_id = p_duplicate_id;
+
+  -- Planned attendance
+  UPDATE public.planned_attendance a
+  SET show_id = p_survivor_id
+  WHERE a.show_id = p_duplicate_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.planned_attendance x
+      WHERE x.show_id = p_survivor_id AND x.user_id = a.user_id
+    );
+  GET DIAGNOSTICS v_attending = ROW_COUNT;
+  DELETE FROM public.planned_attendance WHERE show_id = p_duplicate_id;
+
+  -- Reviews (a user keeps their review on the survivor if they wrote both)
+  UPDATE public.reviews r
+  SET show_id = p_survivor_id,
+      series_id = COALESCE(r.series_id, v_survivor.series_id)
+  WHERE r.show_id = p_duplicate_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.reviews x
+      WHERE x.show_id = p_survivor_id AND x.user_id = r.user_id
+    );
+  GET DIAGNOSTICS v_reviews = ROW_COUNT;
+
+  -- Dealer participation
+  UPDATE public.show_participants p
+  SET showid = p_survivor_id
+  WHERE p.showid = p_duplicate_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.show_participants x
+      WHERE x.showid = p_survivor_id AND x.userid = p.userid
+    );
+  GET DIAGNOSTICS v_dealers = ROW_COUNT;
+  DELETE FROM public.show_participants WHERE showid = p_duplicate_id;
+
+  -- Want-list shares
+  UPDATE public.shared_want_lists w
+  SET showid = p_survivor_id
+  WHERE w.showid = p_duplicate_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.shared_want_lists x
+      WHERE x.showid = p_survivor_id AND x.userid = w.userid
+    );
+  GET DIAGNOSTICS v_wantlists = ROW_COUNT;
+  DELETE FROM public.shared_want_lists WHERE showid = p_duplicate_id;
+
+  -- Web submissions that produced the duplicate now point at the survivor
+  UPDATE public.web_show_submissions
+  SET approved_show_id = p_survivor_id
+  WHERE approved_show_id = p_duplicate_id;
+
+  -- Survivor inherits details it was missing
+  UPDATE public.shows
+  SET description  = COALESCE(NULLIF(description, ''), v_duplicate.description),
+      website_url  = COALESCE(NULLIF(website_url, ''), v_duplicate.website_url),
+      image_url    = COALESCE(NULLIF(image_url, ''), v_duplicate.image_url),
+      entry_fee    = COALESCE(entry_fee, v_duplicate.entry_fee),
+      coordinates  = COALESCE(coordinates, v_duplicate.coordinates),
+      organizer_id = COALESCE(organizer_id, v_duplicate.organizer_id),
+      updated_at   = now()
+  WHERE id = p_survivor_id;
+
+  UPDATE public.shows
+  SET status = 'MERGED',
+      merged_into_id = p_survivor_id,
+      updated_at = now()
+  WHERE id = p_duplicate_id;
+
+  v_moved := jsonb_build_object(
+    'favorites', v_favorites,
+    'planned_attendance', v_attending,
+    'reviews', v_reviews,
+    'dealers', v_dealers,
+    'want_list_shares', v_wantlists
+  );
+
+  INSERT INTO public.show_merges (survivor_id, merged_id, merged_by, moved, merged_snapshot, notes)
+  VALUES (p_survivor_id, p_duplicate_id, auth.uid(), v_moved, to_jsonb(v_duplicate), p_notes);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'survivor_id', p_survivor_id,
+    'merged_id', p_duplicate_id,
+    'moved', v_moved
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_show_duplicates(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DATE, DATE, UUID, NUMERIC, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.find_duplicates_for_pending(UUID, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.find_duplicates_for_show(UUID, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.merge_shows(UUID, UUID, TEXT) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.find_show_duplicates(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DATE, DATE, UUID, NUMERIC, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.find_duplicates_for_pending(UUID, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.find_duplicates_for_show(UUID, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.merge_shows(UUID, UUID, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.find_show_duplicates IS 'Scores existing shows against a candidate (title, distance, date overlap); used by the admin review flows';
+COMMENT ON FUNCTION public.find_duplicates_for_pending IS 'Likely duplicates of a scraped / web-submitted pending show';
+COMMENT ON FUNCTION public.find_duplicates_for_show IS 'Likely duplicates of an existing show row';
+COMMENT ON FUNCTION public.merge_shows IS 'Merges a duplicate show into a survivor, re-pointing favorites, attendance, reviews, dealers and want-list shares';
+
+COMMIT;
@@ -0,0 +1,333 @@
+-- Migration: 20251020150000_dealer_inventory.sql
+-- Description: Structured dealer inventory (player, set, year, number, grade,
+--              price, quantity, photos), per-show "bringing to show" links,
+--              inventory search for a show and bulk CSV import.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Inventory items (one row per card / lot a dealer has for sale)
+CREATE TABLE IF NOT EXISTS public.dealer_inventory_items (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dealer_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sku           TEXT,
+  player_name   TEXT NOT NULL CHECK (length(trim(player_name)) > 0),
+  set_name      TEXT,
+  year          INTEGER CHECK (year BETWEEN 1850 AND 2100),
+  card_number   TEXT,
+  grader        TEXT,
+  grade         TEXT,
+  card_types    TEXT[] NOT NULL DEFAULT '{}',
+  asking_price  NUMERIC(10, 2) CHECK (asking_price >= 0),
+  quantity      INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 0),
+  photo_paths   TEXT[] NOT NULL DEFAULT '{}',
+  notes         TEXT,
+  search_text   TEXT GENERATED ALWAYS AS (
+                  lower(
+                    coalesce(player_name, '') || ' ' ||
+                    coalesce(set_name, '') || ' ' ||
+                    coalesce(year::text, '') || ' ' ||
+                    coalesce(card_number, '') || ' ' ||
+                    coalesce(grader, '') || ' ' ||
+                    coalesce(grade, '')
+                  )
+                ) STORED,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- SKU is optional; when present it identifies the row for CSV re-imports
+CREATE UNIQUE INDEX IF NOT EXISTS uq_dealer_inventory_items_dealer_sku
+  ON public.dealer_inventory_items (dealer_id, sku)
+  WHERE sku IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dealer_inventory_items_dealer
+  ON public.dealer_inventory_items (dealer_id);
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_dealer_inventory_items_search_trgm
+  ON public.dealer_inventory_items USING GIN (search_text gin_trgm_ops);
+
+COMMENT ON TABLE public.dealer_inventory_items IS
+'Structured dealer inventory. photo_paths are card_images bucket paths (<dealer_id>/inventory/...). quantity 0 = sold out, kept for re-stocking.';
+
+-- 2) Which items a dealer is bringing to which show
+CREATE TABLE IF NOT EXISTS public.dealer_inventory_show_items (
+  item_id     UUID NOT NULL REFERENCES public.dealer_inventory_items(id) ON DELETE CASCADE,
+  show_id     UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  dealer_id   UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (item_id, show_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dealer_inventory_show_items_show
+  ON public.dealer_inventory_show_items (show_id, dealer_id);
+
+-- 3) RLS – inventory is public to browse, only the dealer can change it
+ALTER TABLE public.dealer_inventory_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dealer_inventory_show_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dealer_inventory_items_select_all" ON public.dealer_inventory_items;
+CREATE POLICY "dealer_inventory_items_select_all"
+  ON public.dealer_inventory_items
+  FOR SELECT
+  USING (TRUE);
+
+DROP POLICY IF EXISTS "dealer_inventory_items_insert_self" ON public.dealer_inventory_items;
+CREATE POLICY "dealer_inventory_items_insert_self"
+  ON public.dealer_inventory_items
+  FOR INSERT
+  WITH CHECK (dealer_id = auth.uid());
+
+DROP POLICY IF EXISTS "dealer_inventory_items_update_self" ON public.dealer_inventory_items;
+CREATE POLICY "dealer_inventory_items_update_self"
+  ON public.dealer_inventory_items
+  FOR UPDATE
+  USING (dealer_id = auth.uid())
+  WITH CHECK (dealer_id = auth.uid());
+
+DROP POLICY IF EXISTS "dealer_inventory_items_delete_self" ON public.dealer_inventory_items;
+CREATE POLICY "dealer_inventory_items_delete_self"
+  ON public.dealer_inventory_items
+  FOR DELETE
+  USING (dealer_id = auth.uid());
+
+DROP POLICY IF EXISTS "dealer_inventory_show_items_select_all" ON public.dealer_inventory_show_items;
+CREATE POLICY "dealer_inventory_show_items_select_all"
+  ON public.dealer_inventory_show_items
+  FOR SELECT
+  USING (TRUE);
+
+DROP POLICY IF EXISTS "dealer_inventory_show_items_insert_self" ON public.dealer_inventory_show_items;
+CREATE POLICY "dealer_inventory_show_items_insert_self"
+  ON public.dealer_inventory_show_items
+  FOR INSERT
+  WITH CHECK (
+    dealer_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.dealer_inventory_items i
+      WHERE i.id = item_id AND i.dealer_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "dealer_inventory_show_items_delete_self" ON public.dealer_inventory_show_items;
+CREATE POLICY "dealer_inventory_show_items_delete_self"
+  ON public.dealer_inventory_show_items
+  FOR DELETE
+  USING (dealer_id = auth.uid());
+
+GRANT SELECT ON TABLE public.dealer_inventory_items TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON TABLE public.dealer_inventory_items TO authenticated;
+GRANT SELECT ON TABLE public.dealer_inventory_show_items TO anon, authenticated;
+GRANT INSERT, DELETE ON TABLE public.dealer_inventory_show_items TO authenticated;
+GRANT ALL ON TABLE public.dealer_inventory_items TO service_role;
+GRANT ALL ON TABLE public.dealer_inventory_show_items TO service_role;
+
+-- 4) Keep updated_at current
+CREATE OR REPLACE FUNCTION public.touch_dealer_inventory_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_dealer_inventory_item ON public.dealer_inventory_items;
+CREATE TRIGGER trg_touch_dealer_inventory_item
+  BEFORE UPDATE ON public.dealer_inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_dealer_inventory_item();
+
+-- 5) Search what dealers are bringing to a show
+--    Every whitespace-separated term must match (player, set, year, number,
+--    grader or grade). p_card_types matches any of the item's card types,
+--    case-insensitively, using the same labels as the dealerCardTypes filter.
+CREATE OR REPLACE FUNCTION public.search_show_inventory(
+  p_show_id     UUID,
+  p_query       TEXT DEFAULT NULL,
+  p_card_types  TEXT[] DEFAULT NULL,
+  p_limit       INTEGER DEFAULT 50,
+  p_offset      INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id              UUID,
+  dealer_id       UUID,
+  dealer_name     TEXT,
+  booth_location  TEXT,
+  sku             TEXT,
+  player_name     TEXT,
+  set_name        TEXT,
+  year            INTEGER,
+  card_number     TEXT,
+  grader          TEXT,
+  grade           TEXT,
+  card_types      TEXT[],
+  asking_price    NUMERIC,
+  quantity        INTEGER,
+  photo_paths     TEXT[],
+  notes           TEXT,
+  updated_at      TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH terms AS (
+    SELECT array_remove(regexp_split_to_array(lower(trim(coalesce(p_query, ''))), '\s+'), '') AS list
+  ),
+  wanted_types AS (
+    SELECT array_agg(lower(t)) AS list FROM unnest(coalesce(p_card_types, '{}')) AS t
+  )
+  SELECT
+    i.id,
+    i.dealer_id,
+    COALESCE(
+      NULLIF(TRIM(p.display_name), ''),
+      NULLIF(TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      'Dealer'
+    ) AS dealer_name,
+    sp.booth_location,
+    i.sku,
+    i.player_name,
+    i.set_name,
+    i.year,
+    i.card_number,
+    i.grader,
+    i.grade,
+    i.card_types,
+    i.asking_price,
+    i.quantity,
+    i.photo_paths,
+    i.notes,
+    i.updated_at
+  FROM public.dealer_inventory_show_items si
+  JOIN public.dealer_inventory_items i ON i.id = si.item_id
+  LEFT JOIN public.profiles p ON p.id = i.dealer_id
+  LEFT JOIN public.show_participants sp
+    ON sp.showid = si.show_id AND sp.userid = si.dealer_id
+  CROSS JOIN terms
+  CROSS JOIN wanted_types
+  WHERE si.show_id = p_show_id
+    AND i.quantity > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(terms.list) AS term
+      WHERE i.search_text NOT LIKE '%' || term || '%'
+    )
+    AND (
+      wanted_types.list IS NULL
+      OR EXISTS (
+        SELECT 1 FROM unnest(i.card_types) AS ct
+        WHERE lower(ct) = ANY (wanted_types.list)
+      )
+    )
+  ORDER BY i.player_name, i.year NULLS LAST, i.card_number
+  LIMIT LEAST(GREATEST(p_limit, 1), 200)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_show_inventory(UUID, TEXT, TEXT[], INTEGER, INTEGER) TO anon, authenticated;
+
+-- 6) Bulk import (CSV rows parsed client-side)
+--    Rows with a SKU update the dealer's existing item with that SKU; rows
+--    without one are always inserted. Optionally links every imported item
+--    to p_show_id. Runs as the caller so RLS still applies.
+CREATE OR REPLACE FUNCTION public.import_dealer_inventory(
+  p_items    JSONB,
+  p_show_id  UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_dealer_id  UUID := auth.uid();
+  v_row        JSONB;
+  v_item_id    UUID;
+  v_existing   UUID;
+  v_inserted   INTEGER := 0;
+  v_updated    INTEGER := 0;
+  v_linked     INTEGER := 0;
+BEGIN
+  IF v_dealer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' THEN
+    RAISE EXCEPTION 'p_items must be a JSON array';
+  END IF;
+
+  IF jsonb_array_length(p_items) > 1000 THEN
+    RAISE EXCEPTION 'Import at most 1000 rows per call';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_existing := NULL;
+
+    IF NULLIF(trim(v_row->>'sku'), '') IS NOT NULL THEN
+      SELECT i.id INTO v_existing
+      FROM public.dealer_inventory_items i
+      WHERE i.dealer_id = v_dealer_id AND i.sku = trim(v_row->>'sku');
+    END IF;
+
+    IF v_existing IS NOT NULL THEN
+      UPDATE public.dealer_inventory_items SET
+        player_name  = v_row->>'player_name',
+        set_name     = NULLIF(v_row->>'set_name', ''),
+        year         = (v_row->>'year')::INTEGER,
+        card_number  = NULLIF(v_row->>'card_number', ''),
+        grader       = NULLIF(v_row->>'grader', ''),
+        grade        = NULLIF(v_row->>'grade', ''),
+        card_types   = COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_row->'card_types')), '{}'),
+        asking_price = (v_row->>'asking_price')::NUMERIC,
+        quantity     = COALESCE((v_row->>'quantity')::INTEGER, 1),
+        notes        = NULLIF(v_row->>'notes', '')
+      WHERE id = v_existing
+      RETURNING id INTO v_item_id;
+      v_updated := v_updated + 1;
+    ELSE
+      INSERT INTO public.dealer_inventory_items (
+        dealer_id, sku, player_name, set_name, year, card_number,
+        grader, grade, card_types, asking_price, quantity, notes
+      ) VALUES (
+        v_dealer_id,
+        NULLIF(trim(v_row->>'sku'), ''),
+        v_row->>'player_name',
+        NULLIF(v_row->>'set_name', ''),
+        (v_row->>'year')::INTEGER,
+        NULLIF(v_row->>'card_number', ''),
+        NULLIF(v_row->>'grader', ''),
+        NULLIF(v_row->>'grade', ''),
+        COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_row->'card_types')), '{}'),
+        (v_row->>'asking_price')::NUMERIC,
+        COALESCE((v_row->>'quantity')::INTEGER, 1),
+        NULLIF(v_row->>'notes', '')
+      )
+      RETURNING id INTO v_item_id;
+      v_inserted := v_inserted + 1;
+    END IF;
+
+    IF p_show_id IS NOT NULL THEN
+      INSERT INTO public.dealer_inventory_show_items (item_id, show_id, dealer_id)
+      VALUES (v_item_id, p_show_id, v_dealer_id)
+      ON CONFLICT (item_id, show_id) DO NOTHING;
+      IF FOUND THEN
+        v_linked := v_linked + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'linked', v_linked
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_dealer_inventory(JSONB, UUID) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,402 @@
+-- Migration: 20251020160000_want_list_matching.sql
+-- Description: Structured want-list entries (player/set/year/grade/max price)
+--              and matching against the inventory of dealers registered for
+--              the shows a collector plans to attend. New matches notify
+--              both the collector and the dealer.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Structured entries, parsed from want_lists.content
+CREATE TABLE IF NOT EXISTS public.want_list_items (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  player_name  TEXT NOT NULL CHECK (length(trim(player_name)) > 0),
+  set_name     TEXT,
+  year         INTEGER CHECK (year BETWEEN 1850 AND 2100),
+  card_number  TEXT,
+  grader       TEXT,
+  min_grade    NUMERIC(3, 1) CHECK (min_grade BETWEEN 0 AND 10),
+  max_price    NUMERIC(10, 2) CHECK (max_price >= 0),
+  notes        TEXT,
+  source_text  TEXT,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_want_list_items_user
+  ON public.want_list_items (user_id);
+
+COMMENT ON TABLE public.want_list_items IS
+'Structured want-list entries. Replaced as a set whenever the user saves their want list; source_text is the free-text line the entry came from.';
+
+-- Lists that have been parsed into want_list_items (NULL = not upgraded yet)
+ALTER TABLE public.want_lists
+  ADD COLUMN IF NOT EXISTS structured_at TIMESTAMPTZ;
+
+-- Edited content needs re-parsing; the app re-parses right after saving,
+-- and match-want-lists picks up anything it missed
+CREATE OR REPLACE FUNCTION public.want_lists_reset_structured_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.structured_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_want_lists_reset_structured_at ON public.want_lists;
+CREATE TRIGGER trg_want_lists_reset_structured_at
+  BEFORE UPDATE OF content ON public.want_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.want_lists_reset_structured_at();
+
+-- 2) Matches between a collector's want and a dealer's item at a show
+CREATE TABLE IF NOT EXISTS public.want_list_matches (
+  id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  want_item_id          UUID NOT NULL REFERENCES public.want_list_items(id) ON DELETE CASCADE,
+  inventory_item_id     UUID NOT NULL REFERENCES public.dealer_inventory_items(id) ON DELETE CASCADE,
+  show_id               UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  collector_id          UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dealer_id             UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  score                 NUMERIC(4, 3) NOT NULL,
+  matched_at            TIMESTAMPTZ NOT NULL DEFAULT now(),
+  collector_notified_at TIMESTAMPTZ,
+  dealer_notified_at    TIMESTAMPTZ,
+  UNIQUE (want_item_id, inventory_item_id, show_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_want_list_matches_collector
+  ON public.want_list_matches (collector_id, show_id);
+CREATE INDEX IF NOT EXISTS idx_want_list_matches_dealer
+  ON public.want_list_matches (dealer_id, show_id);
+
+-- 3) RLS
+ALTER TABLE public.want_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.want_list_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "want_list_items_select_self" ON public.want_list_items;
+CREATE POLICY "want_list_items_select_self"
+  ON public.want_list_items
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "want_list_items_insert_self" ON public.want_list_items;
+CREATE POLICY "want_list_items_insert_self"
+  ON public.want_list_items
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "want_list_items_update_self" ON public.want_list_items;
+CREATE POLICY "want_list_items_update_self"
+  ON public.want_list_items
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "want_list_items_delete_self" ON public.want_list_items;
+CREATE POLICY "want_list_items_delete_self"
+  ON public.want_list_items
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Matches are written by refresh_want_list_matches(); both sides can read
+DROP POLICY IF EXISTS "want_list_matches_select_party" ON public.want_list_matches;
+CREATE POLICY "want_list_matches_select_party"
+  ON public.want_list_matches
+  FOR SELECT
+  USING (collector_id = auth.uid() OR dealer_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.want_list_items TO authenticated;
+GRANT SELECT ON TABLE public.want_list_matches TO authenticated;
+GRANT ALL ON TABLE public.want_list_items TO service_role;
+GRANT ALL ON TABLE public.want_list_matches TO service_role;
+
+-- 4) Replace a user's entries in one call (used when the want list is saved)
+CREATE OR REPLACE FUNCTION public.replace_want_list_items(p_items JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count   INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' THEN
+    RAISE EXCEPTION 'p_items must be a JSON array';
+  END IF;
+
+  DELETE FROM public.want_list_items WHERE user_id = v_user_id;
+
+  INSERT INTO public.want_list_items (
+    user_id, player_name, set_name, year, card_number, grader,
+    min_grade, max_price, notes, source_text
+  )
+  SELECT
+    v_user_id,
+    trim(e->>'player_name'),
+    NULLIF(e->>'set_name', ''),
+    (e->>'year')::INTEGER,
+    NULLIF(e->>'card_number', ''),
+    NULLIF(upper(e->>'grader'), ''),
+    (e->>'min_grade')::NUMERIC,
+    (e->>'max_price')::NUMERIC,
+    NULLIF(e->>'notes', ''),
+    NULLIF(e->>'source_text', '')
+  FROM jsonb_array_elements(p_items) AS e
+  WHERE NULLIF(trim(e->>'player_name'), '') IS NOT NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.want_lists SET structured_at = now() WHERE userid = v_user_id;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_want_list_items(JSONB) TO authenticated;
+
+-- 5) Does an inventory item satisfy a want? NULL = no, else a 0–1 score.
+--    Player must match (substring of the item text or close trigram
+--    similarity); every other field set on the want must be satisfied.
+--    Grades compare numerically ("9.5" >= 9); non-numeric grades never
+--    satisfy a minimum.
+CREATE OR REPLACE FUNCTION public.want_list_match_score(
+  w public.want_list_items,
+  i public.dealer_inventory_items
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN w.year IS NOT NULL AND i.year IS DISTINCT FROM w.year THEN NULL
+    WHEN w.set_name IS NOT NULL
+      AND position(lower(w.set_name) IN lower(coalesce(i.set_name, ''))) = 0 THEN NULL
+    WHEN w.card_number IS NOT NULL
+      AND lower(ltrim(w.card_number, '#')) IS DISTINCT FROM lower(ltrim(i.card_number, '#')) THEN NULL
+    WHEN w.grader IS NOT NULL AND upper(coalesce(i.grader, '')) <> upper(w.grader) THEN NULL
+    WHEN w.min_grade IS NOT NULL AND (
+      coalesce(i.grade, '') !~ '^\d{1,2}(\.\d)?$' OR i.grade::NUMERIC < w.min_grade
+    ) THEN NULL
+    WHEN w.max_price IS NOT NULL AND i.asking_price > w.max_price THEN NULL
+    WHEN position(lower(trim(w.player_name)) IN i.search_text) > 0 THEN 1.0
+    WHEN similarity(lower(w.player_name), lower(i.player_name)) >= 0.5
+      THEN round(similarity(lower(w.player_name), lower(i.player_name))::NUMERIC, 3)
+    ELSE NULL
+  END;
+$$;
+
+-- 6) Compute matches for upcoming shows and notify both sides
+--    Collectors: planned_attendance. Dealers: show_participants that are
+--    registered or confirmed. A dealer's items for a show are the ones marked as
+--    bringing to it, or their whole in-stock inventory when they haven't
+--    marked any ("may have").
+CREATE OR REPLACE FUNCTION public.refresh_want_list_matches(p_show_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_new_matches     INTEGER;
+  v_collector_notes INTEGER;
+  v_dealer_notes    INTEGER;
+BEGIN
+  WITH target_shows AS (
+    SELECT s.id
+    FROM public.shows s
+    WHERE (p_show_id IS NULL OR s.id = p_show_id)
+      AND s.status = 'ACTIVE'
+      AND coalesce(s.end_date, s.start_date) >= now()
+  ),
+  show_dealers AS (
+    SELECT DISTINCT sp.showid AS show_id, sp.userid AS dealer_id
+    FROM public.show_participants sp
+    JOIN target_shows t ON t.id = sp.showid
+    WHERE sp.status IN ('registered', 'confirmed')
+  ),
+  dealer_items AS (
+    SELECT sd.show_id, i.id AS item_id
+    FROM show_dealers sd
+    JOIN public.dealer_inventory_items i ON i.dealer_id = sd.dealer_id
+    WHERE i.quantity > 0
+      AND (
+        EXISTS (
+          SELECT 1 FROM public.dealer_inventory_show_items si
+          WHERE si.item_id = i.id AND si.show_id = sd.show_id
+        )
+        OR NOT EXISTS (
+          SELECT 1 FROM public.dealer_inventory_show_items si
+          WHERE si.dealer_id = sd.dealer_id AND si.show_id = sd.show_id
+        )
+      )
+  ),
+  candidates AS (
+    SELECT
+      w.id AS want_item_id,
+      i.id AS inventory_item_id,
+      di.show_id,
+      w.user_id AS collector_id,
+      i.dealer_id,
+      public.want_list_match_score(w, i) AS score
+    FROM public.planned_attendance pa
+    JOIN target_shows t ON t.id = pa.show_id
+    JOIN public.want_list_items w ON w.user_id = pa.user_id
+    JOIN dealer_items di ON di.show_id = pa.show_id
+    JOIN public.dealer_inventory_items i ON i.id = di.item_id
+    WHERE i.dealer_id <> pa.user_id
+  )
+  INSERT INTO public.want_list_matches (
+    want_item_id, inventory_item_id, show_id, collector_id, dealer_id, score
+  )
+  SELECT want_item_id, inventory_item_id, show_id, collector_id, dealer_id, score
+  FROM candidates
+  WHERE score IS NOT NULL
+  ON CONFLICT (want_item_id, inventory_item_id, show_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_new_matches = ROW_COUNT;
+
+  -- Collector: "3 dealers at <show> may have your items"
+  WITH pending AS (
+    SELECT m.collector_id, m.show_id, count(DISTINCT m.dealer_id) AS dealers
+    FROM public.want_list_matches m
+    WHERE m.collector_notified_at IS NULL
+      AND (p_show_id IS NULL OR m.show_id = p_show_id)
+    GROUP BY m.collector_id, m.show_id
+  ),
+  inserted AS (
+    INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+    SELECT
+      p.collector_id,
+      'Want list matches at ' || s.title,
+      CASE WHEN p.dealers = 1
+        THEN '1 dealer at ' || s.title || ' may have your items'
+        ELSE p.dealers || ' dealers at ' || s.title || ' may have your items'
+      END,
+      'want_list_match',
+      p.show_id
+    FROM pending p
+    JOIN public.shows s ON s.id = p.show_id
+    RETURNING user_id, reference_id
+  )
+  UPDATE public.want_list_matches m
+  SET collector_notified_at = now()
+  FROM inserted n
+  WHERE m.collector_id = n.user_id
+    AND m.show_id = n.reference_id
+    AND m.collector_notified_at IS NULL;
+
+  GET DIAGNOSTICS v_collector_notes = ROW_COUNT;
+
+  -- Dealer: "4 collectors attending <show> want cards you have"
+  WITH pending AS (
+    SELECT m.dealer_id, m.show_id, count(DISTINCT m.collector_id) AS collectors
+    FROM public.want_list_matches m
+    WHERE m.dealer_notified_at IS NULL
+      AND (p_show_id IS NULL OR m.show_id = p_show_id)
+    GROUP BY m.dealer_id, m.show_id
+  ),
+  inserted AS (
+    INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+    SELECT
+      p.dealer_id,
+      'Collectors want your cards at ' || s.title,
+      CASE WHEN p.collectors = 1
+        THEN '1 collector attending ' || s.title || ' wants cards you have'
+        ELSE p.collectors || ' collectors attending ' || s.title || ' want cards you have'
+      END,
+      'want_list_match',
+      p.show_id
+    FROM pending p
+    JOIN public.shows s ON s.id = p.show_id
+    RETURNING user_id, reference_id
+  )
+  UPDATE public.want_list_matches m
+  SET dealer_notified_at = now()
+  FROM inserted n
+  WHERE m.dealer_id = n.user_id
+    AND m.show_id = n.reference_id
+    AND m.dealer_notified_at IS NULL;
+
+  GET DIAGNOSTICS v_dealer_notes = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'new_matches', v_new_matches,
+    'collector_matches_notified', v_collector_notes,
+    'dealer_matches_notified', v_dealer_notes
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_want_list_matches(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.refresh_want_list_matches(UUID) TO service_role;
+
+-- 7) Matches for the current user, from either side
+CREATE OR REPLACE FUNCTION public.get_want_list_matches(p_show_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  id               UUID,
+  show_id          UUID,
+  show_title       TEXT,
+  role             TEXT,
+  collector_id     UUID,
+  collector_name   TEXT,
+  dealer_id        UUID,
+  dealer_name      TEXT,
+  booth_location   TEXT,
+  want_item        JSONB,
+  inventory_item   JSONB,
+  score            NUMERIC,
+  matched_at       TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.show_id,
+    s.title,
+    CASE WHEN m.collector_id = auth.uid() THEN 'collector' ELSE 'dealer' END,
+    m.collector_id,
+    COALESCE(
+      NULLIF(TRIM(cp.display_name), ''),
+      NULLIF(TRIM(COALESCE(cp.first_name, '') || ' ' || COALESCE(cp.last_name, '')), ''),
+      'Collector'
+    ),
+    m.dealer_id,
+    COALESCE(
+      NULLIF(TRIM(dp.display_name), ''),
+      NULLIF(TRIM(COALESCE(dp.first_name, '') || ' ' || COALESCE(dp.last_name, '')), ''),
+      'Dealer'
+    ),
+    sp.booth_location,
+    to_jsonb(w) - 'user_id',
+    to_jsonb(i) - 'search_text',
+    m.score,
+    m.matched_at
+  FROM public.want_list_matches m
+  JOIN public.shows s ON s.id = m.show_id
+  JOIN public.want_list_items w ON w.id = m.want_item_id
+  JOIN public.dealer_inventory_items i ON i.id = m.inventory_item_id
+  LEFT JOIN public.profiles cp ON cp.id = m.collector_id
+  LEFT JOIN public.profiles dp ON dp.id = m.dealer_id
+  LEFT JOIN public.show_participants sp
+    ON sp.showid = m.show_id AND sp.userid = m.dealer_id
+  WHERE (m.collector_id = auth.uid() OR m.dealer_id = auth.uid())
+    AND (p_show_id IS NULL OR m.show_id = p_show_id)
+    AND i.quantity > 0
+  ORDER BY s.start_date, m.score DESC, m.matched_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_want_list_matches(UUID) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,333 @@
+-- Migration: 20251020170000_public_api_keys.sql
+-- Description: Per-consumer API keys for the read-only `public-api` edge
+--              function, the tables behind the shared rate-limit / WAF
+--              middleware, and the v1 query functions it serves.
+-- Date: 2025-10-20
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- 1) Storage for _shared/rate-limit.ts and _shared/waf.ts (service role only)
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key              TEXT NOT NULL,
+  endpoint         TEXT NOT NULL,
+  count            INTEGER NOT NULL DEFAULT 0,
+  first_request_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_request_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at       TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_key_endpoint
+  ON public.rate_limits (key, endpoint, expires_at);
+
+CREATE TABLE IF NOT EXISTS public.waf_logs (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id       TEXT NOT NULL,
+  timestamp        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ip_address       TEXT,
+  user_id          TEXT,
+  method           TEXT,
+  path             TEXT,
+  user_agent       TEXT,
+  attack_type      TEXT,
+  rule_id          TEXT,
+  rule_name        TEXT,
+  location         TEXT,
+  value            TEXT,
+  action           TEXT,
+  protection_level TEXT,
+  severity         TEXT,
+  headers          JSONB,
+  params           JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_waf_logs_timestamp ON public.waf_logs (timestamp);
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.waf_logs ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.rate_limits TO service_role;
+GRANT ALL ON TABLE public.waf_logs TO service_role;
+
+-- 2) API keys. Only a SHA-256 hash is stored; the key itself is shown once.
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name                TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  contact_email       TEXT,
+  key_prefix          TEXT NOT NULL,
+  key_hash            TEXT NOT NULL UNIQUE,
+  requests_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (requests_per_minute > 0),
+  daily_quota         INTEGER NOT NULL DEFAULT 10000 CHECK (daily_quota > 0),
+  notes               TEXT,
+  created_by          UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at        TIMESTAMPTZ,
+  revoked_at          TIMESTAMPTZ,
+  revoked_by          UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.api_keys IS
+'Keys for third-party consumers of the public-api edge function. key_prefix is the first characters of the key, shown in the admin list so keys can be told apart.';
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "api_keys_admin_select" ON public.api_keys;
+CREATE POLICY "api_keys_admin_select"
+  ON public.api_keys
+  FOR SELECT
+  USING (public.has_admin_role());
+
+GRANT SELECT ON TABLE public.api_keys TO authenticated;
+GRANT ALL ON TABLE public.api_keys TO service_role;
+
+-- 3) Issue a key (admins). Returns the plaintext key – it cannot be read later.
+CREATE OR REPLACE FUNCTION public.create_api_key(
+  p_name TEXT,
+  p_contact_email TEXT DEFAULT NULL,
+  p_requests_per_minute INTEGER DEFAULT 60,
+  p_daily_quota INTEGER DEFAULT 10000,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (id UUID, api_key TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key TEXT := 'csk_' || encode(gen_random_bytes(20), 'hex');
+  v_id  UUID;
+BEGIN
+  IF NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Only admins can issue API keys';
+  END IF;
+
+  INSERT INTO public.api_keys (
+    name, contact_email, key_prefix, key_hash,
+    requests_per_minute, daily_quota, notes, created_by
+  )
+  VALUES (
+    trim(p_name),
+    NULLIF(trim(p_contact_email), ''),
+    left(v_key, 12),
+    encode(digest(v_key, 'sha256'), 'hex'),
+    p_requests_per_minute,
+    p_daily_quota,
+    NULLIF(trim(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING api_keys.id INTO v_id;
+
+  RETURN QUERY SELECT v_id, v_key;
+END;
+$$;
+
+-- 4) Revoke a key (admins). Takes effect on the next request.
+CREATE OR REPLACE FUNCTION public.revoke_api_key(p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Only admins can revoke API keys';
+  END IF;
+
+  UPDATE public.api_keys
+  SET revoked_at = now(),
+      revoked_by = auth.uid()
+  WHERE id = p_id
+    AND revoked_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_api_key(TEXT, TEXT, INTEGER, INTEGER, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.revoke_api_key(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_api_key(TEXT, TEXT, INTEGER, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_api_key(UUID) TO authenticated;
+
+-- 5) v1 show shape. Only public listing fields – the API contract must not
+--    change when columns are added to shows.
+CREATE OR REPLACE FUNCTION public.public_api_v1_show(s public.shows)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'title', s.title,
+    'description', s.description,
+    'location', s.location,
+    'address', s.address,
+    'startDate', s.start_date,
+    'endDate', s.end_date,
+    'startTime', s.start_time,
+    'endTime', s.end_time,
+    'entryFee', s.entry_fee,
+    'categories', coalesce(to_jsonb(s.categories), '[]'::jsonb),
+    'features', coalesce(s.features::jsonb, '{}'::jsonb),
+    'imageUrl', s.image_url,
+    'websiteUrl', s.website_url,
+    'seriesId', s.series_id,
+    'latitude', CASE WHEN s.coordinates IS NOT NULL THEN ST_Y(s.coordinates::geometry) END,
+    'longitude', CASE WHEN s.coordinates IS NOT NULL THEN ST_X(s.coordinates::geometry) END,
+    'status', s.status
+  );
+$$;
+
+-- 6) Show search with the same filters as the app's ShowFilters
+CREATE OR REPLACE FUNCTION public.public_api_search_shows(
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT 25,
+  p_start_date DATE DEFAULT CURRENT_DATE,
+  p_end_date DATE DEFAULT NULL,
+  p_max_entry_fee NUMERIC DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_features TEXT[] DEFAULT NULL,
+  p_keyword TEXT DEFAULT NULL,
+  p_dealer_card_types TEXT[] DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH center AS (
+    SELECT CASE
+      WHEN p_latitude IS NOT NULL AND p_longitude IS NOT NULL
+        THEN ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography
+    END AS point
+  ),
+  matched AS (
+    SELECT
+      s,
+      CASE WHEN c.point IS NOT NULL AND s.coordinates IS NOT NULL
+        THEN round((ST_Distance(s.coordinates::geography, c.point) / 1609.34)::NUMERIC, 1)
+      END AS distance_miles
+    FROM public.shows s
+    CROSS JOIN center c
+    WHERE s.status = 'ACTIVE'
+      AND coalesce(s.end_date, s.start_date)::DATE >= coalesce(p_start_date, CURRENT_DATE)
+      AND (p_end_date IS NULL OR s.start_date::DATE <= p_end_date)
+      AND (c.point IS NULL OR (
+        s.coordinates IS NOT NULL
+        AND ST_DWithin(s.coordinates::geography, c.point, coalesce(p_radius_miles, 25) * 1609.34)
+      ))
+      AND (p_max_entry_fee IS NULL OR coalesce(s.entry_fee, 0) <= p_max_entry_fee)
+      AND (p_categories IS NULL OR s.categories && p_categories)
+      AND (p_features IS NULL OR NOT EXISTS (
+        SELECT 1 FROM unnest(p_features) f
+        WHERE coalesce((s.features::jsonb ->> f)::BOOLEAN, FALSE) = FALSE
+      ))
+      AND (p_series_id IS NULL OR s.series_id = p_series_id)
+      AND (p_keyword IS NULL OR (
+        s.title ILIKE '%' || p_keyword || '%'
+        OR s.description ILIKE '%' || p_keyword || '%'
+        OR s.location ILIKE '%' || p_keyword || '%'
+        OR EXISTS (
+          SELECT 1 FROM public.show_participants sp
+          WHERE sp.showid = s.id
+            AND (sp.specialty ILIKE '%' || p_keyword || '%'
+              OR sp.notable_items ILIKE '%' || p_keyword || '%')
+        )
+      ))
+      AND (p_dealer_card_types IS NULL OR EXISTS (
+        SELECT 1 FROM public.show_participants sp
+        WHERE sp.showid = s.id
+          AND sp.status IN ('registered', 'confirmed')
+          AND sp.card_types && p_dealer_card_types
+      ) OR EXISTS (
+        SELECT 1
+        FROM public.dealer_inventory_show_items si
+        JOIN public.dealer_inventory_items i ON i.id = si.item_id
+        WHERE si.show_id = s.id
+          AND i.quantity > 0
+          AND i.card_types && p_dealer_card_types
+      ))
+  )
+  SELECT jsonb_build_object(
+    'data', coalesce((
+      SELECT jsonb_agg(
+        public.public_api_v1_show(page.s) || jsonb_build_object('distanceMiles', page.distance_miles)
+        ORDER BY (page.s).start_date, page.distance_miles NULLS LAST
+      )
+      FROM (
+        SELECT * FROM matched
+        ORDER BY (matched.s).start_date, matched.distance_miles NULLS LAST
+        LIMIT least(greatest(coalesce(p_limit, 20), 1), 100)
+        OFFSET greatest(coalesce(p_offset, 0), 0)
+      ) page
+    ), '[]'::jsonb),
+    'total', (SELECT count(*) FROM matched)
+  );
+$$;
+
+-- 7) Single show. Merged duplicates resolve to the show they were merged into.
+CREATE OR REPLACE FUNCTION public.public_api_get_show(p_show_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.public_api_v1_show(s)
+  FROM public.shows s
+  WHERE s.id = (
+    SELECT coalesce(m.merged_into_id, m.id)
+    FROM public.shows m
+    WHERE m.id = p_show_id
+  );
+$$;
+
+-- 8) Dealer lineup for a show
+CREATE OR REPLACE FUNCTION public.public_api_show_dealers(p_show_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(
+    jsonb_build_object(
+      'dealerId', sp.userid,
+      'name', COALESCE(
+        NULLIF(TRIM(p.display_name), ''),
+        NULLIF(TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+        'Dealer'
+      ),
+      'boothLocation', sp.booth_location,
+      'cardTypes', coalesce(to_jsonb(sp.card_types), '[]'::jsonb),
+      'specialty', sp.specialty,
+      'notableItems', sp.notable_items
+    )
+    ORDER BY sp.booth_location NULLS LAST, p.display_name
+  ), '[]'::jsonb)
+  FROM public.show_participants sp
+  LEFT JOIN public.profiles p ON p.id = sp.userid
+  WHERE sp.showid = p_show_id
+    AND sp.status IN ('registered', 'confirmed');
+$$;
+
+REVOKE ALL ON FUNCTION public.public_api_search_shows(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DATE, DATE, NUMERIC,
+  TEXT[], TEXT[], TEXT, TEXT[], UUID, INTEGER, INTEGER
+) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.public_api_get_show(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.public_api_show_dealers(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.public_api_search_shows(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DATE, DATE, NUMERIC,
+  TEXT[], TEXT[], TEXT, TEXT[], UUID, INTEGER, INTEGER
+) TO service_role;
+GRANT EXECUTE ON FUNCTION public.public_api_get_show(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.public_api_show_dealers(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.public_api_v1_show(public.shows) TO service_role;
+
+COMMIT;
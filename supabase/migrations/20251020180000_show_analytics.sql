@@ -0,0 +1,328 @@
+-- Migration: 20251020180000_show_analytics.sql
+-- Description: Engagement events for organizer analytics – show detail
+--              views, map pin taps, favorites, "get directions" taps and
+--              broadcast opens – with per-show, per-day and per-series
+--              aggregates for the organizer dashboard.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Raw events
+CREATE TABLE IF NOT EXISTS public.show_events (
+  id           BIGSERIAL PRIMARY KEY,
+  show_id      UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  -- Copied from shows.series_id at insert so series rollups survive re-parenting
+  series_id    UUID,
+  user_id      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  event_type   TEXT NOT NULL CHECK (event_type IN (
+                 'detail_view', 'map_pin_tap', 'favorite', 'unfavorite',
+                 'directions_tap', 'broadcast_open'
+               )),
+  -- Broadcast conversation for broadcast_open
+  reference_id UUID,
+  occurred_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_events_show_time
+  ON public.show_events (show_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_show_events_series
+  ON public.show_events (series_id, event_type)
+  WHERE series_id IS NOT NULL;
+
+-- A broadcast counts as opened once per recipient
+CREATE UNIQUE INDEX IF NOT EXISTS uq_show_events_broadcast_open
+  ON public.show_events (reference_id, user_id)
+  WHERE event_type = 'broadcast_open';
+
+COMMENT ON TABLE public.show_events IS
+'Engagement events behind organizer analytics. Written by track_show_event() and by triggers on favorites / broadcast reads; read only through the get_*_analytics functions.';
+
+-- No direct access; all reads and writes go through the functions below
+ALTER TABLE public.show_events ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON TABLE public.show_events TO service_role;
+
+CREATE OR REPLACE FUNCTION public.show_events_set_series_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.series_id IS NULL THEN
+    SELECT series_id INTO NEW.series_id FROM public.shows WHERE id = NEW.show_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_show_events_set_series_id ON public.show_events;
+CREATE TRIGGER trg_show_events_set_series_id
+  BEFORE INSERT ON public.show_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.show_events_set_series_id();
+
+-- 2) Client tracking (views, pin taps, directions). Repeat views / taps by
+--    the same signed-in user within 30 minutes are counted once.
+CREATE OR REPLACE FUNCTION public.track_show_event(p_show_id UUID, p_event_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_event_type NOT IN ('detail_view', 'map_pin_tap', 'directions_tap') THEN
+    RAISE EXCEPTION 'Unsupported event type: %', p_event_type;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.show_events
+    WHERE show_id = p_show_id
+      AND user_id = auth.uid()
+      AND event_type = p_event_type
+      AND occurred_at > now() - interval '30 minutes'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.show_events (show_id, user_id, event_type)
+  SELECT p_show_id, auth.uid(), p_event_type
+  WHERE EXISTS (SELECT 1 FROM public.shows WHERE id = p_show_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.track_show_event(UUID, TEXT) TO anon, authenticated;
+
+-- 3) Favorites
+CREATE OR REPLACE FUNCTION public.user_favorite_shows_track_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.show_events (show_id, user_id, event_type)
+    VALUES (NEW.show_id, NEW.user_id, 'favorite');
+    RETURN NEW;
+  END IF;
+
+  -- Skip when the show itself is being deleted
+  INSERT INTO public.show_events (show_id, user_id, event_type)
+  SELECT OLD.show_id, OLD.user_id, 'unfavorite'
+  WHERE EXISTS (SELECT 1 FROM public.shows WHERE id = OLD.show_id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_user_favorite_shows_track_event ON public.user_favorite_shows;
+CREATE TRIGGER trg_user_favorite_shows_track_event
+  AFTER INSERT OR DELETE ON public.user_favorite_shows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.user_favorite_shows_track_event();
+
+-- 4) Broadcast opens: the recipient reads the broadcast conversation or
+--    its notification
+CREATE OR REPLACE FUNCTION public.record_broadcast_open(p_conversation_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.show_events (show_id, user_id, event_type, reference_id)
+  SELECT c.show_id, p_user_id, 'broadcast_open', c.id
+  FROM public.conversations c
+  WHERE c.id = p_conversation_id
+    AND c.type = 'show'
+    AND c.show_id IS NOT NULL
+  ON CONFLICT (reference_id, user_id) WHERE event_type = 'broadcast_open' DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION public.conversation_participants_track_broadcast_open()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(OLD.unread_count, 0) > 0 AND coalesce(NEW.unread_count, 0) = 0 THEN
+    PERFORM public.record_broadcast_open(NEW.conversation_id, NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_conversation_participants_broadcast_open ON public.conversation_participants;
+CREATE TRIGGER trg_conversation_participants_broadcast_open
+  AFTER UPDATE OF unread_count ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.conversation_participants_track_broadcast_open();
+
+CREATE OR REPLACE FUNCTION public.user_notifications_track_broadcast_open()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type = 'broadcast' AND NEW.is_read AND NOT coalesce(OLD.is_read, FALSE)
+     AND NEW.reference_id IS NOT NULL THEN
+    PERFORM public.record_broadcast_open(NEW.reference_id, NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_user_notifications_broadcast_open ON public.user_notifications;
+CREATE TRIGGER trg_user_notifications_broadcast_open
+  AFTER UPDATE OF is_read ON public.user_notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.user_notifications_track_broadcast_open();
+
+REVOKE ALL ON FUNCTION public.record_broadcast_open(UUID, UUID) FROM PUBLIC;
+
+-- 5) Who may see a show's numbers: its organizer, its series' organizer, admins
+CREATE OR REPLACE FUNCTION public.can_view_show_analytics(p_show_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_admin_role() OR EXISTS (
+    SELECT 1
+    FROM public.shows s
+    LEFT JOIN public.show_series ss ON ss.id = s.series_id
+    WHERE s.id = p_show_id
+      AND auth.uid() IS NOT NULL
+      AND (s.organizer_id = auth.uid() OR ss.organizer_id = auth.uid())
+  );
+$$;
+
+-- 6) Totals per show for the caller's shows, for events in [p_from, p_to]
+CREATE OR REPLACE FUNCTION public.get_organizer_show_analytics(
+  p_from DATE DEFAULT (CURRENT_DATE - 30),
+  p_to DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  show_id          UUID,
+  title            TEXT,
+  start_date       TIMESTAMPTZ,
+  series_id        UUID,
+  detail_views     BIGINT,
+  unique_viewers   BIGINT,
+  map_pin_taps     BIGINT,
+  favorites        BIGINT,
+  unfavorites      BIGINT,
+  directions_taps  BIGINT,
+  broadcast_opens  BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.title,
+    s.start_date::TIMESTAMPTZ,
+    s.series_id,
+    count(*) FILTER (WHERE e.event_type = 'detail_view'),
+    count(DISTINCT e.user_id) FILTER (WHERE e.event_type = 'detail_view'),
+    count(*) FILTER (WHERE e.event_type = 'map_pin_tap'),
+    count(*) FILTER (WHERE e.event_type = 'favorite'),
+    count(*) FILTER (WHERE e.event_type = 'unfavorite'),
+    count(*) FILTER (WHERE e.event_type = 'directions_tap'),
+    count(*) FILTER (WHERE e.event_type = 'broadcast_open')
+  FROM public.shows s
+  LEFT JOIN public.show_series ss ON ss.id = s.series_id
+  LEFT JOIN public.show_events e
+    ON e.show_id = s.id
+   AND e.occurred_at >= p_from
+   AND e.occurred_at < p_to + 1
+  WHERE auth.uid() IS NOT NULL
+    AND (s.organizer_id = auth.uid() OR ss.organizer_id = auth.uid())
+    AND coalesce(s.status, 'ACTIVE') <> 'MERGED'
+  GROUP BY s.id
+  ORDER BY s.start_date DESC;
+$$;
+
+-- 7) Daily counts per event type for one show, or all of the caller's shows
+CREATE OR REPLACE FUNCTION public.get_show_event_timeseries(
+  p_show_id UUID DEFAULT NULL,
+  p_from DATE DEFAULT (CURRENT_DATE - 30),
+  p_to DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (day DATE, event_type TEXT, count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.occurred_at::DATE, e.event_type, count(*)
+  FROM public.show_events e
+  JOIN public.shows s ON s.id = e.show_id
+  LEFT JOIN public.show_series ss ON ss.id = s.series_id
+  WHERE e.occurred_at >= p_from
+    AND e.occurred_at < p_to + 1
+    AND (
+      (p_show_id IS NOT NULL AND e.show_id = p_show_id AND public.can_view_show_analytics(p_show_id))
+      OR (p_show_id IS NULL AND auth.uid() IS NOT NULL
+          AND (s.organizer_id = auth.uid() OR ss.organizer_id = auth.uid()))
+    )
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- 8) Every instance of a series with its totals, for comparing a show
+--    against past instances. With p_days_before, only events up to that
+--    many days before each instance's start are counted, so an upcoming
+--    show is compared with past instances at the same point in their run-up.
+CREATE OR REPLACE FUNCTION public.get_series_instance_analytics(
+  p_series_id UUID,
+  p_days_before INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  show_id          UUID,
+  title            TEXT,
+  start_date       TIMESTAMPTZ,
+  detail_views     BIGINT,
+  unique_viewers   BIGINT,
+  map_pin_taps     BIGINT,
+  favorites        BIGINT,
+  directions_taps  BIGINT,
+  broadcast_opens  BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.title,
+    s.start_date::TIMESTAMPTZ,
+    count(e.id) FILTER (WHERE e.event_type = 'detail_view'),
+    count(DISTINCT e.user_id) FILTER (WHERE e.event_type = 'detail_view'),
+    count(e.id) FILTER (WHERE e.event_type = 'map_pin_tap'),
+    count(e.id) FILTER (WHERE e.event_type = 'favorite'),
+    count(e.id) FILTER (WHERE e.event_type = 'directions_tap'),
+    count(e.id) FILTER (WHERE e.event_type = 'broadcast_open')
+  FROM public.shows s
+  JOIN public.show_series ss ON ss.id = s.series_id
+  LEFT JOIN public.show_events e
+    ON e.show_id = s.id
+   AND (p_days_before IS NULL
+        OR e.occurred_at <= s.start_date::TIMESTAMPTZ - make_interval(days => p_days_before))
+  WHERE s.series_id = p_series_id
+    AND coalesce(s.status, 'ACTIVE') <> 'MERGED'
+    AND (public.has_admin_role() OR (auth.uid() IS NOT NULL AND ss.organizer_id = auth.uid()))
+  GROUP BY s.id
+  ORDER BY s.start_date;
+$$;
+
+REVOKE ALL ON FUNCTION public.can_view_show_analytics(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.can_view_show_analytics(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organizer_show_analytics(DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_show_event_timeseries(UUID, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_series_instance_analytics(UUID, INTEGER) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,473 @@
+-- Migration: 20251020190000_show_check_ins.sql
+-- Description: Verified show check-ins. Attendees check in by scanning the
+--              organizer's rotating per-show QR code, or from within a
+--              geofence around the venue while the show is running. Check-ins
+--              become the source of profiles.show_attendance_count /
+--              attended_shows, award attendance badges and drive the
+--              post-show review_request notification.
+-- Date: 2025-10-20
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- 1) Check-ins
+CREATE TABLE IF NOT EXISTS public.show_check_ins (
+  id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  show_id              UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  user_id              UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method               TEXT NOT NULL CHECK (method IN ('qr', 'geofence')),
+  -- Distance from the venue for geofence check-ins
+  distance_meters      NUMERIC(8,1),
+  checked_in_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  review_requested_at  TIMESTAMPTZ,
+  UNIQUE (show_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_check_ins_user ON public.show_check_ins (user_id);
+CREATE INDEX IF NOT EXISTS idx_show_check_ins_review_pending
+  ON public.show_check_ins (show_id)
+  WHERE review_requested_at IS NULL;
+
+ALTER TABLE public.show_check_ins ENABLE ROW LEVEL SECURITY;
+
+-- Attendees see their own check-ins; organizers see check-ins for their shows.
+-- Rows are only written by check_in_to_show().
+DROP POLICY IF EXISTS "show_check_ins_select_self" ON public.show_check_ins;
+CREATE POLICY "show_check_ins_select_self"
+  ON public.show_check_ins
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "show_check_ins_select_organizer" ON public.show_check_ins;
+CREATE POLICY "show_check_ins_select_organizer"
+  ON public.show_check_ins
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.shows s
+    WHERE s.id = show_check_ins.show_id
+      AND s.organizer_id = auth.uid()
+  ));
+
+GRANT SELECT ON TABLE public.show_check_ins TO authenticated;
+GRANT ALL ON TABLE public.show_check_ins TO service_role;
+
+-- 2) Per-show secrets for the rotating QR code. Never readable by clients.
+CREATE TABLE IF NOT EXISTS public.show_check_in_secrets (
+  show_id    UUID PRIMARY KEY REFERENCES public.shows(id) ON DELETE CASCADE,
+  secret     BYTEA NOT NULL DEFAULT gen_random_bytes(32),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.show_check_in_secrets ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON TABLE public.show_check_in_secrets TO service_role;
+
+-- Code for one rotation window. Codes rotate every 60 seconds; the previous
+-- window's code is still accepted so a scan just before rotation works.
+CREATE OR REPLACE FUNCTION public.show_check_in_code(p_show_id UUID, p_window BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT upper(substr(encode(hmac(convert_to(p_show_id::TEXT || ':' || p_window::TEXT, 'UTF8'), secret, 'sha256'), 'hex'), 1, 10))
+  FROM public.show_check_in_secrets
+  WHERE show_id = p_show_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.show_check_in_code(UUID, BIGINT) FROM PUBLIC;
+
+-- Local clock time as the app reads it ("08:00", "8:00 AM", "5pm", "10:00:00")
+CREATE OR REPLACE FUNCTION public.parse_show_clock_time(p_value TEXT)
+RETURNS TIME
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_match   TEXT[] := regexp_match(
+    lower(btrim(coalesce(p_value, ''))),
+    '^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(a\.?m\.?|p\.?m\.?)?$'
+  );
+  v_hours   INTEGER;
+  v_minutes INTEGER;
+BEGIN
+  IF v_match IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_hours := v_match[1]::INTEGER;
+  v_minutes := coalesce(v_match[2]::INTEGER, 0);
+  IF left(v_match[3], 1) = 'p' AND v_hours < 12 THEN
+    v_hours := v_hours + 12;
+  ELSIF left(v_match[3], 1) = 'a' AND v_hours = 12 THEN
+    v_hours := 0;
+  END IF;
+
+  IF v_hours > 23 OR v_minutes > 59 THEN
+    RETURN NULL;
+  END IF;
+  RETURN make_time(v_hours, v_minutes, 0);
+END;
+$$;
+
+-- Instant of a local time on a show day, in the day's timezone or, when it
+-- has none (or an unknown one), the fallback
+CREATE OR REPLACE FUNCTION public.show_local_time(
+  p_date     DATE,
+  p_time     TIME,
+  p_timezone TEXT,
+  p_fallback TEXT
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN (p_date + p_time) AT TIME ZONE coalesce(nullif(p_timezone, ''), p_fallback);
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN (p_date + p_time) AT TIME ZONE p_fallback;
+END;
+$$;
+
+-- When check-in is open on each show day: the day's hours from
+-- daily_schedule, or the show's start/end time (9 AM to 5 PM when it lists
+-- none), an hour either side. Without a timezone the hours are read as
+-- Eastern for opening and Pacific for closing, so they cover the show in
+-- any contiguous US timezone. Same rules as getCheckInWindows() in
+-- src/utils/checkIn.ts.
+CREATE OR REPLACE FUNCTION public.show_check_in_windows(p_show public.shows)
+RETURNS TABLE (opens_at TIMESTAMPTZ, closes_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_grace     CONSTANT INTERVAL := interval '1 hour';
+  v_day       JSONB;
+  v_date      DATE;
+  v_open      TIME;
+  v_close     TIME;
+  v_scheduled BOOLEAN := FALSE;
+  v_first     DATE := (p_show.start_date AT TIME ZONE 'UTC')::DATE;
+  v_last      DATE := (coalesce(p_show.end_date, p_show.start_date) AT TIME ZONE 'UTC')::DATE;
+BEGIN
+  IF jsonb_typeof(p_show.daily_schedule) = 'array' THEN
+    FOR v_day IN SELECT value FROM jsonb_array_elements(p_show.daily_schedule) LOOP
+      v_open := public.parse_show_clock_time(v_day->>'startTime');
+      v_close := public.parse_show_clock_time(v_day->>'endTime');
+      CONTINUE WHEN coalesce(v_day->>'date', '') !~ '^\d{4}-\d{2}-\d{2}$'
+        OR v_open IS NULL OR v_close IS NULL OR v_close <= v_open;
+
+      BEGIN
+        v_date := (v_day->>'date')::DATE;
+      EXCEPTION WHEN datetime_field_overflow THEN
+        CONTINUE;
+      END;
+      opens_at := public.show_local_time(v_date, v_open, v_day->>'timezone', 'America/New_York') - v_grace;
+      closes_at := public.show_local_time(v_date, v_close, v_day->>'timezone', 'America/Los_Angeles') + v_grace;
+      v_scheduled := TRUE;
+      RETURN NEXT;
+    END LOOP;
+
+    IF v_scheduled THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_first IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_open := public.parse_show_clock_time(p_show.start_time::TEXT);
+  v_close := public.parse_show_clock_time(p_show.end_time::TEXT);
+  IF v_open IS NULL OR v_close IS NULL OR v_close <= v_open THEN
+    v_open := '09:00';
+    v_close := '17:00';
+  END IF;
+
+  FOR v_date IN
+    SELECT generate_series(v_first, greatest(v_first, v_last), interval '1 day')::DATE
+  LOOP
+    opens_at := public.show_local_time(v_date, v_open, NULL, 'America/New_York') - v_grace;
+    closes_at := public.show_local_time(v_date, v_close, NULL, 'America/Los_Angeles') + v_grace;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Check-in is open while the show is running (see show_check_in_windows)
+CREATE OR REPLACE FUNCTION public.is_show_check_in_open(p_show_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.shows s,
+    LATERAL public.show_check_in_windows(s) w
+    WHERE s.id = p_show_id
+      AND coalesce(s.status, 'ACTIVE') = 'ACTIVE'
+      AND now() >= w.opens_at
+      AND now() < w.closes_at
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_show_check_in_open(UUID) TO anon, authenticated;
+
+-- 3) The current QR code for the organizer's display
+CREATE OR REPLACE FUNCTION public.get_show_check_in_code(p_show_id UUID)
+RETURNS TABLE (code TEXT, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window BIGINT := floor(extract(epoch FROM now()) / 60);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.shows s
+    LEFT JOIN public.show_series ss ON ss.id = s.series_id
+    WHERE s.id = p_show_id
+      AND (s.organizer_id = auth.uid() OR ss.organizer_id = auth.uid() OR public.has_admin_role())
+  ) THEN
+    RAISE EXCEPTION 'Only the show organizer can display the check-in code';
+  END IF;
+
+  INSERT INTO public.show_check_in_secrets (show_id)
+  VALUES (p_show_id)
+  ON CONFLICT (show_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT public.show_check_in_code(p_show_id, v_window),
+         to_timestamp((v_window + 1) * 60);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_show_check_in_code(UUID) TO authenticated;
+
+-- 4) Check in with a scanned code, or with the device location
+CREATE OR REPLACE FUNCTION public.check_in_to_show(
+  p_show_id UUID,
+  p_code TEXT DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS public.show_check_ins
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id  UUID := auth.uid();
+  v_window   BIGINT := floor(extract(epoch FROM now()) / 60);
+  v_code     TEXT := upper(trim(p_code));
+  v_distance DOUBLE PRECISION;
+  v_method   TEXT;
+  v_row      public.show_check_ins;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to check in';
+  END IF;
+
+  SELECT * INTO v_row
+  FROM public.show_check_ins
+  WHERE show_id = p_show_id AND user_id = v_user_id;
+  IF FOUND THEN
+    RETURN v_row;
+  END IF;
+
+  IF NOT public.is_show_check_in_open(p_show_id) THEN
+    RAISE EXCEPTION 'Check-in is only open while the show is running';
+  END IF;
+
+  IF v_code IS NOT NULL AND v_code <> '' THEN
+    IF v_code IS DISTINCT FROM public.show_check_in_code(p_show_id, v_window)
+       AND v_code IS DISTINCT FROM public.show_check_in_code(p_show_id, v_window - 1) THEN
+      RAISE EXCEPTION 'This check-in code has expired. Scan the code at the entrance again.';
+    END IF;
+    v_method := 'qr';
+  ELSIF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    SELECT ST_Distance(
+             s.coordinates::geography,
+             ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography
+           )
+    INTO v_distance
+    FROM public.shows s
+    WHERE s.id = p_show_id;
+
+    IF v_distance IS NULL THEN
+      RAISE EXCEPTION 'This show has no map location. Scan the code at the entrance to check in.';
+    END IF;
+    IF v_distance > 300 THEN
+      RAISE EXCEPTION 'You need to be at the show to check in';
+    END IF;
+    v_method := 'geofence';
+  ELSE
+    RAISE EXCEPTION 'A check-in code or location is required';
+  END IF;
+
+  INSERT INTO public.show_check_ins (show_id, user_id, method, distance_meters)
+  VALUES (p_show_id, v_user_id, v_method, round(v_distance::NUMERIC, 1))
+  ON CONFLICT (show_id, user_id) DO NOTHING
+  RETURNING * INTO v_row;
+
+  IF v_row.id IS NULL THEN
+    SELECT * INTO v_row
+    FROM public.show_check_ins
+    WHERE show_id = p_show_id AND user_id = v_user_id;
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_to_show(UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+
+-- 5) Attendance comes from check-ins only
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS show_attendance_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS attended_shows UUID[] NOT NULL DEFAULT '{}';
+
+-- Any other write to the count (e.g. the old review-submission increment)
+-- is replaced with the number of verified check-ins
+CREATE OR REPLACE FUNCTION public.profiles_enforce_attendance_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.show_attendance_count := (
+    SELECT count(*) FROM public.show_check_ins WHERE user_id = NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_profiles_enforce_attendance_count ON public.profiles;
+CREATE TRIGGER trg_profiles_enforce_attendance_count
+  BEFORE UPDATE OF show_attendance_count ON public.profiles
+  FOR EACH ROW
+  WHEN (NEW.show_attendance_count IS DISTINCT FROM OLD.show_attendance_count)
+  EXECUTE FUNCTION public.profiles_enforce_attendance_count();
+
+-- Refresh a user's attendance and award any attendance badges now earned.
+-- New user_badges rows send the badge_earned notification.
+CREATE OR REPLACE FUNCTION public.refresh_user_attendance(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT count(*) INTO v_count FROM public.show_check_ins WHERE user_id = p_user_id;
+
+  UPDATE public.profiles
+  SET show_attendance_count = v_count,
+      attended_shows = ARRAY(
+        SELECT show_id FROM public.show_check_ins
+        WHERE user_id = p_user_id
+        ORDER BY checked_in_at
+      )
+  WHERE id = p_user_id;
+
+  INSERT INTO public.user_badges (user_id, badge_id)
+  SELECT p_user_id, b.id
+  FROM public.badges_definitions b
+  WHERE b.requirement = 'show_attendance'
+    AND b.requirement_count <= v_count
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_badges ub
+      WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_user_attendance(UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.show_check_ins_refresh_attendance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_user_attendance(coalesce(NEW.user_id, OLD.user_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_show_check_ins_refresh_attendance ON public.show_check_ins;
+CREATE TRIGGER trg_show_check_ins_refresh_attendance
+  AFTER INSERT OR DELETE ON public.show_check_ins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.show_check_ins_refresh_attendance();
+
+-- 6) Post-show review requests, sent once per check-in after the show ends.
+--    Run by the send-review-requests edge function.
+CREATE OR REPLACE FUNCTION public.send_check_in_review_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sent INTEGER;
+BEGIN
+  WITH due AS (
+    UPDATE public.show_check_ins ci
+    SET review_requested_at = now()
+    FROM public.shows s
+    WHERE s.id = ci.show_id
+      AND ci.review_requested_at IS NULL
+      AND now() >= date_trunc('day', coalesce(s.end_date, s.start_date)) + interval '1 day'
+    RETURNING ci.user_id, ci.show_id, s.title
+  ), inserted AS (
+    INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+    SELECT
+      due.user_id,
+      'How was ' || coalesce(due.title, 'the show') || '?',
+      'Thanks for checking in! Leave a review to help other collectors.',
+      'review_request',
+      due.show_id
+    FROM due
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_sent FROM inserted;
+
+  RETURN v_sent;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.send_check_in_review_requests() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.send_check_in_review_requests() TO service_role;
+
+-- 7) Check-in counts for the organizer
+CREATE OR REPLACE FUNCTION public.get_show_check_in_count(p_show_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.show_check_ins ci
+  WHERE ci.show_id = p_show_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.shows s
+      LEFT JOIN public.show_series ss ON ss.id = s.series_id
+      WHERE s.id = p_show_id
+        AND (s.organizer_id = auth.uid() OR ss.organizer_id = auth.uid() OR public.has_admin_role())
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_show_check_in_count(UUID) TO authenticated;
+
+COMMIT;
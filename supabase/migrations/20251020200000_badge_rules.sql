@@ -0,0 +1,457 @@
+-- Migration: 20251020200000_badge_rules.sql
+-- Description: Declarative badge rules. Each badges_definitions row names a
+--              metric, a threshold and optional parameters; badges are
+--              evaluated server-side when check-ins, reviews or booth visits
+--              change and awarded idempotently into user_badges. Admins can
+--              add badges from the app without code changes.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Rule columns on badge definitions
+ALTER TABLE public.badges_definitions
+  ADD COLUMN IF NOT EXISTS image_url TEXT,
+  ADD COLUMN IF NOT EXISTS requirement TEXT,
+  ADD COLUMN IF NOT EXISTS tier TEXT DEFAULT 'bronze',
+  ADD COLUMN IF NOT EXISTS metric TEXT,
+  ADD COLUMN IF NOT EXISTS threshold INTEGER,
+  ADD COLUMN IF NOT EXISTS params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Existing attendance badges become shows_attended rules
+UPDATE public.badges_definitions
+SET metric = 'shows_attended',
+    threshold = coalesce(requirement_count, 1)
+WHERE metric IS NULL
+  AND (requirement = 'show_attendance' OR requirement IS NULL);
+
+-- Anything else predates rules and can't be evaluated
+UPDATE public.badges_definitions
+SET metric = 'shows_attended', threshold = coalesce(requirement_count, 1), is_active = FALSE
+WHERE metric IS NULL;
+
+ALTER TABLE public.badges_definitions
+  ALTER COLUMN metric SET NOT NULL,
+  ALTER COLUMN threshold SET NOT NULL;
+
+ALTER TABLE public.badges_definitions
+  DROP CONSTRAINT IF EXISTS badges_definitions_metric_check;
+ALTER TABLE public.badges_definitions
+  ADD CONSTRAINT badges_definitions_metric_check CHECK (metric IN (
+    'shows_attended',        -- verified check-ins
+    'distinct_states',       -- US states of shows checked in to
+    'reviews_written',
+    'series_visits',         -- check-ins at one series (params.series_id, else the user's most-visited series)
+    'shows_in_year',         -- check-ins in params.year, else the current year
+    'dealer_booths_visited'  -- distinct dealer booths visited while checked in
+  ));
+ALTER TABLE public.badges_definitions
+  DROP CONSTRAINT IF EXISTS badges_definitions_threshold_check;
+ALTER TABLE public.badges_definitions
+  ADD CONSTRAINT badges_definitions_threshold_check CHECK (threshold > 0);
+
+-- badge_metric_value() runs inside every check-in, so parameters it can't
+-- read must never get in: a series_id is a UUID, a year four digits
+UPDATE public.badges_definitions
+SET params = params - 'series_id' - 'year', is_active = FALSE
+WHERE params->>'series_id' !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+   OR params->>'year' !~ '^\d{4}$';
+
+ALTER TABLE public.badges_definitions
+  DROP CONSTRAINT IF EXISTS badges_definitions_params_check;
+ALTER TABLE public.badges_definitions
+  ADD CONSTRAINT badges_definitions_params_check CHECK (
+    jsonb_typeof(params) = 'object'
+    AND (params->>'series_id' IS NULL
+         OR params->>'series_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$')
+    AND (params->>'year' IS NULL OR params->>'year' ~ '^\d{4}$')
+  );
+
+COMMENT ON COLUMN public.badges_definitions.metric IS
+'What the badge counts; see badge_metric_value(). requirement / requirement_count are kept for older clients.';
+
+-- Keep the legacy columns in step for older app versions
+CREATE OR REPLACE FUNCTION public.badges_definitions_sync_legacy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.requirement_count := NEW.threshold;
+  NEW.requirement := CASE WHEN NEW.metric = 'shows_attended' THEN 'show_attendance' ELSE NEW.metric END;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_badges_definitions_sync_legacy ON public.badges_definitions;
+CREATE TRIGGER trg_badges_definitions_sync_legacy
+  BEFORE INSERT OR UPDATE ON public.badges_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.badges_definitions_sync_legacy();
+
+-- Admins manage definitions; everyone can read them
+ALTER TABLE public.badges_definitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "badges_definitions_select_all" ON public.badges_definitions;
+CREATE POLICY "badges_definitions_select_all"
+  ON public.badges_definitions
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "badges_definitions_insert_admin" ON public.badges_definitions;
+CREATE POLICY "badges_definitions_insert_admin"
+  ON public.badges_definitions
+  FOR INSERT
+  WITH CHECK (public.has_admin_role());
+
+DROP POLICY IF EXISTS "badges_definitions_update_admin" ON public.badges_definitions;
+CREATE POLICY "badges_definitions_update_admin"
+  ON public.badges_definitions
+  FOR UPDATE
+  USING (public.has_admin_role())
+  WITH CHECK (public.has_admin_role());
+
+-- 2) One award per user and badge
+DELETE FROM public.user_badges
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT id,
+           row_number() OVER (PARTITION BY user_id, badge_id ORDER BY earned_at NULLS LAST, id) AS rn
+    FROM public.user_badges
+  ) ranked
+  WHERE rn > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_user_badges_user_badge
+  ON public.user_badges (user_id, badge_id);
+
+-- 3) Dealer booth visits: recorded when a checked-in attendee opens a
+--    dealer's details at the show
+CREATE TABLE IF NOT EXISTS public.dealer_booth_visits (
+  user_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  show_id    UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  dealer_id  UUID NOT NULL,
+  visited_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, show_id, dealer_id)
+);
+
+ALTER TABLE public.dealer_booth_visits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dealer_booth_visits_select_self" ON public.dealer_booth_visits;
+CREATE POLICY "dealer_booth_visits_select_self"
+  ON public.dealer_booth_visits
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+GRANT SELECT ON TABLE public.dealer_booth_visits TO authenticated;
+GRANT ALL ON TABLE public.dealer_booth_visits TO service_role;
+
+CREATE OR REPLACE FUNCTION public.record_booth_visit(p_show_id UUID, p_dealer_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR p_dealer_id = auth.uid() THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Only counts while checked in to a running show, at a registered booth
+  IF NOT public.is_show_check_in_open(p_show_id)
+     OR NOT EXISTS (
+       SELECT 1 FROM public.show_check_ins
+       WHERE show_id = p_show_id AND user_id = auth.uid()
+     )
+     OR NOT EXISTS (
+       SELECT 1 FROM public.show_participants sp
+       WHERE sp.showid = p_show_id
+         AND sp.userid = p_dealer_id
+         AND sp.status IN ('registered', 'confirmed')
+     ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.dealer_booth_visits (user_id, show_id, dealer_id)
+  VALUES (auth.uid(), p_show_id, p_dealer_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_booth_visit(UUID, UUID) TO authenticated;
+
+-- 4) Metrics
+-- Two-letter state from a US address ("…, Columbus, OH 43215")
+CREATE OR REPLACE FUNCTION public.us_state_from_address(p_address TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT upper(substring(p_address FROM ',\s*([A-Za-z]{2})(?:\s+\d{5}(?:-\d{4})?)?\s*(?:,\s*(?:USA|US|United States))?\s*$'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.badge_metric_value(p_user_id UUID, p_metric TEXT, p_params JSONB DEFAULT '{}'::jsonb)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_value INTEGER := 0;
+BEGIN
+  CASE p_metric
+    WHEN 'shows_attended' THEN
+      SELECT count(*) INTO v_value
+      FROM public.show_check_ins
+      WHERE user_id = p_user_id;
+
+    WHEN 'distinct_states' THEN
+      SELECT count(DISTINCT public.us_state_from_address(s.address)) INTO v_value
+      FROM public.show_check_ins ci
+      JOIN public.shows s ON s.id = ci.show_id
+      WHERE ci.user_id = p_user_id;
+
+    WHEN 'reviews_written' THEN
+      SELECT count(*) INTO v_value
+      FROM public.reviews
+      WHERE user_id = p_user_id;
+
+    WHEN 'series_visits' THEN
+      SELECT coalesce(max(visits), 0) INTO v_value
+      FROM (
+        SELECT count(*) AS visits
+        FROM public.show_check_ins ci
+        JOIN public.shows s ON s.id = ci.show_id
+        WHERE ci.user_id = p_user_id
+          AND s.series_id IS NOT NULL
+          -- Compared as text so a malformed ID matches nothing instead of raising
+          AND (p_params->>'series_id' IS NULL OR s.series_id::TEXT = lower(p_params->>'series_id'))
+        GROUP BY s.series_id
+      ) per_series;
+
+    WHEN 'shows_in_year' THEN
+      SELECT count(*) INTO v_value
+      FROM public.show_check_ins ci
+      JOIN public.shows s ON s.id = ci.show_id
+      WHERE ci.user_id = p_user_id
+        AND extract(year FROM s.start_date) =
+            CASE WHEN p_params->>'year' ~ '^\d{4}$' THEN (p_params->>'year')::INTEGER
+                 ELSE extract(year FROM now())::INTEGER END;
+
+    WHEN 'dealer_booths_visited' THEN
+      SELECT count(*) INTO v_value
+      FROM public.dealer_booth_visits
+      WHERE user_id = p_user_id;
+
+    ELSE
+      v_value := 0;
+  END CASE;
+
+  RETURN coalesce(v_value, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_metric_value(UUID, TEXT, JSONB) FROM PUBLIC;
+
+-- 5) Evaluation: award every active badge whose rule the user now meets.
+--    p_metrics limits evaluation to the rules an event can affect.
+--    New user_badges rows send the badge_earned notification.
+CREATE OR REPLACE FUNCTION public.evaluate_user_badges(p_user_id UUID, p_metrics TEXT[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_awarded INTEGER;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  WITH candidates AS (
+    SELECT b.id, b.threshold,
+           public.badge_metric_value(p_user_id, b.metric, b.params) AS value
+    FROM public.badges_definitions b
+    WHERE b.is_active
+      AND (p_metrics IS NULL OR b.metric = ANY (p_metrics))
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_badges ub
+        WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+      )
+  ), inserted AS (
+    INSERT INTO public.user_badges (user_id, badge_id)
+    SELECT p_user_id, c.id
+    FROM candidates c
+    WHERE c.value >= c.threshold
+    ON CONFLICT (user_id, badge_id) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_awarded FROM inserted;
+
+  RETURN v_awarded;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.evaluate_user_badges(UUID, TEXT[]) FROM PUBLIC;
+
+-- Check-ins: attendance totals plus every check-in based rule
+CREATE OR REPLACE FUNCTION public.refresh_user_attendance(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET show_attendance_count = (
+        SELECT count(*) FROM public.show_check_ins WHERE user_id = p_user_id
+      ),
+      attended_shows = ARRAY(
+        SELECT show_id FROM public.show_check_ins
+        WHERE user_id = p_user_id
+        ORDER BY checked_in_at
+      )
+  WHERE id = p_user_id;
+
+  PERFORM public.evaluate_user_badges(
+    p_user_id,
+    ARRAY['shows_attended', 'distinct_states', 'series_visits', 'shows_in_year']
+  );
+END;
+$$;
+
+-- Reviews
+CREATE OR REPLACE FUNCTION public.reviews_evaluate_badges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_user_badges(NEW.user_id, ARRAY['reviews_written']);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reviews_evaluate_badges ON public.reviews;
+CREATE TRIGGER trg_reviews_evaluate_badges
+  AFTER INSERT ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reviews_evaluate_badges();
+
+-- Booth visits
+CREATE OR REPLACE FUNCTION public.dealer_booth_visits_evaluate_badges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_user_badges(NEW.user_id, ARRAY['dealer_booths_visited']);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_dealer_booth_visits_evaluate_badges ON public.dealer_booth_visits;
+CREATE TRIGGER trg_dealer_booth_visits_evaluate_badges
+  AFTER INSERT ON public.dealer_booth_visits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.dealer_booth_visits_evaluate_badges();
+
+-- 6) Progress on every active badge (plus any inactive ones already earned).
+--    Users can read their own progress; admins anyone's.
+CREATE OR REPLACE FUNCTION public.get_badge_progress(p_user_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  badge_id      UUID,
+  name          TEXT,
+  description   TEXT,
+  image_url     TEXT,
+  tier          TEXT,
+  metric        TEXT,
+  threshold     INTEGER,
+  params        JSONB,
+  current_value INTEGER,
+  earned_at     TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT coalesce(p_user_id, auth.uid()) AS user_id
+  )
+  SELECT
+    b.id,
+    b.name,
+    b.description,
+    b.image_url,
+    b.tier,
+    b.metric,
+    b.threshold,
+    b.params,
+    public.badge_metric_value(t.user_id, b.metric, b.params),
+    ub.earned_at
+  FROM target t
+  CROSS JOIN public.badges_definitions b
+  LEFT JOIN public.user_badges ub
+    ON ub.badge_id = b.id AND ub.user_id = t.user_id
+  WHERE t.user_id IS NOT NULL
+    AND (t.user_id = auth.uid() OR public.has_admin_role())
+    AND (b.is_active OR ub.badge_id IS NOT NULL)
+  ORDER BY b.metric, b.threshold;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_badge_progress(UUID) TO authenticated;
+
+-- 7) Award a new or changed badge to everyone who already qualifies
+CREATE OR REPLACE FUNCTION public.backfill_badge(p_badge_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_badge   public.badges_definitions;
+  v_awarded INTEGER;
+BEGIN
+  IF NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Only admins can backfill badges';
+  END IF;
+
+  SELECT * INTO v_badge FROM public.badges_definitions WHERE id = p_badge_id;
+  IF NOT FOUND OR NOT v_badge.is_active THEN
+    RETURN 0;
+  END IF;
+
+  -- Only users with any badge-relevant activity can qualify
+  WITH users AS (
+    SELECT user_id FROM public.show_check_ins
+    UNION
+    SELECT user_id FROM public.reviews
+    UNION
+    SELECT user_id FROM public.dealer_booth_visits
+  ), inserted AS (
+    INSERT INTO public.user_badges (user_id, badge_id)
+    SELECT u.user_id, v_badge.id
+    FROM users u
+    WHERE u.user_id IS NOT NULL
+      AND public.badge_metric_value(u.user_id, v_badge.metric, v_badge.params) >= v_badge.threshold
+    ON CONFLICT (user_id, badge_id) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_awarded FROM inserted;
+
+  RETURN v_awarded;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.backfill_badge(UUID) TO authenticated;
+
+COMMIT;
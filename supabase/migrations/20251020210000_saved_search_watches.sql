@@ -0,0 +1,335 @@
+-- Migration: 20251020210000_saved_search_watches.sql
+-- Description: Saved-search watches. Any filter preset can be flagged as a
+--              watch; an hourly job runs watched filters (radius, categories,
+--              features, max entry fee, dealer card types, keyword) against
+--              newly published shows and sends each user a digest of matches
+--              at the watch's frequency (instant, daily or weekly).
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Watch settings on filter presets
+ALTER TABLE public.filter_presets
+  ADD COLUMN IF NOT EXISTS watch_enabled          BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS watch_frequency        TEXT NOT NULL DEFAULT 'daily',
+  -- Shows published after this are new to the watch
+  ADD COLUMN IF NOT EXISTS watch_checked_at       TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS watch_last_notified_at TIMESTAMPTZ;
+
+ALTER TABLE public.filter_presets
+  DROP CONSTRAINT IF EXISTS filter_presets_watch_frequency_check;
+ALTER TABLE public.filter_presets
+  ADD CONSTRAINT filter_presets_watch_frequency_check
+  CHECK (watch_frequency IN ('instant', 'daily', 'weekly'));
+
+CREATE INDEX IF NOT EXISTS idx_filter_presets_watch_enabled
+  ON public.filter_presets (watch_enabled)
+  WHERE watch_enabled;
+
+-- Start a watch from now, so turning it on doesn't replay every existing show
+CREATE OR REPLACE FUNCTION public.filter_presets_start_watch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.watch_enabled AND (TG_OP = 'INSERT' OR NOT OLD.watch_enabled) THEN
+    NEW.watch_checked_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_filter_presets_start_watch ON public.filter_presets;
+CREATE TRIGGER trg_filter_presets_start_watch
+  BEFORE INSERT OR UPDATE OF watch_enabled ON public.filter_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.filter_presets_start_watch();
+
+-- 2) When a show went live. Scraped shows are inserted on approval, but
+--    organizer and imported shows can sit in another status first, so the
+--    creation time isn't when users could first see the show.
+ALTER TABLE public.shows
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+UPDATE public.shows
+SET published_at = created_at
+WHERE status = 'ACTIVE' AND published_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shows_published_at
+  ON public.shows (published_at)
+  WHERE published_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.shows_set_published_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'ACTIVE'
+     AND NEW.published_at IS NULL
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'ACTIVE') THEN
+    NEW.published_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_shows_set_published_at ON public.shows;
+CREATE TRIGGER trg_shows_set_published_at
+  BEFORE INSERT OR UPDATE OF status ON public.shows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.shows_set_published_at();
+
+-- 3) Shows found by a watch, waiting for (or included in) a digest
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  preset_id   UUID NOT NULL REFERENCES public.filter_presets(id) ON DELETE CASCADE,
+  show_id     UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  matched_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  notified_at TIMESTAMPTZ,
+  PRIMARY KEY (preset_id, show_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending
+  ON public.saved_search_matches (preset_id)
+  WHERE notified_at IS NULL;
+
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- Matches are written by run_saved_search_watches(); users read their own
+DROP POLICY IF EXISTS "saved_search_matches_select_self" ON public.saved_search_matches;
+CREATE POLICY "saved_search_matches_select_self"
+  ON public.saved_search_matches
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+GRANT SELECT ON TABLE public.saved_search_matches TO authenticated;
+GRANT ALL ON TABLE public.saved_search_matches TO service_role;
+
+-- 4) Does a show satisfy a preset's filters? Mirrors getPaginatedShows():
+--    radius around the filter's coordinates (or the user's home ZIP when the
+--    preset has none), any of the categories, all of the features, entry fee
+--    cap, any dealer card type, and the keyword across show and booth fields.
+--    Stored date ranges are ignored: a watch is always about upcoming shows.
+CREATE OR REPLACE FUNCTION public.show_matches_saved_search(
+  p_show      public.shows,
+  p_filters   JSONB,
+  p_latitude  DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_radius_miles NUMERIC := coalesce(nullif(p_filters->>'radius', '')::numeric, 25);
+  v_keyword      TEXT := lower(btrim(coalesce(p_filters->>'keyword', '')));
+  v_categories   TEXT[];
+  v_features     TEXT[];
+  v_card_types   TEXT[];
+BEGIN
+  IF p_show.status <> 'ACTIVE' OR coalesce(p_show.end_date, p_show.start_date) < now() THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    IF p_show.coordinates IS NULL OR NOT ST_DWithin(
+         p_show.coordinates::geography,
+         ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography,
+         v_radius_miles * 1609.34
+       ) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_filters->'maxEntryFee') = 'number'
+     AND coalesce(p_show.entry_fee, 0) > (p_filters->>'maxEntryFee')::numeric THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(p_filters->'categories') = 'array' THEN
+    SELECT array_agg(value) INTO v_categories FROM jsonb_array_elements_text(p_filters->'categories');
+    IF v_categories IS NOT NULL AND NOT (coalesce(p_show.categories, '{}') && v_categories) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_filters->'features') = 'array' THEN
+    SELECT array_agg(value) INTO v_features FROM jsonb_array_elements_text(p_filters->'features');
+    IF v_features IS NOT NULL AND EXISTS (
+      SELECT 1 FROM unnest(v_features) f
+      WHERE coalesce(p_show.features->>f, '') <> 'true'
+    ) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_filters->'dealerCardTypes') = 'array' THEN
+    SELECT array_agg(lower(value)) INTO v_card_types
+    FROM jsonb_array_elements_text(p_filters->'dealerCardTypes');
+
+    IF v_card_types IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM public.show_participants sp, unnest(coalesce(sp.card_types, '{}')) ct
+      WHERE sp.showid = p_show.id AND lower(ct) = ANY (v_card_types)
+      UNION ALL
+      SELECT 1
+      FROM public.dealer_inventory_show_items si
+      JOIN public.dealer_inventory_items i ON i.id = si.item_id,
+      unnest(i.card_types) ct
+      WHERE si.show_id = p_show.id AND lower(ct) = ANY (v_card_types)
+    ) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF v_keyword <> '' THEN
+    IF NOT (
+      strpos(lower(coalesce(p_show.title, '')), v_keyword) > 0
+      OR strpos(lower(coalesce(p_show.description, '')), v_keyword) > 0
+      OR strpos(lower(coalesce(p_show.location, '')), v_keyword) > 0
+      OR strpos(lower(coalesce(p_show.address, '')), v_keyword) > 0
+      OR EXISTS (
+        SELECT 1 FROM public.show_participants sp
+        WHERE sp.showid = p_show.id
+          AND (strpos(lower(coalesce(sp.specialty, '')), v_keyword) > 0
+               OR strpos(lower(coalesce(sp.notable_items, '')), v_keyword) > 0)
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM public.dealer_inventory_show_items si
+        JOIN public.dealer_inventory_items i ON i.id = si.item_id
+        WHERE si.show_id = p_show.id AND strpos(i.search_text, v_keyword) > 0
+      )
+    ) THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- 5) Find new matches for every watch and send the digests that are due.
+--    Daily and weekly digests allow an hour of slack so an hourly schedule
+--    doesn't drift later each time.
+CREATE OR REPLACE FUNCTION public.run_saved_search_watches()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now         TIMESTAMPTZ := now();
+  v_new_matches INTEGER;
+  v_digests     INTEGER;
+BEGIN
+  WITH watches AS (
+    SELECT
+      fp.id,
+      fp.user_id,
+      fp.filters,
+      fp.watch_checked_at,
+      coalesce((fp.filters->>'latitude')::double precision, z.latitude)   AS latitude,
+      coalesce((fp.filters->>'longitude')::double precision, z.longitude) AS longitude
+    FROM public.filter_presets fp
+    LEFT JOIN public.profiles p ON p.id = fp.user_id
+    LEFT JOIN public.zip_codes z ON z.zip_code = p.home_zip_code
+    WHERE fp.watch_enabled
+  )
+  INSERT INTO public.saved_search_matches (preset_id, show_id, user_id)
+  SELECT w.id, s.id, w.user_id
+  FROM watches w
+  JOIN public.shows s
+    ON s.published_at > coalesce(w.watch_checked_at, v_now)
+   AND s.published_at <= v_now
+  WHERE public.show_matches_saved_search(s, w.filters, w.latitude, w.longitude)
+  ON CONFLICT (preset_id, show_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_new_matches = ROW_COUNT;
+
+  UPDATE public.filter_presets
+  SET watch_checked_at = v_now
+  WHERE watch_enabled;
+
+  -- One digest per due watch: "Card Show A (Nov 8), Card Show B (Nov 9) and 2 more".
+  -- Shows taken down since they matched are left out of the count and the
+  -- list; they are still marked as sent so they never appear later.
+  WITH due AS (
+    SELECT fp.id, fp.user_id, fp.name
+    FROM public.filter_presets fp
+    WHERE fp.watch_enabled
+      AND (
+        fp.watch_frequency = 'instant'
+        OR fp.watch_last_notified_at IS NULL
+        OR (fp.watch_frequency = 'daily'  AND fp.watch_last_notified_at <= v_now - interval '23 hours')
+        OR (fp.watch_frequency = 'weekly' AND fp.watch_last_notified_at <= v_now - interval '167 hours')
+      )
+  ),
+  pending AS (
+    SELECT
+      d.id AS preset_id,
+      d.user_id,
+      d.name,
+      count(*) AS total,
+      (array_agg(m.show_id ORDER BY m.start_date))[1] AS first_show_id,
+      string_agg(m.title || ' (' || to_char(m.start_date, 'Mon FMDD') || ')', ', ' ORDER BY m.start_date)
+        FILTER (WHERE m.rank <= 3) AS listed
+    FROM due d
+    JOIN (
+      SELECT
+        ssm.preset_id,
+        ssm.show_id,
+        sh.title,
+        sh.start_date,
+        row_number() OVER (PARTITION BY ssm.preset_id ORDER BY sh.start_date, sh.id) AS rank
+      FROM public.saved_search_matches ssm
+      JOIN public.shows sh ON sh.id = ssm.show_id
+      WHERE ssm.notified_at IS NULL
+        AND sh.status = 'ACTIVE'
+    ) m ON m.preset_id = d.id
+    GROUP BY d.id, d.user_id, d.name
+  ),
+  inserted AS (
+    INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+    SELECT
+      p.user_id,
+      CASE WHEN p.total = 1
+        THEN 'New show for "' || p.name || '"'
+        ELSE p.total || ' new shows for "' || p.name || '"'
+      END,
+      CASE WHEN p.total > 3
+        THEN coalesce(p.listed, 'New shows') || ' and ' || (p.total - 3) || ' more'
+        ELSE coalesce(p.listed, 'New shows')
+      END,
+      'saved_search_match',
+      -- A single show opens directly; a digest opens the saved search
+      CASE WHEN p.total = 1 THEN p.first_show_id ELSE p.preset_id END
+    FROM pending p
+    RETURNING user_id
+  ),
+  sent AS (
+    UPDATE public.saved_search_matches m
+    SET notified_at = v_now
+    FROM due d
+    WHERE m.preset_id = d.id
+      AND m.notified_at IS NULL
+    RETURNING m.preset_id
+  )
+  UPDATE public.filter_presets fp
+  SET watch_last_notified_at = v_now
+  WHERE fp.id IN (SELECT preset_id FROM pending);
+
+  GET DIAGNOSTICS v_digests = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'new_matches', v_new_matches,
+    'digests_sent', v_digests
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.run_saved_search_watches() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.run_saved_search_watches() TO service_role;
+
+COMMIT;
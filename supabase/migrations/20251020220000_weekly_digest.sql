@@ -0,0 +1,306 @@
+-- Migration: 20251020220000_weekly_digest.sql
+-- Description: Weekly personalized email digest. Per user: upcoming shows
+--              near their home ZIP, favorited shows happening soon, dealers
+--              newly added to those shows, and upcoming shows in series they
+--              follow. Digests are queued in email_notifications (with HTML,
+--              plaintext and an unsubscribe link) on the user's chosen day.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) email_notifications carries more than approval emails now
+ALTER TABLE public.email_notifications
+  ADD COLUMN IF NOT EXISTS user_id         UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS template        TEXT,
+  ADD COLUMN IF NOT EXISTS html_body       TEXT,
+  ADD COLUMN IF NOT EXISTS unsubscribe_url TEXT;
+
+COMMENT ON COLUMN public.email_notifications.template IS
+'Which email this is (e.g. weekly_digest). NULL for the original show approval emails.';
+COMMENT ON COLUMN public.email_notifications.html_body IS
+'Optional HTML alternative to body. Senders fall back to the plaintext body when NULL.';
+
+CREATE INDEX IF NOT EXISTS idx_email_notifications_user_template
+  ON public.email_notifications (user_id, template, created_at DESC)
+  WHERE user_id IS NOT NULL;
+
+-- New columns are appended so the existing view columns keep their order
+CREATE OR REPLACE VIEW public.pending_email_notifications AS
+SELECT
+  id,
+  recipient_email,
+  subject,
+  body,
+  show_id,
+  created_at,
+  html_body,
+  unsubscribe_url
+FROM public.email_notifications
+WHERE status = 'PENDING'
+ORDER BY created_at ASC;
+
+-- 2) Digest preferences (absent row = defaults: on, Thursday, 50 miles)
+CREATE TABLE IF NOT EXISTS public.email_digest_preferences (
+  user_id               UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  weekly_digest_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  -- 0 = Sunday … 6 = Saturday, in the user's notification_preferences.timezone
+  send_day              SMALLINT NOT NULL DEFAULT 4 CHECK (send_day BETWEEN 0 AND 6),
+  radius_miles          INTEGER NOT NULL DEFAULT 50 CHECK (radius_miles BETWEEN 5 AND 250),
+  unsubscribe_token     UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  last_sent_at          TIMESTAMPTZ,
+  updated_at            TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.email_digest_preferences.unsubscribe_token IS
+'Secret used by the one-click unsubscribe link in every digest. Not exposed to the app.';
+
+ALTER TABLE public.email_digest_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "email_digest_preferences_select_self" ON public.email_digest_preferences;
+CREATE POLICY "email_digest_preferences_select_self"
+  ON public.email_digest_preferences
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "email_digest_preferences_insert_self" ON public.email_digest_preferences;
+CREATE POLICY "email_digest_preferences_insert_self"
+  ON public.email_digest_preferences
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "email_digest_preferences_update_self" ON public.email_digest_preferences;
+CREATE POLICY "email_digest_preferences_update_self"
+  ON public.email_digest_preferences
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- The app only manages the settings; tokens and send bookkeeping stay server-side
+GRANT SELECT (user_id, weekly_digest_enabled, send_day, radius_miles, updated_at)
+  ON public.email_digest_preferences TO authenticated;
+GRANT INSERT (user_id, weekly_digest_enabled, send_day, radius_miles, updated_at)
+  ON public.email_digest_preferences TO authenticated;
+GRANT UPDATE (weekly_digest_enabled, send_day, radius_miles, updated_at)
+  ON public.email_digest_preferences TO authenticated;
+GRANT ALL ON TABLE public.email_digest_preferences TO service_role;
+
+-- 3) Users whose digest is due: it's their send day (from 9am local), they
+--    have an email and a home ZIP, and nothing was sent in the last 6 days.
+--    Creates default preference rows for users who never opened the settings.
+CREATE OR REPLACE FUNCTION public.get_due_weekly_digests(p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+  user_id           UUID,
+  email             TEXT,
+  first_name        TEXT,
+  unsubscribe_token UUID,
+  timezone          TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.email_digest_preferences (user_id)
+  SELECT p.id
+  FROM public.profiles p
+  WHERE p.email IS NOT NULL
+    AND p.home_zip_code IS NOT NULL
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.email::TEXT,
+    p.first_name::TEXT,
+    d.unsubscribe_token,
+    coalesce(np.timezone, 'America/New_York')
+  FROM public.email_digest_preferences d
+  JOIN public.profiles p ON p.id = d.user_id
+  LEFT JOIN public.notification_preferences np ON np.user_id = d.user_id
+  CROSS JOIN LATERAL (
+    SELECT now() AT TIME ZONE coalesce(np.timezone, 'America/New_York') AS local_now
+  ) t
+  WHERE d.weekly_digest_enabled
+    AND p.email IS NOT NULL
+    AND p.home_zip_code IS NOT NULL
+    AND extract(dow FROM t.local_now) = d.send_day
+    AND extract(hour FROM t.local_now) >= 9
+    AND (d.last_sent_at IS NULL OR d.last_sent_at < now() - interval '6 days')
+  ORDER BY d.last_sent_at NULLS FIRST
+  LIMIT p_limit;
+END;
+$$;
+
+-- 4) Digest content for one user, as JSON ready for the email template.
+--    "Followed" series are the series of shows the user has favorited or
+--    checked in to. New dealers are those added since the last digest.
+CREATE OR REPLACE FUNCTION public.get_weekly_digest_content(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_radius    INTEGER;
+  v_since     TIMESTAMPTZ;
+  v_center    GEOGRAPHY;
+  v_zip       TEXT;
+  v_favorites UUID[];
+  v_nearby    JSONB;
+  v_soon      JSONB;
+  v_dealers   JSONB;
+  v_series    JSONB;
+BEGIN
+  SELECT coalesce(d.radius_miles, 50),
+         coalesce(d.last_sent_at, now() - interval '7 days')
+  INTO v_radius, v_since
+  FROM public.profiles p
+  LEFT JOIN public.email_digest_preferences d ON d.user_id = p.id
+  WHERE p.id = p_user_id;
+
+  IF v_radius IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT z.zip_code,
+         ST_SetSRID(ST_MakePoint(z.longitude, z.latitude), 4326)::geography
+  INTO v_zip, v_center
+  FROM public.profiles p
+  JOIN public.zip_codes z ON z.zip_code = p.home_zip_code
+  WHERE p.id = p_user_id;
+
+  SELECT coalesce(array_agg(f.show_id), '{}')
+  INTO v_favorites
+  FROM public.user_favorite_shows f
+  WHERE f.user_id = p_user_id;
+
+  -- Favorited shows happening in the next two weeks
+  SELECT coalesce(jsonb_agg(to_jsonb(x) ORDER BY x.start_date), '[]'::jsonb)
+  INTO v_soon
+  FROM (
+    SELECT s.id, s.title, s.location, s.address, s.start_date, s.end_date
+    FROM public.shows s
+    WHERE s.id = ANY (v_favorites)
+      AND s.status = 'ACTIVE'
+      AND s.end_date >= now()
+      AND s.start_date < now() + interval '14 days'
+    ORDER BY s.start_date
+    LIMIT 10
+  ) x;
+
+  -- Upcoming shows within the radius of the home ZIP, not already favorited
+  IF v_center IS NOT NULL THEN
+    SELECT coalesce(jsonb_agg(to_jsonb(x) ORDER BY x.start_date), '[]'::jsonb)
+    INTO v_nearby
+    FROM (
+      SELECT s.id, s.title, s.location, s.address, s.start_date, s.end_date, s.entry_fee,
+             round((ST_Distance(s.coordinates::geography, v_center) / 1609.34)::numeric, 1) AS distance_miles
+      FROM public.shows s
+      WHERE s.status = 'ACTIVE'
+        AND s.coordinates IS NOT NULL
+        AND s.end_date >= now()
+        AND s.start_date < now() + interval '21 days'
+        AND NOT (s.id = ANY (v_favorites))
+        AND ST_DWithin(s.coordinates::geography, v_center, v_radius * 1609.34)
+      ORDER BY s.start_date
+      LIMIT 10
+    ) x;
+  END IF;
+
+  -- Series followed through favorites or check-ins
+  WITH followed AS (
+    SELECT DISTINCT s.series_id
+    FROM public.shows s
+    WHERE s.series_id IS NOT NULL
+      AND (
+        s.id = ANY (v_favorites)
+        OR EXISTS (
+          SELECT 1 FROM public.show_check_ins c
+          WHERE c.show_id = s.id AND c.user_id = p_user_id
+        )
+      )
+  ),
+  next_show AS (
+    SELECT DISTINCT ON (s.series_id)
+           s.series_id, s.id, s.title, s.location, s.start_date, s.end_date
+    FROM public.shows s
+    JOIN followed f ON f.series_id = s.series_id
+    WHERE s.status = 'ACTIVE'
+      AND s.start_date >= now()
+      AND s.start_date < now() + interval '60 days'
+      AND NOT (s.id = ANY (v_favorites))
+    ORDER BY s.series_id, s.start_date
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+           'series_id', ss.id,
+           'series_name', ss.name,
+           'show', to_jsonb(n) - 'series_id'
+         ) ORDER BY n.start_date), '[]'::jsonb)
+  INTO v_series
+  FROM next_show n
+  JOIN public.show_series ss ON ss.id = n.series_id;
+
+  -- Dealers newly added to the favorited and followed-series shows above
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+           'show_id', g.show_id,
+           'show_title', g.show_title,
+           'start_date', g.start_date,
+           'dealers', g.dealers
+         ) ORDER BY g.start_date), '[]'::jsonb)
+  INTO v_dealers
+  FROM (
+    SELECT s.id AS show_id, s.title AS show_title, s.start_date,
+           jsonb_agg(DISTINCT coalesce(nullif(trim(p.business_name), ''),
+                                       trim(concat_ws(' ', p.first_name, p.last_name)))) AS dealers
+    FROM public.show_participants sp
+    JOIN public.shows s ON s.id = sp.showid
+    JOIN public.profiles p ON p.id = sp.userid
+    WHERE lower(p.role) IN ('dealer', 'mvp_dealer')
+      AND coalesce(sp.status, 'registered') IN ('registered', 'confirmed')
+      AND coalesce(sp.created_at, sp.createdat) > v_since
+      AND sp.userid <> p_user_id
+      AND (
+        s.id = ANY (v_favorites)
+        OR s.id IN (SELECT (x->'show'->>'id')::uuid FROM jsonb_array_elements(v_series) x)
+      )
+      AND s.end_date >= now()
+    GROUP BY s.id, s.title, s.start_date
+  ) g;
+
+  RETURN jsonb_build_object(
+    'home_zip', v_zip,
+    'radius_miles', v_radius,
+    'nearby', coalesce(v_nearby, '[]'::jsonb),
+    'favorites_soon', v_soon,
+    'new_dealers', v_dealers,
+    'followed_series', v_series
+  );
+END;
+$$;
+
+-- 5) One-click unsubscribe from the link in the email
+CREATE OR REPLACE FUNCTION public.unsubscribe_email_digest(p_token UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.email_digest_preferences
+  SET weekly_digest_enabled = FALSE,
+      updated_at = now()
+  WHERE unsubscribe_token = p_token;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_due_weekly_digests(INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_weekly_digest_content(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.unsubscribe_email_digest(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_due_weekly_digests(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_weekly_digest_content(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.unsubscribe_email_digest(UUID) TO service_role;
+
+COMMIT;
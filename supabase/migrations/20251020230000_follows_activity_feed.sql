@@ -0,0 +1,590 @@
+-- Migration: 20251020230000_follows_activity_feed.sql
+-- Description: Follow graph (organizers, show series, dealers), organizer
+--              updates, and an activity feed built from triggers on dealer
+--              registrations, new series dates and organizer updates. Feed
+--              events are also pushed to followers, and followed dealers /
+--              organizers are told about new followers.
+-- Date: 2025-10-20
+
+BEGIN;
+
+-- 1) Follow graph – one row per (follower, target)
+CREATE TABLE IF NOT EXISTS public.follows (
+  follower_id  UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_type  TEXT NOT NULL CHECK (target_type IN ('organizer', 'series', 'dealer')),
+  target_id    UUID NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (follower_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_target
+  ON public.follows (target_type, target_id);
+
+COMMENT ON COLUMN public.follows.target_id IS
+'profiles.id for organizers and dealers, show_series.id for series. Not a foreign key because it points at different tables per target_type.';
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- Who follows whom is private; counts come from get_follow_summary()
+DROP POLICY IF EXISTS "follows_select_self" ON public.follows;
+CREATE POLICY "follows_select_self"
+  ON public.follows
+  FOR SELECT
+  USING (follower_id = auth.uid());
+
+DROP POLICY IF EXISTS "follows_insert_self" ON public.follows;
+CREATE POLICY "follows_insert_self"
+  ON public.follows
+  FOR INSERT
+  WITH CHECK (follower_id = auth.uid() AND target_id <> auth.uid());
+
+DROP POLICY IF EXISTS "follows_delete_self" ON public.follows;
+CREATE POLICY "follows_delete_self"
+  ON public.follows
+  FOR DELETE
+  USING (follower_id = auth.uid());
+
+GRANT SELECT, INSERT, DELETE ON TABLE public.follows TO authenticated;
+GRANT ALL ON TABLE public.follows TO service_role;
+
+-- 2) Updates organizers post to their followers
+CREATE TABLE IF NOT EXISTS public.organizer_updates (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organizer_id  UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  show_id       UUID REFERENCES public.shows(id) ON DELETE SET NULL,
+  message       TEXT NOT NULL CHECK (length(btrim(message)) BETWEEN 1 AND 1000),
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organizer_updates_organizer
+  ON public.organizer_updates (organizer_id, created_at DESC);
+
+ALTER TABLE public.organizer_updates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "organizer_updates_select_all" ON public.organizer_updates;
+CREATE POLICY "organizer_updates_select_all"
+  ON public.organizer_updates
+  FOR SELECT
+  USING (TRUE);
+
+DROP POLICY IF EXISTS "organizer_updates_insert_organizer" ON public.organizer_updates;
+CREATE POLICY "organizer_updates_insert_organizer"
+  ON public.organizer_updates
+  FOR INSERT
+  WITH CHECK (
+    organizer_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid() AND lower(p.role) = 'show_organizer'
+    )
+    AND (
+      show_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.shows s WHERE s.id = show_id AND s.organizer_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "organizer_updates_delete_organizer" ON public.organizer_updates;
+CREATE POLICY "organizer_updates_delete_organizer"
+  ON public.organizer_updates
+  FOR DELETE
+  USING (organizer_id = auth.uid());
+
+GRANT SELECT ON TABLE public.organizer_updates TO anon, authenticated;
+GRANT INSERT, DELETE ON TABLE public.organizer_updates TO authenticated;
+GRANT ALL ON TABLE public.organizer_updates TO service_role;
+
+-- 3) Activity events – written by the triggers below, read via get_activity_feed()
+CREATE TABLE IF NOT EXISTS public.activity_events (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type   TEXT NOT NULL
+               CHECK (event_type IN ('dealer_registered', 'series_date_announced', 'organizer_update')),
+  target_type  TEXT NOT NULL CHECK (target_type IN ('organizer', 'series', 'dealer')),
+  target_id    UUID NOT NULL,
+  show_id      UUID REFERENCES public.shows(id) ON DELETE CASCADE,
+  update_id    UUID REFERENCES public.organizer_updates(id) ON DELETE CASCADE,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_target
+  ON public.activity_events (target_type, target_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_activity_events_dealer_show
+  ON public.activity_events (target_id, show_id)
+  WHERE event_type = 'dealer_registered';
+
+COMMENT ON TABLE public.activity_events IS
+'Things that happened to a followable target. Feed text is built in the app from event_type and the joined show / target names.';
+
+ALTER TABLE public.activity_events ENABLE ROW LEVEL SECURITY;
+
+-- No policies: the feed is served by get_activity_feed()
+GRANT ALL ON TABLE public.activity_events TO service_role;
+
+-- 4) Display name for a followable target
+CREATE OR REPLACE FUNCTION public.follow_target_name(p_target_type TEXT, p_target_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_target_type = 'series' THEN
+      (SELECT ss.name FROM public.show_series ss WHERE ss.id = p_target_id)
+    ELSE
+      (SELECT COALESCE(
+         NULLIF(TRIM(p.display_name), ''),
+         NULLIF(TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+         CASE WHEN p_target_type = 'organizer' THEN 'Show Organizer' ELSE 'Dealer' END
+       )
+       FROM public.profiles p WHERE p.id = p_target_id)
+  END;
+$$;
+
+-- 5) Record an event and notify the target's followers (actor excluded)
+CREATE OR REPLACE FUNCTION public.record_activity_event(
+  p_event_type  TEXT,
+  p_target_type TEXT,
+  p_target_id   UUID,
+  p_show_id     UUID,
+  p_update_id   UUID,
+  p_title       TEXT,
+  p_message     TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event UUID;
+BEGIN
+  INSERT INTO public.activity_events (event_type, target_type, target_id, show_id, update_id)
+  VALUES (p_event_type, p_target_type, p_target_id, p_show_id, p_update_id)
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO v_event;
+
+  -- Already recorded (e.g. a dealer re-registering for the same show)
+  IF v_event IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Push is queued by trg_user_notifications_enqueue_push
+  INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+  SELECT f.follower_id, p_title, p_message, 'followed_activity', COALESCE(p_show_id, p_target_id)
+  FROM public.follows f
+  WHERE f.target_type = p_target_type
+    AND f.target_id = p_target_id
+    AND f.follower_id IS DISTINCT FROM auth.uid();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_activity_event(TEXT, TEXT, UUID, UUID, UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_activity_event(TEXT, TEXT, UUID, UUID, UUID, TEXT, TEXT) TO service_role;
+
+-- 6) "Dealer X registered for Show Y" – new or re-activated registrations for upcoming shows
+CREATE OR REPLACE FUNCTION public.activity_on_dealer_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_show public.shows%ROWTYPE;
+  v_name TEXT;
+BEGIN
+  IF NEW.userid IS NULL OR NEW.showid IS NULL
+     OR COALESCE(NEW.status, 'registered') NOT IN ('registered', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND COALESCE(OLD.status, 'registered') IN ('registered', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_show FROM public.shows WHERE id = NEW.showid;
+  IF NOT FOUND OR COALESCE(v_show.end_date, v_show.start_date) < now() THEN
+    RETURN NEW;
+  END IF;
+
+  v_name := public.follow_target_name('dealer', NEW.userid);
+
+  PERFORM public.record_activity_event(
+    'dealer_registered', 'dealer', NEW.userid, NEW.showid, NULL,
+    v_name || ' is going to a show',
+    v_name || ' registered for ' || v_show.title || ' on ' || to_char(v_show.start_date, 'Mon FMDD') || '.'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_show_participants_activity ON public.show_participants;
+CREATE TRIGGER trg_show_participants_activity
+  AFTER INSERT OR UPDATE OF status ON public.show_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.activity_on_dealer_registration();
+
+-- 7) "Series Z announced its next date" – only when the new show is the
+--    series' earliest upcoming date, so materializing months of occurrences
+--    at once produces one event rather than one per date.
+CREATE OR REPLACE FUNCTION public.activity_on_series_show()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT;
+BEGIN
+  IF NEW.series_id IS NULL OR NEW.start_date < now() OR upper(COALESCE(NEW.status, '')) = 'CANCELLED' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.series_id IS NOT DISTINCT FROM NEW.series_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.shows s
+    WHERE s.series_id = NEW.series_id
+      AND s.id <> NEW.id
+      AND s.start_date >= now()
+      AND s.start_date <= NEW.start_date
+      AND upper(COALESCE(s.status, '')) <> 'CANCELLED'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  v_name := COALESCE(public.follow_target_name('series', NEW.series_id), NEW.title);
+
+  PERFORM public.record_activity_event(
+    'series_date_announced', 'series', NEW.series_id, NEW.id, NULL,
+    v_name || ' has a new date',
+    v_name || ' is back on ' || to_char(NEW.start_date, 'Dy, Mon FMDD') || ' at ' || COALESCE(NEW.location, 'a new venue') || '.'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_shows_series_activity ON public.shows;
+CREATE TRIGGER trg_shows_series_activity
+  AFTER INSERT OR UPDATE OF series_id ON public.shows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.activity_on_series_show();
+
+-- 8) "Organizer posted an update"
+CREATE OR REPLACE FUNCTION public.activity_on_organizer_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_activity_event(
+    'organizer_update', 'organizer', NEW.organizer_id, NEW.show_id, NEW.id,
+    public.follow_target_name('organizer', NEW.organizer_id) || ' posted an update',
+    left(NEW.message, 200)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_organizer_updates_activity ON public.organizer_updates;
+CREATE TRIGGER trg_organizer_updates_activity
+  AFTER INSERT ON public.organizer_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.activity_on_organizer_update();
+
+-- 9) Tell dealers and organizers when someone follows them
+CREATE OR REPLACE FUNCTION public.notify_new_follower()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.target_type NOT IN ('organizer', 'dealer') THEN
+    RETURN NEW;
+  END IF;
+
+  -- At most one per follower per day, so follow / unfollow toggling doesn't spam
+  IF EXISTS (
+    SELECT 1 FROM public.user_notifications n
+    WHERE n.user_id = NEW.target_id
+      AND n.type = 'new_follower'
+      AND n.reference_id = NEW.follower_id
+      AND n.created_at > now() - INTERVAL '1 day'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+  SELECT
+    NEW.target_id,
+    'New follower',
+    COALESCE(
+      NULLIF(TRIM(p.display_name), ''),
+      NULLIF(TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      'A collector'
+    ) || ' is now following you.',
+    'new_follower',
+    NEW.follower_id
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = NEW.follower_id
+  WHERE u.id = NEW.target_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_follows_notify ON public.follows;
+CREATE TRIGGER trg_follows_notify
+  AFTER INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_follower();
+
+-- 10) Follower count + whether the caller follows the target
+CREATE OR REPLACE FUNCTION public.get_follow_summary(p_target_type TEXT, p_target_id UUID)
+RETURNS TABLE (follower_count INTEGER, is_following BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    count(*)::INTEGER,
+    COALESCE(bool_or(f.follower_id = auth.uid()), FALSE)
+  FROM public.follows f
+  WHERE f.target_type = p_target_type
+    AND f.target_id = p_target_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_follow_summary(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_follow_summary(TEXT, UUID) TO anon, authenticated;
+
+-- 11) The caller's follows with display names, newest first
+CREATE OR REPLACE FUNCTION public.get_my_follows()
+RETURNS TABLE (target_type TEXT, target_id UUID, target_name TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.target_type, f.target_id, public.follow_target_name(f.target_type, f.target_id), f.created_at
+  FROM public.follows f
+  WHERE f.follower_id = auth.uid()
+  ORDER BY f.created_at DESC;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_my_follows() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_my_follows() TO authenticated;
+
+-- 12) One page of the caller's activity feed (last 90 days, newest first).
+--     Pages are 1-based like get_paginated_shows; total_count repeats on every row.
+CREATE OR REPLACE FUNCTION public.get_activity_feed(
+  p_page      INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id              UUID,
+  event_type      TEXT,
+  target_type     TEXT,
+  target_id       UUID,
+  target_name     TEXT,
+  show_id         UUID,
+  show_title      TEXT,
+  show_start_date TIMESTAMPTZ,
+  show_location   TEXT,
+  message         TEXT,
+  created_at      TIMESTAMPTZ,
+  total_count     BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    e.event_type,
+    e.target_type,
+    e.target_id,
+    public.follow_target_name(e.target_type, e.target_id),
+    e.show_id,
+    s.title,
+    s.start_date,
+    s.location,
+    u.message,
+    e.created_at,
+    count(*) OVER ()
+  FROM public.activity_events e
+  JOIN public.follows f
+    ON f.target_type = e.target_type
+   AND f.target_id = e.target_id
+   AND f.follower_id = auth.uid()
+  LEFT JOIN public.shows s ON s.id = e.show_id
+  LEFT JOIN public.organizer_updates u ON u.id = e.update_id
+  WHERE e.created_at > now() - INTERVAL '90 days'
+  ORDER BY e.created_at DESC, e.id
+  LIMIT LEAST(GREATEST(p_page_size, 1), 100)
+  OFFSET (GREATEST(p_page, 1) - 1) * LEAST(GREATEST(p_page_size, 1), 100);
+$$;
+
+REVOKE ALL ON FUNCTION public.get_activity_feed(INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_activity_feed(INTEGER, INTEGER) TO authenticated;
+
+-- 13) Weekly digest: explicitly followed series join the ones inferred from
+--     favorites and check-ins (otherwise unchanged from 20251020220000)
+CREATE OR REPLACE FUNCTION public.get_weekly_digest_content(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_radius    INTEGER;
+  v_since     TIMESTAMPTZ;
+  v_center    GEOGRAPHY;
+  v_zip       TEXT;
+  v_favorites UUID[];
+  v_nearby    JSONB;
+  v_soon      JSONB;
+  v_dealers   JSONB;
+  v_series    JSONB;
+BEGIN
+  SELECT coalesce(d.radius_miles, 50),
+         coalesce(d.last_sent_at, now() - interval '7 days')
+  INTO v_radius, v_since
+  FROM public.profiles p
+  LEFT JOIN public.email_digest_preferences d ON d.user_id = p.id
+  WHERE p.id = p_user_id;
+
+  IF v_radius IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT z.zip_code,
+         ST_SetSRID(ST_MakePoint(z.longitude, z.latitude), 4326)::geography
+  INTO v_zip, v_center
+  FROM public.profiles p
+  JOIN public.zip_codes z ON z.zip_code = p.home_zip_code
+  WHERE p.id = p_user_id;
+
+  SELECT coalesce(array_agg(f.show_id), '{}')
+  INTO v_favorites
+  FROM public.user_favorite_shows f
+  WHERE f.user_id = p_user_id;
+
+  -- Favorited shows happening in the next two weeks
+  SELECT coalesce(jsonb_agg(to_jsonb(x) ORDER BY x.start_date), '[]'::jsonb)
+  INTO v_soon
+  FROM (
+    SELECT s.id, s.title, s.location, s.address, s.start_date, s.end_date
+    FROM public.shows s
+    WHERE s.id = ANY (v_favorites)
+      AND s.status = 'ACTIVE'
+      AND s.end_date >= now()
+      AND s.start_date < now() + interval '14 days'
+    ORDER BY s.start_date
+    LIMIT 10
+  ) x;
+
+  -- Upcoming shows within the radius of the home ZIP, not already favorited
+  IF v_center IS NOT NULL THEN
+    SELECT coalesce(jsonb_agg(to_jsonb(x) ORDER BY x.start_date), '[]'::jsonb)
+    INTO v_nearby
+    FROM (
+      SELECT s.id, s.title, s.location, s.address, s.start_date, s.end_date, s.entry_fee,
+             round((ST_Distance(s.coordinates::geography, v_center) / 1609.34)::numeric, 1) AS distance_miles
+      FROM public.shows s
+      WHERE s.status = 'ACTIVE'
+        AND s.coordinates IS NOT NULL
+        AND s.end_date >= now()
+        AND s.start_date < now() + interval '21 days'
+        AND NOT (s.id = ANY (v_favorites))
+        AND ST_DWithin(s.coordinates::geography, v_center, v_radius * 1609.34)
+      ORDER BY s.start_date
+      LIMIT 10
+    ) x;
+  END IF;
+
+  -- Series followed explicitly, or through favorites or check-ins
+  WITH followed AS (
+    SELECT DISTINCT s.series_id
+    FROM public.shows s
+    WHERE s.series_id IS NOT NULL
+      AND (
+        s.id = ANY (v_favorites)
+        OR EXISTS (
+          SELECT 1 FROM public.show_check_ins c
+          WHERE c.show_id = s.id AND c.user_id = p_user_id
+        )
+      )
+    UNION
+    SELECT f.target_id
+    FROM public.follows f
+    WHERE f.follower_id = p_user_id
+      AND f.target_type = 'series'
+  ),
+  next_show AS (
+    SELECT DISTINCT ON (s.series_id)
+           s.series_id, s.id, s.title, s.location, s.start_date, s.end_date
+    FROM public.shows s
+    JOIN followed f ON f.series_id = s.series_id
+    WHERE s.status = 'ACTIVE'
+      AND s.start_date >= now()
+      AND s.start_date < now() + interval '60 days'
+      AND NOT (s.id = ANY (v_favorites))
+    ORDER BY s.series_id, s.start_date
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+           'series_id', ss.id,
+           'series_name', ss.name,
+           'show', to_jsonb(n) - 'series_id'
+         ) ORDER BY n.start_date), '[]'::jsonb)
+  INTO v_series
+  FROM next_show n
+  JOIN public.show_series ss ON ss.id = n.series_id;
+
+  -- Dealers newly added to the favorited and followed-series shows above
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+           'show_id', g.show_id,
+           'show_title', g.show_title,
+           'start_date', g.start_date,
+           'dealers', g.dealers
+         ) ORDER BY g.start_date), '[]'::jsonb)
+  INTO v_dealers
+  FROM (
+    SELECT s.id AS show_id, s.title AS show_title, s.start_date,
+           jsonb_agg(DISTINCT coalesce(nullif(trim(p.business_name), ''),
+                                       trim(concat_ws(' ', p.first_name, p.last_name)))) AS dealers
+    FROM public.show_participants sp
+    JOIN public.shows s ON s.id = sp.showid
+    JOIN public.profiles p ON p.id = sp.userid
+    WHERE lower(p.role) IN ('dealer', 'mvp_dealer')
+      AND coalesce(sp.status, 'registered') IN ('registered', 'confirmed')
+      AND coalesce(sp.created_at, sp.createdat) > v_since
+      AND sp.userid <> p_user_id
+      AND (
+        s.id = ANY (v_favorites)
+        OR s.id IN (SELECT (x->'show'->>'id')::uuid FROM jsonb_array_elements(v_series) x)
+      )
+      AND s.end_date >= now()
+    GROUP BY s.id, s.title, s.start_date
+  ) g;
+
+  RETURN jsonb_build_object(
+    'home_zip', v_zip,
+    'radius_miles', v_radius,
+    'nearby', coalesce(v_nearby, '[]'::jsonb),
+    'favorites_soon', v_soon,
+    'new_dealers', v_dealers,
+    'followed_series', v_series
+  );
+END;
+$$;
+
+COMMIT;
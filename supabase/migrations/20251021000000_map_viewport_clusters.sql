@@ -0,0 +1,192 @@
+-- Migration: 20251021000000_map_viewport_clusters.sql
+-- Description: Viewport query for the map screens. get_map_viewport() takes
+--              the visible bounding box and zoom level, applies the same
+--              filters as the show list, and returns grid clusters when
+--              zoomed out and individual pins when zoomed in. The admin map
+--              can ask for every show regardless of status or date.
+-- Date: 2025-10-21
+
+BEGIN;
+
+-- 1) Shows inside a bounding box that match the list filters.
+--    p_min_lng > p_max_lng means the box crosses the antimeridian.
+--    Filters use the saved-search matcher without its radius check; the
+--    date window matches getPaginatedShows (show overlaps start..end).
+CREATE OR REPLACE FUNCTION public.map_viewport_shows(
+  p_min_lat     DOUBLE PRECISION,
+  p_min_lng     DOUBLE PRECISION,
+  p_max_lat     DOUBLE PRECISION,
+  p_max_lng     DOUBLE PRECISION,
+  p_filters     JSONB DEFAULT '{}'::jsonb,
+  p_include_all BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (show_id UUID, latitude DOUBLE PRECISION, longitude DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH located AS (
+    SELECT
+      s,
+      ST_Y(s.coordinates::geometry) AS lat,
+      ST_X(s.coordinates::geometry) AS lng
+    FROM public.shows s
+    WHERE s.coordinates IS NOT NULL
+  )
+  SELECT (l.s).id, l.lat, l.lng
+  FROM located l
+  WHERE l.lat BETWEEN p_min_lat AND p_max_lat
+    AND (
+      CASE WHEN p_min_lng <= p_max_lng
+        THEN l.lng BETWEEN p_min_lng AND p_max_lng
+        ELSE l.lng >= p_min_lng OR l.lng <= p_max_lng
+      END
+    )
+    AND (
+      p_include_all
+      OR (
+        (l.s).start_date <= coalesce(nullif(p_filters->>'endDate', '')::timestamptz, 'infinity')
+        AND coalesce((l.s).end_date, (l.s).start_date)
+            >= coalesce(nullif(p_filters->>'startDate', '')::timestamptz, now())
+        AND public.show_matches_saved_search(l.s, coalesce(p_filters, '{}'::jsonb), NULL, NULL)
+      )
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.map_viewport_shows(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, JSONB, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.map_viewport_shows(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, JSONB, BOOLEAN) TO anon, authenticated;
+
+-- 2) Viewport RPC.
+--    Zoomed in (zoom >= 11), or with at most 150 matches, every show comes
+--    back as a pin (capped at 500, soonest first). Otherwise shows are
+--    bucketed into a grid of 2^(zoom + 2) cells around the world; buckets
+--    with one show still come back as pins so the map can open a callout.
+--
+--    Result:
+--      { mode: 'pins' | 'clusters', total, truncated,
+--        shows:    [show row + latitude/longitude],
+--        clusters: [{ id, latitude, longitude, count,
+--                     min_latitude, min_longitude, max_latitude, max_longitude }] }
+CREATE OR REPLACE FUNCTION public.get_map_viewport(
+  p_min_lat     DOUBLE PRECISION,
+  p_min_lng     DOUBLE PRECISION,
+  p_max_lat     DOUBLE PRECISION,
+  p_max_lng     DOUBLE PRECISION,
+  p_zoom        INTEGER,
+  p_filters     JSONB DEFAULT '{}'::jsonb,
+  p_include_all BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_zoom      INTEGER := greatest(0, least(coalesce(p_zoom, 0), 22));
+  v_cell      DOUBLE PRECISION;
+  v_total     INTEGER;
+  v_shows     JSONB;
+  v_clusters  JSONB;
+  v_pin_limit CONSTANT INTEGER := 500;
+BEGIN
+  IF p_min_lat IS NULL OR p_min_lng IS NULL OR p_max_lat IS NULL OR p_max_lng IS NULL THEN
+    RAISE EXCEPTION 'Viewport bounds are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_include_all AND NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin privileges required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO v_total
+  FROM public.map_viewport_shows(p_min_lat, p_min_lng, p_max_lat, p_max_lng, p_filters, p_include_all);
+
+  IF v_zoom >= 11 OR v_total <= 150 THEN
+    SELECT coalesce(jsonb_agg(pin.row ORDER BY pin.start_date), '[]'::jsonb)
+    INTO v_shows
+    FROM (
+      SELECT
+        (to_jsonb(s) - 'coordinates' - 'description')
+          || jsonb_build_object('latitude', v.latitude, 'longitude', v.longitude) AS row,
+        s.start_date
+      FROM public.map_viewport_shows(p_min_lat, p_min_lng, p_max_lat, p_max_lng, p_filters, p_include_all) v
+      JOIN public.shows s ON s.id = v.show_id
+      ORDER BY s.start_date
+      LIMIT v_pin_limit
+    ) pin;
+
+    RETURN jsonb_build_object(
+      'mode', 'pins',
+      'total', v_total,
+      'truncated', v_total > v_pin_limit,
+      'shows', v_shows,
+      'clusters', '[]'::jsonb
+    );
+  END IF;
+
+  v_cell := 360.0 / power(2, v_zoom + 2);
+
+  WITH cells AS (
+    SELECT
+      v.show_id,
+      v.latitude,
+      v.longitude,
+      floor((v.longitude + 180) / v_cell)::INTEGER AS cx,
+      floor((v.latitude + 90) / v_cell)::INTEGER AS cy
+    FROM public.map_viewport_shows(p_min_lat, p_min_lng, p_max_lat, p_max_lng, p_filters, p_include_all) v
+  ),
+  grouped AS (
+    SELECT
+      cx,
+      cy,
+      count(*) AS count,
+      avg(latitude) AS latitude,
+      avg(longitude) AS longitude,
+      min(latitude) AS min_latitude,
+      min(longitude) AS min_longitude,
+      max(latitude) AS max_latitude,
+      max(longitude) AS max_longitude,
+      (array_agg(show_id))[1] AS only_show_id
+    FROM cells
+    GROUP BY cx, cy
+  )
+  SELECT
+    coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'id', v_zoom || ':' || g.cx || ':' || g.cy,
+          'latitude', g.latitude,
+          'longitude', g.longitude,
+          'count', g.count,
+          'min_latitude', g.min_latitude,
+          'min_longitude', g.min_longitude,
+          'max_latitude', g.max_latitude,
+          'max_longitude', g.max_longitude
+        )
+      ) FILTER (WHERE g.count > 1),
+      '[]'::jsonb
+    ),
+    coalesce(
+      jsonb_agg(
+        (to_jsonb(s) - 'coordinates' - 'description')
+          || jsonb_build_object('latitude', g.latitude, 'longitude', g.longitude)
+      ) FILTER (WHERE g.count = 1),
+      '[]'::jsonb
+    )
+  INTO v_clusters, v_shows
+  FROM grouped g
+  LEFT JOIN public.shows s ON g.count = 1 AND s.id = g.only_show_id;
+
+  RETURN jsonb_build_object(
+    'mode', 'clusters',
+    'total', v_total,
+    'truncated', FALSE,
+    'shows', v_shows,
+    'clusters', v_clusters
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_map_viewport(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, JSONB, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_map_viewport(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, JSONB, BOOLEAN) TO anon, authenticated;
+
+COMMIT;
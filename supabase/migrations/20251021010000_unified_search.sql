@@ -0,0 +1,297 @@
+-- Migration: 20251021010000_unified_search.sql
+-- Description: Unified search across upcoming shows, show series, venues,
+--              cities and dealers. Ranks prefix full-text matches together
+--              with trigram word similarity so typos ("Noblesvile") still
+--              find results, and offers typeahead suggestions built on the
+--              same ranking.
+-- Date: 2025-10-21
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 1) Indexes for the searched fields
+CREATE INDEX IF NOT EXISTS idx_shows_title_trgm
+  ON public.shows USING GIN (lower(title) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_shows_location_trgm
+  ON public.shows USING GIN (lower(location) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_shows_search_fts
+  ON public.shows USING GIN (
+    to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(location, '') || ' ' || coalesce(address, ''))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_show_series_name_trgm
+  ON public.show_series USING GIN (lower(name) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_show_participants_specialty_trgm
+  ON public.show_participants USING GIN (lower(specialty) gin_trgm_ops);
+
+-- 2) "Noblesville, IN" from "123 Main St, Noblesville, IN 46060"
+CREATE OR REPLACE FUNCTION public.search_city_state(p_address TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(m[1]) || ', ' || upper(m[2])
+  FROM regexp_match(
+    coalesce(p_address, ''),
+    '([^,]+),\s*([A-Za-z]{2})(?:\s+\d{5}(?:-\d{4})?)?\s*(?:,\s*(?:USA|United States))?\s*$'
+  ) AS m
+  WHERE m IS NOT NULL;
+$$;
+
+-- 3) Every word of the query as a prefix: "card sho" -> 'card':* & 'sho':*
+CREATE OR REPLACE FUNCTION public.search_prefix_tsquery(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(w || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS w
+  WHERE w <> '';
+$$;
+
+-- 4) Grouped search. Up to p_limit_per_type results of each type, ranked by
+--    word similarity to the query, plus a bonus for a full-text prefix
+--    match and for names that start with the query. Only upcoming, active
+--    shows are searched; series, venues, cities and dealers are found
+--    through their upcoming shows so every result has a show to open.
+--    SECURITY DEFINER so dealer names and booth specialties can be searched
+--    without exposing the underlying rows.
+CREATE OR REPLACE FUNCTION public.search_all(
+  p_query          TEXT,
+  p_limit_per_type INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  result_type TEXT,
+  result_id   TEXT,
+  title       TEXT,
+  subtitle    TEXT,
+  show_id     UUID,
+  dealer_id   UUID,
+  score       REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.45
+AS $$
+DECLARE
+  v_q     TEXT := lower(btrim(regexp_replace(coalesce(p_query, ''), '\s+', ' ', 'g')));
+  v_tsq   tsquery;
+  v_limit INTEGER := greatest(1, least(coalesce(p_limit_per_type, 5), 25));
+BEGIN
+  IF length(v_q) < 2 THEN
+    RETURN;
+  END IF;
+  v_tsq := public.search_prefix_tsquery(v_q);
+
+  -- Shows
+  RETURN QUERY
+  SELECT
+    'show'::TEXT,
+    s.id::TEXT,
+    s.title,
+    concat_ws(' · ', to_char(s.start_date, 'Mon FMDD'), coalesce(nullif(btrim(s.location), ''), public.search_city_state(s.address))),
+    s.id,
+    NULL::UUID,
+    (
+      word_similarity(v_q, lower(s.title))
+      + CASE WHEN to_tsvector('simple', coalesce(s.title, '') || ' ' || coalesce(s.location, '') || ' ' || coalesce(s.address, '')) @@ v_tsq THEN 0.5 ELSE 0 END
+      + CASE WHEN lower(s.title) LIKE v_q || '%' THEN 0.25 ELSE 0 END
+    )::REAL AS rank
+  FROM public.shows s
+  WHERE s.status = 'ACTIVE'
+    AND coalesce(s.end_date, s.start_date) >= now()
+    AND (
+      lower(s.title) %> v_q
+      OR to_tsvector('simple', coalesce(s.title, '') || ' ' || coalesce(s.location, '') || ' ' || coalesce(s.address, '')) @@ v_tsq
+    )
+  ORDER BY rank DESC, s.start_date
+  LIMIT v_limit;
+
+  -- Series with an upcoming date
+  RETURN QUERY
+  SELECT
+    'series'::TEXT,
+    ss.id::TEXT,
+    ss.name,
+    'Next: ' || to_char(nxt.start_date, 'Mon FMDD') || coalesce(' · ' || nullif(btrim(nxt.location), ''), ''),
+    nxt.id,
+    NULL::UUID,
+    (
+      word_similarity(v_q, lower(ss.name))
+      + CASE WHEN to_tsvector('simple', coalesce(ss.name, '')) @@ v_tsq THEN 0.5 ELSE 0 END
+      + CASE WHEN lower(ss.name) LIKE v_q || '%' THEN 0.25 ELSE 0 END
+    )::REAL AS rank
+  FROM public.show_series ss
+  CROSS JOIN LATERAL (
+    SELECT s.id, s.start_date, s.location
+    FROM public.shows s
+    WHERE s.series_id = ss.id
+      AND s.status = 'ACTIVE'
+      AND coalesce(s.end_date, s.start_date) >= now()
+    ORDER BY s.start_date
+    LIMIT 1
+  ) nxt
+  WHERE lower(ss.name) %> v_q
+     OR to_tsvector('simple', coalesce(ss.name, '')) @@ v_tsq
+  ORDER BY rank DESC, nxt.start_date
+  LIMIT v_limit;
+
+  -- Venues (grouped by name)
+  RETURN QUERY
+  SELECT
+    'venue'::TEXT,
+    'venue:' || v.venue_key,
+    v.name,
+    concat_ws(' · ', v.city_state, v.shows || CASE WHEN v.shows = 1 THEN ' upcoming show' ELSE ' upcoming shows' END),
+    v.next_show_id,
+    NULL::UUID,
+    v.rank
+  FROM (
+    SELECT
+      lower(btrim(s.location)) AS venue_key,
+      min(btrim(s.location)) AS name,
+      min(public.search_city_state(s.address)) AS city_state,
+      count(*)::INTEGER AS shows,
+      (array_agg(s.id ORDER BY s.start_date))[1] AS next_show_id,
+      min(s.start_date) AS next_start,
+      (
+        max(word_similarity(v_q, lower(s.location)))
+        + CASE WHEN bool_or(to_tsvector('simple', coalesce(s.location, '')) @@ v_tsq) THEN 0.5 ELSE 0 END
+        + CASE WHEN bool_or(lower(btrim(s.location)) LIKE v_q || '%') THEN 0.25 ELSE 0 END
+      )::REAL AS rank
+    FROM public.shows s
+    WHERE s.status = 'ACTIVE'
+      AND coalesce(s.end_date, s.start_date) >= now()
+      AND nullif(btrim(s.location), '') IS NOT NULL
+      AND (
+        lower(s.location) %> v_q
+        OR to_tsvector('simple', coalesce(s.location, '')) @@ v_tsq
+      )
+    GROUP BY lower(btrim(s.location))
+  ) v
+  ORDER BY v.rank DESC, v.next_start
+  LIMIT v_limit;
+
+  -- Cities ("City, ST" parsed from the address)
+  RETURN QUERY
+  SELECT
+    'city'::TEXT,
+    'city:' || lower(c.city_state),
+    c.city_state,
+    c.shows || CASE WHEN c.shows = 1 THEN ' upcoming show' ELSE ' upcoming shows' END,
+    c.next_show_id,
+    NULL::UUID,
+    c.rank
+  FROM (
+    SELECT
+      cs.city_state,
+      count(*)::INTEGER AS shows,
+      (array_agg(cs.id ORDER BY cs.start_date))[1] AS next_show_id,
+      min(cs.start_date) AS next_start,
+      (
+        word_similarity(v_q, lower(cs.city_state))
+        + CASE WHEN to_tsvector('simple', cs.city_state) @@ v_tsq THEN 0.5 ELSE 0 END
+        + CASE WHEN lower(cs.city_state) LIKE v_q || '%' THEN 0.25 ELSE 0 END
+      )::REAL AS rank
+    FROM (
+      SELECT s.id, s.start_date, public.search_city_state(s.address) AS city_state
+      FROM public.shows s
+      WHERE s.status = 'ACTIVE'
+        AND coalesce(s.end_date, s.start_date) >= now()
+    ) cs
+    WHERE cs.city_state IS NOT NULL
+      AND (
+        lower(cs.city_state) %> v_q
+        OR to_tsvector('simple', cs.city_state) @@ v_tsq
+      )
+    GROUP BY cs.city_state
+  ) c
+  ORDER BY c.rank DESC, c.next_start
+  LIMIT v_limit;
+
+  -- Dealers at upcoming shows, by name or booth specialty
+  RETURN QUERY
+  SELECT
+    'dealer'::TEXT,
+    d.dealer_id::TEXT,
+    d.name,
+    concat_ws(' · ', d.specialty, 'At ' || d.show_title || ' ' || to_char(d.start_date, 'Mon FMDD')),
+    d.show_id,
+    d.dealer_id,
+    d.rank
+  FROM (
+    SELECT DISTINCT ON (p.id)
+      p.id AS dealer_id,
+      COALESCE(
+        NULLIF(TRIM(p.display_name), ''),
+        NULLIF(TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+        'Dealer'
+      ) AS name,
+      nullif(btrim(sp.specialty), '') AS specialty,
+      s.id AS show_id,
+      s.title AS show_title,
+      s.start_date,
+      (
+        greatest(
+          word_similarity(v_q, lower(coalesce(p.display_name, '') || ' ' || coalesce(p.first_name, '') || ' ' || coalesce(p.last_name, ''))),
+          word_similarity(v_q, lower(coalesce(sp.specialty, '')))
+        )
+        + CASE WHEN to_tsvector('simple',
+              coalesce(p.display_name, '') || ' ' || coalesce(p.first_name, '') || ' ' ||
+              coalesce(p.last_name, '') || ' ' || coalesce(sp.specialty, '')) @@ v_tsq
+            THEN 0.5 ELSE 0 END
+      )::REAL AS rank
+    FROM public.show_participants sp
+    JOIN public.shows s ON s.id = sp.showid
+    JOIN public.profiles p ON p.id = sp.userid
+    WHERE s.status = 'ACTIVE'
+      AND coalesce(s.end_date, s.start_date) >= now()
+      AND coalesce(sp.status, 'registered') IN ('registered', 'confirmed')
+      AND lower(coalesce(p.role, '')) IN ('dealer', 'mvp_dealer')
+      AND (
+        lower(coalesce(p.display_name, '') || ' ' || coalesce(p.first_name, '') || ' ' || coalesce(p.last_name, '')) %> v_q
+        OR lower(sp.specialty) %> v_q
+        OR to_tsvector('simple',
+             coalesce(p.display_name, '') || ' ' || coalesce(p.first_name, '') || ' ' ||
+             coalesce(p.last_name, '') || ' ' || coalesce(sp.specialty, '')) @@ v_tsq
+      )
+    ORDER BY p.id, rank DESC, s.start_date
+  ) d
+  ORDER BY d.rank DESC, d.start_date
+  LIMIT v_limit;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.search_all(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_all(TEXT, INTEGER) TO anon, authenticated;
+
+-- 5) Typeahead: the best few names across all result types, de-duplicated
+CREATE OR REPLACE FUNCTION public.search_suggestions(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (suggestion TEXT, result_type TEXT, score REAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.title, t.result_type, t.score
+  FROM (
+    SELECT DISTINCT ON (lower(r.title)) r.title, r.result_type, r.score
+    FROM public.search_all(p_query, 3) r
+    ORDER BY lower(r.title), r.score DESC
+  ) t
+  ORDER BY t.score DESC, t.title
+  LIMIT greatest(1, least(coalesce(p_limit, 8), 20));
+$$;
+
+REVOKE ALL ON FUNCTION public.search_suggestions(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_suggestions(TEXT, INTEGER) TO anon, authenticated;
+
+COMMIT;
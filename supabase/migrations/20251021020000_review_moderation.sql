@@ -0,0 +1,904 @@
+-- Migration: 20251021020000_review_moderation.sql
+-- Description: Review moderation. New reviews and organizer responses are
+--              screened on write (blocked terms, links, duplicate text,
+--              review-bombing bursts against one series) and held for an
+--              admin when flagged. Users can report reviews / responses;
+--              three open reports hold the item. Admins approve, hide or
+--              ban from the card-show-admin queue, every decision is kept
+--              in review_moderation_actions, and held or hidden reviews
+--              no longer count towards show / series ratings or badges.
+-- Date: 2025-10-21
+
+BEGIN;
+
+-- 1) Moderation state on reviews. Held organizer responses are moved out of
+--    organizer_response into held_response so clients never read them.
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'published',
+  ADD COLUMN IF NOT EXISTS moderation_flags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS comment_fingerprint TEXT,
+  ADD COLUMN IF NOT EXISTS response_status TEXT NOT NULL DEFAULT 'published',
+  ADD COLUMN IF NOT EXISTS response_flags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS held_response JSONB,
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_moderation_status_check;
+ALTER TABLE public.reviews
+  ADD CONSTRAINT reviews_moderation_status_check
+  CHECK (moderation_status IN ('published', 'pending', 'hidden'));
+
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_response_status_check;
+ALTER TABLE public.reviews
+  ADD CONSTRAINT reviews_response_status_check
+  CHECK (response_status IN ('published', 'pending', 'hidden'));
+
+CREATE INDEX IF NOT EXISTS idx_reviews_moderation_queue
+  ON public.reviews (created_at)
+  WHERE moderation_status = 'pending' OR response_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_reviews_comment_fingerprint
+  ON public.reviews (comment_fingerprint)
+  WHERE comment_fingerprint IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_series_created
+  ON public.reviews (series_id, created_at DESC);
+
+COMMENT ON COLUMN public.reviews.moderation_flags IS
+'Why the review was held: profanity, link, duplicate, burst, reports. Cleared when an admin approves it.';
+COMMENT ON COLUMN public.reviews.held_response IS
+'Organizer response while pending or hidden. Moved back to organizer_response on approval.';
+
+-- 2) Blocked terms, matched as whole words. Admins extend the list in SQL.
+CREATE TABLE IF NOT EXISTS public.review_blocked_terms (
+  term        TEXT PRIMARY KEY CHECK (term = lower(btrim(term)) AND term <> ''),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.review_blocked_terms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "review_blocked_terms_admin_all" ON public.review_blocked_terms;
+CREATE POLICY "review_blocked_terms_admin_all"
+  ON public.review_blocked_terms
+  FOR ALL
+  USING (public.has_admin_role())
+  WITH CHECK (public.has_admin_role());
+
+GRANT SELECT, INSERT, DELETE ON TABLE public.review_blocked_terms TO authenticated;
+GRANT ALL ON TABLE public.review_blocked_terms TO service_role;
+
+INSERT INTO public.review_blocked_terms (term) VALUES
+  ('asshole'), ('bastard'), ('bitch'), ('bullshit'), ('cunt'), ('dickhead'),
+  ('fuck'), ('fucking'), ('motherfucker'), ('shit'), ('whore')
+ON CONFLICT (term) DO NOTHING;
+
+-- 3) Users banned from posting reviews and organizer responses
+CREATE TABLE IF NOT EXISTS public.review_bans (
+  user_id     UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason      TEXT,
+  banned_by   UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.review_bans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "review_bans_admin_select" ON public.review_bans;
+CREATE POLICY "review_bans_admin_select"
+  ON public.review_bans
+  FOR SELECT
+  USING (public.has_admin_role());
+
+GRANT SELECT ON TABLE public.review_bans TO authenticated;
+GRANT ALL ON TABLE public.review_bans TO service_role;
+
+-- 4) Reports from users
+CREATE TABLE IF NOT EXISTS public.review_reports (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id    UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  reporter_id  UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target       TEXT NOT NULL DEFAULT 'review' CHECK (target IN ('review', 'response')),
+  reason       TEXT NOT NULL CHECK (reason IN ('spam', 'abusive', 'off_topic', 'fake', 'other')),
+  details      TEXT CHECK (details IS NULL OR length(details) <= 500),
+  status       TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'upheld', 'dismissed')),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at  TIMESTAMPTZ,
+  resolved_by  UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (review_id, reporter_id, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_reports_open
+  ON public.review_reports (review_id, target)
+  WHERE status = 'open';
+
+ALTER TABLE public.review_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "review_reports_select_own_or_admin" ON public.review_reports;
+CREATE POLICY "review_reports_select_own_or_admin"
+  ON public.review_reports
+  FOR SELECT
+  USING (reporter_id = auth.uid() OR public.has_admin_role());
+
+DROP POLICY IF EXISTS "review_reports_insert_self" ON public.review_reports;
+CREATE POLICY "review_reports_insert_self"
+  ON public.review_reports
+  FOR INSERT
+  WITH CHECK (
+    reporter_id = auth.uid()
+    AND status = 'open'
+    AND EXISTS (
+      SELECT 1 FROM public.reviews r
+      WHERE r.id = review_reports.review_id AND r.user_id <> auth.uid()
+    )
+  );
+
+GRANT SELECT, INSERT ON TABLE public.review_reports TO authenticated;
+GRANT ALL ON TABLE public.review_reports TO service_role;
+
+-- 5) Audit trail. actor_id is NULL for automated holds.
+CREATE TABLE IF NOT EXISTS public.review_moderation_actions (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id   UUID REFERENCES public.reviews(id) ON DELETE SET NULL,
+  target      TEXT NOT NULL DEFAULT 'review' CHECK (target IN ('review', 'response')),
+  action      TEXT NOT NULL CHECK (action IN ('auto_hold', 'report', 'approve', 'hide', 'ban')),
+  actor_id    UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  subject_id  UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason      TEXT,
+  details     JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_moderation_actions_created
+  ON public.review_moderation_actions (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_review_moderation_actions_review
+  ON public.review_moderation_actions (review_id);
+
+COMMENT ON COLUMN public.review_moderation_actions.subject_id IS
+'Author of the moderated content (reviewer, or series organizer for responses).';
+
+ALTER TABLE public.review_moderation_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "review_moderation_actions_admin_select" ON public.review_moderation_actions;
+CREATE POLICY "review_moderation_actions_admin_select"
+  ON public.review_moderation_actions
+  FOR SELECT
+  USING (public.has_admin_role());
+
+GRANT SELECT ON TABLE public.review_moderation_actions TO authenticated;
+GRANT ALL ON TABLE public.review_moderation_actions TO service_role;
+
+-- 6) Visibility. Held and hidden reviews are only visible to their author
+--    and admins. (reviews_all_admin relies on is_admin(), which is stubbed.)
+DROP POLICY IF EXISTS "reviews_select_all" ON public.reviews;
+DROP POLICY IF EXISTS "reviews_select_visible" ON public.reviews;
+CREATE POLICY "reviews_select_visible"
+  ON public.reviews
+  FOR SELECT
+  USING (
+    moderation_status = 'published'
+    OR user_id = auth.uid()
+    OR public.has_admin_role()
+  );
+
+-- 7) Screening helpers
+CREATE OR REPLACE FUNCTION public.review_text_fingerprint(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- Short comments ("Great show!") are legitimately repeated, so only
+  -- fingerprint text long enough to be a copy-paste
+  SELECT CASE
+    WHEN length(v.normalized) >= 20 THEN md5(v.normalized)
+  END
+  FROM (
+    SELECT btrim(regexp_replace(lower(COALESCE(p_text, '')), '[^a-z0-9]+', ' ', 'g')) AS normalized
+  ) v;
+$$;
+
+CREATE OR REPLACE FUNCTION public.screen_review_text(
+  p_text TEXT,
+  p_fingerprint TEXT DEFAULT NULL,
+  p_review_id UUID DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_rating INTEGER DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_flags  TEXT[] := '{}';
+  v_recent INTEGER;
+BEGIN
+  IF p_text IS NOT NULL AND btrim(p_text) <> '' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.review_blocked_terms t
+      WHERE p_text ~* ('\m' || regexp_replace(t.term, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '\M')
+    ) THEN
+      v_flags := array_append(v_flags, 'profanity');
+    END IF;
+
+    IF p_text ~* '(https?://|www\.|\m[a-z0-9-]+\.(com|net|org|io|co|us|biz|info|shop|store|ly)\M)' THEN
+      v_flags := array_append(v_flags, 'link');
+    END IF;
+  END IF;
+
+  -- Same text posted on another review in the last 90 days, by anyone
+  IF p_fingerprint IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.reviews r
+    WHERE r.comment_fingerprint = p_fingerprint
+      AND r.id IS DISTINCT FROM p_review_id
+      AND r.created_at > now() - INTERVAL '90 days'
+  ) THEN
+    v_flags := array_append(v_flags, 'duplicate');
+  END IF;
+
+  -- Review-bombing: the fifth low rating against one series within an hour
+  IF p_series_id IS NOT NULL AND p_rating <= 2 THEN
+    SELECT count(*) INTO v_recent
+    FROM public.reviews r
+    WHERE r.series_id = p_series_id
+      AND r.rating <= 2
+      AND r.created_at > now() - INTERVAL '1 hour'
+      AND r.id IS DISTINCT FROM p_review_id;
+
+    IF v_recent >= 4 THEN
+      v_flags := array_append(v_flags, 'burst');
+    END IF;
+  END IF;
+
+  RETURN v_flags;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.screen_review_text(TEXT, TEXT, UUID, UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.screen_review_text(TEXT, TEXT, UUID, UUID, INTEGER) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.is_review_banned(p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.review_bans WHERE user_id = p_user_id);
+$$;
+
+REVOKE ALL ON FUNCTION public.is_review_banned(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_review_banned(UUID) TO authenticated, service_role;
+
+-- Organizer who owns the reviewed series (or show); responses are theirs
+CREATE OR REPLACE FUNCTION public.review_response_author(p_review_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(ss.organizer_id, s.organizer_id)
+  FROM public.reviews r
+  LEFT JOIN public.show_series ss ON ss.id = r.series_id
+  LEFT JOIN public.shows s ON s.id = r.show_id
+  WHERE r.id = p_review_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_response_author(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_response_author(UUID) TO service_role;
+
+-- 8) Screening trigger. Client writes (anon / authenticated roles, non-admin)
+--    cannot touch the moderation columns and are screened; writes from
+--    SECURITY DEFINER functions, the service role and admins are trusted.
+--    Runs as the invoker so current_user is the caller's role.
+CREATE OR REPLACE FUNCTION public.screen_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_client  BOOLEAN := current_user IN ('anon', 'authenticated') AND NOT public.has_admin_role();
+  v_flags   TEXT[];
+BEGIN
+  IF NOT v_client THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.moderation_status := 'published';
+    NEW.moderation_flags := '{}';
+    NEW.response_status := 'published';
+    NEW.response_flags := '{}';
+    NEW.held_response := NULL;
+    NEW.moderated_at := NULL;
+    NEW.moderated_by := NULL;
+  ELSE
+    NEW.moderation_status := OLD.moderation_status;
+    NEW.moderation_flags := OLD.moderation_flags;
+    NEW.response_status := OLD.response_status;
+    NEW.response_flags := OLD.response_flags;
+    NEW.held_response := OLD.held_response;
+    NEW.moderated_at := OLD.moderated_at;
+    NEW.moderated_by := OLD.moderated_by;
+  END IF;
+
+  -- Review text and rating
+  IF TG_OP = 'INSERT'
+     OR NEW.comment IS DISTINCT FROM OLD.comment
+     OR NEW.rating IS DISTINCT FROM OLD.rating THEN
+    IF public.is_review_banned(NEW.user_id) THEN
+      RAISE EXCEPTION 'You are not allowed to post reviews'
+        USING ERRCODE = '42501';
+    END IF;
+
+    NEW.comment_fingerprint := public.review_text_fingerprint(NEW.comment);
+    v_flags := public.screen_review_text(
+      NEW.comment, NEW.comment_fingerprint, NEW.id, NEW.series_id, NEW.rating
+    );
+
+    IF cardinality(v_flags) > 0 THEN
+      NEW.moderation_status := 'pending';
+      NEW.moderation_flags := v_flags;
+    ELSIF NEW.moderation_status = 'hidden' THEN
+      -- An edited hidden review goes back to an admin rather than straight out
+      NEW.moderation_status := 'pending';
+    END IF;
+  END IF;
+
+  -- Organizer response
+  IF TG_OP = 'UPDATE' AND NEW.organizer_response IS DISTINCT FROM OLD.organizer_response THEN
+    IF NEW.organizer_response IS NULL THEN
+      -- Withdrawn; the status is kept so a re-post is still held
+      NEW.held_response := NULL;
+    ELSE
+      IF public.is_review_banned(auth.uid()) THEN
+        RAISE EXCEPTION 'You are not allowed to respond to reviews'
+          USING ERRCODE = '42501';
+      END IF;
+
+      v_flags := public.screen_review_text(NEW.organizer_response->>'comment');
+
+      -- Held or hidden responses stay with the admin when rewritten
+      IF cardinality(v_flags) > 0 OR NEW.response_status <> 'published' THEN
+        NEW.response_status := 'pending';
+        NEW.response_flags := CASE WHEN cardinality(v_flags) > 0 THEN v_flags ELSE NEW.response_flags END;
+        NEW.held_response := NEW.organizer_response;
+        NEW.organizer_response := NULL;
+      ELSE
+        NEW.held_response := NULL;
+        NEW.response_status := 'published';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reviews_screen ON public.reviews;
+CREATE TRIGGER trg_reviews_screen
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.screen_review();
+
+-- Log automated holds (screening and report thresholds) to the audit trail
+CREATE OR REPLACE FUNCTION public.log_review_auto_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF cardinality(NEW.moderation_flags) > 0
+     AND (TG_OP = 'INSERT' OR NEW.moderation_flags IS DISTINCT FROM OLD.moderation_flags) THEN
+    INSERT INTO public.review_moderation_actions (review_id, target, action, subject_id, details)
+    VALUES (NEW.id, 'review', 'auto_hold', NEW.user_id,
+            jsonb_build_object('flags', to_jsonb(NEW.moderation_flags)));
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND cardinality(NEW.response_flags) > 0
+     AND NEW.response_flags IS DISTINCT FROM OLD.response_flags THEN
+    INSERT INTO public.review_moderation_actions (review_id, target, action, subject_id, details)
+    VALUES (NEW.id, 'response', 'auto_hold', public.review_response_author(NEW.id),
+            jsonb_build_object('flags', to_jsonb(NEW.response_flags)));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reviews_log_auto_hold ON public.reviews;
+CREATE TRIGGER trg_reviews_log_auto_hold
+  AFTER INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_review_auto_hold();
+
+-- 9) Ratings only count published reviews. Same functions and triggers as
+--    db_migrations/reviews_and_series_schema.sql plus the status filter.
+CREATE OR REPLACE FUNCTION public.update_review_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.show_id IS NOT NULL THEN
+        UPDATE public.shows
+        SET
+            rating = (
+                SELECT AVG(rating)::numeric(3,2)
+                FROM public.reviews
+                WHERE show_id = NEW.show_id
+                  AND moderation_status = 'published'
+            )
+        WHERE id = NEW.show_id;
+    END IF;
+
+    IF NEW.series_id IS NOT NULL THEN
+        UPDATE public.show_series
+        SET
+            average_rating = (
+                SELECT AVG(rating)::numeric(3,2)
+                FROM public.reviews
+                WHERE series_id = NEW.series_id
+                  AND moderation_status = 'published'
+            ),
+            review_count = (
+                SELECT COUNT(*)
+                FROM public.reviews
+                WHERE series_id = NEW.series_id
+                  AND moderation_status = 'published'
+            )
+        WHERE id = NEW.series_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.update_review_stats_on_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.show_id IS NOT NULL THEN
+        UPDATE public.shows
+        SET
+            rating = (
+                SELECT AVG(rating)::numeric(3,2)
+                FROM public.reviews
+                WHERE show_id = OLD.show_id
+                  AND moderation_status = 'published'
+            )
+        WHERE id = OLD.show_id;
+    END IF;
+
+    IF OLD.series_id IS NOT NULL THEN
+        UPDATE public.show_series
+        SET
+            average_rating = (
+                SELECT AVG(rating)::numeric(3,2)
+                FROM public.reviews
+                WHERE series_id = OLD.series_id
+                  AND moderation_status = 'published'
+            ),
+            review_count = (
+                SELECT COUNT(*)
+                FROM public.reviews
+                WHERE series_id = OLD.series_id
+                  AND moderation_status = 'published'
+            )
+        WHERE id = OLD.series_id;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reviews_update_trigger ON public.reviews;
+CREATE TRIGGER reviews_update_trigger
+AFTER UPDATE ON public.reviews
+FOR EACH ROW
+WHEN (OLD.rating IS DISTINCT FROM NEW.rating
+      OR OLD.show_id IS DISTINCT FROM NEW.show_id
+      OR OLD.series_id IS DISTINCT FROM NEW.series_id
+      OR OLD.moderation_status IS DISTINCT FROM NEW.moderation_status)
+EXECUTE FUNCTION public.update_review_stats();
+
+-- 10) Reports: audit each one and hold the item at three open reports
+CREATE OR REPLACE FUNCTION public.handle_review_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_open INTEGER;
+BEGIN
+  INSERT INTO public.review_moderation_actions (review_id, target, action, actor_id, reason, details)
+  VALUES (NEW.review_id, NEW.target, 'report', NEW.reporter_id, NEW.reason,
+          jsonb_build_object('details', NEW.details));
+
+  SELECT count(*) INTO v_open
+  FROM public.review_reports
+  WHERE review_id = NEW.review_id AND target = NEW.target AND status = 'open';
+
+  IF v_open >= 3 THEN
+    IF NEW.target = 'review' THEN
+      UPDATE public.reviews
+      SET moderation_status = 'pending',
+          moderation_flags = array_append(moderation_flags, 'reports')
+      WHERE id = NEW.review_id
+        AND moderation_status = 'published'
+        AND NOT ('reports' = ANY (moderation_flags));
+    ELSE
+      UPDATE public.reviews
+      SET response_status = 'pending',
+          response_flags = array_append(response_flags, 'reports'),
+          held_response = organizer_response,
+          organizer_response = NULL
+      WHERE id = NEW.review_id
+        AND response_status = 'published'
+        AND organizer_response IS NOT NULL
+        AND NOT ('reports' = ANY (response_flags));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_review_reports_received ON public.review_reports;
+CREATE TRIGGER trg_review_reports_received
+  AFTER INSERT ON public.review_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_review_report();
+
+-- 11) Admin queue: one row per held or reported review / response
+CREATE OR REPLACE FUNCTION public.get_review_moderation_queue(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  review_id         UUID,
+  target            TEXT,
+  status            TEXT,
+  flags             TEXT[],
+  content           TEXT,
+  rating            INTEGER,
+  show_id           UUID,
+  show_title        TEXT,
+  series_id         UUID,
+  series_name       TEXT,
+  author_id         UUID,
+  author_name       TEXT,
+  author_banned     BOOLEAN,
+  open_reports      INTEGER,
+  report_reasons    TEXT[],
+  created_at        TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  WITH items AS (
+    SELECT r.id, 'review'::TEXT AS target, r.moderation_status AS status,
+           r.moderation_flags AS flags, r.comment AS content, r.user_id AS author_id, r.created_at
+    FROM public.reviews r
+    WHERE r.moderation_status = 'pending'
+       OR (r.moderation_status = 'published' AND EXISTS (
+             SELECT 1 FROM public.review_reports rr
+             WHERE rr.review_id = r.id AND rr.target = 'review' AND rr.status = 'open'))
+    UNION ALL
+    SELECT r.id, 'response'::TEXT, r.response_status, r.response_flags,
+           COALESCE(r.held_response, r.organizer_response)->>'comment',
+           public.review_response_author(r.id),
+           COALESCE((COALESCE(r.held_response, r.organizer_response)->>'date')::TIMESTAMPTZ, r.updated_at)
+    FROM public.reviews r
+    WHERE COALESCE(r.held_response, r.organizer_response) IS NOT NULL
+      AND (r.response_status = 'pending'
+       OR (r.response_status = 'published' AND EXISTS (
+             SELECT 1 FROM public.review_reports rr
+             WHERE rr.review_id = r.id AND rr.target = 'response' AND rr.status = 'open')))
+  )
+  SELECT
+    i.id,
+    i.target,
+    i.status,
+    i.flags,
+    i.content,
+    r.rating,
+    r.show_id,
+    s.title::TEXT,
+    r.series_id,
+    ss.name::TEXT,
+    i.author_id,
+    COALESCE(
+      NULLIF(TRIM(p.display_name), ''),
+      NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), ''),
+      'Unknown user'
+    )::TEXT,
+    EXISTS (SELECT 1 FROM public.review_bans b WHERE b.user_id = i.author_id),
+    rep.open_reports,
+    rep.reasons,
+    i.created_at
+  FROM items i
+  JOIN public.reviews r ON r.id = i.id
+  LEFT JOIN public.shows s ON s.id = r.show_id
+  LEFT JOIN public.show_series ss ON ss.id = r.series_id
+  LEFT JOIN public.profiles p ON p.id = i.author_id
+  LEFT JOIN LATERAL (
+    SELECT count(*)::INTEGER AS open_reports,
+           COALESCE(array_agg(DISTINCT rr.reason) FILTER (WHERE rr.reason IS NOT NULL), '{}') AS reasons
+    FROM public.review_reports rr
+    WHERE rr.review_id = i.id AND rr.target = i.target AND rr.status = 'open'
+  ) rep ON TRUE
+  ORDER BY rep.open_reports DESC, i.created_at ASC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 50), 200));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_review_moderation_queue(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_review_moderation_queue(INTEGER) TO authenticated, service_role;
+
+-- 12) Admin decision: approve, hide, or hide and ban the author
+CREATE OR REPLACE FUNCTION public.moderate_review(
+  p_review_id UUID,
+  p_action TEXT,
+  p_target TEXT DEFAULT 'review',
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review  public.reviews%ROWTYPE;
+  v_subject UUID;
+  v_status  TEXT;
+BEGIN
+  IF NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_action NOT IN ('approve', 'hide', 'ban') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF p_target NOT IN ('review', 'response') THEN
+    RAISE EXCEPTION 'Unknown moderation target: %', p_target;
+  END IF;
+
+  SELECT * INTO v_review FROM public.reviews WHERE id = p_review_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  v_subject := CASE
+    WHEN p_target = 'review' THEN v_review.user_id
+    ELSE public.review_response_author(p_review_id)
+  END;
+  v_status := CASE WHEN p_action = 'approve' THEN 'published' ELSE 'hidden' END;
+
+  IF p_target = 'review' THEN
+    UPDATE public.reviews
+    SET moderation_status = v_status,
+        moderation_flags = CASE WHEN p_action = 'approve' THEN '{}' ELSE moderation_flags END,
+        moderated_at = now(),
+        moderated_by = auth.uid()
+    WHERE id = p_review_id;
+  ELSE
+    IF v_review.organizer_response IS NULL AND v_review.held_response IS NULL THEN
+      RAISE EXCEPTION 'Review has no organizer response';
+    END IF;
+
+    UPDATE public.reviews
+    SET response_status = v_status,
+        response_flags = CASE WHEN p_action = 'approve' THEN '{}' ELSE response_flags END,
+        organizer_response = CASE
+          WHEN p_action = 'approve' THEN COALESCE(held_response, organizer_response)
+        END,
+        held_response = CASE
+          WHEN p_action = 'approve' THEN NULL
+          ELSE COALESCE(held_response, organizer_response)
+        END,
+        moderated_at = now(),
+        moderated_by = auth.uid()
+    WHERE id = p_review_id;
+  END IF;
+
+  UPDATE public.review_reports
+  SET status = CASE WHEN p_action = 'approve' THEN 'dismissed' ELSE 'upheld' END,
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE review_id = p_review_id AND target = p_target AND status = 'open';
+
+  IF p_action = 'ban' AND v_subject IS NOT NULL THEN
+    INSERT INTO public.review_bans (user_id, reason, banned_by)
+    VALUES (v_subject, p_reason, auth.uid())
+    ON CONFLICT (user_id) DO UPDATE
+      SET reason = EXCLUDED.reason, banned_by = EXCLUDED.banned_by, created_at = now();
+  END IF;
+
+  INSERT INTO public.review_moderation_actions (review_id, target, action, actor_id, subject_id, reason)
+  VALUES (p_review_id, p_target, p_action, auth.uid(), v_subject, p_reason);
+
+  IF p_action <> 'approve' AND v_subject IS NOT NULL THEN
+    INSERT INTO public.user_notifications (user_id, title, message, type, reference_id)
+    VALUES (
+      v_subject,
+      CASE WHEN p_target = 'review' THEN 'Your review was removed' ELSE 'Your response was removed' END,
+      CASE WHEN p_action = 'ban'
+        THEN 'It broke our community guidelines, and you can no longer post reviews or responses.'
+        ELSE 'It broke our community guidelines and is no longer visible.'
+      END,
+      'review_moderation',
+      p_review_id
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'review_id', p_review_id,
+    'target', p_target,
+    'status', v_status,
+    'banned', p_action = 'ban' AND v_subject IS NOT NULL
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.moderate_review(UUID, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.moderate_review(UUID, TEXT, TEXT, TEXT) TO authenticated, service_role;
+
+-- 13) Audit trail for the dashboard, with names resolved
+CREATE OR REPLACE FUNCTION public.get_review_moderation_log(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id            UUID,
+  review_id     UUID,
+  target        TEXT,
+  action        TEXT,
+  actor_name    TEXT,
+  subject_name  TEXT,
+  reason        TEXT,
+  details       JSONB,
+  created_at    TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.review_id,
+    a.target,
+    a.action,
+    CASE WHEN a.actor_id IS NULL THEN 'Automated' ELSE COALESCE(
+      NULLIF(TRIM(actor.display_name), ''),
+      NULLIF(TRIM(CONCAT_WS(' ', actor.first_name, actor.last_name)), ''),
+      'Unknown user'
+    ) END::TEXT,
+    COALESCE(
+      NULLIF(TRIM(subject.display_name), ''),
+      NULLIF(TRIM(CONCAT_WS(' ', subject.first_name, subject.last_name)), ''),
+      'Unknown user'
+    )::TEXT,
+    a.reason,
+    a.details,
+    a.created_at
+  FROM public.review_moderation_actions a
+  LEFT JOIN public.profiles actor ON actor.id = a.actor_id
+  LEFT JOIN public.profiles subject ON subject.id = a.subject_id
+  ORDER BY a.created_at DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 50), 200));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_review_moderation_log(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_review_moderation_log(INTEGER) TO authenticated, service_role;
+
+-- 14) Badges only count published reviews. badge_metric_value() is the
+--     20251020200000_badge_rules.sql version with the status filter. Held
+--     reviews earn nothing until approved; hiding a review takes back any
+--     reviews_written badge the author no longer qualifies for. Report
+--     holds don't revoke, so approving one doesn't re-send badge_earned.
+CREATE OR REPLACE FUNCTION public.badge_metric_value(p_user_id UUID, p_metric TEXT, p_params JSONB DEFAULT '{}'::jsonb)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_value INTEGER := 0;
+BEGIN
+  CASE p_metric
+    WHEN 'shows_attended' THEN
+      SELECT count(*) INTO v_value
+      FROM public.show_check_ins
+      WHERE user_id = p_user_id;
+
+    WHEN 'distinct_states' THEN
+      SELECT count(DISTINCT public.us_state_from_address(s.address)) INTO v_value
+      FROM public.show_check_ins ci
+      JOIN public.shows s ON s.id = ci.show_id
+      WHERE ci.user_id = p_user_id;
+
+    WHEN 'reviews_written' THEN
+      SELECT count(*) INTO v_value
+      FROM public.reviews
+      WHERE user_id = p_user_id
+        AND moderation_status = 'published';
+
+    WHEN 'series_visits' THEN
+      SELECT coalesce(max(visits), 0) INTO v_value
+      FROM (
+        SELECT count(*) AS visits
+        FROM public.show_check_ins ci
+        JOIN public.shows s ON s.id = ci.show_id
+        WHERE ci.user_id = p_user_id
+          AND s.series_id IS NOT NULL
+          -- Compared as text so a malformed ID matches nothing instead of raising
+          AND (p_params->>'series_id' IS NULL OR s.series_id::TEXT = lower(p_params->>'series_id'))
+        GROUP BY s.series_id
+      ) per_series;
+
+    WHEN 'shows_in_year' THEN
+      SELECT count(*) INTO v_value
+      FROM public.show_check_ins ci
+      JOIN public.shows s ON s.id = ci.show_id
+      WHERE ci.user_id = p_user_id
+        AND extract(year FROM s.start_date) =
+            CASE WHEN p_params->>'year' ~ '^\d{4}$' THEN (p_params->>'year')::INTEGER
+                 ELSE extract(year FROM now())::INTEGER END;
+
+    WHEN 'dealer_booths_visited' THEN
+      SELECT count(*) INTO v_value
+      FROM public.dealer_booth_visits
+      WHERE user_id = p_user_id;
+
+    ELSE
+      v_value := 0;
+  END CASE;
+
+  RETURN coalesce(v_value, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_metric_value(UUID, TEXT, JSONB) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.reviews_moderation_evaluate_badges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.moderation_status = 'hidden' THEN
+    DELETE FROM public.user_badges ub
+    USING public.badges_definitions b
+    WHERE ub.badge_id = b.id
+      AND ub.user_id = NEW.user_id
+      AND b.metric = 'reviews_written'
+      AND public.badge_metric_value(NEW.user_id, b.metric, b.params) < b.threshold;
+  ELSIF NEW.moderation_status = 'published' THEN
+    PERFORM public.evaluate_user_badges(NEW.user_id, ARRAY['reviews_written']);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reviews_moderation_evaluate_badges ON public.reviews;
+CREATE TRIGGER trg_reviews_moderation_evaluate_badges
+  AFTER UPDATE ON public.reviews
+  FOR EACH ROW
+  WHEN (OLD.moderation_status IS DISTINCT FROM NEW.moderation_status)
+  EXECUTE FUNCTION public.reviews_moderation_evaluate_badges();
+
+COMMIT;
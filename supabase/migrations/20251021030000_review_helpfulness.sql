@@ -0,0 +1,230 @@
+-- Migration: 20251021030000_review_helpfulness.sql
+-- Description: Helpful / not-helpful votes on reviews with a ranking score
+--              for "most helpful" sorting, a verified-attendee label for
+--              reviewers who favorited or checked in to the reviewed show,
+--              and optional per-aspect ratings (venue, dealer variety,
+--              pricing, parking).
+-- Date: 2025-10-21
+
+BEGIN;
+
+-- 1) New review columns
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS venue_rating SMALLINT CHECK (venue_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS dealer_variety_rating SMALLINT CHECK (dealer_variety_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS pricing_rating SMALLINT CHECK (pricing_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS parking_rating SMALLINT CHECK (parking_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS verified_attendee BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS helpful_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS not_helpful_count INTEGER NOT NULL DEFAULT 0;
+
+-- Lower bound of the Wilson score interval (95%) for the share of helpful
+-- votes, so one 1/1 review doesn't outrank a 40/45 one. 0 with no votes.
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS helpfulness_score DOUBLE PRECISION
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN helpful_count + not_helpful_count = 0 THEN 0
+      ELSE (
+        (helpful_count + 1.9208) / (helpful_count + not_helpful_count)::DOUBLE PRECISION
+        - 1.96 * sqrt(
+            (helpful_count::DOUBLE PRECISION * not_helpful_count) / (helpful_count + not_helpful_count)
+            + 0.9604
+          ) / (helpful_count + not_helpful_count)
+      ) / (1 + 3.8416 / (helpful_count + not_helpful_count))
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_show_helpfulness
+  ON public.reviews (show_id, helpfulness_score DESC, created_at DESC);
+
+COMMENT ON COLUMN public.reviews.verified_attendee IS
+'Reviewer favorited or checked in to show_id. Set by trigger; clients cannot change it.';
+
+-- 2) Votes, one per user per review
+CREATE TABLE IF NOT EXISTS public.review_votes (
+  review_id   UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  helpful     BOOLEAN NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (review_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_votes_user ON public.review_votes (user_id);
+
+ALTER TABLE public.review_votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes are private; totals are on reviews
+DROP POLICY IF EXISTS "review_votes_select_self" ON public.review_votes;
+CREATE POLICY "review_votes_select_self"
+  ON public.review_votes
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "review_votes_insert_self" ON public.review_votes;
+CREATE POLICY "review_votes_insert_self"
+  ON public.review_votes
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.reviews r
+      WHERE r.id = review_votes.review_id AND r.user_id <> auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "review_votes_update_self" ON public.review_votes;
+CREATE POLICY "review_votes_update_self"
+  ON public.review_votes
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "review_votes_delete_self" ON public.review_votes;
+CREATE POLICY "review_votes_delete_self"
+  ON public.review_votes
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.review_votes TO authenticated;
+GRANT ALL ON TABLE public.review_votes TO service_role;
+
+-- Keep the tallies on reviews in step with the votes
+CREATE OR REPLACE FUNCTION public.refresh_review_vote_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.review_id ELSE NEW.review_id END;
+BEGIN
+  UPDATE public.reviews r
+  SET helpful_count = v.helpful,
+      not_helpful_count = v.not_helpful
+  FROM (
+    SELECT count(*) FILTER (WHERE rv.helpful) AS helpful,
+           count(*) FILTER (WHERE NOT rv.helpful) AS not_helpful
+    FROM public.review_votes rv
+    WHERE rv.review_id = v_review_id
+  ) v
+  WHERE r.id = v_review_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_review_votes_counts ON public.review_votes;
+CREATE TRIGGER trg_review_votes_counts
+  AFTER INSERT OR UPDATE OR DELETE ON public.review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_review_vote_counts();
+
+-- 3) Verified attendee: favorited the show or checked in at it
+CREATE OR REPLACE FUNCTION public.is_verified_attendee(p_user_id UUID, p_show_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id IS NOT NULL AND p_show_id IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM public.show_check_ins WHERE user_id = p_user_id AND show_id = p_show_id)
+    OR EXISTS (SELECT 1 FROM public.user_favorite_shows WHERE user_id = p_user_id AND show_id = p_show_id)
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_verified_attendee(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_verified_attendee(UUID, UUID) TO authenticated, service_role;
+
+-- Computed on insert and when the reviewed show changes. Like the
+-- moderation columns, client writes cannot set the label or the tallies.
+-- Runs as the invoker so current_user is the caller's role.
+CREATE OR REPLACE FUNCTION public.set_review_attendance_and_tallies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_client BOOLEAN := current_user IN ('anon', 'authenticated');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF v_client THEN
+      NEW.helpful_count := 0;
+      NEW.not_helpful_count := 0;
+    END IF;
+  ELSIF v_client THEN
+    NEW.helpful_count := OLD.helpful_count;
+    NEW.not_helpful_count := OLD.not_helpful_count;
+    NEW.verified_attendee := OLD.verified_attendee;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.show_id IS DISTINCT FROM OLD.show_id
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    NEW.verified_attendee := public.is_verified_attendee(NEW.user_id, NEW.show_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reviews_verified_attendee ON public.reviews;
+CREATE TRIGGER trg_reviews_verified_attendee
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_review_attendance_and_tallies();
+
+-- Label earlier reviews once the reviewer favorites or checks in
+CREATE OR REPLACE FUNCTION public.mark_reviews_verified_attendee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.reviews
+  SET verified_attendee = TRUE
+  WHERE user_id = NEW.user_id
+    AND show_id = NEW.show_id
+    AND NOT verified_attendee;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_show_check_ins_verify_reviews ON public.show_check_ins;
+CREATE TRIGGER trg_show_check_ins_verify_reviews
+  AFTER INSERT ON public.show_check_ins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_reviews_verified_attendee();
+
+DROP TRIGGER IF EXISTS trg_user_favorite_shows_verify_reviews ON public.user_favorite_shows;
+CREATE TRIGGER trg_user_favorite_shows_verify_reviews
+  AFTER INSERT ON public.user_favorite_shows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_reviews_verified_attendee();
+
+-- 4) Vote tallies and the verified label are not edits, so they leave
+--    updated_at alone (organizer screens show it as the response date)
+CREATE OR REPLACE FUNCTION public.update_reviews_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.helpful_count IS DISTINCT FROM OLD.helpful_count
+       OR NEW.not_helpful_count IS DISTINCT FROM OLD.not_helpful_count
+       OR NEW.verified_attendee IS DISTINCT FROM OLD.verified_attendee THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5) Backfill the label for existing reviews
+UPDATE public.reviews
+SET verified_attendee = TRUE
+WHERE NOT verified_attendee
+  AND public.is_verified_attendee(user_id, show_id);
+
+COMMIT;
@@ -0,0 +1,347 @@
+-- Migration: 20251021040000_scrape_change_detection.sql
+-- Description: Change detection for the scraper agent. Stores a content hash
+--              and HTTP validators per scraping source so unchanged pages
+--              are skipped, keeps a per-source snapshot of the shows last
+--              extracted so only new / changed / removed shows are queued in
+--              scraped_shows_pending, and teaches approve_pending_show to
+--              update or cancel the published show for changed and removed
+--              rows instead of inserting a new one.
+-- Date: 2025-10-21
+
+BEGIN;
+
+-- 1) Page fingerprint per source
+ALTER TABLE public.scraping_sources
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS http_etag TEXT,
+  ADD COLUMN IF NOT EXISTS http_last_modified TEXT,
+  ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_changed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.scraping_sources.content_hash IS
+  'SHA-256 of the normalized page text from the last successful run; the scraper skips extraction while it matches';
+COMMENT ON COLUMN public.scraping_sources.http_etag IS
+  'ETag from the last successful fetch, sent back as If-None-Match';
+COMMENT ON COLUMN public.scraping_sources.http_last_modified IS
+  'Last-Modified from the last successful fetch, sent back as If-Modified-Since';
+COMMENT ON COLUMN public.scraping_sources.last_checked_at IS
+  'Last time the page was fetched, changed or not';
+COMMENT ON COLUMN public.scraping_sources.last_changed_at IS
+  'Last time the page content differed from content_hash';
+
+-- 2) What kind of change a pending row represents
+ALTER TABLE public.scraped_shows_pending
+  ADD COLUMN IF NOT EXISTS change_type TEXT NOT NULL DEFAULT 'new'
+    CHECK (change_type IN ('new', 'changed', 'removed')),
+  ADD COLUMN IF NOT EXISTS show_key TEXT,
+  ADD COLUMN IF NOT EXISTS previous_payload JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_scraped_shows_pending_source_key
+  ON public.scraped_shows_pending (source_url, show_key)
+  WHERE show_key IS NOT NULL;
+
+COMMENT ON COLUMN public.scraped_shows_pending.change_type IS
+  'new: first seen on the source; changed: listed before with different details; removed: no longer listed, possibly cancelled';
+COMMENT ON COLUMN public.scraped_shows_pending.show_key IS
+  'Identity of the show within its source (name | start date | city), see _shared/scrapeDiff.ts';
+COMMENT ON COLUMN public.scraped_shows_pending.previous_payload IS
+  'raw_payload from the previous run, for changed and removed rows';
+
+-- 3) Shows each source listed on its last run
+CREATE TABLE IF NOT EXISTS public.scrape_source_shows (
+  source_url    TEXT NOT NULL,
+  show_key      TEXT NOT NULL,
+  content_hash  TEXT NOT NULL,
+  payload       JSONB NOT NULL,
+  show_id       UUID REFERENCES public.shows(id) ON DELETE SET NULL,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  removed_at    TIMESTAMPTZ,
+  PRIMARY KEY (source_url, show_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_source_shows_show
+  ON public.scrape_source_shows (show_id)
+  WHERE show_id IS NOT NULL;
+
+COMMENT ON TABLE public.scrape_source_shows IS
+  'Snapshot of the shows each scraping source listed, used to diff the next run. Written by the scraper agent.';
+COMMENT ON COLUMN public.scrape_source_shows.show_id IS
+  'Published show, set when a pending row for this key is approved';
+COMMENT ON COLUMN public.scrape_source_shows.removed_at IS
+  'When the show dropped off the source and a removed row was queued; cleared if it comes back';
+
+ALTER TABLE public.scrape_source_shows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "scrape_source_shows_admin_select" ON public.scrape_source_shows;
+CREATE POLICY "scrape_source_shows_admin_select"
+  ON public.scrape_source_shows
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role());
+
+GRANT SELECT ON TABLE public.scrape_source_shows TO authenticated;
+GRANT ALL ON TABLE public.scrape_source_shows TO service_role;
+
+-- 4) Approval: changed rows update the published show, removed rows cancel it
+CREATE OR REPLACE FUNCTION public.approve_pending_show(
+  p_pending_id UUID,
+  p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pending_record public.scraped_shows_pending;
+  v_show_data JSONB;
+  v_show_id UUID;
+  v_linked_show_id UUID;
+  v_daily_schedule JSONB;
+  v_overall_start_date DATE;
+  v_overall_end_date DATE;
+  v_message TEXT;
+BEGIN
+  -- Get the pending record
+  SELECT * INTO v_pending_record
+  FROM public.scraped_shows_pending
+  WHERE id = p_pending_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Pending show not found'
+    );
+  END IF;
+
+  -- Check if already processed
+  IF v_pending_record.status != 'PENDING' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Show already ' || v_pending_record.status
+    );
+  END IF;
+
+  -- Published show for this source listing, if an earlier row was approved
+  IF v_pending_record.show_key IS NOT NULL THEN
+    SELECT sss.show_id INTO v_linked_show_id
+    FROM public.scrape_source_shows sss
+    JOIN public.shows s ON s.id = sss.show_id
+    WHERE sss.source_url = v_pending_record.source_url
+      AND sss.show_key = v_pending_record.show_key;
+  END IF;
+
+  IF v_pending_record.change_type = 'removed' THEN
+    -- Approving a removal confirms the cancellation. Lowercase, like
+    -- ShowStatus.CANCELLED in the app and the series materializer.
+    IF v_linked_show_id IS NOT NULL THEN
+      UPDATE public.shows
+      SET status = 'cancelled',
+          updated_at = now()
+      WHERE id = v_linked_show_id
+        AND upper(COALESCE(status, '')) <> 'CANCELLED';
+      v_message := 'Show marked as cancelled';
+    ELSE
+      v_message := 'No published show is linked to this listing; nothing to cancel';
+    END IF;
+    v_show_id := v_linked_show_id;
+  ELSE
+    -- Use normalized_json if available, otherwise use raw_payload
+    v_show_data := COALESCE(v_pending_record.normalized_json, v_pending_record.raw_payload);
+
+    -- Extract daily schedule if it exists
+    v_daily_schedule := v_show_data->'dailySchedule';
+
+    -- Determine overall start and end dates
+    IF v_daily_schedule IS NOT NULL AND jsonb_array_length(v_daily_schedule) > 0 THEN
+      SELECT
+        MIN((entry->>'date')::DATE),
+        MAX((entry->>'date')::DATE)
+      INTO v_overall_start_date, v_overall_end_date
+      FROM jsonb_array_elements(v_daily_schedule) AS entry;
+    ELSE
+      v_overall_start_date := (v_show_data->>'startDate')::DATE;
+      v_overall_end_date := COALESCE((v_show_data->>'endDate')::DATE, v_overall_start_date);
+    END IF;
+
+    IF v_pending_record.change_type = 'changed' AND v_linked_show_id IS NOT NULL THEN
+      -- Source changed a show we already published: update it in place
+      -- (a listing that came back after a cancellation is reinstated)
+      UPDATE public.shows
+      SET
+        title = COALESCE(v_show_data->>'name', title),
+        description = COALESCE(v_show_data->>'description', description),
+        location = COALESCE(v_show_data->>'venueName', v_show_data->>'city', location),
+        address = COALESCE(v_show_data->>'address', v_show_data->>'city' || ', ' || v_show_data->>'state', address),
+        start_date = COALESCE(v_overall_start_date::TIMESTAMP WITH TIME ZONE, start_date),
+        end_date = COALESCE(v_overall_end_date::TIMESTAMP WITH TIME ZONE, end_date),
+        entry_fee = CASE
+          WHEN v_show_data->>'entryFee' IS NOT NULL
+          THEN (regexp_replace(v_show_data->>'entryFee', '[^0-9.]', '', 'g'))::NUMERIC
+          ELSE entry_fee
+        END,
+        daily_schedule = COALESCE(v_daily_schedule, daily_schedule),
+        status = CASE WHEN upper(COALESCE(status, '')) = 'CANCELLED' THEN 'ACTIVE' ELSE status END,
+        updated_at = now()
+      WHERE id = v_linked_show_id
+      RETURNING id INTO v_show_id;
+      v_message := 'Published show updated with the changed details';
+    ELSE
+      INSERT INTO public.shows (
+        title,
+        description,
+        location,
+        address,
+        start_date,
+        end_date,
+        entry_fee,
+        image_url,
+        website_url,
+        status,
+        daily_schedule,
+        features,
+        categories,
+        created_at,
+        updated_at
+      ) VALUES (
+        v_show_data->>'name',
+        v_show_data->>'description',
+        COALESCE(v_show_data->>'venueName', v_show_data->>'city'),
+        COALESCE(v_show_data->>'address', v_show_data->>'city' || ', ' || v_show_data->>'state'),
+        v_overall_start_date::TIMESTAMP WITH TIME ZONE,
+        v_overall_end_date::TIMESTAMP WITH TIME ZONE,
+        CASE
+          WHEN v_show_data->>'entryFee' IS NOT NULL
+          THEN (regexp_replace(v_show_data->>'entryFee', '[^0-9.]', '', 'g'))::NUMERIC
+          ELSE NULL
+        END,
+        v_show_data->>'imageUrl',
+        v_show_data->>'contactEmail',
+        'ACTIVE',
+        v_daily_schedule,
+        COALESCE(v_show_data->'features', '{}'::jsonb),
+        COALESCE(
+          ARRAY(SELECT jsonb_array_elements_text(v_show_data->'categories')),
+          ARRAY[]::text[]
+        ),
+        now(),
+        now()
+      )
+      RETURNING id INTO v_show_id;
+      v_message := 'Show approved and published with schedule';
+    END IF;
+
+    -- Link the listing so later changes and removals find this show
+    IF v_pending_record.show_key IS NOT NULL THEN
+      UPDATE public.scrape_source_shows
+      SET show_id = v_show_id
+      WHERE source_url = v_pending_record.source_url
+        AND show_key = v_pending_record.show_key;
+    END IF;
+
+    -- Update the web_show_submissions table with approved show ID
+    UPDATE public.web_show_submissions
+    SET
+      approved_show_id = v_show_id,
+      status = 'APPROVED'
+    WHERE pending_show_id = p_pending_id;
+  END IF;
+
+  -- Update the pending record
+  UPDATE public.scraped_shows_pending
+  SET
+    status = 'APPROVED',
+    admin_notes = COALESCE(p_admin_notes, admin_notes),
+    reviewed_at = now()
+  WHERE id = p_pending_id;
+
+  -- Log the action
+  INSERT INTO public.admin_feedback (
+    pending_id,
+    admin_id,
+    action,
+    feedback
+  ) VALUES (
+    p_pending_id,
+    auth.uid(),
+    'APPROVE',
+    p_admin_notes
+  );
+
+  -- Update source priority score (if source URL exists)
+  IF v_pending_record.source_url IS NOT NULL AND v_pending_record.change_type <> 'removed' THEN
+    UPDATE public.scraping_sources
+    SET
+      priority_score = LEAST(100, priority_score + 2),
+      updated_at = now()
+    WHERE url = v_pending_record.source_url;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'show_id', v_show_id,
+    'change_type', v_pending_record.change_type,
+    'message', v_message
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.approve_pending_show IS
+  'Approves a pending show: publishes new rows, updates the linked show for changed rows and cancels it for removed rows';
+
+-- 5) Review queue returns the change details
+CREATE OR REPLACE FUNCTION public.get_pending_shows(
+  p_status TEXT DEFAULT 'PENDING',
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result_data JSONB;
+  total_count INT;
+BEGIN
+  SELECT COUNT(*) INTO total_count
+  FROM public.scraped_shows_pending
+  WHERE status = p_status;
+
+  SELECT
+    jsonb_build_object(
+      'data', COALESCE(jsonb_agg(row_to_json(t)), '[]'::jsonb),
+      'pagination', jsonb_build_object(
+        'total', total_count,
+        'limit', p_limit,
+        'offset', p_offset,
+        'pages', CEIL(total_count::numeric / p_limit)
+      )
+    ) INTO result_data
+  FROM (
+    SELECT
+      id,
+      source_url,
+      raw_payload,
+      normalized_json,
+      geocoded_json,
+      status,
+      admin_notes,
+      change_type,
+      show_key,
+      previous_payload,
+      created_at,
+      reviewed_at
+    FROM public.scraped_shows_pending
+    WHERE status = p_status
+    ORDER BY created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  ) t;
+
+  RETURN result_data;
+END;
+$$;
+
+COMMIT;
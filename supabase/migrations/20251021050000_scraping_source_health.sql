@@ -0,0 +1,279 @@
+-- Migration: 20251021050000_scraping_source_health.sql
+-- Description: Source health for the scraper: a per-run log for error
+--              history, backoff and automatic disabling after repeated
+--              failures, the latest extraction sample per source in
+--              raw_ai_responses, and get_scraping_source_health() which
+--              feeds both the admin dashboard and the agent's scheduler
+--              (approved-show yield per crawl, time since last crawl).
+-- Date: 2025-10-21
+
+BEGIN;
+
+-- 1) Backoff / automatic disable
+ALTER TABLE public.scraping_sources
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+
+COMMENT ON COLUMN public.scraping_sources.next_attempt_at IS
+  'After a failure the scraper leaves the source alone until this time (exponential backoff); NULL when healthy';
+COMMENT ON COLUMN public.scraping_sources.disabled_at IS
+  'Set when the scraper disabled the source after too many consecutive failures';
+
+-- 2) One row per source per scraper run
+CREATE TABLE IF NOT EXISTS public.scraping_source_runs (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_url    TEXT NOT NULL,
+  status        TEXT NOT NULL CHECK (status IN ('success', 'unchanged', 'error')),
+  extractor     TEXT,
+  shows_found   INTEGER NOT NULL DEFAULT 0,
+  shows_queued  INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  duration_ms   INTEGER,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scraping_source_runs_source
+  ON public.scraping_source_runs (source_url, created_at DESC);
+
+COMMENT ON TABLE public.scraping_source_runs IS
+  'Outcome of each scraper-agent visit to a source: yield, extractor used and errors';
+
+ALTER TABLE public.scraping_source_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "scraping_source_runs_admin_select" ON public.scraping_source_runs;
+CREATE POLICY "scraping_source_runs_admin_select"
+  ON public.scraping_source_runs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role());
+
+GRANT SELECT ON TABLE public.scraping_source_runs TO authenticated;
+GRANT ALL ON TABLE public.scraping_source_runs TO service_role;
+
+-- 3) Extraction samples in raw_ai_responses
+-- The holding table is still drained by data-processor /
+-- process_and_load_shows(), which publish whatever they find. Samples are
+-- flagged so they are only ever read by the dashboard.
+ALTER TABLE public.raw_ai_responses
+  ADD COLUMN IF NOT EXISTS is_sample BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS extractor TEXT,
+  ADD COLUMN IF NOT EXISTS show_count INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_raw_ai_responses_samples
+  ON public.raw_ai_responses (source_url, created_at DESC)
+  WHERE is_sample;
+
+COMMENT ON COLUMN public.raw_ai_responses.is_sample IS
+  'Latest extraction sample for a scraping source (written by scraper-agent); never processed into shows';
+
+CREATE OR REPLACE FUNCTION public.process_and_load_shows()
+RETURNS TABLE(processed_count INT, error_count INT) AS $$
+DECLARE
+    raw_record RECORD;
+    json_text TEXT;
+    shows_array jsonb;
+    show_item jsonb;
+    p_processed_count INT := 0;
+    p_error_count INT := 0;
+BEGIN
+    FOR raw_record IN SELECT * FROM public.raw_ai_responses WHERE NOT is_sample LOOP
+        BEGIN
+            -- Find the start and end of the JSON array '[...]'
+            json_text := substring(raw_record.ai_response_text from '\[.*\]');
+
+            -- If a JSON array is found, process it
+            IF json_text IS NOT NULL THEN
+                shows_array := json_text::jsonb;
+
+                FOR show_item IN SELECT * FROM jsonb_array_elements(shows_array) LOOP
+                    BEGIN
+                        INSERT INTO public.shows (name, start_date, end_date, venue_name, city, state, url)
+                        SELECT
+                            NULLIF(trim(show_item->>'name'), ''),
+                            (show_item->>'startDate')::DATE,
+                            (show_item->>'endDate')::DATE,
+                            NULLIF(trim(show_item->>'venueName'), ''),
+                            NULLIF(trim(show_item->>'city'), ''),
+                            NULLIF(upper(trim(show_item->>'state')), ''),
+                            NULLIF(trim(show_item->>'url'), '')
+                        WHERE NULLIF(trim(show_item->>'name'), '') IS NOT NULL
+                          AND (show_item->>'startDate') IS NOT NULL
+                          AND (show_item->>'startDate')::text ~ '^\d{4}-\d{2}-\d{2}$'
+                        ON CONFLICT (name, start_date, city)
+                        DO UPDATE SET
+                          end_date = EXCLUDED.end_date,
+                          venue_name = EXCLUDED.venue_name,
+                          state = EXCLUDED.state,
+                          url = EXCLUDED.url;
+
+                        IF FOUND THEN
+                            p_processed_count := p_processed_count + 1;
+                        ELSE
+                            p_error_count := p_error_count + 1;
+                        END IF;
+                    EXCEPTION
+                        WHEN others THEN
+                            p_error_count := p_error_count + 1;
+                    END;
+                END LOOP;
+            ELSE
+                p_error_count := p_error_count + 1;
+            END IF;
+        EXCEPTION
+            WHEN others THEN
+                p_error_count := p_error_count + 1;
+        END;
+    END LOOP;
+
+    DELETE FROM public.raw_ai_responses WHERE NOT is_sample;
+
+    RETURN QUERY SELECT p_processed_count, p_error_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4) Health per source over the last p_days
+CREATE OR REPLACE FUNCTION public.get_scraping_source_health(p_days INTEGER DEFAULT 90)
+RETURNS TABLE (
+  url                   TEXT,
+  enabled               BOOLEAN,
+  priority_score        INTEGER,
+  error_streak          INTEGER,
+  last_success_at       TIMESTAMPTZ,
+  last_error_at         TIMESTAMPTZ,
+  last_crawled_at       TIMESTAMPTZ,
+  last_changed_at       TIMESTAMPTZ,
+  next_attempt_at       TIMESTAMPTZ,
+  disabled_at           TIMESTAMPTZ,
+  disabled_reason       TEXT,
+  notes                 TEXT,
+  crawl_count           INTEGER,
+  error_count           INTEGER,
+  queued_count          INTEGER,
+  approved_count        INTEGER,
+  rejected_count        INTEGER,
+  pending_count         INTEGER,
+  recent_errors         JSONB,
+  last_sample           TEXT,
+  last_sample_extractor TEXT,
+  last_sample_count     INTEGER,
+  last_sample_at        TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (auth.role() = 'service_role' OR public.has_admin_role()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  WITH window_start AS (
+    SELECT now() - make_interval(days => GREATEST(p_days, 1)) AS since
+  ),
+  runs AS (
+    SELECT
+      r.source_url,
+      COUNT(*) FILTER (WHERE r.status <> 'error')::INTEGER AS crawls,
+      COUNT(*) FILTER (WHERE r.status = 'error')::INTEGER AS errors
+    FROM public.scraping_source_runs r, window_start w
+    WHERE r.created_at >= w.since
+    GROUP BY r.source_url
+  ),
+  pending AS (
+    SELECT
+      p.source_url,
+      COUNT(*) FILTER (WHERE p.change_type <> 'removed')::INTEGER AS queued,
+      COUNT(*) FILTER (WHERE p.status = 'APPROVED' AND p.change_type = 'new')::INTEGER AS approved,
+      COUNT(*) FILTER (WHERE p.status = 'REJECTED')::INTEGER AS rejected,
+      COUNT(*) FILTER (WHERE p.status = 'PENDING')::INTEGER AS waiting
+    FROM public.scraped_shows_pending p, window_start w
+    WHERE p.created_at >= w.since
+    GROUP BY p.source_url
+  )
+  SELECT
+    s.url,
+    s.enabled,
+    s.priority_score,
+    s.error_streak,
+    s.last_success_at,
+    s.last_error_at,
+    GREATEST(s.last_checked_at, s.last_success_at, s.last_error_at),
+    s.last_changed_at,
+    s.next_attempt_at,
+    s.disabled_at,
+    s.disabled_reason,
+    s.notes,
+    COALESCE(runs.crawls, 0),
+    COALESCE(runs.errors, 0),
+    COALESCE(pending.queued, 0),
+    COALESCE(pending.approved, 0),
+    COALESCE(pending.rejected, 0),
+    COALESCE(pending.waiting, 0),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('at', e.created_at, 'message', e.error_message) ORDER BY e.created_at DESC)
+      FROM (
+        SELECT r.created_at, r.error_message
+        FROM public.scraping_source_runs r
+        WHERE r.source_url = s.url AND r.status = 'error'
+        ORDER BY r.created_at DESC
+        LIMIT 5
+      ) e
+    ), '[]'::jsonb),
+    sample.ai_response_text,
+    sample.extractor,
+    sample.show_count,
+    sample.created_at
+  FROM public.scraping_sources s
+  LEFT JOIN runs ON runs.source_url = s.url
+  LEFT JOIN pending ON pending.source_url = s.url
+  LEFT JOIN LATERAL (
+    SELECT a.ai_response_text, a.extractor, a.show_count, a.created_at
+    FROM public.raw_ai_responses a
+    WHERE a.source_url = s.url AND a.is_sample
+    ORDER BY a.created_at DESC
+    LIMIT 1
+  ) sample ON TRUE
+  ORDER BY s.enabled DESC, s.error_streak DESC, s.url;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_scraping_source_health(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_scraping_source_health(INTEGER) TO authenticated, service_role;
+
+-- 5) Enable / disable from the dashboard. Re-enabling clears the failure state.
+CREATE OR REPLACE FUNCTION public.set_scraping_source_enabled(p_url TEXT, p_enabled BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_admin_role() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE public.scraping_sources
+  SET
+    enabled = p_enabled,
+    error_streak = CASE WHEN p_enabled THEN 0 ELSE error_streak END,
+    next_attempt_at = NULL,
+    disabled_at = CASE WHEN p_enabled THEN NULL ELSE now() END,
+    disabled_reason = CASE WHEN p_enabled THEN NULL ELSE 'Disabled by an admin' END,
+    updated_at = now()
+  WHERE url = p_url;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Scraping source not found');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'url', p_url, 'enabled', p_enabled);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_scraping_source_enabled(TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_scraping_source_enabled(TEXT, BOOLEAN) TO authenticated;
+
+COMMIT;
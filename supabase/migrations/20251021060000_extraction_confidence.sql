@@ -0,0 +1,86 @@
+-- Migration: 20251021060000_extraction_confidence.sql
+-- Description: Per-field extraction confidence for scraped shows: the score
+--              and source snippet behind each field, an overall score, and
+--              the normalizer's auto-review outcome (approved, or why the
+--              row was held for an admin). get_pending_shows() returns them.
+-- Date: 2025-10-21
+
+BEGIN;
+
+-- 1) Confidence and auto-review columns
+ALTER TABLE public.scraped_shows_pending
+  ADD COLUMN IF NOT EXISTS field_confidence JSONB,
+  ADD COLUMN IF NOT EXISTS confidence NUMERIC(4,3)
+    CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 1)),
+  ADD COLUMN IF NOT EXISTS auto_review JSONB;
+
+COMMENT ON COLUMN public.scraped_shows_pending.field_confidence IS
+  'Per field: {confidence 0-1, method structured|verbatim|partial|inferred|missing, snippet, note}. "inferred" means the value was not found on the page';
+COMMENT ON COLUMN public.scraped_shows_pending.confidence IS
+  'Weighted mean of field_confidence; name, start date, city and state weigh most';
+COMMENT ON COLUMN public.scraped_shows_pending.auto_review IS
+  'Set by the normalizer: {decision approved|held, reasons[], threshold, confidence, reviewed_at}';
+
+-- Rows the normalizer still has to auto-review
+CREATE INDEX IF NOT EXISTS idx_scraped_shows_pending_auto_review
+  ON public.scraped_shows_pending (created_at)
+  WHERE status = 'PENDING' AND auto_review IS NULL AND confidence IS NOT NULL;
+
+-- 2) Review queue returns confidence and the auto-review outcome
+CREATE OR REPLACE FUNCTION public.get_pending_shows(
+  p_status TEXT DEFAULT 'PENDING',
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result_data JSONB;
+  total_count INT;
+BEGIN
+  SELECT COUNT(*) INTO total_count
+  FROM public.scraped_shows_pending
+  WHERE status = p_status;
+
+  SELECT
+    jsonb_build_object(
+      'data', COALESCE(jsonb_agg(row_to_json(t)), '[]'::jsonb),
+      'pagination', jsonb_build_object(
+        'total', total_count,
+        'limit', p_limit,
+        'offset', p_offset,
+        'pages', CEIL(total_count::numeric / p_limit)
+      )
+    ) INTO result_data
+  FROM (
+    SELECT
+      id,
+      source_url,
+      raw_payload,
+      normalized_json,
+      geocoded_json,
+      status,
+      admin_notes,
+      change_type,
+      show_key,
+      previous_payload,
+      field_confidence,
+      confidence,
+      auto_review,
+      created_at,
+      reviewed_at
+    FROM public.scraped_shows_pending
+    WHERE status = p_status
+    ORDER BY created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  ) t;
+
+  RETURN result_data;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,134 @@
+-- Migration: 20251021070000_show_import_pipeline.sql
+-- Description: One import pipeline for show files (CSV, TSV, XLSX, JSON)
+--              replacing the three ad-hoc importers. Column mappings are
+--              saved per source as profiles, each upload is recorded as a
+--              batch with its validation report, and imported rows go to
+--              scraped_shows_pending for review instead of into shows.
+-- Date: 2025-10-21
+
+BEGIN;
+
+-- 1) Saved column mappings
+CREATE TABLE IF NOT EXISTS public.import_mapping_profiles (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name         TEXT NOT NULL UNIQUE,
+  description  TEXT,
+  source_label TEXT NOT NULL,
+  format       TEXT CHECK (format IS NULL OR format IN ('csv', 'tsv', 'xlsx', 'json')),
+  mapping      JSONB NOT NULL DEFAULT '{}'::jsonb,
+  options      JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by   UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.import_mapping_profiles IS
+  'Column mapping per import source, see _shared/showImport.ts';
+COMMENT ON COLUMN public.import_mapping_profiles.source_label IS
+  'Names the source in scraped_shows_pending.source_url (import://<label>), so re-imports diff against earlier ones';
+COMMENT ON COLUMN public.import_mapping_profiles.mapping IS
+  'Show field -> list of file columns, joined with ", " when several are given';
+COMMENT ON COLUMN public.import_mapping_profiles.options IS
+  '{dateOrder mdy|dmy, defaultState, sheet}';
+
+ALTER TABLE public.import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "import_mapping_profiles_admin_all" ON public.import_mapping_profiles;
+CREATE POLICY "import_mapping_profiles_admin_all"
+  ON public.import_mapping_profiles
+  FOR ALL
+  TO authenticated
+  USING (public.has_admin_role())
+  WITH CHECK (public.has_admin_role());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.import_mapping_profiles TO authenticated;
+GRANT ALL ON TABLE public.import_mapping_profiles TO service_role;
+
+-- Profiles for the files the old importers read
+INSERT INTO public.import_mapping_profiles (name, description, source_label, format, mapping)
+VALUES
+  (
+    'Show ingest CSV',
+    'Columns of the old src/scripts/ingestShows.ts',
+    'show-ingest',
+    'csv',
+    '{"name": ["title"], "startDate": ["start_date"], "endDate": ["end_date"],
+      "venueName": ["location"], "address": ["address"], "city": ["city"],
+      "state": ["state"], "zipCode": ["zip"], "entryFee": ["entry_fee"],
+      "description": ["description"], "url": ["website_url"]}'::jsonb
+  ),
+  (
+    'Scraper CSV',
+    'Columns of the old scraper/csv-importer.js, see scraper/example-shows.csv',
+    'scraper-csv',
+    'csv',
+    '{"name": ["name"], "startDate": ["date"], "venueName": ["venue"],
+      "address": ["address"], "city": ["city"], "state": ["state"], "zipCode": ["zip"],
+      "showHours": ["hours"], "entryFee": ["admission"], "description": ["description"],
+      "url": ["website"], "contactInfo": ["contact", "phone", "email"]}'::jsonb
+  ),
+  (
+    'Show series JSON',
+    'Fields of the old insert-series-shows.js show list',
+    'show-series',
+    'json',
+    '{"name": ["name"], "startDate": ["start_date"], "endDate": ["end_date"],
+      "venueName": ["venue_name"], "address": ["address"], "city": ["city"],
+      "state": ["state"], "zipCode": ["postal_code"], "showHours": ["hours"],
+      "entryFee": ["entry_fee"], "description": ["description"], "url": ["source_url"],
+      "contactInfo": ["contact_info"]}'::jsonb
+  )
+ON CONFLICT (name) DO NOTHING;
+
+-- 2) One row per committed upload
+CREATE TABLE IF NOT EXISTS public.show_import_batches (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id    UUID REFERENCES public.import_mapping_profiles(id) ON DELETE SET NULL,
+  file_name     TEXT NOT NULL,
+  format        TEXT NOT NULL CHECK (format IN ('csv', 'tsv', 'xlsx', 'json')),
+  source_label  TEXT NOT NULL,
+  row_count     INT NOT NULL DEFAULT 0,
+  valid_count   INT NOT NULL DEFAULT 0,
+  queued_count  INT NOT NULL DEFAULT 0,
+  skipped_count INT NOT NULL DEFAULT 0,
+  error_count   INT NOT NULL DEFAULT 0,
+  report        JSONB,
+  created_by    UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_import_batches_created
+  ON public.show_import_batches (created_at DESC);
+
+COMMENT ON TABLE public.show_import_batches IS
+  'Uploads committed through the show-import function';
+COMMENT ON COLUMN public.show_import_batches.skipped_count IS
+  'Valid rows matching a show with nothing new, so nothing was queued';
+COMMENT ON COLUMN public.show_import_batches.report IS
+  'Rows with errors or warnings: [{rowNumber, issues[]}]';
+
+ALTER TABLE public.show_import_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "show_import_batches_admin_select" ON public.show_import_batches;
+CREATE POLICY "show_import_batches_admin_select"
+  ON public.show_import_batches
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role());
+
+GRANT SELECT ON TABLE public.show_import_batches TO authenticated;
+GRANT ALL ON TABLE public.show_import_batches TO service_role;
+
+-- 3) Pending rows remember the upload they came from
+ALTER TABLE public.scraped_shows_pending
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID
+    REFERENCES public.show_import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scraped_shows_pending_import_batch
+  ON public.scraped_shows_pending (import_batch_id)
+  WHERE import_batch_id IS NOT NULL;
+
+COMMENT ON COLUMN public.scraped_shows_pending.import_batch_id IS
+  'Set for rows queued by a file import rather than the scraper';
+
+COMMIT;
@@ -0,0 +1,158 @@
+-- ================================================================
+-- PUBLIC API KEY TESTS
+-- ================================================================
+-- pgTAP tests for the keys in 20251020170000_public_api_keys.sql:
+--   1. create_api_key(): admin only, key format, what is stored
+--   2. The stored hash matches hashApiKey() in _shared/apiKeys.ts
+--   3. revoke_api_key()
+--
+-- Usage: psql -d your_database -f test/database/public_api_key_tests.sql
+--
+-- CI/CD Usage:
+--   - Run with pg_prove: pg_prove -d your_database test/database/public_api_key_tests.sql
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgtap;
+
+BEGIN;
+
+SELECT plan(16);
+
+-- ================================================================
+-- SETUP
+-- ================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES
+  ('9a000000-0000-0000-0000-000000000001', 'admin@example.com'),
+  ('9a000000-0000-0000-0000-000000000002', 'collector@example.com');
+
+INSERT INTO public.profiles (id, role)
+VALUES
+  ('9a000000-0000-0000-0000-000000000001', 'admin'),
+  ('9a000000-0000-0000-0000-000000000002', 'collector');
+
+-- ================================================================
+-- SECTION 1: Issuing keys
+-- ================================================================
+
+SET LOCAL request.jwt.claim.sub = '9a000000-0000-0000-0000-000000000002';
+
+SELECT throws_ok(
+  $$SELECT * FROM public.create_api_key('Card Shop Widget')$$,
+  'Only admins can issue API keys',
+  'Only admins can issue keys'
+);
+
+SET LOCAL request.jwt.claim.sub = '9a000000-0000-0000-0000-000000000001';
+
+CREATE TEMP TABLE issued AS
+SELECT * FROM public.create_api_key('  Card Shop Widget  ', '   ', 30, 500, 'Embeds the map');
+
+SELECT ok(
+  (SELECT api_key ~ '^csk_[0-9a-f]{40}$' FROM issued),
+  'Keys are csk_ followed by 40 hex characters'
+);
+
+SELECT is(
+  (SELECT k.key_hash FROM public.api_keys k JOIN issued i ON i.id = k.id),
+  (SELECT encode(digest(api_key, 'sha256'), 'hex') FROM issued),
+  'Only the SHA-256 hex digest of the key is stored'
+);
+
+SELECT is(
+  (SELECT k.key_prefix FROM public.api_keys k JOIN issued i ON i.id = k.id),
+  (SELECT left(api_key, 12) FROM issued),
+  'The first 12 characters are kept to tell keys apart'
+);
+
+SELECT ok(
+  (SELECT position(i.api_key IN row_to_json(k)::TEXT) = 0 FROM public.api_keys k JOIN issued i ON i.id = k.id),
+  'The plaintext key is not stored anywhere in the row'
+);
+
+SELECT is(
+  (SELECT ROW(k.name, k.contact_email, k.requests_per_minute, k.daily_quota, k.created_by)::TEXT
+   FROM public.api_keys k JOIN issued i ON i.id = k.id),
+  ROW('Card Shop Widget', NULL::TEXT, 30, 500, '9a000000-0000-0000-0000-000000000001'::UUID)::TEXT,
+  'Names are trimmed, blank emails dropped, and the issuing admin recorded'
+);
+
+CREATE TEMP TABLE issued_defaults AS
+SELECT * FROM public.create_api_key('Podcast Site');
+
+SELECT is(
+  (SELECT ROW(k.requests_per_minute, k.daily_quota)::TEXT FROM public.api_keys k JOIN issued_defaults i ON i.id = k.id),
+  ROW(60, 10000)::TEXT,
+  'Keys default to 60 requests a minute and 10,000 a day'
+);
+
+SELECT isnt(
+  (SELECT api_key FROM issued_defaults),
+  (SELECT api_key FROM issued),
+  'Every key is random'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.create_api_key('Greedy', NULL, 0)$$,
+  '23514',
+  'Quotas must be positive'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.create_api_key('   ')$$,
+  '23514',
+  'Keys need a name'
+);
+
+-- ================================================================
+-- SECTION 2: Hash shared with the edge function
+-- ================================================================
+
+-- Same vector as __tests__/services/publicApi.test.ts
+SELECT is(
+  encode(digest('csk_0123456789abcdef0123456789abcdef01234567', 'sha256'), 'hex'),
+  '423e7a7f0e8a833230ba5f979d9da553a777800f59dee848d79e4d10680c9801',
+  'pgcrypto and hashApiKey() agree on the digest'
+);
+
+-- ================================================================
+-- SECTION 3: Revoking keys
+-- ================================================================
+
+SET LOCAL request.jwt.claim.sub = '9a000000-0000-0000-0000-000000000002';
+
+SELECT throws_ok(
+  format('SELECT public.revoke_api_key(%L)', (SELECT id FROM issued)),
+  'Only admins can revoke API keys',
+  'Only admins can revoke keys'
+);
+
+SET LOCAL request.jwt.claim.sub = '9a000000-0000-0000-0000-000000000001';
+
+SELECT lives_ok(
+  format('SELECT public.revoke_api_key(%L)', (SELECT id FROM issued)),
+  'Admins can revoke keys'
+);
+
+SELECT is(
+  (SELECT revoked_by FROM public.api_keys WHERE id = (SELECT id FROM issued) AND revoked_at IS NOT NULL),
+  '9a000000-0000-0000-0000-000000000001'::UUID,
+  'Revoking records when and by whom'
+);
+
+UPDATE public.api_keys SET revoked_at = '2025-01-01' WHERE id = (SELECT id FROM issued);
+
+SELECT lives_ok(
+  format('SELECT public.revoke_api_key(%L)', (SELECT id FROM issued)),
+  'Revoking twice is not an error'
+);
+
+SELECT is(
+  (SELECT revoked_at FROM public.api_keys WHERE id = (SELECT id FROM issued)),
+  '2025-01-01'::TIMESTAMPTZ,
+  'Revoking a revoked key keeps the original time'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
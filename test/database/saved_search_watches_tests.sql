@@ -0,0 +1,243 @@
+-- ================================================================
+-- SAVED-SEARCH WATCH TESTS
+-- ================================================================
+-- pgTAP tests for 20251020210000_saved_search_watches.sql:
+--   1. show_matches_saved_search() filters
+--   2. shows.published_at, set when a show first becomes ACTIVE
+--   3. run_saved_search_watches() matching and digest wording
+--
+-- Usage: psql -d your_database -f test/database/saved_search_watches_tests.sql
+--
+-- CI/CD Usage:
+--   - Run with pg_prove: pg_prove -d your_database test/database/saved_search_watches_tests.sql
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgtap;
+
+BEGIN;
+
+SELECT plan(20);
+
+-- ================================================================
+-- SETUP
+-- ================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES ('5a000000-0000-0000-0000-000000000001', 'watcher@example.com');
+
+-- Every show is in Indianapolis unless it says otherwise
+INSERT INTO public.shows (id, title, location, address, start_date, end_date, status, coordinates, entry_fee, categories, features, description)
+VALUES
+  ('5b000000-0000-0000-0000-000000000001', 'Indy Sports Card Show', 'Fairgrounds', 'Indianapolis, IN',
+   '2030-03-09', '2030-03-09', 'ACTIVE', ST_SetSRID(ST_MakePoint(-86.158, 39.768), 4326)::geography,
+   5, ARRAY['sports'], '{"parking": true, "food": true}', 'Vintage baseball and graded cards'),
+  ('5b000000-0000-0000-0000-000000000002', 'Chicago Card Expo', 'Convention Center', 'Rosemont, IL',
+   '2030-03-09', '2030-03-09', 'ACTIVE', ST_SetSRID(ST_MakePoint(-87.862, 41.982), 4326)::geography,
+   5, ARRAY['sports'], '{}', NULL),
+  ('5b000000-0000-0000-0000-000000000003', 'Ended Show', 'Fairgrounds', 'Indianapolis, IN',
+   '2020-03-09', '2020-03-09', 'ACTIVE', ST_SetSRID(ST_MakePoint(-86.158, 39.768), 4326)::geography,
+   0, ARRAY['sports'], '{}', NULL),
+  ('5b000000-0000-0000-0000-000000000004', 'Pending Show', 'Fairgrounds', 'Indianapolis, IN',
+   '2030-03-09', '2030-03-09', 'PENDING', ST_SetSRID(ST_MakePoint(-86.158, 39.768), 4326)::geography,
+   0, ARRAY['sports'], '{}', NULL);
+
+-- ================================================================
+-- SECTION 1: show_matches_saved_search()
+-- ================================================================
+
+SELECT ok(
+  public.show_matches_saved_search(s, '{"categories": ["sports", "tcg"], "features": ["parking"], "maxEntryFee": 10}', 39.768, -86.158),
+  'An active upcoming show within the radius matches the filters'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000001';
+
+SELECT ok(
+  NOT public.show_matches_saved_search(s, '{"radius": 25}', 39.768, -86.158),
+  'A show outside the radius does not match'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000002';
+
+SELECT ok(
+  public.show_matches_saved_search(s, '{"radius": 25}', NULL, NULL),
+  'Radius is not applied without a location'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000002';
+
+SELECT ok(
+  NOT public.show_matches_saved_search(s, '{}', 39.768, -86.158),
+  'A show that has ended does not match'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000003';
+
+SELECT ok(
+  NOT public.show_matches_saved_search(s, '{}', 39.768, -86.158),
+  'A show that is not ACTIVE does not match'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000004';
+
+SELECT ok(
+  NOT public.show_matches_saved_search(s, '{"maxEntryFee": 4}', 39.768, -86.158),
+  'An entry fee above the cap does not match'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000001';
+
+SELECT ok(
+  NOT public.show_matches_saved_search(s, '{"features": ["parking", "wifi"]}', 39.768, -86.158),
+  'Every feature is required'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000001';
+
+SELECT ok(
+  NOT public.show_matches_saved_search(s, '{"categories": ["tcg"]}', 39.768, -86.158),
+  'At least one category is required'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000001';
+
+SELECT ok(
+  public.show_matches_saved_search(s, '{"keyword": "  GRADED "}', 39.768, -86.158)
+  AND NOT public.show_matches_saved_search(s, '{"keyword": "pokemon"}', 39.768, -86.158),
+  'The keyword is trimmed and matched case-insensitively'
+)
+FROM public.shows s WHERE s.id = '5b000000-0000-0000-0000-000000000001';
+
+-- ================================================================
+-- SECTION 2: shows.published_at
+-- ================================================================
+
+SELECT ok(
+  published_at IS NULL,
+  'A show inserted as PENDING is not published'
+)
+FROM public.shows WHERE id = '5b000000-0000-0000-0000-000000000004';
+
+UPDATE public.shows
+SET status = 'ACTIVE', created_at = now() - interval '30 days'
+WHERE id = '5b000000-0000-0000-0000-000000000004';
+
+SELECT is(
+  published_at, now(),
+  'Approving a show publishes it'
+)
+FROM public.shows WHERE id = '5b000000-0000-0000-0000-000000000004';
+
+UPDATE public.shows SET published_at = now() - interval '1 day' WHERE id = '5b000000-0000-0000-0000-000000000003';
+UPDATE public.shows SET status = 'CANCELLED' WHERE id = '5b000000-0000-0000-0000-000000000003';
+UPDATE public.shows SET status = 'ACTIVE' WHERE id = '5b000000-0000-0000-0000-000000000003';
+
+SELECT is(
+  published_at, now() - interval '1 day',
+  'Reinstating a show keeps its first publish time'
+)
+FROM public.shows WHERE id = '5b000000-0000-0000-0000-000000000003';
+
+-- ================================================================
+-- SECTION 3: run_saved_search_watches()
+-- ================================================================
+
+-- A daily watch that last ran an hour ago, and an instant watch whose
+-- earliest unsent matches have been taken down since they matched
+INSERT INTO public.filter_presets (id, user_id, name, filters, watch_enabled, watch_frequency)
+VALUES
+  ('5c000000-0000-0000-0000-000000000001', '5a000000-0000-0000-0000-000000000001', 'Indy',
+   '{"latitude": 39.768, "longitude": -86.158, "radius": 25, "categories": ["sports"]}', true, 'daily'),
+  ('5c000000-0000-0000-0000-000000000002', '5a000000-0000-0000-0000-000000000001', 'Pokemon',
+   '{"keyword": "pokemon"}', true, 'instant');
+
+UPDATE public.filter_presets
+SET watch_checked_at = now() - interval '1 hour'
+WHERE id IN ('5c000000-0000-0000-0000-000000000001', '5c000000-0000-0000-0000-000000000002');
+
+-- Published before the last run: not new to the watch
+UPDATE public.shows
+SET published_at = now() - interval '2 hours'
+WHERE id = '5b000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.shows (id, title, location, address, start_date, end_date, status, coordinates, categories)
+SELECT
+  ('5b000000-0000-0000-0000-00000000001' || n)::uuid,
+  'Spring Show ' || n,
+  'Fairgrounds',
+  'Indianapolis, IN',
+  date '2030-04-01' + n,
+  date '2030-04-01' + n,
+  'ACTIVE',
+  ST_SetSRID(ST_MakePoint(-86.158, 39.768), 4326)::geography,
+  ARRAY['sports']
+FROM generate_series(1, 4) AS n;
+
+INSERT INTO public.shows (id, title, location, address, start_date, end_date, status)
+SELECT
+  ('5b000000-0000-0000-0000-00000000002' || n)::uuid,
+  'Pokemon Show ' || n,
+  'Hall',
+  'Columbus, OH',
+  date '2030-05-01' + n,
+  date '2030-05-01' + n,
+  CASE WHEN n < 4 THEN 'CANCELLED' ELSE 'ACTIVE' END
+FROM generate_series(1, 4) AS n;
+
+INSERT INTO public.saved_search_matches (preset_id, show_id, user_id)
+SELECT '5c000000-0000-0000-0000-000000000002', id, '5a000000-0000-0000-0000-000000000001'
+FROM public.shows
+WHERE title LIKE 'Pokemon Show %';
+
+SELECT lives_ok(
+  'SELECT public.run_saved_search_watches()',
+  'Watches run when the earliest unsent matches are no longer ACTIVE'
+);
+
+SELECT is(
+  (SELECT array_agg(s.title ORDER BY s.title)
+   FROM public.saved_search_matches m
+   JOIN public.shows s ON s.id = m.show_id
+   WHERE m.preset_id = '5c000000-0000-0000-0000-000000000001'),
+  ARRAY['Pending Show', 'Spring Show 1', 'Spring Show 2', 'Spring Show 3', 'Spring Show 4'],
+  'Shows published since the last run match, including one created earlier and approved since'
+);
+
+SELECT is(
+  title, '5 new shows for "Indy"',
+  'The digest title counts the new shows'
+)
+FROM public.user_notifications
+WHERE user_id = '5a000000-0000-0000-0000-000000000001'
+  AND reference_id = '5c000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  message, 'Pending Show (Mar 9), Spring Show 1 (Apr 2), Spring Show 2 (Apr 3) and 2 more',
+  'The digest lists the first three shows by date'
+)
+FROM public.user_notifications
+WHERE user_id = '5a000000-0000-0000-0000-000000000001'
+  AND reference_id = '5c000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT title || ': ' || message
+   FROM public.user_notifications
+   WHERE reference_id = '5b000000-0000-0000-0000-000000000024'),
+  'New show for "Pokemon": Pokemon Show 4 (May 5)',
+  'Shows taken down are left out, and a single show is referenced directly'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.saved_search_matches WHERE notified_at IS NULL),
+  0::bigint,
+  'Every match is marked as sent, including those taken down'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.filter_presets
+   WHERE watch_enabled AND watch_checked_at = now() AND watch_last_notified_at = now()),
+  2::bigint,
+  'Both watches record the run and the digest'
+);
+
+SELECT is(
+  (public.run_saved_search_watches())->>'digests_sent',
+  '0',
+  'Nothing is sent again on the next run'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
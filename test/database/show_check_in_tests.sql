@@ -0,0 +1,98 @@
+-- ================================================================
+-- SHOW CHECK-IN WINDOW TESTS
+-- ================================================================
+-- pgTAP tests for the check-in window in 20251020190000_show_check_ins.sql.
+-- The cases are shared with __tests__/utils/checkIn.test.ts, so
+-- show_check_in_windows() and isCheckInOpen() are held to the same rules.
+--
+-- Usage (from the repository root, which psql needs to find the cases):
+--   psql -d your_database -f test/database/show_check_in_tests.sql
+--
+-- CI/CD Usage:
+--   - Run with pg_prove: pg_prove -d your_database test/database/show_check_in_tests.sql
+-- ================================================================
+
+\set cases `cat __tests__/utils/fixtures/checkInWindows.json`
+
+CREATE EXTENSION IF NOT EXISTS pgtap;
+
+BEGIN;
+
+SELECT plan(38);
+
+-- ================================================================
+-- SECTION 1: Clock times as the app reads them
+-- ================================================================
+
+SELECT is(public.parse_show_clock_time('8:00 AM'), '08:00'::TIME, '"8:00 AM" is read');
+SELECT is(public.parse_show_clock_time(' 5pm '), '17:00'::TIME, '"5pm" is read');
+SELECT is(public.parse_show_clock_time('12:30 a.m.'), '00:30'::TIME, '"12:30 a.m." is just after midnight');
+SELECT is(public.parse_show_clock_time('10:00:00'), '10:00'::TIME, 'TIME column values are read');
+SELECT is(public.parse_show_clock_time('TBA'), NULL::TIME, 'Anything else is not a time');
+
+-- ================================================================
+-- SECTION 2: Shared window cases
+-- ================================================================
+
+-- One test per check, named after its case
+SELECT is(
+  EXISTS (
+    SELECT 1
+    FROM public.show_check_in_windows(jsonb_populate_record(NULL::public.shows, c.value->'show')) w
+    WHERE (chk.value->>'at')::TIMESTAMPTZ >= w.opens_at
+      AND (chk.value->>'at')::TIMESTAMPTZ < w.closes_at
+  ),
+  (chk.value->>'open')::BOOLEAN,
+  (c.value->>'name') || ' (' || (chk.value->>'at') || ')'
+)
+FROM jsonb_array_elements(:'cases'::jsonb) WITH ORDINALITY AS c(value, n),
+     jsonb_array_elements(c.value->'checks') WITH ORDINALITY AS chk(value, m)
+ORDER BY c.n, chk.m;
+
+-- ================================================================
+-- SECTION 3: is_show_check_in_open()
+-- ================================================================
+
+-- Two shows open all day today (UTC), one of them cancelled
+INSERT INTO public.shows (id, title, location, address, start_date, end_date, status, daily_schedule)
+SELECT
+  id,
+  title,
+  'Expo Hall',
+  '1 Main St',
+  date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC',
+  NULL,
+  status,
+  jsonb_build_array(jsonb_build_object(
+    'date', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD'),
+    'startTime', '00:00',
+    'endTime', '23:59',
+    'timezone', 'UTC'
+  ))
+FROM (VALUES
+  ('6a000000-0000-0000-0000-000000000001'::UUID, 'Running Show', 'ACTIVE'),
+  ('6a000000-0000-0000-0000-000000000002'::UUID, 'Cancelled Show', 'CANCELLED')
+) AS t(id, title, status);
+
+INSERT INTO public.shows (id, title, location, address, start_date, end_date, status)
+VALUES ('6a000000-0000-0000-0000-000000000003', 'Next Week', 'Expo Hall', '1 Main St',
+        now() + interval '7 days', NULL, 'ACTIVE');
+
+SELECT ok(
+  public.is_show_check_in_open('6a000000-0000-0000-0000-000000000001'),
+  'Check-in is open while the show is running'
+);
+
+SELECT ok(
+  NOT public.is_show_check_in_open('6a000000-0000-0000-0000-000000000002'),
+  'Check-in is closed for a cancelled show'
+);
+
+SELECT ok(
+  NOT public.is_show_check_in_open('6a000000-0000-0000-0000-000000000003'),
+  'Check-in is closed before the show'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,323 @@
+-- ================================================================
+-- SHOW DUPLICATE DETECTION TESTS
+-- ================================================================
+-- pgTAP tests for 20251020140000_show_duplicate_detection.sql:
+--   1. Title / address normalization and free-text dates
+--   2. find_show_duplicates() scoring, reasons and exclusions
+--   3. The pending-show and show-row entry points
+--   4. merge_shows(): what moves, what is dropped, and the audit row
+--
+-- Usage: psql -d your_database -f test/database/show_duplicate_tests.sql
+--
+-- CI/CD Usage:
+--   - Run with pg_prove: pg_prove -d your_database test/database/show_duplicate_tests.sql
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgtap;
+
+BEGIN;
+
+SELECT plan(31);
+
+-- ================================================================
+-- SETUP
+-- ================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES
+  ('5d000000-0000-0000-0000-000000000001', 'admin@example.com'),
+  ('5d000000-0000-0000-0000-000000000002', 'collector@example.com'),
+  ('5d000000-0000-0000-0000-000000000003', 'both@example.com'),
+  ('5d000000-0000-0000-0000-000000000004', 'dealer@example.com');
+
+INSERT INTO public.profiles (id, role)
+VALUES
+  ('5d000000-0000-0000-0000-000000000001', 'ADMIN'),
+  ('5d000000-0000-0000-0000-000000000002', 'collector');
+
+-- A venue in Rosemont, IL; the geocode cache knows one address near it
+INSERT INTO public.geocode_cache (address_norm, lat, lng)
+VALUES ('5555 n river rd, rosemont, il', 41.9821, -87.8621);
+
+INSERT INTO public.shows (id, title, location, address, start_date, end_date, status, coordinates, description, series_id)
+VALUES
+  -- The show everything is compared with
+  ('5e000000-0000-0000-0000-000000000001', 'Chicago Sports Card Show', 'Convention Center', '5555 N River Rd, Rosemont, IL',
+   '2030-03-09', '2030-03-10', 'ACTIVE', ST_SetSRID(ST_MakePoint(-87.862, 41.982), 4326)::geography,
+   NULL, '5f000000-0000-0000-0000-000000000001'),
+  -- Same show entered again by an organizer
+  ('5e000000-0000-0000-0000-000000000002', 'The 3rd Annual Chicago Card Show 2030', 'Conv. Center', '5555 North River Road, Rosemont, IL',
+   '2030-03-09', '2030-03-09', 'ACTIVE', ST_SetSRID(ST_MakePoint(-87.861, 41.982), 4326)::geography,
+   'Over 200 tables', NULL),
+  -- Same title, 10 km away, a day after
+  ('5e000000-0000-0000-0000-000000000003', 'Chicago Sports Card Show', 'Hotel Ballroom', 'Chicago, IL',
+   '2030-03-11', '2030-03-11', 'ACTIVE', ST_SetSRID(ST_MakePoint(-87.862, 42.072), 4326)::geography,
+   NULL, NULL),
+  -- Same venue and dates, different show
+  ('5e000000-0000-0000-0000-000000000004', 'Indy Toy Expo', 'Convention Center', '5555 N River Rd, Rosemont, IL',
+   '2030-03-09', '2030-03-10', 'ACTIVE', ST_SetSRID(ST_MakePoint(-87.862, 41.982), 4326)::geography,
+   NULL, NULL),
+  -- Would match, but has already been merged
+  ('5e000000-0000-0000-0000-000000000005', 'Chicago Card Show', 'Convention Center', '5555 N River Rd, Rosemont, IL',
+   '2030-03-09', '2030-03-10', 'MERGED', ST_SetSRID(ST_MakePoint(-87.862, 41.982), 4326)::geography,
+   NULL, NULL),
+  -- Would match, but is more than three days away
+  ('5e000000-0000-0000-0000-000000000006', 'Chicago Card Show', 'Convention Center', '5555 N River Rd, Rosemont, IL',
+   '2030-03-20', '2030-03-20', 'ACTIVE', ST_SetSRID(ST_MakePoint(-87.862, 41.982), 4326)::geography,
+   NULL, NULL),
+  -- Scraped without coordinates; located through the geocode cache
+  ('5e000000-0000-0000-0000-000000000007', 'Chicago Sports Cards', NULL, '5555 N River Rd, Rosemont, IL',
+   '2030-03-10', '2030-03-10', 'PENDING', NULL,
+   NULL, NULL);
+
+INSERT INTO public.scraped_shows_pending (id, raw_payload, normalized_json, geocoded_json)
+VALUES (
+  '5c000000-0000-0000-0000-000000000001',
+  '{"name": "Some Other Name", "startDate": "not a date"}',
+  '{"name": "Chicago Sports Card Show 2030", "address": "5555 N River Rd", "city": "Rosemont", "state": "IL",
+    "dailySchedule": [{"date": "2030-03-09"}, {"date": "2030-03-10"}]}',
+  '{"lat": 41.982, "lng": -87.862}'
+);
+
+-- Service-role calls have no auth.uid()
+SET LOCAL request.jwt.claim.sub = '';
+
+-- ================================================================
+-- SECTION 1: Normalization
+-- ================================================================
+
+SELECT is(
+  public.normalize_show_title('The 5th Annual Chicago Sports Card Show 2025'),
+  'chicago',
+  'Years, ordinals and generic show words are dropped from titles'
+);
+
+SELECT is(
+  public.normalize_show_title('Cards & Collectibles Expo: Rosemont!'),
+  'rosemont',
+  'Ampersands and punctuation are dropped from titles'
+);
+
+SELECT is(
+  public.normalize_geocode_address('  5555 N. River Rd.,   Rosemont, IL!! '),
+  '5555 n. river rd., rosemont, il',
+  'Addresses are normalized like the app geocoder cache keys'
+);
+
+SELECT is(public.try_parse_date('2030-03-09'), '2030-03-09'::DATE, 'ISO dates are parsed');
+SELECT is(public.try_parse_date('next Saturday'), NULL::DATE, 'Free text that is not a date is NULL');
+SELECT is(public.try_parse_date('  '), NULL::DATE, 'Blank dates are NULL');
+
+-- ================================================================
+-- SECTION 2: Scoring
+-- ================================================================
+
+CREATE TEMP TABLE matches AS
+SELECT *
+FROM public.find_show_duplicates(
+  'Chicago Sports Card Show 2030', NULL, 41.982, -87.862, '2030-03-09', '2030-03-10',
+  '5e000000-0000-0000-0000-000000000001', 0.6, 10
+);
+
+SELECT is(
+  ARRAY(SELECT show_id FROM matches ORDER BY score DESC, start_date),
+  ARRAY[
+    '5e000000-0000-0000-0000-000000000002',
+    '5e000000-0000-0000-0000-000000000007',
+    '5e000000-0000-0000-0000-000000000003'
+  ]::UUID[],
+  'Candidates come back best first, without the excluded, merged, distant-date or different shows'
+);
+
+SELECT is(
+  (SELECT score FROM matches WHERE show_id = '5e000000-0000-0000-0000-000000000002'),
+  1.00::NUMERIC,
+  'Same normalized title, venue and overlapping dates score 1'
+);
+
+SELECT is(
+  (SELECT reasons FROM matches WHERE show_id = '5e000000-0000-0000-0000-000000000002'),
+  ARRAY['Same title', 'Same venue', 'Overlapping dates'],
+  'Reasons explain a same-venue match'
+);
+
+SELECT ok(
+  (SELECT distance_km < 0.5 FROM matches WHERE show_id = '5e000000-0000-0000-0000-000000000007'),
+  'Shows without coordinates are located through the geocode cache'
+);
+
+SELECT is(
+  (SELECT date_score FROM matches WHERE show_id = '5e000000-0000-0000-0000-000000000003'),
+  0.75::NUMERIC,
+  'A show one day after the range loses a quarter of the date score'
+);
+
+SELECT is(
+  (SELECT reasons FROM matches WHERE show_id = '5e000000-0000-0000-0000-000000000003'),
+  ARRAY['Same title', 'Within 10.0 km'],
+  'Reasons give the distance for nearby venues'
+);
+
+SELECT is(
+  (SELECT score FROM public.find_show_duplicates(
+     'Chicago Sports Card Show', NULL, 41.982, -87.862, '2030-03-09', '2030-03-10', NULL, 0, 10)
+   WHERE show_id = '5e000000-0000-0000-0000-000000000004'),
+  0.50::NUMERIC,
+  'A different show at the same venue and dates only gets the venue and date weight'
+);
+
+SELECT is(
+  (SELECT reasons FROM public.find_show_duplicates(
+     'Chicago Sports Card Show', '5555 N River Rd, Rosemont, IL', NULL, NULL, '2030-03-09', '2030-03-10',
+     '5e000000-0000-0000-0000-000000000001', 0.6, 10)
+   WHERE show_id = '5e000000-0000-0000-0000-000000000002'),
+  ARRAY['Same title', 'Same venue', 'Overlapping dates'],
+  'A candidate address found in the geocode cache is compared by distance'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.find_show_duplicates(
+     'The Card Show', NULL, 41.982, -87.862, '2030-03-09', '2030-03-10', NULL, 0, 10)),
+  0,
+  'Titles with nothing left after normalization match nothing'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.find_show_duplicates(
+     'Chicago Sports Card Show', NULL, 41.982, -87.862, NULL, NULL, NULL, 0, 10)),
+  0,
+  'Candidates without a start date match nothing'
+);
+
+-- ================================================================
+-- SECTION 3: Entry points
+-- ================================================================
+
+SELECT is(
+  (SELECT show_id FROM public.find_duplicates_for_pending('5c000000-0000-0000-0000-000000000001', 1)),
+  '5e000000-0000-0000-0000-000000000001'::UUID,
+  'Pending shows are matched on their normalized name, schedule and geocode'
+);
+
+SELECT is(
+  ARRAY(SELECT show_id FROM public.find_duplicates_for_show('5e000000-0000-0000-0000-000000000001', 2)),
+  ARRAY['5e000000-0000-0000-0000-000000000002', '5e000000-0000-0000-0000-000000000007']::UUID[],
+  'A show is never its own duplicate'
+);
+
+SET LOCAL request.jwt.claim.sub = '5d000000-0000-0000-0000-000000000002';
+
+SELECT throws_ok(
+  $$SELECT * FROM public.find_duplicates_for_show('5e000000-0000-0000-0000-000000000001')$$,
+  'Admin access required',
+  'Only admins can look for duplicates'
+);
+
+SELECT throws_ok(
+  $$SELECT public.merge_shows('5e000000-0000-0000-0000-000000000001', '5e000000-0000-0000-0000-000000000002')$$,
+  'Admin access required',
+  'Only admins can merge shows'
+);
+
+-- ================================================================
+-- SECTION 4: Merging
+-- ================================================================
+
+SET LOCAL request.jwt.claim.sub = '5d000000-0000-0000-0000-000000000001';
+
+-- The collector only followed the duplicate; the other user followed both
+INSERT INTO public.user_favorite_shows (user_id, show_id)
+VALUES
+  ('5d000000-0000-0000-0000-000000000002', '5e000000-0000-0000-0000-000000000002'),
+  ('5d000000-0000-0000-0000-000000000003', '5e000000-0000-0000-0000-000000000001'),
+  ('5d000000-0000-0000-0000-000000000003', '5e000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.planned_attendance (user_id, show_id)
+VALUES ('5d000000-0000-0000-0000-000000000002', '5e000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.reviews (id, show_id, user_id, rating)
+VALUES
+  ('5a000000-0000-0000-0000-000000000001', '5e000000-0000-0000-0000-000000000002', '5d000000-0000-0000-0000-000000000002', 5),
+  ('5a000000-0000-0000-0000-000000000002', '5e000000-0000-0000-0000-000000000001', '5d000000-0000-0000-0000-000000000003', 4),
+  ('5a000000-0000-0000-0000-000000000003', '5e000000-0000-0000-0000-000000000002', '5d000000-0000-0000-0000-000000000003', 2);
+
+INSERT INTO public.show_participants (showid, userid)
+VALUES ('5e000000-0000-0000-0000-000000000002', '5d000000-0000-0000-0000-000000000004');
+
+INSERT INTO public.shared_want_lists (showid, userid)
+VALUES ('5e000000-0000-0000-0000-000000000002', '5d000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.web_show_submissions (approved_show_id)
+VALUES ('5e000000-0000-0000-0000-000000000002');
+
+SELECT throws_ok(
+  $$SELECT public.merge_shows('5e000000-0000-0000-0000-000000000001', '5e000000-0000-0000-0000-000000000001')$$,
+  'Cannot merge a show into itself',
+  'A show cannot be merged into itself'
+);
+
+SELECT is(
+  public.merge_shows('5e000000-0000-0000-0000-000000000001', '5e000000-0000-0000-0000-000000000002', 'Organizer re-entry')->'moved',
+  '{"favorites": 1, "planned_attendance": 1, "reviews": 1, "dealers": 1, "want_list_shares": 1}'::JSONB,
+  'The merge reports what it moved'
+);
+
+SELECT is(
+  ARRAY(SELECT user_id FROM public.user_favorite_shows WHERE show_id = '5e000000-0000-0000-0000-000000000001' ORDER BY user_id),
+  ARRAY['5d000000-0000-0000-0000-000000000002', '5d000000-0000-0000-0000-000000000003']::UUID[],
+  'Favorites move to the survivor without doubling up'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.user_favorite_shows WHERE show_id = '5e000000-0000-0000-0000-000000000002')
+  + (SELECT count(*)::INT FROM public.planned_attendance WHERE show_id = '5e000000-0000-0000-0000-000000000002')
+  + (SELECT count(*)::INT FROM public.show_participants WHERE showid = '5e000000-0000-0000-0000-000000000002')
+  + (SELECT count(*)::INT FROM public.shared_want_lists WHERE showid = '5e000000-0000-0000-0000-000000000002'),
+  0,
+  'Nothing but reviews is left on the duplicate'
+);
+
+SELECT is(
+  (SELECT show_id::TEXT || ' ' || series_id::TEXT FROM public.reviews WHERE id = '5a000000-0000-0000-0000-000000000001'),
+  '5e000000-0000-0000-0000-000000000001 5f000000-0000-0000-0000-000000000001',
+  'Moved reviews join the survivor and its series'
+);
+
+SELECT is(
+  (SELECT show_id FROM public.reviews WHERE id = '5a000000-0000-0000-0000-000000000003'),
+  '5e000000-0000-0000-0000-000000000002'::UUID,
+  'A user who reviewed both keeps their survivor review; the other stays behind'
+);
+
+SELECT is(
+  (SELECT approved_show_id FROM public.web_show_submissions LIMIT 1),
+  '5e000000-0000-0000-0000-000000000001'::UUID,
+  'Web submissions point at the survivor'
+);
+
+SELECT is(
+  (SELECT description FROM public.shows WHERE id = '5e000000-0000-0000-0000-000000000001'),
+  'Over 200 tables',
+  'The survivor inherits details it was missing'
+);
+
+SELECT is(
+  (SELECT status || ' ' || merged_into_id::TEXT FROM public.shows WHERE id = '5e000000-0000-0000-0000-000000000002'),
+  'MERGED 5e000000-0000-0000-0000-000000000001',
+  'The duplicate is marked merged into the survivor'
+);
+
+SELECT is(
+  (SELECT merged_by::TEXT || ' ' || notes || ' ' || (merged_snapshot->>'title') FROM public.show_merges),
+  '5d000000-0000-0000-0000-000000000001 Organizer re-entry The 3rd Annual Chicago Card Show 2030',
+  'The merge is audited with the admin, notes and a snapshot of the duplicate'
+);
+
+SELECT throws_ok(
+  $$SELECT public.merge_shows('5e000000-0000-0000-0000-000000000003', '5e000000-0000-0000-0000-000000000002')$$,
+  'Show was already merged into 5e000000-0000-0000-0000-000000000001',
+  'A merged show cannot be merged again'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
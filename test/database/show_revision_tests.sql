@@ -0,0 +1,279 @@
+-- ================================================================
+-- SHOW REVISION TESTS
+-- ================================================================
+-- pgTAP tests for 20251020120000_show_revisions.sql:
+--   1. Which updates record a revision, and the {field: {old, new}} diff
+--   2. Summary wording for dates, hours, venue, fee, status and title
+--   3. show_change notifications: who gets them and when
+--
+-- Usage: psql -d your_database -f test/database/show_revision_tests.sql
+--
+-- CI/CD Usage:
+--   - Run with pg_prove: pg_prove -d your_database test/database/show_revision_tests.sql
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgtap;
+
+BEGIN;
+
+SELECT plan(24);
+
+-- ================================================================
+-- SETUP
+-- ================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES
+  ('3a000000-0000-0000-0000-000000000001', 'favorite@example.com'),
+  ('3a000000-0000-0000-0000-000000000002', 'attendee@example.com'),
+  ('3a000000-0000-0000-0000-000000000003', 'organizer@example.com');
+
+-- Saturday 10 AM – 4 PM in New York; the past show ended years ago
+INSERT INTO public.shows (id, title, location, address, start_date, end_date, start_time, end_time, entry_fee, status)
+VALUES
+  ('3b000000-0000-0000-0000-000000000001', 'Spring Card Show', 'Expo Hall', '1 Main St, Columbus, OH 43215',
+   '2030-03-09 15:00:00+00', '2030-03-09 21:00:00+00', '10:00 AM', '4:00 PM', 5, 'ACTIVE'),
+  ('3b000000-0000-0000-0000-000000000002', 'Old Card Show', 'Expo Hall', '1 Main St, Columbus, OH 43215',
+   '2020-03-07 15:00:00+00', '2020-03-07 21:00:00+00', '10:00 AM', '4:00 PM', 5, 'ACTIVE');
+
+-- The organizer follows their own show too, so editor exclusion is visible
+INSERT INTO public.user_favorite_shows (user_id, show_id)
+VALUES
+  ('3a000000-0000-0000-0000-000000000001', '3b000000-0000-0000-0000-000000000001'),
+  ('3a000000-0000-0000-0000-000000000003', '3b000000-0000-0000-0000-000000000001'),
+  ('3a000000-0000-0000-0000-000000000001', '3b000000-0000-0000-0000-000000000002');
+
+-- Favorited and planned by the same user still means one notification
+INSERT INTO public.planned_attendance (user_id, show_id)
+VALUES
+  ('3a000000-0000-0000-0000-000000000001', '3b000000-0000-0000-0000-000000000001'),
+  ('3a000000-0000-0000-0000-000000000002', '3b000000-0000-0000-0000-000000000001');
+
+-- Every step runs in one transaction, so created_at can't tell revisions
+-- apart; each step clears the previous one and reads the revision it made.
+CREATE TEMP VIEW latest_revision AS
+SELECT * FROM public.show_revisions;
+
+-- Service-role updates, like the scraper's, have no editor
+SET LOCAL request.jwt.claim.sub = '';
+
+-- ================================================================
+-- SECTION 1: What is recorded
+-- ================================================================
+
+UPDATE public.shows SET updated_at = now() + interval '1 minute'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.show_revisions),
+  0,
+  'An update that touches no tracked field records nothing'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET description = 'Now with a kids corner'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT changes FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  '{"description": {"old": null, "new": "Now with a kids corner"}}'::JSONB,
+  'The diff holds the old and new value of each changed field'
+);
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Show details updated'],
+  'Detail-only edits get a generic summary line'
+);
+
+SELECT ok(
+  (SELECT NOT notified AND changed_by IS NULL FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  'Detail-only edits notify nobody and service-role edits have no editor'
+);
+
+-- Same calendar day in New York, one hour later
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET start_date = '2030-03-09 16:00:00+00'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT changed_fields FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['start_date'],
+  'A start_date change is recorded'
+);
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  '{}'::TEXT[],
+  'Moving the start time within the same local day is not a move'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.user_notifications),
+  0,
+  'No notifications so far'
+);
+
+-- ================================================================
+-- SECTION 2: Summary wording
+-- ================================================================
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows
+SET start_date = '2030-03-10 15:00:00+00', end_date = '2030-03-10 21:00:00+00'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Moved from Sat, Mar 9 to Sun, Mar 10'],
+  'A date move names both local days once'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET end_date = '2030-03-11 21:00:00+00'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Now ends Mon, Mar 11'],
+  'A new end day is reported when the start stays put'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET start_time = '9:00 AM', end_time = '3:00 PM'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Hours changed to 9:00 AM – 3:00 PM'],
+  'New show hours are spelled out'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET daily_schedule = '[{"date": "2030-03-10", "startTime": "9:00 AM", "endTime": "5:00 PM"}]'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Hours changed'],
+  'A daily schedule change is reported without times'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET address = '2 Main St, Columbus, OH 43215'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Venue address changed'],
+  'An address change alone is reported'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET entry_fee = 7.5
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Entry fee changed from $5.00 to $7.50'],
+  'Fee changes show both amounts'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET entry_fee = 0
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Entry is now free'],
+  'A zero fee reads as free entry'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET status = 'CANCELLED'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Show cancelled'],
+  'Cancelling is reported'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET status = 'ACTIVE'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Show is back on'],
+  'Un-cancelling is reported'
+);
+
+-- ================================================================
+-- SECTION 3: Notifications
+-- ================================================================
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.user_notifications
+   WHERE type = 'show_change' AND reference_id = '3b000000-0000-0000-0000-000000000001'),
+  27,
+  'Each of the nine attendee-relevant changes notified all three followers'
+);
+
+DELETE FROM public.user_notifications;
+
+-- The organizer edits their own show
+SET LOCAL request.jwt.claim.sub = '3a000000-0000-0000-0000-000000000003';
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET location = 'Civic Center', title = 'Spring Card Expo', website_url = 'https://example.com'
+WHERE id = '3b000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT changed_by FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  '3a000000-0000-0000-0000-000000000003'::UUID,
+  'The editor is recorded'
+);
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  ARRAY['Venue changed to Civic Center', 'Renamed to "Spring Card Expo"', 'Show details updated'],
+  'Several changes give several lines, details last'
+);
+
+SELECT is(
+  ARRAY(SELECT user_id FROM public.user_notifications ORDER BY user_id),
+  ARRAY['3a000000-0000-0000-0000-000000000001', '3a000000-0000-0000-0000-000000000002']::UUID[],
+  'Favoriters and planned attendees are notified once each, but not the editor'
+);
+
+SELECT is(
+  (SELECT title || ' / ' || message FROM public.user_notifications LIMIT 1),
+  'Spring Card Expo was updated / Venue changed to Civic Center. Renamed to "Spring Card Expo"',
+  'The notification joins the attendee-relevant lines'
+);
+
+SELECT ok(
+  (SELECT notified FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000001'),
+  'The revision is marked as notified'
+);
+
+DELETE FROM public.show_revisions;
+UPDATE public.shows SET status = 'CANCELLED'
+WHERE id = '3b000000-0000-0000-0000-000000000002';
+
+SELECT is(
+  (SELECT summary FROM latest_revision WHERE show_id = '3b000000-0000-0000-0000-000000000002'),
+  ARRAY['Show cancelled'],
+  'Changes to finished shows are still recorded'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.user_notifications
+   WHERE reference_id = '3b000000-0000-0000-0000-000000000002'),
+  0,
+  'Followers of finished shows are not notified'
+);
+
+SELECT * FROM finish();
+ROLLBACK;